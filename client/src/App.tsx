@@ -1,8 +1,8 @@
-import type { FormEvent } from "react";
 import { useEffect, useState } from "react";
 import { Link, Route, Routes, useNavigate } from "react-router-dom";
 import "./App.css";
 
+import { HeaderSearch } from "./components/HeaderSearch";
 import { HomePage } from "./pages/HomePage";
 import { LoginPage } from "./pages/LoginPage";
 import { ProfilePage } from "./pages/ProfilePage";
@@ -10,6 +10,7 @@ import { AdminPage } from "./pages/AdminPage";
 import { InventoryPage } from "./pages/InventoryPage";
 import { NotFoundPage } from "./pages/NotFoundPage";
 import { SearchResultsPage } from "./pages/SearchResultsPage";
+import { ScanPage } from "./pages/ScanPage";
 
 type Theme = "light" | "dark";
 type Language = "en" | "ru";
@@ -34,7 +35,6 @@ const App: React.FC = () => {
     const stored = window.localStorage.getItem("app-language");
     return stored === "ru" || stored === "en" ? stored : "en";
   });
-  const [searchQuery, setSearchQuery] = useState<string>("");
   const [currentUser, setCurrentUser] = useState<AuthUser | null>(() => {
     if (typeof window === "undefined") return null;
     const raw = window.localStorage.getItem("authUser");
@@ -47,11 +47,6 @@ const App: React.FC = () => {
     }
   });
 
-  const handleSearchSubmit = (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
-  };
-
   const toggleTheme = () => {
     setTheme((prev) => (prev === "light" ? "dark" : "light"));
   };
@@ -87,16 +82,7 @@ const App: React.FC = () => {
           </Link>
         </div>
 
-        <form className="app-header__search" onSubmit={handleSearchSubmit}>
-          <input
-            type="search"
-            placeholder={
-              language === "en" ? "Search inventories and items..." : "Поиск по инвентарям и элементам..."
-            }
-            value={searchQuery}
-            onChange={(event) => setSearchQuery(event.target.value)}
-          />
-        </form>
+        <HeaderSearch language={language} />
 
         <div className="app-header__right">
           <select
@@ -112,6 +98,12 @@ const App: React.FC = () => {
             {theme === "light" ? "🌞" : "🌙"}
           </button>
 
+          <Link to="/scan" className="me-2">
+            <button type="button" className="app-header__auth-button">
+              {language === "en" ? "Scan" : "Сканер"}
+            </button>
+          </Link>
+
           <Link to="/profile" className="me-2">
             <button type="button" className="app-header__auth-button">
               {language === "en" ? "My page" : "Моя страница"}
@@ -154,6 +146,7 @@ const App: React.FC = () => {
           <Route path="/profile" element={<ProfilePage />} />
           <Route path="/admin" element={<AdminPage />} />
           <Route path="/search" element={<SearchResultsPage />} />
+          <Route path="/scan" element={<ScanPage />} />
           <Route path="/inventories/:id" element={<InventoryPage />} />
           <Route path="*" element={<NotFoundPage />} />
         </Routes>
@@ -0,0 +1,232 @@
+import { useState } from "react";
+
+interface CustomIdChange {
+  itemId: string;
+  oldCustomId: string;
+  newCustomId: string;
+}
+
+interface CustomIdCollision extends CustomIdChange {
+  reason: string;
+}
+
+interface ReIdResponse {
+  message?: string;
+  dryRun: boolean;
+  applied: boolean;
+  changes: CustomIdChange[];
+  collisions: CustomIdCollision[];
+  // Returned by a dry run without collisions; applying with it keeps the IDs shown.
+  planToken?: string;
+}
+
+type ReIdScope = "all" | "selected";
+
+interface CustomIdReIdPanelProps {
+  inventoryId: string;
+  canEdit: boolean;
+  selectedItemIds: string[];
+  onApplied: () => void;
+}
+
+// Regenerates the IDs of existing items with the current format, after a dry run.
+export const CustomIdReIdPanel: React.FC<CustomIdReIdPanelProps> = ({
+  inventoryId,
+  canEdit,
+  selectedItemIds,
+  onApplied,
+}) => {
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [scope, setScope] = useState<ReIdScope>("all");
+  const [restartSequence, setRestartSequence] = useState<boolean>(false);
+  const [result, setResult] = useState<ReIdResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const runReId = async (dryRun: boolean) => {
+    if (!inventoryId || !canEdit) return;
+    try {
+      setBusy(true);
+      setError(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/custom-id/reid`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          dryRun,
+          restartSequence,
+          ...(scope === "selected" ? { itemIds: selectedItemIds } : {}),
+          ...(!dryRun && result?.planToken ? { planToken: result.planToken } : {}),
+        }),
+      });
+
+      const data = (await response.json()) as ReIdResponse;
+      if (response.status === 409) {
+        setResult(data);
+        setError(data.message ?? "Some new IDs collide.");
+        return;
+      }
+      if (!response.ok) {
+        setResult(null);
+        setError(data.message ?? "Failed to regenerate IDs.");
+        return;
+      }
+
+      setResult(data);
+      if (data.applied) {
+        onApplied();
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to regenerate IDs.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = () => {
+    const count = scope === "selected" ? selectedItemIds.length : "all";
+    const confirmed = window.confirm(
+      `Regenerate the IDs of ${count} item(s)? Old IDs are kept as aliases for lookup.`,
+    );
+    if (confirmed) {
+      void runReId(false);
+    }
+  };
+
+  const changedCount =
+    result?.changes.filter((change) => change.newCustomId !== change.oldCustomId).length ?? 0;
+
+  return (
+    <div className="border rounded-3 p-3 mt-3" data-testid="inventory-custom-id-reid">
+      <div className="fw-semibold mb-2">Regenerate IDs of existing items</div>
+
+      {error && (
+        <p className="text-danger mb-2" data-testid="inventory-custom-id-reid-error">
+          {error}
+        </p>
+      )}
+
+      <div className="d-flex flex-wrap align-items-center gap-3 mb-2">
+        <div className="form-check mb-0">
+          <input
+            id="custom-id-reid-all"
+            type="radio"
+            className="form-check-input"
+            checked={scope === "all"}
+            onChange={() => {
+              setScope("all");
+              setResult(null);
+            }}
+            disabled={!canEdit}
+          />
+          <label className="form-check-label small" htmlFor="custom-id-reid-all">
+            All items
+          </label>
+        </div>
+        <div className="form-check mb-0">
+          <input
+            id="custom-id-reid-selected"
+            type="radio"
+            className="form-check-input"
+            checked={scope === "selected"}
+            onChange={() => {
+              setScope("selected");
+              setResult(null);
+            }}
+            disabled={!canEdit || selectedItemIds.length === 0}
+          />
+          <label className="form-check-label small" htmlFor="custom-id-reid-selected">
+            Selected items ({selectedItemIds.length})
+          </label>
+        </div>
+        <div className="form-check mb-0">
+          <input
+            id="custom-id-reid-restart"
+            type="checkbox"
+            className="form-check-input"
+            checked={restartSequence}
+            onChange={(event) => {
+              setRestartSequence(event.target.checked);
+              setResult(null);
+            }}
+            disabled={!canEdit}
+          />
+          <label className="form-check-label small" htmlFor="custom-id-reid-restart">
+            Restart the sequence at 1
+          </label>
+        </div>
+      </div>
+
+      <div className="btn-toolbar gap-2 mb-2">
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-primary"
+          onClick={() => void runReId(true)}
+          disabled={!canEdit || busy}
+        >
+          Dry run
+        </button>
+        <button
+          type="button"
+          className="btn btn-sm btn-primary"
+          onClick={handleApply}
+          disabled={!canEdit || busy || !result?.dryRun || result.collisions.length > 0}
+        >
+          Apply
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <p className="small mb-2">
+            {result.applied
+              ? `${changedCount} item ID(s) changed.`
+              : `${changedCount} item ID(s) would change.`}
+            {result.collisions.length > 0 && ` ${result.collisions.length} collision(s).`}
+          </p>
+          <div className="table-responsive" style={{ maxHeight: "20rem" }}>
+            <table className="table table-sm align-middle mb-0">
+              <thead className="table-light">
+                <tr>
+                  <th scope="col">Current ID</th>
+                  <th scope="col">New ID</th>
+                  <th scope="col">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.collisions.map((collision) => (
+                  <tr key={collision.itemId} className="table-danger">
+                    <td className="font-monospace">{collision.oldCustomId}</td>
+                    <td className="font-monospace">{collision.newCustomId}</td>
+                    <td className="small">{collision.reason}</td>
+                  </tr>
+                ))}
+                {result.changes.map((change) => (
+                  <tr key={change.itemId}>
+                    <td className="font-monospace">{change.oldCustomId}</td>
+                    <td className="font-monospace">{change.newCustomId}</td>
+                    <td className="small text-muted">
+                      {change.newCustomId === change.oldCustomId ? "Unchanged" : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <p className="text-muted small mt-2 mb-0">
+        Items are numbered in the order they were created. Applying keeps the IDs of the dry run,
+        random parts and date/time included; if items changed in the meantime, run it again.
+      </p>
+    </div>
+  );
+};
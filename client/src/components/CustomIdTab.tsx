@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { CustomIdReIdPanel } from "./CustomIdReIdPanel";
 
 type CustomIdElementType =
   | "FIXED_TEXT"
@@ -8,7 +9,13 @@ type CustomIdElementType =
   | "RANDOM_9_DIGITS"
   | "GUID"
   | "DATETIME"
-  | "SEQUENCE";
+  | "SEQUENCE"
+  | "FIELD_VALUE"
+  | "CATEGORY_CODE"
+  | "CREATOR_INITIALS"
+  | "CHECK_DIGIT";
+
+type CustomIdCheckDigit = "LUHN" | "MOD_11";
 
 interface CustomIdElement {
   id?: string;
@@ -16,14 +23,76 @@ interface CustomIdElement {
   orderIndex: number;
   fixedText?: string | null;
   numberWidth?: number | null;
+  fieldId?: string | null;
+  upperCase?: boolean;
+  checkDigit?: CustomIdCheckDigit | null;
+  dateFormat?: string | null;
+  timeZone?: string | null;
+}
+
+interface CustomIdValueField {
+  id: string;
+  title: string;
+  type: string;
 }
 
+const DEFAULT_DATE_FORMAT = "YYYYMMDDTHHmmss";
+
+const TIME_ZONES: string[] = Intl.supportedValuesOf?.("timeZone") ?? [];
+
+// Same tokens as the server: YYYY, YY, MM, DD, DDD (day of the year), HH, mm and ss.
+const formatDatePattern = (date: Date, pattern: string, timeZone: string): string => {
+  let parts: Record<string, number>;
+  try {
+    parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hourCycle: "h23",
+      })
+        .formatToParts(date)
+        .filter((part) => part.type !== "literal")
+        .map((part) => [part.type, Number(part.value)]),
+    );
+  } catch {
+    return "Unknown time zone";
+  }
+  const dayOfYear =
+    (Date.UTC(parts.year, parts.month - 1, parts.day) - Date.UTC(parts.year, 0, 1)) / 86_400_000 +
+    1;
+  const values: Record<string, [number, number]> = {
+    YYYY: [parts.year, 4],
+    YY: [parts.year % 100, 2],
+    DDD: [dayOfYear, 3],
+    MM: [parts.month, 2],
+    DD: [parts.day, 2],
+    HH: [parts.hour, 2],
+    mm: [parts.minute, 2],
+    ss: [parts.second, 2],
+  };
+  return pattern.replace(/YYYY|YY|DDD|MM|DD|HH|mm|ss/g, (token) =>
+    String(values[token][0]).padStart(values[token][1], "0"),
+  );
+};
+
 interface CustomIdTabProps {
   inventoryId: string;
   canEdit: boolean;
+  selectedItemIds: string[];
+  onItemsChanged: () => void;
 }
 
-export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }) => {
+export const CustomIdTab: React.FC<CustomIdTabProps> = ({
+  inventoryId,
+  canEdit,
+  selectedItemIds,
+  onItemsChanged,
+}) => {
   const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
 
   const [elements, setElements] = useState<CustomIdElement[]>([]);
@@ -32,6 +101,12 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
   const [saving, setSaving] = useState<boolean>(false);
   const [preview, setPreview] = useState<string | null>(null);
   const [previewLoading, setPreviewLoading] = useState<boolean>(false);
+  const [allowFreeForm, setAllowFreeForm] = useState<boolean>(false);
+  const [nextSequence, setNextSequence] = useState<number | null>(null);
+  const [sequenceInput, setSequenceInput] = useState<string>("");
+  const [sequenceSaving, setSequenceSaving] = useState<boolean>(false);
+  const [valueFields, setValueFields] = useState<CustomIdValueField[]>([]);
+  const [categoryCode, setCategoryCode] = useState<string>("");
 
   const loadFormat = async () => {
     if (!inventoryId) return;
@@ -44,9 +119,20 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
         throw new Error(`Failed to load custom ID format: ${response.status}`);
       }
 
-      const data: { elements: CustomIdElement[] } = await response.json();
+      const data: {
+        elements: CustomIdElement[];
+        nextSequence: number;
+        allowFreeForm: boolean;
+        categoryCode: string;
+        fields: CustomIdValueField[];
+      } = await response.json();
       const sorted = [...data.elements].sort((a, b) => a.orderIndex - b.orderIndex);
       setElements(sorted);
+      setAllowFreeForm(data.allowFreeForm);
+      setCategoryCode(data.categoryCode);
+      setValueFields(data.fields);
+      setNextSequence(data.nextSequence);
+      setSequenceInput(String(data.nextSequence));
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error(err);
@@ -111,6 +197,11 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
         const next: CustomIdElement = { ...element, [key]: value };
 
         if (key === "type") {
+          next.fieldId = null;
+          next.upperCase = false;
+          next.checkDigit = null;
+          next.dateFormat = null;
+          next.timeZone = null;
           if (value === "FIXED_TEXT") {
             next.fixedText = element.fixedText ?? "INV-";
             next.numberWidth = null;
@@ -127,6 +218,19 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
                   : element.numberWidth ?? 6;
             next.numberWidth = defaultWidth;
             next.fixedText = null;
+          } else if (value === "FIELD_VALUE") {
+            next.fieldId = valueFields[0]?.id ?? null;
+            next.numberWidth = null;
+            next.fixedText = null;
+          } else if (value === "DATETIME") {
+            next.dateFormat = DEFAULT_DATE_FORMAT;
+            next.timeZone = "UTC";
+            next.fixedText = null;
+            next.numberWidth = null;
+          } else if (value === "CHECK_DIGIT") {
+            next.checkDigit = "LUHN";
+            next.fixedText = null;
+            next.numberWidth = null;
           } else {
             next.fixedText = null;
             next.numberWidth = null;
@@ -174,7 +278,13 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
             typeof element.numberWidth === "number" && !Number.isNaN(element.numberWidth)
               ? element.numberWidth
               : null,
+          fieldId: element.fieldId ?? null,
+          upperCase: Boolean(element.upperCase),
+          checkDigit: element.checkDigit ?? null,
+          dateFormat: element.dateFormat ?? null,
+          timeZone: element.timeZone ?? null,
         })),
+        allowFreeForm,
       };
 
       const token = window.localStorage.getItem("authToken");
@@ -187,13 +297,19 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
         body: JSON.stringify(payload),
       });
 
+      if (response.status === 400) {
+        const body = (await response.json()) as { message?: string };
+        setError(body.message ?? "Failed to save custom ID format.");
+        return;
+      }
       if (!response.ok) {
         throw new Error(`Failed to save custom ID format: ${response.status}`);
       }
 
-      const data: { elements: CustomIdElement[] } = await response.json();
+      const data: { elements: CustomIdElement[]; allowFreeForm: boolean } = await response.json();
       const sorted = [...data.elements].sort((a, b) => a.orderIndex - b.orderIndex);
       setElements(sorted);
+      setAllowFreeForm(data.allowFreeForm);
       await loadPreview();
     } catch (err) {
       // eslint-disable-next-line no-console
@@ -204,12 +320,62 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
     }
   };
 
+  const handleSetSequence = async (nextValue: number) => {
+    if (!inventoryId || !canEdit) return;
+    try {
+      setSequenceSaving(true);
+      setError(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(
+        `${apiBase}/api/inventories/${inventoryId}/custom-id/sequence`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify({ nextValue }),
+        },
+      );
+
+      if (response.status === 400) {
+        const body = (await response.json()) as { message?: string };
+        setError(body.message ?? "Failed to update sequence.");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to update sequence: ${response.status}`);
+      }
+
+      const data: { nextSequence: number } = await response.json();
+      setNextSequence(data.nextSequence);
+      setSequenceInput(String(data.nextSequence));
+      await loadPreview();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to update sequence.");
+    } finally {
+      setSequenceSaving(false);
+    }
+  };
+
+  const handleResetSequence = () => {
+    const confirmed = window.confirm(
+      "Restart the sequence at 1? Numbers that are already used by items are skipped.",
+    );
+    if (confirmed) {
+      void handleSetSequence(1);
+    }
+  };
+
   return (
     <div className="bg-white rounded-3 shadow-sm p-3">
       <h2 className="h5 mb-3">Custom ID format</h2>
       <p className="text-muted mb-3">
         Configure how item IDs are generated for this inventory. Elements are applied from left to
-        right. Existing items keep their IDs.
+        right. Existing items keep their IDs unless you regenerate them below.
       </p>
 
       {error && (
@@ -249,6 +415,20 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
 
       {loading && <p className="text-muted mb-2">Loading format...</p>}
 
+      <div className="form-check mb-2">
+        <input
+          id="custom-id-allow-free-form"
+          type="checkbox"
+          className="form-check-input"
+          checked={allowFreeForm}
+          onChange={(event) => setAllowFreeForm(event.target.checked)}
+          disabled={!canEdit}
+        />
+        <label className="form-check-label small" htmlFor="custom-id-allow-free-form">
+          Allow free-form IDs (manually entered IDs do not have to match the format)
+        </label>
+      </div>
+
       <div className="table-responsive mb-3">
         <table className="table table-sm align-middle mb-0">
           <thead className="table-light">
@@ -286,6 +466,10 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
                     <option value="GUID">GUID</option>
                     <option value="DATETIME">Date/time</option>
                     <option value="SEQUENCE">Sequence</option>
+                    <option value="FIELD_VALUE">Field value</option>
+                    <option value="CATEGORY_CODE">Category code</option>
+                    <option value="CREATOR_INITIALS">Creator initials</option>
+                    <option value="CHECK_DIGIT">Check digit</option>
                   </select>
                 </td>
                 <td>
@@ -323,11 +507,134 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
                       />
                     </div>
                   )}
-                  {element.type !== "FIXED_TEXT" &&
-                    element.type !== "RANDOM_6_DIGITS" &&
-                    element.type !== "RANDOM_9_DIGITS" &&
-                    element.type !== "SEQUENCE" && (
-                      <span className="text-muted small">No additional options</span>
+                  {element.type === "FIELD_VALUE" && (
+                    <div className="d-flex flex-wrap align-items-center gap-2">
+                      <select
+                        className="form-select form-select-sm"
+                        style={{ maxWidth: "14rem" }}
+                        value={element.fieldId ?? ""}
+                        onChange={(event) =>
+                          handleChangeElement(index, "fieldId", event.target.value || null)
+                        }
+                        disabled={!canEdit}
+                      >
+                        <option value="">Choose a field...</option>
+                        {valueFields.map((field) => (
+                          <option key={field.id} value={field.id}>
+                            {field.title}
+                          </option>
+                        ))}
+                      </select>
+                      <label className="form-label mb-0 small">Max length</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={64}
+                        className="form-control form-control-sm"
+                        style={{ maxWidth: "6rem" }}
+                        value={element.numberWidth ?? ""}
+                        onChange={(event) =>
+                          handleChangeElement(
+                            index,
+                            "numberWidth",
+                            event.target.value ? Number(event.target.value) : null,
+                          )
+                        }
+                        disabled={!canEdit}
+                      />
+                      <div className="form-check mb-0">
+                        <input
+                          id={`custom-id-upper-${index}`}
+                          type="checkbox"
+                          className="form-check-input"
+                          checked={Boolean(element.upperCase)}
+                          onChange={(event) =>
+                            handleChangeElement(index, "upperCase", event.target.checked)
+                          }
+                          disabled={!canEdit}
+                        />
+                        <label
+                          className="form-check-label small"
+                          htmlFor={`custom-id-upper-${index}`}
+                        >
+                          Upper-case
+                        </label>
+                      </div>
+                    </div>
+                  )}
+                  {element.type === "CHECK_DIGIT" && (
+                    <div className="d-flex align-items-center gap-2">
+                      <select
+                        className="form-select form-select-sm"
+                        style={{ maxWidth: "14rem" }}
+                        value={element.checkDigit ?? "LUHN"}
+                        onChange={(event) =>
+                          handleChangeElement(
+                            index,
+                            "checkDigit",
+                            event.target.value as CustomIdCheckDigit,
+                          )
+                        }
+                        disabled={!canEdit}
+                      >
+                        <option value="LUHN">Luhn (0-9)</option>
+                        <option value="MOD_11">Mod-11 (0-9 or X)</option>
+                      </select>
+                      <span className="text-muted small">Computed over the parts before it</span>
+                    </div>
+                  )}
+                  {element.type === "DATETIME" && (
+                    <div className="d-flex flex-wrap align-items-center gap-2">
+                      <input
+                        type="text"
+                        className="form-control form-control-sm"
+                        style={{ maxWidth: "10rem" }}
+                        value={element.dateFormat ?? DEFAULT_DATE_FORMAT}
+                        onChange={(event) =>
+                          handleChangeElement(index, "dateFormat", event.target.value)
+                        }
+                        placeholder={DEFAULT_DATE_FORMAT}
+                        title="YYYY, YY, MM, DD, DDD (day of year), HH, mm, ss"
+                        disabled={!canEdit}
+                      />
+                      <input
+                        type="text"
+                        className="form-control form-control-sm"
+                        style={{ maxWidth: "12rem" }}
+                        list="custom-id-time-zones"
+                        value={element.timeZone ?? "UTC"}
+                        onChange={(event) =>
+                          handleChangeElement(index, "timeZone", event.target.value)
+                        }
+                        placeholder="UTC"
+                        disabled={!canEdit}
+                      />
+                      <span className="text-muted small" data-testid="custom-id-date-example">
+                        Now:{" "}
+                        <span className="font-monospace">
+                          {formatDatePattern(
+                            new Date(),
+                            element.dateFormat || DEFAULT_DATE_FORMAT,
+                            element.timeZone || "UTC",
+                          )}
+                        </span>
+                      </span>
+                    </div>
+                  )}
+                  {element.type === "CATEGORY_CODE" && (
+                    <span className="text-muted small">
+                      Inserts the inventory category code{categoryCode ? `: ${categoryCode}` : ""}
+                    </span>
+                  )}
+                  {element.type === "CREATOR_INITIALS" && (
+                    <span className="text-muted small">
+                      Initials of the user who creates the item
+                    </span>
+                  )}
+                  {(element.type === "RANDOM_20_BITS" ||
+                    element.type === "RANDOM_32_BITS" ||
+                    element.type === "GUID") && (
+                    <span className="text-muted small">No additional options</span>
                   )}
                 </td>
                 <td>
@@ -369,6 +676,11 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
             )}
           </tbody>
         </table>
+        <datalist id="custom-id-time-zones">
+          {TIME_ZONES.map((timeZone) => (
+            <option key={timeZone} value={timeZone} />
+          ))}
+        </datalist>
       </div>
 
       <div className="border rounded-3 p-3 bg-light">
@@ -391,10 +703,64 @@ export const CustomIdTab: React.FC<CustomIdTabProps> = ({ inventoryId, canEdit }
           )}
         </p>
         <p className="text-muted small mt-2 mb-0">
-          Preview shows an example value generated using the current format. Actual IDs may differ
-          due to random parts and sequence numbers.
+          Preview shows an example value generated using the current format, with the values and
+          creator of the newest item. Actual IDs may differ due to random parts and sequence
+          numbers.
         </p>
       </div>
+
+      {nextSequence !== null && elements.some((element) => element.type === "SEQUENCE") && (
+        <div className="border rounded-3 p-3 mt-3" data-testid="inventory-custom-id-sequence">
+          <div className="fw-semibold mb-2">Sequence</div>
+          <div className="d-flex align-items-center gap-2">
+            <label className="form-label mb-0 small" htmlFor="custom-id-next-sequence">
+              Next value
+            </label>
+            <input
+              id="custom-id-next-sequence"
+              type="number"
+              min={1}
+              className="form-control form-control-sm"
+              style={{ maxWidth: "10rem" }}
+              value={sequenceInput}
+              onChange={(event) => setSequenceInput(event.target.value)}
+              disabled={!canEdit}
+            />
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-primary"
+              onClick={() => void handleSetSequence(Number(sequenceInput))}
+              disabled={!canEdit || sequenceSaving || sequenceInput === String(nextSequence)}
+            >
+              Set
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={handleResetSequence}
+              disabled={!canEdit || sequenceSaving}
+            >
+              Reset to 1
+            </button>
+          </div>
+          <p className="text-muted small mt-2 mb-0">
+            Each new item takes the next number. Numbers are not reused after items are deleted.
+          </p>
+        </div>
+      )}
+
+      {elements.length > 0 && (
+        <CustomIdReIdPanel
+          inventoryId={inventoryId}
+          canEdit={canEdit}
+          selectedItemIds={selectedItemIds}
+          onApplied={() => {
+            void loadFormat();
+            void loadPreview();
+            onItemsChanged();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+
+type InventoryFieldType =
+  | "SINGLE_LINE_TEXT"
+  | "MULTI_LINE_TEXT"
+  | "NUMBER"
+  | "LINK"
+  | "BOOLEAN"
+  | "DATE"
+  | "DATETIME"
+  | "SELECT"
+  | "MULTI_SELECT"
+  | "ATTACHMENT";
+
+type FieldLimits = Record<InventoryFieldType, number>;
+
+const FIELD_TYPE_ORDER: InventoryFieldType[] = [
+  "SINGLE_LINE_TEXT",
+  "MULTI_LINE_TEXT",
+  "NUMBER",
+  "LINK",
+  "BOOLEAN",
+  "DATE",
+  "DATETIME",
+  "SELECT",
+  "MULTI_SELECT",
+  "ATTACHMENT",
+];
+
+const FIELD_TYPE_LABELS: Record<InventoryFieldType, string> = {
+  SINGLE_LINE_TEXT: "Single-line text",
+  MULTI_LINE_TEXT: "Multi-line text",
+  NUMBER: "Number",
+  LINK: "Document / image link",
+  BOOLEAN: "True / false",
+  DATE: "Date",
+  DATETIME: "Date & time",
+  SELECT: "Single select",
+  MULTI_SELECT: "Multi select",
+  ATTACHMENT: "File attachments",
+};
+
+// Global per-type field limits. Inventories can still override them from their Fields tab.
+export const FieldLimitsPanel: React.FC = () => {
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [limits, setLimits] = useState<FieldLimits | null>(null);
+  const [draft, setDraft] = useState<Partial<Record<InventoryFieldType, string>>>({});
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyResponse = (data: { limits: FieldLimits; configured: Partial<FieldLimits> }) => {
+    setLimits(data.limits);
+    setDraft(
+      Object.fromEntries(
+        Object.entries(data.configured).map(([type, limit]) => [type, String(limit)]),
+      ) as Partial<Record<InventoryFieldType, string>>,
+    );
+  };
+
+  useEffect(() => {
+    const loadLimits = async () => {
+      try {
+        setError(null);
+        const token = window.localStorage.getItem("authToken");
+        const response = await fetch(`${apiBase}/api/admin/field-limits`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to load field limits: ${response.status}`);
+        }
+        applyResponse(await response.json());
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(err);
+        setError("Failed to load field limits.");
+      }
+    };
+
+    void loadLimits();
+  }, [apiBase]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/admin/field-limits`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ limits: draft }),
+      });
+
+      if (response.status === 400) {
+        const body = (await response.json()) as { message?: string };
+        setError(body.message ?? "Failed to save field limits.");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to save field limits: ${response.status}`);
+      }
+
+      applyResponse(await response.json());
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to save field limits.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3 shadow-sm p-3 mt-3" data-testid="admin-field-limits">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <span className="fw-semibold">Field limits per inventory</span>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-primary"
+          onClick={() => void handleSave()}
+          disabled={saving || !limits}
+        >
+          {saving ? "Saving..." : "Save limits"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-danger mb-2" data-testid="admin-field-limits-error">
+          {error}
+        </p>
+      )}
+
+      <div className="row g-2">
+        {FIELD_TYPE_ORDER.map((type) => (
+          <div key={type} className="col-md-3 col-6">
+            <label className="form-label small mb-0" htmlFor={`global-limit-${type}`}>
+              {FIELD_TYPE_LABELS[type]}
+            </label>
+            <input
+              id={`global-limit-${type}`}
+              type="number"
+              min={0}
+              className="form-control form-control-sm"
+              value={draft[type] ?? ""}
+              onChange={(event) => setDraft((prev) => ({ ...prev, [type]: event.target.value }))}
+              placeholder={limits ? String(limits[type]) : ""}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-muted small mt-2 mb-0">
+        Empty values use the built-in default. Admins can override limits for a single inventory
+        on its Fields tab.
+      </p>
+    </div>
+  );
+};
@@ -1,6 +1,32 @@
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 
-type InventoryFieldType = "SINGLE_LINE_TEXT" | "MULTI_LINE_TEXT" | "NUMBER" | "LINK" | "BOOLEAN";
+type InventoryFieldType =
+  | "SINGLE_LINE_TEXT"
+  | "MULTI_LINE_TEXT"
+  | "NUMBER"
+  | "LINK"
+  | "BOOLEAN"
+  | "DATE"
+  | "DATETIME"
+  | "SELECT"
+  | "MULTI_SELECT"
+  | "ATTACHMENT";
+
+interface InventoryFieldOption {
+  id?: string;
+  label: string;
+  color: string | null;
+  orderIndex: number;
+}
+
+interface FieldValidationRules {
+  required: boolean;
+  minValue: number | null;
+  maxValue: number | null;
+  maxLength: number | null;
+  pattern: string | null;
+  allowedSchemes: string[];
+}
 
 interface InventoryField {
   id?: string;
@@ -9,6 +35,67 @@ interface InventoryField {
   description?: string | null;
   showInTable: boolean;
   orderIndex: number;
+  options: InventoryFieldOption[];
+  rules: FieldValidationRules;
+}
+
+interface FieldOptionRename {
+  from: string;
+  to: string;
+}
+
+interface FieldSchemaChange {
+  id: string;
+  title: string;
+  type: InventoryFieldType;
+  changedAttributes?: string[];
+  convertedValues?: number;
+  droppedValues?: number;
+  renamedOptions?: FieldOptionRename[];
+  removedOptions?: string[];
+}
+
+interface FieldSchemaChanges {
+  added: FieldSchemaChange[];
+  changed: FieldSchemaChange[];
+  removed: FieldSchemaChange[];
+}
+
+interface FieldConversionLoss {
+  itemId: string;
+  customId: string;
+  value: string;
+}
+
+interface FieldConversionPreview {
+  fieldId: string;
+  title: string;
+  fromType: InventoryFieldType;
+  toType: InventoryFieldType;
+  totalValues: number;
+  convertedValues: number;
+  lostValues: FieldConversionLoss[];
+}
+
+interface FieldRemovalPreview {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  valuesCount: number;
+}
+
+interface FieldOptionRemovalPreview {
+  fieldId: string;
+  title: string;
+  label: string;
+  valuesCount: number;
+}
+
+interface FieldMigrationPreview {
+  conversions: FieldConversionPreview[];
+  removals: FieldRemovalPreview[];
+  optionRemovals: FieldOptionRemovalPreview[];
+  hasDataLoss: boolean;
 }
 
 interface FieldsTabProps {
@@ -22,6 +109,11 @@ const FIELD_TYPE_ORDER: InventoryFieldType[] = [
   "NUMBER",
   "LINK",
   "BOOLEAN",
+  "DATE",
+  "DATETIME",
+  "SELECT",
+  "MULTI_SELECT",
+  "ATTACHMENT",
 ];
 
 const FIELD_TYPE_LABELS: Record<InventoryFieldType, string> = {
@@ -30,9 +122,33 @@ const FIELD_TYPE_LABELS: Record<InventoryFieldType, string> = {
   NUMBER: "Numeric",
   LINK: "Document/image link",
   BOOLEAN: "True/false (checkbox)",
+  DATE: "Date",
+  DATETIME: "Date and time",
+  SELECT: "Single select (dropdown)",
+  MULTI_SELECT: "Multi select (checkboxes)",
+  ATTACHMENT: "File attachments",
 };
 
-const MAX_PER_TYPE = 3;
+type FieldLimits = Record<InventoryFieldType, number>;
+
+const DEFAULT_OPTION_COLOR = "#6c757d";
+
+const isSelectType = (type: InventoryFieldType) => type === "SELECT" || type === "MULTI_SELECT";
+
+const isTextType = (type: InventoryFieldType) =>
+  type === "SINGLE_LINE_TEXT" || type === "MULTI_LINE_TEXT";
+
+const EMPTY_RULES: FieldValidationRules = {
+  required: false,
+  minValue: null,
+  maxValue: null,
+  maxLength: null,
+  pattern: null,
+  allowedSchemes: [],
+};
+
+const parseRuleNumber = (value: string): number | null =>
+  value.trim() === "" || Number.isNaN(Number(value)) ? null : Number(value);
 
 export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) => {
   const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
@@ -41,21 +157,56 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState<boolean>(false);
+  const [lastChanges, setLastChanges] = useState<FieldSchemaChanges | null>(null);
+  const [pendingPreview, setPendingPreview] = useState<FieldMigrationPreview | null>(null);
+  const [limits, setLimits] = useState<FieldLimits | null>(null);
+  const [overrideDraft, setOverrideDraft] = useState<Partial<Record<InventoryFieldType, string>>>(
+    {},
+  );
+  const [savingLimits, setSavingLimits] = useState<boolean>(false);
+
+  const [isAdmin] = useState<boolean>(() => {
+    if (typeof window === "undefined") return false;
+    const raw = window.localStorage.getItem("authUser");
+    if (!raw) return false;
+    try {
+      const parsed = JSON.parse(raw) as { role?: string };
+      return parsed.role === "ADMIN";
+    } catch {
+      return false;
+    }
+  });
+
+  const applyLimitOverrides = (overrides: Partial<FieldLimits>) => {
+    setOverrideDraft(
+      Object.fromEntries(
+        Object.entries(overrides).map(([type, limit]) => [type, String(limit)]),
+      ) as Partial<Record<InventoryFieldType, string>>,
+    );
+  };
 
   const loadFields = async () => {
     if (!inventoryId) return;
     try {
       setLoading(true);
       setError(null);
+      setLastChanges(null);
+      setPendingPreview(null);
 
       const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/fields`);
       if (!response.ok) {
         throw new Error(`Failed to load fields: ${response.status}`);
       }
 
-      const data: { fields: InventoryField[] } = await response.json();
+      const data: {
+        fields: InventoryField[];
+        limits: FieldLimits;
+        limitOverrides: Partial<FieldLimits>;
+      } = await response.json();
       const sorted = [...data.fields].sort((a, b) => a.orderIndex - b.orderIndex);
       setFields(sorted);
+      setLimits(data.limits);
+      applyLimitOverrides(data.limitOverrides);
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error(err);
@@ -77,6 +228,11 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
       NUMBER: 0,
       LINK: 0,
       BOOLEAN: 0,
+      DATE: 0,
+      DATETIME: 0,
+      SELECT: 0,
+      MULTI_SELECT: 0,
+      ATTACHMENT: 0,
     };
     for (const field of fields) {
       counts[field.type] += 1;
@@ -85,14 +241,15 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
   };
 
   const typeCounts = computeTypeCounts();
-  const canAddMore = FIELD_TYPE_ORDER.some((type) => typeCounts[type] < MAX_PER_TYPE);
+  const limitFor = (type: InventoryFieldType) => limits?.[type] ?? 0;
+  const canAddMore = FIELD_TYPE_ORDER.some((type) => typeCounts[type] < limitFor(type));
 
   const handleAddField = () => {
     if (!canEdit || !canAddMore) {
       return;
     }
     const nextType =
-      FIELD_TYPE_ORDER.find((type) => typeCounts[type] < MAX_PER_TYPE) ?? "SINGLE_LINE_TEXT";
+      FIELD_TYPE_ORDER.find((type) => typeCounts[type] < limitFor(type)) ?? "SINGLE_LINE_TEXT";
 
     setFields((prev) => [
       ...prev,
@@ -102,6 +259,8 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
         description: "",
         showInTable: true,
         orderIndex: prev.length,
+        options: [],
+        rules: EMPTY_RULES,
       },
     ]);
   };
@@ -120,6 +279,71 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
     );
   };
 
+  const handleChangeRule = <K extends keyof FieldValidationRules>(
+    index: number,
+    key: K,
+    value: FieldValidationRules[K],
+  ) => {
+    if (!canEdit) return;
+    setFields((prev) =>
+      prev.map((field, i) =>
+        i === index ? { ...field, rules: { ...field.rules, [key]: value } } : field,
+      ),
+    );
+  };
+
+  const updateFieldOptions = (
+    index: number,
+    update: (options: InventoryFieldOption[]) => InventoryFieldOption[],
+  ) => {
+    if (!canEdit) return;
+    setFields((prev) =>
+      prev.map((field, i) => {
+        if (i !== index) return field;
+        const options = update(field.options).map((option, idx) => ({
+          ...option,
+          orderIndex: idx,
+        }));
+        return { ...field, options };
+      }),
+    );
+  };
+
+  const handleAddOption = (index: number) => {
+    updateFieldOptions(index, (options) => [
+      ...options,
+      { label: "", color: DEFAULT_OPTION_COLOR, orderIndex: options.length },
+    ]);
+  };
+
+  const handleChangeOption = <K extends keyof InventoryFieldOption>(
+    index: number,
+    optionIndex: number,
+    key: K,
+    value: InventoryFieldOption[K],
+  ) => {
+    updateFieldOptions(index, (options) =>
+      options.map((option, i) => (i === optionIndex ? { ...option, [key]: value } : option)),
+    );
+  };
+
+  const handleMoveOption = (index: number, optionIndex: number, direction: -1 | 1) => {
+    updateFieldOptions(index, (options) => {
+      const newIndex = optionIndex + direction;
+      if (newIndex < 0 || newIndex >= options.length) {
+        return options;
+      }
+      const next = [...options];
+      const [moved] = next.splice(optionIndex, 1);
+      next.splice(newIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const handleRemoveOption = (index: number, optionIndex: number) => {
+    updateFieldOptions(index, (options) => options.filter((_, i) => i !== optionIndex));
+  };
+
   const handleMoveField = (index: number, direction: -1 | 1) => {
     if (!canEdit) return;
     setFields((prev) => {
@@ -141,30 +365,81 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
     );
   };
 
+  const buildPayload = () => ({
+    fields: fields.map((field, index) => ({
+      id: field.id,
+      type: field.type,
+      title: field.title,
+      description: field.description ?? null,
+      showInTable: field.showInTable,
+      orderIndex: index,
+      options: isSelectType(field.type)
+        ? field.options.map((option, optionIndex) => ({
+            id: option.id,
+            label: option.label,
+            color: option.color,
+            orderIndex: optionIndex,
+          }))
+        : [],
+      rules: {
+        ...field.rules,
+        allowedSchemes: field.rules.allowedSchemes.filter((scheme) => scheme.trim()),
+      },
+    })),
+  });
+
+  const submitFields = async (confirmDataLoss: boolean) => {
+    const token = window.localStorage.getItem("authToken");
+    const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/fields`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ ...buildPayload(), confirmDataLoss }),
+    });
+
+    if (response.status === 400) {
+      const payloadBody = (await response.json()) as { message?: string };
+      setError(payloadBody.message ?? "Failed to save fields.");
+      return;
+    }
+
+    if (response.status === 409) {
+      const payloadBody = (await response.json()) as { preview?: FieldMigrationPreview };
+      setPendingPreview(payloadBody.preview ?? null);
+      return;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to save fields: ${response.status}`);
+    }
+
+    const data: { fields: InventoryField[]; changes: FieldSchemaChanges; limits: FieldLimits } =
+      await response.json();
+    const sorted = [...data.fields].sort((a, b) => a.orderIndex - b.orderIndex);
+    setFields(sorted);
+    setLimits(data.limits);
+    setLastChanges(data.changes);
+    setPendingPreview(null);
+  };
+
   const handleSave = async () => {
     if (!inventoryId || !canEdit) return;
     try {
       setSaving(true);
       setError(null);
-
-      const payload = {
-        fields: fields.map((field, index) => ({
-          type: field.type,
-          title: field.title,
-          description: field.description ?? null,
-          showInTable: field.showInTable,
-          orderIndex: index,
-        })),
-      };
+      setLastChanges(null);
+      setPendingPreview(null);
 
       const token = window.localStorage.getItem("authToken");
-      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/fields`, {
-        method: "PUT",
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/fields/preview`, {
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(buildPayload()),
       });
 
       if (response.status === 400) {
@@ -174,12 +449,31 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
       }
 
       if (!response.ok) {
-        throw new Error(`Failed to save fields: ${response.status}`);
+        throw new Error(`Failed to preview field changes: ${response.status}`);
       }
 
-      const data: { fields: InventoryField[] } = await response.json();
-      const sorted = [...data.fields].sort((a, b) => a.orderIndex - b.orderIndex);
-      setFields(sorted);
+      const preview: FieldMigrationPreview = await response.json();
+      if (preview.conversions.length > 0 || preview.hasDataLoss) {
+        setPendingPreview(preview);
+        return;
+      }
+
+      await submitFields(false);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to save fields.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmPreview = async () => {
+    if (!inventoryId || !canEdit) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await submitFields(true);
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error(err);
@@ -189,6 +483,45 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
     }
   };
 
+  const handleSaveLimits = async () => {
+    if (!inventoryId || !isAdmin) return;
+    try {
+      setSavingLimits(true);
+      setError(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/field-limits`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ overrides: overrideDraft }),
+      });
+
+      if (response.status === 400) {
+        const payloadBody = (await response.json()) as { message?: string };
+        setError(payloadBody.message ?? "Failed to save field limits.");
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to save field limits: ${response.status}`);
+      }
+
+      const data: { limits: FieldLimits; limitOverrides: Partial<FieldLimits> } =
+        await response.json();
+      setLimits(data.limits);
+      applyLimitOverrides(data.limitOverrides);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to save field limits.");
+    } finally {
+      setSavingLimits(false);
+    }
+  };
+
   return (
     <div className="bg-white rounded-3 shadow-sm p-3">
       <h2 className="h5 mb-3">Fields</h2>
@@ -203,6 +536,91 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
         </p>
       )}
 
+      {lastChanges && (
+        <p className="text-success small mb-2" data-testid="inventory-fields-changes">
+          {lastChanges.added.length + lastChanges.changed.length + lastChanges.removed.length === 0
+            ? "Fields saved. Nothing changed."
+            : `Fields saved: ${lastChanges.added.length} added, ${lastChanges.changed.length} changed, ${lastChanges.removed.length} removed.`}
+          {lastChanges.removed.length > 0 && (
+            <span className="text-muted">
+              {" "}
+              Values of removed fields were deleted:{" "}
+              {lastChanges.removed.map((field) => field.title).join(", ")}.
+            </span>
+          )}
+          {lastChanges.changed
+            .filter((field) => (field.renamedOptions?.length ?? 0) > 0)
+            .map((field) => (
+              <span key={field.id} className="text-muted">
+                {" "}
+                Items of {field.title} now use the renamed options{" "}
+                {field.renamedOptions
+                  ?.map((rename) => `${rename.from} → ${rename.to}`)
+                  .join(", ")}
+                .
+              </span>
+            ))}
+        </p>
+      )}
+
+      {pendingPreview && (
+        <div className="border border-warning rounded-3 p-3 mb-3" data-testid="inventory-fields-preview">
+          <h3 className="h6 mb-2">Review changes to existing item data</h3>
+          {pendingPreview.conversions.map((conversion) => (
+            <div key={conversion.fieldId} className="mb-2 small">
+              <div>
+                <span className="fw-semibold">{conversion.title}</span>:{" "}
+                {FIELD_TYPE_LABELS[conversion.fromType]} → {FIELD_TYPE_LABELS[conversion.toType]}.{" "}
+                {conversion.convertedValues} of {conversion.totalValues} values convert cleanly.
+              </div>
+              {conversion.lostValues.length > 0 && (
+                <ul className="mb-0 text-danger">
+                  {conversion.lostValues.map((loss, lossIndex) => (
+                    <li key={`${loss.itemId}-${lossIndex}`}>
+                      {loss.customId}: <code>{loss.value}</code> will be discarded
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {pendingPreview.removals
+            .filter((removal) => removal.valuesCount > 0)
+            .map((removal) => (
+              <div key={removal.fieldId} className="mb-2 small text-danger">
+                <span className="fw-semibold">{removal.title}</span> will be removed together with{" "}
+                {removal.valuesCount} item values.
+              </div>
+            ))}
+          {pendingPreview.optionRemovals
+            .filter((removal) => removal.valuesCount > 0)
+            .map((removal) => (
+              <div key={`${removal.fieldId}-${removal.label}`} className="mb-2 small text-danger">
+                Option <span className="fw-semibold">{removal.label}</span> of {removal.title} will
+                be removed from {removal.valuesCount} items.
+              </div>
+            ))}
+          <div className="d-flex justify-content-end gap-2 mt-2">
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() => setPendingPreview(null)}
+              disabled={saving}
+            >
+              Back to editing
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-warning"
+              onClick={() => void handleConfirmPreview()}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Apply changes"}
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="mb-3">
         <span className="fw-semibold small">Fixed fields (always present): </span>
         <span className="text-muted small">
@@ -265,99 +683,286 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
           </thead>
           <tbody>
             {fields.map((field, index) => (
-              <tr key={field.id ?? index}>
-                <td>{index + 1}</td>
-                <td>
-                  <select
-                    className="form-select form-select-sm"
-                    value={field.type}
-                    onChange={(event) =>
-                      handleChangeField(index, "type", event.target.value as InventoryFieldType)
-                    }
-                    disabled={!canEdit}
-                  >
-                    {FIELD_TYPE_ORDER.map((type) => {
-                      const isLimitReached =
-                        typeCounts[type] >= MAX_PER_TYPE && field.type !== type;
-                      return (
-                        <option key={type} value={type} disabled={isLimitReached}>
-                          {FIELD_TYPE_LABELS[type]}
-                        </option>
-                      );
-                    })}
-                  </select>
-                </td>
-                <td>
-                  <input
-                    type="text"
-                    className="form-control form-control-sm"
-                    value={field.title}
-                    onChange={(event) =>
-                      handleChangeField(index, "title", event.target.value)
-                    }
-                    placeholder="Field title"
-                    disabled={!canEdit}
-                  />
-                </td>
-                <td>
-                  <input
-                    type="text"
-                    className="form-control form-control-sm"
-                    value={field.description ?? ""}
-                    onChange={(event) =>
-                      handleChangeField(index, "description", event.target.value)
-                    }
-                    placeholder="Tooltip or hint (optional)"
-                    disabled={!canEdit}
-                  />
-                </td>
-                <td>
-                  <div className="form-check d-flex justify-content-center">
+              <Fragment key={field.id ?? index}>
+                <tr>
+                  <td>{index + 1}</td>
+                  <td>
+                    <select
+                      className="form-select form-select-sm"
+                      value={field.type}
+                      onChange={(event) =>
+                        handleChangeField(index, "type", event.target.value as InventoryFieldType)
+                      }
+                      disabled={!canEdit}
+                    >
+                      {FIELD_TYPE_ORDER.map((type) => {
+                        const isLimitReached =
+                          typeCounts[type] >= limitFor(type) && field.type !== type;
+                        return (
+                          <option key={type} value={type} disabled={isLimitReached}>
+                            {FIELD_TYPE_LABELS[type]}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </td>
+                  <td>
                     <input
-                      type="checkbox"
-                      className="form-check-input"
-                      checked={field.showInTable}
+                      type="text"
+                      className="form-control form-control-sm"
+                      value={field.title}
                       onChange={(event) =>
-                        handleChangeField(index, "showInTable", event.target.checked)
+                        handleChangeField(index, "title", event.target.value)
                       }
+                      placeholder="Field title"
                       disabled={!canEdit}
                     />
-                  </div>
-                </td>
-                <td>
-                  <div className="btn-group btn-group-sm" role="group" aria-label="Reorder fields">
-                    <button
-                      type="button"
-                      className="btn btn-outline-secondary"
-                      onClick={() => handleMoveField(index, -1)}
-                      disabled={!canEdit || index === 0}
-                    >
-                      ↑
-                    </button>
-                    <button
-                      type="button"
-                      className="btn btn-outline-secondary"
-                      onClick={() => handleMoveField(index, 1)}
-                      disabled={!canEdit || index === fields.length - 1}
-                    >
-                      ↓
-                    </button>
-                    <button
-                      type="button"
-                      className="btn btn-outline-danger"
-                      onClick={() => handleRemoveField(index)}
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="form-control form-control-sm"
+                      value={field.description ?? ""}
+                      onChange={(event) =>
+                        handleChangeField(index, "description", event.target.value)
+                      }
+                      placeholder="Tooltip or hint (optional)"
                       disabled={!canEdit}
-                    >
-                      Remove
-                    </button>
-                  </div>
-                </td>
-              </tr>
+                    />
+                  </td>
+                  <td>
+                    <div className="form-check d-flex justify-content-center">
+                      <input
+                        type="checkbox"
+                        className="form-check-input"
+                        checked={field.showInTable}
+                        onChange={(event) =>
+                          handleChangeField(index, "showInTable", event.target.checked)
+                        }
+                        disabled={!canEdit}
+                      />
+                    </div>
+                  </td>
+                  <td>
+                    <div className="btn-group btn-group-sm" role="group" aria-label="Reorder fields">
+                      <button
+                        type="button"
+                        className="btn btn-outline-secondary"
+                        onClick={() => handleMoveField(index, -1)}
+                        disabled={!canEdit || index === 0}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-outline-secondary"
+                        onClick={() => handleMoveField(index, 1)}
+                        disabled={!canEdit || index === fields.length - 1}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-outline-danger"
+                        onClick={() => handleRemoveField(index)}
+                        disabled={!canEdit}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {field.type !== "BOOLEAN" && (
+                  <tr data-testid="inventory-field-rules">
+                    <td />
+                    <td colSpan={5}>
+                      <div className="d-flex flex-wrap align-items-center gap-3 small">
+                        <span className="fw-semibold">Rules</span>
+                        <div className="form-check mb-0">
+                          <input
+                            id={`field-${index}-required`}
+                            type="checkbox"
+                            className="form-check-input"
+                            checked={field.rules.required}
+                            onChange={(event) =>
+                              handleChangeRule(index, "required", event.target.checked)
+                            }
+                            disabled={!canEdit}
+                          />
+                          <label className="form-check-label" htmlFor={`field-${index}-required`}>
+                            Required
+                          </label>
+                        </div>
+                        {field.type === "NUMBER" && (
+                          <>
+                            <input
+                              type="number"
+                              className="form-control form-control-sm"
+                              style={{ width: "8rem" }}
+                              value={field.rules.minValue ?? ""}
+                              onChange={(event) =>
+                                handleChangeRule(
+                                  index,
+                                  "minValue",
+                                  parseRuleNumber(event.target.value),
+                                )
+                              }
+                              placeholder="Min"
+                              disabled={!canEdit}
+                            />
+                            <input
+                              type="number"
+                              className="form-control form-control-sm"
+                              style={{ width: "8rem" }}
+                              value={field.rules.maxValue ?? ""}
+                              onChange={(event) =>
+                                handleChangeRule(
+                                  index,
+                                  "maxValue",
+                                  parseRuleNumber(event.target.value),
+                                )
+                              }
+                              placeholder="Max"
+                              disabled={!canEdit}
+                            />
+                          </>
+                        )}
+                        {isTextType(field.type) && (
+                          <>
+                            <input
+                              type="number"
+                              min={1}
+                              className="form-control form-control-sm"
+                              style={{ width: "9rem" }}
+                              value={field.rules.maxLength ?? ""}
+                              onChange={(event) =>
+                                handleChangeRule(
+                                  index,
+                                  "maxLength",
+                                  parseRuleNumber(event.target.value),
+                                )
+                              }
+                              placeholder="Max length"
+                              disabled={!canEdit}
+                            />
+                            <input
+                              type="text"
+                              className="form-control form-control-sm font-monospace"
+                              style={{ maxWidth: "16rem" }}
+                              value={field.rules.pattern ?? ""}
+                              onChange={(event) =>
+                                handleChangeRule(index, "pattern", event.target.value || null)
+                              }
+                              placeholder="Pattern, e.g. [A-Z]{2}-\d{4}"
+                              title="Regular expression the whole value must match"
+                              disabled={!canEdit}
+                            />
+                          </>
+                        )}
+                        {field.type === "LINK" && (
+                          <input
+                            type="text"
+                            className="form-control form-control-sm"
+                            style={{ maxWidth: "16rem" }}
+                            value={field.rules.allowedSchemes.join(", ")}
+                            onChange={(event) =>
+                              handleChangeRule(
+                                index,
+                                "allowedSchemes",
+                                event.target.value.split(",").map((scheme) => scheme.trim()),
+                              )
+                            }
+                            placeholder="Allowed schemes, e.g. https"
+                            disabled={!canEdit}
+                          />
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+                {isSelectType(field.type) && (
+                  <tr data-testid="inventory-field-options">
+                    <td />
+                    <td colSpan={5}>
+                      <div className="small fw-semibold mb-1">Options</div>
+                      {field.options.map((option, optionIndex) => (
+                        <div
+                          key={option.id ?? `new-${optionIndex}`}
+                          className="d-flex align-items-center gap-2 mb-1"
+                        >
+                          <input
+                            type="color"
+                            className="form-control form-control-sm form-control-color"
+                            value={option.color ?? DEFAULT_OPTION_COLOR}
+                            onChange={(event) =>
+                              handleChangeOption(index, optionIndex, "color", event.target.value)
+                            }
+                            title="Option colour"
+                            disabled={!canEdit}
+                          />
+                          <input
+                            type="text"
+                            className="form-control form-control-sm"
+                            style={{ maxWidth: "20rem" }}
+                            value={option.label}
+                            onChange={(event) =>
+                              handleChangeOption(index, optionIndex, "label", event.target.value)
+                            }
+                            placeholder="Option label"
+                            disabled={!canEdit}
+                          />
+                          <div
+                            className="btn-group btn-group-sm"
+                            role="group"
+                            aria-label="Reorder options"
+                          >
+                            <button
+                              type="button"
+                              className="btn btn-outline-secondary"
+                              onClick={() => handleMoveOption(index, optionIndex, -1)}
+                              disabled={!canEdit || optionIndex === 0}
+                            >
+                              ↑
+                            </button>
+                            <button
+                              type="button"
+                              className="btn btn-outline-secondary"
+                              onClick={() => handleMoveOption(index, optionIndex, 1)}
+                              disabled={!canEdit || optionIndex === field.options.length - 1}
+                            >
+                              ↓
+                            </button>
+                            <button
+                              type="button"
+                              className="btn btn-outline-danger"
+                              onClick={() => handleRemoveOption(index, optionIndex)}
+                              disabled={!canEdit}
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                      {field.options.length === 0 && (
+                        <p className="text-muted small mb-1">Add at least one option.</p>
+                      )}
+                      <button
+                        type="button"
+                        className="btn btn-sm btn-outline-primary"
+                        onClick={() => handleAddOption(index)}
+                        disabled={!canEdit}
+                      >
+                        Add option
+                      </button>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
             {fields.length === 0 && !loading && (
               <tr>
                 <td colSpan={6} className="text-muted text-center py-3">
-                  No custom fields yet. You can add up to 3 fields of each type.
+                  No custom fields yet. See the limits per field type below.
                 </td>
               </tr>
             )}
@@ -365,10 +970,56 @@ export const FieldsTab: React.FC<FieldsTabProps> = ({ inventoryId, canEdit }) =>
         </table>
       </div>
 
-      <p className="text-muted small mb-0">
-        Limits: up to 3 single-line text, 3 multi-line text, 3 numeric, 3 document/image link and 3
-        true/false fields per inventory. The order controls how fields appear on the item form.
+      <p className="text-muted small mb-0" data-testid="inventory-fields-limits">
+        Limits per inventory:{" "}
+        {limits
+          ? FIELD_TYPE_ORDER.map(
+              (type) =>
+                `${FIELD_TYPE_LABELS[type].toLowerCase()} ${typeCounts[type]}/${limits[type]}`,
+            ).join(", ")
+          : "loading..."}
+        . The order controls how fields appear on the item form. Renaming an option updates every
+        item that uses it.
       </p>
+
+      {isAdmin && (
+        <div className="border rounded-3 p-3 mt-3" data-testid="inventory-field-limit-overrides">
+          <div className="d-flex justify-content-between align-items-center mb-2">
+            <span className="fw-semibold small">Limit overrides for this inventory (admin)</span>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-primary"
+              onClick={() => void handleSaveLimits()}
+              disabled={savingLimits}
+            >
+              {savingLimits ? "Saving..." : "Save limits"}
+            </button>
+          </div>
+          <div className="row g-2">
+            {FIELD_TYPE_ORDER.map((type) => (
+              <div key={type} className="col-md-3 col-6">
+                <label className="form-label small mb-0" htmlFor={`limit-${type}`}>
+                  {FIELD_TYPE_LABELS[type]}
+                </label>
+                <input
+                  id={`limit-${type}`}
+                  type="number"
+                  min={0}
+                  className="form-control form-control-sm"
+                  value={overrideDraft[type] ?? ""}
+                  onChange={(event) =>
+                    setOverrideDraft((prev) => ({ ...prev, [type]: event.target.value }))
+                  }
+                  placeholder="Global default"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-muted small mt-2 mb-0">
+            Leave a type empty to use the global limit from the admin panel.
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,227 @@
+import type { FormEvent, KeyboardEvent } from "react";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+type Language = "en" | "ru";
+
+interface HeaderSearchProps {
+  language: Language;
+}
+
+interface Suggestion {
+  // Replaces the word being typed.
+  insert: string;
+  label: string;
+  hint: string;
+}
+
+interface SearchFieldDto {
+  title: string;
+  type: string;
+}
+
+const FILTER_KEYS: Suggestion[] = [
+  { insert: "category:", label: "category:", hint: "EQUIPMENT, FURNITURE, BOOK, OTHER" },
+  { insert: "tag:", label: "tag:", hint: "tag name" },
+  { insert: "owner:", label: "owner:", hint: "name or e-mail" },
+  { insert: "created:>", label: "created:>", hint: "YYYY-MM-DD" },
+];
+
+const CATEGORIES = ["EQUIPMENT", "FURNITURE", "BOOK", "OTHER"];
+
+const SYNTAX_HINTS: { example: string; en: string; ru: string }[] = [
+  { example: 'laptop "serial number"', en: "words and phrases", ru: "слова и фразы" },
+  { example: "-broken  NOT broken", en: "exclude", ru: "исключить" },
+  { example: "dell OR lenovo", en: "either one", ru: "любое из" },
+  { example: "category:BOOK tag:hr owner:alice", en: "filters", ru: "фильтры" },
+  { example: "created:>2026-01-01", en: "created after", ru: "создано после" },
+  { example: '"Serial No":>100', en: "number field", ru: "числовое поле" },
+];
+
+// Quotes names that are not a single word, so they read back as one key or value.
+function quoteIfNeeded(name: string): string {
+  return /^\p{L}[\p{L}\p{N}_]*$/u.test(name) ? name : `"${name}"`;
+}
+
+// The word at the end of the text, keeping quoted phrases together.
+function lastWord(text: string): { start: number; word: string } {
+  let start = 0;
+  let inQuotes = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && /\s/.test(char)) {
+      start = index + 1;
+    }
+  }
+  return { start, word: text.slice(start) };
+}
+
+// Search box of the header with syntax hints and completion of filter keys, field names and tags.
+export const HeaderSearch: React.FC<HeaderSearchProps> = ({ language }) => {
+  const navigate = useNavigate();
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [query, setQuery] = useState<string>("");
+  const [focused, setFocused] = useState<boolean>(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+
+  useEffect(() => {
+    const { word } = lastWord(query);
+    // A leading "-" or "(" belongs to the syntax, not to the word.
+    const body = word.replace(/^[-(]+/, "");
+    let cancelled = false;
+
+    const load = async () => {
+      const tagMatch = body.match(/^tag:"?(.*)$/i);
+      const categoryMatch = body.match(/^category:(.*)$/i);
+
+      if (tagMatch) {
+        if (!tagMatch[1]) return [];
+        const response = await fetch(
+          `${apiBase}/api/tags/search?q=${encodeURIComponent(tagMatch[1])}`,
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to search tags: ${response.status}`);
+        }
+        const data: { tags: string[] } = await response.json();
+        return data.tags.map((name) => ({
+          insert: `tag:${quoteIfNeeded(name)} `,
+          label: `tag:${name}`,
+          hint: "tag",
+        }));
+      }
+
+      if (categoryMatch) {
+        const prefix = categoryMatch[1].toUpperCase();
+        return CATEGORIES.filter((category) => category.startsWith(prefix)).map((category) => ({
+          insert: `category:${category} `,
+          label: `category:${category}`,
+          hint: "category",
+        }));
+      }
+
+      const name = body.replace(/^"/, "");
+      if (!name || body.includes(":")) return [];
+
+      const keys = FILTER_KEYS.filter((key) => key.label.startsWith(name.toLowerCase()));
+      const response = await fetch(`${apiBase}/api/search/fields?q=${encodeURIComponent(name)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to search fields: ${response.status}`);
+      }
+      const data: { fields: SearchFieldDto[] } = await response.json();
+      const fields = data.fields.map((field) => ({
+        insert: `${quoteIfNeeded(field.title)}:${field.type === "NUMBER" ? ">" : ""}`,
+        label: `${quoteIfNeeded(field.title)}:`,
+        hint: field.type === "NUMBER" ? "number field" : "text field",
+      }));
+      return [...keys, ...fields];
+    };
+
+    // Waits for a pause in typing before asking the server.
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const next = await load();
+        if (!cancelled) {
+          setSuggestions(next);
+          setActiveIndex(-1);
+        }
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(err);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [apiBase, query]);
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const { start, word } = lastWord(query);
+    const prefix = word.match(/^[-(]*/)?.[0] ?? "";
+    setQuery(`${query.slice(0, start)}${prefix}${suggestion.insert}`);
+    setSuggestions([]);
+    setActiveIndex(-1);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSuggestions([]);
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((prev) => (prev + step + suggestions.length) % suggestions.length);
+    } else if ((event.key === "Enter" || event.key === "Tab") && activeIndex >= 0) {
+      event.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (event.key === "Escape") {
+      setSuggestions([]);
+    }
+  };
+
+  const showHints = focused && !query.trim();
+  const showSuggestions = focused && suggestions.length > 0;
+
+  return (
+    <form className="app-header__search" onSubmit={handleSubmit}>
+      <input
+        type="search"
+        placeholder={
+          language === "en"
+            ? "Search inventories and items..."
+            : "Поиск по инвентарям и элементам..."
+        }
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        autoComplete="off"
+        aria-autocomplete="list"
+      />
+
+      {showSuggestions && (
+        <ul className="app-header__suggestions list-group" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`list-group-item list-group-item-action d-flex justify-content-between${
+                index === activeIndex ? " active" : ""
+              }`}
+              // mousedown fires before the input loses the focus and closes the list.
+              onMouseDown={(event) => {
+                event.preventDefault();
+                applySuggestion(suggestion);
+              }}
+            >
+              <code>{suggestion.label}</code>
+              <span className="small opacity-75">{suggestion.hint}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showHints && (
+        <div className="app-header__suggestions list-group">
+          {SYNTAX_HINTS.map((hint) => (
+            <div key={hint.example} className="list-group-item d-flex justify-content-between">
+              <code>{hint.example}</code>
+              <span className="small text-muted">{hint[language]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
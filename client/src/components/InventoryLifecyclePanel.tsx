@@ -0,0 +1,254 @@
+import { useState } from "react";
+
+interface UserSuggestion {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface InventoryLifecyclePanelProps {
+  inventoryId: string;
+  inventoryTitle: string;
+  ownerName: string;
+  archivedAt: string | null;
+  onChanged: () => void;
+  onDeleted: () => void;
+}
+
+// Archive, ownership transfer and deletion; shown to the owner and admins on the settings tab.
+export const InventoryLifecyclePanel: React.FC<InventoryLifecyclePanelProps> = ({
+  inventoryId,
+  inventoryTitle,
+  ownerName,
+  archivedAt,
+  onChanged,
+  onDeleted,
+}) => {
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [transferQuery, setTransferQuery] = useState<string>("");
+  const [transferSuggestions, setTransferSuggestions] = useState<UserSuggestion[]>([]);
+  const [transferTarget, setTransferTarget] = useState<UserSuggestion | null>(null);
+
+  const authHeaders = (): Record<string, string> => {
+    const token = window.localStorage.getItem("authToken");
+    return {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+  };
+
+  const readError = async (response: Response, fallback: string) => {
+    try {
+      const body = (await response.json()) as { message?: string };
+      return body.message ?? fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const handleArchiveToggle = async () => {
+    const action = archivedAt ? "unarchive" : "archive";
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/${action}`, {
+        method: "POST",
+        headers: authHeaders(),
+      });
+      if (!response.ok) {
+        setError(await readError(response, `Failed to ${action} inventory.`));
+        return;
+      }
+      onChanged();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError(`Failed to ${action} inventory.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadTransferSuggestions = async (query: string) => {
+    if (!query.trim()) {
+      setTransferSuggestions([]);
+      return;
+    }
+    try {
+      const response = await fetch(
+        `${apiBase}/api/users/search?query=${encodeURIComponent(query.trim())}`,
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to search users: ${response.status}`);
+      }
+      const data: { users: UserSuggestion[] } = await response.json();
+      setTransferSuggestions(data.users);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!transferTarget) return;
+    const confirmed = window.confirm(
+      `Transfer "${inventoryTitle}" to ${transferTarget.name || transferTarget.email}?`,
+    );
+    if (!confirmed) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/transfer`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ userId: transferTarget.id }),
+      });
+      if (!response.ok) {
+        setError(await readError(response, "Failed to transfer inventory."));
+        return;
+      }
+      setTransferQuery("");
+      setTransferTarget(null);
+      setTransferSuggestions([]);
+      onChanged();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to transfer inventory.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const typed = window.prompt(
+      `This permanently deletes the inventory with all items, fields, files and discussion.\n` +
+        `Type the inventory title to confirm: ${inventoryTitle}`,
+    );
+    if (typed === null) return;
+    if (typed.trim() !== inventoryTitle.trim()) {
+      setError("The title did not match. Inventory was not deleted.");
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      if (!response.ok && response.status !== 204) {
+        setError(await readError(response, "Failed to delete inventory."));
+        return;
+      }
+      onDeleted();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to delete inventory.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="border border-danger-subtle rounded-3 p-3 mt-3"
+      data-testid="inventory-lifecycle"
+    >
+      <h3 className="h6 mb-3">Archive, transfer and delete</h3>
+
+      {error && (
+        <p className="text-danger mb-2" data-testid="inventory-lifecycle-error">
+          {error}
+        </p>
+      )}
+
+      <div className="d-flex justify-content-between align-items-center mb-3">
+        <div className="small">
+          <div className="fw-semibold">{archivedAt ? "Archived" : "Active"}</div>
+          <div className="text-muted">
+            {archivedAt
+              ? `Read-only since ${new Date(archivedAt).toLocaleString()}.`
+              : "Archiving makes the inventory read-only."}{" "}
+            Archived inventories are hidden from the home page and search.
+          </div>
+        </div>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-secondary"
+          onClick={() => void handleArchiveToggle()}
+          disabled={busy}
+        >
+          {archivedAt ? "Unarchive" : "Archive"}
+        </button>
+      </div>
+
+      <div className="mb-3">
+        <label className="form-label small mb-1" htmlFor="inventory-transfer-user">
+          Transfer ownership (current owner: {ownerName})
+        </label>
+        <div className="input-group input-group-sm">
+          <input
+            id="inventory-transfer-user"
+            type="text"
+            className="form-control"
+            value={transferQuery}
+            onChange={(event) => {
+              const value = event.target.value;
+              setTransferQuery(value);
+              setTransferTarget(null);
+              void loadTransferSuggestions(value);
+            }}
+            placeholder="Search user by name or email..."
+          />
+          <button
+            type="button"
+            className="btn btn-outline-primary"
+            onClick={() => void handleTransfer()}
+            disabled={busy || !transferTarget}
+          >
+            Transfer
+          </button>
+        </div>
+        {!transferTarget && transferSuggestions.length > 0 && (
+          <ul className="list-group mt-1">
+            {transferSuggestions.map((suggestion) => (
+              <li
+                key={suggestion.id}
+                className="list-group-item list-group-item-action small"
+                role="button"
+                onClick={() => {
+                  setTransferTarget(suggestion);
+                  setTransferQuery(suggestion.name || suggestion.email);
+                  setTransferSuggestions([]);
+                }}
+              >
+                {suggestion.name || "—"} <span className="text-muted">{suggestion.email}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="d-flex justify-content-between align-items-center">
+        <span className="text-muted small">
+          Deleting removes the inventory and everything in it. This cannot be undone.
+        </span>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-danger"
+          onClick={() => void handleDelete()}
+          disabled={busy}
+        >
+          Delete inventory
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -5,7 +5,41 @@ type InventoryFieldType =
   | "MULTI_LINE_TEXT"
   | "NUMBER"
   | "LINK"
-  | "BOOLEAN";
+  | "BOOLEAN"
+  | "DATE"
+  | "DATETIME"
+  | "SELECT"
+  | "MULTI_SELECT"
+  | "ATTACHMENT";
+
+interface FieldOptionDto {
+  id: string;
+  label: string;
+  color: string | null;
+}
+
+interface FieldValidationRules {
+  required: boolean;
+  minValue: number | null;
+  maxValue: number | null;
+  maxLength: number | null;
+  pattern: string | null;
+  allowedSchemes: string[];
+}
+
+interface FieldValidationError {
+  fieldId: string;
+  message: string;
+}
+
+interface AttachmentDto {
+  id: string;
+  fieldId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
 
 interface ItemFieldDto {
   fieldId: string;
@@ -16,6 +50,11 @@ interface ItemFieldDto {
   valueNumber: number | null;
   valueBoolean: boolean | null;
   valueLink: string | null;
+  valueDate: string | null;
+  valueOptions: string[];
+  options: FieldOptionDto[];
+  attachments: AttachmentDto[];
+  rules: FieldValidationRules;
 }
 
 interface ItemDto {
@@ -28,14 +67,140 @@ interface ItemDto {
   fields: ItemFieldDto[];
 }
 
+// <input type="datetime-local"> works with local time without a zone suffix.
+const toDateTimeLocalValue = (iso: string | null): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface RevisionChangeDto {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  before: string | null;
+  after: string | null;
+}
+
+interface ItemRevisionDto {
+  id: string;
+  version: number;
+  createdAt: string;
+  authorName: string | null;
+  customIdBefore: string | null;
+  customIdAfter: string | null;
+  revertOfId: string | null;
+  changes: RevisionChangeDto[];
+}
+
+interface MergeValueDto {
+  valueString: string | null;
+  valueNumber: number | null;
+  valueBoolean: boolean | null;
+  valueLink: string | null;
+  valueDate: string | null;
+  valueOptions: string[];
+  text: string | null;
+}
+
+interface MergeConflictDto {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  base: MergeValueDto;
+  mine: MergeValueDto;
+  theirs: MergeValueDto;
+}
+
+// 409 body of a save that could not be merged with newer changes on its own.
+interface MergeConflictResponse {
+  message: string;
+  current?: ItemDto;
+  baseVersion?: number;
+  // False when the values the edit started from could not be told; every difference conflicts.
+  baseKnown?: boolean;
+  merged?: { customId: string; fields: Array<MergeValueDto & { fieldId: string }> };
+  conflicts?: MergeConflictDto[];
+  customIdConflict?: { base: string | null; mine: string; theirs: string } | null;
+}
+
+type MergeSide = "mine" | "theirs";
+
+const CUSTOM_ID_CHOICE = "customId";
+
+const withMergeValue = (field: ItemFieldDto, value: MergeValueDto): ItemFieldDto => ({
+  ...field,
+  valueString: value.valueString,
+  valueNumber: value.valueNumber,
+  valueBoolean: value.valueBoolean,
+  valueLink: value.valueLink,
+  valueDate: value.valueDate,
+  valueOptions: value.valueOptions,
+});
+
+interface InventoryFieldDto {
+  id: string;
+  title: string;
+  type: InventoryFieldType;
+  description: string | null;
+  options: FieldOptionDto[];
+  rules: FieldValidationRules;
+}
+
+const toEmptyItemField = (field: InventoryFieldDto): ItemFieldDto => ({
+  fieldId: field.id,
+  title: field.title,
+  type: field.type,
+  description: field.description,
+  valueString: null,
+  valueNumber: null,
+  valueBoolean: field.type === "BOOLEAN" ? false : null,
+  valueLink: null,
+  valueDate: null,
+  valueOptions: [],
+  options: field.options,
+  attachments: [],
+  rules: field.rules,
+});
+
+// Only the column that belongs to the field type is sent.
+const toFieldPayload = (field: ItemFieldDto) => ({
+  fieldId: field.fieldId,
+  valueString:
+    field.type === "SINGLE_LINE_TEXT" || field.type === "MULTI_LINE_TEXT" || field.type === "SELECT"
+      ? field.valueString
+      : null,
+  valueNumber: field.type === "NUMBER" ? field.valueNumber : null,
+  valueBoolean: field.type === "BOOLEAN" ? field.valueBoolean : null,
+  valueLink: field.type === "LINK" ? field.valueLink : null,
+  valueDate: field.type === "DATE" || field.type === "DATETIME" ? field.valueDate : null,
+  valueOptions: field.type === "MULTI_SELECT" ? field.valueOptions : [],
+});
+
 interface ItemEditModalProps {
-  itemId: string;
+  // `null` opens the modal as a "New item" form for the inventory.
+  itemId: string | null;
+  inventoryId: string;
   onClose: () => void;
   onSaved: () => void;
 }
 
-export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, onSaved }) => {
+export const ItemEditModal: React.FC<ItemEditModalProps> = ({
+  itemId,
+  inventoryId,
+  onClose,
+  onSaved,
+}) => {
   const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+  const isNew = itemId === null;
 
   const [item, setItem] = useState<ItemDto | null>(null);
   const [customId, setCustomId] = useState<string>("");
@@ -44,7 +209,16 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
   const [saving, setSaving] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [conflict, setConflict] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [previewField, setPreviewField] = useState<ItemFieldDto | null>(null);
+  const [uploadingFieldId, setUploadingFieldId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [revisions, setRevisions] = useState<ItemRevisionDto[]>([]);
+  const [historyLoading, setHistoryLoading] = useState<boolean>(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [merge, setMerge] = useState<MergeConflictResponse | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeSide>>({});
+  const [customIdError, setCustomIdError] = useState<string | null>(null);
 
   const loadItem = async () => {
     if (!itemId) return;
@@ -71,10 +245,73 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
     }
   };
 
+  const loadNewItemFields = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/fields`);
+      if (!response.ok) {
+        throw new Error(`Failed to load fields: ${response.status}`);
+      }
+
+      const data: { fields: InventoryFieldDto[] } = await response.json();
+      setItem(null);
+      setCustomId("");
+      setFields(data.fields.map(toEmptyItemField));
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to load fields.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isNew) {
+      void loadNewItemFields();
+    } else {
+      void loadItem();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [itemId, inventoryId]);
+
+  // Checks a typed custom ID against the inventory's ID format while the user is typing.
   useEffect(() => {
-    void loadItem();
+    const value = customId.trim();
+    if (!value || (item && value === item.customId)) {
+      setCustomIdError(null);
+      return;
+    }
+
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const query = new URLSearchParams({ value });
+        if (item) {
+          query.set("itemId", item.id);
+        }
+        const token = window.localStorage.getItem("authToken");
+        const response = await fetch(
+          `${apiBase}/api/inventories/${inventoryId}/custom-id/validate?${query.toString()}`,
+          { headers: token ? { Authorization: `Bearer ${token}` } : {} },
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to validate custom ID: ${response.status}`);
+        }
+        const data: { valid: boolean; message: string | null } = await response.json();
+        setCustomIdError(data.valid ? null : data.message);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(err);
+      }
+    }, 300);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [itemId]);
+  }, [customId, item?.id, item?.customId, inventoryId]);
 
   const handleFieldChange = (index: number, value: string | boolean) => {
     setFields((prev) =>
@@ -91,42 +328,165 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
         if (field.type === "LINK") {
           return { ...field, valueLink: String(value) || null };
         }
+        if (field.type === "DATE") {
+          return { ...field, valueDate: String(value) || null };
+        }
+        if (field.type === "DATETIME") {
+          return {
+            ...field,
+            valueDate: value ? new Date(String(value)).toISOString() : null,
+          };
+        }
         // text types
         return { ...field, valueString: String(value) || null };
       }),
     );
   };
 
-  const handleSave = async () => {
+  const handleOptionToggle = (index: number, label: string, checked: boolean) => {
+    setFields((prev) =>
+      prev.map((field, i) => {
+        if (i !== index) return field;
+        const selected = checked
+          ? [...field.valueOptions, label]
+          : field.valueOptions.filter((option) => option !== label);
+        // Keep the order the owner gave the options.
+        const valueOptions = field.options
+          .map((option) => option.label)
+          .filter((option) => selected.includes(option));
+        return { ...field, valueOptions };
+      }),
+    );
+  };
+
+  const updateAttachments = (
+    fieldId: string,
+    update: (attachments: AttachmentDto[]) => AttachmentDto[],
+  ) => {
+    setFields((prev) =>
+      prev.map((field) =>
+        field.fieldId === fieldId ? { ...field, attachments: update(field.attachments) } : field,
+      ),
+    );
+  };
+
+  // Files are stored right away; they are not part of the item save below.
+  const handleUpload = async (field: ItemFieldDto, file: File) => {
     if (!item) return;
     try {
-      setSaving(true);
+      setUploadingFieldId(field.fieldId);
       setError(null);
-      setConflict(null);
 
-      const payload = {
-        customId: customId.trim() || item.customId,
-        version: item.version,
-        fields: fields.map((field) => ({
-          fieldId: field.fieldId,
-          valueString:
-            field.type === "SINGLE_LINE_TEXT" || field.type === "MULTI_LINE_TEXT"
-              ? field.valueString
-              : null,
-          valueNumber: field.type === "NUMBER" ? field.valueNumber : null,
-          valueBoolean: field.type === "BOOLEAN" ? field.valueBoolean : null,
-          valueLink: field.type === "LINK" ? field.valueLink : null,
-        })),
-      };
-
-      const response = await fetch(`${apiBase}/api/items/${item.id}`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
+      const body = new FormData();
+      body.append("file", file);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(
+        `${apiBase}/api/items/${item.id}/fields/${field.fieldId}/attachments`,
+        {
+          method: "POST",
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+          body,
         },
-        body: JSON.stringify(payload),
+      );
+
+      if ([400, 401, 403, 413, 415].includes(response.status)) {
+        const payloadJson = (await response.json()) as { message?: string };
+        setError(payloadJson.message ?? "Failed to upload file.");
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to upload file: ${response.status}`);
+      }
+
+      const attachment: AttachmentDto = await response.json();
+      updateAttachments(field.fieldId, (attachments) => [...attachments, attachment]);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to upload file.");
+    } finally {
+      setUploadingFieldId(null);
+    }
+  };
+
+  const handleRemoveAttachment = async (field: ItemFieldDto, attachment: AttachmentDto) => {
+    try {
+      setUploadingFieldId(field.fieldId);
+      setError(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/attachments/${attachment.id}`, {
+        method: "DELETE",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
 
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to remove file: ${response.status}`);
+      }
+
+      updateAttachments(field.fieldId, (attachments) =>
+        attachments.filter((existing) => existing.id !== attachment.id),
+      );
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to remove file.");
+    } finally {
+      setUploadingFieldId(null);
+    }
+  };
+
+  const loadHistory = async () => {
+    if (!item) return;
+    try {
+      setHistoryLoading(true);
+      setError(null);
+
+      const response = await fetch(`${apiBase}/api/items/${item.id}/revisions`);
+      if (!response.ok) {
+        throw new Error(`Failed to load history: ${response.status}`);
+      }
+
+      const data: { revisions: ItemRevisionDto[] } = await response.json();
+      setRevisions(data.revisions);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to load item history.");
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const handleToggleHistory = () => {
+    if (!showHistory) {
+      void loadHistory();
+    }
+    setShowHistory((prev) => !prev);
+  };
+
+  const handleRevert = async (revision: ItemRevisionDto) => {
+    if (!item) return;
+    try {
+      setRevertingId(revision.id);
+      setError(null);
+      setConflict(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(
+        `${apiBase}/api/items/${item.id}/revisions/${revision.id}/revert`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify({ version: item.version }),
+        },
+      );
+
       if (response.status === 409) {
         const payloadJson = (await response.json()) as { message: string; current?: ItemDto };
         setConflict(payloadJson.message || "Item was updated by someone else.");
@@ -138,6 +498,118 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
         return;
       }
 
+      if ([400, 401, 403, 404].includes(response.status)) {
+        const payloadJson = (await response.json()) as {
+          message?: string;
+          errors?: FieldValidationError[];
+        };
+        setError(payloadJson.message ?? "Failed to revert item.");
+        setFieldErrors(
+          Object.fromEntries(
+            (payloadJson.errors ?? []).map((fieldError) => [
+              fieldError.fieldId,
+              fieldError.message,
+            ]),
+          ),
+        );
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to revert item: ${response.status}`);
+      }
+
+      const data: ItemDto = await response.json();
+      setItem(data);
+      setCustomId(data.customId);
+      setFields(data.fields);
+      setFieldErrors({});
+      onSaved();
+      await loadHistory();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to revert item.");
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!item && !isNew) return;
+    try {
+      setSaving(true);
+      setError(null);
+      setConflict(null);
+      setFieldErrors({});
+
+      const token = window.localStorage.getItem("authToken");
+      // An empty custom ID on a new item is generated from the inventory's ID format.
+      const response = item
+        ? await fetch(`${apiBase}/api/items/${item.id}`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+              ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({
+              customId: customId.trim() || item.customId,
+              version: item.version,
+              fields: fields.map(toFieldPayload),
+            }),
+          })
+        : await fetch(`${apiBase}/api/inventories/${inventoryId}/items`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({
+              customId: customId.trim() || undefined,
+              fields: fields.map(toFieldPayload),
+            }),
+          });
+
+      if (response.status === 409) {
+        const payloadJson = (await response.json()) as MergeConflictResponse;
+        setConflict(payloadJson.message || "Item was updated by someone else.");
+        // Our edits stay in the form until every conflicting field has been resolved.
+        if (payloadJson.current && payloadJson.merged && payloadJson.conflicts) {
+          setMerge(payloadJson);
+          setMergeChoices({});
+          return;
+        }
+        if (payloadJson.current) {
+          setItem(payloadJson.current);
+          setCustomId(payloadJson.current.customId);
+          setFields(payloadJson.current.fields);
+        }
+        return;
+      }
+
+      if (response.status === 400) {
+        const payloadJson = (await response.json()) as {
+          message?: string;
+          errors?: FieldValidationError[];
+        };
+        setError(payloadJson.message ?? "Failed to save item.");
+        setFieldErrors(
+          Object.fromEntries(
+            (payloadJson.errors ?? []).map((fieldError) => [
+              fieldError.fieldId,
+              fieldError.message,
+            ]),
+          ),
+        );
+        return;
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        const payloadJson = (await response.json()) as { message?: string };
+        setError(payloadJson.message ?? "Failed to save item.");
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`Failed to save item: ${response.status}`);
       }
@@ -157,13 +629,85 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
     }
   };
 
-  if (!item) {
+  const choiceFor = (key: string): MergeSide => mergeChoices[key] ?? "mine";
+
+  // Continues from the newest saved version with the merged values and the chosen sides.
+  const handleApplyMerge = () => {
+    if (!merge?.current || !merge.merged) return;
+    const mergedById = new Map(merge.merged.fields.map((value) => [value.fieldId, value]));
+    const conflictsById = new Map(
+      (merge.conflicts ?? []).map((mergeConflict) => [mergeConflict.fieldId, mergeConflict]),
+    );
+
+    setItem(merge.current);
+    setCustomId(
+      merge.customIdConflict && choiceFor(CUSTOM_ID_CHOICE) === "mine"
+        ? merge.customIdConflict.mine
+        : merge.merged.customId,
+    );
+    setFields(
+      merge.current.fields.map((field) => {
+        const fieldConflict = conflictsById.get(field.fieldId);
+        if (fieldConflict) {
+          return withMergeValue(field, fieldConflict[choiceFor(field.fieldId)]);
+        }
+        const merged = mergedById.get(field.fieldId);
+        return merged ? withMergeValue(field, merged) : field;
+      }),
+    );
+    setMerge(null);
+    setConflict("Conflicts resolved. Review the values and save to apply them.");
+  };
+
+  const handleDiscardMine = () => {
+    if (!merge?.current) return;
+    setItem(merge.current);
+    setCustomId(merge.current.customId);
+    setFields(merge.current.fields);
+    setMerge(null);
+    setConflict(null);
+  };
+
+  const renderMergeValue = (text: string | null) =>
+    text ? <span className="text-break">{text}</span> : <span className="text-muted">(empty)</span>;
+
+  const renderMergeRow = (
+    key: string,
+    title: string,
+    base: string | null,
+    mine: string | null,
+    theirs: string | null,
+  ) => (
+    <tr key={key}>
+      <td>
+        <div className="fw-semibold small">{title}</div>
+        {merge?.baseKnown !== false && (
+          <div className="text-muted small">Was: {base || "(empty)"}</div>
+        )}
+      </td>
+      {(["mine", "theirs"] as MergeSide[]).map((side) => (
+        <td key={side}>
+          <label className="d-flex gap-2 small mb-0">
+            <input
+              type="radio"
+              name={`merge-${key}`}
+              checked={choiceFor(key) === side}
+              onChange={() => setMergeChoices((prev) => ({ ...prev, [key]: side }))}
+            />
+            {renderMergeValue(side === "mine" ? mine : theirs)}
+          </label>
+        </td>
+      ))}
+    </tr>
+  );
+
+  if (loading || (!item && !isNew)) {
     return (
       <div className="modal d-block" tabIndex={-1} role="dialog">
         <div className="modal-dialog modal-lg" role="document">
           <div className="modal-content">
             <div className="modal-header">
-              <h5 className="modal-title">Edit item</h5>
+              <h5 className="modal-title">{isNew ? "New item" : "Edit item"}</h5>
               <button type="button" className="btn-close" aria-label="Close" onClick={onClose} />
             </div>
             <div className="modal-body">
@@ -185,7 +729,7 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
       <div className="modal-dialog modal-lg" role="document">
         <div className="modal-content">
           <div className="modal-header">
-            <h5 className="modal-title">Edit item {item.customId}</h5>
+            <h5 className="modal-title">{item ? `Edit item ${item.customId}` : "New item"}</h5>
             <button type="button" className="btn-close" aria-label="Close" onClick={onClose} />
           </div>
           <div className="modal-body">
@@ -199,35 +743,100 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
                 {conflict}
               </p>
             )}
+            {merge && (
+              <div className="border rounded-3 p-3 mb-3" data-testid="item-merge-resolver">
+                <p className="small text-muted mb-2">
+                  Changes to other fields were merged automatically. Choose which value to keep
+                  where both of you changed the same field.
+                </p>
+                <div className="table-responsive">
+                  <table className="table table-sm align-middle mb-3">
+                    <thead className="table-light">
+                      <tr>
+                        <th scope="col">Field</th>
+                        <th scope="col">Mine</th>
+                        <th scope="col">Theirs</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {merge.customIdConflict &&
+                        renderMergeRow(
+                          CUSTOM_ID_CHOICE,
+                          "Custom ID",
+                          merge.customIdConflict.base,
+                          merge.customIdConflict.mine,
+                          merge.customIdConflict.theirs,
+                        )}
+                      {(merge.conflicts ?? []).map((mergeConflict) =>
+                        renderMergeRow(
+                          mergeConflict.fieldId,
+                          mergeConflict.title,
+                          mergeConflict.base.text,
+                          mergeConflict.mine.text,
+                          mergeConflict.theirs.text,
+                        ),
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="btn-toolbar gap-2">
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-primary"
+                    onClick={handleApplyMerge}
+                  >
+                    Apply choices
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-outline-secondary"
+                    onClick={handleDiscardMine}
+                  >
+                    Discard my changes
+                  </button>
+                </div>
+              </div>
+            )}
 
             <form className="row g-3">
               <div className="col-md-6">
                 <label className="form-label">Custom ID</label>
                 <input
                   type="text"
-                  className="form-control"
+                  className={`form-control${customIdError ? " is-invalid" : ""}`}
                   value={customId}
+                  maxLength={200}
                   onChange={(event) => setCustomId(event.target.value)}
+                  placeholder={item ? undefined : "Generated from the ID format"}
                 />
+                {customIdError && (
+                  <div className="invalid-feedback" data-testid="item-edit-custom-id-error">
+                    {customIdError}
+                  </div>
+                )}
               </div>
-              <div className="col-md-3">
-                <label className="form-label">Created by</label>
-                <input
-                  type="text"
-                  className="form-control"
-                  value={item.createdByName}
-                  disabled
-                />
-              </div>
-              <div className="col-md-3">
-                <label className="form-label">Created at</label>
-                <input
-                  type="text"
-                  className="form-control"
-                  value={new Date(item.createdAt).toLocaleString()}
-                  disabled
-                />
-              </div>
+              {item && (
+                <>
+                  <div className="col-md-3">
+                    <label className="form-label">Created by</label>
+                    <input
+                      type="text"
+                      className="form-control"
+                      value={item.createdByName}
+                      disabled
+                    />
+                  </div>
+                  <div className="col-md-3">
+                    <label className="form-label">Created at</label>
+                    <input
+                      type="text"
+                      className="form-control"
+                      value={new Date(item.createdAt).toLocaleString()}
+                      disabled
+                    />
+                  </div>
+                </>
+              )}
 
               <div className="col-12">
                 <hr />
@@ -236,7 +845,8 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
               {fields.map((field, index) => (
                 <div key={field.fieldId} className="col-md-6">
                   <label className="form-label">
-                    {field.title}{" "}
+                    {field.title}
+                    {field.rules.required && <span className="text-danger"> *</span>}{" "}
                     {field.type === "BOOLEAN" && (
                       <span className="text-muted small">(checkbox)</span>
                     )}
@@ -248,6 +858,7 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
                     <input
                       type="text"
                       className="form-control"
+                      maxLength={field.rules.maxLength ?? undefined}
                       value={field.valueString ?? ""}
                       onChange={(event) => handleFieldChange(index, event.target.value)}
                     />
@@ -256,6 +867,7 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
                     <textarea
                       className="form-control"
                       rows={3}
+                      maxLength={field.rules.maxLength ?? undefined}
                       value={field.valueString ?? ""}
                       onChange={(event) => handleFieldChange(index, event.target.value)}
                     />
@@ -264,6 +876,8 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
                     <input
                       type="number"
                       className="form-control"
+                      min={field.rules.minValue ?? undefined}
+                      max={field.rules.maxValue ?? undefined}
                       value={field.valueNumber ?? ""}
                       onChange={(event) => handleFieldChange(index, event.target.value)}
                     />
@@ -287,6 +901,139 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
                       </button>
                     </div>
                   )}
+                  {field.type === "DATE" && (
+                    <input
+                      type="date"
+                      className="form-control"
+                      value={field.valueDate ?? ""}
+                      onChange={(event) => handleFieldChange(index, event.target.value)}
+                    />
+                  )}
+                  {field.type === "DATETIME" && (
+                    <input
+                      type="datetime-local"
+                      className="form-control"
+                      value={toDateTimeLocalValue(field.valueDate)}
+                      onChange={(event) => handleFieldChange(index, event.target.value)}
+                    />
+                  )}
+                  {field.type === "SELECT" && (
+                    <select
+                      className="form-select"
+                      value={field.valueString ?? ""}
+                      onChange={(event) => handleFieldChange(index, event.target.value)}
+                    >
+                      <option value="">Not set</option>
+                      {field.options.map((option) => (
+                        <option key={option.id} value={option.label}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {field.type === "MULTI_SELECT" && (
+                    <div data-testid="item-edit-multi-select">
+                      {field.options.map((option) => (
+                        <div key={option.id} className="form-check">
+                          <input
+                            id={`field-${field.fieldId}-${option.id}`}
+                            type="checkbox"
+                            className="form-check-input"
+                            checked={field.valueOptions.includes(option.label)}
+                            onChange={(event) =>
+                              handleOptionToggle(index, option.label, event.target.checked)
+                            }
+                          />
+                          <label
+                            className="form-check-label"
+                            htmlFor={`field-${field.fieldId}-${option.id}`}
+                          >
+                            {option.color && (
+                              <span
+                                className="d-inline-block rounded-circle me-1"
+                                style={{
+                                  width: "0.6rem",
+                                  height: "0.6rem",
+                                  background: option.color,
+                                }}
+                              />
+                            )}
+                            {option.label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {field.type === "ATTACHMENT" && !item && (
+                    <p className="text-muted small mb-0">
+                      Files can be attached after the item is created.
+                    </p>
+                  )}
+                  {field.type === "ATTACHMENT" && item && (
+                    <div data-testid="item-edit-attachments">
+                      {field.attachments.length === 0 ? (
+                        <p className="text-muted small mb-2">No files attached.</p>
+                      ) : (
+                        <ul className="list-unstyled mb-2">
+                          {field.attachments.map((attachment) => (
+                            <li
+                              key={attachment.id}
+                              className="d-flex align-items-center gap-2 mb-1"
+                            >
+                              {attachment.mimeType.startsWith("image/") ? (
+                                <img
+                                  src={`${apiBase}/api/attachments/${attachment.id}?inline=1`}
+                                  alt={attachment.fileName}
+                                  className="rounded border"
+                                  style={{ width: "3rem", height: "3rem", objectFit: "cover" }}
+                                />
+                              ) : (
+                                <span
+                                  className="badge bg-light text-muted text-uppercase"
+                                  style={{ width: "3rem" }}
+                                >
+                                  {attachment.fileName.split(".").pop()?.slice(0, 4) ?? "file"}
+                                </span>
+                              )}
+                              <a
+                                href={`${apiBase}/api/attachments/${attachment.id}`}
+                                className="small text-truncate"
+                                title={attachment.fileName}
+                              >
+                                {attachment.fileName}
+                              </a>
+                              <span className="text-muted small text-nowrap">
+                                {formatFileSize(attachment.size)}
+                              </span>
+                              <button
+                                type="button"
+                                className="btn btn-sm btn-outline-danger ms-auto"
+                                onClick={() => void handleRemoveAttachment(field, attachment)}
+                                disabled={uploadingFieldId !== null}
+                              >
+                                Remove
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <input
+                        type="file"
+                        className="form-control form-control-sm"
+                        onChange={(event) => {
+                          const file = event.target.files?.[0];
+                          event.target.value = "";
+                          if (file) void handleUpload(field, file);
+                        }}
+                        disabled={uploadingFieldId !== null}
+                      />
+                      <div className="form-text">
+                        {uploadingFieldId === field.fieldId
+                          ? "Uploading..."
+                          : "Files are saved as soon as they are uploaded."}
+                      </div>
+                    </div>
+                  )}
                   {field.type === "BOOLEAN" && (
                     <div className="form-check">
                       <input
@@ -304,11 +1051,87 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
                       </label>
                     </div>
                   )}
+                  {fieldErrors[field.fieldId] && (
+                    <div className="text-danger small mt-1" data-testid="item-edit-field-error">
+                      {fieldErrors[field.fieldId]}
+                    </div>
+                  )}
                 </div>
               ))}
             </form>
+
+            {showHistory && (
+              <div className="border-top mt-3 pt-3" data-testid="item-edit-history">
+                <h6 className="mb-2">History</h6>
+                {historyLoading && <p className="text-muted small mb-2">Loading history...</p>}
+                {!historyLoading && revisions.length === 0 && (
+                  <p className="text-muted small mb-0">No changes recorded yet.</p>
+                )}
+                <ul className="list-unstyled mb-0">
+                  {revisions.map((revision) => (
+                    <li key={revision.id} className="border rounded-3 p-2 mb-2">
+                      <div className="d-flex justify-content-between align-items-center mb-1">
+                        <span className="small">
+                          <span className="fw-semibold">Version {revision.version}</span>
+                          <span className="text-muted">
+                            {" "}
+                            · {revision.authorName ?? "Unknown user"} ·{" "}
+                            {new Date(revision.createdAt).toLocaleString()}
+                          </span>
+                          {revision.revertOfId && (
+                            <span className="badge bg-light text-muted ms-2">Revert</span>
+                          )}
+                        </span>
+                        {/* Version 1 is the item's creation, there is nothing to go back to. */}
+                        {revision.version > 1 && (
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-secondary"
+                            onClick={() => void handleRevert(revision)}
+                            disabled={revertingId !== null || saving}
+                          >
+                            {revertingId === revision.id ? "Reverting..." : "Revert"}
+                          </button>
+                        )}
+                      </div>
+                      {revision.customIdBefore !== revision.customIdAfter && (
+                        <div className="small">
+                          Custom ID:{" "}
+                          {revision.customIdBefore && (
+                            <del className="text-danger">{revision.customIdBefore}</del>
+                          )}{" "}
+                          <ins className="text-success">{revision.customIdAfter}</ins>
+                        </div>
+                      )}
+                      {revision.changes.map((change) => (
+                        <div key={change.fieldId} className="small">
+                          {change.title}:{" "}
+                          {change.before !== null && (
+                            <del className="text-danger">{change.before}</del>
+                          )}{" "}
+                          {change.after !== null ? (
+                            <ins className="text-success">{change.after}</ins>
+                          ) : (
+                            <span className="text-muted">(cleared)</span>
+                          )}
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
           <div className="modal-footer">
+            {item && (
+              <button
+                type="button"
+                className="btn btn-outline-secondary me-auto"
+                onClick={handleToggleHistory}
+              >
+                {showHistory ? "Hide history" : "History"}
+              </button>
+            )}
             <button
               type="button"
               className="btn btn-secondary"
@@ -321,9 +1144,9 @@ export const ItemEditModal: React.FC<ItemEditModalProps> = ({ itemId, onClose, o
               type="button"
               className="btn btn-primary"
               onClick={() => void handleSave()}
-              disabled={saving}
+              disabled={saving || merge !== null}
             >
-              {saving ? "Saving..." : "Save"}
+              {saving ? "Saving..." : isNew ? "Create" : "Save"}
             </button>
           </div>
         </div>
@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from "react";
+
+type LabelCodeType = "qr" | "code128" | "both";
+
+interface LabelField {
+  id: string;
+  title: string;
+  type: string;
+}
+
+interface LabelPrintModalProps {
+  inventoryId: string;
+  itemIds: string[];
+  onClose: () => void;
+}
+
+const MAX_LABEL_FIELDS = 5;
+
+// Layout options for the printable label sheet of the selected items.
+export const LabelPrintModal: React.FC<LabelPrintModalProps> = ({
+  inventoryId,
+  itemIds,
+  onClose,
+}) => {
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [fields, setFields] = useState<LabelField[]>([]);
+  const [widthMm, setWidthMm] = useState<string>("70");
+  const [heightMm, setHeightMm] = useState<string>("37");
+  const [columns, setColumns] = useState<string>("3");
+  const [code, setCode] = useState<LabelCodeType>("qr");
+  const [fieldIds, setFieldIds] = useState<string[]>([]);
+  const [showInventoryTitle, setShowInventoryTitle] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  // Sheets opened from this modal; their blob URLs are released when it closes.
+  const sheetUrls = useRef<string[]>([]);
+
+  useEffect(
+    () => () => {
+      sheetUrls.current.forEach((url) => window.URL.revokeObjectURL(url));
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const loadFields = async () => {
+      try {
+        const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/fields`);
+        if (!response.ok) {
+          throw new Error(`Failed to load fields: ${response.status}`);
+        }
+        const data: { fields: LabelField[] } = await response.json();
+        setFields(data.fields.filter((field) => field.type !== "ATTACHMENT"));
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(err);
+        setError("Failed to load fields.");
+      }
+    };
+    void loadFields();
+  }, [apiBase, inventoryId]);
+
+  const toggleField = (fieldId: string, checked: boolean) => {
+    setFieldIds((prev) =>
+      checked ? [...prev, fieldId] : prev.filter((candidate) => candidate !== fieldId),
+    );
+  };
+
+  const handleOpenSheet = async () => {
+    // Opened before the request so popup blockers treat it as a reaction to the click.
+    const sheetWindow = window.open("", "_blank");
+    try {
+      setBusy(true);
+      setError(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/labels`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          itemIds,
+          layout: {
+            widthMm: Number(widthMm),
+            heightMm: Number(heightMm),
+            columns: Number(columns),
+            code,
+            fieldIds,
+            showInventoryTitle,
+          },
+        }),
+      });
+
+      if (response.status === 400) {
+        const body = (await response.json()) as { message?: string };
+        setError(body.message ?? "Failed to create labels.");
+        sheetWindow?.close();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to create labels: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      sheetUrls.current.push(url);
+      if (sheetWindow) {
+        sheetWindow.location.href = url;
+      } else {
+        window.open(url, "_blank");
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to create labels.");
+      sheetWindow?.close();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal d-block" tabIndex={-1} role="dialog">
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Print labels ({itemIds.length})</h5>
+            <button type="button" className="btn-close" aria-label="Close" onClick={onClose} />
+          </div>
+          <div className="modal-body">
+            {error && (
+              <p className="text-danger mb-2" data-testid="label-print-error">
+                {error}
+              </p>
+            )}
+
+            <div className="row g-2 mb-3">
+              <div className="col-4">
+                <label className="form-label small mb-1" htmlFor="label-width">
+                  Width (mm)
+                </label>
+                <input
+                  id="label-width"
+                  type="number"
+                  min={20}
+                  max={210}
+                  className="form-control form-control-sm"
+                  value={widthMm}
+                  onChange={(event) => setWidthMm(event.target.value)}
+                />
+              </div>
+              <div className="col-4">
+                <label className="form-label small mb-1" htmlFor="label-height">
+                  Height (mm)
+                </label>
+                <input
+                  id="label-height"
+                  type="number"
+                  min={10}
+                  max={297}
+                  className="form-control form-control-sm"
+                  value={heightMm}
+                  onChange={(event) => setHeightMm(event.target.value)}
+                />
+              </div>
+              <div className="col-4">
+                <label className="form-label small mb-1" htmlFor="label-columns">
+                  Columns
+                </label>
+                <input
+                  id="label-columns"
+                  type="number"
+                  min={1}
+                  max={8}
+                  className="form-control form-control-sm"
+                  value={columns}
+                  onChange={(event) => setColumns(event.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label small mb-1" htmlFor="label-code">
+                Code
+              </label>
+              <select
+                id="label-code"
+                className="form-select form-select-sm"
+                value={code}
+                onChange={(event) => setCode(event.target.value as LabelCodeType)}
+              >
+                <option value="qr">QR code</option>
+                <option value="code128">Code 128 barcode</option>
+                <option value="both">QR code and barcode</option>
+              </select>
+            </div>
+
+            <div className="mb-2">
+              <span className="form-label small d-block mb-1">
+                Fields to print (up to {MAX_LABEL_FIELDS})
+              </span>
+              {fields.length === 0 && <p className="text-muted small mb-0">No fields.</p>}
+              {fields.map((field) => (
+                <div key={field.id} className="form-check">
+                  <input
+                    id={`label-field-${field.id}`}
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={fieldIds.includes(field.id)}
+                    onChange={(event) => toggleField(field.id, event.target.checked)}
+                    disabled={!fieldIds.includes(field.id) && fieldIds.length >= MAX_LABEL_FIELDS}
+                  />
+                  <label className="form-check-label small" htmlFor={`label-field-${field.id}`}>
+                    {field.title}
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            <div className="form-check">
+              <input
+                id="label-inventory-title"
+                type="checkbox"
+                className="form-check-input"
+                checked={showInventoryTitle}
+                onChange={(event) => setShowInventoryTitle(event.target.checked)}
+              />
+              <label className="form-check-label small" htmlFor="label-inventory-title">
+                Print the inventory title
+              </label>
+            </div>
+          </div>
+          <div className="modal-footer">
+            <button type="button" className="btn btn-sm btn-outline-secondary" onClick={onClose}>
+              Close
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-primary"
+              onClick={() => void handleOpenSheet()}
+              disabled={busy || itemIds.length === 0}
+            >
+              {busy ? "Preparing..." : "Open label sheet"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+
+type SearchFacet = "category" | "tag" | "owner" | "items";
+
+interface SavedSearchDto {
+  id: string;
+  name: string;
+  query: string;
+  filters: Record<SearchFacet, string[]>;
+  notify: boolean;
+  lastCheckedAt: string | null;
+  createdAt: string;
+  unreadCount: number;
+}
+
+interface SavedSearchAlertDto {
+  id: string;
+  savedSearchId: string;
+  savedSearchName: string;
+  kind: "inventory" | "item";
+  targetId: string;
+  inventoryId: string;
+  title: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// The search page URL a saved search stands for.
+function searchPath(saved: SavedSearchDto): string {
+  const params = new URLSearchParams();
+  if (saved.query) {
+    params.set("q", saved.query);
+  }
+  for (const [facet, values] of Object.entries(saved.filters)) {
+    for (const value of values) {
+      params.append(facet, value);
+    }
+  }
+  return `/search?${params.toString()}`;
+}
+
+function alertPath(alert: SavedSearchAlertDto): string {
+  return alert.kind === "item"
+    ? `/inventories/${alert.inventoryId}?item=${encodeURIComponent(alert.targetId)}`
+    : `/inventories/${alert.targetId}`;
+}
+
+function filterSummary(saved: SavedSearchDto): string {
+  return Object.entries(saved.filters)
+    .filter(([, values]) => values.length > 0)
+    .map(([facet, values]) => `${facet}: ${values.join(", ")}`)
+    .join(" · ");
+}
+
+// Saved searches of the current user and the new matches recorded for those with alerts on.
+export const SavedSearchesSection: React.FC = () => {
+  const navigate = useNavigate();
+  const [savedSearches, setSavedSearches] = useState<SavedSearchDto[]>([]);
+  const [alerts, setAlerts] = useState<SavedSearchAlertDto[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const authHeaders = (): Record<string, string> => {
+    const token = window.localStorage.getItem("authToken");
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  const loadSavedSearches = async () => {
+    try {
+      setError(null);
+
+      const [searchesResponse, alertsResponse] = await Promise.all([
+        fetch(`${apiBase}/api/saved-searches`, { headers: authHeaders() }),
+        fetch(`${apiBase}/api/saved-searches/alerts`, { headers: authHeaders() }),
+      ]);
+      if (!searchesResponse.ok) {
+        throw new Error(`Failed to load saved searches: ${searchesResponse.status}`);
+      }
+      if (!alertsResponse.ok) {
+        throw new Error(`Failed to load saved search alerts: ${alertsResponse.status}`);
+      }
+
+      const searchesData: { savedSearches: SavedSearchDto[] } = await searchesResponse.json();
+      const alertsData: { alerts: SavedSearchAlertDto[]; unreadCount: number } =
+        await alertsResponse.json();
+      setSavedSearches(searchesData.savedSearches);
+      setAlerts(alertsData.alerts);
+      setUnreadCount(alertsData.unreadCount);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to load saved searches.");
+    }
+  };
+
+  useEffect(() => {
+    void loadSavedSearches();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggleNotify = async (saved: SavedSearchDto, notify: boolean) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`${apiBase}/api/saved-searches/${saved.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ notify }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to update saved search: ${response.status}`);
+      }
+
+      const updated: SavedSearchDto = await response.json();
+      setSavedSearches((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to update the saved search.");
+    }
+  };
+
+  const deleteSavedSearch = async (saved: SavedSearchDto) => {
+    if (!window.confirm(`Delete the saved search "${saved.name}"?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const response = await fetch(`${apiBase}/api/saved-searches/${saved.id}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to delete saved search: ${response.status}`);
+      }
+
+      await loadSavedSearches();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to delete the saved search.");
+    }
+  };
+
+  // Without ids every alert of the user is marked as read.
+  const markRead = async (alertIds?: string[]) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`${apiBase}/api/saved-searches/alerts/read`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify(alertIds ? { alertIds } : {}),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to mark alerts as read: ${response.status}`);
+      }
+
+      await loadSavedSearches();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to mark alerts as read.");
+    }
+  };
+
+  const openAlert = (alert: SavedSearchAlertDto) => {
+    if (!alert.readAt) {
+      void markRead([alert.id]);
+    }
+    navigate(alertPath(alert));
+  };
+
+  return (
+    <section className="mb-4" data-testid="saved-searches">
+      <h2 className="h5 mb-2">Saved searches</h2>
+      {error && (
+        <p className="text-danger mb-2" data-testid="saved-searches-error">
+          {error}
+        </p>
+      )}
+
+      {savedSearches.length === 0 ? (
+        <p className="text-muted small">
+          No saved searches yet. Use “Save search” on the search results page.
+        </p>
+      ) : (
+        <ul className="list-group shadow-sm mb-3">
+          {savedSearches.map((saved) => (
+            <li
+              key={saved.id}
+              className="list-group-item d-flex justify-content-between align-items-center gap-2"
+            >
+              <div>
+                <Link to={searchPath(saved)} className="text-decoration-none fw-semibold">
+                  {saved.name}
+                </Link>
+                {saved.unreadCount > 0 && (
+                  <span className="badge bg-primary ms-2">{saved.unreadCount} new</span>
+                )}
+                <div className="text-muted small">
+                  {saved.query && <code className="me-2">{saved.query}</code>}
+                  {filterSummary(saved)}
+                </div>
+              </div>
+              <div className="d-flex align-items-center gap-2 flex-shrink-0">
+                <div className="form-check mb-0">
+                  <input
+                    id={`saved-search-notify-${saved.id}`}
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={saved.notify}
+                    onChange={(event) => void toggleNotify(saved, event.target.checked)}
+                  />
+                  <label
+                    className="form-check-label small"
+                    htmlFor={`saved-search-notify-${saved.id}`}
+                  >
+                    Notify me
+                  </label>
+                </div>
+                <Link to={searchPath(saved)} className="btn btn-sm btn-outline-primary">
+                  Run
+                </Link>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() => void deleteSavedSearch(saved)}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {alerts.length > 0 && (
+        <>
+          <div className="d-flex justify-content-between align-items-center mb-2">
+            <h3 className="h6 mb-0">
+              New matches{unreadCount > 0 && ` (${unreadCount} unread)`}
+            </h3>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="btn btn-sm btn-link p-0"
+                onClick={() => void markRead()}
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+          <ul className="list-group shadow-sm" data-testid="saved-search-alerts">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="list-group-item list-group-item-action d-flex justify-content-between"
+                role="button"
+                onClick={() => openAlert(alert)}
+              >
+                <span className={alert.readAt ? "" : "fw-semibold"}>
+                  {alert.kind === "item" ? "Item " : "Inventory "}
+                  <span className={alert.kind === "item" ? "font-monospace" : ""}>
+                    {alert.title}
+                  </span>
+                </span>
+                <span className="text-muted small">
+                  {alert.savedSearchName} · {new Date(alert.createdAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
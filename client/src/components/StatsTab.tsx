@@ -20,12 +20,40 @@ interface TextFieldStats {
   topValues: TextFieldValueStats[];
 }
 
+interface DateFieldStats {
+  fieldId: string;
+  title: string;
+  type: "DATE" | "DATETIME";
+  count: number;
+  min: string;
+  max: string;
+  rangeDays: number;
+}
+
+interface OptionCountStats {
+  label: string;
+  color: string | null;
+  count: number;
+}
+
+interface OptionFieldStats {
+  fieldId: string;
+  title: string;
+  type: "SELECT" | "MULTI_SELECT";
+  options: OptionCountStats[];
+}
+
 interface StatsResponse {
   itemsCount: number;
   numericFields: NumericFieldStats[];
   textFields: TextFieldStats[];
+  dateFields: DateFieldStats[];
+  optionFields: OptionFieldStats[];
 }
 
+const formatStatsDate = (value: string, type: DateFieldStats["type"]) =>
+  type === "DATE" ? value : new Date(value).toLocaleString();
+
 interface StatsTabProps {
   inventoryId: string;
 }
@@ -103,7 +131,8 @@ export const StatsTab: React.FC<StatsTabProps> = ({ inventoryId }) => {
               <h3 className="h6 mb-2">Summary</h3>
               <p className="text-muted small mb-0">
                 Numeric fields show min / max / average values. Text fields show most frequent
-                values.
+                values. Date fields show the earliest and latest dates and the range between them.
+                Select fields show how many items use each option.
               </p>
             </div>
           </div>
@@ -157,6 +186,89 @@ export const StatsTab: React.FC<StatsTabProps> = ({ inventoryId }) => {
             )}
           </div>
 
+          <div className="mb-3">
+            <h3 className="h6 mb-2">Date fields</h3>
+            {stats.dateFields.length === 0 ? (
+              <p className="text-muted small mb-0">
+                No date fields with values yet. Add date or date/time custom fields and fill in item
+                data to see the earliest and latest dates here.
+              </p>
+            ) : (
+              <div className="table-responsive">
+                <table className="table table-sm align-middle mb-0">
+                  <thead className="table-light">
+                    <tr>
+                      <th scope="col">Field</th>
+                      <th scope="col" style={{ width: "6rem" }}>
+                        Count
+                      </th>
+                      <th scope="col" style={{ width: "12rem" }}>
+                        Earliest
+                      </th>
+                      <th scope="col" style={{ width: "12rem" }}>
+                        Latest
+                      </th>
+                      <th scope="col" style={{ width: "8rem" }}>
+                        Range
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.dateFields.map((field) => (
+                      <tr key={field.fieldId}>
+                        <td>{field.title}</td>
+                        <td>{field.count}</td>
+                        <td>{formatStatsDate(field.min, field.type)}</td>
+                        <td>{formatStatsDate(field.max, field.type)}</td>
+                        <td>{field.rangeDays} days</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="mb-3">
+            <h3 className="h6 mb-2">Select fields</h3>
+            {stats.optionFields.length === 0 ? (
+              <p className="text-muted small mb-0">
+                No select fields yet. Add single or multi select fields to see how often each
+                option is used here.
+              </p>
+            ) : (
+              <div className="row g-3">
+                {stats.optionFields.map((field) => (
+                  <div key={field.fieldId} className="col-md-6">
+                    <div className="border rounded-3 p-3 h-100">
+                      <h4 className="h6 mb-2">{field.title}</h4>
+                      <ul className="list-unstyled mb-0 small">
+                        {field.options.map((option) => (
+                          <li key={option.label} className="d-flex justify-content-between">
+                            <span className="text-truncate me-2" title={option.label}>
+                              {option.color && (
+                                <span
+                                  className="d-inline-block rounded-circle me-1"
+                                  style={{
+                                    width: "0.6rem",
+                                    height: "0.6rem",
+                                    background: option.color,
+                                  }}
+                                />
+                              )}
+                              {option.label}
+                            </span>
+                            <span className="badge bg-light text-muted">{option.count}×</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div>
             <h3 className="h6 mb-2">Text fields</h3>
             {stats.textFields.length === 0 ? (
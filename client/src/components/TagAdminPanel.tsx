@@ -0,0 +1,444 @@
+import type { FormEvent } from "react";
+import { useEffect, useState } from "react";
+
+interface TagNameRules {
+  lowercase: boolean;
+  slug: boolean;
+}
+
+interface AdminTag {
+  id: string;
+  name: string;
+  normalizedName: string;
+  inventoriesCount: number;
+  synonyms: { id: string; name: string }[];
+  createdAt: string;
+}
+
+// Admin console for tags: naming rules, rename, merge, synonyms and clean-up of unused tags.
+export const TagAdminPanel: React.FC = () => {
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [tags, setTags] = useState<AdminTag[]>([]);
+  const [rules, setRules] = useState<TagNameRules | null>(null);
+  const [filter, setFilter] = useState<string>("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mergeTargetId, setMergeTargetId] = useState<string>("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState<string>("");
+  const [synonymDrafts, setSynonymDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const authHeaders = (): Record<string, string> => {
+    const token = window.localStorage.getItem("authToken");
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  const loadTags = async (query: string) => {
+    try {
+      setError(null);
+      const response = await fetch(`${apiBase}/api/admin/tags?q=${encodeURIComponent(query)}`, {
+        headers: authHeaders(),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load tags: ${response.status}`);
+      }
+      const data: { tags: AdminTag[] } = await response.json();
+      setTags(data.tags);
+      setSelectedIds(new Set());
+      setMergeTargetId("");
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to load tags.");
+    }
+  };
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await fetch(`${apiBase}/api/admin/tag-rules`, {
+          headers: authHeaders(),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to load tag name rules: ${response.status}`);
+        }
+        const data: { rules: TagNameRules } = await response.json();
+        setRules(data.rules);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(err);
+        setError("Failed to load tag name rules.");
+      }
+    };
+
+    void loadRules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiBase]);
+
+  // Waits for a pause in typing before filtering on the server.
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => void loadTags(filter.trim()), 250);
+    return () => window.clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiBase, filter]);
+
+  // Runs a change and reloads the list; 400 and 409 carry a message for the admin.
+  const runAction = async (request: () => Promise<Response>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+
+      const response = await request();
+      if (response.status === 400 || response.status === 409) {
+        const body = (await response.json()) as { message?: string };
+        setError(body.message ?? failure);
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`${failure} ${response.status}`);
+      }
+
+      await loadTags(filter.trim());
+      return response;
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError(failure);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const jsonRequest = (path: string, method: string, body?: unknown) => () =>
+    fetch(`${apiBase}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const handleSaveRules = async () => {
+    if (!rules) return;
+    const response = await runAction(
+      jsonRequest("/api/admin/tag-rules", "PUT", { rules }),
+      "Failed to save tag name rules.",
+    );
+    if (response) {
+      setNotice("Rules saved. They apply to tags saved from now on.");
+    }
+  };
+
+  const handleRename = async (event: FormEvent<HTMLFormElement>, tag: AdminTag) => {
+    event.preventDefault();
+    const response = await runAction(
+      jsonRequest(`/api/admin/tags/${tag.id}`, "PATCH", { name: renameDraft }),
+      "Failed to rename the tag.",
+    );
+    if (response) {
+      setRenamingId(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    const sourceIds = Array.from(selectedIds).filter((id) => id !== mergeTargetId);
+    const target = tags.find((tag) => tag.id === mergeTargetId);
+    if (!target || sourceIds.length === 0) return;
+    if (!window.confirm(`Merge ${sourceIds.length} tag(s) into "${target.name}"?`)) return;
+
+    const response = await runAction(
+      jsonRequest("/api/admin/tags/merge", "POST", { sourceIds, targetId: target.id }),
+      "Failed to merge the tags.",
+    );
+    if (response) {
+      setNotice(`Merged into "${target.name}"; the old names are now its synonyms.`);
+    }
+  };
+
+  const handleDelete = async (tag: AdminTag) => {
+    if (!window.confirm(`Delete the tag "${tag.name}"?`)) return;
+    await runAction(
+      jsonRequest(`/api/admin/tags/${tag.id}`, "DELETE"),
+      "Failed to delete the tag.",
+    );
+  };
+
+  const handleDeleteUnused = async () => {
+    if (!window.confirm("Delete every tag no inventory uses?")) return;
+    const response = await runAction(
+      jsonRequest("/api/admin/tags/delete-unused", "POST"),
+      "Failed to delete unused tags.",
+    );
+    if (response) {
+      const data: { deleted: number } = await response.json();
+      setNotice(`Deleted ${data.deleted} unused tag(s).`);
+    }
+  };
+
+  const handleAddSynonym = async (event: FormEvent<HTMLFormElement>, tag: AdminTag) => {
+    event.preventDefault();
+    const name = (synonymDrafts[tag.id] ?? "").trim();
+    if (!name) return;
+    const response = await runAction(
+      jsonRequest(`/api/admin/tags/${tag.id}/synonyms`, "POST", { name }),
+      "Failed to add the synonym.",
+    );
+    if (response) {
+      setSynonymDrafts((prev) => ({ ...prev, [tag.id]: "" }));
+    }
+  };
+
+  const handleRemoveSynonym = async (tag: AdminTag, synonymId: string) => {
+    await runAction(
+      jsonRequest(`/api/admin/tags/${tag.id}/synonyms/${synonymId}`, "DELETE"),
+      "Failed to remove the synonym.",
+    );
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+    if (!checked && id === mergeTargetId) {
+      setMergeTargetId("");
+    }
+  };
+
+  const selectedTags = tags.filter((tag) => selectedIds.has(tag.id));
+
+  return (
+    <div className="bg-white rounded-3 shadow-sm p-3 mt-3" data-testid="admin-tags">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <span className="fw-semibold">Tags</span>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-danger"
+          onClick={() => void handleDeleteUnused()}
+          disabled={busy}
+        >
+          Delete unused tags
+        </button>
+      </div>
+
+      {rules && (
+        <div className="d-flex flex-wrap align-items-center gap-3 mb-3">
+          <span className="small text-muted">New tag names:</span>
+          <div className="form-check mb-0">
+            <input
+              id="tag-rule-lowercase"
+              type="checkbox"
+              className="form-check-input"
+              checked={rules.lowercase}
+              onChange={(event) => setRules({ ...rules, lowercase: event.target.checked })}
+            />
+            <label className="form-check-label small" htmlFor="tag-rule-lowercase">
+              lowercase (HR → hr)
+            </label>
+          </div>
+          <div className="form-check mb-0">
+            <input
+              id="tag-rule-slug"
+              type="checkbox"
+              className="form-check-input"
+              checked={rules.slug}
+              onChange={(event) => setRules({ ...rules, slug: event.target.checked })}
+            />
+            <label className="form-check-label small" htmlFor="tag-rule-slug">
+              slug form (human resources → human-resources)
+            </label>
+          </div>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-primary"
+            onClick={() => void handleSaveRules()}
+            disabled={busy}
+          >
+            Save rules
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-danger mb-2" data-testid="admin-tags-error">
+          {error}
+        </p>
+      )}
+      {notice && <p className="text-success small mb-2">{notice}</p>}
+
+      <div className="d-flex flex-wrap align-items-center gap-2 mb-2">
+        <input
+          type="search"
+          className="form-control form-control-sm w-auto"
+          placeholder="Filter tags and synonyms"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+        {selectedTags.length >= 2 && (
+          <>
+            <span className="small text-muted">Merge selected into</span>
+            <select
+              className="form-select form-select-sm w-auto"
+              value={mergeTargetId}
+              onChange={(event) => setMergeTargetId(event.target.value)}
+            >
+              <option value="">choose a tag...</option>
+              {selectedTags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="btn btn-sm btn-primary"
+              onClick={() => void handleMerge()}
+              disabled={busy || !mergeTargetId}
+            >
+              Merge
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="table-responsive">
+        <table className="table table-sm align-middle mb-0">
+          <thead className="table-light">
+            <tr>
+              <th scope="col" style={{ width: "2.5rem" }} />
+              <th scope="col">Tag</th>
+              <th scope="col" style={{ width: "6rem" }}>
+                Inventories
+              </th>
+              <th scope="col">Synonyms</th>
+              <th scope="col" style={{ width: "9rem" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {tags.map((tag) => (
+              <tr key={tag.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    className="form-check-input"
+                    aria-label={`Select ${tag.name}`}
+                    checked={selectedIds.has(tag.id)}
+                    onChange={(event) => toggleSelected(tag.id, event.target.checked)}
+                  />
+                </td>
+                <td>
+                  {renamingId === tag.id ? (
+                    <form
+                      className="d-flex gap-1"
+                      onSubmit={(event) => void handleRename(event, tag)}
+                    >
+                      <input
+                        type="text"
+                        className="form-control form-control-sm"
+                        value={renameDraft}
+                        onChange={(event) => setRenameDraft(event.target.value)}
+                        autoFocus
+                      />
+                      <button type="submit" className="btn btn-sm btn-primary" disabled={busy}>
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-sm btn-outline-secondary"
+                        onClick={() => setRenamingId(null)}
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <span>{tag.name}</span>
+                      {tag.normalizedName !== tag.name && (
+                        <span
+                          className="badge text-bg-warning ms-2"
+                          title="Name under the current rules"
+                        >
+                          → {tag.normalizedName || "(empty)"}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td>{tag.inventoriesCount}</td>
+                <td>
+                  <div className="d-flex flex-wrap align-items-center gap-1">
+                    {tag.synonyms.map((synonym) => (
+                      <span key={synonym.id} className="badge text-bg-light border">
+                        {synonym.name}
+                        <button
+                          type="button"
+                          className="btn-close ms-1"
+                          style={{ fontSize: "0.5rem" }}
+                          aria-label={`Remove synonym ${synonym.name}`}
+                          onClick={() => void handleRemoveSynonym(tag, synonym.id)}
+                          disabled={busy}
+                        />
+                      </span>
+                    ))}
+                    <form onSubmit={(event) => void handleAddSynonym(event, tag)}>
+                      <input
+                        type="text"
+                        className="form-control form-control-sm"
+                        style={{ width: "9rem" }}
+                        placeholder="Add synonym"
+                        value={synonymDrafts[tag.id] ?? ""}
+                        onChange={(event) =>
+                          setSynonymDrafts((prev) => ({ ...prev, [tag.id]: event.target.value }))
+                        }
+                      />
+                    </form>
+                  </div>
+                </td>
+                <td className="text-end">
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-link"
+                    onClick={() => {
+                      setRenamingId(tag.id);
+                      setRenameDraft(tag.name);
+                    }}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-link text-danger"
+                    onClick={() => void handleDelete(tag)}
+                    disabled={busy || tag.inventoriesCount > 0}
+                    title={tag.inventoriesCount > 0 ? "Merge a used tag instead" : undefined}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {tags.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-muted text-center py-3">
+                  No tags found.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-muted small mt-2 mb-0">
+        Tags saved under a synonym become the tag itself, and search finds the tag by its synonyms.
+        Merged tags keep their names as synonyms of the tag they were merged into.
+      </p>
+    </div>
+  );
+};
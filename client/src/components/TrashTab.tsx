@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+
+interface TrashedItem {
+  id: string;
+  customId: string;
+  createdByName: string;
+  createdAt: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface TrashTabProps {
+  inventoryId: string;
+  canDeletePermanently: boolean;
+  onRestored: () => void;
+}
+
+export const TrashTab: React.FC<TrashTabProps> = ({
+  inventoryId,
+  canDeletePermanently,
+  onRestored,
+}) => {
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  const [items, setItems] = useState<TrashedItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    if (!inventoryId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setSelectedIds(new Set());
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/trash`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load trash: ${response.status}`);
+      }
+
+      const data: { retentionDays: number; items: TrashedItem[] } = await response.json();
+      setItems(data.items);
+      setRetentionDays(data.retentionDays);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to load trash.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadTrash();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inventoryId]);
+
+  const toggleSelection = (itemId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const performAction = async (path: string, method: "POST" | "DELETE") => {
+    if (selectedIds.size === 0) return;
+    try {
+      setError(null);
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ itemIds: Array.from(selectedIds) }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Trash action failed: ${response.status}`);
+      }
+
+      if (method === "POST") {
+        onRestored();
+      }
+      await loadTrash();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError(method === "POST" ? "Failed to restore items." : "Failed to delete items.");
+    }
+  };
+
+  const handleDeletePermanently = () => {
+    const confirmed = window.confirm(
+      `Delete ${selectedIds.size} item(s) permanently? ` +
+        "Their field values and files cannot be restored.",
+    );
+    if (confirmed) {
+      void performAction(`/api/inventories/${inventoryId}/trash`, "DELETE");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3 shadow-sm p-3">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <div>
+          <span className="fw-semibold">Trash</span>
+          {retentionDays !== null && (
+            <p className="text-muted small mb-0">
+              Deleted items are kept for {retentionDays} days and then removed permanently.
+            </p>
+          )}
+        </div>
+        <div className="btn-toolbar gap-2">
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-secondary"
+            onClick={() => void loadTrash()}
+            disabled={loading}
+          >
+            Refresh
+          </button>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-success"
+            onClick={() =>
+              void performAction(`/api/inventories/${inventoryId}/trash/restore`, "POST")
+            }
+            disabled={selectedIds.size === 0}
+          >
+            Restore selected
+          </button>
+          {canDeletePermanently && (
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-danger"
+              onClick={handleDeletePermanently}
+              disabled={selectedIds.size === 0}
+            >
+              Delete permanently
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading && <p className="text-muted mb-2">Loading trash...</p>}
+      {error && (
+        <p className="text-danger mb-2" data-testid="inventory-trash-error">
+          {error}
+        </p>
+      )}
+
+      <div className="table-responsive">
+        <table className="table table-hover align-middle mb-0">
+          <thead className="table-light">
+            <tr>
+              <th scope="col" style={{ width: "3rem" }} />
+              <th scope="col">Custom ID</th>
+              <th scope="col">Created by</th>
+              <th scope="col" style={{ width: "12rem" }}>
+                Deleted at
+              </th>
+              <th scope="col" style={{ width: "12rem" }}>
+                Removed permanently on
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    aria-label="Select item"
+                    checked={selectedIds.has(item.id)}
+                    onChange={() => toggleSelection(item.id)}
+                  />
+                </td>
+                <td>{item.customId}</td>
+                <td className="text-muted small">{item.createdByName}</td>
+                <td className="text-muted small">{new Date(item.deletedAt).toLocaleString()}</td>
+                <td className="text-muted small">
+                  {new Date(item.purgeAt).toLocaleDateString()}
+                </td>
+              </tr>
+            ))}
+            {items.length === 0 && !loading && (
+              <tr>
+                <td colSpan={5} className="text-muted text-center py-3">
+                  Trash is empty.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
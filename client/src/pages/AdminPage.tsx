@@ -1,4 +1,6 @@
 import { useEffect, useState } from "react";
+import { FieldLimitsPanel } from "../components/FieldLimitsPanel";
+import { TagAdminPanel } from "../components/TagAdminPanel";
 
 type UserRole = "USER" | "ADMIN";
 
@@ -118,7 +120,7 @@ export const AdminPage: React.FC = () => {
       <section className="mb-3">
         <h1 className="h4 mb-1">Admin panel</h1>
         <p className="text-muted mb-0">
-          User management: block, unblock, delete, add/remove admin role.
+          User management: block, unblock, delete, add/remove admin role. Global field limits.
         </p>
       </section>
 
@@ -251,6 +253,9 @@ export const AdminPage: React.FC = () => {
           </table>
         </div>
       </div>
+
+      <FieldLimitsPanel />
+      <TagAdminPanel />
     </div>
   );
 };
@@ -1,12 +1,15 @@
 import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { Nav } from "react-bootstrap";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { CustomIdTab } from "../components/CustomIdTab";
 import { FieldsTab } from "../components/FieldsTab";
 import { StatsTab } from "../components/StatsTab";
+import { TrashTab } from "../components/TrashTab";
 import { ItemEditModal } from "../components/ItemEditModal";
+import { InventoryLifecyclePanel } from "../components/InventoryLifecyclePanel";
+import { LabelPrintModal } from "../components/LabelPrintModal";
 
 type InventoryTab =
   | "items"
@@ -15,16 +18,53 @@ type InventoryTab =
   | "customId"
   | "access"
   | "fields"
-  | "stats";
+  | "stats"
+  | "trash";
 
 interface InventoryItem {
   id: string;
   customId: string;
   createdByName: string;
+  createdAt: string;
   likesCount: number;
   likedByCurrentUser: boolean;
+  // Display text of the table columns, keyed by field id.
+  values: Record<string, string | null>;
+}
+
+type InventoryFieldType =
+  | "SINGLE_LINE_TEXT"
+  | "MULTI_LINE_TEXT"
+  | "NUMBER"
+  | "LINK"
+  | "BOOLEAN"
+  | "DATE"
+  | "DATETIME"
+  | "SELECT"
+  | "MULTI_SELECT"
+  | "ATTACHMENT";
+
+interface ItemColumn {
+  id: string;
+  title: string;
+  type: InventoryFieldType;
+}
+
+interface ItemsPage {
+  items: InventoryItem[];
+  columns: ItemColumn[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// `column` is "customId", "createdAt", "likes" or a field id.
+interface ItemSort {
+  column: string;
+  direction: "asc" | "desc";
 }
 
+type ItemFilterInput = Partial<Record<"contains" | "min" | "max" | "equals", string>>;
+
 interface DiscussionPost {
   id: string;
   content: string;
@@ -44,10 +84,14 @@ interface InventoryDetails {
   version: number;
   tags: string[];
   imageUrl: string | null;
+  ownerId: string;
+  ownerName: string;
+  archivedAt: string | null;
   canEditItems: boolean;
   canEditSettings: boolean;
   canManageAccess: boolean;
   canEditFields: boolean;
+  canManageInventory: boolean;
 }
 
 interface AccessUser {
@@ -58,8 +102,15 @@ interface AccessUser {
 
 export const InventoryPage: React.FC = () => {
   const params = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [activeTab, setActiveTab] = useState<InventoryTab>("items");
   const [items, setItems] = useState<InventoryItem[]>([]);
+  const [itemColumns, setItemColumns] = useState<ItemColumn[]>([]);
+  const [itemsTotal, setItemsTotal] = useState<number>(0);
+  const [itemsCursor, setItemsCursor] = useState<string | null>(null);
+  const [itemSort, setItemSort] = useState<ItemSort>({ column: "createdAt", direction: "desc" });
+  const [itemFilters, setItemFilters] = useState<Record<string, ItemFilterInput>>({});
   const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -181,23 +232,52 @@ export const InventoryPage: React.FC = () => {
     }
   };
 
-  const loadItems = async () => {
+  // Without a cursor the first page is loaded again; with one the next page is appended.
+  const loadItems = async (cursor?: string) => {
     if (!inventoryId) return;
     try {
       setLoading(true);
       setError(null);
 
-      const token = window.localStorage.getItem("authToken");
-      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/items`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      const query = new URLSearchParams({
+        sort: itemSort.column,
+        direction: itemSort.direction,
       });
+      for (const [key, filter] of Object.entries(itemFilters)) {
+        for (const [operator, value] of Object.entries(filter)) {
+          if (value?.trim()) {
+            query.append(`filter[${key}][${operator}]`, value.trim());
+          }
+        }
+      }
+      if (cursor) {
+        query.set("cursor", cursor);
+      }
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(
+        `${apiBase}/api/inventories/${inventoryId}/items?${query.toString()}`,
+        {
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        },
+      );
+      if (response.status === 400) {
+        const body = (await response.json()) as { message?: string };
+        setError(body.message ?? "Failed to load items.");
+        return;
+      }
       if (!response.ok) {
         throw new Error(`Failed to load items: ${response.status}`);
       }
 
-      const data: { items: InventoryItem[] } = await response.json();
-      setItems(data.items);
-      setSelectedItemIds(new Set());
+      const data: ItemsPage = await response.json();
+      setItems((prev) => (cursor ? [...prev, ...data.items] : data.items));
+      setItemColumns(data.columns);
+      setItemsTotal(data.total);
+      setItemsCursor(data.nextCursor);
+      if (!cursor) {
+        setSelectedItemIds(new Set());
+      }
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error(err);
@@ -231,11 +311,22 @@ export const InventoryPage: React.FC = () => {
 
   useEffect(() => {
     void loadInventoryDetails();
-    void loadItems();
     void loadAccess();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [inventoryId]);
 
+  // Filters are typed into the table header, so wait for a pause before reloading.
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => {
+      void loadItems();
+    }, 300);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inventoryId, itemSort, itemFilters]);
+
   useEffect(() => {
     if (!inventoryId || activeTab !== "discussion") {
       return;
@@ -252,33 +343,107 @@ export const InventoryPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [inventoryId, activeTab]);
 
-  const handleAddItem = async () => {
-    if (!inventoryId) return;
-    try {
-      setError(null);
-      const token = window.localStorage.getItem("authToken");
-      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/items`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({}),
-      });
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [creatingItem, setCreatingItem] = useState<boolean>(false);
+  const [printingLabels, setPrintingLabels] = useState<boolean>(false);
 
-      if (!response.ok) {
-        throw new Error(`Failed to create item: ${response.status}`);
-      }
+  // The scan page links here with ?item=<id> to open the matching item straight away.
+  const linkedItemId = new URLSearchParams(location.search).get("item");
 
-      await loadItems();
-    } catch (err) {
-      // eslint-disable-next-line no-console
-      console.error(err);
-      setError("Failed to create item.");
+  useEffect(() => {
+    if (linkedItemId) {
+      setActiveTab("items");
+      setEditingItemId(linkedItemId);
     }
+  }, [linkedItemId]);
+
+  const handleSortItems = (column: string) => {
+    setItemSort((prev) =>
+      prev.column === column
+        ? { column, direction: prev.direction === "asc" ? "desc" : "asc" }
+        : { column, direction: column === "createdAt" || column === "likes" ? "desc" : "asc" },
+    );
   };
 
-  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const handleItemFilterChange = (
+    key: string,
+    operator: keyof ItemFilterInput,
+    value: string,
+  ) => {
+    setItemFilters((prev) => ({ ...prev, [key]: { ...prev[key], [operator]: value } }));
+  };
+
+  const renderSortableHeader = (column: string, label: string, width?: string) => (
+    <th
+      key={column}
+      scope="col"
+      role="button"
+      className="text-nowrap"
+      style={width ? { width } : undefined}
+      onClick={() => handleSortItems(column)}
+    >
+      {label}
+      {itemSort.column === column && (itemSort.direction === "asc" ? " ▲" : " ▼")}
+    </th>
+  );
+
+  const renderColumnFilter = (column: ItemColumn) => {
+    const filter = itemFilters[column.id] ?? {};
+    if (column.type === "BOOLEAN") {
+      return (
+        <select
+          className="form-select form-select-sm"
+          aria-label={`Filter ${column.title}`}
+          value={filter.equals ?? ""}
+          onChange={(event) => handleItemFilterChange(column.id, "equals", event.target.value)}
+        >
+          <option value="">Any</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+    if (column.type === "NUMBER" || column.type === "DATE" || column.type === "DATETIME") {
+      const inputType = column.type === "NUMBER" ? "number" : "date";
+      return (
+        <div className="d-flex gap-1">
+          <input
+            type={inputType}
+            className="form-control form-control-sm"
+            aria-label={`${column.title} from`}
+            placeholder="From"
+            value={filter.min ?? ""}
+            onChange={(event) => handleItemFilterChange(column.id, "min", event.target.value)}
+          />
+          <input
+            type={inputType}
+            className="form-control form-control-sm"
+            aria-label={`${column.title} to`}
+            placeholder="To"
+            value={filter.max ?? ""}
+            onChange={(event) => handleItemFilterChange(column.id, "max", event.target.value)}
+          />
+        </div>
+      );
+    }
+    return (
+      <input
+        type="text"
+        className="form-control form-control-sm"
+        aria-label={`Filter ${column.title}`}
+        placeholder="Contains..."
+        value={filter.contains ?? ""}
+        onChange={(event) => handleItemFilterChange(column.id, "contains", event.target.value)}
+      />
+    );
+  };
+
+  const formatColumnValue = (column: ItemColumn, value: string | null) => {
+    if (value === null) return "";
+    if (column.type === "BOOLEAN") return value === "true" ? "✓" : "";
+    if (column.type === "DATETIME") return new Date(value).toLocaleString();
+    return value;
+  };
 
   const toggleItemSelection = (itemId: string) => {
     setSelectedItemIds((prev) => {
@@ -318,6 +483,32 @@ export const InventoryPage: React.FC = () => {
     }
   };
 
+  const handleDeleteSelected = async () => {
+    if (!inventoryId || selectedItemIds.size === 0) return;
+    try {
+      setError(null);
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/inventories/${inventoryId}/items`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ itemIds: Array.from(selectedItemIds) }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete items: ${response.status}`);
+      }
+
+      await loadItems();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setError("Failed to delete selected items.");
+    }
+  };
+
   const handleUnlikeSelected = async () => {
     if (selectedItemIds.size === 0) return;
     try {
@@ -573,6 +764,11 @@ export const InventoryPage: React.FC = () => {
         <p className="text-muted mb-0">
           This is a placeholder inventory page. Tabs and layout follow the course requirements.
         </p>
+        {inventoryDetails?.archivedAt && (
+          <p className="text-warning small mt-1 mb-0" data-testid="inventory-archived">
+            This inventory is archived and read-only.
+          </p>
+        )}
       </section>
 
       <Nav variant="tabs" activeKey={activeTab} onSelect={(key) => setActiveTab(key as InventoryTab)}>
@@ -597,6 +793,11 @@ export const InventoryPage: React.FC = () => {
         <Nav.Item>
           <Nav.Link eventKey="stats">Stats</Nav.Link>
         </Nav.Item>
+        {inventoryDetails?.canEditItems && (
+          <Nav.Item>
+            <Nav.Link eventKey="trash">Trash</Nav.Link>
+          </Nav.Item>
+        )}
       </Nav>
 
       <div className="mt-3">
@@ -609,7 +810,7 @@ export const InventoryPage: React.FC = () => {
                 <button
                   type="button"
                   className="btn btn-sm btn-primary"
-                  onClick={handleAddItem}
+                  onClick={() => setCreatingItem(true)}
                   disabled={!inventoryDetails?.canEditItems}
                 >
                   Add item
@@ -645,6 +846,29 @@ export const InventoryPage: React.FC = () => {
                 >
                   Edit selected
                 </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={handleDeleteSelected}
+                  disabled={!inventoryDetails?.canEditItems || selectedItemIds.size === 0}
+                >
+                  Delete selected
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary"
+                  onClick={() => setPrintingLabels(true)}
+                  disabled={selectedItemIds.size === 0}
+                >
+                  Print labels
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary"
+                  onClick={() => navigate(`/scan?inventoryId=${encodeURIComponent(inventoryId)}`)}
+                >
+                  Scan
+                </button>
                 <button
                   type="button"
                   className="btn btn-sm btn-outline-success"
@@ -693,11 +917,32 @@ export const InventoryPage: React.FC = () => {
                     <th scope="col" style={{ width: "3rem" }}>
                       <input type="checkbox" aria-label="Select all items" />
                     </th>
-                    <th scope="col">Custom ID</th>
+                    {renderSortableHeader("customId", "Custom ID")}
+                    {itemColumns.map((column) => renderSortableHeader(column.id, column.title))}
                     <th scope="col">Created by</th>
-                    <th scope="col" style={{ width: "6rem" }}>
-                      Likes
+                    {renderSortableHeader("createdAt", "Created at", "11rem")}
+                    {renderSortableHeader("likes", "Likes", "6rem")}
+                  </tr>
+                  <tr>
+                    <th scope="col" />
+                    <th scope="col">
+                      <input
+                        type="text"
+                        className="form-control form-control-sm"
+                        aria-label="Filter custom ID"
+                        placeholder="Contains..."
+                        value={itemFilters.customId?.contains ?? ""}
+                        onChange={(event) =>
+                          handleItemFilterChange("customId", "contains", event.target.value)
+                        }
+                      />
                     </th>
+                    {itemColumns.map((column) => (
+                      <th key={column.id} scope="col" style={{ minWidth: "8rem" }}>
+                        {renderColumnFilter(column)}
+                      </th>
+                    ))}
+                    <th scope="col" colSpan={3} />
                   </tr>
                 </thead>
                 <tbody>
@@ -712,7 +957,15 @@ export const InventoryPage: React.FC = () => {
                         />
                       </td>
                       <td>{item.customId}</td>
+                      {itemColumns.map((column) => (
+                        <td key={column.id} className="text-truncate" style={{ maxWidth: "14rem" }}>
+                          {formatColumnValue(column, item.values[column.id] ?? null)}
+                        </td>
+                      ))}
                       <td>{item.createdByName}</td>
+                      <td className="text-muted small">
+                        {new Date(item.createdAt).toLocaleString()}
+                      </td>
                       <td>
                         <span className="badge bg-light text-muted">
                           {item.likesCount}
@@ -723,14 +976,33 @@ export const InventoryPage: React.FC = () => {
                   ))}
                   {items.length === 0 && !loading && !error && (
                     <tr>
-                      <td colSpan={4} className="text-muted text-center py-3">
-                        No items yet.
+                      <td colSpan={itemColumns.length + 5} className="text-muted text-center py-3">
+                        {Object.values(itemFilters).some((filter) =>
+                          Object.values(filter).some((value) => value?.trim()),
+                        )
+                          ? "No items match the filters."
+                          : "No items yet."}
                       </td>
                     </tr>
                   )}
                 </tbody>
               </table>
             </div>
+            <div className="d-flex justify-content-between align-items-center mt-2">
+              <span className="text-muted small">
+                Showing {items.length} of {itemsTotal} items
+              </span>
+              {itemsCursor && (
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary"
+                  onClick={() => void loadItems(itemsCursor)}
+                  disabled={loading}
+                >
+                  Load more
+                </button>
+              )}
+            </div>
           </div>
         )}
 
@@ -988,6 +1260,19 @@ export const InventoryPage: React.FC = () => {
               </span>
               {inventoryDetails && <span>Version: {inventoryDetails.version}</span>}
             </div>
+
+            {inventoryDetails?.canManageInventory && (
+              <InventoryLifecyclePanel
+                inventoryId={inventoryId}
+                inventoryTitle={inventoryDetails.title}
+                ownerName={inventoryDetails.ownerName}
+                archivedAt={inventoryDetails.archivedAt}
+                onChanged={() => {
+                  void loadInventoryDetails();
+                }}
+                onDeleted={() => navigate("/profile")}
+              />
+            )}
           </div>
         )}
 
@@ -995,6 +1280,10 @@ export const InventoryPage: React.FC = () => {
           <CustomIdTab
             inventoryId={inventoryId}
             canEdit={Boolean(inventoryDetails?.canEditFields)}
+            selectedItemIds={Array.from(selectedItemIds)}
+            onItemsChanged={() => {
+              void loadItems();
+            }}
           />
         )}
 
@@ -1132,16 +1421,43 @@ export const InventoryPage: React.FC = () => {
         )}
 
         {activeTab === "stats" && <StatsTab inventoryId={inventoryId} />}
+
+        {activeTab === "trash" && (
+          <TrashTab
+            inventoryId={inventoryId}
+            canDeletePermanently={Boolean(inventoryDetails?.canEditSettings)}
+            onRestored={() => {
+              void loadItems();
+            }}
+          />
+        )}
       </div>
-      {editingItemId && (
+      {(editingItemId || creatingItem) && (
         <ItemEditModal
           itemId={editingItemId}
-          onClose={() => setEditingItemId(null)}
+          inventoryId={inventoryId}
+          onClose={() => {
+            setEditingItemId(null);
+            setCreatingItem(false);
+            // Drop ?item= so the linked item does not open again, keeping the rest of the URL.
+            if (linkedItemId) {
+              const search = new URLSearchParams(location.search);
+              search.delete("item");
+              navigate({ search: search.toString(), hash: location.hash }, { replace: true });
+            }
+          }}
           onSaved={() => {
             void loadItems();
           }}
         />
       )}
+      {printingLabels && (
+        <LabelPrintModal
+          inventoryId={inventoryId}
+          itemIds={Array.from(selectedItemIds)}
+          onClose={() => setPrintingLabels(false)}
+        />
+      )}
     </div>
   );
 };
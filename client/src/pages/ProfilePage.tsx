@@ -1,6 +1,7 @@
 import type { FormEvent } from "react";
 import { useEffect, useState } from "react";
 import { InventoryTable } from "../components/InventoryTable";
+import { SavedSearchesSection } from "../components/SavedSearchesSection";
 import type { InventorySummary } from "../types/inventory";
 
 interface ProfileResponseDto {
@@ -134,6 +135,7 @@ export const ProfilePage: React.FC = () => {
 
       <InventoryTable title="Owned inventories" inventories={owned} />
       <InventoryTable title="Inventories with write access" inventories={writable} />
+      <SavedSearchesSection />
     </div>
   );
 };
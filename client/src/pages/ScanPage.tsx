@@ -0,0 +1,168 @@
+import type { FormEvent } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+
+interface LookupMatch {
+  itemId: string;
+  customId: string;
+  inventoryId: string;
+  inventoryTitle: string;
+  matchedAlias: string | null;
+}
+
+function itemPath(match: LookupMatch): string {
+  return `/inventories/${match.inventoryId}?item=${encodeURIComponent(match.itemId)}`;
+}
+
+// Keyboard-wedge scanners type the code and press Enter, so the input keeps the focus.
+export const ScanPage: React.FC = () => {
+  const { search } = useLocation();
+  const navigate = useNavigate();
+  const scopedInventoryId = new URLSearchParams(search).get("inventoryId") ?? "";
+
+  const [customId, setCustomId] = useState<string>("");
+  const [allInventories, setAllInventories] = useState<boolean>(!scopedInventoryId);
+  const [lastQuery, setLastQuery] = useState<string | null>(null);
+  const [matches, setMatches] = useState<LookupMatch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const keepFocus = () => {
+    // Deferred so clicks on the results still land before the focus moves back.
+    window.setTimeout(() => {
+      if (document.activeElement === document.body) {
+        inputRef.current?.focus();
+      }
+    }, 0);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const query = customId.trim();
+    if (!query) return;
+
+    const params = new URLSearchParams({ customId: query });
+    if (scopedInventoryId && !allInventories) {
+      params.set("inventoryId", scopedInventoryId);
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setCustomId("");
+      setLastQuery(query);
+
+      const response = await fetch(`${apiBase}/api/items/lookup?${params.toString()}`);
+      if (response.status === 400) {
+        const body = (await response.json()) as { message?: string };
+        setMatches([]);
+        setError(body.message ?? "Failed to look up the item.");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to look up item: ${response.status}`);
+      }
+
+      const data: { matches: LookupMatch[] } = await response.json();
+      if (data.matches.length === 1) {
+        navigate(itemPath(data.matches[0]));
+        return;
+      }
+      setMatches(data.matches);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setMatches([]);
+      setError("Failed to look up the item.");
+    } finally {
+      setLoading(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div className="container-fluid">
+      <section className="mb-3">
+        <h1 className="h4 mb-1">Scan</h1>
+        <p className="text-muted mb-0">
+          Scan a label or type a custom ID and press Enter. Case and separators are ignored.
+        </p>
+      </section>
+
+      <form className="mb-3" onSubmit={(event) => void handleSubmit(event)}>
+        <input
+          ref={inputRef}
+          type="text"
+          className="form-control form-control-lg font-monospace mb-2"
+          placeholder="Custom ID"
+          autoComplete="off"
+          value={customId}
+          onChange={(event) => setCustomId(event.target.value)}
+          onBlur={keepFocus}
+          data-testid="scan-input"
+        />
+        {scopedInventoryId && (
+          <div className="form-check">
+            <input
+              id="scan-all-inventories"
+              type="checkbox"
+              className="form-check-input"
+              checked={allInventories}
+              onChange={(event) => {
+                setAllInventories(event.target.checked);
+                inputRef.current?.focus();
+              }}
+            />
+            <label className="form-check-label small" htmlFor="scan-all-inventories">
+              Search all inventories
+            </label>
+          </div>
+        )}
+      </form>
+
+      {loading && <p className="text-muted mb-2">Looking up...</p>}
+
+      {error && (
+        <p className="text-danger mb-2" data-testid="scan-error">
+          {error}
+        </p>
+      )}
+
+      {!loading && !error && lastQuery !== null && matches.length === 0 && (
+        <p className="text-muted mb-2" data-testid="scan-no-match">
+          No item with ID <code>{lastQuery}</code>.
+        </p>
+      )}
+
+      {matches.length > 1 && (
+        <>
+          <p className="small mb-2">
+            {matches.length} items match <code>{lastQuery}</code>:
+          </p>
+          <ul className="list-group" data-testid="scan-matches">
+            {matches.map((match) => (
+              <li key={match.itemId} className="list-group-item">
+                <Link to={itemPath(match)} className="font-monospace">
+                  {match.customId}
+                </Link>
+                <span className="text-muted small ms-2">{match.inventoryTitle}</span>
+                {match.matchedAlias && (
+                  <span className="text-muted small ms-2">
+                    (former ID <code>{match.matchedAlias}</code>)
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,51 +1,152 @@
+import type { FormEvent } from "react";
 import { useEffect, useState } from "react";
-import { useLocation } from "react-router-dom";
-import { InventoryTable } from "../components/InventoryTable";
+import { Link, useSearchParams } from "react-router-dom";
 import type { InventorySummary } from "../types/inventory";
 
-function useQueryParam(name: string): string {
-  const { search } = useLocation();
-  const params = new URLSearchParams(search);
-  return params.get(name) ?? "";
+interface SnippetSegment {
+  text: string;
+  match: boolean;
 }
 
+interface InventorySearchResult {
+  kind: "inventory";
+  rank: number;
+  likes: number;
+  snippet: SnippetSegment[];
+  inventory: InventorySummary;
+}
+
+interface ItemSearchResult {
+  kind: "item";
+  rank: number;
+  likes: number;
+  snippet: SnippetSegment[];
+  item: {
+    id: string;
+    customId: string;
+    inventoryId: string;
+    inventoryTitle: string;
+  };
+}
+
+type SearchResult = InventorySearchResult | ItemSearchResult;
+
+type SearchFacet = "category" | "tag" | "owner" | "items";
+type SearchSort = "relevance" | "newest" | "items" | "likes";
+
+interface FacetValue {
+  value: string;
+  label: string | null;
+  count: number;
+}
+
+// A 400 for a query syntax error points at the offending part of `q`.
+interface SearchErrorResponse {
+  message: string;
+  position?: number;
+  token?: string;
+}
+
+interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: Record<SearchFacet, FacetValue[]>;
+}
+
+const FACETS: { key: SearchFacet; title: string }[] = [
+  { key: "category", title: "Category" },
+  { key: "tag", title: "Tag" },
+  { key: "owner", title: "Owner" },
+  { key: "items", title: "Items in inventory" },
+];
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: "Relevance",
+  newest: "Newest",
+  items: "Most items",
+  likes: "Most liked",
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  EQUIPMENT: "Equipment",
+  FURNITURE: "Furniture",
+  BOOK: "Book",
+  OTHER: "Other",
+};
+
+function facetValueLabel(facet: SearchFacet, value: FacetValue): string {
+  if (facet === "category") return CATEGORY_LABELS[value.value] ?? value.value;
+  return value.label ?? value.value;
+}
+
+const Snippet: React.FC<{ segments: SnippetSegment[] }> = ({ segments }) => (
+  <div className="text-muted small">
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index}>{segment.text}</mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </div>
+);
+
 export const SearchResultsPage: React.FC = () => {
-  const query = useQueryParam("q");
-  const tag = useQueryParam("tag");
-  const [results, setResults] = useState<InventorySummary[]>([]);
+  // The query, facet filters, sort and page all live in the URL, so results can be shared.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rawQuery = searchParams.get("q") ?? "";
+  const query = rawQuery.trim();
+  const sortParam = searchParams.get("sort") as SearchSort | null;
+  const sort: SearchSort = sortParam ?? (query ? "relevance" : "newest");
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const [data, setData] = useState<SearchResponse | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [queryError, setQueryError] = useState<SearchErrorResponse | null>(null);
+
+  const [saveOpen, setSaveOpen] = useState<boolean>(false);
+  const [saveName, setSaveName] = useState<string>("");
+  const [saveNotify, setSaveNotify] = useState<boolean>(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedName, setSavedName] = useState<string | null>(null);
 
   const apiBase = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
 
-  useEffect(() => {
-    const qTrimmed = query.trim();
-    const tagTrimmed = tag.trim();
+  const selectedValues = (facet: SearchFacet) => searchParams.getAll(facet);
+  const hasFilters = FACETS.some(({ key }) => selectedValues(key).length > 0);
+  const canSave = Boolean(window.localStorage.getItem("authToken")) && (query || hasFilters);
 
-    if (!qTrimmed && !tagTrimmed) {
-      setResults([]);
+  useEffect(() => {
+    if (!query && !hasFilters) {
+      setData(null);
       setError(null);
+      setQueryError(null);
       return;
     }
 
-    const params = new URLSearchParams();
-    if (qTrimmed) params.set("q", qTrimmed);
-    if (tagTrimmed) params.set("tag", tagTrimmed);
-
-    const url = `${apiBase}/api/search?${params.toString()}`;
+    const url = `${apiBase}/api/search?${searchParams.toString()}`;
 
     const load = async () => {
       try {
         setLoading(true);
         setError(null);
+        setQueryError(null);
 
         const response = await fetch(url);
+        if (response.status === 400) {
+          setData(null);
+          setQueryError((await response.json()) as SearchErrorResponse);
+          return;
+        }
         if (!response.ok) {
           throw new Error(`Failed to search: ${response.status}`);
         }
 
-        const data: { inventories: InventorySummary[] } = await response.json();
-        setResults(data.inventories);
+        const body: SearchResponse = await response.json();
+        setData(body);
       } catch (err) {
         // eslint-disable-next-line no-console
         console.error(err);
@@ -57,38 +158,357 @@ export const SearchResultsPage: React.FC = () => {
 
     void load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [query, tag]);
+  }, [searchParams]);
 
-  const hasQuery = query.trim().length > 0;
-  const hasTag = tag.trim().length > 0;
+  // Any change of the filters or the sort starts again from the first page.
+  const updateParams = (change: (params: URLSearchParams) => void) => {
+    const next = new URLSearchParams(searchParams);
+    change(next);
+    next.delete("page");
+    setSearchParams(next);
+  };
 
-  const queryLabel = hasQuery ? query.trim() : "—";
-  const tagLabel = hasTag ? tag.trim() : "—";
+  const toggleFacetValue = (facet: SearchFacet, value: string, checked: boolean) => {
+    updateParams((params) => {
+      const values = params.getAll(facet).filter((candidate) => candidate !== value);
+      params.delete(facet);
+      for (const kept of checked ? [...values, value] : values) {
+        params.append(facet, kept);
+      }
+    });
+  };
+
+  const clearFilters = () => {
+    updateParams((params) => {
+      for (const { key } of FACETS) {
+        params.delete(key);
+      }
+    });
+  };
+
+  const openSaveForm = () => {
+    setSaveName(query);
+    setSaveNotify(false);
+    setSaveError(null);
+    setSavedName(null);
+    setSaveOpen(true);
+  };
+
+  // Saves the query and the facet filters; sort and page are not part of a saved search.
+  const handleSaveSearch = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!saveName.trim()) return;
+
+    try {
+      setSaveError(null);
+
+      const token = window.localStorage.getItem("authToken");
+      const response = await fetch(`${apiBase}/api/saved-searches`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          name: saveName.trim(),
+          query,
+          filters: Object.fromEntries(FACETS.map(({ key }) => [key, selectedValues(key)])),
+          notify: saveNotify,
+        }),
+      });
+
+      if (response.status === 400 || response.status === 409) {
+        const body = (await response.json()) as { message?: string };
+        setSaveError(body.message ?? "Failed to save the search.");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to save search: ${response.status}`);
+      }
+
+      setSavedName(saveName.trim());
+      setSaveOpen(false);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      setSaveError("Failed to save the search.");
+    }
+  };
+
+  const goToPage = (nextPage: number) => {
+    const next = new URLSearchParams(searchParams);
+    if (nextPage > 1) {
+      next.set("page", String(nextPage));
+    } else {
+      next.delete("page");
+    }
+    setSearchParams(next);
+  };
+
+  // Selected values missing from the counts (e.g. a tag outside the top ones) stay uncheckable.
+  const facetValues = (facet: SearchFacet): FacetValue[] => {
+    const counted = data?.facets[facet] ?? [];
+    const missing = selectedValues(facet)
+      .filter((value) => !counted.some((candidate) => candidate.value === value))
+      .map((value) => ({ value, label: null, count: 0 }));
+    return [...counted, ...missing];
+  };
+
+  const results = data?.results ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = data ? Math.max(1, Math.ceil(total / data.pageSize)) : 1;
+
+  // Results arrive in the chosen order across both kinds; each list keeps that order.
+  const inventoryResults = results.filter(
+    (result): result is InventorySearchResult => result.kind === "inventory",
+  );
+  const itemResults = results.filter(
+    (result): result is ItemSearchResult => result.kind === "item",
+  );
 
   return (
     <div className="container-fluid">
-      <section className="mb-4">
-        <h1 className="h4 mb-1">Search results</h1>
-        <p className="text-muted mb-1">
-          Query: <code>{queryLabel}</code>
-        </p>
-        <p className="text-muted mb-3">
-          Tag: <code>{tagLabel}</code>
-        </p>
+      <section className="mb-3">
+        <div className="d-flex justify-content-between align-items-start gap-2">
+          <div>
+            <h1 className="h4 mb-1">Search results</h1>
+            <p className="text-muted mb-0">
+              Query: <code>{query || "—"}</code>
+              {data && ` · ${total} result(s)`}
+            </p>
+          </div>
+          {canSave && !saveOpen && (
+            <button type="button" className="btn btn-sm btn-outline-primary" onClick={openSaveForm}>
+              Save search
+            </button>
+          )}
+        </div>
+
+        {saveOpen && (
+          <form
+            className="row g-2 align-items-center mt-2"
+            onSubmit={(event) => void handleSaveSearch(event)}
+            data-testid="save-search-form"
+          >
+            <div className="col-md-4">
+              <input
+                type="text"
+                className="form-control form-control-sm"
+                placeholder="Name of the saved search"
+                value={saveName}
+                onChange={(event) => setSaveName(event.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="col-auto">
+              <div className="form-check mb-0">
+                <input
+                  id="save-search-notify"
+                  type="checkbox"
+                  className="form-check-input"
+                  checked={saveNotify}
+                  onChange={(event) => setSaveNotify(event.target.checked)}
+                />
+                <label className="form-check-label small" htmlFor="save-search-notify">
+                  Notify me about new matches
+                </label>
+              </div>
+            </div>
+            <div className="col-auto d-flex gap-2">
+              <button type="submit" className="btn btn-sm btn-primary" disabled={!saveName.trim()}>
+                Save
+              </button>
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-secondary"
+                onClick={() => setSaveOpen(false)}
+              >
+                Cancel
+              </button>
+            </div>
+            {saveError && (
+              <p className="text-danger small mb-0" data-testid="save-search-error">
+                {saveError}
+              </p>
+            )}
+          </form>
+        )}
+        {savedName && (
+          <p className="small text-success mt-2 mb-0">
+            Saved as “{savedName}”. Your saved searches are on your{" "}
+            <Link to="/profile">profile</Link>.
+          </p>
+        )}
       </section>
 
-      {loading && <p className="text-muted mb-2">Searching...</p>}
-      {error && (
-        <p className="text-danger mb-2" data-testid="search-error">
-          {error}
-        </p>
-      )}
-
-      <InventoryTable title="Matching inventories" inventories={results} />
-      {!loading && !error && results.length === 0 && (hasQuery || hasTag) && (
-        <p className="text-muted mt-3">No inventories matched your search.</p>
-      )}
+      <div className="row g-4">
+        <aside className="col-md-3" data-testid="search-facets">
+          <div className="d-flex justify-content-between align-items-center mb-2">
+            <span className="fw-semibold">Filters</span>
+            {hasFilters && (
+              <button type="button" className="btn btn-sm btn-link p-0" onClick={clearFilters}>
+                Clear all
+              </button>
+            )}
+          </div>
+          {FACETS.map(({ key, title }) => {
+            const values = facetValues(key);
+            if (values.length === 0) return null;
+            const selected = selectedValues(key);
+            return (
+              <div key={key} className="mb-3">
+                <div className="small text-muted text-uppercase mb-1">{title}</div>
+                {values.map((value) => {
+                  const id = `facet-${key}-${value.value}`;
+                  const checked = selected.includes(value.value);
+                  return (
+                    <div key={value.value} className="form-check">
+                      <input
+                        id={id}
+                        type="checkbox"
+                        className="form-check-input"
+                        checked={checked}
+                        onChange={(event) =>
+                          toggleFacetValue(key, value.value, event.target.checked)
+                        }
+                        disabled={!checked && value.count === 0}
+                      />
+                      <label className="form-check-label small" htmlFor={id}>
+                        {facetValueLabel(key, value)}{" "}
+                        <span className="text-muted">({value.count})</span>
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </aside>
+
+        <div className="col-md-9">
+          <div className="d-flex justify-content-end align-items-center gap-2 mb-3">
+            <label className="small text-muted" htmlFor="search-sort">
+              Sort by
+            </label>
+            <select
+              id="search-sort"
+              className="form-select form-select-sm w-auto"
+              value={sort}
+              onChange={(event) =>
+                updateParams((params) => params.set("sort", event.target.value))
+              }
+            >
+              {(Object.keys(SORT_LABELS) as SearchSort[]).map((option) => (
+                <option key={option} value={option} disabled={option === "relevance" && !query}>
+                  {SORT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {loading && <p className="text-muted mb-2">Searching...</p>}
+          {error && (
+            <p className="text-danger mb-2" data-testid="search-error">
+              {error}
+            </p>
+          )}
+          {queryError && (
+            <div className="text-danger mb-3" data-testid="search-query-error">
+              <p className="mb-1">{queryError.message}</p>
+              {queryError.position !== undefined && (
+                <code className="d-inline-block">
+                  {rawQuery.slice(0, queryError.position)}
+                  <mark className="text-danger">{queryError.token || " "}</mark>
+                  {rawQuery.slice(queryError.position + (queryError.token ?? "").length)}
+                </code>
+              )}
+            </div>
+          )}
+
+          {inventoryResults.length > 0 && (
+            <section className="mb-4" data-testid="search-inventory-results">
+              <h2 className="h5 mb-2">Matching inventories ({inventoryResults.length})</h2>
+              <ul className="list-group shadow-sm">
+                {inventoryResults.map(({ inventory, snippet, likes }) => (
+                  <li key={inventory.id} className="list-group-item">
+                    <div className="d-flex justify-content-between align-items-baseline gap-2">
+                      <Link to={`/inventories/${inventory.id}`} className="text-decoration-none">
+                        {inventory.name}
+                      </Link>
+                      <span className="text-muted small">
+                        {inventory.ownerName} · {inventory.itemsCount} item(s) · {likes} like(s)
+                      </span>
+                    </div>
+                    {snippet.length > 0 ? (
+                      <Snippet segments={snippet} />
+                    ) : (
+                      <div className="text-muted small">{inventory.description}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {itemResults.length > 0 && (
+            <section className="mb-4" data-testid="search-item-results">
+              <h2 className="h5 mb-2">Matching items ({itemResults.length})</h2>
+              <ul className="list-group shadow-sm">
+                {itemResults.map(({ item, snippet, likes }) => (
+                  <li key={item.id} className="list-group-item">
+                    <div className="d-flex justify-content-between align-items-baseline gap-2">
+                      <Link
+                        to={`/inventories/${item.inventoryId}?item=${encodeURIComponent(item.id)}`}
+                        className="text-decoration-none font-monospace"
+                      >
+                        {item.customId}
+                      </Link>
+                      <span className="text-muted small">
+                        <Link
+                          to={`/inventories/${item.inventoryId}`}
+                          className="text-muted text-decoration-none"
+                        >
+                          {item.inventoryTitle}
+                        </Link>{" "}
+                        · {likes} like(s)
+                      </span>
+                    </div>
+                    <Snippet segments={snippet} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {!loading && !error && data && results.length === 0 && (
+            <p className="text-muted mt-3">Nothing matched your search.</p>
+          )}
+
+          {data && total > data.pageSize && (
+            <nav className="d-flex align-items-center gap-2" aria-label="Search pages">
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-secondary"
+                onClick={() => goToPage(page - 1)}
+                disabled={loading || page <= 1}
+              >
+                Previous
+              </button>
+              <span className="small text-muted">
+                Page {page} of {pageCount}
+              </span>
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-secondary"
+                onClick={() => goToPage(page + 1)}
+                disabled={loading || page >= pageCount}
+              >
+                Next
+              </button>
+            </nav>
+          )}
+        </div>
+      </div>
     </div>
   );
 };
-
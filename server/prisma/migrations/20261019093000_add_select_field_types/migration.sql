@@ -0,0 +1,27 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "InventoryFieldType" ADD VALUE 'SELECT';
+ALTER TYPE "InventoryFieldType" ADD VALUE 'MULTI_SELECT';
+
+-- AlterTable
+ALTER TABLE "ItemFieldValue" ADD COLUMN     "valueOptions" TEXT[];
+
+-- CreateTable
+CREATE TABLE "InventoryFieldOption" (
+    "id" TEXT NOT NULL,
+    "fieldId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "color" TEXT,
+    "orderIndex" INTEGER NOT NULL,
+
+    CONSTRAINT "InventoryFieldOption_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "InventoryFieldOption" ADD CONSTRAINT "InventoryFieldOption_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "InventoryField"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
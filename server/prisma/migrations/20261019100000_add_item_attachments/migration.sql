@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "InventoryFieldType" ADD VALUE 'ATTACHMENT';
+
+-- CreateTable
+CREATE TABLE "ItemAttachment" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "fieldId" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItemAttachment_storageKey_key" ON "ItemAttachment"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "ItemAttachment_itemId_fieldId_idx" ON "ItemAttachment"("itemId", "fieldId");
+
+-- AddForeignKey
+ALTER TABLE "ItemAttachment" ADD CONSTRAINT "ItemAttachment_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemAttachment" ADD CONSTRAINT "ItemAttachment_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "InventoryField"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "InventoryField" ADD COLUMN     "allowedSchemes" TEXT[],
+ADD COLUMN     "maxLength" INTEGER,
+ADD COLUMN     "maxValue" DOUBLE PRECISION,
+ADD COLUMN     "minValue" DOUBLE PRECISION,
+ADD COLUMN     "pattern" TEXT,
+ADD COLUMN     "required" BOOLEAN NOT NULL DEFAULT false;
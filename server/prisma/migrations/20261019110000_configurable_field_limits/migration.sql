@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "fieldLimits" JSONB;
+
+-- CreateTable
+CREATE TABLE "AppSetting" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AppSetting_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "ItemFieldValue_itemId_fieldId_idx" ON "ItemFieldValue"("itemId", "fieldId");
+
+-- CreateIndex
+CREATE INDEX "ItemFieldValue_fieldId_idx" ON "ItemFieldValue"("fieldId");
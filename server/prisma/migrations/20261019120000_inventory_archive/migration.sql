@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "archivedAt" TIMESTAMP(3);
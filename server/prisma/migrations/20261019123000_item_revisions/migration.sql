@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ItemRevision" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "authorId" TEXT,
+    "customIdBefore" TEXT,
+    "customIdAfter" TEXT,
+    "changes" JSONB NOT NULL,
+    "revertOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ItemRevision_itemId_createdAt_idx" ON "ItemRevision"("itemId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ItemRevision" ADD CONSTRAINT "ItemRevision_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemRevision" ADD CONSTRAINT "ItemRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "nextSequence" INTEGER NOT NULL DEFAULT 1;
+
+-- Continue after the items created so far, so numbers already handed out are not reused.
+UPDATE "Inventory" AS inv
+SET "nextSequence" = counts."itemCount" + 1
+FROM (SELECT "inventoryId", COUNT(*)::int AS "itemCount" FROM "Item" GROUP BY "inventoryId") AS counts
+WHERE counts."inventoryId" = inv."id";
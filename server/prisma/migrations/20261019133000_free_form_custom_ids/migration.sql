@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "allowFreeFormCustomIds" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ItemCustomIdAlias" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "customId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemCustomIdAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ItemCustomIdAlias_inventoryId_customId_idx" ON "ItemCustomIdAlias"("inventoryId", "customId");
+
+-- CreateIndex
+CREATE INDEX "ItemCustomIdAlias_itemId_idx" ON "ItemCustomIdAlias"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "ItemCustomIdAlias" ADD CONSTRAINT "ItemCustomIdAlias_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "CustomIdElementType" ADD VALUE 'FIELD_VALUE';
+ALTER TYPE "CustomIdElementType" ADD VALUE 'CATEGORY_CODE';
+ALTER TYPE "CustomIdElementType" ADD VALUE 'CREATOR_INITIALS';
+ALTER TYPE "CustomIdElementType" ADD VALUE 'CHECK_DIGIT';
+
+-- CreateEnum
+CREATE TYPE "CustomIdCheckDigit" AS ENUM ('LUHN', 'MOD_11');
+
+-- AlterTable
+ALTER TABLE "InventoryCustomIdElement" ADD COLUMN     "checkDigit" "CustomIdCheckDigit",
+ADD COLUMN     "fieldId" TEXT,
+ADD COLUMN     "upperCase" BOOLEAN NOT NULL DEFAULT false;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCustomIdElement" ADD CONSTRAINT "InventoryCustomIdElement_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "InventoryField"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "InventoryCustomIdElement" ADD COLUMN     "dateFormat" TEXT,
+ADD COLUMN     "timeZone" TEXT;
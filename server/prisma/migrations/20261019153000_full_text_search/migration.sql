@@ -0,0 +1,14 @@
+-- Expression indexes for full-text search. The schema cannot describe them, so they live only
+-- here; the expressions must stay identical to the ones in src/fullTextSearch.ts.
+
+-- CreateIndex
+CREATE INDEX "Inventory_search_idx" ON "Inventory" USING GIN (to_tsvector('simple', "title" || ' ' || coalesce("description", '')));
+
+-- CreateIndex
+CREATE INDEX "Tag_search_idx" ON "Tag" USING GIN (to_tsvector('simple', "name"));
+
+-- CreateIndex
+CREATE INDEX "Item_search_idx" ON "Item" USING GIN (to_tsvector('simple', "customId"));
+
+-- CreateIndex
+CREATE INDEX "ItemFieldValue_search_idx" ON "ItemFieldValue" USING GIN (to_tsvector('simple', coalesce("valueString", '') || ' ' || coalesce("valueLink", '')));
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "TagSynonym" (
+    "id" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TagSynonym_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagSynonym_name_key" ON "TagSynonym"("name");
+
+-- CreateIndex
+-- Synonyms are looked up regardless of case, so names that differ only in case are one name. The
+-- schema cannot describe this expression index; it lives only here.
+CREATE UNIQUE INDEX "TagSynonym_name_lower_key" ON "TagSynonym" (lower("name"));
+
+-- CreateIndex
+CREATE INDEX "TagSynonym_tagId_idx" ON "TagSynonym"("tagId");
+
+-- CreateIndex
+-- Full-text search finds inventories by the synonyms of their tags; the expression must stay
+-- identical to the one in src/fullTextSearch.ts.
+CREATE INDEX "TagSynonym_search_idx" ON "TagSynonym" USING GIN (to_tsvector('simple', "name"));
+
+-- AddForeignKey
+ALTER TABLE "TagSynonym" ADD CONSTRAINT "TagSynonym_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Expression indexes for the custom ID lookup. The schema cannot describe them, so they live only
+-- here; the expressions must stay identical to normalizedColumn in src/customIdLookup.ts.
+
+-- CreateIndex
+CREATE INDEX "Item_customId_lookup_idx" ON "Item" (lower(regexp_replace("customId", '[^[:alnum:]]', '', 'g')));
+
+-- CreateIndex
+CREATE INDEX "ItemCustomIdAlias_customId_lookup_idx" ON "ItemCustomIdAlias" (lower(regexp_replace("customId", '[^[:alnum:]]', '', 'g')));
@@ -0,0 +1,10 @@
+-- Alerts left behind by inventories and items deleted before they were cleaned up with them.
+DELETE FROM "SavedSearchAlert" a
+WHERE NOT EXISTS (SELECT 1 FROM "Inventory" inv WHERE inv."id" = a."inventoryId")
+   OR (a."kind" = 'item' AND NOT EXISTS (SELECT 1 FROM "Item" i WHERE i."id" = a."targetId"));
+
+-- CreateIndex
+CREATE INDEX "SavedSearchAlert_inventoryId_idx" ON "SavedSearchAlert"("inventoryId");
+
+-- CreateIndex
+CREATE INDEX "SavedSearchAlert_kind_targetId_idx" ON "SavedSearchAlert"("kind", "targetId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SavedSearch" ADD COLUMN     "lastCheckedKind" TEXT,
+ADD COLUMN     "lastCheckedId" TEXT;
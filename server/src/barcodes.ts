@@ -0,0 +1,415 @@
+// Code 128 and QR code encoders that render to SVG, for item labels.
+
+// Bar and space widths of the Code 128 symbols, indexed by symbol value. 103-105 are the start
+// codes A, B and C; 106 is the stop code (with its final bar).
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212",
+  "221213", "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221",
+  "223211", "221132", "221231", "213212", "223112", "312131", "311222", "321122", "321221",
+  "312212", "322112", "322211", "212123", "212321", "232121", "111323", "131123", "131321",
+  "112313", "132113", "132311", "211313", "231113", "231311", "112133", "112331", "132131",
+  "113123", "113321", "133121", "313121", "211331", "231131", "213113", "213311", "213131",
+  "311123", "311321", "331121", "312113", "312311", "332111", "314111", "221411", "431111",
+  "111224", "111422", "121124", "121421", "141122", "141221", "112214", "112412", "122114",
+  "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111", "111242",
+  "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311",
+  "113141", "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+const CODE128_QUIET_ZONE = 10;
+
+const QR_QUIET_ZONE = 4;
+
+// Error correction level M, versions 1 to 10: EC codewords per block and the data codewords of
+// each block. Level M restores about 15% of damaged codewords.
+const QR_VERSIONS_M = [
+  { ecPerBlock: 10, blocks: [16] },
+  { ecPerBlock: 16, blocks: [28] },
+  { ecPerBlock: 26, blocks: [44] },
+  { ecPerBlock: 18, blocks: [32, 32] },
+  { ecPerBlock: 24, blocks: [43, 43] },
+  { ecPerBlock: 16, blocks: [27, 27, 27, 27] },
+  { ecPerBlock: 18, blocks: [31, 31, 31, 31] },
+  { ecPerBlock: 22, blocks: [38, 38, 39, 39] },
+  { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37] },
+  { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44] },
+];
+
+const QR_ALIGNMENT_POSITIONS = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+// Longest text a version 10-M symbol holds in byte mode.
+export const MAX_QR_BYTES = 213;
+
+export function canEncodeCode128(text: string): boolean {
+  return text.length > 0 && /^[\x20-\x7e]+$/.test(text);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Renders `text` as a Code 128 (code set B) barcode. Only printable ASCII can be encoded, so
+ * check it with `canEncodeCode128` first.
+ */
+export function renderCode128Svg(
+  text: string,
+  { height = 60, showText = true }: { height?: number; showText?: boolean } = {},
+): string {
+  const values = [CODE128_START_B, ...Array.from(text, (char) => char.charCodeAt(0) - 32)];
+  const checksum =
+    values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  const symbols = [...values, checksum, CODE128_STOP];
+
+  const bars: string[] = [];
+  let x = CODE128_QUIET_ZONE;
+  for (const symbol of symbols) {
+    Array.from(CODE128_PATTERNS[symbol]).forEach((width, index) => {
+      // Even positions are bars, odd positions are spaces.
+      if (index % 2 === 0) bars.push(`<rect x="${x}" y="0" width="${width}" height="${height}"/>`);
+      x += Number(width);
+    });
+  }
+
+  const width = x + CODE128_QUIET_ZONE;
+  const textHeight = showText ? 14 : 0;
+  const label = showText
+    ? `<text x="${width / 2}" y="${height + 12}" text-anchor="middle" font-family="monospace" ` +
+      `font-size="11">${escapeXml(text)}</text>`
+    : "";
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height + textHeight}" ` +
+    `shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/>` +
+    `<g fill="#000">${bars.join("")}</g>${label}</svg>`
+  );
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift();
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Byte mode segment with terminator and padding, split into codewords.
+function encodeQrData(bytes: Buffer, version: number, capacity: number): number[] {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  for (const byte of bytes) push(byte, 8);
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+}
+
+// Splits the data into blocks, adds error correction and interleaves the blocks.
+function addErrorCorrection(data: number[], version: number): number[] {
+  const { ecPerBlock, blocks } = QR_VERSIONS_M[version - 1];
+  const dataBlocks: number[][] = [];
+  let offset = 0;
+  for (const length of blocks) {
+    dataBlocks.push(data.slice(offset, offset + length));
+    offset += length;
+  }
+  const ecBlocks = dataBlocks.map((block) => reedSolomonRemainder(block, ecPerBlock));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks);
+  for (let i = 0; i < longest; i += 1) {
+    for (const block of dataBlocks) if (i < block.length) result.push(block[i]);
+  }
+  for (let i = 0; i < ecPerBlock; i += 1) {
+    for (const block of ecBlocks) result.push(block[i]);
+  }
+  return result;
+}
+
+const QR_MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// 15 bits of format information: level M (00), the mask and a BCH(15,5) code, XOR-masked.
+export function qrFormatBits(mask: number): number {
+  const data = (0b00 << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+// 18 bits of version information for versions 7 and up: the version and a BCH(18,6) code.
+export function qrVersionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their light separators.
+    for (const [cx, cy] of [
+      [3, 3],
+      [this.size - 4, 3],
+      [3, this.size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy += 1) {
+        for (let dx = -4; dx <= 4; dx += 1) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    const positions = QR_ALIGNMENT_POSITIONS[this.version - 1];
+    const last = positions.length - 1;
+    positions.forEach((cy, row) => {
+      positions.forEach((cx, column) => {
+        // The corners that overlap finder patterns get no alignment pattern.
+        if ((row === 0 && column === 0) || (row === 0 && column === last)) return;
+        if (row === last && column === 0) return;
+        for (let dy = -2; dy <= 2; dy += 1) {
+          for (let dx = -2; dx <= 2; dx += 1) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas now; the real bits are drawn once the mask is chosen.
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      const bits = qrVersionBits(this.version);
+      for (let i = 0; i < 18; i += 1) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = this.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const bits = qrFormatBits(mask);
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  // Places the codewords in two-column strips, zigzagging up and down from the bottom right.
+  drawCodewords(codewords: number[]) {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical += 1) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          if (this.reserved[y][x] || index >= codewords.length * 8) continue;
+          this.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+          index += 1;
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (!this.reserved[y][x] && QR_MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  // Penalty score of the QR specification; the mask with the lowest score is used.
+  penalty(): number {
+    let score = 0;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map((row) => row[x])),
+    ];
+
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= line.length; i += 1) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run += 1;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+
+      const text = line.map((dark) => (dark ? "1" : "0")).join("");
+      for (const pattern of ["10111010000", "00001011101"]) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          score += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (this.modules[y][x]) dark += 1;
+        if (x + 1 < this.size && y + 1 < this.size) {
+          const color = this.modules[y][x];
+          if (
+            color === this.modules[y][x + 1] &&
+            color === this.modules[y + 1][x] &&
+            color === this.modules[y + 1][x + 1]
+          ) {
+            score += 3;
+          }
+        }
+      }
+    }
+
+    const total = this.size * this.size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/**
+ * Encodes `text` as a QR code (byte mode, error correction level M) and returns its modules,
+ * or null when the text is longer than MAX_QR_BYTES.
+ */
+export function encodeQrCode(text: string): boolean[][] | null {
+  const bytes = Buffer.from(text, "utf8");
+  const version = QR_VERSIONS_M.findIndex((entry, index) => {
+    const capacity = entry.blocks.reduce((sum, length) => sum + length, 0);
+    return 4 + (index + 1 < 10 ? 8 : 16) + bytes.length * 8 <= capacity * 8;
+  });
+  if (version === -1) return null;
+
+  const { blocks } = QR_VERSIONS_M[version];
+  const capacity = blocks.reduce((sum, length) => sum + length, 0);
+  const codewords = addErrorCorrection(
+    encodeQrData(bytes, version + 1, capacity),
+    version + 1,
+  );
+
+  let best: QrMatrix | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < QR_MASKS.length; mask += 1) {
+    const matrix = new QrMatrix(version + 1);
+    matrix.drawCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+  return best.modules;
+}
+
+export function renderQrSvg(modules: boolean[][]): string {
+  const size = modules.length + QR_QUIET_ZONE * 2;
+  const squares: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) squares.push(`M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z`);
+    });
+  });
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" ` +
+    `shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/>` +
+    `<path fill="#000" d="${squares.join("")}"/></svg>`
+  );
+}
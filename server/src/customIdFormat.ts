@@ -0,0 +1,451 @@
+import crypto from "crypto";
+
+export type CustomIdElementType =
+  | "FIXED_TEXT"
+  | "RANDOM_20_BITS"
+  | "RANDOM_32_BITS"
+  | "RANDOM_6_DIGITS"
+  | "RANDOM_9_DIGITS"
+  | "GUID"
+  | "DATETIME"
+  | "SEQUENCE"
+  | "FIELD_VALUE"
+  | "CATEGORY_CODE"
+  | "CREATOR_INITIALS"
+  | "CHECK_DIGIT";
+
+export type CustomIdCheckDigit = "LUHN" | "MOD_11";
+
+export interface CustomIdFormatElement {
+  type: CustomIdElementType | string;
+  fixedText?: string | null;
+  // Padding of numbers; for FIELD_VALUE the maximum length of the value.
+  numberWidth?: number | null;
+  fieldId?: string | null;
+  upperCase?: boolean | null;
+  checkDigit?: CustomIdCheckDigit | string | null;
+  // DATETIME: pattern such as `YYMM` and the IANA time zone it is rendered in.
+  dateFormat?: string | null;
+  timeZone?: string | null;
+}
+
+// Everything an ID can be built from. `fieldValues` holds the formatted value of each item field.
+export interface CustomIdContext {
+  sequence: number;
+  now: Date;
+  category: string | null;
+  creator: { name: string | null; email: string } | null;
+  fieldValues: Map<string, string>;
+  // Draws the random elements; crypto.randomInt and randomUUID when left out.
+  random?: CustomIdRandom;
+}
+
+export interface CustomIdRandom {
+  // A whole number from 0 up to, but not including, `max`.
+  int(max: number): number;
+  uuid(): string;
+}
+
+const SYSTEM_RANDOM: CustomIdRandom = {
+  int: (max) => crypto.randomInt(0, max),
+  uuid: () => crypto.randomUUID(),
+};
+
+/**
+ * Random elements drawn from an HMAC-SHA256 stream: the same seed gives the same numbers, so an
+ * ID rendered for a dry run can be rendered again when the run is applied.
+ */
+export function seededCustomIdRandom(seed: string): CustomIdRandom {
+  let counter = 0;
+  const next = () => crypto.createHmac("sha256", seed).update(String(counter++)).digest();
+  return {
+    int: (max) => next().readUIntBE(0, 6) % max,
+    uuid: () => {
+      const bytes = next().subarray(0, 16);
+      bytes[6] = (bytes[6] & 0x0f) | 0x40;
+      bytes[8] = (bytes[8] & 0x3f) | 0x80;
+      const hex = bytes.toString("hex");
+      return [
+        hex.slice(0, 8),
+        hex.slice(8, 12),
+        hex.slice(12, 16),
+        hex.slice(16, 20),
+        hex.slice(20),
+      ].join("-");
+    },
+  };
+}
+
+export const CATEGORY_CODES: Record<string, string> = {
+  EQUIPMENT: "EQP",
+  FURNITURE: "FUR",
+  BOOK: "BOK",
+  OTHER: "OTH",
+};
+
+export const DEFAULT_DATE_FORMAT = "YYYYMMDDTHHmmss";
+export const DEFAULT_TIME_ZONE = "UTC";
+// Longer IDs are rejected before they are matched; a field value element without a maximum is
+// cut to this length as well.
+export const MAX_CUSTOM_ID_LENGTH = 200;
+
+// Longest tokens first, so `YYYY` is not read as two `YY` and `DDD` not as `DD` + `D`.
+const DATE_TOKEN_PATTERN = /YYYY|YY|DDD|MM|DD|HH|mm|ss/g;
+
+const DATE_TOKEN_DIGITS: Record<string, number> = {
+  YYYY: 4,
+  YY: 2,
+  DDD: 3,
+  MM: 2,
+  DD: 2,
+  HH: 2,
+  mm: 2,
+  ss: 2,
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function hasDateTokens(pattern: string): boolean {
+  return pattern.match(DATE_TOKEN_PATTERN) !== null;
+}
+
+// Calendar parts of `date` as seen on a wall clock in `timeZone`.
+function zonedDateParts(date: Date, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const values: Record<string, number> = {};
+  for (const part of parts) {
+    if (part.type !== "literal") values[part.type] = Number(part.value);
+  }
+  return values;
+}
+
+/**
+ * Formats a date with tokens YYYY, YY, MM, DD, DDD (day of the year), HH, mm and ss. Any other
+ * character is copied as it is.
+ */
+export function formatDatePattern(date: Date, pattern: string, timeZone: string): string {
+  const parts = zonedDateParts(date, timeZone);
+  const dayOfYear =
+    (Date.UTC(parts.year, parts.month - 1, parts.day) - Date.UTC(parts.year, 0, 1)) / 86_400_000 +
+    1;
+  const values: Record<string, number> = {
+    YYYY: parts.year,
+    YY: parts.year % 100,
+    DDD: dayOfYear,
+    MM: parts.month,
+    DD: parts.day,
+    HH: parts.hour,
+    mm: parts.minute,
+    ss: parts.second,
+  };
+  return pattern.replace(DATE_TOKEN_PATTERN, (token) =>
+    String(values[token]).padStart(DATE_TOKEN_DIGITS[token], "0"),
+  );
+}
+
+function datePatternRegExp(pattern: string): string {
+  let source = "";
+  let last = 0;
+  for (const match of pattern.matchAll(DATE_TOKEN_PATTERN)) {
+    source += escapeRegExp(pattern.slice(last, match.index));
+    source += `\\d{${DATE_TOKEN_DIGITS[match[0]]}}`;
+    last = match.index + match[0].length;
+  }
+  return source + escapeRegExp(pattern.slice(last));
+}
+
+// Up to three letters from the words of the name, or the start of the email without a name.
+export function creatorInitials(creator: CustomIdContext["creator"]): string {
+  if (!creator) return "";
+  const words = (creator.name ?? "").trim().split(/\s+/).filter(Boolean);
+  const initials =
+    words.length > 0 ? words.map((word) => word[0]).join("") : creator.email.slice(0, 2);
+  return initials.slice(0, 3).toUpperCase();
+}
+
+function fieldValueMaxLength(element: CustomIdFormatElement): number {
+  return element.numberWidth && element.numberWidth > 0
+    ? Math.min(element.numberWidth, MAX_CUSTOM_ID_LENGTH)
+    : MAX_CUSTOM_ID_LENGTH;
+}
+
+function renderFieldValue(element: CustomIdFormatElement, context: CustomIdContext): string {
+  const value = element.fieldId ? (context.fieldValues.get(element.fieldId) ?? "") : "";
+  let text = value.trim().replace(/\s+/g, "-");
+  text = text.slice(0, fieldValueMaxLength(element));
+  return element.upperCase ? text.toUpperCase() : text;
+}
+
+// Letters count as their base-36 value (A = 10 ... Z = 35) like in ISIN codes; other characters
+// are skipped.
+function toCheckDigitInput(text: string): number[] {
+  const digits: number[] = [];
+  for (const char of text.toUpperCase()) {
+    if (/[0-9]/.test(char)) digits.push(Number(char));
+    else if (/[A-Z]/.test(char)) digits.push(...String(parseInt(char, 36)).split("").map(Number));
+  }
+  return digits;
+}
+
+export function computeCheckDigit(algorithm: CustomIdCheckDigit | string, text: string): string {
+  const digits = toCheckDigitInput(text).reverse();
+
+  if (algorithm === "MOD_11") {
+    // Weights 2 to 7 from the right; a remainder of 10 is written as X.
+    const sum = digits.reduce((total, digit, index) => total + digit * ((index % 6) + 2), 0);
+    const check = (11 - (sum % 11)) % 11;
+    return check === 10 ? "X" : String(check);
+  }
+
+  // Luhn: the digit next to the check digit is doubled first.
+  const sum = digits.reduce((total, digit, index) => {
+    const value = index % 2 === 0 ? digit * 2 : digit;
+    return total + (value > 9 ? value - 9 : value);
+  }, 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+function renderElement(
+  element: CustomIdFormatElement,
+  context: CustomIdContext,
+  preceding: string,
+): string {
+  const random = context.random ?? SYSTEM_RANDOM;
+  switch (element.type as CustomIdElementType) {
+    case "FIXED_TEXT":
+      return element.fixedText ?? "";
+    case "RANDOM_20_BITS": {
+      const value = random.int(2 ** 20);
+      return value.toString(16).toUpperCase();
+    }
+    case "RANDOM_32_BITS": {
+      const value = random.int(2 ** 31);
+      return value.toString(16).toUpperCase();
+    }
+    case "RANDOM_6_DIGITS": {
+      const value = random.int(10 ** 6);
+      const width = element.numberWidth ?? 6;
+      return value.toString().padStart(width, "0");
+    }
+    case "RANDOM_9_DIGITS": {
+      const value = random.int(10 ** 9);
+      const width = element.numberWidth ?? 9;
+      return value.toString().padStart(width, "0");
+    }
+    case "GUID":
+      return random.uuid();
+    case "DATETIME":
+      return formatDatePattern(
+        context.now,
+        element.dateFormat || DEFAULT_DATE_FORMAT,
+        element.timeZone || DEFAULT_TIME_ZONE,
+      );
+    case "SEQUENCE": {
+      const width = element.numberWidth ?? 6;
+      return context.sequence.toString().padStart(width, "0");
+    }
+    case "FIELD_VALUE":
+      return renderFieldValue(element, context);
+    case "CATEGORY_CODE":
+      return context.category ? (CATEGORY_CODES[context.category] ?? "") : "";
+    case "CREATOR_INITIALS":
+      return creatorInitials(context.creator);
+    case "CHECK_DIGIT":
+      return computeCheckDigit(element.checkDigit ?? "LUHN", preceding);
+    default:
+      return "";
+  }
+}
+
+// Renders one custom ID; a check digit covers everything rendered before it.
+export function renderCustomId(
+  elements: CustomIdFormatElement[],
+  context: CustomIdContext,
+): string {
+  return elements.reduce(
+    (rendered, element) => rendered + renderElement(element, context, rendered),
+    "",
+  );
+}
+
+export interface CustomIdChange {
+  itemId: string;
+  oldCustomId: string;
+  newCustomId: string;
+}
+
+export interface CustomIdCollision extends CustomIdChange {
+  reason: string;
+}
+
+/**
+ * Renders new IDs for `items` in the given order, numbering them from `firstSequence`. A new ID
+ * collides when an item outside the set keeps it, when it is a former ID of another item
+ * (`aliasOwners` maps former IDs to the items that had them), or when an earlier item of the set
+ * got it.
+ */
+export function planCustomIdChanges(
+  items: { id: string; customId: string; context: Omit<CustomIdContext, "sequence"> }[],
+  elements: CustomIdFormatElement[],
+  firstSequence: number,
+  keptCustomIds: Set<string>,
+  aliasOwners: Map<string, Set<string>> = new Map(),
+): { changes: CustomIdChange[]; collisions: CustomIdCollision[] } {
+  const changes: CustomIdChange[] = [];
+  const collisions: CustomIdCollision[] = [];
+  const assigned = new Set<string>();
+
+  items.forEach((item, index) => {
+    const change = {
+      itemId: item.id,
+      oldCustomId: item.customId,
+      newCustomId: renderCustomId(elements, { ...item.context, sequence: firstSequence + index }),
+    };
+    if (keptCustomIds.has(change.newCustomId)) {
+      collisions.push({ ...change, reason: "Already used by an item that is not re-IDed." });
+    } else if (
+      [...(aliasOwners.get(change.newCustomId) ?? [])].some((itemId) => itemId !== item.id)
+    ) {
+      collisions.push({ ...change, reason: "Former ID of another item, still used for lookup." });
+    } else if (assigned.has(change.newCustomId)) {
+      collisions.push({ ...change, reason: "Generated for another item in this run." });
+    } else {
+      assigned.add(change.newCustomId);
+      changes.push(change);
+    }
+  });
+
+  return { changes, collisions };
+}
+
+// Fingerprint of a plan, to tell whether applying it again would give the same IDs.
+export function digestCustomIdChanges(changes: CustomIdChange[]): string {
+  const rows = changes.map((change) => [change.itemId, change.oldCustomId, change.newCustomId]);
+  return crypto.createHash("sha256").update(JSON.stringify(rows)).digest("hex");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Random numbers are padded to `width` (to `maxDigits` without one, not at all for 0) but can
+// be longer when the width is below their size.
+function digitsPattern(width: number | null | undefined, maxDigits: number): string {
+  const minDigits = Math.max(width ?? maxDigits, 1);
+  return `\\d{${minDigits},${Math.max(minDigits, maxDigits)}}`;
+}
+
+// Mirrors what the generator produces for each element type. Without a known category any
+// category code is accepted.
+function elementPattern(
+  element: CustomIdFormatElement,
+  category: string | null,
+): { pattern: string; label: string } {
+  switch (element.type as CustomIdElementType) {
+    case "FIXED_TEXT":
+      return { pattern: escapeRegExp(element.fixedText ?? ""), label: element.fixedText ?? "" };
+    case "RANDOM_20_BITS":
+      return { pattern: "[0-9A-F]{1,5}", label: "<hex 20-bit>" };
+    case "RANDOM_32_BITS":
+      return { pattern: "[0-9A-F]{1,8}", label: "<hex 32-bit>" };
+    case "RANDOM_6_DIGITS":
+      return { pattern: digitsPattern(element.numberWidth, 6), label: "<6 digits>" };
+    case "RANDOM_9_DIGITS":
+      return { pattern: digitsPattern(element.numberWidth, 9), label: "<9 digits>" };
+    case "GUID":
+      return {
+        pattern: "[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}",
+        label: "<GUID>",
+      };
+    case "DATETIME": {
+      const dateFormat = element.dateFormat || DEFAULT_DATE_FORMAT;
+      return { pattern: datePatternRegExp(dateFormat), label: `<${dateFormat}>` };
+    }
+    case "SEQUENCE": {
+      const width = Math.max(element.numberWidth ?? 6, 1);
+      return { pattern: `\\d{${width},}`, label: "<sequence>" };
+    }
+    case "FIELD_VALUE": {
+      // Always bounded: an open-ended run next to other elements backtracks badly on long input.
+      const char = element.upperCase ? "[^a-z\\s]" : "\\S";
+      return { pattern: `${char}{0,${fieldValueMaxLength(element)}}`, label: "<field value>" };
+    }
+    case "CATEGORY_CODE": {
+      const codes = category && CATEGORY_CODES[category] ? [CATEGORY_CODES[category]] : [];
+      const alternatives = codes.length > 0 ? codes : Object.values(CATEGORY_CODES);
+      return { pattern: `(?:${alternatives.join("|")})`, label: alternatives.join("|") };
+    }
+    case "CREATOR_INITIALS":
+      return { pattern: "\\S{1,3}", label: "<initials>" };
+    case "CHECK_DIGIT":
+      return element.checkDigit === "MOD_11"
+        ? { pattern: "[0-9X]", label: "<check digit>" }
+        : { pattern: "\\d", label: "<check digit>" };
+    default:
+      return { pattern: "", label: "" };
+  }
+}
+
+/**
+ * Compiles the elements of an ID format into a matcher for the whole custom ID, together with a
+ * readable description such as `INV-<6 digits>` for error messages. The matcher captures the part
+ * of every element in its own group, so check digits can be verified afterwards.
+ */
+export function compileCustomIdFormat(
+  elements: CustomIdFormatElement[],
+  category: string | null = null,
+): {
+  matcher: RegExp;
+  description: string;
+} {
+  const parts = elements.map((element) => elementPattern(element, category));
+  return {
+    matcher: new RegExp(`^${parts.map((part) => `(${part.pattern})`).join("")}$`),
+    description: parts.map((part) => part.label).join(""),
+  };
+}
+
+// Returns an error message, or null when the ID is acceptable.
+export function validateCustomId(
+  customId: string,
+  elements: CustomIdFormatElement[],
+  allowFreeForm: boolean,
+  category: string | null = null,
+): string | null {
+  if (!customId.trim()) return "Custom ID cannot be empty.";
+  if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+    return `Custom ID cannot be longer than ${MAX_CUSTOM_ID_LENGTH} characters.`;
+  }
+  if (allowFreeForm || elements.length === 0) return null;
+
+  const { matcher, description } = compileCustomIdFormat(elements, category);
+  const match = matcher.exec(customId);
+  if (!match) {
+    return `Custom ID does not match the inventory's ID format: ${description}`;
+  }
+
+  const parts = match.slice(1);
+  const wrongCheckDigit = elements.some(
+    (element, index) =>
+      element.type === "CHECK_DIGIT" &&
+      computeCheckDigit(element.checkDigit ?? "LUHN", parts.slice(0, index).join("")) !==
+        parts[index],
+  );
+  return wrongCheckDigit ? "The check digit of the custom ID is wrong." : null;
+}
@@ -0,0 +1,64 @@
+import { Prisma } from "./generated/client";
+
+export const MAX_LOOKUP_MATCHES = 20;
+
+export interface CustomIdLookupRow {
+  itemId: string;
+  customId: string;
+  inventoryId: string;
+  inventoryTitle: string;
+  // Set when only a former ID of the item matched, see ItemCustomIdAlias.
+  matchedAlias: string | null;
+}
+
+/**
+ * Reduces a custom ID to lower-case letters and digits, so "inv-0042", "INV 0042" and "inv0042"
+ * are the same key. Scanners and people add or drop separators freely.
+ */
+export function normalizeCustomId(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+// SQL counterpart of normalizeCustomId. The expression matches the indexes of the
+// custom_id_lookup_indexes migration character for character, or PostgreSQL will not use them.
+function normalizedColumn(column: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`lower(regexp_replace(${column}, '[^[:alnum:]]', '', 'g'))`;
+}
+
+/**
+ * Builds the query that finds live items whose current or former custom ID normalizes to `key`.
+ * Current IDs rank before aliases, exact spellings before normalized ones.
+ */
+export function buildCustomIdLookupSql(
+  key: string,
+  rawCustomId: string,
+  inventoryId: string | null,
+): Prisma.Sql {
+  const itemScope = inventoryId ? Prisma.sql`AND i."inventoryId" = ${inventoryId}` : Prisma.empty;
+  const aliasScope = inventoryId ? Prisma.sql`AND a."inventoryId" = ${inventoryId}` : Prisma.empty;
+
+  return Prisma.sql`
+    SELECT "itemId", "customId", "inventoryId", "inventoryTitle", "matchedAlias"
+    FROM (
+      SELECT DISTINCT ON (m."itemId")
+        m."itemId", i."customId", i."inventoryId", inv."title" AS "inventoryTitle",
+        m."matchedAlias", m."rank"
+      FROM (
+        SELECT i."id" AS "itemId", NULL::text AS "matchedAlias",
+          CASE WHEN i."customId" = ${rawCustomId} THEN 0 ELSE 1 END AS "rank"
+        FROM "Item" i
+        WHERE ${normalizedColumn(Prisma.sql`i."customId"`)} = ${key} ${itemScope}
+        UNION ALL
+        SELECT a."itemId", a."customId", 2
+        FROM "ItemCustomIdAlias" a
+        WHERE ${normalizedColumn(Prisma.sql`a."customId"`)} = ${key} ${aliasScope}
+      ) m
+      JOIN "Item" i ON i."id" = m."itemId"
+      JOIN "Inventory" inv ON inv."id" = i."inventoryId"
+      WHERE i."deletedAt" IS NULL
+      ORDER BY m."itemId", m."rank"
+    ) best
+    ORDER BY "rank", "customId"
+    LIMIT ${MAX_LOOKUP_MATCHES}
+  `;
+}
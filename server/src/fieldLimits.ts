@@ -0,0 +1,55 @@
+import { INVENTORY_FIELD_TYPES, InventoryFieldType } from "./fieldValues";
+
+export type FieldLimits = Record<InventoryFieldType, number>;
+export type FieldLimitOverrides = Partial<FieldLimits>;
+
+// Applies to every type an admin has not configured.
+export const DEFAULT_FIELD_LIMIT = 3;
+export const MAX_FIELD_LIMIT = 100;
+
+/**
+ * Validates a partial `{ TYPE: limit }` map. Empty values are skipped, so a type without an entry
+ * falls back to the next level (inventory override → global setting → default).
+ */
+export function sanitizeFieldLimitOverrides(input: unknown): {
+  error: string | null;
+  limits: FieldLimitOverrides;
+} {
+  const limits: FieldLimitOverrides = {};
+  if (input === null || input === undefined) return { error: null, limits };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Field limits must be an object keyed by field type.", limits: {} };
+  }
+
+  for (const [type, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!INVENTORY_FIELD_TYPES.includes(type as InventoryFieldType)) {
+      return { error: `Unsupported field type: ${type}`, limits: {} };
+    }
+    if (value === null || value === undefined || value === "") continue;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0 || limit > MAX_FIELD_LIMIT) {
+      return {
+        error: `Limit for ${type} must be a whole number between 0 and ${MAX_FIELD_LIMIT}.`,
+        limits: {},
+      };
+    }
+    limits[type as InventoryFieldType] = limit;
+  }
+
+  return { error: null, limits };
+}
+
+export function resolveFieldLimits(
+  globalLimits: unknown,
+  inventoryLimits: unknown,
+): FieldLimits {
+  const global = sanitizeFieldLimitOverrides(globalLimits).limits;
+  const inventory = sanitizeFieldLimitOverrides(inventoryLimits).limits;
+
+  return Object.fromEntries(
+    INVENTORY_FIELD_TYPES.map((type) => [
+      type,
+      inventory[type] ?? global[type] ?? DEFAULT_FIELD_LIMIT,
+    ]),
+  ) as FieldLimits;
+}
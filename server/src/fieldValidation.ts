@@ -0,0 +1,218 @@
+import safeRegex from "safe-regex";
+
+import { FieldValueColumns, InventoryFieldType } from "./fieldValues";
+
+export interface FieldValidationRules {
+  required: boolean;
+  minValue: number | null;
+  maxValue: number | null;
+  maxLength: number | null;
+  pattern: string | null;
+  allowedSchemes: string[];
+}
+
+export interface FieldValidationError {
+  fieldId: string;
+  message: string;
+}
+
+export const EMPTY_VALIDATION_RULES: FieldValidationRules = {
+  required: false,
+  minValue: null,
+  maxValue: null,
+  maxLength: null,
+  pattern: null,
+  allowedSchemes: [],
+};
+
+const MAX_PATTERN_LENGTH = 200;
+// Longer text values are not run through a pattern at all.
+const MAX_PATTERN_INPUT_LENGTH = 10_000;
+const MAX_CACHED_PATTERNS = 500;
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function isTextType(type: InventoryFieldType): boolean {
+  return type === "SINGLE_LINE_TEXT" || type === "MULTI_LINE_TEXT";
+}
+
+function toOptionalNumber(input: unknown): number | null | undefined {
+  if (input === null || input === undefined || input === "") return null;
+  const num = typeof input === "number" ? input : Number(input);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+/**
+ * The whole value has to match, not just a part of it. Patterns with nested repetition could
+ * backtrack for minutes on a crafted value, so those compile to null. Throws on invalid syntax.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (compiledPatterns.has(pattern)) {
+    return compiledPatterns.get(pattern);
+  }
+  const regex = new RegExp(`^(?:${pattern})$`);
+  const compiled = safeRegex(regex) ? regex : null;
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) {
+    compiledPatterns.clear();
+  }
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Normalises the rules sent by the fields editor. Rules that do not apply to the field type are
+ * dropped, so switching a field from NUMBER to text does not keep a stale min/max around.
+ */
+export function sanitizeValidationRules(
+  type: InventoryFieldType,
+  input: Partial<FieldValidationRules> | null | undefined,
+  fieldTitle: string,
+): { error: string | null; rules: FieldValidationRules } {
+  const rules: FieldValidationRules = { ...EMPTY_VALIDATION_RULES, allowedSchemes: [] };
+  if (!input) return { error: null, rules };
+
+  const fail = (message: string) => ({ error: `${fieldTitle}: ${message}`, rules });
+
+  rules.required = type !== "BOOLEAN" && Boolean(input.required);
+
+  if (type === "NUMBER") {
+    const minValue = toOptionalNumber(input.minValue);
+    const maxValue = toOptionalNumber(input.maxValue);
+    if (minValue === undefined || maxValue === undefined) {
+      return fail("minimum and maximum must be numbers.");
+    }
+    if (minValue !== null && maxValue !== null && minValue > maxValue) {
+      return fail("minimum must not be greater than maximum.");
+    }
+    rules.minValue = minValue;
+    rules.maxValue = maxValue;
+  }
+
+  if (isTextType(type)) {
+    const maxLength = toOptionalNumber(input.maxLength);
+    const isValidLength = maxLength === null || (Number.isInteger(maxLength) && maxLength >= 1);
+    if (maxLength === undefined || !isValidLength) {
+      return fail("maximum length must be a positive whole number.");
+    }
+    rules.maxLength = maxLength;
+
+    const pattern = typeof input.pattern === "string" ? input.pattern.trim() : "";
+    if (pattern) {
+      if (pattern.length > MAX_PATTERN_LENGTH) {
+        return fail(`pattern must be at most ${MAX_PATTERN_LENGTH} characters.`);
+      }
+      let compiled: RegExp | null;
+      try {
+        compiled = compilePattern(pattern);
+      } catch {
+        return fail("pattern is not a valid regular expression.");
+      }
+      if (!compiled) {
+        return fail("pattern has nested repetition that could take too long to match.");
+      }
+      rules.pattern = pattern;
+    }
+  }
+
+  if (type === "LINK") {
+    const schemes = Array.isArray(input.allowedSchemes) ? input.allowedSchemes : [];
+    for (const scheme of schemes) {
+      const normalized = String(scheme).trim().toLowerCase().replace(/:(\/\/)?$/, "");
+      if (!normalized) continue;
+      if (!/^[a-z][a-z0-9+.-]*$/.test(normalized)) {
+        return fail(`"${scheme}" is not a valid URL scheme.`);
+      }
+      if (!rules.allowedSchemes.includes(normalized)) rules.allowedSchemes.push(normalized);
+    }
+  }
+
+  return { error: null, rules };
+}
+
+export function isSameValidationRules(a: FieldValidationRules, b: FieldValidationRules): boolean {
+  return (
+    a.required === b.required &&
+    a.minValue === b.minValue &&
+    a.maxValue === b.maxValue &&
+    a.maxLength === b.maxLength &&
+    a.pattern === b.pattern &&
+    a.allowedSchemes.join(",") === b.allowedSchemes.join(",")
+  );
+}
+
+/** Returns a message describing why the value breaks the field's rules, or null when it is valid. */
+export function validateFieldValue(
+  type: InventoryFieldType,
+  rules: FieldValidationRules,
+  value: FieldValueColumns,
+): string | null {
+  switch (type) {
+    case "NUMBER": {
+      if (value.valueNumber === null) return rules.required ? "A value is required." : null;
+      if (rules.minValue !== null && value.valueNumber < rules.minValue) {
+        return `Must be at least ${rules.minValue}.`;
+      }
+      if (rules.maxValue !== null && value.valueNumber > rules.maxValue) {
+        return `Must be at most ${rules.maxValue}.`;
+      }
+      return null;
+    }
+    case "SINGLE_LINE_TEXT":
+    case "MULTI_LINE_TEXT": {
+      const text = value.valueString ?? "";
+      if (!text.trim()) return rules.required ? "A value is required." : null;
+      if (rules.maxLength !== null && text.length > rules.maxLength) {
+        return `Must be at most ${rules.maxLength} characters.`;
+      }
+      if (rules.pattern) {
+        if (text.length > MAX_PATTERN_INPUT_LENGTH) {
+          return `Must be at most ${MAX_PATTERN_INPUT_LENGTH} characters to check the pattern.`;
+        }
+        // Patterns saved before the backtracking check are not enforced until they are fixed.
+        const compiled = compilePattern(rules.pattern);
+        if (compiled && !compiled.test(text)) {
+          return `Must match the pattern ${rules.pattern}.`;
+        }
+      }
+      return null;
+    }
+    case "LINK": {
+      const link = value.valueLink?.trim() ?? "";
+      if (!link) return rules.required ? "A value is required." : null;
+      if (rules.allowedSchemes.length > 0) {
+        let scheme: string | null = null;
+        try {
+          scheme = new URL(link).protocol.replace(/:$/, "");
+        } catch {
+          return "Must be a valid URL.";
+        }
+        if (!rules.allowedSchemes.includes(scheme)) {
+          return `Link must use ${rules.allowedSchemes.join(" or ")}.`;
+        }
+      }
+      return null;
+    }
+    case "DATE":
+    case "DATETIME":
+      return rules.required && value.valueDate === null ? "A value is required." : null;
+    case "SELECT":
+      return rules.required && value.valueString === null ? "Choose an option." : null;
+    case "MULTI_SELECT":
+      return rules.required && value.valueOptions.length === 0
+        ? "Choose at least one option."
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function pickValidationRules(field: FieldValidationRules): FieldValidationRules {
+  return {
+    required: field.required,
+    minValue: field.minValue,
+    maxValue: field.maxValue,
+    maxLength: field.maxLength,
+    pattern: field.pattern,
+    allowedSchemes: field.allowedSchemes ?? [],
+  };
+}
@@ -0,0 +1,302 @@
+export type InventoryFieldType =
+  | "SINGLE_LINE_TEXT"
+  | "MULTI_LINE_TEXT"
+  | "NUMBER"
+  | "LINK"
+  | "BOOLEAN"
+  | "DATE"
+  | "DATETIME"
+  | "SELECT"
+  | "MULTI_SELECT"
+  | "ATTACHMENT";
+
+export const INVENTORY_FIELD_TYPES: InventoryFieldType[] = [
+  "SINGLE_LINE_TEXT",
+  "MULTI_LINE_TEXT",
+  "NUMBER",
+  "LINK",
+  "BOOLEAN",
+  "DATE",
+  "DATETIME",
+  "SELECT",
+  "MULTI_SELECT",
+  "ATTACHMENT",
+];
+
+export interface FieldValueColumns {
+  valueString: string | null;
+  valueNumber: number | null;
+  valueBoolean: boolean | null;
+  valueLink: string | null;
+  valueDate: Date | null;
+  valueOptions: string[];
+}
+
+export interface FieldValueConversion {
+  value: FieldValueColumns | null;
+  lossless: boolean;
+}
+
+export const EMPTY_FIELD_VALUE: FieldValueColumns = {
+  valueString: null,
+  valueNumber: null,
+  valueBoolean: null,
+  valueLink: null,
+  valueDate: null,
+  valueOptions: [],
+};
+
+const TRUE_WORDS = new Set(["true", "yes", "y", "1", "on"]);
+const FALSE_WORDS = new Set(["false", "no", "n", "0", "off"]);
+
+export function hasFieldValue(value: FieldValueColumns): boolean {
+  return (
+    value.valueString !== null ||
+    value.valueNumber !== null ||
+    value.valueBoolean !== null ||
+    value.valueLink !== null ||
+    value.valueDate !== null ||
+    value.valueOptions.length > 0
+  );
+}
+
+export function isSelectFieldType(type: InventoryFieldType): boolean {
+  return type === "SELECT" || type === "MULTI_SELECT";
+}
+
+// Case- and whitespace-insensitive lookup so "broken " and "Broken" resolve to the same option.
+export function matchOptionLabel(input: string, labels: string[]): string | null {
+  const normalized = input.trim().toLowerCase();
+  if (!normalized) return null;
+  return labels.find((label) => label.trim().toLowerCase() === normalized) ?? null;
+}
+
+export function matchOptionLabels(inputs: string[], labels: string[]): string[] | null {
+  const matched: string[] = [];
+  for (const input of inputs) {
+    if (!input.trim()) continue;
+    const label = matchOptionLabel(input, labels);
+    if (label === null) return null;
+    if (!matched.includes(label)) matched.push(label);
+  }
+  return matched;
+}
+
+export function isDateFieldType(type: InventoryFieldType): boolean {
+  return type === "DATE" || type === "DATETIME";
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// ISO 8601 with the offset spelled out, so the value never depends on the server's time zone.
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+// Rejects days Date would roll over, such as 2026-02-31 becoming March 3.
+function isCalendarDate(text: string): boolean {
+  const [year, month, day] = text.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Reads a DATE written as `YYYY-MM-DD` and a DATETIME written as an ISO 8601 timestamp with an
+ * offset; anything else is null. DATE values are stored as UTC midnight so that they compare and
+ * sort like plain dates.
+ */
+export function parseDateValue(input: string | Date, type: InventoryFieldType): Date | null {
+  let date: Date;
+  if (input instanceof Date) {
+    date = new Date(input.getTime());
+  } else {
+    const text = String(input).trim();
+    const pattern = type === "DATE" ? DATE_ONLY_PATTERN : TIMESTAMP_PATTERN;
+    if (!pattern.test(text) || !isCalendarDate(text.slice(0, 10))) return null;
+    date = new Date(type === "DATE" ? `${text}T00:00:00.000Z` : text);
+  }
+  if (Number.isNaN(date.getTime())) return null;
+  if (type === "DATE") {
+    date.setUTCHours(0, 0, 0, 0);
+  }
+  return date;
+}
+
+export function formatDateValue(date: Date, type: InventoryFieldType): string {
+  const iso = date.toISOString();
+  return type === "DATE" ? iso.slice(0, 10) : iso;
+}
+
+// Reads the value from the column that belongs to the field type.
+function readRaw(
+  value: FieldValueColumns,
+  type: InventoryFieldType,
+): string | number | boolean | Date | string[] | null {
+  switch (type) {
+    case "MULTI_SELECT":
+      return value.valueOptions.length > 0 ? value.valueOptions : null;
+    case "DATE":
+    case "DATETIME":
+      return value.valueDate;
+    case "NUMBER":
+      return value.valueNumber;
+    case "BOOLEAN":
+      return value.valueBoolean;
+    case "LINK":
+      return value.valueLink;
+    default:
+      return value.valueString;
+  }
+}
+
+export function formatFieldValue(value: FieldValueColumns, type?: InventoryFieldType): string {
+  if (value.valueDate !== null) return formatDateValue(value.valueDate, type ?? "DATETIME");
+  if (value.valueOptions.length > 0) return value.valueOptions.join(", ");
+  if (value.valueString !== null) return value.valueString;
+  if (value.valueNumber !== null) return String(value.valueNumber);
+  if (value.valueBoolean !== null) return value.valueBoolean ? "true" : "false";
+  return value.valueLink ?? "";
+}
+
+// A comma is read as the decimal separator only when it is the single separator and cannot be a
+// thousands separator: "3,5" and "0,125" convert, while "1,234", "1,234,5" or "1,234.5" count as
+// lost rather than converted into a wrong number.
+function parseNumber(text: string): number | null {
+  let trimmed = text.trim();
+  if (!trimmed) return null;
+  if (trimmed.includes(",")) {
+    const decimalComma = /^[+-]?\d+,\d+$/.test(trimmed);
+    const thousandsLike = /^[+-]?[1-9]\d{0,2},\d{3}$/.test(trimmed);
+    if (!decimalComma || thousandsLike) return null;
+    trimmed = trimmed.replace(",", ".");
+  }
+  const num = Number(trimmed);
+  return Number.isFinite(num) ? num : null;
+}
+
+function parseBoolean(text: string): boolean | null {
+  const normalized = text.trim().toLowerCase();
+  if (TRUE_WORDS.has(normalized)) return true;
+  if (FALSE_WORDS.has(normalized)) return false;
+  return null;
+}
+
+function parseLink(text: string): string | null {
+  const trimmed = text.trim();
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === "http:" || url.protocol === "https:" ? trimmed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Moves a stored value into the column of another field type.
+ * `value: null` with `lossless: false` means the value cannot be represented and would be dropped.
+ * `options` are the option labels of the target field when it is a select field.
+ */
+export function convertFieldValue(
+  value: FieldValueColumns,
+  fromType: InventoryFieldType,
+  toType: InventoryFieldType,
+  options: string[] = [],
+): FieldValueConversion {
+  const raw = readRaw(value, fromType);
+
+  if (raw === null || raw === undefined) {
+    return { value: null, lossless: true };
+  }
+
+  if (fromType === toType) {
+    return { value: { ...EMPTY_FIELD_VALUE, ...pickColumn(toType, raw) }, lossless: true };
+  }
+
+  const text = Array.isArray(raw)
+    ? raw.join(", ")
+    : raw instanceof Date
+      ? formatDateValue(raw, fromType)
+      : typeof raw === "string"
+        ? raw
+        : typeof raw === "number"
+          ? String(raw)
+          : raw
+            ? "true"
+            : "false";
+
+  switch (toType) {
+    case "SINGLE_LINE_TEXT":
+      return {
+        value: { ...EMPTY_FIELD_VALUE, valueString: text.replace(/\s*\r?\n\s*/g, " ").trim() },
+        lossless: true,
+      };
+    case "MULTI_LINE_TEXT":
+      return { value: { ...EMPTY_FIELD_VALUE, valueString: text }, lossless: true };
+    case "NUMBER": {
+      const num =
+        raw instanceof Date || Array.isArray(raw)
+          ? null
+          : typeof raw === "boolean"
+            ? (raw ? 1 : 0)
+            : parseNumber(text);
+      return num === null
+        ? { value: null, lossless: false }
+        : { value: { ...EMPTY_FIELD_VALUE, valueNumber: num }, lossless: true };
+    }
+    case "BOOLEAN": {
+      const bool = raw instanceof Date || Array.isArray(raw) ? null : parseBoolean(text);
+      return bool === null
+        ? { value: null, lossless: false }
+        : { value: { ...EMPTY_FIELD_VALUE, valueBoolean: bool }, lossless: true };
+    }
+    case "LINK": {
+      const link = typeof raw === "string" ? parseLink(raw) : null;
+      return link === null
+        ? { value: null, lossless: false }
+        : { value: { ...EMPTY_FIELD_VALUE, valueLink: link }, lossless: true };
+    }
+    case "DATE":
+    case "DATETIME": {
+      const date =
+        raw instanceof Date || typeof raw === "string" ? parseDateValue(raw, toType) : null;
+      return date === null
+        ? { value: null, lossless: false }
+        : { value: { ...EMPTY_FIELD_VALUE, valueDate: date }, lossless: true };
+    }
+    case "SELECT": {
+      const label =
+        Array.isArray(raw) && raw.length > 1 ? null : matchOptionLabel(text, options);
+      return label === null
+        ? { value: null, lossless: false }
+        : { value: { ...EMPTY_FIELD_VALUE, valueString: label }, lossless: true };
+    }
+    case "MULTI_SELECT": {
+      const parts = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,;]/) : [text];
+      const labels = matchOptionLabels(parts, options);
+      return labels === null || labels.length === 0
+        ? { value: null, lossless: false }
+        : { value: { ...EMPTY_FIELD_VALUE, valueOptions: labels }, lossless: true };
+    }
+    default:
+      return { value: null, lossless: false };
+  }
+}
+
+function pickColumn(
+  type: InventoryFieldType,
+  raw: string | number | boolean | Date | string[],
+): Partial<FieldValueColumns> {
+  switch (type) {
+    case "MULTI_SELECT":
+      return { valueOptions: [...(raw as string[])] };
+    case "DATE":
+    case "DATETIME":
+      return { valueDate: raw as Date };
+    case "NUMBER":
+      return { valueNumber: raw as number };
+    case "BOOLEAN":
+      return { valueBoolean: raw as boolean };
+    case "LINK":
+      return { valueLink: raw as string };
+    default:
+      return { valueString: raw as string };
+  }
+}
@@ -0,0 +1,504 @@
+import { Prisma } from "./generated/client";
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+const MAX_FILTER_VALUES = 20;
+// Tags and owners can be many; only the most frequent are offered as facet values.
+const MAX_FACET_VALUES = 20;
+
+export const SEARCH_SORTS = ["relevance", "newest", "items", "likes"] as const;
+export const SEARCH_FACETS = ["category", "tag", "owner", "items"] as const;
+export const INVENTORY_CATEGORIES = ["EQUIPMENT", "FURNITURE", "BOOK", "OTHER"];
+
+// Buckets of the number of live items in an inventory; `max: null` is open-ended.
+export const ITEM_COUNT_BUCKETS = [
+  { key: "0", min: 0, max: 0 },
+  { key: "1-9", min: 1, max: 9 },
+  { key: "10-49", min: 10, max: 49 },
+  { key: "50-99", min: 50, max: 99 },
+  { key: "100+", min: 100, max: null },
+];
+
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+export type SearchFacet = (typeof SEARCH_FACETS)[number];
+
+// Values within a facet are alternatives; different facets must all match.
+export type SearchFilters = Record<SearchFacet, string[]>;
+
+// "simple" only lower-cases words; stemming for one language would break the other (EN/RU).
+const SEARCH_CONFIG = Prisma.raw(`'simple'`);
+
+// These expressions match the GIN indexes of the full_text_search migration character for
+// character; PostgreSQL only uses an expression index for the same expression.
+const INVENTORY_TEXT_VECTOR = Prisma.raw(
+  `to_tsvector('simple', inv."title" || ' ' || coalesce(inv."description", ''))`,
+);
+const TAG_VECTOR = Prisma.raw(`to_tsvector('simple', t."name")`);
+// See the tag_synonyms migration.
+const TAG_SYNONYM_VECTOR = Prisma.raw(`to_tsvector('simple', ts."name")`);
+const ITEM_CUSTOM_ID_VECTOR = Prisma.raw(`to_tsvector('simple', i."customId")`);
+const FIELD_VALUE_VECTOR = Prisma.raw(
+  `to_tsvector('simple', coalesce(v."valueString", '') || ' ' || coalesce(v."valueLink", ''))`,
+);
+
+// Matched words come back wrapped in these control characters, see splitSnippet.
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+const HEADLINE_OPTIONS =
+  `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=24, MinWords=10, ` +
+  `MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface SearchQuery {
+  // tsquery text requiring every term.
+  all: string;
+  // tsquery text accepting any term not under a negation; used to pick candidates from the
+  // indexes. Null when every word is negated.
+  any: string | null;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchParams {
+  // Words of the query (see searchQuery.ts). Without them the search lists inventories, and items
+  // too when `matchesItemFields`, that pass the filters.
+  text: SearchQuery | null;
+  // Condition of the `key:value` filters of the query on alias `s`.
+  condition: Prisma.Sql | null;
+  matchesItemFields: boolean;
+  filters: SearchFilters;
+  sort: SearchSort;
+  page: number;
+  pageSize: number;
+}
+
+export interface SearchHitRow {
+  kind: "inventory" | "item";
+  id: string;
+  inventoryId: string;
+  rank: number;
+  likes: number;
+  snippet: string;
+}
+
+export interface NewHitRow {
+  kind: "inventory" | "item";
+  id: string;
+  inventoryId: string;
+  // Inventory title or item custom ID.
+  title: string;
+  createdAt: Date;
+}
+
+// Where a saved search check goes on from: after the given hit, or at `createdAt` without one.
+export interface NewHitsCursor {
+  createdAt: Date;
+  kind: string | null;
+  id: string | null;
+}
+
+export interface FacetCountRow {
+  value: string;
+  label: string | null;
+  count: number;
+}
+
+// A repeated query parameter (`tag=a&tag=b`) arrives as an array, a single one as a string.
+function readList(input: unknown): string[] {
+  const values = Array.isArray(input) ? input : [input];
+  const strings = values
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  return Array.from(new Set(strings)).slice(0, MAX_FILTER_VALUES);
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return SEARCH_FACETS.some((facet) => filters[facet].length > 0);
+}
+
+/**
+ * Reads the facet filters `category`, `tag`, `owner` and `items` (each repeatable), `sort`,
+ * `page` (from 1) and `pageSize` from the query string of the search. `search` is the compiled
+ * `q` parameter.
+ */
+export function parseSearchParams(
+  input: Record<string, unknown>,
+  search: Pick<SearchParams, "text" | "condition" | "matchesItemFields">,
+): { error: string | null; params: SearchParams | null } {
+  const filters: SearchFilters = {
+    category: readList(input.category),
+    tag: readList(input.tag),
+    owner: readList(input.owner),
+    items: readList(input.items),
+  };
+
+  const unknownCategory = filters.category.find((value) => !INVENTORY_CATEGORIES.includes(value));
+  if (unknownCategory) {
+    return { error: `Unknown category: ${unknownCategory}`, params: null };
+  }
+  const bucketKeys = ITEM_COUNT_BUCKETS.map((bucket) => bucket.key);
+  const unknownBucket = filters.items.find((value) => !bucketKeys.includes(value));
+  if (unknownBucket) {
+    return { error: `Unknown item count range: ${unknownBucket}`, params: null };
+  }
+
+  const sortInput = typeof input.sort === "string" && input.sort ? input.sort : null;
+  if (sortInput && !SEARCH_SORTS.includes(sortInput as SearchSort)) {
+    return { error: `Unknown sort: ${sortInput}`, params: null };
+  }
+  // Without search words there is no relevance to sort by.
+  const sort = (sortInput ?? (search.text ? "relevance" : "newest")) as SearchSort;
+
+  const requestedPage = Number(input.page ?? 1);
+  if (!Number.isInteger(requestedPage) || requestedPage < 1) {
+    return { error: "Page must be a positive whole number.", params: null };
+  }
+  const requestedSize = Number(input.pageSize);
+  const pageSize =
+    Number.isInteger(requestedSize) && requestedSize > 0
+      ? Math.min(requestedSize, MAX_SEARCH_PAGE_SIZE)
+      : DEFAULT_SEARCH_PAGE_SIZE;
+
+  return {
+    error: null,
+    params: { ...search, filters, sort, page: requestedPage, pageSize },
+  };
+}
+
+function queryCte(query: SearchQuery): Prisma.Sql {
+  return Prisma.sql`
+    query AS (
+      SELECT to_tsquery(${SEARCH_CONFIG}, ${query.all}) AS "all"
+    )
+  `;
+}
+
+// Inventory hits rank title and tags with their synonyms (weight A) above the description
+// (weight B); item hits rank the custom ID (A) above the text and link values of their fields (B).
+function textHitsCtes(query: SearchQuery, matchesItemFields: boolean): Prisma.Sql {
+  const any = query.any ? Prisma.sql`to_tsquery(${SEARCH_CONFIG}, ${query.any})` : null;
+  // With only negated words nothing narrows the candidates; items are then only searched for
+  // field filters, as without words.
+  const inventoryCandidates = any
+    ? Prisma.sql`
+      SELECT inv."id" FROM "Inventory" inv WHERE ${INVENTORY_TEXT_VECTOR} @@ ${any}
+      UNION
+      SELECT it."inventoryId"
+      FROM "InventoryTag" it JOIN "Tag" t ON t."id" = it."tagId"
+      WHERE ${TAG_VECTOR} @@ ${any}
+      UNION
+      SELECT it."inventoryId"
+      FROM "InventoryTag" it JOIN "TagSynonym" ts ON ts."tagId" = it."tagId"
+      WHERE ${TAG_SYNONYM_VECTOR} @@ ${any}`
+    : Prisma.sql`SELECT inv."id" FROM "Inventory" inv`;
+  const itemCandidates = any
+    ? Prisma.sql`
+      SELECT i."id" FROM "Item" i WHERE ${ITEM_CUSTOM_ID_VECTOR} @@ ${any}
+      UNION
+      SELECT v."itemId" FROM "ItemFieldValue" v WHERE ${FIELD_VALUE_VECTOR} @@ ${any}`
+    : Prisma.sql`SELECT i."id" FROM "Item" i WHERE ${Prisma.raw(String(matchesItemFields))}`;
+
+  return Prisma.sql`
+    ${queryCte(query)},
+    inventory_candidates AS (${inventoryCandidates}),
+    item_candidates AS (${itemCandidates}),
+    inventory_hits AS (
+      SELECT inv."id", inv."createdAt", ts_rank(d."doc", query."all", 32)::float8 AS "rank"
+      FROM inventory_candidates c
+      JOIN "Inventory" inv ON inv."id" = c."id"
+      CROSS JOIN query
+      CROSS JOIN LATERAL (
+        SELECT setweight(to_tsvector(${SEARCH_CONFIG}, inv."title"), 'A') ||
+          setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(${inventoryTagNames()}, '')), 'A') ||
+          setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(${inventoryTagSynonyms()}, '')), 'A') ||
+          setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(inv."description", '')), 'B') AS "doc"
+      ) d
+      WHERE d."doc" @@ query."all"
+    ),
+    item_hits AS (
+      SELECT i."id", i."inventoryId", i."createdAt",
+        ts_rank(d."doc", query."all", 32)::float8 AS "rank"
+      FROM item_candidates c
+      JOIN "Item" i ON i."id" = c."id"
+      CROSS JOIN query
+      CROSS JOIN LATERAL (
+        SELECT setweight(to_tsvector(${SEARCH_CONFIG}, i."customId"), 'A') ||
+          setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(${itemValueText()}, '')), 'B') AS "doc"
+      ) d
+      WHERE i."deletedAt" IS NULL AND d."doc" @@ query."all"
+    ),
+    hits AS (
+      SELECT 'inventory' AS "kind", h."id", h."id" AS "inventoryId", h."createdAt", h."rank"
+      FROM inventory_hits h
+      UNION ALL
+      SELECT 'item', h."id", h."inventoryId", h."createdAt", h."rank" FROM item_hits h
+    )
+  `;
+}
+
+// Tag names of the inventory aliased `inv`, in one line.
+function inventoryTagNames(): Prisma.Sql {
+  return Prisma.sql`(
+    SELECT string_agg(t."name", ' ' ORDER BY t."name")
+    FROM "InventoryTag" it JOIN "Tag" t ON t."id" = it."tagId"
+    WHERE it."inventoryId" = inv."id"
+  )`;
+}
+
+// Synonyms of the tags of the inventory aliased `inv`, in one line.
+function inventoryTagSynonyms(): Prisma.Sql {
+  return Prisma.sql`(
+    SELECT string_agg(ts."name", ' ' ORDER BY ts."name")
+    FROM "InventoryTag" it JOIN "TagSynonym" ts ON ts."tagId" = it."tagId"
+    WHERE it."inventoryId" = inv."id"
+  )`;
+}
+
+/**
+ * Condition on the tag aliased `t`: its name or one of its synonyms is one of `names`, ignoring
+ * case. Filters by tag use it, so "HR" and "human-resources" find the tag "hr".
+ */
+export function tagNameCondition(names: string[]): Prisma.Sql {
+  const lowered = names.map((name) => name.toLowerCase());
+  return Prisma.sql`(
+    lower(t."name") IN (${Prisma.join(lowered)})
+    OR EXISTS (
+      SELECT 1 FROM "TagSynonym" ts
+      WHERE ts."tagId" = t."id" AND lower(ts."name") IN (${Prisma.join(lowered)})
+    )
+  )`;
+}
+
+// Text and link values of the item aliased `i`, in one line.
+function itemValueText(): Prisma.Sql {
+  return Prisma.sql`(
+    SELECT string_agg(concat_ws(' ', v."valueString", v."valueLink"), ' · ')
+    FROM "ItemFieldValue" v
+    WHERE v."itemId" = i."id" AND (v."valueString" IS NOT NULL OR v."valueLink" IS NOT NULL)
+  )`;
+}
+
+/**
+ * The CTEs every search query starts with. `scoped` holds one row per hit of a live inventory with
+ * the values the facets and sorts need: the inventory's category, owner and live item count, and
+ * the likes of the item, or of all live items of an inventory.
+ */
+function searchCtes(params: SearchParams): Prisma.Sql {
+  const hits = params.text
+    ? textHitsCtes(params.text, params.matchesItemFields)
+    : Prisma.sql`hits AS (
+        SELECT 'inventory' AS "kind", inv."id", inv."id" AS "inventoryId", inv."createdAt",
+          0::float8 AS "rank"
+        FROM "Inventory" inv
+        UNION ALL
+        SELECT 'item', i."id", i."inventoryId", i."createdAt", 0::float8
+        FROM "Item" i
+        WHERE ${Prisma.raw(String(params.matchesItemFields))} AND i."deletedAt" IS NULL
+      )`;
+
+  return Prisma.sql`
+    WITH ${hits},
+    scoped AS (
+      SELECT h.*, inv."category"::text AS "category", inv."ownerId", ic."itemsCount",
+        CASE WHEN h."kind" = 'item'
+          THEN (SELECT COUNT(*) FROM "ItemLike" l WHERE l."itemId" = h."id")
+          ELSE (
+            SELECT COUNT(*) FROM "ItemLike" l JOIN "Item" li ON li."id" = l."itemId"
+            WHERE li."inventoryId" = h."id" AND li."deletedAt" IS NULL
+          )
+        END::int AS "likes"
+      FROM hits h
+      JOIN "Inventory" inv ON inv."id" = h."inventoryId"
+      CROSS JOIN LATERAL (
+        SELECT COUNT(*)::int AS "itemsCount" FROM "Item" ci
+        WHERE ci."inventoryId" = inv."id" AND ci."deletedAt" IS NULL
+      ) ic
+      WHERE inv."archivedAt" IS NULL
+    )
+  `;
+}
+
+function bucketCondition(bucket: (typeof ITEM_COUNT_BUCKETS)[number]): Prisma.Sql {
+  return bucket.max === null
+    ? Prisma.sql`s."itemsCount" >= ${bucket.min}`
+    : Prisma.sql`s."itemsCount" BETWEEN ${bucket.min} AND ${bucket.max}`;
+}
+
+// Conditions of the query filters and of all facet filters but `except`, on alias `s` of `scoped`.
+function filterConditions(params: SearchParams, except: SearchFacet | null = null): Prisma.Sql {
+  const { filters } = params;
+  const conditions: Prisma.Sql[] = [params.condition ?? Prisma.sql`TRUE`];
+  const active = (facet: SearchFacet) => facet !== except && filters[facet].length > 0;
+
+  if (active("category")) {
+    conditions.push(Prisma.sql`s."category" IN (${Prisma.join(filters.category)})`);
+  }
+  if (active("tag")) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "InventoryTag" it JOIN "Tag" t ON t."id" = it."tagId"
+      WHERE it."inventoryId" = s."inventoryId" AND ${tagNameCondition(filters.tag)}
+    )`);
+  }
+  if (active("owner")) {
+    conditions.push(Prisma.sql`s."ownerId" IN (${Prisma.join(filters.owner)})`);
+  }
+  if (active("items")) {
+    const buckets = ITEM_COUNT_BUCKETS.filter((bucket) => filters.items.includes(bucket.key));
+    conditions.push(Prisma.sql`(${Prisma.join(buckets.map(bucketCondition), " OR ")})`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+// Ties fall back to kind and id, so pages do not overlap.
+function orderBy(sort: SearchSort, alias: string): Prisma.Sql {
+  const a = Prisma.raw(alias);
+  const tieBreak = Prisma.sql`${a}."kind", ${a}."id"`;
+  switch (sort) {
+    case "newest":
+      return Prisma.sql`${a}."createdAt" DESC, ${tieBreak}`;
+    case "items":
+      return Prisma.sql`${a}."itemsCount" DESC, ${a}."rank" DESC, ${tieBreak}`;
+    case "likes":
+      return Prisma.sql`${a}."likes" DESC, ${a}."rank" DESC, ${tieBreak}`;
+    default:
+      return Prisma.sql`${a}."rank" DESC, ${a}."createdAt" DESC, ${tieBreak}`;
+  }
+}
+
+// Highlighted text around the matches of a page row `p`; ts_headline is slow, so it only runs on
+// the rows of the page.
+function snippetExpression(query: SearchQuery | null): Prisma.Sql {
+  if (!query) return Prisma.sql`''::text`;
+  return Prisma.sql`CASE WHEN p."kind" = 'inventory'
+    THEN ts_headline(${SEARCH_CONFIG}, (
+      SELECT concat_ws(' · ', inv."title", inv."description", ${inventoryTagNames()})
+      FROM "Inventory" inv WHERE inv."id" = p."id"
+    ), query."all", ${HEADLINE_OPTIONS})
+    ELSE ts_headline(${SEARCH_CONFIG}, (
+      SELECT concat_ws(' · ', i."customId", ${itemValueText()})
+      FROM "Item" i WHERE i."id" = p."id"
+    ), query."all", ${HEADLINE_OPTIONS})
+  END`;
+}
+
+function facetSql(params: SearchParams, facet: SearchFacet): Prisma.Sql {
+  const where = filterConditions(params, facet);
+  switch (facet) {
+    case "category":
+      return Prisma.sql`${searchCtes(params)}
+        SELECT s."category" AS "value", NULL AS "label", COUNT(*)::int AS "count"
+        FROM scoped s WHERE ${where}
+        GROUP BY s."category"`;
+    case "tag":
+      return Prisma.sql`${searchCtes(params)}
+        SELECT t."name" AS "value", NULL AS "label", COUNT(*)::int AS "count"
+        FROM scoped s
+        JOIN "InventoryTag" it ON it."inventoryId" = s."inventoryId"
+        JOIN "Tag" t ON t."id" = it."tagId"
+        WHERE ${where}
+        GROUP BY t."name"
+        ORDER BY "count" DESC, t."name"
+        LIMIT ${MAX_FACET_VALUES}`;
+    case "owner":
+      return Prisma.sql`${searchCtes(params)}
+        SELECT u."id" AS "value", coalesce(u."name", u."email") AS "label",
+          COUNT(*)::int AS "count"
+        FROM scoped s JOIN "User" u ON u."id" = s."ownerId"
+        WHERE ${where}
+        GROUP BY u."id"
+        ORDER BY "count" DESC, "label"
+        LIMIT ${MAX_FACET_VALUES}`;
+    case "items": {
+      const whens = ITEM_COUNT_BUCKETS.map(
+        (bucket) => Prisma.sql`WHEN ${bucketCondition(bucket)} THEN ${bucket.key}::text`,
+      );
+      return Prisma.sql`${searchCtes(params)}
+        SELECT CASE ${Prisma.join(whens, " ")} END AS "value", NULL AS "label",
+          COUNT(*)::int AS "count"
+        FROM scoped s WHERE ${where}
+        GROUP BY 1`;
+    }
+  }
+}
+
+/**
+ * Builds the page query, the total count and one count query per facet. Each facet is counted with
+ * the filters of the other facets only, so its own values stay selectable side by side.
+ */
+export function buildSearchSql(params: SearchParams): {
+  page: Prisma.Sql;
+  count: Prisma.Sql;
+  facets: Record<SearchFacet, Prisma.Sql>;
+} {
+  const where = filterConditions(params);
+  const offset = (params.page - 1) * params.pageSize;
+
+  const page = Prisma.sql`${searchCtes(params)}
+    SELECT p."kind", p."id", p."inventoryId", p."rank", p."likes",
+      ${snippetExpression(params.text)} AS "snippet"
+    FROM (
+      SELECT s.* FROM scoped s WHERE ${where}
+      ORDER BY ${orderBy(params.sort, "s")}
+      LIMIT ${params.pageSize} OFFSET ${offset}
+    ) p${params.text ? Prisma.sql`, query` : Prisma.empty}
+    ORDER BY ${orderBy(params.sort, "p")}`;
+
+  const count = Prisma.sql`${searchCtes(params)}
+    SELECT COUNT(*)::int AS "total" FROM scoped s WHERE ${where}`;
+
+  const facets = Object.fromEntries(
+    SEARCH_FACETS.map((facet) => [facet, facetSql(params, facet)]),
+  ) as Record<SearchFacet, Prisma.Sql>;
+
+  return { page, count, facets };
+}
+
+/**
+ * Builds the query for hits after `cursor`, oldest first, for the alerts of saved searches. Hits
+ * are ordered by creation time, kind and id, so a run that stopped inside a millisecond goes on
+ * with the next hit of it. Sort and page of `params` do not apply.
+ */
+export function buildNewHitsSql(
+  params: SearchParams,
+  cursor: NewHitsCursor,
+  limit: number,
+): Prisma.Sql {
+  const after =
+    cursor.kind && cursor.id
+      ? Prisma.sql`(s."createdAt", s."kind", s."id")
+          > (${cursor.createdAt}, ${cursor.kind}, ${cursor.id})`
+      : Prisma.sql`s."createdAt" >= ${cursor.createdAt}`;
+  return Prisma.sql`${searchCtes(params)}
+    SELECT s."kind", s."id", s."inventoryId", s."createdAt",
+      CASE WHEN s."kind" = 'inventory'
+        THEN (SELECT inv."title" FROM "Inventory" inv WHERE inv."id" = s."id")
+        ELSE (SELECT i."customId" FROM "Item" i WHERE i."id" = s."id")
+      END AS "title"
+    FROM scoped s
+    WHERE ${filterConditions(params)} AND ${after}
+    ORDER BY s."createdAt", s."kind", s."id"
+    LIMIT ${limit}`;
+}
+
+/** Splits a ts_headline result into plain and matched segments for the client to highlight. */
+export function splitSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const pattern = new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`, "g");
+  let last = 0;
+  for (const found of snippet.matchAll(pattern)) {
+    const index = found.index ?? 0;
+    if (index > last) {
+      segments.push({ text: snippet.slice(last, index), match: false });
+    }
+    segments.push({ text: found[1], match: true });
+    last = index + found[0].length;
+  }
+  if (last < snippet.length) {
+    segments.push({ text: snippet.slice(last), match: false });
+  }
+  return segments;
+}
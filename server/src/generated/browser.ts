@@ -32,6 +32,11 @@ export type Inventory = Prisma.InventoryModel
  * 
  */
 export type Tag = Prisma.TagModel
+/**
+ * Model TagSynonym
+ * 
+ */
+export type TagSynonym = Prisma.TagSynonymModel
 /**
  * Model InventoryTag
  * 
@@ -47,6 +52,11 @@ export type InventoryWriteAccess = Prisma.InventoryWriteAccessModel
  * 
  */
 export type InventoryField = Prisma.InventoryFieldModel
+/**
+ * Model InventoryFieldOption
+ * 
+ */
+export type InventoryFieldOption = Prisma.InventoryFieldOptionModel
 /**
  * Model Item
  * 
@@ -57,6 +67,21 @@ export type Item = Prisma.ItemModel
  * 
  */
 export type ItemFieldValue = Prisma.ItemFieldValueModel
+/**
+ * Model ItemAttachment
+ * 
+ */
+export type ItemAttachment = Prisma.ItemAttachmentModel
+/**
+ * Model ItemRevision
+ * 
+ */
+export type ItemRevision = Prisma.ItemRevisionModel
+/**
+ * Model ItemCustomIdAlias
+ * 
+ */
+export type ItemCustomIdAlias = Prisma.ItemCustomIdAliasModel
 /**
  * Model ItemLike
  * 
@@ -72,3 +97,18 @@ export type DiscussionPost = Prisma.DiscussionPostModel
  * 
  */
 export type InventoryCustomIdElement = Prisma.InventoryCustomIdElementModel
+/**
+ * Model SavedSearch
+ * 
+ */
+export type SavedSearch = Prisma.SavedSearchModel
+/**
+ * Model SavedSearchAlert
+ * 
+ */
+export type SavedSearchAlert = Prisma.SavedSearchAlertModel
+/**
+ * Model AppSetting
+ * 
+ */
+export type AppSetting = Prisma.AppSettingModel
@@ -32,7 +32,12 @@ export const InventoryFieldType = {
   MULTI_LINE_TEXT: 'MULTI_LINE_TEXT',
   NUMBER: 'NUMBER',
   LINK: 'LINK',
-  BOOLEAN: 'BOOLEAN'
+  BOOLEAN: 'BOOLEAN',
+  DATE: 'DATE',
+  DATETIME: 'DATETIME',
+  SELECT: 'SELECT',
+  MULTI_SELECT: 'MULTI_SELECT',
+  ATTACHMENT: 'ATTACHMENT'
 } as const
 
 export type InventoryFieldType = (typeof InventoryFieldType)[keyof typeof InventoryFieldType]
@@ -46,7 +51,19 @@ export const CustomIdElementType = {
   RANDOM_9_DIGITS: 'RANDOM_9_DIGITS',
   GUID: 'GUID',
   DATETIME: 'DATETIME',
-  SEQUENCE: 'SEQUENCE'
+  SEQUENCE: 'SEQUENCE',
+  FIELD_VALUE: 'FIELD_VALUE',
+  CATEGORY_CODE: 'CATEGORY_CODE',
+  CREATOR_INITIALS: 'CREATOR_INITIALS',
+  CHECK_DIGIT: 'CHECK_DIGIT'
 } as const
 
 export type CustomIdElementType = (typeof CustomIdElementType)[keyof typeof CustomIdElementType]
+
+
+export const CustomIdCheckDigit = {
+  LUHN: 'LUHN',
+  MOD_11: 'MOD_11'
+} as const
+
+export type CustomIdCheckDigit = (typeof CustomIdCheckDigit)[keyof typeof CustomIdCheckDigit]
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.4.1",
   "engineVersion": "55ae170b1ced7fc6ed07a15f110549408c501bb3",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum InventoryCategory {\n  EQUIPMENT\n  FURNITURE\n  BOOK\n  OTHER\n}\n\nenum InventoryFieldType {\n  SINGLE_LINE_TEXT\n  MULTI_LINE_TEXT\n  NUMBER\n  LINK\n  BOOLEAN\n}\n\nenum CustomIdElementType {\n  FIXED_TEXT\n  RANDOM_20_BITS\n  RANDOM_32_BITS\n  RANDOM_6_DIGITS\n  RANDOM_9_DIGITS\n  GUID\n  DATETIME\n  SEQUENCE\n}\n\nmodel User {\n  id           String   @id @default(uuid())\n  email        String   @unique\n  name         String?\n  avatarUrl    String?\n  passwordHash String?\n  googleId     String?  @unique\n  facebookId   String?  @unique\n  githubId     String?  @unique\n  isBlocked    Boolean  @default(false)\n  role         UserRole @default(USER)\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  ownedInventories Inventory[]            @relation(\"InventoryOwner\")\n  writeAccess      InventoryWriteAccess[]\n  items            Item[]                 @relation(\"ItemCreatedBy\")\n  discussionPosts  DiscussionPost[]\n  likes            ItemLike[]\n}\n\nmodel Inventory {\n  id          String            @id @default(uuid())\n  title       String\n  description String?\n  category    InventoryCategory\n  imageUrl    String?\n  isPublic    Boolean           @default(false)\n  version     Int               @default(1)\n  createdAt   DateTime          @default(now())\n  updatedAt   DateTime          @updatedAt\n\n  owner   User   @relation(\"InventoryOwner\", fields: [ownerId], references: [id])\n  ownerId String\n\n  tags             InventoryTag[]\n  writeAccess      InventoryWriteAccess[]\n  fields           InventoryField[]\n  items            Item[]\n  discussion       DiscussionPost[]\n  customIdElements InventoryCustomIdElement[]\n}\n\nmodel Tag {\n  id          String         @id @default(uuid())\n  name        String         @unique\n  createdAt   DateTime       @default(now())\n  inventories InventoryTag[]\n}\n\nmodel InventoryTag {\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  tag         Tag       @relation(fields: [tagId], references: [id])\n  tagId       String\n\n  @@id([inventoryId, tagId])\n}\n\nmodel InventoryWriteAccess {\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  user        User      @relation(fields: [userId], references: [id])\n  userId      String\n\n  @@id([inventoryId, userId])\n}\n\nmodel InventoryField {\n  id          String             @id @default(uuid())\n  inventory   Inventory          @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  type        InventoryFieldType\n  title       String\n  description String?\n  showInTable Boolean            @default(false)\n  orderIndex  Int\n\n  values ItemFieldValue[]\n}\n\nmodel Item {\n  id          String    @id @default(uuid())\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  customId    String\n  version     Int       @default(1)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n\n  createdBy   User   @relation(\"ItemCreatedBy\", fields: [createdById], references: [id])\n  createdById String\n\n  fieldValues ItemFieldValue[]\n  likes       ItemLike[]\n\n  @@unique([inventoryId, customId])\n}\n\nmodel ItemFieldValue {\n  id      String         @id @default(uuid())\n  item    Item           @relation(fields: [itemId], references: [id])\n  itemId  String\n  field   InventoryField @relation(fields: [fieldId], references: [id])\n  fieldId String\n\n  valueString  String?\n  valueNumber  Float?\n  valueBoolean Boolean?\n  valueLink    String?\n}\n\nmodel ItemLike {\n  item      Item     @relation(fields: [itemId], references: [id])\n  itemId    String\n  user      User     @relation(fields: [userId], references: [id])\n  userId    String\n  createdAt DateTime @default(now())\n\n  @@id([itemId, userId])\n}\n\nmodel DiscussionPost {\n  id          String    @id @default(uuid())\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  author      User      @relation(fields: [authorId], references: [id])\n  authorId    String\n  content     String\n  createdAt   DateTime  @default(now())\n}\n\nmodel InventoryCustomIdElement {\n  id          String              @id @default(uuid())\n  inventory   Inventory           @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  type        CustomIdElementType\n  orderIndex  Int\n  fixedText   String?\n  numberWidth Int?\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum InventoryCategory {\n  EQUIPMENT\n  FURNITURE\n  BOOK\n  OTHER\n}\n\nenum InventoryFieldType {\n  SINGLE_LINE_TEXT\n  MULTI_LINE_TEXT\n  NUMBER\n  LINK\n  BOOLEAN\n  DATE\n  DATETIME\n  SELECT\n  MULTI_SELECT\n  ATTACHMENT\n}\n\nenum CustomIdElementType {\n  FIXED_TEXT\n  RANDOM_20_BITS\n  RANDOM_32_BITS\n  RANDOM_6_DIGITS\n  RANDOM_9_DIGITS\n  GUID\n  DATETIME\n  SEQUENCE\n  FIELD_VALUE\n  CATEGORY_CODE\n  CREATOR_INITIALS\n  CHECK_DIGIT\n}\n\nenum CustomIdCheckDigit {\n  LUHN\n  MOD_11\n}\n\nmodel User {\n  id           String   @id @default(uuid())\n  email        String   @unique\n  name         String?\n  avatarUrl    String?\n  passwordHash String?\n  googleId     String?  @unique\n  facebookId   String?  @unique\n  githubId     String?  @unique\n  isBlocked    Boolean  @default(false)\n  role         UserRole @default(USER)\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  ownedInventories Inventory[]            @relation(\"InventoryOwner\")\n  writeAccess      InventoryWriteAccess[]\n  items            Item[]                 @relation(\"ItemCreatedBy\")\n  discussionPosts  DiscussionPost[]\n  likes            ItemLike[]\n  itemRevisions    ItemRevision[]         @relation(\"ItemRevisionAuthor\")\n  savedSearches    SavedSearch[]\n}\n\nmodel Inventory {\n  id                     String            @id @default(uuid())\n  title                  String\n  description            String?\n  category               InventoryCategory\n  imageUrl               String?\n  isPublic               Boolean           @default(false)\n  fieldLimits            Json?\n  // Archived inventories are read-only and hidden from the home page and search.\n  archivedAt             DateTime?\n  // Value the next SEQUENCE custom ID element gets; taken in the same transaction as the item.\n  nextSequence           Int               @default(1)\n  // Skips the check of manually entered custom IDs against the ID format.\n  allowFreeFormCustomIds Boolean           @default(false)\n  version                Int               @default(1)\n  createdAt              DateTime          @default(now())\n  updatedAt              DateTime          @updatedAt\n\n  owner   User   @relation(\"InventoryOwner\", fields: [ownerId], references: [id])\n  ownerId String\n\n  tags             InventoryTag[]\n  writeAccess      InventoryWriteAccess[]\n  fields           InventoryField[]\n  items            Item[]\n  discussion       DiscussionPost[]\n  customIdElements InventoryCustomIdElement[]\n}\n\nmodel Tag {\n  id          String         @id @default(uuid())\n  name        String         @unique\n  createdAt   DateTime       @default(now())\n  inventories InventoryTag[]\n  synonyms    TagSynonym[]\n}\n\n// Another name of a tag. Tags saved under it become the tag itself, and search finds the tag by it.\nmodel TagSynonym {\n  id        String   @id @default(uuid())\n  tag       Tag      @relation(fields: [tagId], references: [id])\n  tagId     String\n  name      String   @unique\n  createdAt DateTime @default(now())\n\n  @@index([tagId])\n}\n\nmodel InventoryTag {\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  tag         Tag       @relation(fields: [tagId], references: [id])\n  tagId       String\n\n  @@id([inventoryId, tagId])\n}\n\nmodel InventoryWriteAccess {\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  user        User      @relation(fields: [userId], references: [id])\n  userId      String\n\n  @@id([inventoryId, userId])\n}\n\nmodel InventoryField {\n  id          String             @id @default(uuid())\n  inventory   Inventory          @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  type        InventoryFieldType\n  title       String\n  description String?\n  showInTable Boolean            @default(false)\n  orderIndex  Int\n\n  required       Boolean  @default(false)\n  minValue       Float?\n  maxValue       Float?\n  maxLength      Int?\n  pattern        String?\n  allowedSchemes String[]\n\n  values           ItemFieldValue[]\n  options          InventoryFieldOption[]\n  attachments      ItemAttachment[]\n  customIdElements InventoryCustomIdElement[]\n}\n\nmodel InventoryFieldOption {\n  id         String         @id @default(uuid())\n  field      InventoryField @relation(fields: [fieldId], references: [id])\n  fieldId    String\n  label      String\n  color      String?\n  orderIndex Int\n}\n\nmodel Item {\n  id          String    @id @default(uuid())\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  customId    String\n  version     Int       @default(1)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  // Set while the item is in the trash; purged after TRASH_RETENTION_DAYS.\n  deletedAt   DateTime?\n\n  createdBy   User   @relation(\"ItemCreatedBy\", fields: [createdById], references: [id])\n  createdById String\n\n  fieldValues     ItemFieldValue[]\n  likes           ItemLike[]\n  attachments     ItemAttachment[]\n  revisions       ItemRevision[]\n  customIdAliases ItemCustomIdAlias[]\n\n  @@unique([inventoryId, customId])\n  @@index([inventoryId, deletedAt])\n}\n\nmodel ItemFieldValue {\n  id      String         @id @default(uuid())\n  item    Item           @relation(fields: [itemId], references: [id])\n  itemId  String\n  field   InventoryField @relation(fields: [fieldId], references: [id])\n  fieldId String\n\n  valueString  String?\n  valueNumber  Float?\n  valueBoolean Boolean?\n  valueLink    String?\n  valueDate    DateTime?\n  valueOptions String[]\n\n  @@index([itemId, fieldId])\n  @@index([fieldId])\n}\n\nmodel ItemAttachment {\n  id         String         @id @default(uuid())\n  item       Item           @relation(fields: [itemId], references: [id])\n  itemId     String\n  field      InventoryField @relation(fields: [fieldId], references: [id])\n  fieldId    String\n  storageKey String         @unique\n  fileName   String\n  mimeType   String\n  size       Int\n  createdAt  DateTime       @default(now())\n\n  @@index([itemId, fieldId])\n}\n\n// One row per saved change of an item. `changes` holds the old and new value of every field that\n// changed; a revert is recorded as a new revision that points at the reverted one.\nmodel ItemRevision {\n  id             String   @id @default(uuid())\n  item           Item     @relation(fields: [itemId], references: [id])\n  itemId         String\n  version        Int\n  author         User?    @relation(\"ItemRevisionAuthor\", fields: [authorId], references: [id], onDelete: SetNull)\n  authorId       String?\n  customIdBefore String?\n  customIdAfter  String?\n  changes        Json\n  revertOfId     String?\n  createdAt      DateTime @default(now())\n\n  @@index([itemId, createdAt])\n}\n\n// Custom IDs an item had before a bulk re-ID, so old labels can still be looked up.\nmodel ItemCustomIdAlias {\n  id          String   @id @default(uuid())\n  item        Item     @relation(fields: [itemId], references: [id])\n  itemId      String\n  inventoryId String\n  customId    String\n  createdAt   DateTime @default(now())\n\n  @@index([inventoryId, customId])\n  @@index([itemId])\n}\n\nmodel ItemLike {\n  item      Item     @relation(fields: [itemId], references: [id])\n  itemId    String\n  user      User     @relation(fields: [userId], references: [id])\n  userId    String\n  createdAt DateTime @default(now())\n\n  @@id([itemId, userId])\n}\n\nmodel DiscussionPost {\n  id          String    @id @default(uuid())\n  inventory   Inventory @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  author      User      @relation(fields: [authorId], references: [id])\n  authorId    String\n  content     String\n  createdAt   DateTime  @default(now())\n}\n\nmodel InventoryCustomIdElement {\n  id          String              @id @default(uuid())\n  inventory   Inventory           @relation(fields: [inventoryId], references: [id])\n  inventoryId String\n  type        CustomIdElementType\n  orderIndex  Int\n  fixedText   String?\n  // Padding of numbers; for FIELD_VALUE the maximum length of the value.\n  numberWidth Int?\n  // FIELD_VALUE: the field whose value goes into the ID.\n  field       InventoryField?     @relation(fields: [fieldId], references: [id])\n  fieldId     String?\n  upperCase   Boolean             @default(false)\n  checkDigit  CustomIdCheckDigit?\n  // DATETIME: token pattern such as YYMM and the IANA time zone; null means YYYYMMDDTHHmmss in UTC.\n  dateFormat  String?\n  timeZone    String?\n}\n\n// A search query and its facet filters saved under a name. With `notify` the alert job records\n// inventories and items created since `lastCheckedAt` that match it.\nmodel SavedSearch {\n  id              String    @id @default(uuid())\n  user            User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  userId          String\n  name            String\n  query           String\n  filters         Json\n  notify          Boolean   @default(false)\n  lastCheckedAt   DateTime?\n  // Kind and id of the last hit taken when a check stopped at its cap; hits created in the same\n  // millisecond as `lastCheckedAt` are then taken after this one.\n  lastCheckedKind String?\n  lastCheckedId   String?\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime  @updatedAt\n\n  alerts SavedSearchAlert[]\n\n  @@unique([userId, name])\n}\n\n// A new match of a saved search. `targetId` is an inventory or item id, kept without a foreign\n// key and deleted together with its inventory or item; `title` is the inventory title or item\n// custom ID at the time of the match.\nmodel SavedSearchAlert {\n  id            String      @id @default(uuid())\n  savedSearch   SavedSearch @relation(fields: [savedSearchId], references: [id], onDelete: Cascade)\n  savedSearchId String\n  kind          String\n  targetId      String\n  inventoryId   String\n  title         String\n  readAt        DateTime?\n  createdAt     DateTime    @default(now())\n\n  @@unique([savedSearchId, kind, targetId])\n  @@index([savedSearchId, readAt])\n  @@index([inventoryId])\n  @@index([kind, targetId])\n}\n\nmodel AppSetting {\n  key       String   @id\n  value     Json\n  updatedAt DateTime @updatedAt\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -32,10 +32,10 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"googleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"facebookId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"githubId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isBlocked\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ownedInventories\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryOwner\"},{\"name\":\"writeAccess\",\"kind\":\"object\",\"type\":\"InventoryWriteAccess\",\"relationName\":\"InventoryWriteAccessToUser\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemCreatedBy\"},{\"name\":\"discussionPosts\",\"kind\":\"object\",\"type\":\"DiscussionPost\",\"relationName\":\"DiscussionPostToUser\"},{\"name\":\"likes\",\"kind\":\"object\",\"type\":\"ItemLike\",\"relationName\":\"ItemLikeToUser\"}],\"dbName\":null},\"Inventory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"InventoryCategory\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPublic\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryOwner\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"InventoryTag\",\"relationName\":\"InventoryToInventoryTag\"},{\"name\":\"writeAccess\",\"kind\":\"object\",\"type\":\"InventoryWriteAccess\",\"relationName\":\"InventoryToInventoryWriteAccess\"},{\"name\":\"fields\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryToInventoryField\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"InventoryToItem\"},{\"name\":\"discussion\",\"kind\":\"object\",\"type\":\"DiscussionPost\",\"relationName\":\"DiscussionPostToInventory\"},{\"name\":\"customIdElements\",\"kind\":\"object\",\"type\":\"InventoryCustomIdElement\",\"relationName\":\"InventoryToInventoryCustomIdElement\"}],\"dbName\":null},\"Tag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"inventories\",\"kind\":\"object\",\"type\":\"InventoryTag\",\"relationName\":\"InventoryTagToTag\"}],\"dbName\":null},\"InventoryTag\":{\"fields\":[{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryTag\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"InventoryTagToTag\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"InventoryWriteAccess\":{\"fields\":[{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryWriteAccess\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryWriteAccessToUser\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"InventoryField\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryField\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"InventoryFieldType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"showInTable\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"values\",\"kind\":\"object\",\"type\":\"ItemFieldValue\",\"relationName\":\"InventoryFieldToItemFieldValue\"}],\"dbName\":null},\"Item\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToItem\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ItemCreatedBy\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fieldValues\",\"kind\":\"object\",\"type\":\"ItemFieldValue\",\"relationName\":\"ItemToItemFieldValue\"},{\"name\":\"likes\",\"kind\":\"object\",\"type\":\"ItemLike\",\"relationName\":\"ItemToItemLike\"}],\"dbName\":null},\"ItemFieldValue\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemFieldValue\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"field\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryFieldToItemFieldValue\"},{\"name\":\"fieldId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueString\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueNumber\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"valueBoolean\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"valueLink\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"ItemLike\":{\"fields\":[{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemLike\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ItemLikeToUser\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"DiscussionPost\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"DiscussionPostToInventory\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"author\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DiscussionPostToUser\"},{\"name\":\"authorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"InventoryCustomIdElement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryCustomIdElement\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CustomIdElementType\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fixedText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"numberWidth\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"googleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"facebookId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"githubId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isBlocked\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ownedInventories\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryOwner\"},{\"name\":\"writeAccess\",\"kind\":\"object\",\"type\":\"InventoryWriteAccess\",\"relationName\":\"InventoryWriteAccessToUser\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemCreatedBy\"},{\"name\":\"discussionPosts\",\"kind\":\"object\",\"type\":\"DiscussionPost\",\"relationName\":\"DiscussionPostToUser\"},{\"name\":\"likes\",\"kind\":\"object\",\"type\":\"ItemLike\",\"relationName\":\"ItemLikeToUser\"},{\"name\":\"itemRevisions\",\"kind\":\"object\",\"type\":\"ItemRevision\",\"relationName\":\"ItemRevisionAuthor\"},{\"name\":\"savedSearches\",\"kind\":\"object\",\"type\":\"SavedSearch\",\"relationName\":\"SavedSearchToUser\"}],\"dbName\":null},\"Inventory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"InventoryCategory\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPublic\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"fieldLimits\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"archivedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nextSequence\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"allowFreeFormCustomIds\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryOwner\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"InventoryTag\",\"relationName\":\"InventoryToInventoryTag\"},{\"name\":\"writeAccess\",\"kind\":\"object\",\"type\":\"InventoryWriteAccess\",\"relationName\":\"InventoryToInventoryWriteAccess\"},{\"name\":\"fields\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryToInventoryField\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"InventoryToItem\"},{\"name\":\"discussion\",\"kind\":\"object\",\"type\":\"DiscussionPost\",\"relationName\":\"DiscussionPostToInventory\"},{\"name\":\"customIdElements\",\"kind\":\"object\",\"type\":\"InventoryCustomIdElement\",\"relationName\":\"InventoryToInventoryCustomIdElement\"}],\"dbName\":null},\"Tag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"inventories\",\"kind\":\"object\",\"type\":\"InventoryTag\",\"relationName\":\"InventoryTagToTag\"},{\"name\":\"synonyms\",\"kind\":\"object\",\"type\":\"TagSynonym\",\"relationName\":\"TagToTagSynonym\"}],\"dbName\":null},\"TagSynonym\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTagSynonym\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"InventoryTag\":{\"fields\":[{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryTag\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"InventoryTagToTag\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"InventoryWriteAccess\":{\"fields\":[{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryWriteAccess\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryWriteAccessToUser\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"InventoryField\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryField\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"InventoryFieldType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"showInTable\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"required\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"minValue\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"maxValue\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"maxLength\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pattern\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allowedSchemes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"values\",\"kind\":\"object\",\"type\":\"ItemFieldValue\",\"relationName\":\"InventoryFieldToItemFieldValue\"},{\"name\":\"options\",\"kind\":\"object\",\"type\":\"InventoryFieldOption\",\"relationName\":\"InventoryFieldToInventoryFieldOption\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"ItemAttachment\",\"relationName\":\"InventoryFieldToItemAttachment\"},{\"name\":\"customIdElements\",\"kind\":\"object\",\"type\":\"InventoryCustomIdElement\",\"relationName\":\"InventoryCustomIdElementToInventoryField\"}],\"dbName\":null},\"InventoryFieldOption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"field\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryFieldToInventoryFieldOption\"},{\"name\":\"fieldId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"Item\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToItem\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ItemCreatedBy\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fieldValues\",\"kind\":\"object\",\"type\":\"ItemFieldValue\",\"relationName\":\"ItemToItemFieldValue\"},{\"name\":\"likes\",\"kind\":\"object\",\"type\":\"ItemLike\",\"relationName\":\"ItemToItemLike\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"ItemAttachment\",\"relationName\":\"ItemToItemAttachment\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"ItemRevision\",\"relationName\":\"ItemToItemRevision\"},{\"name\":\"customIdAliases\",\"kind\":\"object\",\"type\":\"ItemCustomIdAlias\",\"relationName\":\"ItemToItemCustomIdAlias\"}],\"dbName\":null},\"ItemFieldValue\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemFieldValue\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"field\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryFieldToItemFieldValue\"},{\"name\":\"fieldId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueString\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueNumber\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"valueBoolean\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"valueLink\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"valueOptions\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"ItemAttachment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemAttachment\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"field\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryFieldToItemAttachment\"},{\"name\":\"fieldId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mimeType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ItemRevision\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemRevision\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"author\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ItemRevisionAuthor\"},{\"name\":\"authorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customIdBefore\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customIdAfter\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"changes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"revertOfId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ItemCustomIdAlias\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemCustomIdAlias\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ItemLike\":{\"fields\":[{\"name\":\"item\",\"kind\":\"object\",\"type\":\"Item\",\"relationName\":\"ItemToItemLike\"},{\"name\":\"itemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ItemLikeToUser\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"DiscussionPost\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"DiscussionPostToInventory\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"author\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DiscussionPostToUser\"},{\"name\":\"authorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"InventoryCustomIdElement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventory\",\"kind\":\"object\",\"type\":\"Inventory\",\"relationName\":\"InventoryToInventoryCustomIdElement\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CustomIdElementType\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fixedText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"numberWidth\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"field\",\"kind\":\"object\",\"type\":\"InventoryField\",\"relationName\":\"InventoryCustomIdElementToInventoryField\"},{\"name\":\"fieldId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"upperCase\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"checkDigit\",\"kind\":\"enum\",\"type\":\"CustomIdCheckDigit\"},{\"name\":\"dateFormat\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timeZone\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"SavedSearch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SavedSearchToUser\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"filters\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"notify\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"lastCheckedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastCheckedKind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastCheckedId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"alerts\",\"kind\":\"object\",\"type\":\"SavedSearchAlert\",\"relationName\":\"SavedSearchToSavedSearchAlert\"}],\"dbName\":null},\"SavedSearchAlert\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"savedSearch\",\"kind\":\"object\",\"type\":\"SavedSearch\",\"relationName\":\"SavedSearchToSavedSearchAlert\"},{\"name\":\"savedSearchId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AppSetting\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 config.parameterizationSchema = {
-  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"owner\",\"inventory\",\"inventories\",\"_count\",\"tag\",\"tags\",\"user\",\"writeAccess\",\"createdBy\",\"fieldValues\",\"item\",\"likes\",\"field\",\"values\",\"fields\",\"items\",\"author\",\"discussion\",\"customIdElements\",\"ownedInventories\",\"discussionPosts\",\"User.findUnique\",\"User.findUniqueOrThrow\",\"User.findFirst\",\"User.findFirstOrThrow\",\"User.findMany\",\"data\",\"User.createOne\",\"User.createMany\",\"User.createManyAndReturn\",\"User.updateOne\",\"User.updateMany\",\"User.updateManyAndReturn\",\"create\",\"update\",\"User.upsertOne\",\"User.deleteOne\",\"User.deleteMany\",\"having\",\"_min\",\"_max\",\"User.groupBy\",\"User.aggregate\",\"Inventory.findUnique\",\"Inventory.findUniqueOrThrow\",\"Inventory.findFirst\",\"Inventory.findFirstOrThrow\",\"Inventory.findMany\",\"Inventory.createOne\",\"Inventory.createMany\",\"Inventory.createManyAndReturn\",\"Inventory.updateOne\",\"Inventory.updateMany\",\"Inventory.updateManyAndReturn\",\"Inventory.upsertOne\",\"Inventory.deleteOne\",\"Inventory.deleteMany\",\"_avg\",\"_sum\",\"Inventory.groupBy\",\"Inventory.aggregate\",\"Tag.findUnique\",\"Tag.findUniqueOrThrow\",\"Tag.findFirst\",\"Tag.findFirstOrThrow\",\"Tag.findMany\",\"Tag.createOne\",\"Tag.createMany\",\"Tag.createManyAndReturn\",\"Tag.updateOne\",\"Tag.updateMany\",\"Tag.updateManyAndReturn\",\"Tag.upsertOne\",\"Tag.deleteOne\",\"Tag.deleteMany\",\"Tag.groupBy\",\"Tag.aggregate\",\"InventoryTag.findUnique\",\"InventoryTag.findUniqueOrThrow\",\"InventoryTag.findFirst\",\"InventoryTag.findFirstOrThrow\",\"InventoryTag.findMany\",\"InventoryTag.createOne\",\"InventoryTag.createMany\",\"InventoryTag.createManyAndReturn\",\"InventoryTag.updateOne\",\"InventoryTag.updateMany\",\"InventoryTag.updateManyAndReturn\",\"InventoryTag.upsertOne\",\"InventoryTag.deleteOne\",\"InventoryTag.deleteMany\",\"InventoryTag.groupBy\",\"InventoryTag.aggregate\",\"InventoryWriteAccess.findUnique\",\"InventoryWriteAccess.findUniqueOrThrow\",\"InventoryWriteAccess.findFirst\",\"InventoryWriteAccess.findFirstOrThrow\",\"InventoryWriteAccess.findMany\",\"InventoryWriteAccess.createOne\",\"InventoryWriteAccess.createMany\",\"InventoryWriteAccess.createManyAndReturn\",\"InventoryWriteAccess.updateOne\",\"InventoryWriteAccess.updateMany\",\"InventoryWriteAccess.updateManyAndReturn\",\"InventoryWriteAccess.upsertOne\",\"InventoryWriteAccess.deleteOne\",\"InventoryWriteAccess.deleteMany\",\"InventoryWriteAccess.groupBy\",\"InventoryWriteAccess.aggregate\",\"InventoryField.findUnique\",\"InventoryField.findUniqueOrThrow\",\"InventoryField.findFirst\",\"InventoryField.findFirstOrThrow\",\"InventoryField.findMany\",\"InventoryField.createOne\",\"InventoryField.createMany\",\"InventoryField.createManyAndReturn\",\"InventoryField.updateOne\",\"InventoryField.updateMany\",\"InventoryField.updateManyAndReturn\",\"InventoryField.upsertOne\",\"InventoryField.deleteOne\",\"InventoryField.deleteMany\",\"InventoryField.groupBy\",\"InventoryField.aggregate\",\"Item.findUnique\",\"Item.findUniqueOrThrow\",\"Item.findFirst\",\"Item.findFirstOrThrow\",\"Item.findMany\",\"Item.createOne\",\"Item.createMany\",\"Item.createManyAndReturn\",\"Item.updateOne\",\"Item.updateMany\",\"Item.updateManyAndReturn\",\"Item.upsertOne\",\"Item.deleteOne\",\"Item.deleteMany\",\"Item.groupBy\",\"Item.aggregate\",\"ItemFieldValue.findUnique\",\"ItemFieldValue.findUniqueOrThrow\",\"ItemFieldValue.findFirst\",\"ItemFieldValue.findFirstOrThrow\",\"ItemFieldValue.findMany\",\"ItemFieldValue.createOne\",\"ItemFieldValue.createMany\",\"ItemFieldValue.createManyAndReturn\",\"ItemFieldValue.updateOne\",\"ItemFieldValue.updateMany\",\"ItemFieldValue.updateManyAndReturn\",\"ItemFieldValue.upsertOne\",\"ItemFieldValue.deleteOne\",\"ItemFieldValue.deleteMany\",\"ItemFieldValue.groupBy\",\"ItemFieldValue.aggregate\",\"ItemLike.findUnique\",\"ItemLike.findUniqueOrThrow\",\"ItemLike.findFirst\",\"ItemLike.findFirstOrThrow\",\"ItemLike.findMany\",\"ItemLike.createOne\",\"ItemLike.createMany\",\"ItemLike.createManyAndReturn\",\"ItemLike.updateOne\",\"ItemLike.updateMany\",\"ItemLike.updateManyAndReturn\",\"ItemLike.upsertOne\",\"ItemLike.deleteOne\",\"ItemLike.deleteMany\",\"ItemLike.groupBy\",\"ItemLike.aggregate\",\"DiscussionPost.findUnique\",\"DiscussionPost.findUniqueOrThrow\",\"DiscussionPost.findFirst\",\"DiscussionPost.findFirstOrThrow\",\"DiscussionPost.findMany\",\"DiscussionPost.createOne\",\"DiscussionPost.createMany\",\"DiscussionPost.createManyAndReturn\",\"DiscussionPost.updateOne\",\"DiscussionPost.updateMany\",\"DiscussionPost.updateManyAndReturn\",\"DiscussionPost.upsertOne\",\"DiscussionPost.deleteOne\",\"DiscussionPost.deleteMany\",\"DiscussionPost.groupBy\",\"DiscussionPost.aggregate\",\"InventoryCustomIdElement.findUnique\",\"InventoryCustomIdElement.findUniqueOrThrow\",\"InventoryCustomIdElement.findFirst\",\"InventoryCustomIdElement.findFirstOrThrow\",\"InventoryCustomIdElement.findMany\",\"InventoryCustomIdElement.createOne\",\"InventoryCustomIdElement.createMany\",\"InventoryCustomIdElement.createManyAndReturn\",\"InventoryCustomIdElement.updateOne\",\"InventoryCustomIdElement.updateMany\",\"InventoryCustomIdElement.updateManyAndReturn\",\"InventoryCustomIdElement.upsertOne\",\"InventoryCustomIdElement.deleteOne\",\"InventoryCustomIdElement.deleteMany\",\"InventoryCustomIdElement.groupBy\",\"InventoryCustomIdElement.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"inventoryId\",\"CustomIdElementType\",\"type\",\"orderIndex\",\"fixedText\",\"numberWidth\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"authorId\",\"content\",\"createdAt\",\"itemId\",\"userId\",\"fieldId\",\"valueString\",\"valueNumber\",\"valueBoolean\",\"valueLink\",\"customId\",\"version\",\"updatedAt\",\"createdById\",\"InventoryFieldType\",\"title\",\"description\",\"showInTable\",\"tagId\",\"name\",\"every\",\"some\",\"none\",\"InventoryCategory\",\"category\",\"imageUrl\",\"isPublic\",\"ownerId\",\"email\",\"avatarUrl\",\"passwordHash\",\"googleId\",\"facebookId\",\"githubId\",\"isBlocked\",\"UserRole\",\"role\",\"inventoryId_customId\",\"itemId_userId\",\"inventoryId_userId\",\"inventoryId_tagId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
-  graph: "iAZosAEUCgAA6wIAIA4AAO4CACASAADsAgAgFgAA6gIAIBcAAO0CACDQAQAA5gIAMNEBAAA9ABDSAQAA5gIAMNMBAQAAAAHnAUAA3AIAIfEBQADcAgAh-AEBAOcCACGBAgEAAAABggIBAOcCACGDAgEA5wIAIYQCAQAAAAGFAgEAAAABhgIBAAAAAYcCIADoAgAhiQIAAOkCiQIiAQAAAAEAIBQDAAD1AgAgCAAA3QIAIAoAAOsCACARAACJAwAgEgAA7AIAIBQAAO0CACAVAACKAwAg0AEAAIcDADDRAQAAAwAQ0gEAAIcDADDTAQEA2wIAIecBQADcAgAh8AECAPECACHxAUAA3AIAIfQBAQDbAgAh9QEBAOcCACH9AQAAiAP9ASL-AQEA5wIAIf8BIADoAgAhgAIBANsCACEJAwAAqAUAIAgAAIoEACAKAACjBQAgEQAArQUAIBIAAKQFACAUAAClBQAgFQAArgUAIPUBAACLAwAg_gEAAIsDACAUAwAA9QIAIAgAAN0CACAKAADrAgAgEQAAiQMAIBIAAOwCACAUAADtAgAgFQAAigMAINABAACHAwAw0QEAAAMAENIBAACHAwAw0wEBAAAAAecBQADcAgAh8AECAPECACHxAUAA3AIAIfQBAQDbAgAh9QEBAOcCACH9AQAAiAP9ASL-AQEA5wIAIf8BIADoAgAhgAIBANsCACEDAAAAAwAgAQAABAAwAgAABQAgBwQAAPMCACAHAACGAwAg0AEAAIUDADDRAQAABwAQ0gEAAIUDADDUAQEA2wIAIfcBAQDbAgAhAgQAAKcFACAHAACsBQAgCAQAAPMCACAHAACGAwAg0AEAAIUDADDRAQAABwAQ0gEAAIUDADDUAQEA2wIAIfcBAQDbAgAhjQIAAIQDACADAAAABwAgAQAACAAwAgAACQAgAwAAAAcAIAEAAAgAMAIAAAkAIAEAAAAHACAHBAAA8wIAIAkAAPUCACDQAQAAgwMAMNEBAAANABDSAQAAgwMAMNQBAQDbAgAh6QEBANsCACECBAAApwUAIAkAAKgFACAIBAAA8wIAIAkAAPUCACDQAQAAgwMAMNEBAAANABDSAQAAgwMAMNQBAQDbAgAh6QEBANsCACGMAgAAggMAIAMAAAANACABAAAOADACAAAPACAMBAAA8wIAIBAAAPgCACDQAQAAgAMAMNEBAAARABDSAQAAgAMAMNMBAQDbAgAh1AEBANsCACHWAQAAgQP0ASLXAQIA8QIAIfQBAQDbAgAh9QEBAOcCACH2ASAA6AIAIQMEAACnBQAgEAAAqQUAIPUBAACLAwAgDAQAAPMCACAQAAD4AgAg0AEAAIADADDRAQAAEQAQ0gEAAIADADDTAQEAAAAB1AEBANsCACHWAQAAgQP0ASLXAQIA8QIAIfQBAQDbAgAh9QEBAOcCACH2ASAA6AIAIQMAAAARACABAAASADACAAATACAMDQAA-wIAIA8AAP8CACDQAQAA_AIAMNEBAAAVABDSAQAA_AIAMNMBAQDbAgAh6AEBANsCACHqAQEA2wIAIesBAQDnAgAh7AEIAP0CACHtASAA_gIAIe4BAQDnAgAhBg0AAKoFACAPAACrBQAg6wEAAIsDACDsAQAAiwMAIO0BAACLAwAg7gEAAIsDACAMDQAA-wIAIA8AAP8CACDQAQAA_AIAMNEBAAAVABDSAQAA_AIAMNMBAQAAAAHoAQEA2wIAIeoBAQDbAgAh6wEBAOcCACHsAQgA_QIAIe0BIAD-AgAh7gEBAOcCACEDAAAAFQAgAQAAFgAwAgAAFwAgAwAAABUAIAEAABYAMAIAABcAIAgJAAD1AgAgDQAA-wIAINABAAD6AgAw0QEAABoAENIBAAD6AgAw5wFAANwCACHoAQEA2wIAIekBAQDbAgAhAgkAAKgFACANAACqBQAgCQkAAPUCACANAAD7AgAg0AEAAPoCADDRAQAAGgAQ0gEAAPoCADDnAUAA3AIAIegBAQDbAgAh6QEBANsCACGLAgAA-QIAIAMAAAAaACABAAAbADACAAAcACABAAAAFQAgAQAAABoAIAEAAAAVACAOBAAA8wIAIAsAAPUCACAMAAD4AgAgDgAA7gIAINABAAD3AgAw0QEAACEAENIBAAD3AgAw0wEBANsCACHUAQEA2wIAIecBQADcAgAh7wEBANsCACHwAQIA8QIAIfEBQADcAgAh8gEBANsCACEEBAAApwUAIAsAAKgFACAMAACpBQAgDgAApgUAIA8EAADzAgAgCwAA9QIAIAwAAPgCACAOAADuAgAg0AEAAPcCADDRAQAAIQAQ0gEAAPcCADDTAQEAAAAB1AEBANsCACHnAUAA3AIAIe8BAQDbAgAh8AECAPECACHxAUAA3AIAIfIBAQDbAgAhigIAAPYCACADAAAAIQAgAQAAIgAwAgAAIwAgCgQAAPMCACATAAD1AgAg0AEAAPQCADDRAQAAJQAQ0gEAAPQCADDTAQEA2wIAIdQBAQDbAgAh5QEBANsCACHmAQEA2wIAIecBQADcAgAhAgQAAKcFACATAACoBQAgCgQAAPMCACATAAD1AgAg0AEAAPQCADDRAQAAJQAQ0gEAAPQCADDTAQEAAAAB1AEBANsCACHlAQEA2wIAIeYBAQDbAgAh5wFAANwCACEDAAAAJQAgAQAAJgAwAgAAJwAgCgQAAPMCACDQAQAA7wIAMNEBAAApABDSAQAA7wIAMNMBAQDbAgAh1AEBANsCACHWAQAA8ALWASLXAQIA8QIAIdgBAQDnAgAh2QECAPICACEDBAAApwUAINgBAACLAwAg2QEAAIsDACAKBAAA8wIAINABAADvAgAw0QEAACkAENIBAADvAgAw0wEBAAAAAdQBAQDbAgAh1gEAAPAC1gEi1wECAPECACHYAQEA5wIAIdkBAgDyAgAhAwAAACkAIAEAACoAMAIAACsAIAEAAAAHACABAAAADQAgAQAAABEAIAEAAAAhACABAAAAJQAgAQAAACkAIAMAAAANACABAAAOADACAAAPACADAAAAIQAgAQAAIgAwAgAAIwAgAwAAACUAIAEAACYAMAIAACcAIAMAAAAaACABAAAbADACAAAcACABAAAAAwAgAQAAAA0AIAEAAAAhACABAAAAJQAgAQAAABoAIAEAAAABACAUCgAA6wIAIA4AAO4CACASAADsAgAgFgAA6gIAIBcAAO0CACDQAQAA5gIAMNEBAAA9ABDSAQAA5gIAMNMBAQDbAgAh5wFAANwCACHxAUAA3AIAIfgBAQDnAgAhgQIBANsCACGCAgEA5wIAIYMCAQDnAgAhhAIBAOcCACGFAgEA5wIAIYYCAQDnAgAhhwIgAOgCACGJAgAA6QKJAiILCgAAowUAIA4AAKYFACASAACkBQAgFgAAogUAIBcAAKUFACD4AQAAiwMAIIICAACLAwAggwIAAIsDACCEAgAAiwMAIIUCAACLAwAghgIAAIsDACADAAAAPQAgAQAAPgAwAgAAAQAgAwAAAD0AIAEAAD4AMAIAAAEAIAMAAAA9ACABAAA-ADACAAABACARCgAAngUAIA4AAKEFACASAACfBQAgFgAAnQUAIBcAAKAFACDTAQEAAAAB5wFAAAAAAfEBQAAAAAH4AQEAAAABgQIBAAAAAYICAQAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAgEAAAABhwIgAAAAAYkCAAAAiQICAR0AAEIAIAzTAQEAAAAB5wFAAAAAAfEBQAAAAAH4AQEAAAABgQIBAAAAAYICAQAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAgEAAAABhwIgAAAAAYkCAAAAiQICAR0AAEQAMAEdAABEADARCgAA6QQAIA4AAOwEACASAADqBAAgFgAA6AQAIBcAAOsEACDTAQEAkQMAIecBQACbAwAh8QFAAJsDACH4AQEAlAMAIYECAQCRAwAhggIBAJQDACGDAgEAlAMAIYQCAQCUAwAhhQIBAJQDACGGAgEAlAMAIYcCIADdAwAhiQIAAOcEiQIiAgAAAAEAIB0AAEcAIAzTAQEAkQMAIecBQACbAwAh8QFAAJsDACH4AQEAlAMAIYECAQCRAwAhggIBAJQDACGDAgEAlAMAIYQCAQCUAwAhhQIBAJQDACGGAgEAlAMAIYcCIADdAwAhiQIAAOcEiQIiAgAAAD0AIB0AAEkAIAIAAAA9ACAdAABJACADAAAAAQAgJAAAQgAgJQAARwAgAQAAAAEAIAEAAAA9ACAJBgAA5AQAICoAAOYEACArAADlBAAg-AEAAIsDACCCAgAAiwMAIIMCAACLAwAghAIAAIsDACCFAgAAiwMAIIYCAACLAwAgD9ABAADiAgAw0QEAAFAAENIBAADiAgAw0wEBALMCACHnAUAAxQIAIfEBQADFAgAh-AEBALYCACGBAgEAswIAIYICAQC2AgAhgwIBALYCACGEAgEAtgIAIYUCAQC2AgAhhgIBALYCACGHAiAA0gIAIYkCAADjAokCIgMAAAA9ACABAABPADApAABQACADAAAAPQAgAQAAPgAwAgAAAQAgAQAAAAUAIAEAAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIAMAAAADACABAAAEADACAAAFACARAwAA3QQAIAgAAN4EACAKAADfBAAgEQAA4AQAIBIAAOEEACAUAADiBAAgFQAA4wQAINMBAQAAAAHnAUAAAAAB8AECAAAAAfEBQAAAAAH0AQEAAAAB9QEBAAAAAf0BAAAA_QEC_gEBAAAAAf8BIAAAAAGAAgEAAAABAR0AAFgAIArTAQEAAAAB5wFAAAAAAfABAgAAAAHxAUAAAAAB9AEBAAAAAfUBAQAAAAH9AQAAAP0BAv4BAQAAAAH_ASAAAAABgAIBAAAAAQEdAABaADABHQAAWgAwEQMAAJEEACAIAACSBAAgCgAAkwQAIBEAAJQEACASAACVBAAgFAAAlgQAIBUAAJcEACDTAQEAkQMAIecBQACbAwAh8AECAJMDACHxAUAAmwMAIfQBAQCRAwAh9QEBAJQDACH9AQAAkAT9ASL-AQEAlAMAIf8BIADdAwAhgAIBAJEDACECAAAABQAgHQAAXQAgCtMBAQCRAwAh5wFAAJsDACHwAQIAkwMAIfEBQACbAwAh9AEBAJEDACH1AQEAlAMAIf0BAACQBP0BIv4BAQCUAwAh_wEgAN0DACGAAgEAkQMAIQIAAAADACAdAABfACACAAAAAwAgHQAAXwAgAwAAAAUAICQAAFgAICUAAF0AIAEAAAAFACABAAAAAwAgBwYAAIsEACAqAACOBAAgKwAAjQQAIDwAAIwEACA9AACPBAAg9QEAAIsDACD-AQAAiwMAIA3QAQAA3gIAMNEBAABmABDSAQAA3gIAMNMBAQCzAgAh5wFAAMUCACHwAQIAtQIAIfEBQADFAgAh9AEBALMCACH1AQEAtgIAIf0BAADfAv0BIv4BAQC2AgAh_wEgANICACGAAgEAswIAIQMAAAADACABAABlADApAABmACADAAAAAwAgAQAABAAwAgAABQAgBwUAAN0CACDQAQAA2gIAMNEBAABsABDSAQAA2gIAMNMBAQAAAAHnAUAA3AIAIfgBAQAAAAEBAAAAaQAgAQAAAGkAIAcFAADdAgAg0AEAANoCADDRAQAAbAAQ0gEAANoCADDTAQEA2wIAIecBQADcAgAh-AEBANsCACEBBQAAigQAIAMAAABsACABAABtADACAABpACADAAAAbAAgAQAAbQAwAgAAaQAgAwAAAGwAIAEAAG0AMAIAAGkAIAQFAACJBAAg0wEBAAAAAecBQAAAAAH4AQEAAAABAR0AAHEAIAPTAQEAAAAB5wFAAAAAAfgBAQAAAAEBHQAAcwAwAR0AAHMAMAQFAAD8AwAg0wEBAJEDACHnAUAAmwMAIfgBAQCRAwAhAgAAAGkAIB0AAHYAIAPTAQEAkQMAIecBQACbAwAh-AEBAJEDACECAAAAbAAgHQAAeAAgAgAAAGwAIB0AAHgAIAMAAABpACAkAABxACAlAAB2ACABAAAAaQAgAQAAAGwAIAMGAAD5AwAgKgAA-wMAICsAAPoDACAG0AEAANkCADDRAQAAfwAQ0gEAANkCADDTAQEAswIAIecBQADFAgAh-AEBALMCACEDAAAAbAAgAQAAfgAwKQAAfwAgAwAAAGwAIAEAAG0AMAIAAGkAIAEAAAAJACABAAAACQAgAwAAAAcAIAEAAAgAMAIAAAkAIAMAAAAHACABAAAIADACAAAJACADAAAABwAgAQAACAAwAgAACQAgBAQAAPcDACAHAAD4AwAg1AEBAAAAAfcBAQAAAAEBHQAAhwEAIALUAQEAAAAB9wEBAAAAAQEdAACJAQAwAR0AAIkBADAEBAAA9QMAIAcAAPYDACDUAQEAkQMAIfcBAQCRAwAhAgAAAAkAIB0AAIwBACAC1AEBAJEDACH3AQEAkQMAIQIAAAAHACAdAACOAQAgAgAAAAcAIB0AAI4BACADAAAACQAgJAAAhwEAICUAAIwBACABAAAACQAgAQAAAAcAIAMGAADyAwAgKgAA9AMAICsAAPMDACAF0AEAANgCADDRAQAAlQEAENIBAADYAgAw1AEBALMCACH3AQEAswIAIQMAAAAHACABAACUAQAwKQAAlQEAIAMAAAAHACABAAAIADACAAAJACABAAAADwAgAQAAAA8AIAMAAAANACABAAAOADACAAAPACADAAAADQAgAQAADgAwAgAADwAgAwAAAA0AIAEAAA4AMAIAAA8AIAQEAADwAwAgCQAA8QMAINQBAQAAAAHpAQEAAAABAR0AAJ0BACAC1AEBAAAAAekBAQAAAAEBHQAAnwEAMAEdAACfAQAwBAQAAO4DACAJAADvAwAg1AEBAJEDACHpAQEAkQMAIQIAAAAPACAdAACiAQAgAtQBAQCRAwAh6QEBAJEDACECAAAADQAgHQAApAEAIAIAAAANACAdAACkAQAgAwAAAA8AICQAAJ0BACAlAACiAQAgAQAAAA8AIAEAAAANACADBgAA6wMAICoAAO0DACArAADsAwAgBdABAADXAgAw0QEAAKsBABDSAQAA1wIAMNQBAQCzAgAh6QEBALMCACEDAAAADQAgAQAAqgEAMCkAAKsBACADAAAADQAgAQAADgAwAgAADwAgAQAAABMAIAEAAAATACADAAAAEQAgAQAAEgAwAgAAEwAgAwAAABEAIAEAABIAMAIAABMAIAMAAAARACABAAASADACAAATACAJBAAA6QMAIBAAAOoDACDTAQEAAAAB1AEBAAAAAdYBAAAA9AEC1wECAAAAAfQBAQAAAAH1AQEAAAAB9gEgAAAAAQEdAACzAQAgB9MBAQAAAAHUAQEAAAAB1gEAAAD0AQLXAQIAAAAB9AEBAAAAAfUBAQAAAAH2ASAAAAABAR0AALUBADABHQAAtQEAMAkEAADeAwAgEAAA3wMAINMBAQCRAwAh1AEBAJEDACHWAQAA3AP0ASLXAQIAkwMAIfQBAQCRAwAh9QEBAJQDACH2ASAA3QMAIQIAAAATACAdAAC4AQAgB9MBAQCRAwAh1AEBAJEDACHWAQAA3AP0ASLXAQIAkwMAIfQBAQCRAwAh9QEBAJQDACH2ASAA3QMAIQIAAAARACAdAAC6AQAgAgAAABEAIB0AALoBACADAAAAEwAgJAAAswEAICUAALgBACABAAAAEwAgAQAAABEAIAYGAADXAwAgKgAA2gMAICsAANkDACA8AADYAwAgPQAA2wMAIPUBAACLAwAgCtABAADQAgAw0QEAAMEBABDSAQAA0AIAMNMBAQCzAgAh1AEBALMCACHWAQAA0QL0ASLXAQIAtQIAIfQBAQCzAgAh9QEBALYCACH2ASAA0gIAIQMAAAARACABAADAAQAwKQAAwQEAIAMAAAARACABAAASADACAAATACABAAAAIwAgAQAAACMAIAMAAAAhACABAAAiADACAAAjACADAAAAIQAgAQAAIgAwAgAAIwAgAwAAACEAIAEAACIAMAIAACMAIAsEAADTAwAgCwAA1AMAIAwAANUDACAOAADWAwAg0wEBAAAAAdQBAQAAAAHnAUAAAAAB7wEBAAAAAfABAgAAAAHxAUAAAAAB8gEBAAAAAQEdAADJAQAgB9MBAQAAAAHUAQEAAAAB5wFAAAAAAe8BAQAAAAHwAQIAAAAB8QFAAAAAAfIBAQAAAAEBHQAAywEAMAEdAADLAQAwCwQAALcDACALAAC4AwAgDAAAuQMAIA4AALoDACDTAQEAkQMAIdQBAQCRAwAh5wFAAJsDACHvAQEAkQMAIfABAgCTAwAh8QFAAJsDACHyAQEAkQMAIQIAAAAjACAdAADOAQAgB9MBAQCRAwAh1AEBAJEDACHnAUAAmwMAIe8BAQCRAwAh8AECAJMDACHxAUAAmwMAIfIBAQCRAwAhAgAAACEAIB0AANABACACAAAAIQAgHQAA0AEAIAMAAAAjACAkAADJAQAgJQAAzgEAIAEAAAAjACABAAAAIQAgBQYAALIDACAqAAC1AwAgKwAAtAMAIDwAALMDACA9AAC2AwAgCtABAADPAgAw0QEAANcBABDSAQAAzwIAMNMBAQCzAgAh1AEBALMCACHnAUAAxQIAIe8BAQCzAgAh8AECALUCACHxAUAAxQIAIfIBAQCzAgAhAwAAACEAIAEAANYBADApAADXAQAgAwAAACEAIAEAACIAMAIAACMAIAEAAAAXACABAAAAFwAgAwAAABUAIAEAABYAMAIAABcAIAMAAAAVACABAAAWADACAAAXACADAAAAFQAgAQAAFgAwAgAAFwAgCQ0AALADACAPAACxAwAg0wEBAAAAAegBAQAAAAHqAQEAAAAB6wEBAAAAAewBCAAAAAHtASAAAAAB7gEBAAAAAQEdAADfAQAgB9MBAQAAAAHoAQEAAAAB6gEBAAAAAesBAQAAAAHsAQgAAAAB7QEgAAAAAe4BAQAAAAEBHQAA4QEAMAEdAADhAQAwCQ0AAK4DACAPAACvAwAg0wEBAJEDACHoAQEAkQMAIeoBAQCRAwAh6wEBAJQDACHsAQgArAMAIe0BIACtAwAh7gEBAJQDACECAAAAFwAgHQAA5AEAIAfTAQEAkQMAIegBAQCRAwAh6gEBAJEDACHrAQEAlAMAIewBCACsAwAh7QEgAK0DACHuAQEAlAMAIQIAAAAVACAdAADmAQAgAgAAABUAIB0AAOYBACADAAAAFwAgJAAA3wEAICUAAOQBACABAAAAFwAgAQAAABUAIAkGAACnAwAgKgAAqgMAICsAAKkDACA8AACoAwAgPQAAqwMAIOsBAACLAwAg7AEAAIsDACDtAQAAiwMAIO4BAACLAwAgCtABAADJAgAw0QEAAO0BABDSAQAAyQIAMNMBAQCzAgAh6AEBALMCACHqAQEAswIAIesBAQC2AgAh7AEIAMoCACHtASAAywIAIe4BAQC2AgAhAwAAABUAIAEAAOwBADApAADtAQAgAwAAABUAIAEAABYAMAIAABcAIAEAAAAcACABAAAAHAAgAwAAABoAIAEAABsAMAIAABwAIAMAAAAaACABAAAbADACAAAcACADAAAAGgAgAQAAGwAwAgAAHAAgBQkAAKYDACANAAClAwAg5wFAAAAAAegBAQAAAAHpAQEAAAABAR0AAPUBACAD5wFAAAAAAegBAQAAAAHpAQEAAAABAR0AAPcBADABHQAA9wEAMAUJAACkAwAgDQAAowMAIOcBQACbAwAh6AEBAJEDACHpAQEAkQMAIQIAAAAcACAdAAD6AQAgA-cBQACbAwAh6AEBAJEDACHpAQEAkQMAIQIAAAAaACAdAAD8AQAgAgAAABoAIB0AAPwBACADAAAAHAAgJAAA9QEAICUAAPoBACABAAAAHAAgAQAAABoAIAMGAACgAwAgKgAAogMAICsAAKEDACAG0AEAAMgCADDRAQAAgwIAENIBAADIAgAw5wFAAMUCACHoAQEAswIAIekBAQCzAgAhAwAAABoAIAEAAIICADApAACDAgAgAwAAABoAIAEAABsAMAIAABwAIAEAAAAnACABAAAAJwAgAwAAACUAIAEAACYAMAIAACcAIAMAAAAlACABAAAmADACAAAnACADAAAAJQAgAQAAJgAwAgAAJwAgBwQAAJ4DACATAACfAwAg0wEBAAAAAdQBAQAAAAHlAQEAAAAB5gEBAAAAAecBQAAAAAEBHQAAiwIAIAXTAQEAAAAB1AEBAAAAAeUBAQAAAAHmAQEAAAAB5wFAAAAAAQEdAACNAgAwAR0AAI0CADAHBAAAnAMAIBMAAJ0DACDTAQEAkQMAIdQBAQCRAwAh5QEBAJEDACHmAQEAkQMAIecBQACbAwAhAgAAACcAIB0AAJACACAF0wEBAJEDACHUAQEAkQMAIeUBAQCRAwAh5gEBAJEDACHnAUAAmwMAIQIAAAAlACAdAACSAgAgAgAAACUAIB0AAJICACADAAAAJwAgJAAAiwIAICUAAJACACABAAAAJwAgAQAAACUAIAMGAACYAwAgKgAAmgMAICsAAJkDACAI0AEAAMQCADDRAQAAmQIAENIBAADEAgAw0wEBALMCACHUAQEAswIAIeUBAQCzAgAh5gEBALMCACHnAUAAxQIAIQMAAAAlACABAACYAgAwKQAAmQIAIAMAAAAlACABAAAmADACAAAnACABAAAAKwAgAQAAACsAIAMAAAApACABAAAqADACAAArACADAAAAKQAgAQAAKgAwAgAAKwAgAwAAACkAIAEAACoAMAIAACsAIAcEAACXAwAg0wEBAAAAAdQBAQAAAAHWAQAAANYBAtcBAgAAAAHYAQEAAAAB2QECAAAAAQEdAAChAgAgBtMBAQAAAAHUAQEAAAAB1gEAAADWAQLXAQIAAAAB2AEBAAAAAdkBAgAAAAEBHQAAowIAMAEdAACjAgAwBwQAAJYDACDTAQEAkQMAIdQBAQCRAwAh1gEAAJID1gEi1wECAJMDACHYAQEAlAMAIdkBAgCVAwAhAgAAACsAIB0AAKYCACAG0wEBAJEDACHUAQEAkQMAIdYBAACSA9YBItcBAgCTAwAh2AEBAJQDACHZAQIAlQMAIQIAAAApACAdAACoAgAgAgAAACkAIB0AAKgCACADAAAAKwAgJAAAoQIAICUAAKYCACABAAAAKwAgAQAAACkAIAcGAACMAwAgKgAAjwMAICsAAI4DACA8AACNAwAgPQAAkAMAINgBAACLAwAg2QEAAIsDACAJ0AEAALICADDRAQAArwIAENIBAACyAgAw0wEBALMCACHUAQEAswIAIdYBAAC0AtYBItcBAgC1AgAh2AEBALYCACHZAQIAtwIAIQMAAAApACABAACuAgAwKQAArwIAIAMAAAApACABAAAqADACAAArACAJ0AEAALICADDRAQAArwIAENIBAACyAgAw0wEBALMCACHUAQEAswIAIdYBAAC0AtYBItcBAgC1AgAh2AEBALYCACHZAQIAtwIAIQ4GAAC-AgAgKgAAwwIAICsAAMMCACDaAQEAAAAB2wEBAAAABNwBAQAAAATdAQEAAAAB3gEBAAAAAd8BAQAAAAHgAQEAAAAB4QEBAMICACHiAQEAAAAB4wEBAAAAAeQBAQAAAAEHBgAAvgIAICoAAMECACArAADBAgAg2gEAAADWAQLbAQAAANYBCNwBAAAA1gEI4QEAAMAC1gEiDQYAAL4CACAqAAC-AgAgKwAAvgIAIDwAAL8CACA9AAC-AgAg2gECAAAAAdsBAgAAAATcAQIAAAAE3QECAAAAAd4BAgAAAAHfAQIAAAAB4AECAAAAAeEBAgC9AgAhDgYAALkCACAqAAC8AgAgKwAAvAIAINoBAQAAAAHbAQEAAAAF3AEBAAAABd0BAQAAAAHeAQEAAAAB3wEBAAAAAeABAQAAAAHhAQEAuwIAIeIBAQAAAAHjAQEAAAAB5AEBAAAAAQ0GAAC5AgAgKgAAuQIAICsAALkCACA8AAC6AgAgPQAAuQIAINoBAgAAAAHbAQIAAAAF3AECAAAABd0BAgAAAAHeAQIAAAAB3wECAAAAAeABAgAAAAHhAQIAuAIAIQ0GAAC5AgAgKgAAuQIAICsAALkCACA8AAC6AgAgPQAAuQIAINoBAgAAAAHbAQIAAAAF3AECAAAABd0BAgAAAAHeAQIAAAAB3wECAAAAAeABAgAAAAHhAQIAuAIAIQjaAQIAAAAB2wECAAAABdwBAgAAAAXdAQIAAAAB3gECAAAAAd8BAgAAAAHgAQIAAAAB4QECALkCACEI2gEIAAAAAdsBCAAAAAXcAQgAAAAF3QEIAAAAAd4BCAAAAAHfAQgAAAAB4AEIAAAAAeEBCAC6AgAhDgYAALkCACAqAAC8AgAgKwAAvAIAINoBAQAAAAHbAQEAAAAF3AEBAAAABd0BAQAAAAHeAQEAAAAB3wEBAAAAAeABAQAAAAHhAQEAuwIAIeIBAQAAAAHjAQEAAAAB5AEBAAAAAQvaAQEAAAAB2wEBAAAABdwBAQAAAAXdAQEAAAAB3gEBAAAAAd8BAQAAAAHgAQEAAAAB4QEBALwCACHiAQEAAAAB4wEBAAAAAeQBAQAAAAENBgAAvgIAICoAAL4CACArAAC-AgAgPAAAvwIAID0AAL4CACDaAQIAAAAB2wECAAAABNwBAgAAAATdAQIAAAAB3gECAAAAAd8BAgAAAAHgAQIAAAAB4QECAL0CACEI2gECAAAAAdsBAgAAAATcAQIAAAAE3QECAAAAAd4BAgAAAAHfAQIAAAAB4AECAAAAAeEBAgC-AgAhCNoBCAAAAAHbAQgAAAAE3AEIAAAABN0BCAAAAAHeAQgAAAAB3wEIAAAAAeABCAAAAAHhAQgAvwIAIQcGAAC-AgAgKgAAwQIAICsAAMECACDaAQAAANYBAtsBAAAA1gEI3AEAAADWAQjhAQAAwALWASIE2gEAAADWAQLbAQAAANYBCNwBAAAA1gEI4QEAAMEC1gEiDgYAAL4CACAqAADDAgAgKwAAwwIAINoBAQAAAAHbAQEAAAAE3AEBAAAABN0BAQAAAAHeAQEAAAAB3wEBAAAAAeABAQAAAAHhAQEAwgIAIeIBAQAAAAHjAQEAAAAB5AEBAAAAAQvaAQEAAAAB2wEBAAAABNwBAQAAAATdAQEAAAAB3gEBAAAAAd8BAQAAAAHgAQEAAAAB4QEBAMMCACHiAQEAAAAB4wEBAAAAAeQBAQAAAAEI0AEAAMQCADDRAQAAmQIAENIBAADEAgAw0wEBALMCACHUAQEAswIAIeUBAQCzAgAh5gEBALMCACHnAUAAxQIAIQsGAAC-AgAgKgAAxwIAICsAAMcCACDaAUAAAAAB2wFAAAAABNwBQAAAAATdAUAAAAAB3gFAAAAAAd8BQAAAAAHgAUAAAAAB4QFAAMYCACELBgAAvgIAICoAAMcCACArAADHAgAg2gFAAAAAAdsBQAAAAATcAUAAAAAE3QFAAAAAAd4BQAAAAAHfAUAAAAAB4AFAAAAAAeEBQADGAgAhCNoBQAAAAAHbAUAAAAAE3AFAAAAABN0BQAAAAAHeAUAAAAAB3wFAAAAAAeABQAAAAAHhAUAAxwIAIQbQAQAAyAIAMNEBAACDAgAQ0gEAAMgCADDnAUAAxQIAIegBAQCzAgAh6QEBALMCACEK0AEAAMkCADDRAQAA7QEAENIBAADJAgAw0wEBALMCACHoAQEAswIAIeoBAQCzAgAh6wEBALYCACHsAQgAygIAIe0BIADLAgAh7gEBALYCACENBgAAuQIAICoAALoCACArAAC6AgAgPAAAugIAID0AALoCACDaAQgAAAAB2wEIAAAABdwBCAAAAAXdAQgAAAAB3gEIAAAAAd8BCAAAAAHgAQgAAAAB4QEIAM4CACEFBgAAuQIAICoAAM0CACArAADNAgAg2gEgAAAAAeEBIADMAgAhBQYAALkCACAqAADNAgAgKwAAzQIAINoBIAAAAAHhASAAzAIAIQLaASAAAAAB4QEgAM0CACENBgAAuQIAICoAALoCACArAAC6AgAgPAAAugIAID0AALoCACDaAQgAAAAB2wEIAAAABdwBCAAAAAXdAQgAAAAB3gEIAAAAAd8BCAAAAAHgAQgAAAAB4QEIAM4CACEK0AEAAM8CADDRAQAA1wEAENIBAADPAgAw0wEBALMCACHUAQEAswIAIecBQADFAgAh7wEBALMCACHwAQIAtQIAIfEBQADFAgAh8gEBALMCACEK0AEAANACADDRAQAAwQEAENIBAADQAgAw0wEBALMCACHUAQEAswIAIdYBAADRAvQBItcBAgC1AgAh9AEBALMCACH1AQEAtgIAIfYBIADSAgAhBwYAAL4CACAqAADWAgAgKwAA1gIAINoBAAAA9AEC2wEAAAD0AQjcAQAAAPQBCOEBAADVAvQBIgUGAAC-AgAgKgAA1AIAICsAANQCACDaASAAAAAB4QEgANMCACEFBgAAvgIAICoAANQCACArAADUAgAg2gEgAAAAAeEBIADTAgAhAtoBIAAAAAHhASAA1AIAIQcGAAC-AgAgKgAA1gIAICsAANYCACDaAQAAAPQBAtsBAAAA9AEI3AEAAAD0AQjhAQAA1QL0ASIE2gEAAAD0AQLbAQAAAPQBCNwBAAAA9AEI4QEAANYC9AEiBdABAADXAgAw0QEAAKsBABDSAQAA1wIAMNQBAQCzAgAh6QEBALMCACEF0AEAANgCADDRAQAAlQEAENIBAADYAgAw1AEBALMCACH3AQEAswIAIQbQAQAA2QIAMNEBAAB_ABDSAQAA2QIAMNMBAQCzAgAh5wFAAMUCACH4AQEAswIAIQcFAADdAgAg0AEAANoCADDRAQAAbAAQ0gEAANoCADDTAQEA2wIAIecBQADcAgAh-AEBANsCACEL2gEBAAAAAdsBAQAAAATcAQEAAAAE3QEBAAAAAd4BAQAAAAHfAQEAAAAB4AEBAAAAAeEBAQDDAgAh4gEBAAAAAeMBAQAAAAHkAQEAAAABCNoBQAAAAAHbAUAAAAAE3AFAAAAABN0BQAAAAAHeAUAAAAAB3wFAAAAAAeABQAAAAAHhAUAAxwIAIQP5AQAABwAg-gEAAAcAIPsBAAAHACAN0AEAAN4CADDRAQAAZgAQ0gEAAN4CADDTAQEAswIAIecBQADFAgAh8AECALUCACHxAUAAxQIAIfQBAQCzAgAh9QEBALYCACH9AQAA3wL9ASL-AQEAtgIAIf8BIADSAgAhgAIBALMCACEHBgAAvgIAICoAAOECACArAADhAgAg2gEAAAD9AQLbAQAAAP0BCNwBAAAA_QEI4QEAAOAC_QEiBwYAAL4CACAqAADhAgAgKwAA4QIAINoBAAAA_QEC2wEAAAD9AQjcAQAAAP0BCOEBAADgAv0BIgTaAQAAAP0BAtsBAAAA_QEI3AEAAAD9AQjhAQAA4QL9ASIP0AEAAOICADDRAQAAUAAQ0gEAAOICADDTAQEAswIAIecBQADFAgAh8QFAAMUCACH4AQEAtgIAIYECAQCzAgAhggIBALYCACGDAgEAtgIAIYQCAQC2AgAhhQIBALYCACGGAgEAtgIAIYcCIADSAgAhiQIAAOMCiQIiBwYAAL4CACAqAADlAgAgKwAA5QIAINoBAAAAiQIC2wEAAACJAgjcAQAAAIkCCOEBAADkAokCIgcGAAC-AgAgKgAA5QIAICsAAOUCACDaAQAAAIkCAtsBAAAAiQII3AEAAACJAgjhAQAA5AKJAiIE2gEAAACJAgLbAQAAAIkCCNwBAAAAiQII4QEAAOUCiQIiFAoAAOsCACAOAADuAgAgEgAA7AIAIBYAAOoCACAXAADtAgAg0AEAAOYCADDRAQAAPQAQ0gEAAOYCADDTAQEA2wIAIecBQADcAgAh8QFAANwCACH4AQEA5wIAIYECAQDbAgAhggIBAOcCACGDAgEA5wIAIYQCAQDnAgAhhQIBAOcCACGGAgEA5wIAIYcCIADoAgAhiQIAAOkCiQIiC9oBAQAAAAHbAQEAAAAF3AEBAAAABd0BAQAAAAHeAQEAAAAB3wEBAAAAAeABAQAAAAHhAQEAvAIAIeIBAQAAAAHjAQEAAAAB5AEBAAAAAQLaASAAAAAB4QEgANQCACEE2gEAAACJAgLbAQAAAIkCCNwBAAAAiQII4QEAAOUCiQIiA_kBAAADACD6AQAAAwAg-wEAAAMAIAP5AQAADQAg-gEAAA0AIPsBAAANACAD-QEAACEAIPoBAAAhACD7AQAAIQAgA_kBAAAlACD6AQAAJQAg-wEAACUAIAP5AQAAGgAg-gEAABoAIPsBAAAaACAKBAAA8wIAINABAADvAgAw0QEAACkAENIBAADvAgAw0wEBANsCACHUAQEA2wIAIdYBAADwAtYBItcBAgDxAgAh2AEBAOcCACHZAQIA8gIAIQTaAQAAANYBAtsBAAAA1gEI3AEAAADWAQjhAQAAwQLWASII2gECAAAAAdsBAgAAAATcAQIAAAAE3QECAAAAAd4BAgAAAAHfAQIAAAAB4AECAAAAAeEBAgC-AgAhCNoBAgAAAAHbAQIAAAAF3AECAAAABd0BAgAAAAHeAQIAAAAB3wECAAAAAeABAgAAAAHhAQIAuQIAIRYDAAD1AgAgCAAA3QIAIAoAAOsCACARAACJAwAgEgAA7AIAIBQAAO0CACAVAACKAwAg0AEAAIcDADDRAQAAAwAQ0gEAAIcDADDTAQEA2wIAIecBQADcAgAh8AECAPECACHxAUAA3AIAIfQBAQDbAgAh9QEBAOcCACH9AQAAiAP9ASL-AQEA5wIAIf8BIADoAgAhgAIBANsCACGOAgAAAwAgjwIAAAMAIAoEAADzAgAgEwAA9QIAINABAAD0AgAw0QEAACUAENIBAAD0AgAw0wEBANsCACHUAQEA2wIAIeUBAQDbAgAh5gEBANsCACHnAUAA3AIAIRYKAADrAgAgDgAA7gIAIBIAAOwCACAWAADqAgAgFwAA7QIAINABAADmAgAw0QEAAD0AENIBAADmAgAw0wEBANsCACHnAUAA3AIAIfEBQADcAgAh-AEBAOcCACGBAgEA2wIAIYICAQDnAgAhgwIBAOcCACGEAgEA5wIAIYUCAQDnAgAhhgIBAOcCACGHAiAA6AIAIYkCAADpAokCIo4CAAA9ACCPAgAAPQAgAtQBAQAAAAHvAQEAAAABDgQAAPMCACALAAD1AgAgDAAA-AIAIA4AAO4CACDQAQAA9wIAMNEBAAAhABDSAQAA9wIAMNMBAQDbAgAh1AEBANsCACHnAUAA3AIAIe8BAQDbAgAh8AECAPECACHxAUAA3AIAIfIBAQDbAgAhA_kBAAAVACD6AQAAFQAg-wEAABUAIALoAQEAAAAB6QEBAAAAAQgJAAD1AgAgDQAA-wIAINABAAD6AgAw0QEAABoAENIBAAD6AgAw5wFAANwCACHoAQEA2wIAIekBAQDbAgAhEAQAAPMCACALAAD1AgAgDAAA-AIAIA4AAO4CACDQAQAA9wIAMNEBAAAhABDSAQAA9wIAMNMBAQDbAgAh1AEBANsCACHnAUAA3AIAIe8BAQDbAgAh8AECAPECACHxAUAA3AIAIfIBAQDbAgAhjgIAACEAII8CAAAhACAMDQAA-wIAIA8AAP8CACDQAQAA_AIAMNEBAAAVABDSAQAA_AIAMNMBAQDbAgAh6AEBANsCACHqAQEA2wIAIesBAQDnAgAh7AEIAP0CACHtASAA_gIAIe4BAQDnAgAhCNoBCAAAAAHbAQgAAAAF3AEIAAAABd0BCAAAAAHeAQgAAAAB3wEIAAAAAeABCAAAAAHhAQgAugIAIQLaASAAAAAB4QEgAM0CACEOBAAA8wIAIBAAAPgCACDQAQAAgAMAMNEBAAARABDSAQAAgAMAMNMBAQDbAgAh1AEBANsCACHWAQAAgQP0ASLXAQIA8QIAIfQBAQDbAgAh9QEBAOcCACH2ASAA6AIAIY4CAAARACCPAgAAEQAgDAQAAPMCACAQAAD4AgAg0AEAAIADADDRAQAAEQAQ0gEAAIADADDTAQEA2wIAIdQBAQDbAgAh1gEAAIED9AEi1wECAPECACH0AQEA2wIAIfUBAQDnAgAh9gEgAOgCACEE2gEAAAD0AQLbAQAAAPQBCNwBAAAA9AEI4QEAANYC9AEiAtQBAQAAAAHpAQEAAAABBwQAAPMCACAJAAD1AgAg0AEAAIMDADDRAQAADQAQ0gEAAIMDADDUAQEA2wIAIekBAQDbAgAhAtQBAQAAAAH3AQEAAAABBwQAAPMCACAHAACGAwAg0AEAAIUDADDRAQAABwAQ0gEAAIUDADDUAQEA2wIAIfcBAQDbAgAhCQUAAN0CACDQAQAA2gIAMNEBAABsABDSAQAA2gIAMNMBAQDbAgAh5wFAANwCACH4AQEA2wIAIY4CAABsACCPAgAAbAAgFAMAAPUCACAIAADdAgAgCgAA6wIAIBEAAIkDACASAADsAgAgFAAA7QIAIBUAAIoDACDQAQAAhwMAMNEBAAADABDSAQAAhwMAMNMBAQDbAgAh5wFAANwCACHwAQIA8QIAIfEBQADcAgAh9AEBANsCACH1AQEA5wIAIf0BAACIA_0BIv4BAQDnAgAh_wEgAOgCACGAAgEA2wIAIQTaAQAAAP0BAtsBAAAA_QEI3AEAAAD9AQjhAQAA4QL9ASID-QEAABEAIPoBAAARACD7AQAAEQAgA_kBAAApACD6AQAAKQAg-wEAACkAIAAAAAAAAAGTAgEAAAABAZMCAAAA1gECBZMCAgAAAAGZAgIAAAABmgICAAAAAZsCAgAAAAGcAgIAAAABAZMCAQAAAAEFkwICAAAAAZkCAgAAAAGaAgIAAAABmwICAAAAAZwCAgAAAAEFJAAAhAYAICUAAIcGACCQAgAAhQYAIJECAACGBgAglgIAAAUAIAMkAACEBgAgkAIAAIUGACCWAgAABQAgAAAAAZMCQAAAAAEFJAAA_AUAICUAAIIGACCQAgAA_QUAIJECAACBBgAglgIAAAUAIAUkAAD6BQAgJQAA_wUAIJACAAD7BQAgkQIAAP4FACCWAgAAAQAgAyQAAPwFACCQAgAA_QUAIJYCAAAFACADJAAA-gUAIJACAAD7BQAglgIAAAEAIAAAAAUkAADyBQAgJQAA-AUAIJACAADzBQAgkQIAAPcFACCWAgAAIwAgBSQAAPAFACAlAAD1BQAgkAIAAPEFACCRAgAA9AUAIJYCAAABACADJAAA8gUAIJACAADzBQAglgIAACMAIAMkAADwBQAgkAIAAPEFACCWAgAAAQAgAAAAAAAFkwIIAAAAAZkCCAAAAAGaAggAAAABmwIIAAAAAZwCCAAAAAEBkwIgAAAAAQUkAADoBQAgJQAA7gUAIJACAADpBQAgkQIAAO0FACCWAgAAIwAgBSQAAOYFACAlAADrBQAgkAIAAOcFACCRAgAA6gUAIJYCAAATACADJAAA6AUAIJACAADpBQAglgIAACMAIAMkAADmBQAgkAIAAOcFACCWAgAAEwAgAAAAAAAFJAAA3AUAICUAAOQFACCQAgAA3QUAIJECAADjBQAglgIAAAUAIAUkAADaBQAgJQAA4QUAIJACAADbBQAgkQIAAOAFACCWAgAAAQAgCyQAAMcDADAlAADMAwAwkAIAAMgDADCRAgAAyQMAMJICAADKAwAgkwIAAMsDADCUAgAAywMAMJUCAADLAwAwlgIAAMsDADCXAgAAzQMAMJgCAADOAwAwCyQAALsDADAlAADAAwAwkAIAALwDADCRAgAAvQMAMJICAAC-AwAgkwIAAL8DADCUAgAAvwMAMJUCAAC_AwAwlgIAAL8DADCXAgAAwQMAMJgCAADCAwAwAwkAAKYDACDnAUAAAAAB6QEBAAAAAQIAAAAcACAkAADGAwAgAwAAABwAICQAAMYDACAlAADFAwAgAR0AAN8FADAJCQAA9QIAIA0AAPsCACDQAQAA-gIAMNEBAAAaABDSAQAA-gIAMOcBQADcAgAh6AEBANsCACHpAQEA2wIAIYsCAAD5AgAgAgAAABwAIB0AAMUDACACAAAAwwMAIB0AAMQDACAG0AEAAMIDADDRAQAAwwMAENIBAADCAwAw5wFAANwCACHoAQEA2wIAIekBAQDbAgAhBtABAADCAwAw0QEAAMMDABDSAQAAwgMAMOcBQADcAgAh6AEBANsCACHpAQEA2wIAIQLnAUAAmwMAIekBAQCRAwAhAwkAAKQDACDnAUAAmwMAIekBAQCRAwAhAwkAAKYDACDnAUAAAAAB6QEBAAAAAQcPAACxAwAg0wEBAAAAAeoBAQAAAAHrAQEAAAAB7AEIAAAAAe0BIAAAAAHuAQEAAAABAgAAABcAICQAANIDACADAAAAFwAgJAAA0gMAICUAANEDACABHQAA3gUAMAwNAAD7AgAgDwAA_wIAINABAAD8AgAw0QEAABUAENIBAAD8AgAw0wEBAAAAAegBAQDbAgAh6gEBANsCACHrAQEA5wIAIewBCAD9AgAh7QEgAP4CACHuAQEA5wIAIQIAAAAXACAdAADRAwAgAgAAAM8DACAdAADQAwAgCtABAADOAwAw0QEAAM8DABDSAQAAzgMAMNMBAQDbAgAh6AEBANsCACHqAQEA2wIAIesBAQDnAgAh7AEIAP0CACHtASAA_gIAIe4BAQDnAgAhCtABAADOAwAw0QEAAM8DABDSAQAAzgMAMNMBAQDbAgAh6AEBANsCACHqAQEA2wIAIesBAQDnAgAh7AEIAP0CACHtASAA_gIAIe4BAQDnAgAhBtMBAQCRAwAh6gEBAJEDACHrAQEAlAMAIewBCACsAwAh7QEgAK0DACHuAQEAlAMAIQcPAACvAwAg0wEBAJEDACHqAQEAkQMAIesBAQCUAwAh7AEIAKwDACHtASAArQMAIe4BAQCUAwAhBw8AALEDACDTAQEAAAAB6gEBAAAAAesBAQAAAAHsAQgAAAAB7QEgAAAAAe4BAQAAAAEDJAAA3AUAIJACAADdBQAglgIAAAUAIAMkAADaBQAgkAIAANsFACCWAgAAAQAgBCQAAMcDADCQAgAAyAMAMJICAADKAwAglgIAAMsDADAEJAAAuwMAMJACAAC8AwAwkgIAAL4DACCWAgAAvwMAMAAAAAAAAZMCAAAA9AECAZMCIAAAAAEFJAAA1AUAICUAANgFACCQAgAA1QUAIJECAADXBQAglgIAAAUAIAskAADgAwAwJQAA5AMAMJACAADhAwAwkQIAAOIDADCSAgAA4wMAIJMCAADLAwAwlAIAAMsDADCVAgAAywMAMJYCAADLAwAwlwIAAOUDADCYAgAAzgMAMAcNAACwAwAg0wEBAAAAAegBAQAAAAHrAQEAAAAB7AEIAAAAAe0BIAAAAAHuAQEAAAABAgAAABcAICQAAOgDACADAAAAFwAgJAAA6AMAICUAAOcDACABHQAA1gUAMAIAAAAXACAdAADnAwAgAgAAAM8DACAdAADmAwAgBtMBAQCRAwAh6AEBAJEDACHrAQEAlAMAIewBCACsAwAh7QEgAK0DACHuAQEAlAMAIQcNAACuAwAg0wEBAJEDACHoAQEAkQMAIesBAQCUAwAh7AEIAKwDACHtASAArQMAIe4BAQCUAwAhBw0AALADACDTAQEAAAAB6AEBAAAAAesBAQAAAAHsAQgAAAAB7QEgAAAAAe4BAQAAAAEDJAAA1AUAIJACAADVBQAglgIAAAUAIAQkAADgAwAwkAIAAOEDADCSAgAA4wMAIJYCAADLAwAwAAAABSQAAMwFACAlAADSBQAgkAIAAM0FACCRAgAA0QUAIJYCAAAFACAFJAAAygUAICUAAM8FACCQAgAAywUAIJECAADOBQAglgIAAAEAIAMkAADMBQAgkAIAAM0FACCWAgAABQAgAyQAAMoFACCQAgAAywUAIJYCAAABACAAAAAFJAAAwgUAICUAAMgFACCQAgAAwwUAIJECAADHBQAglgIAAAUAIAUkAADABQAgJQAAxQUAIJACAADBBQAgkQIAAMQFACCWAgAAaQAgAyQAAMIFACCQAgAAwwUAIJYCAAAFACADJAAAwAUAIJACAADBBQAglgIAAGkAIAAAAAskAAD9AwAwJQAAggQAMJACAAD-AwAwkQIAAP8DADCSAgAAgAQAIJMCAACBBAAwlAIAAIEEADCVAgAAgQQAMJYCAACBBAAwlwIAAIMEADCYAgAAhAQAMAIEAAD3AwAg1AEBAAAAAQIAAAAJACAkAACIBAAgAwAAAAkAICQAAIgEACAlAACHBAAgAR0AAL8FADAIBAAA8wIAIAcAAIYDACDQAQAAhQMAMNEBAAAHABDSAQAAhQMAMNQBAQDbAgAh9wEBANsCACGNAgAAhAMAIAIAAAAJACAdAACHBAAgAgAAAIUEACAdAACGBAAgBdABAACEBAAw0QEAAIUEABDSAQAAhAQAMNQBAQDbAgAh9wEBANsCACEF0AEAAIQEADDRAQAAhQQAENIBAACEBAAw1AEBANsCACH3AQEA2wIAIQHUAQEAkQMAIQIEAAD1AwAg1AEBAJEDACECBAAA9wMAINQBAQAAAAEEJAAA_QMAMJACAAD-AwAwkgIAAIAEACCWAgAAgQQAMAAAAAAAAAGTAgAAAP0BAgUkAAC0BQAgJQAAvQUAIJACAAC1BQAgkQIAALwFACCWAgAAAQAgCyQAANQEADAlAADYBAAwkAIAANUEADCRAgAA1gQAMJICAADXBAAgkwIAAIEEADCUAgAAgQQAMJUCAACBBAAwlgIAAIEEADCXAgAA2QQAMJgCAACEBAAwCyQAAMgEADAlAADNBAAwkAIAAMkEADCRAgAAygQAMJICAADLBAAgkwIAAMwEADCUAgAAzAQAMJUCAADMBAAwlgIAAMwEADCXAgAAzgQAMJgCAADPBAAwCyQAALwEADAlAADBBAAwkAIAAL0EADCRAgAAvgQAMJICAAC_BAAgkwIAAMAEADCUAgAAwAQAMJUCAADABAAwlgIAAMAEADCXAgAAwgQAMJgCAADDBAAwCyQAALAEADAlAAC1BAAwkAIAALEEADCRAgAAsgQAMJICAACzBAAgkwIAALQEADCUAgAAtAQAMJUCAAC0BAAwlgIAALQEADCXAgAAtgQAMJgCAAC3BAAwCyQAAKQEADAlAACpBAAwkAIAAKUEADCRAgAApgQAMJICAACnBAAgkwIAAKgEADCUAgAAqAQAMJUCAACoBAAwlgIAAKgEADCXAgAAqgQAMJgCAACrBAAwCyQAAJgEADAlAACdBAAwkAIAAJkEADCRAgAAmgQAMJICAACbBAAgkwIAAJwEADCUAgAAnAQAMJUCAACcBAAwlgIAAJwEADCXAgAAngQAMJgCAACfBAAwBdMBAQAAAAHWAQAAANYBAtcBAgAAAAHYAQEAAAAB2QECAAAAAQIAAAArACAkAACjBAAgAwAAACsAICQAAKMEACAlAACiBAAgAR0AALsFADAKBAAA8wIAINABAADvAgAw0QEAACkAENIBAADvAgAw0wEBAAAAAdQBAQDbAgAh1gEAAPAC1gEi1wECAPECACHYAQEA5wIAIdkBAgDyAgAhAgAAACsAIB0AAKIEACACAAAAoAQAIB0AAKEEACAJ0AEAAJ8EADDRAQAAoAQAENIBAACfBAAw0wEBANsCACHUAQEA2wIAIdYBAADwAtYBItcBAgDxAgAh2AEBAOcCACHZAQIA8gIAIQnQAQAAnwQAMNEBAACgBAAQ0gEAAJ8EADDTAQEA2wIAIdQBAQDbAgAh1gEAAPAC1gEi1wECAPECACHYAQEA5wIAIdkBAgDyAgAhBdMBAQCRAwAh1gEAAJID1gEi1wECAJMDACHYAQEAlAMAIdkBAgCVAwAhBdMBAQCRAwAh1gEAAJID1gEi1wECAJMDACHYAQEAlAMAIdkBAgCVAwAhBdMBAQAAAAHWAQAAANYBAtcBAgAAAAHYAQEAAAAB2QECAAAAAQUTAACfAwAg0wEBAAAAAeUBAQAAAAHmAQEAAAAB5wFAAAAAAQIAAAAnACAkAACvBAAgAwAAACcAICQAAK8EACAlAACuBAAgAR0AALoFADAKBAAA8wIAIBMAAPUCACDQAQAA9AIAMNEBAAAlABDSAQAA9AIAMNMBAQAAAAHUAQEA2wIAIeUBAQDbAgAh5gEBANsCACHnAUAA3AIAIQIAAAAnACAdAACuBAAgAgAAAKwEACAdAACtBAAgCNABAACrBAAw0QEAAKwEABDSAQAAqwQAMNMBAQDbAgAh1AEBANsCACHlAQEA2wIAIeYBAQDbAgAh5wFAANwCACEI0AEAAKsEADDRAQAArAQAENIBAACrBAAw0wEBANsCACHUAQEA2wIAIeUBAQDbAgAh5gEBANsCACHnAUAA3AIAIQTTAQEAkQMAIeUBAQCRAwAh5gEBAJEDACHnAUAAmwMAIQUTAACdAwAg0wEBAJEDACHlAQEAkQMAIeYBAQCRAwAh5wFAAJsDACEFEwAAnwMAINMBAQAAAAHlAQEAAAAB5gEBAAAAAecBQAAAAAEJCwAA1AMAIAwAANUDACAOAADWAwAg0wEBAAAAAecBQAAAAAHvAQEAAAAB8AECAAAAAfEBQAAAAAHyAQEAAAABAgAAACMAICQAALsEACADAAAAIwAgJAAAuwQAICUAALoEACABHQAAuQUAMA8EAADzAgAgCwAA9QIAIAwAAPgCACAOAADuAgAg0AEAAPcCADDRAQAAIQAQ0gEAAPcCADDTAQEAAAAB1AEBANsCACHnAUAA3AIAIe8BAQDbAgAh8AECAPECACHxAUAA3AIAIfIBAQDbAgAhigIAAPYCACACAAAAIwAgHQAAugQAIAIAAAC4BAAgHQAAuQQAIArQAQAAtwQAMNEBAAC4BAAQ0gEAALcEADDTAQEA2wIAIdQBAQDbAgAh5wFAANwCACHvAQEA2wIAIfABAgDxAgAh8QFAANwCACHyAQEA2wIAIQrQAQAAtwQAMNEBAAC4BAAQ0gEAALcEADDTAQEA2wIAIdQBAQDbAgAh5wFAANwCACHvAQEA2wIAIfABAgDxAgAh8QFAANwCACHyAQEA2wIAIQbTAQEAkQMAIecBQACbAwAh7wEBAJEDACHwAQIAkwMAIfEBQACbAwAh8gEBAJEDACEJCwAAuAMAIAwAALkDACAOAAC6AwAg0wEBAJEDACHnAUAAmwMAIe8BAQCRAwAh8AECAJMDACHxAUAAmwMAIfIBAQCRAwAhCQsAANQDACAMAADVAwAgDgAA1gMAINMBAQAAAAHnAUAAAAAB7wEBAAAAAfABAgAAAAHxAUAAAAAB8gEBAAAAAQcQAADqAwAg0wEBAAAAAdYBAAAA9AEC1wECAAAAAfQBAQAAAAH1AQEAAAAB9gEgAAAAAQIAAAATACAkAADHBAAgAwAAABMAICQAAMcEACAlAADGBAAgAR0AALgFADAMBAAA8wIAIBAAAPgCACDQAQAAgAMAMNEBAAARABDSAQAAgAMAMNMBAQAAAAHUAQEA2wIAIdYBAACBA_QBItcBAgDxAgAh9AEBANsCACH1AQEA5wIAIfYBIADoAgAhAgAAABMAIB0AAMYEACACAAAAxAQAIB0AAMUEACAK0AEAAMMEADDRAQAAxAQAENIBAADDBAAw0wEBANsCACHUAQEA2wIAIdYBAACBA_QBItcBAgDxAgAh9AEBANsCACH1AQEA5wIAIfYBIADoAgAhCtABAADDBAAw0QEAAMQEABDSAQAAwwQAMNMBAQDbAgAh1AEBANsCACHWAQAAgQP0ASLXAQIA8QIAIfQBAQDbAgAh9QEBAOcCACH2ASAA6AIAIQbTAQEAkQMAIdYBAADcA_QBItcBAgCTAwAh9AEBAJEDACH1AQEAlAMAIfYBIADdAwAhBxAAAN8DACDTAQEAkQMAIdYBAADcA_QBItcBAgCTAwAh9AEBAJEDACH1AQEAlAMAIfYBIADdAwAhBxAAAOoDACDTAQEAAAAB1gEAAAD0AQLXAQIAAAAB9AEBAAAAAfUBAQAAAAH2ASAAAAABAgkAAPEDACDpAQEAAAABAgAAAA8AICQAANMEACADAAAADwAgJAAA0wQAICUAANIEACABHQAAtwUAMAgEAADzAgAgCQAA9QIAINABAACDAwAw0QEAAA0AENIBAACDAwAw1AEBANsCACHpAQEA2wIAIYwCAACCAwAgAgAAAA8AIB0AANIEACACAAAA0AQAIB0AANEEACAF0AEAAM8EADDRAQAA0AQAENIBAADPBAAw1AEBANsCACHpAQEA2wIAIQXQAQAAzwQAMNEBAADQBAAQ0gEAAM8EADDUAQEA2wIAIekBAQDbAgAhAekBAQCRAwAhAgkAAO8DACDpAQEAkQMAIQIJAADxAwAg6QEBAAAAAQIHAAD4AwAg9wEBAAAAAQIAAAAJACAkAADcBAAgAwAAAAkAICQAANwEACAlAADbBAAgAR0AALYFADACAAAACQAgHQAA2wQAIAIAAACFBAAgHQAA2gQAIAH3AQEAkQMAIQIHAAD2AwAg9wEBAJEDACECBwAA-AMAIPcBAQAAAAEDJAAAtAUAIJACAAC1BQAglgIAAAEAIAQkAADUBAAwkAIAANUEADCSAgAA1wQAIJYCAACBBAAwBCQAAMgEADCQAgAAyQQAMJICAADLBAAglgIAAMwEADAEJAAAvAQAMJACAAC9BAAwkgIAAL8EACCWAgAAwAQAMAQkAACwBAAwkAIAALEEADCSAgAAswQAIJYCAAC0BAAwBCQAAKQEADCQAgAApQQAMJICAACnBAAglgIAAKgEADAEJAAAmAQAMJACAACZBAAwkgIAAJsEACCWAgAAnAQAMAAAAAGTAgAAAIkCAgskAACRBQAwJQAAlgUAMJACAACSBQAwkQIAAJMFADCSAgAAlAUAIJMCAACVBQAwlAIAAJUFADCVAgAAlQUAMJYCAACVBQAwlwIAAJcFADCYAgAAmAUAMAskAACIBQAwJQAAjAUAMJACAACJBQAwkQIAAIoFADCSAgAAiwUAIJMCAADMBAAwlAIAAMwEADCVAgAAzAQAMJYCAADMBAAwlwIAAI0FADCYAgAAzwQAMAskAAD_BAAwJQAAgwUAMJACAACABQAwkQIAAIEFADCSAgAAggUAIJMCAAC0BAAwlAIAALQEADCVAgAAtAQAMJYCAAC0BAAwlwIAAIQFADCYAgAAtwQAMAskAAD2BAAwJQAA-gQAMJACAAD3BAAwkQIAAPgEADCSAgAA-QQAIJMCAACoBAAwlAIAAKgEADCVAgAAqAQAMJYCAACoBAAwlwIAAPsEADCYAgAAqwQAMAskAADtBAAwJQAA8QQAMJACAADuBAAwkQIAAO8EADCSAgAA8AQAIJMCAAC_AwAwlAIAAL8DADCVAgAAvwMAMJYCAAC_AwAwlwIAAPIEADCYAgAAwgMAMAMNAAClAwAg5wFAAAAAAegBAQAAAAECAAAAHAAgJAAA9QQAIAMAAAAcACAkAAD1BAAgJQAA9AQAIAEdAACzBQAwAgAAABwAIB0AAPQEACACAAAAwwMAIB0AAPMEACAC5wFAAJsDACHoAQEAkQMAIQMNAACjAwAg5wFAAJsDACHoAQEAkQMAIQMNAAClAwAg5wFAAAAAAegBAQAAAAEFBAAAngMAINMBAQAAAAHUAQEAAAAB5gEBAAAAAecBQAAAAAECAAAAJwAgJAAA_gQAIAMAAAAnACAkAAD-BAAgJQAA_QQAIAEdAACyBQAwAgAAACcAIB0AAP0EACACAAAArAQAIB0AAPwEACAE0wEBAJEDACHUAQEAkQMAIeYBAQCRAwAh5wFAAJsDACEFBAAAnAMAINMBAQCRAwAh1AEBAJEDACHmAQEAkQMAIecBQACbAwAhBQQAAJ4DACDTAQEAAAAB1AEBAAAAAeYBAQAAAAHnAUAAAAABCQQAANMDACAMAADVAwAgDgAA1gMAINMBAQAAAAHUAQEAAAAB5wFAAAAAAe8BAQAAAAHwAQIAAAAB8QFAAAAAAQIAAAAjACAkAACHBQAgAwAAACMAICQAAIcFACAlAACGBQAgAR0AALEFADACAAAAIwAgHQAAhgUAIAIAAAC4BAAgHQAAhQUAIAbTAQEAkQMAIdQBAQCRAwAh5wFAAJsDACHvAQEAkQMAIfABAgCTAwAh8QFAAJsDACEJBAAAtwMAIAwAALkDACAOAAC6AwAg0wEBAJEDACHUAQEAkQMAIecBQACbAwAh7wEBAJEDACHwAQIAkwMAIfEBQACbAwAhCQQAANMDACAMAADVAwAgDgAA1gMAINMBAQAAAAHUAQEAAAAB5wFAAAAAAe8BAQAAAAHwAQIAAAAB8QFAAAAAAQIEAADwAwAg1AEBAAAAAQIAAAAPACAkAACQBQAgAwAAAA8AICQAAJAFACAlAACPBQAgAR0AALAFADACAAAADwAgHQAAjwUAIAIAAADQBAAgHQAAjgUAIAHUAQEAkQMAIQIEAADuAwAg1AEBAJEDACECBAAA8AMAINQBAQAAAAEPCAAA3gQAIAoAAN8EACARAADgBAAgEgAA4QQAIBQAAOIEACAVAADjBAAg0wEBAAAAAecBQAAAAAHwAQIAAAAB8QFAAAAAAfQBAQAAAAH1AQEAAAAB_QEAAAD9AQL-AQEAAAAB_wEgAAAAAQIAAAAFACAkAACcBQAgAwAAAAUAICQAAJwFACAlAACbBQAgAR0AAK8FADAUAwAA9QIAIAgAAN0CACAKAADrAgAgEQAAiQMAIBIAAOwCACAUAADtAgAgFQAAigMAINABAACHAwAw0QEAAAMAENIBAACHAwAw0wEBAAAAAecBQADcAgAh8AECAPECACHxAUAA3AIAIfQBAQDbAgAh9QEBAOcCACH9AQAAiAP9ASL-AQEA5wIAIf8BIADoAgAhgAIBANsCACECAAAABQAgHQAAmwUAIAIAAACZBQAgHQAAmgUAIA3QAQAAmAUAMNEBAACZBQAQ0gEAAJgFADDTAQEA2wIAIecBQADcAgAh8AECAPECACHxAUAA3AIAIfQBAQDbAgAh9QEBAOcCACH9AQAAiAP9ASL-AQEA5wIAIf8BIADoAgAhgAIBANsCACEN0AEAAJgFADDRAQAAmQUAENIBAACYBQAw0wEBANsCACHnAUAA3AIAIfABAgDxAgAh8QFAANwCACH0AQEA2wIAIfUBAQDnAgAh_QEAAIgD_QEi_gEBAOcCACH_ASAA6AIAIYACAQDbAgAhCdMBAQCRAwAh5wFAAJsDACHwAQIAkwMAIfEBQACbAwAh9AEBAJEDACH1AQEAlAMAIf0BAACQBP0BIv4BAQCUAwAh_wEgAN0DACEPCAAAkgQAIAoAAJMEACARAACUBAAgEgAAlQQAIBQAAJYEACAVAACXBAAg0wEBAJEDACHnAUAAmwMAIfABAgCTAwAh8QFAAJsDACH0AQEAkQMAIfUBAQCUAwAh_QEAAJAE_QEi_gEBAJQDACH_ASAA3QMAIQ8IAADeBAAgCgAA3wQAIBEAAOAEACASAADhBAAgFAAA4gQAIBUAAOMEACDTAQEAAAAB5wFAAAAAAfABAgAAAAHxAUAAAAAB9AEBAAAAAfUBAQAAAAH9AQAAAP0BAv4BAQAAAAH_ASAAAAABBCQAAJEFADCQAgAAkgUAMJICAACUBQAglgIAAJUFADAEJAAAiAUAMJACAACJBQAwkgIAAIsFACCWAgAAzAQAMAQkAAD_BAAwkAIAAIAFADCSAgAAggUAIJYCAAC0BAAwBCQAAPYEADCQAgAA9wQAMJICAAD5BAAglgIAAKgEADAEJAAA7QQAMJACAADuBAAwkgIAAPAEACCWAgAAvwMAMAAAAAAACQMAAKgFACAIAACKBAAgCgAAowUAIBEAAK0FACASAACkBQAgFAAApQUAIBUAAK4FACD1AQAAiwMAIP4BAACLAwAgCwoAAKMFACAOAACmBQAgEgAApAUAIBYAAKIFACAXAAClBQAg-AEAAIsDACCCAgAAiwMAIIMCAACLAwAghAIAAIsDACCFAgAAiwMAIIYCAACLAwAgAAQEAACnBQAgCwAAqAUAIAwAAKkFACAOAACmBQAgAwQAAKcFACAQAACpBQAg9QEAAIsDACABBQAAigQAIAAACdMBAQAAAAHnAUAAAAAB8AECAAAAAfEBQAAAAAH0AQEAAAAB9QEBAAAAAf0BAAAA_QEC_gEBAAAAAf8BIAAAAAEB1AEBAAAAAQbTAQEAAAAB1AEBAAAAAecBQAAAAAHvAQEAAAAB8AECAAAAAfEBQAAAAAEE0wEBAAAAAdQBAQAAAAHmAQEAAAAB5wFAAAAAAQLnAUAAAAAB6AEBAAAAARAKAACeBQAgDgAAoQUAIBIAAJ8FACAXAACgBQAg0wEBAAAAAecBQAAAAAHxAUAAAAAB-AEBAAAAAYECAQAAAAGCAgEAAAABgwIBAAAAAYQCAQAAAAGFAgEAAAABhgIBAAAAAYcCIAAAAAGJAgAAAIkCAgIAAAABACAkAAC0BQAgAfcBAQAAAAEB6QEBAAAAAQbTAQEAAAAB1gEAAAD0AQLXAQIAAAAB9AEBAAAAAfUBAQAAAAH2ASAAAAABBtMBAQAAAAHnAUAAAAAB7wEBAAAAAfABAgAAAAHxAUAAAAAB8gEBAAAAAQTTAQEAAAAB5QEBAAAAAeYBAQAAAAHnAUAAAAABBdMBAQAAAAHWAQAAANYBAtcBAgAAAAHYAQEAAAAB2QECAAAAAQMAAAA9ACAkAAC0BQAgJQAAvgUAIBIAAAA9ACAKAADpBAAgDgAA7AQAIBIAAOoEACAXAADrBAAgHQAAvgUAINMBAQCRAwAh5wFAAJsDACHxAUAAmwMAIfgBAQCUAwAhgQIBAJEDACGCAgEAlAMAIYMCAQCUAwAhhAIBAJQDACGFAgEAlAMAIYYCAQCUAwAhhwIgAN0DACGJAgAA5wSJAiIQCgAA6QQAIA4AAOwEACASAADqBAAgFwAA6wQAINMBAQCRAwAh5wFAAJsDACHxAUAAmwMAIfgBAQCUAwAhgQIBAJEDACGCAgEAlAMAIYMCAQCUAwAhhAIBAJQDACGFAgEAlAMAIYYCAQCUAwAhhwIgAN0DACGJAgAA5wSJAiIB1AEBAAAAAQPTAQEAAAAB5wFAAAAAAfgBAQAAAAECAAAAaQAgJAAAwAUAIBADAADdBAAgCgAA3wQAIBEAAOAEACASAADhBAAgFAAA4gQAIBUAAOMEACDTAQEAAAAB5wFAAAAAAfABAgAAAAHxAUAAAAAB9AEBAAAAAfUBAQAAAAH9AQAAAP0BAv4BAQAAAAH_ASAAAAABgAIBAAAAAQIAAAAFACAkAADCBQAgAwAAAGwAICQAAMAFACAlAADGBQAgBQAAAGwAIB0AAMYFACDTAQEAkQMAIecBQACbAwAh-AEBAJEDACED0wEBAJEDACHnAUAAmwMAIfgBAQCRAwAhAwAAAAMAICQAAMIFACAlAADJBQAgEgAAAAMAIAMAAJEEACAKAACTBAAgEQAAlAQAIBIAAJUEACAUAACWBAAgFQAAlwQAIB0AAMkFACDTAQEAkQMAIecBQACbAwAh8AECAJMDACHxAUAAmwMAIfQBAQCRAwAh9QEBAJQDACH9AQAAkAT9ASL-AQEAlAMAIf8BIADdAwAhgAIBAJEDACEQAwAAkQQAIAoAAJMEACARAACUBAAgEgAAlQQAIBQAAJYEACAVAACXBAAg0wEBAJEDACHnAUAAmwMAIfABAgCTAwAh8QFAAJsDACH0AQEAkQMAIfUBAQCUAwAh_QEAAJAE_QEi_gEBAJQDACH_ASAA3QMAIYACAQCRAwAhEA4AAKEFACASAACfBQAgFgAAnQUAIBcAAKAFACDTAQEAAAAB5wFAAAAAAfEBQAAAAAH4AQEAAAABgQIBAAAAAYICAQAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAgEAAAABhwIgAAAAAYkCAAAAiQICAgAAAAEAICQAAMoFACAQAwAA3QQAIAgAAN4EACARAADgBAAgEgAA4QQAIBQAAOIEACAVAADjBAAg0wEBAAAAAecBQAAAAAHwAQIAAAAB8QFAAAAAAfQBAQAAAAH1AQEAAAAB_QEAAAD9AQL-AQEAAAAB_wEgAAAAAYACAQAAAAECAAAABQAgJAAAzAUAIAMAAAA9ACAkAADKBQAgJQAA0AUAIBIAAAA9ACAOAADsBAAgEgAA6gQAIBYAAOgEACAXAADrBAAgHQAA0AUAINMBAQCRAwAh5wFAAJsDACHxAUAAmwMAIfgBAQCUAwAhgQIBAJEDACGCAgEAlAMAIYMCAQCUAwAhhAIBAJQDACGFAgEAlAMAIYYCAQCUAwAhhwIgAN0DACGJAgAA5wSJAiIQDgAA7AQAIBIAAOoEACAWAADoBAAgFwAA6wQAINMBAQCRAwAh5wFAAJsDACHxAUAAmwMAIfgBAQCUAwAhgQIBAJEDACGCAgEAlAMAIYMCAQCUAwAhhAIBAJQDACGFAgEAlAMAIYYCAQCUAwAhhwIgAN0DACGJAgAA5wSJAiIDAAAAAwAgJAAAzAUAICUAANMFACASAAAAAwAgAwAAkQQAIAgAAJIEACARAACUBAAgEgAAlQQAIBQAAJYEACAVAACXBAAgHQAA0wUAINMBAQCRAwAh5wFAAJsDACHwAQIAkwMAIfEBQACbAwAh9AEBAJEDACH1AQEAlAMAIf0BAACQBP0BIv4BAQCUAwAh_wEgAN0DACGAAgEAkQMAIRADAACRBAAgCAAAkgQAIBEAAJQEACASAACVBAAgFAAAlgQAIBUAAJcEACDTAQEAkQMAIecBQACbAwAh8AECAJMDACHxAUAAmwMAIfQBAQCRAwAh9QEBAJQDACH9AQAAkAT9ASL-AQEAlAMAIf8BIADdAwAhgAIBAJEDACEQAwAA3QQAIAgAAN4EACAKAADfBAAgEgAA4QQAIBQAAOIEACAVAADjBAAg0wEBAAAAAecBQAAAAAHwAQIAAAAB8QFAAAAAAfQBAQAAAAH1AQEAAAAB_QEAAAD9AQL-AQEAAAAB_wEgAAAAAYACAQAAAAECAAAABQAgJAAA1AUAIAbTAQEAAAAB6AEBAAAAAesBAQAAAAHsAQgAAAAB7QEgAAAAAe4BAQAAAAEDAAAAAwAgJAAA1AUAICUAANkFACASAAAAAwAgAwAAkQQAIAgAAJIEACAKAACTBAAgEgAAlQQAIBQAAJYEACAVAACXBAAgHQAA2QUAINMBAQCRAwAh5wFAAJsDACHwAQIAkwMAIfEBQACbAwAh9AEBAJEDACH1AQEAlAMAIf0BAACQBP0BIv4BAQCUAwAh_wEgAN0DACGAAgEAkQMAIRADAACRBAAgCAAAkgQAIAoAAJMEACASAACVBAAgFAAAlgQAIBUAAJcEACDTAQEAkQMAIecBQACbAwAh8AECAJMDACHxAUAAmwMAIfQBAQCRAwAh9QEBAJQDACH9AQAAkAT9ASL-AQEAlAMAIf8BIADdAwAhgAIBAJEDACEQCgAAngUAIA4AAKEFACAWAACdBQAgFwAAoAUAINMBAQAAAAHnAUAAAAAB8QFAAAAAAfgBAQAAAAGBAgEAAAABggIBAAAAAYMCAQAAAAGEAgEAAAABhQIBAAAAAYYCAQAAAAGHAiAAAAABiQIAAACJAgICAAAAAQAgJAAA2gUAIBADAADdBAAgCAAA3gQAIAoAAN8EACARAADgBAAgFAAA4gQAIBUAAOMEACDTAQEAAAAB5wFAAAAAAfABAgAAAAHxAUAAAAAB9AEBAAAAAfUBAQAAAAH9AQAAAP0BAv4BAQAAAAH_ASAAAAABgAIBAAAAAQIAAAAFACAkAADcBQAgBtMBAQAAAAHqAQEAAAAB6wEBAAAAAewBCAAAAAHtASAAAAAB7gEBAAAAAQLnAUAAAAAB6QEBAAAAAQMAAAA9ACAkAADaBQAgJQAA4gUAIBIAAAA9ACAKAADpBAAgDgAA7AQAIBYAAOgEACAXAADrBAAgHQAA4gUAINMBAQCRAwAh5wFAAJsDACHxAUAAmwMAIfgBAQCUAwAhgQIBAJEDACGCAgEAlAMAIYMCAQCUAwAhhAIBAJQDACGFAgEAlAMAIYYCAQCUAwAhhwIgAN0DACGJAgAA5wSJAiIQCgAA6QQAIA4AAOwEACAWAADoBAAgFwAA6wQAINMBAQCRAwAh5wFAAJsDACHxAUAAmwMAIfgBAQCUAwAhgQIBAJEDACGCAgEAlAMAIYMCAQCUAwAhhAIBAJQDACGFAgEAlAMAIYYCAQCUAwAhhwIgAN0DACGJAgAA5wSJAiIDAAAAAwAgJAAA3AUAICUAAOUFACASAAAAAwAgAwAAkQQAIAgAAJIEACAKAACTBAAgEQAAlAQAIBQAAJYEACAVAACXBAAgHQAA5QUAINMBAQCRAwAh5wFAAJsDACHwAQIAkwMAIfEBQACbAwAh9AEBAJEDACH1AQEAlAMAIf0BAACQBP0BIv4BAQCUAwAh_wEgAN0DACGAAgEAkQMAIRADAACRBAAgCAAAkgQAIAoAAJMEACARAACUBAAgFAAAlgQAIBUAAJcEACDTAQEAkQMAIecBQACbAwAh8AECAJMDACHxAUAAmwMAIfQBAQCRAwAh9QEBAJQDACH9AQAAkAT9ASL-AQEAlAMAIf8BIADdAwAhgAIBAJEDACEIBAAA6QMAINMBAQAAAAHUAQEAAAAB1gEAAAD0AQLXAQIAAAAB9AEBAAAAAfUBAQAAAAH2ASAAAAABAgAAABMAICQAAOYFACAKBAAA0wMAIAsAANQDACAOAADWAwAg0wEBAAAAAdQBAQAAAAHnAUAAAAAB7wEBAAAAAfABAgAAAAHxAUAAAAAB8gEBAAAAAQIAAAAjACAkAADoBQAgAwAAABEAICQAAOYFACAlAADsBQAgCgAAABEAIAQAAN4DACAdAADsBQAg0wEBAJEDACHUAQEAkQMAIdYBAADcA_QBItcBAgCTAwAh9AEBAJEDACH1AQEAlAMAIfYBIADdAwAhCAQAAN4DACDTAQEAkQMAIdQBAQCRAwAh1gEAANwD9AEi1wECAJMDACH0AQEAkQMAIfUBAQCUAwAh9gEgAN0DACEDAAAAIQAgJAAA6AUAICUAAO8FACAMAAAAIQAgBAAAtwMAIAsAALgDACAOAAC6AwAgHQAA7wUAINMBAQCRAwAh1AEBAJEDACHnAUAAmwMAIe8BAQCRAwAh8AECAJMDACHxAUAAmwMAIfIBAQCRAwAhCgQAALcDACALAAC4AwAgDgAAugMAINMBAQCRAwAh1AEBAJEDACHnAUAAmwMAIe8BAQCRAwAh8AECAJMDACHxAUAAmwMAIfIBAQCRAwAhEAoAAJ4FACASAACfBQAgFgAAnQUAIBcAAKAFACDTAQEAAAAB5wFAAAAAAfEBQAAAAAH4AQEAAAABgQIBAAAAAYICAQAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAgEAAAABhwIgAAAAAYkCAAAAiQICAgAAAAEAICQAAPAFACAKBAAA0wMAIAsAANQDACAMAADVAwAg0wEBAAAAAdQBAQAAAAHnAUAAAAAB7wEBAAAAAfABAgAAAAHxAUAAAAAB8gEBAAAAAQIAAAAjACAkAADyBQAgAwAAAD0AICQAAPAFACAlAAD2BQAgEgAAAD0AIAoAAOkEACASAADqBAAgFgAA6AQAIBcAAOsEACAdAAD2BQAg0wEBAJEDACHnAUAAmwMAIfEBQACbAwAh-AEBAJQDACGBAgEAkQMAIYICAQCUAwAhgwIBAJQDACGEAgEAlAMAIYUCAQCUAwAhhgIBAJQDACGHAiAA3QMAIYkCAADnBIkCIhAKAADpBAAgEgAA6gQAIBYAAOgEACAXAADrBAAg0wEBAJEDACHnAUAAmwMAIfEBQACbAwAh-AEBAJQDACGBAgEAkQMAIYICAQCUAwAhgwIBAJQDACGEAgEAlAMAIYUCAQCUAwAhhgIBAJQDACGHAiAA3QMAIYkCAADnBIkCIgMAAAAhACAkAADyBQAgJQAA-QUAIAwAAAAhACAEAAC3AwAgCwAAuAMAIAwAALkDACAdAAD5BQAg0wEBAJEDACHUAQEAkQMAIecBQACbAwAh7wEBAJEDACHwAQIAkwMAIfEBQACbAwAh8gEBAJEDACEKBAAAtwMAIAsAALgDACAMAAC5AwAg0wEBAJEDACHUAQEAkQMAIecBQACbAwAh7wEBAJEDACHwAQIAkwMAIfEBQACbAwAh8gEBAJEDACEQCgAAngUAIA4AAKEFACASAACfBQAgFgAAnQUAINMBAQAAAAHnAUAAAAAB8QFAAAAAAfgBAQAAAAGBAgEAAAABggIBAAAAAYMCAQAAAAGEAgEAAAABhQIBAAAAAYYCAQAAAAGHAiAAAAABiQIAAACJAgICAAAAAQAgJAAA-gUAIBADAADdBAAgCAAA3gQAIAoAAN8EACARAADgBAAgEgAA4QQAIBUAAOMEACDTAQEAAAAB5wFAAAAAAfABAgAAAAHxAUAAAAAB9AEBAAAAAfUBAQAAAAH9AQAAAP0BAv4BAQAAAAH_ASAAAAABgAIBAAAAAQIAAAAFACAkAAD8BQAgAwAAAD0AICQAAPoFACAlAACABgAgEgAAAD0AIAoAAOkEACAOAADsBAAgEgAA6gQAIBYAAOgEACAdAACABgAg0wEBAJEDACHnAUAAmwMAIfEBQACbAwAh-AEBAJQDACGBAgEAkQMAIYICAQCUAwAhgwIBAJQDACGEAgEAlAMAIYUCAQCUAwAhhgIBAJQDACGHAiAA3QMAIYkCAADnBIkCIhAKAADpBAAgDgAA7AQAIBIAAOoEACAWAADoBAAg0wEBAJEDACHnAUAAmwMAIfEBQACbAwAh-AEBAJQDACGBAgEAkQMAIYICAQCUAwAhgwIBAJQDACGEAgEAlAMAIYUCAQCUAwAhhgIBAJQDACGHAiAA3QMAIYkCAADnBIkCIgMAAAADACAkAAD8BQAgJQAAgwYAIBIAAAADACADAACRBAAgCAAAkgQAIAoAAJMEACARAACUBAAgEgAAlQQAIBUAAJcEACAdAACDBgAg0wEBAJEDACHnAUAAmwMAIfABAgCTAwAh8QFAAJsDACH0AQEAkQMAIfUBAQCUAwAh_QEAAJAE_QEi_gEBAJQDACH_ASAA3QMAIYACAQCRAwAhEAMAAJEEACAIAACSBAAgCgAAkwQAIBEAAJQEACASAACVBAAgFQAAlwQAINMBAQCRAwAh5wFAAJsDACHwAQIAkwMAIfEBQACbAwAh9AEBAJEDACH1AQEAlAMAIf0BAACQBP0BIv4BAQCUAwAh_wEgAN0DACGAAgEAkQMAIRADAADdBAAgCAAA3gQAIAoAAN8EACARAADgBAAgEgAA4QQAIBQAAOIEACDTAQEAAAAB5wFAAAAAAfABAgAAAAHxAUAAAAAB9AEBAAAAAfUBAQAAAAH9AQAAAP0BAv4BAQAAAAH_ASAAAAABgAIBAAAAAQIAAAAFACAkAACEBgAgAwAAAAMAICQAAIQGACAlAACIBgAgEgAAAAMAIAMAAJEEACAIAACSBAAgCgAAkwQAIBEAAJQEACASAACVBAAgFAAAlgQAIB0AAIgGACDTAQEAkQMAIecBQACbAwAh8AECAJMDACHxAUAAmwMAIfQBAQCRAwAh9QEBAJQDACH9AQAAkAT9ASL-AQEAlAMAIf8BIADdAwAhgAIBAJEDACEQAwAAkQQAIAgAAJIEACAKAACTBAAgEQAAlAQAIBIAAJUEACAUAACWBAAg0wEBAJEDACHnAUAAmwMAIfABAgCTAwAh8QFAAJsDACH0AQEAkQMAIfUBAQCUAwAh_QEAAJAE_QEi_gEBAJQDACH_ASAA3QMAIYACAQCRAwAhBgYAEAozBg42ChI0CRYGAhc1DQgDAAEGAA8ICgMKEAYRFAcSJAkUKA0VLA4CBAACBwAEAgULAwYABQEFDAACBAACCQABAwQAAgYADBAYCAINAAkPAAcFBAACBgALCwABDBkIDh0KAgkAAQ0ACQIMHgAOHwABECAAAgQAAhMAAQEEAAIGCC0ACi4AES8AEjAAFDEAFTIABQo4AA47ABI5ABY3ABc6AAAAAAMGABUqABYrABcAAAADBgAVKgAWKwAXAQMAAQEDAAEFBgAcKgAfKwAgPAAdPQAeAAAAAAAFBgAcKgAfKwAgPAAdPQAeAAADBgAlKgAmKwAnAAAAAwYAJSoAJisAJwIEAAIHAAQCBAACBwAEAwYALCoALSsALgAAAAMGACwqAC0rAC4CBAACCQABAgQAAgkAAQMGADMqADQrADUAAAADBgAzKgA0KwA1AQQAAgEEAAIFBgA6KgA9KwA-PAA7PQA8AAAAAAAFBgA6KgA9KwA-PAA7PQA8AgQAAgsAAQIEAAILAAEFBgBDKgBGKwBHPABEPQBFAAAAAAAFBgBDKgBGKwBHPABEPQBFAg0ACQ8ABwINAAkPAAcFBgBMKgBPKwBQPABNPQBOAAAAAAAFBgBMKgBPKwBQPABNPQBOAgkAAQ0ACQIJAAENAAkDBgBVKgBWKwBXAAAAAwYAVSoAVisAVwIEAAITAAECBAACEwABAwYAXCoAXSsAXgAAAAMGAFwqAF0rAF4BBAACAQQAAgUGAGMqAGYrAGc8AGQ9AGUAAAAAAAUGAGMqAGYrAGc8AGQ9AGUYAgEZPAEaPwEbQAEcQQEeQwEfRREgRhIhSAEiShEjSxMmTAEnTQEoThEsURQtUhguUwIvVAIwVQIxVgIyVwIzWQI0WxE1XBk2XgI3YBE4YRo5YgI6YwI7ZBE-Zxs_aCFAagRBawRCbgRDbwREcARFcgRGdBFHdSJIdwRJeRFKeiNLewRMfARNfRFOgAEkT4EBKFCCAQNRgwEDUoQBA1OFAQNUhgEDVYgBA1aKARFXiwEpWI0BA1mPARFakAEqW5EBA1ySAQNdkwERXpYBK1-XAS9gmAEGYZkBBmKaAQZjmwEGZJwBBmWeAQZmoAERZ6EBMGijAQZppQERaqYBMWunAQZsqAEGbakBEW6sATJvrQE2cK4BB3GvAQdysAEHc7EBB3SyAQd1tAEHdrYBEXe3ATd4uQEHebsBEXq8ATh7vQEHfL4BB32_ARF-wgE5f8MBP4ABxAEJgQHFAQmCAcYBCYMBxwEJhAHIAQmFAcoBCYYBzAERhwHNAUCIAc8BCYkB0QERigHSAUGLAdMBCYwB1AEJjQHVARGOAdgBQo8B2QFIkAHaAQiRAdsBCJIB3AEIkwHdAQiUAd4BCJUB4AEIlgHiARGXAeMBSZgB5QEImQHnARGaAegBSpsB6QEInAHqAQidAesBEZ4B7gFLnwHvAVGgAfABCqEB8QEKogHyAQqjAfMBCqQB9AEKpQH2AQqmAfgBEacB-QFSqAH7AQqpAf0BEaoB_gFTqwH_AQqsAYACCq0BgQIRrgGEAlSvAYUCWLABhgINsQGHAg2yAYgCDbMBiQINtAGKAg21AYwCDbYBjgIRtwGPAlm4AZECDbkBkwIRugGUAlq7AZUCDbwBlgINvQGXAhG-AZoCW78BmwJfwAGcAg7BAZ0CDsIBngIOwwGfAg7EAaACDsUBogIOxgGkAhHHAaUCYMgBpwIOyQGpAhHKAaoCYcsBqwIOzAGsAg7NAa0CEc4BsAJizwGxAmg"
+  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"owner\",\"inventory\",\"inventories\",\"tag\",\"synonyms\",\"_count\",\"tags\",\"user\",\"writeAccess\",\"createdBy\",\"fieldValues\",\"item\",\"likes\",\"field\",\"attachments\",\"author\",\"revisions\",\"customIdAliases\",\"values\",\"options\",\"customIdElements\",\"fields\",\"items\",\"discussion\",\"ownedInventories\",\"discussionPosts\",\"itemRevisions\",\"savedSearch\",\"alerts\",\"savedSearches\",\"User.findUnique\",\"User.findUniqueOrThrow\",\"User.findFirst\",\"User.findFirstOrThrow\",\"User.findMany\",\"data\",\"User.createOne\",\"User.createMany\",\"User.createManyAndReturn\",\"User.updateOne\",\"User.updateMany\",\"User.updateManyAndReturn\",\"create\",\"update\",\"User.upsertOne\",\"User.deleteOne\",\"User.deleteMany\",\"having\",\"_min\",\"_max\",\"User.groupBy\",\"User.aggregate\",\"Inventory.findUnique\",\"Inventory.findUniqueOrThrow\",\"Inventory.findFirst\",\"Inventory.findFirstOrThrow\",\"Inventory.findMany\",\"Inventory.createOne\",\"Inventory.createMany\",\"Inventory.createManyAndReturn\",\"Inventory.updateOne\",\"Inventory.updateMany\",\"Inventory.updateManyAndReturn\",\"Inventory.upsertOne\",\"Inventory.deleteOne\",\"Inventory.deleteMany\",\"_avg\",\"_sum\",\"Inventory.groupBy\",\"Inventory.aggregate\",\"Tag.findUnique\",\"Tag.findUniqueOrThrow\",\"Tag.findFirst\",\"Tag.findFirstOrThrow\",\"Tag.findMany\",\"Tag.createOne\",\"Tag.createMany\",\"Tag.createManyAndReturn\",\"Tag.updateOne\",\"Tag.updateMany\",\"Tag.updateManyAndReturn\",\"Tag.upsertOne\",\"Tag.deleteOne\",\"Tag.deleteMany\",\"Tag.groupBy\",\"Tag.aggregate\",\"TagSynonym.findUnique\",\"TagSynonym.findUniqueOrThrow\",\"TagSynonym.findFirst\",\"TagSynonym.findFirstOrThrow\",\"TagSynonym.findMany\",\"TagSynonym.createOne\",\"TagSynonym.createMany\",\"TagSynonym.createManyAndReturn\",\"TagSynonym.updateOne\",\"TagSynonym.updateMany\",\"TagSynonym.updateManyAndReturn\",\"TagSynonym.upsertOne\",\"TagSynonym.deleteOne\",\"TagSynonym.deleteMany\",\"TagSynonym.groupBy\",\"TagSynonym.aggregate\",\"InventoryTag.findUnique\",\"InventoryTag.findUniqueOrThrow\",\"InventoryTag.findFirst\",\"InventoryTag.findFirstOrThrow\",\"InventoryTag.findMany\",\"InventoryTag.createOne\",\"InventoryTag.createMany\",\"InventoryTag.createManyAndReturn\",\"InventoryTag.updateOne\",\"InventoryTag.updateMany\",\"InventoryTag.updateManyAndReturn\",\"InventoryTag.upsertOne\",\"InventoryTag.deleteOne\",\"InventoryTag.deleteMany\",\"InventoryTag.groupBy\",\"InventoryTag.aggregate\",\"InventoryWriteAccess.findUnique\",\"InventoryWriteAccess.findUniqueOrThrow\",\"InventoryWriteAccess.findFirst\",\"InventoryWriteAccess.findFirstOrThrow\",\"InventoryWriteAccess.findMany\",\"InventoryWriteAccess.createOne\",\"InventoryWriteAccess.createMany\",\"InventoryWriteAccess.createManyAndReturn\",\"InventoryWriteAccess.updateOne\",\"InventoryWriteAccess.updateMany\",\"InventoryWriteAccess.updateManyAndReturn\",\"InventoryWriteAccess.upsertOne\",\"InventoryWriteAccess.deleteOne\",\"InventoryWriteAccess.deleteMany\",\"InventoryWriteAccess.groupBy\",\"InventoryWriteAccess.aggregate\",\"InventoryField.findUnique\",\"InventoryField.findUniqueOrThrow\",\"InventoryField.findFirst\",\"InventoryField.findFirstOrThrow\",\"InventoryField.findMany\",\"InventoryField.createOne\",\"InventoryField.createMany\",\"InventoryField.createManyAndReturn\",\"InventoryField.updateOne\",\"InventoryField.updateMany\",\"InventoryField.updateManyAndReturn\",\"InventoryField.upsertOne\",\"InventoryField.deleteOne\",\"InventoryField.deleteMany\",\"InventoryField.groupBy\",\"InventoryField.aggregate\",\"InventoryFieldOption.findUnique\",\"InventoryFieldOption.findUniqueOrThrow\",\"InventoryFieldOption.findFirst\",\"InventoryFieldOption.findFirstOrThrow\",\"InventoryFieldOption.findMany\",\"InventoryFieldOption.createOne\",\"InventoryFieldOption.createMany\",\"InventoryFieldOption.createManyAndReturn\",\"InventoryFieldOption.updateOne\",\"InventoryFieldOption.updateMany\",\"InventoryFieldOption.updateManyAndReturn\",\"InventoryFieldOption.upsertOne\",\"InventoryFieldOption.deleteOne\",\"InventoryFieldOption.deleteMany\",\"InventoryFieldOption.groupBy\",\"InventoryFieldOption.aggregate\",\"Item.findUnique\",\"Item.findUniqueOrThrow\",\"Item.findFirst\",\"Item.findFirstOrThrow\",\"Item.findMany\",\"Item.createOne\",\"Item.createMany\",\"Item.createManyAndReturn\",\"Item.updateOne\",\"Item.updateMany\",\"Item.updateManyAndReturn\",\"Item.upsertOne\",\"Item.deleteOne\",\"Item.deleteMany\",\"Item.groupBy\",\"Item.aggregate\",\"ItemFieldValue.findUnique\",\"ItemFieldValue.findUniqueOrThrow\",\"ItemFieldValue.findFirst\",\"ItemFieldValue.findFirstOrThrow\",\"ItemFieldValue.findMany\",\"ItemFieldValue.createOne\",\"ItemFieldValue.createMany\",\"ItemFieldValue.createManyAndReturn\",\"ItemFieldValue.updateOne\",\"ItemFieldValue.updateMany\",\"ItemFieldValue.updateManyAndReturn\",\"ItemFieldValue.upsertOne\",\"ItemFieldValue.deleteOne\",\"ItemFieldValue.deleteMany\",\"ItemFieldValue.groupBy\",\"ItemFieldValue.aggregate\",\"ItemAttachment.findUnique\",\"ItemAttachment.findUniqueOrThrow\",\"ItemAttachment.findFirst\",\"ItemAttachment.findFirstOrThrow\",\"ItemAttachment.findMany\",\"ItemAttachment.createOne\",\"ItemAttachment.createMany\",\"ItemAttachment.createManyAndReturn\",\"ItemAttachment.updateOne\",\"ItemAttachment.updateMany\",\"ItemAttachment.updateManyAndReturn\",\"ItemAttachment.upsertOne\",\"ItemAttachment.deleteOne\",\"ItemAttachment.deleteMany\",\"ItemAttachment.groupBy\",\"ItemAttachment.aggregate\",\"ItemRevision.findUnique\",\"ItemRevision.findUniqueOrThrow\",\"ItemRevision.findFirst\",\"ItemRevision.findFirstOrThrow\",\"ItemRevision.findMany\",\"ItemRevision.createOne\",\"ItemRevision.createMany\",\"ItemRevision.createManyAndReturn\",\"ItemRevision.updateOne\",\"ItemRevision.updateMany\",\"ItemRevision.updateManyAndReturn\",\"ItemRevision.upsertOne\",\"ItemRevision.deleteOne\",\"ItemRevision.deleteMany\",\"ItemRevision.groupBy\",\"ItemRevision.aggregate\",\"ItemCustomIdAlias.findUnique\",\"ItemCustomIdAlias.findUniqueOrThrow\",\"ItemCustomIdAlias.findFirst\",\"ItemCustomIdAlias.findFirstOrThrow\",\"ItemCustomIdAlias.findMany\",\"ItemCustomIdAlias.createOne\",\"ItemCustomIdAlias.createMany\",\"ItemCustomIdAlias.createManyAndReturn\",\"ItemCustomIdAlias.updateOne\",\"ItemCustomIdAlias.updateMany\",\"ItemCustomIdAlias.updateManyAndReturn\",\"ItemCustomIdAlias.upsertOne\",\"ItemCustomIdAlias.deleteOne\",\"ItemCustomIdAlias.deleteMany\",\"ItemCustomIdAlias.groupBy\",\"ItemCustomIdAlias.aggregate\",\"ItemLike.findUnique\",\"ItemLike.findUniqueOrThrow\",\"ItemLike.findFirst\",\"ItemLike.findFirstOrThrow\",\"ItemLike.findMany\",\"ItemLike.createOne\",\"ItemLike.createMany\",\"ItemLike.createManyAndReturn\",\"ItemLike.updateOne\",\"ItemLike.updateMany\",\"ItemLike.updateManyAndReturn\",\"ItemLike.upsertOne\",\"ItemLike.deleteOne\",\"ItemLike.deleteMany\",\"ItemLike.groupBy\",\"ItemLike.aggregate\",\"DiscussionPost.findUnique\",\"DiscussionPost.findUniqueOrThrow\",\"DiscussionPost.findFirst\",\"DiscussionPost.findFirstOrThrow\",\"DiscussionPost.findMany\",\"DiscussionPost.createOne\",\"DiscussionPost.createMany\",\"DiscussionPost.createManyAndReturn\",\"DiscussionPost.updateOne\",\"DiscussionPost.updateMany\",\"DiscussionPost.updateManyAndReturn\",\"DiscussionPost.upsertOne\",\"DiscussionPost.deleteOne\",\"DiscussionPost.deleteMany\",\"DiscussionPost.groupBy\",\"DiscussionPost.aggregate\",\"InventoryCustomIdElement.findUnique\",\"InventoryCustomIdElement.findUniqueOrThrow\",\"InventoryCustomIdElement.findFirst\",\"InventoryCustomIdElement.findFirstOrThrow\",\"InventoryCustomIdElement.findMany\",\"InventoryCustomIdElement.createOne\",\"InventoryCustomIdElement.createMany\",\"InventoryCustomIdElement.createManyAndReturn\",\"InventoryCustomIdElement.updateOne\",\"InventoryCustomIdElement.updateMany\",\"InventoryCustomIdElement.updateManyAndReturn\",\"InventoryCustomIdElement.upsertOne\",\"InventoryCustomIdElement.deleteOne\",\"InventoryCustomIdElement.deleteMany\",\"InventoryCustomIdElement.groupBy\",\"InventoryCustomIdElement.aggregate\",\"SavedSearch.findUnique\",\"SavedSearch.findUniqueOrThrow\",\"SavedSearch.findFirst\",\"SavedSearch.findFirstOrThrow\",\"SavedSearch.findMany\",\"SavedSearch.createOne\",\"SavedSearch.createMany\",\"SavedSearch.createManyAndReturn\",\"SavedSearch.updateOne\",\"SavedSearch.updateMany\",\"SavedSearch.updateManyAndReturn\",\"SavedSearch.upsertOne\",\"SavedSearch.deleteOne\",\"SavedSearch.deleteMany\",\"SavedSearch.groupBy\",\"SavedSearch.aggregate\",\"SavedSearchAlert.findUnique\",\"SavedSearchAlert.findUniqueOrThrow\",\"SavedSearchAlert.findFirst\",\"SavedSearchAlert.findFirstOrThrow\",\"SavedSearchAlert.findMany\",\"SavedSearchAlert.createOne\",\"SavedSearchAlert.createMany\",\"SavedSearchAlert.createManyAndReturn\",\"SavedSearchAlert.updateOne\",\"SavedSearchAlert.updateMany\",\"SavedSearchAlert.updateManyAndReturn\",\"SavedSearchAlert.upsertOne\",\"SavedSearchAlert.deleteOne\",\"SavedSearchAlert.deleteMany\",\"SavedSearchAlert.groupBy\",\"SavedSearchAlert.aggregate\",\"AppSetting.findUnique\",\"AppSetting.findUniqueOrThrow\",\"AppSetting.findFirst\",\"AppSetting.findFirstOrThrow\",\"AppSetting.findMany\",\"AppSetting.createOne\",\"AppSetting.createMany\",\"AppSetting.createManyAndReturn\",\"AppSetting.updateOne\",\"AppSetting.updateMany\",\"AppSetting.updateManyAndReturn\",\"AppSetting.upsertOne\",\"AppSetting.deleteOne\",\"AppSetting.deleteMany\",\"AppSetting.groupBy\",\"AppSetting.aggregate\",\"AND\",\"OR\",\"NOT\",\"key\",\"value\",\"updatedAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"contains\",\"startsWith\",\"endsWith\",\"id\",\"savedSearchId\",\"kind\",\"targetId\",\"inventoryId\",\"title\",\"readAt\",\"createdAt\",\"userId\",\"name\",\"query\",\"filters\",\"notify\",\"lastCheckedAt\",\"lastCheckedKind\",\"lastCheckedId\",\"CustomIdElementType\",\"type\",\"orderIndex\",\"fixedText\",\"numberWidth\",\"fieldId\",\"upperCase\",\"CustomIdCheckDigit\",\"checkDigit\",\"dateFormat\",\"timeZone\",\"authorId\",\"content\",\"itemId\",\"customId\",\"version\",\"customIdBefore\",\"customIdAfter\",\"changes\",\"revertOfId\",\"storageKey\",\"fileName\",\"mimeType\",\"size\",\"valueString\",\"valueNumber\",\"valueBoolean\",\"valueLink\",\"valueDate\",\"valueOptions\",\"has\",\"hasEvery\",\"hasSome\",\"deletedAt\",\"createdById\",\"label\",\"color\",\"InventoryFieldType\",\"description\",\"showInTable\",\"required\",\"minValue\",\"maxValue\",\"maxLength\",\"pattern\",\"allowedSchemes\",\"tagId\",\"every\",\"some\",\"none\",\"InventoryCategory\",\"category\",\"imageUrl\",\"isPublic\",\"fieldLimits\",\"archivedAt\",\"nextSequence\",\"allowFreeFormCustomIds\",\"ownerId\",\"email\",\"avatarUrl\",\"passwordHash\",\"googleId\",\"facebookId\",\"githubId\",\"isBlocked\",\"UserRole\",\"role\",\"savedSearchId_kind_targetId\",\"userId_name\",\"inventoryId_customId\",\"itemId_userId\",\"inventoryId_userId\",\"inventoryId_tagId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"push\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
+  graph: "lAqvAbACFgsAAP4EACAPAADuBAAgGQAA_wQAIBsAAP0EACAcAACABQAgHQAA8AQAICAAAIEFACDZAgAA-wQAMNoCAAArABDbAgAA-wQAMN4CQAChBAAh8AIBAAAAAfcCQAChBAAh-QIBAOUEACG7AwEAAAABvAMBAOUEACG9AwEA5QQAIb4DAQAAAAG_AwEAAAABwAMBAAAAAcEDIADkBAAhwwMAAPwEwwMiAQAAAAEAIBgDAADmBAAgCQAA0gQAIAsAAP4EACAXAACNBQAgGAAAlwUAIBkAAP8EACAaAACABQAg2QIAAJQFADDaAgAAAwAQ2wIAAJQFADDeAkAAoQQAIfACAQCfBAAh9QIBAJ8EACH3AkAAoQQAIY8DAgDsBAAhpgMBAOUEACGzAwAAlQWzAyK0AwEA5QQAIbUDIADkBAAhtgMAAJYFACC3A0AA4AQAIbgDAgDsBAAhuQMgAOQEACG6AwEAnwQAIQsDAADzCAAgCQAAvAcAIAsAAOwIACAXAAD8CAAgGAAA_ggAIBkAAO0IACAaAADuCAAgpgMAAJ0FACC0AwAAnQUAILYDAACdBQAgtwMAAJ0FACAYAwAA5gQAIAkAANIEACALAAD-BAAgFwAAjQUAIBgAAJcFACAZAAD_BAAgGgAAgAUAINkCAACUBQAw2gIAAAMAENsCAACUBQAw3gJAAKEEACHwAgEAAAAB9QIBAJ8EACH3AkAAoQQAIY8DAgDsBAAhpgMBAOUEACGzAwAAlQWzAyK0AwEA5QQAIbUDIADkBAAhtgMAAJYFACC3A0AA4AQAIbgDAgDsBAAhuQMgAOQEACG6AwEAnwQAIQMAAAADACABAAAEADACAAAFACAHBAAA6QQAIAYAAJEFACDZAgAAkwUAMNoCAAAHABDbAgAAkwUAMPQCAQCfBAAhrgMBAJ8EACECBAAA9QgAIAYAAP0IACAIBAAA6QQAIAYAAJEFACDZAgAAkwUAMNoCAAAHABDbAgAAkwUAMPQCAQCfBAAhrgMBAJ8EACHJAwAAkgUAIAMAAAAHACABAAAIADACAAAJACADAAAABwAgAQAACAAwAgAACQAgCAYAAJEFACDZAgAAkAUAMNoCAAAMABDbAgAAkAUAMPACAQCfBAAh9wJAAKEEACH5AgEAnwQAIa4DAQCfBAAhAQYAAP0IACAIBgAAkQUAINkCAACQBQAw2gIAAAwAENsCAACQBQAw8AIBAAAAAfcCQAChBAAh-QIBAAAAAa4DAQCfBAAhAwAAAAwAIAEAAA0AMAIAAA4AIAEAAAAHACABAAAADAAgBwQAAOkEACAKAADmBAAg2QIAAI8FADDaAgAAEgAQ2wIAAI8FADD0AgEAnwQAIfgCAQCfBAAhAgQAAPUIACAKAADzCAAgCAQAAOkEACAKAADmBAAg2QIAAI8FADDaAgAAEgAQ2wIAAI8FADD0AgEAnwQAIfgCAQCfBAAhyAMAAI4FACADAAAAEgAgAQAAEwAwAgAAFAAgFQQAAOkEACARAADvBAAgFQAA7QQAIBYAAIwFACAXAACNBQAg2QIAAIoFADDaAgAAFgAQ2wIAAIoFADDwAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACGBAwAAiwWmAyKCAwIA7AQAIaYDAQDlBAAhpwMgAOQEACGoAyAA5AQAIakDCACIBQAhqgMIAIgFACGrAwIA9AQAIawDAQDlBAAhrQMAAMMEACAKBAAA9QgAIBEAAPcIACAVAAD2CAAgFgAA-wgAIBcAAPwIACCmAwAAnQUAIKkDAACdBQAgqgMAAJ0FACCrAwAAnQUAIKwDAACdBQAgFQQAAOkEACARAADvBAAgFQAA7QQAIBYAAIwFACAXAACNBQAg2QIAAIoFADDaAgAAFgAQ2wIAAIoFADDwAgEAAAAB9AIBAJ8EACH1AgEAnwQAIYEDAACLBaYDIoIDAgDsBAAhpgMBAOUEACGnAyAA5AQAIagDIADkBAAhqQMIAIgFACGqAwgAiAUAIasDAgD0BAAhrAMBAOUEACGtAwAAwwQAIAMAAAAWACABAAAXADACAAAYACAODgAA-gQAIBAAAPgEACDZAgAAhwUAMNoCAAAaABDbAgAAhwUAMPACAQCfBAAhhQMBAJ8EACGNAwEAnwQAIZgDAQDlBAAhmQMIAIgFACGaAyAAiQUAIZsDAQDlBAAhnANAAOAEACGdAwAAwwQAIAcOAAD6CAAgEAAA-QgAIJgDAACdBQAgmQMAAJ0FACCaAwAAnQUAIJsDAACdBQAgnAMAAJ0FACAODgAA-gQAIBAAAPgEACDZAgAAhwUAMNoCAAAaABDbAgAAhwUAMPACAQAAAAGFAwEAnwQAIY0DAQCfBAAhmAMBAOUEACGZAwgAiAUAIZoDIACJBQAhmwMBAOUEACGcA0AA4AQAIZ0DAADDBAAgAwAAABoAIAEAABsAMAIAABwAIAMAAAAaACABAAAbADACAAAcACAICgAA5gQAIA4AAPoEACDZAgAAhgUAMNoCAAAfABDbAgAAhgUAMPcCQAChBAAh-AIBAJ8EACGNAwEAnwQAIQIKAADzCAAgDgAA-ggAIAkKAADmBAAgDgAA-gQAINkCAACGBQAw2gIAAB8AENsCAACGBQAw9wJAAKEEACH4AgEAnwQAIY0DAQCfBAAhxwMAAIUFACADAAAAHwAgAQAAIAAwAgAAIQAgDQ4AAPoEACAQAAD4BAAg2QIAAIQFADDaAgAAIwAQ2wIAAIQFADDwAgEAnwQAIfcCQAChBAAhhQMBAJ8EACGNAwEAnwQAIZQDAQCfBAAhlQMBAJ8EACGWAwEAnwQAIZcDAgDsBAAhAg4AAPoIACAQAAD5CAAgDQ4AAPoEACAQAAD4BAAg2QIAAIQFADDaAgAAIwAQ2wIAAIQFADDwAgEAAAAB9wJAAKEEACGFAwEAnwQAIY0DAQCfBAAhlAMBAAAAAZUDAQCfBAAhlgMBAJ8EACGXAwIA7AQAIQMAAAAjACABAAAkADACAAAlACAODgAA-gQAIBIAAIMFACDZAgAAggUAMNoCAAAnABDbAgAAggUAMPACAQCfBAAh9wJAAKEEACGLAwEA5QQAIY0DAQCfBAAhjwMCAOwEACGQAwEA5QQAIZEDAQDlBAAhkgMAAKAEACCTAwEA5QQAIQYOAAD6CAAgEgAA8wgAIIsDAACdBQAgkAMAAJ0FACCRAwAAnQUAIJMDAACdBQAgDg4AAPoEACASAACDBQAg2QIAAIIFADDaAgAAJwAQ2wIAAIIFADDwAgEAAAAB9wJAAKEEACGLAwEA5QQAIY0DAQCfBAAhjwMCAOwEACGQAwEA5QQAIZEDAQDlBAAhkgMAAKAEACCTAwEA5QQAIQMAAAAnACABAAAoADACAAApACAWCwAA_gQAIA8AAO4EACAZAAD_BAAgGwAA_QQAIBwAAIAFACAdAADwBAAgIAAAgQUAINkCAAD7BAAw2gIAACsAENsCAAD7BAAw3gJAAKEEACHwAgEAnwQAIfcCQAChBAAh-QIBAOUEACG7AwEAnwQAIbwDAQDlBAAhvQMBAOUEACG-AwEA5QQAIb8DAQDlBAAhwAMBAOUEACHBAyAA5AQAIcMDAAD8BMMDIgEAAAArACAJDgAA-gQAINkCAAD5BAAw2gIAAC0AENsCAAD5BAAw8AIBAJ8EACH0AgEAnwQAIfcCQAChBAAhjQMBAJ8EACGOAwEAnwQAIQEOAAD6CAAgCQ4AAPoEACDZAgAA-QQAMNoCAAAtABDbAgAA-QQAMPACAQAAAAH0AgEAnwQAIfcCQAChBAAhjQMBAJ8EACGOAwEAnwQAIQMAAAAtACABAAAuADACAAAvACABAAAAGgAgAQAAAB8AIAEAAAAjACABAAAAJwAgAQAAAC0AIAkQAAD4BAAg2QIAAPcEADDaAgAANgAQ2wIAAPcEADDwAgEAnwQAIYIDAgDsBAAhhQMBAJ8EACGjAwEAnwQAIaQDAQDlBAAhAhAAAPkIACCkAwAAnQUAIAkQAAD4BAAg2QIAAPcEADDaAgAANgAQ2wIAAPcEADDwAgEAAAABggMCAOwEACGFAwEAnwQAIaMDAQCfBAAhpAMBAOUEACEDAAAANgAgAQAANwAwAgAAOAAgAwAAACMAIAEAACQAMAIAACUAIBAEAADpBAAgEAAA9gQAINkCAADyBAAw2gIAADsAENsCAADyBAAw8AIBAJ8EACH0AgEAnwQAIYEDAADzBIEDIoIDAgDsBAAhgwMBAOUEACGEAwIA9AQAIYUDAQDlBAAhhgMgAOQEACGIAwAA9QSIAyOJAwEA5QQAIYoDAQDlBAAhCAQAAPUIACAQAAD5CAAggwMAAJ0FACCEAwAAnQUAIIUDAACdBQAgiAMAAJ0FACCJAwAAnQUAIIoDAACdBQAgEAQAAOkEACAQAAD2BAAg2QIAAPIEADDaAgAAOwAQ2wIAAPIEADDwAgEAAAAB9AIBAJ8EACGBAwAA8wSBAyKCAwIA7AQAIYMDAQDlBAAhhAMCAPQEACGFAwEA5QQAIYYDIADkBAAhiAMAAPUEiAMjiQMBAOUEACGKAwEA5QQAIQMAAAA7ACABAAA8ADACAAA9ACABAAAAFgAgAQAAABoAIAEAAAA2ACABAAAAIwAgAQAAADsAIBIEAADpBAAgDAAA5gQAIA0AAO0EACAPAADuBAAgEQAA7wQAIBMAAPAEACAUAADxBAAg2QIAAOsEADDaAgAARAAQ2wIAAOsEADDeAkAAoQQAIfACAQCfBAAh9AIBAJ8EACH3AkAAoQQAIY4DAQCfBAAhjwMCAOwEACGhA0AA4AQAIaIDAQCfBAAhCAQAAPUIACAMAADzCAAgDQAA9ggAIA8AAO8IACARAAD3CAAgEwAA8AgAIBQAAPgIACChAwAAnQUAIBMEAADpBAAgDAAA5gQAIA0AAO0EACAPAADuBAAgEQAA7wQAIBMAAPAEACAUAADxBAAg2QIAAOsEADDaAgAARAAQ2wIAAOsEADDeAkAAoQQAIfACAQAAAAH0AgEAnwQAIfcCQAChBAAhjgMBAJ8EACGPAwIA7AQAIaEDQADgBAAhogMBAJ8EACHGAwAA6gQAIAMAAABEACABAABFADACAABGACAKBAAA6QQAIBIAAOYEACDZAgAA6AQAMNoCAABIABDbAgAA6AQAMPACAQCfBAAh9AIBAJ8EACH3AkAAoQQAIYsDAQCfBAAhjAMBAJ8EACECBAAA9QgAIBIAAPMIACAKBAAA6QQAIBIAAOYEACDZAgAA6AQAMNoCAABIABDbAgAA6AQAMPACAQAAAAH0AgEAnwQAIfcCQAChBAAhiwMBAJ8EACGMAwEAnwQAIQMAAABIACABAABJADACAABKACADAAAAOwAgAQAAPAAwAgAAPQAgAQAAAAcAIAEAAAASACABAAAAFgAgAQAAAEQAIAEAAABIACABAAAAOwAgAwAAABIAIAEAABMAMAIAABQAIAMAAABEACABAABFADACAABGACADAAAASAAgAQAASQAwAgAASgAgAwAAAB8AIAEAACAAMAIAACEAIAMAAAAnACABAAAoADACAAApACAQCgAA5gQAIB8AAOcEACDZAgAA4wQAMNoCAABYABDbAgAA4wQAMN4CQAChBAAh8AIBAJ8EACH3AkAAoQQAIfgCAQCfBAAh-QIBAJ8EACH6AgEAnwQAIfsCAACgBAAg_AIgAOQEACH9AkAA4AQAIf4CAQDlBAAh_wIBAOUEACEFCgAA8wgAIB8AAPQIACD9AgAAnQUAIP4CAACdBQAg_wIAAJ0FACARCgAA5gQAIB8AAOcEACDZAgAA4wQAMNoCAABYABDbAgAA4wQAMN4CQAChBAAh8AIBAAAAAfcCQAChBAAh-AIBAJ8EACH5AgEAnwQAIfoCAQCfBAAh-wIAAKAEACD8AiAA5AQAIf0CQADgBAAh_gIBAOUEACH_AgEA5QQAIcUDAADiBAAgAwAAAFgAIAEAAFkAMAIAAFoAIAweAADhBAAg2QIAAN8EADDaAgAAXAAQ2wIAAN8EADDwAgEAnwQAIfECAQCfBAAh8gIBAJ8EACHzAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACH2AkAA4AQAIfcCQAChBAAhAh4AAPIIACD2AgAAnQUAIA0eAADhBAAg2QIAAN8EADDaAgAAXAAQ2wIAAN8EADDwAgEAAAAB8QIBAJ8EACHyAgEAnwQAIfMCAQCfBAAh9AIBAJ8EACH1AgEAnwQAIfYCQADgBAAh9wJAAKEEACHEAwAA3gQAIAMAAABcACABAABdADACAABeACABAAAAXAAgAQAAAAMAIAEAAAASACABAAAARAAgAQAAAEgAIAEAAAAfACABAAAAJwAgAQAAAFgAIAEAAAABACANCwAA7AgAIA8AAO8IACAZAADtCAAgGwAA6wgAIBwAAO4IACAdAADwCAAgIAAA8QgAIPkCAACdBQAgvAMAAJ0FACC9AwAAnQUAIL4DAACdBQAgvwMAAJ0FACDAAwAAnQUAIAMAAAArACABAABpADACAAABACADAAAAKwAgAQAAaQAwAgAAAQAgAwAAACsAIAEAAGkAMAIAAAEAIBMLAADlCAAgDwAA6AgAIBkAAOYIACAbAADkCAAgHAAA5wgAIB0AAOkIACAgAADqCAAg3gJAAAAAAfACAQAAAAH3AkAAAAAB-QIBAAAAAbsDAQAAAAG8AwEAAAABvQMBAAAAAb4DAQAAAAG_AwEAAAABwAMBAAAAAcEDIAAAAAHDAwAAAMMDAgEmAABtACAM3gJAAAAAAfACAQAAAAH3AkAAAAAB-QIBAAAAAbsDAQAAAAG8AwEAAAABvQMBAAAAAb4DAQAAAAG_AwEAAAABwAMBAAAAAcEDIAAAAAHDAwAAAMMDAgEmAABvADABJgAAbwAwEwsAAJkIACAPAACcCAAgGQAAmggAIBsAAJgIACAcAACbCAAgHQAAnQgAICAAAJ4IACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAqAUAIbsDAQCbBQAhvAMBAKgFACG9AwEAqAUAIb4DAQCoBQAhvwMBAKgFACHAAwEAqAUAIcEDIACnBQAhwwMAAJcIwwMiAgAAAAEAICYAAHIAIAzeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAqAUAIbsDAQCbBQAhvAMBAKgFACG9AwEAqAUAIb4DAQCoBQAhvwMBAKgFACHAAwEAqAUAIcEDIACnBQAhwwMAAJcIwwMiAgAAACsAICYAAHQAIAIAAAArACAmAAB0ACADAAAAAQAgLQAAbQAgLgAAcgAgAQAAAAEAIAEAAAArACAJCAAAlAgAIDMAAJYIACA0AACVCAAg-QIAAJ0FACC8AwAAnQUAIL0DAACdBQAgvgMAAJ0FACC_AwAAnQUAIMADAACdBQAgD9kCAADaBAAw2gIAAHsAENsCAADaBAAw3gJAAJcEACHwAgEAlQQAIfcCQACXBAAh-QIBAKkEACG7AwEAlQQAIbwDAQCpBAAhvQMBAKkEACG-AwEAqQQAIb8DAQCpBAAhwAMBAKkEACHBAyAAqAQAIcMDAADbBMMDIgMAAAArACABAAB6ADAyAAB7ACADAAAAKwAgAQAAaQAwAgAAAQAgAQAAAAUAIAEAAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIAMAAAADACABAAAEADACAAAFACAVAwAAjQgAIAkAAI4IACALAACPCAAgFwAAkwgAIBgAAJAIACAZAACRCAAgGgAAkggAIN4CQAAAAAHwAgEAAAAB9QIBAAAAAfcCQAAAAAGPAwIAAAABpgMBAAAAAbMDAAAAswMCtAMBAAAAAbUDIAAAAAG2A4AAAAABtwNAAAAAAbgDAgAAAAG5AyAAAAABugMBAAAAAQEmAACDAQAgDt4CQAAAAAHwAgEAAAAB9QIBAAAAAfcCQAAAAAGPAwIAAAABpgMBAAAAAbMDAAAAswMCtAMBAAAAAbUDIAAAAAG2A4AAAAABtwNAAAAAAbgDAgAAAAG5AyAAAAABugMBAAAAAQEmAACFAQAwASYAAIUBADAVAwAAxAcAIAkAAMUHACALAADGBwAgFwAAygcAIBgAAMcHACAZAADIBwAgGgAAyQcAIN4CQACcBQAh8AIBAJsFACH1AgEAmwUAIfcCQACcBQAhjwMCAL8FACGmAwEAqAUAIbMDAADDB7MDIrQDAQCoBQAhtQMgAKcFACG2A4AAAAABtwNAAKEFACG4AwIAvwUAIbkDIACnBQAhugMBAJsFACECAAAABQAgJgAAiAEAIA7eAkAAnAUAIfACAQCbBQAh9QIBAJsFACH3AkAAnAUAIY8DAgC_BQAhpgMBAKgFACGzAwAAwwezAyK0AwEAqAUAIbUDIACnBQAhtgOAAAAAAbcDQAChBQAhuAMCAL8FACG5AyAApwUAIboDAQCbBQAhAgAAAAMAICYAAIoBACACAAAAAwAgJgAAigEAIAMAAAAFACAtAACDAQAgLgAAiAEAIAEAAAAFACABAAAAAwAgCQgAAL4HACAzAADBBwAgNAAAwAcAIEUAAL8HACBGAADCBwAgpgMAAJ0FACC0AwAAnQUAILYDAACdBQAgtwMAAJ0FACAR2QIAANQEADDaAgAAkQEAENsCAADUBAAw3gJAAJcEACHwAgEAlQQAIfUCAQCVBAAh9wJAAJcEACGPAwIAsAQAIaYDAQCpBAAhswMAANUEswMitAMBAKkEACG1AyAAqAQAIbYDAADWBAAgtwNAAKMEACG4AwIAsAQAIbkDIACoBAAhugMBAJUEACEDAAAAAwAgAQAAkAEAMDIAAJEBACADAAAAAwAgAQAABAAwAgAABQAgCAUAANIEACAHAADTBAAg2QIAANEEADDaAgAAlwEAENsCAADRBAAw8AIBAAAAAfcCQAChBAAh-QIBAAAAAQEAAACUAQAgAQAAAJQBACAIBQAA0gQAIAcAANMEACDZAgAA0QQAMNoCAACXAQAQ2wIAANEEADDwAgEAnwQAIfcCQAChBAAh-QIBAJ8EACECBQAAvAcAIAcAAL0HACADAAAAlwEAIAEAAJgBADACAACUAQAgAwAAAJcBACABAACYAQAwAgAAlAEAIAMAAACXAQAgAQAAmAEAMAIAAJQBACAFBQAAugcAIAcAALsHACDwAgEAAAAB9wJAAAAAAfkCAQAAAAEBJgAAnAEAIAPwAgEAAAAB9wJAAAAAAfkCAQAAAAEBJgAAngEAMAEmAACeAQAwBQUAAKAHACAHAAChBwAg8AIBAJsFACH3AkAAnAUAIfkCAQCbBQAhAgAAAJQBACAmAAChAQAgA_ACAQCbBQAh9wJAAJwFACH5AgEAmwUAIQIAAACXAQAgJgAAowEAIAIAAACXAQAgJgAAowEAIAMAAACUAQAgLQAAnAEAIC4AAKEBACABAAAAlAEAIAEAAACXAQAgAwgAAJ0HACAzAACfBwAgNAAAngcAIAbZAgAA0AQAMNoCAACqAQAQ2wIAANAEADDwAgEAlQQAIfcCQACXBAAh-QIBAJUEACEDAAAAlwEAIAEAAKkBADAyAACqAQAgAwAAAJcBACABAACYAQAwAgAAlAEAIAEAAAAOACABAAAADgAgAwAAAAwAIAEAAA0AMAIAAA4AIAMAAAAMACABAAANADACAAAOACADAAAADAAgAQAADQAwAgAADgAgBQYAAJwHACDwAgEAAAAB9wJAAAAAAfkCAQAAAAGuAwEAAAABASYAALIBACAE8AIBAAAAAfcCQAAAAAH5AgEAAAABrgMBAAAAAQEmAAC0AQAwASYAALQBADAFBgAAmwcAIPACAQCbBQAh9wJAAJwFACH5AgEAmwUAIa4DAQCbBQAhAgAAAA4AICYAALcBACAE8AIBAJsFACH3AkAAnAUAIfkCAQCbBQAhrgMBAJsFACECAAAADAAgJgAAuQEAIAIAAAAMACAmAAC5AQAgAwAAAA4AIC0AALIBACAuAAC3AQAgAQAAAA4AIAEAAAAMACADCAAAmAcAIDMAAJoHACA0AACZBwAgB9kCAADPBAAw2gIAAMABABDbAgAAzwQAMPACAQCVBAAh9wJAAJcEACH5AgEAlQQAIa4DAQCVBAAhAwAAAAwAIAEAAL8BADAyAADAAQAgAwAAAAwAIAEAAA0AMAIAAA4AIAEAAAAJACABAAAACQAgAwAAAAcAIAEAAAgAMAIAAAkAIAMAAAAHACABAAAIADACAAAJACADAAAABwAgAQAACAAwAgAACQAgBAQAAJYHACAGAACXBwAg9AIBAAAAAa4DAQAAAAEBJgAAyAEAIAL0AgEAAAABrgMBAAAAAQEmAADKAQAwASYAAMoBADAEBAAAlAcAIAYAAJUHACD0AgEAmwUAIa4DAQCbBQAhAgAAAAkAICYAAM0BACAC9AIBAJsFACGuAwEAmwUAIQIAAAAHACAmAADPAQAgAgAAAAcAICYAAM8BACADAAAACQAgLQAAyAEAIC4AAM0BACABAAAACQAgAQAAAAcAIAMIAACRBwAgMwAAkwcAIDQAAJIHACAF2QIAAM4EADDaAgAA1gEAENsCAADOBAAw9AIBAJUEACGuAwEAlQQAIQMAAAAHACABAADVAQAwMgAA1gEAIAMAAAAHACABAAAIADACAAAJACABAAAAFAAgAQAAABQAIAMAAAASACABAAATADACAAAUACADAAAAEgAgAQAAEwAwAgAAFAAgAwAAABIAIAEAABMAMAIAABQAIAQEAACPBwAgCgAAkAcAIPQCAQAAAAH4AgEAAAABASYAAN4BACAC9AIBAAAAAfgCAQAAAAEBJgAA4AEAMAEmAADgAQAwBAQAAI0HACAKAACOBwAg9AIBAJsFACH4AgEAmwUAIQIAAAAUACAmAADjAQAgAvQCAQCbBQAh-AIBAJsFACECAAAAEgAgJgAA5QEAIAIAAAASACAmAADlAQAgAwAAABQAIC0AAN4BACAuAADjAQAgAQAAABQAIAEAAAASACADCAAAigcAIDMAAIwHACA0AACLBwAgBdkCAADNBAAw2gIAAOwBABDbAgAAzQQAMPQCAQCVBAAh-AIBAJUEACEDAAAAEgAgAQAA6wEAMDIAAOwBACADAAAAEgAgAQAAEwAwAgAAFAAgAQAAABgAIAEAAAAYACADAAAAFgAgAQAAFwAwAgAAGAAgAwAAABYAIAEAABcAMAIAABgAIAMAAAAWACABAAAXADACAAAYACASBAAAhQcAIBEAAIgHACAVAACGBwAgFgAAhwcAIBcAAIkHACDwAgEAAAAB9AIBAAAAAfUCAQAAAAGBAwAAAKYDAoIDAgAAAAGmAwEAAAABpwMgAAAAAagDIAAAAAGpAwgAAAABqgMIAAAAAasDAgAAAAGsAwEAAAABrQMAAIQHACABJgAA9AEAIA3wAgEAAAAB9AIBAAAAAfUCAQAAAAGBAwAAAKYDAoIDAgAAAAGmAwEAAAABpwMgAAAAAagDIAAAAAGpAwgAAAABqgMIAAAAAasDAgAAAAGsAwEAAAABrQMAAIQHACABJgAA9gEAMAEmAAD2AQAwEgQAANUGACARAADYBgAgFQAA1gYAIBYAANcGACAXAADZBgAg8AIBAJsFACH0AgEAmwUAIfUCAQCbBQAhgQMAANMGpgMiggMCAL8FACGmAwEAqAUAIacDIACnBQAhqAMgAKcFACGpAwgA8AUAIaoDCADwBQAhqwMCAMAFACGsAwEAqAUAIa0DAADUBgAgAgAAABgAICYAAPkBACAN8AIBAJsFACH0AgEAmwUAIfUCAQCbBQAhgQMAANMGpgMiggMCAL8FACGmAwEAqAUAIacDIACnBQAhqAMgAKcFACGpAwgA8AUAIaoDCADwBQAhqwMCAMAFACGsAwEAqAUAIa0DAADUBgAgAgAAABYAICYAAPsBACACAAAAFgAgJgAA-wEAIAMAAAAYACAtAAD0AQAgLgAA-QEAIAEAAAAYACABAAAAFgAgCggAAM4GACAzAADRBgAgNAAA0AYAIEUAAM8GACBGAADSBgAgpgMAAJ0FACCpAwAAnQUAIKoDAACdBQAgqwMAAJ0FACCsAwAAnQUAIBDZAgAAyQQAMNoCAACCAgAQ2wIAAMkEADDwAgEAlQQAIfQCAQCVBAAh9QIBAJUEACGBAwAAygSmAyKCAwIAsAQAIaYDAQCpBAAhpwMgAKgEACGoAyAAqAQAIakDCADBBAAhqgMIAMEEACGrAwIAsQQAIawDAQCpBAAhrQMAAMMEACADAAAAFgAgAQAAgQIAMDIAAIICACADAAAAFgAgAQAAFwAwAgAAGAAgAQAAADgAIAEAAAA4ACADAAAANgAgAQAANwAwAgAAOAAgAwAAADYAIAEAADcAMAIAADgAIAMAAAA2ACABAAA3ADACAAA4ACAGEAAAzQYAIPACAQAAAAGCAwIAAAABhQMBAAAAAaMDAQAAAAGkAwEAAAABASYAAIoCACAF8AIBAAAAAYIDAgAAAAGFAwEAAAABowMBAAAAAaQDAQAAAAEBJgAAjAIAMAEmAACMAgAwBhAAAMwGACDwAgEAmwUAIYIDAgC_BQAhhQMBAJsFACGjAwEAmwUAIaQDAQCoBQAhAgAAADgAICYAAI8CACAF8AIBAJsFACGCAwIAvwUAIYUDAQCbBQAhowMBAJsFACGkAwEAqAUAIQIAAAA2ACAmAACRAgAgAgAAADYAICYAAJECACADAAAAOAAgLQAAigIAIC4AAI8CACABAAAAOAAgAQAAADYAIAYIAADHBgAgMwAAygYAIDQAAMkGACBFAADIBgAgRgAAywYAIKQDAACdBQAgCNkCAADIBAAw2gIAAJgCABDbAgAAyAQAMPACAQCVBAAhggMCALAEACGFAwEAlQQAIaMDAQCVBAAhpAMBAKkEACEDAAAANgAgAQAAlwIAMDIAAJgCACADAAAANgAgAQAANwAwAgAAOAAgAQAAAEYAIAEAAABGACADAAAARAAgAQAARQAwAgAARgAgAwAAAEQAIAEAAEUAMAIAAEYAIAMAAABEACABAABFADACAABGACAPBAAAwAYAIAwAAMEGACANAADCBgAgDwAAwwYAIBEAAMQGACATAADFBgAgFAAAxgYAIN4CQAAAAAHwAgEAAAAB9AIBAAAAAfcCQAAAAAGOAwEAAAABjwMCAAAAAaEDQAAAAAGiAwEAAAABASYAAKACACAI3gJAAAAAAfACAQAAAAH0AgEAAAAB9wJAAAAAAY4DAQAAAAGPAwIAAAABoQNAAAAAAaIDAQAAAAEBJgAAogIAMAEmAACiAgAwDwQAAP0FACAMAAD-BQAgDQAA_wUAIA8AAIAGACARAACBBgAgEwAAggYAIBQAAIMGACDeAkAAnAUAIfACAQCbBQAh9AIBAJsFACH3AkAAnAUAIY4DAQCbBQAhjwMCAL8FACGhA0AAoQUAIaIDAQCbBQAhAgAAAEYAICYAAKUCACAI3gJAAJwFACHwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIQIAAABEACAmAACnAgAgAgAAAEQAICYAAKcCACADAAAARgAgLQAAoAIAIC4AAKUCACABAAAARgAgAQAAAEQAIAYIAAD4BQAgMwAA-wUAIDQAAPoFACBFAAD5BQAgRgAA_AUAIKEDAACdBQAgC9kCAADHBAAw2gIAAK4CABDbAgAAxwQAMN4CQACXBAAh8AIBAJUEACH0AgEAlQQAIfcCQACXBAAhjgMBAJUEACGPAwIAsAQAIaEDQACjBAAhogMBAJUEACEDAAAARAAgAQAArQIAMDIAAK4CACADAAAARAAgAQAARQAwAgAARgAgAQAAABwAIAEAAAAcACADAAAAGgAgAQAAGwAwAgAAHAAgAwAAABoAIAEAABsAMAIAABwAIAMAAAAaACABAAAbADACAAAcACALDgAA9gUAIBAAAPcFACDwAgEAAAABhQMBAAAAAY0DAQAAAAGYAwEAAAABmQMIAAAAAZoDIAAAAAGbAwEAAAABnANAAAAAAZ0DAAD1BQAgASYAALYCACAJ8AIBAAAAAYUDAQAAAAGNAwEAAAABmAMBAAAAAZkDCAAAAAGaAyAAAAABmwMBAAAAAZwDQAAAAAGdAwAA9QUAIAEmAAC4AgAwASYAALgCADALDgAA8wUAIBAAAPQFACDwAgEAmwUAIYUDAQCbBQAhjQMBAJsFACGYAwEAqAUAIZkDCADwBQAhmgMgAPEFACGbAwEAqAUAIZwDQAChBQAhnQMAAPIFACACAAAAHAAgJgAAuwIAIAnwAgEAmwUAIYUDAQCbBQAhjQMBAJsFACGYAwEAqAUAIZkDCADwBQAhmgMgAPEFACGbAwEAqAUAIZwDQAChBQAhnQMAAPIFACACAAAAGgAgJgAAvQIAIAIAAAAaACAmAAC9AgAgAwAAABwAIC0AALYCACAuAAC7AgAgAQAAABwAIAEAAAAaACAKCAAA6wUAIDMAAO4FACA0AADtBQAgRQAA7AUAIEYAAO8FACCYAwAAnQUAIJkDAACdBQAgmgMAAJ0FACCbAwAAnQUAIJwDAACdBQAgDNkCAADABAAw2gIAAMQCABDbAgAAwAQAMPACAQCVBAAhhQMBAJUEACGNAwEAlQQAIZgDAQCpBAAhmQMIAMEEACGaAyAAwgQAIZsDAQCpBAAhnANAAKMEACGdAwAAwwQAIAMAAAAaACABAADDAgAwMgAAxAIAIAMAAAAaACABAAAbADACAAAcACABAAAAJQAgAQAAACUAIAMAAAAjACABAAAkADACAAAlACADAAAAIwAgAQAAJAAwAgAAJQAgAwAAACMAIAEAACQAMAIAACUAIAoOAADpBQAgEAAA6gUAIPACAQAAAAH3AkAAAAABhQMBAAAAAY0DAQAAAAGUAwEAAAABlQMBAAAAAZYDAQAAAAGXAwIAAAABASYAAMwCACAI8AIBAAAAAfcCQAAAAAGFAwEAAAABjQMBAAAAAZQDAQAAAAGVAwEAAAABlgMBAAAAAZcDAgAAAAEBJgAAzgIAMAEmAADOAgAwCg4AAOcFACAQAADoBQAg8AIBAJsFACH3AkAAnAUAIYUDAQCbBQAhjQMBAJsFACGUAwEAmwUAIZUDAQCbBQAhlgMBAJsFACGXAwIAvwUAIQIAAAAlACAmAADRAgAgCPACAQCbBQAh9wJAAJwFACGFAwEAmwUAIY0DAQCbBQAhlAMBAJsFACGVAwEAmwUAIZYDAQCbBQAhlwMCAL8FACECAAAAIwAgJgAA0wIAIAIAAAAjACAmAADTAgAgAwAAACUAIC0AAMwCACAuAADRAgAgAQAAACUAIAEAAAAjACAFCAAA4gUAIDMAAOUFACA0AADkBQAgRQAA4wUAIEYAAOYFACAL2QIAAL8EADDaAgAA2gIAENsCAAC_BAAw8AIBAJUEACH3AkAAlwQAIYUDAQCVBAAhjQMBAJUEACGUAwEAlQQAIZUDAQCVBAAhlgMBAJUEACGXAwIAsAQAIQMAAAAjACABAADZAgAwMgAA2gIAIAMAAAAjACABAAAkADACAAAlACABAAAAKQAgAQAAACkAIAMAAAAnACABAAAoADACAAApACADAAAAJwAgAQAAKAAwAgAAKQAgAwAAACcAIAEAACgAMAIAACkAIAsOAADgBQAgEgAA4QUAIPACAQAAAAH3AkAAAAABiwMBAAAAAY0DAQAAAAGPAwIAAAABkAMBAAAAAZEDAQAAAAGSA4AAAAABkwMBAAAAAQEmAADiAgAgCfACAQAAAAH3AkAAAAABiwMBAAAAAY0DAQAAAAGPAwIAAAABkAMBAAAAAZEDAQAAAAGSA4AAAAABkwMBAAAAAQEmAADkAgAwASYAAOQCADABAAAAKwAgCw4AAN4FACASAADfBQAg8AIBAJsFACH3AkAAnAUAIYsDAQCoBQAhjQMBAJsFACGPAwIAvwUAIZADAQCoBQAhkQMBAKgFACGSA4AAAAABkwMBAKgFACECAAAAKQAgJgAA6AIAIAnwAgEAmwUAIfcCQACcBQAhiwMBAKgFACGNAwEAmwUAIY8DAgC_BQAhkAMBAKgFACGRAwEAqAUAIZIDgAAAAAGTAwEAqAUAIQIAAAAnACAmAADqAgAgAgAAACcAICYAAOoCACABAAAAKwAgAwAAACkAIC0AAOICACAuAADoAgAgAQAAACkAIAEAAAAnACAJCAAA2QUAIDMAANwFACA0AADbBQAgRQAA2gUAIEYAAN0FACCLAwAAnQUAIJADAACdBQAgkQMAAJ0FACCTAwAAnQUAIAzZAgAAvgQAMNoCAADyAgAQ2wIAAL4EADDwAgEAlQQAIfcCQACXBAAhiwMBAKkEACGNAwEAlQQAIY8DAgCwBAAhkAMBAKkEACGRAwEAqQQAIZIDAACWBAAgkwMBAKkEACEDAAAAJwAgAQAA8QIAMDIAAPICACADAAAAJwAgAQAAKAAwAgAAKQAgAQAAAC8AIAEAAAAvACADAAAALQAgAQAALgAwAgAALwAgAwAAAC0AIAEAAC4AMAIAAC8AIAMAAAAtACABAAAuADACAAAvACAGDgAA2AUAIPACAQAAAAH0AgEAAAAB9wJAAAAAAY0DAQAAAAGOAwEAAAABASYAAPoCACAF8AIBAAAAAfQCAQAAAAH3AkAAAAABjQMBAAAAAY4DAQAAAAEBJgAA_AIAMAEmAAD8AgAwBg4AANcFACDwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGNAwEAmwUAIY4DAQCbBQAhAgAAAC8AICYAAP8CACAF8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjQMBAJsFACGOAwEAmwUAIQIAAAAtACAmAACBAwAgAgAAAC0AICYAAIEDACADAAAALwAgLQAA-gIAIC4AAP8CACABAAAALwAgAQAAAC0AIAMIAADUBQAgMwAA1gUAIDQAANUFACAI2QIAAL0EADDaAgAAiAMAENsCAAC9BAAw8AIBAJUEACH0AgEAlQQAIfcCQACXBAAhjQMBAJUEACGOAwEAlQQAIQMAAAAtACABAACHAwAwMgAAiAMAIAMAAAAtACABAAAuADACAAAvACABAAAAIQAgAQAAACEAIAMAAAAfACABAAAgADACAAAhACADAAAAHwAgAQAAIAAwAgAAIQAgAwAAAB8AIAEAACAAMAIAACEAIAUKAADTBQAgDgAA0gUAIPcCQAAAAAH4AgEAAAABjQMBAAAAAQEmAACQAwAgA_cCQAAAAAH4AgEAAAABjQMBAAAAAQEmAACSAwAwASYAAJIDADAFCgAA0QUAIA4AANAFACD3AkAAnAUAIfgCAQCbBQAhjQMBAJsFACECAAAAIQAgJgAAlQMAIAP3AkAAnAUAIfgCAQCbBQAhjQMBAJsFACECAAAAHwAgJgAAlwMAIAIAAAAfACAmAACXAwAgAwAAACEAIC0AAJADACAuAACVAwAgAQAAACEAIAEAAAAfACADCAAAzQUAIDMAAM8FACA0AADOBQAgBtkCAAC8BAAw2gIAAJ4DABDbAgAAvAQAMPcCQACXBAAh-AIBAJUEACGNAwEAlQQAIQMAAAAfACABAACdAwAwMgAAngMAIAMAAAAfACABAAAgADACAAAhACABAAAASgAgAQAAAEoAIAMAAABIACABAABJADACAABKACADAAAASAAgAQAASQAwAgAASgAgAwAAAEgAIAEAAEkAMAIAAEoAIAcEAADLBQAgEgAAzAUAIPACAQAAAAH0AgEAAAAB9wJAAAAAAYsDAQAAAAGMAwEAAAABASYAAKYDACAF8AIBAAAAAfQCAQAAAAH3AkAAAAABiwMBAAAAAYwDAQAAAAEBJgAAqAMAMAEmAACoAwAwBwQAAMkFACASAADKBQAg8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhiwMBAJsFACGMAwEAmwUAIQIAAABKACAmAACrAwAgBfACAQCbBQAh9AIBAJsFACH3AkAAnAUAIYsDAQCbBQAhjAMBAJsFACECAAAASAAgJgAArQMAIAIAAABIACAmAACtAwAgAwAAAEoAIC0AAKYDACAuAACrAwAgAQAAAEoAIAEAAABIACADCAAAxgUAIDMAAMgFACA0AADHBQAgCNkCAAC7BAAw2gIAALQDABDbAgAAuwQAMPACAQCVBAAh9AIBAJUEACH3AkAAlwQAIYsDAQCVBAAhjAMBAJUEACEDAAAASAAgAQAAswMAMDIAALQDACADAAAASAAgAQAASQAwAgAASgAgAQAAAD0AIAEAAAA9ACADAAAAOwAgAQAAPAAwAgAAPQAgAwAAADsAIAEAADwAMAIAAD0AIAMAAAA7ACABAAA8ADACAAA9ACANBAAAxAUAIBAAAMUFACDwAgEAAAAB9AIBAAAAAYEDAAAAgQMCggMCAAAAAYMDAQAAAAGEAwIAAAABhQMBAAAAAYYDIAAAAAGIAwAAAIgDA4kDAQAAAAGKAwEAAAABASYAALwDACAL8AIBAAAAAfQCAQAAAAGBAwAAAIEDAoIDAgAAAAGDAwEAAAABhAMCAAAAAYUDAQAAAAGGAyAAAAABiAMAAACIAwOJAwEAAAABigMBAAAAAQEmAAC-AwAwASYAAL4DADABAAAAFgAgDQQAAMIFACAQAADDBQAg8AIBAJsFACH0AgEAmwUAIYEDAAC-BYEDIoIDAgC_BQAhgwMBAKgFACGEAwIAwAUAIYUDAQCoBQAhhgMgAKcFACGIAwAAwQWIAyOJAwEAqAUAIYoDAQCoBQAhAgAAAD0AICYAAMIDACAL8AIBAJsFACH0AgEAmwUAIYEDAAC-BYEDIoIDAgC_BQAhgwMBAKgFACGEAwIAwAUAIYUDAQCoBQAhhgMgAKcFACGIAwAAwQWIAyOJAwEAqAUAIYoDAQCoBQAhAgAAADsAICYAAMQDACACAAAAOwAgJgAAxAMAIAEAAAAWACADAAAAPQAgLQAAvAMAIC4AAMIDACABAAAAPQAgAQAAADsAIAsIAAC5BQAgMwAAvAUAIDQAALsFACBFAAC6BQAgRgAAvQUAIIMDAACdBQAghAMAAJ0FACCFAwAAnQUAIIgDAACdBQAgiQMAAJ0FACCKAwAAnQUAIA7ZAgAArgQAMNoCAADMAwAQ2wIAAK4EADDwAgEAlQQAIfQCAQCVBAAhgQMAAK8EgQMiggMCALAEACGDAwEAqQQAIYQDAgCxBAAhhQMBAKkEACGGAyAAqAQAIYgDAACyBIgDI4kDAQCpBAAhigMBAKkEACEDAAAAOwAgAQAAywMAMDIAAMwDACADAAAAOwAgAQAAPAAwAgAAPQAgAQAAAFoAIAEAAABaACADAAAAWAAgAQAAWQAwAgAAWgAgAwAAAFgAIAEAAFkAMAIAAFoAIAMAAABYACABAABZADACAABaACANCgAAtwUAIB8AALgFACDeAkAAAAAB8AIBAAAAAfcCQAAAAAH4AgEAAAAB-QIBAAAAAfoCAQAAAAH7AoAAAAAB_AIgAAAAAf0CQAAAAAH-AgEAAAAB_wIBAAAAAQEmAADUAwAgC94CQAAAAAHwAgEAAAAB9wJAAAAAAfgCAQAAAAH5AgEAAAAB-gIBAAAAAfsCgAAAAAH8AiAAAAAB_QJAAAAAAf4CAQAAAAH_AgEAAAABASYAANYDADABJgAA1gMAMA0KAACpBQAgHwAAqgUAIN4CQACcBQAh8AIBAJsFACH3AkAAnAUAIfgCAQCbBQAh-QIBAJsFACH6AgEAmwUAIfsCgAAAAAH8AiAApwUAIf0CQAChBQAh_gIBAKgFACH_AgEAqAUAIQIAAABaACAmAADZAwAgC94CQACcBQAh8AIBAJsFACH3AkAAnAUAIfgCAQCbBQAh-QIBAJsFACH6AgEAmwUAIfsCgAAAAAH8AiAApwUAIf0CQAChBQAh_gIBAKgFACH_AgEAqAUAIQIAAABYACAmAADbAwAgAgAAAFgAICYAANsDACADAAAAWgAgLQAA1AMAIC4AANkDACABAAAAWgAgAQAAAFgAIAYIAACkBQAgMwAApgUAIDQAAKUFACD9AgAAnQUAIP4CAACdBQAg_wIAAJ0FACAO2QIAAKcEADDaAgAA4gMAENsCAACnBAAw3gJAAJcEACHwAgEAlQQAIfcCQACXBAAh-AIBAJUEACH5AgEAlQQAIfoCAQCVBAAh-wIAAJYEACD8AiAAqAQAIf0CQACjBAAh_gIBAKkEACH_AgEAqQQAIQMAAABYACABAADhAwAwMgAA4gMAIAMAAABYACABAABZADACAABaACABAAAAXgAgAQAAAF4AIAMAAABcACABAABdADACAABeACADAAAAXAAgAQAAXQAwAgAAXgAgAwAAAFwAIAEAAF0AMAIAAF4AIAkeAACjBQAg8AIBAAAAAfECAQAAAAHyAgEAAAAB8wIBAAAAAfQCAQAAAAH1AgEAAAAB9gJAAAAAAfcCQAAAAAEBJgAA6gMAIAjwAgEAAAAB8QIBAAAAAfICAQAAAAHzAgEAAAAB9AIBAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQEmAADsAwAwASYAAOwDADAJHgAAogUAIPACAQCbBQAh8QIBAJsFACHyAgEAmwUAIfMCAQCbBQAh9AIBAJsFACH1AgEAmwUAIfYCQAChBQAh9wJAAJwFACECAAAAXgAgJgAA7wMAIAjwAgEAmwUAIfECAQCbBQAh8gIBAJsFACHzAgEAmwUAIfQCAQCbBQAh9QIBAJsFACH2AkAAoQUAIfcCQACcBQAhAgAAAFwAICYAAPEDACACAAAAXAAgJgAA8QMAIAMAAABeACAtAADqAwAgLgAA7wMAIAEAAABeACABAAAAXAAgBAgAAJ4FACAzAACgBQAgNAAAnwUAIPYCAACdBQAgC9kCAACiBAAw2gIAAPgDABDbAgAAogQAMPACAQCVBAAh8QIBAJUEACHyAgEAlQQAIfMCAQCVBAAh9AIBAJUEACH1AgEAlQQAIfYCQACjBAAh9wJAAJcEACEDAAAAXAAgAQAA9wMAMDIAAPgDACADAAAAXAAgAQAAXQAwAgAAXgAgBtkCAACeBAAw2gIAAP4DABDbAgAAngQAMNwCAQAAAAHdAgAAoAQAIN4CQAChBAAhAQAAAPsDACABAAAA-wMAIAbZAgAAngQAMNoCAAD-AwAQ2wIAAJ4EADDcAgEAnwQAId0CAACgBAAg3gJAAKEEACEAAwAAAP4DACABAAD_AwAwAgAA-wMAIAMAAAD-AwAgAQAA_wMAMAIAAPsDACADAAAA_gMAIAEAAP8DADACAAD7AwAgA9wCAQAAAAHdAoAAAAAB3gJAAAAAAQEmAACDBAAgA9wCAQAAAAHdAoAAAAAB3gJAAAAAAQEmAACFBAAwASYAAIUEADAD3AIBAJsFACHdAoAAAAAB3gJAAJwFACECAAAA-wMAICYAAIgEACAD3AIBAJsFACHdAoAAAAAB3gJAAJwFACECAAAA_gMAICYAAIoEACACAAAA_gMAICYAAIoEACADAAAA-wMAIC0AAIMEACAuAACIBAAgAQAAAPsDACABAAAA_gMAIAMIAACYBQAgMwAAmgUAIDQAAJkFACAG2QIAAJQEADDaAgAAkQQAENsCAACUBAAw3AIBAJUEACHdAgAAlgQAIN4CQACXBAAhAwAAAP4DACABAACQBAAwMgAAkQQAIAMAAAD-AwAgAQAA_wMAMAIAAPsDACAG2QIAAJQEADDaAgAAkQQAENsCAACUBAAw3AIBAJUEACHdAgAAlgQAIN4CQACXBAAhDggAAJkEACAzAACdBAAgNAAAnQQAIN8CAQAAAAHgAgEAAAAE4QIBAAAABOICAQAAAAHjAgEAAAAB5AIBAAAAAeUCAQAAAAHmAgEAnAQAIe0CAQAAAAHuAgEAAAAB7wIBAAAAAQ8IAACZBAAgMwAAmwQAIDQAAJsEACDfAoAAAAAB4gKAAAAAAeMCgAAAAAHkAoAAAAAB5QKAAAAAAeYCgAAAAAHnAgEAAAAB6AIBAAAAAekCAQAAAAHqAoAAAAAB6wKAAAAAAewCgAAAAAELCAAAmQQAIDMAAJoEACA0AACaBAAg3wJAAAAAAeACQAAAAAThAkAAAAAE4gJAAAAAAeMCQAAAAAHkAkAAAAAB5QJAAAAAAeYCQACYBAAhCwgAAJkEACAzAACaBAAgNAAAmgQAIN8CQAAAAAHgAkAAAAAE4QJAAAAABOICQAAAAAHjAkAAAAAB5AJAAAAAAeUCQAAAAAHmAkAAmAQAIQjfAgIAAAAB4AICAAAABOECAgAAAATiAgIAAAAB4wICAAAAAeQCAgAAAAHlAgIAAAAB5gICAJkEACEI3wJAAAAAAeACQAAAAAThAkAAAAAE4gJAAAAAAeMCQAAAAAHkAkAAAAAB5QJAAAAAAeYCQACaBAAhDN8CgAAAAAHiAoAAAAAB4wKAAAAAAeQCgAAAAAHlAoAAAAAB5gKAAAAAAecCAQAAAAHoAgEAAAAB6QIBAAAAAeoCgAAAAAHrAoAAAAAB7AKAAAAAAQ4IAACZBAAgMwAAnQQAIDQAAJ0EACDfAgEAAAAB4AIBAAAABOECAQAAAATiAgEAAAAB4wIBAAAAAeQCAQAAAAHlAgEAAAAB5gIBAJwEACHtAgEAAAAB7gIBAAAAAe8CAQAAAAEL3wIBAAAAAeACAQAAAAThAgEAAAAE4gIBAAAAAeMCAQAAAAHkAgEAAAAB5QIBAAAAAeYCAQCdBAAh7QIBAAAAAe4CAQAAAAHvAgEAAAABBtkCAACeBAAw2gIAAP4DABDbAgAAngQAMNwCAQCfBAAh3QIAAKAEACDeAkAAoQQAIQvfAgEAAAAB4AIBAAAABOECAQAAAATiAgEAAAAB4wIBAAAAAeQCAQAAAAHlAgEAAAAB5gIBAJ0EACHtAgEAAAAB7gIBAAAAAe8CAQAAAAEM3wKAAAAAAeICgAAAAAHjAoAAAAAB5AKAAAAAAeUCgAAAAAHmAoAAAAAB5wIBAAAAAegCAQAAAAHpAgEAAAAB6gKAAAAAAesCgAAAAAHsAoAAAAABCN8CQAAAAAHgAkAAAAAE4QJAAAAABOICQAAAAAHjAkAAAAAB5AJAAAAAAeUCQAAAAAHmAkAAmgQAIQvZAgAAogQAMNoCAAD4AwAQ2wIAAKIEADDwAgEAlQQAIfECAQCVBAAh8gIBAJUEACHzAgEAlQQAIfQCAQCVBAAh9QIBAJUEACH2AkAAowQAIfcCQACXBAAhCwgAAKUEACAzAACmBAAgNAAApgQAIN8CQAAAAAHgAkAAAAAF4QJAAAAABeICQAAAAAHjAkAAAAAB5AJAAAAAAeUCQAAAAAHmAkAApAQAIQsIAAClBAAgMwAApgQAIDQAAKYEACDfAkAAAAAB4AJAAAAABeECQAAAAAXiAkAAAAAB4wJAAAAAAeQCQAAAAAHlAkAAAAAB5gJAAKQEACEI3wICAAAAAeACAgAAAAXhAgIAAAAF4gICAAAAAeMCAgAAAAHkAgIAAAAB5QICAAAAAeYCAgClBAAhCN8CQAAAAAHgAkAAAAAF4QJAAAAABeICQAAAAAHjAkAAAAAB5AJAAAAAAeUCQAAAAAHmAkAApgQAIQ7ZAgAApwQAMNoCAADiAwAQ2wIAAKcEADDeAkAAlwQAIfACAQCVBAAh9wJAAJcEACH4AgEAlQQAIfkCAQCVBAAh-gIBAJUEACH7AgAAlgQAIPwCIACoBAAh_QJAAKMEACH-AgEAqQQAIf8CAQCpBAAhBQgAAJkEACAzAACtBAAgNAAArQQAIN8CIAAAAAHmAiAArAQAIQ4IAAClBAAgMwAAqwQAIDQAAKsEACDfAgEAAAAB4AIBAAAABeECAQAAAAXiAgEAAAAB4wIBAAAAAeQCAQAAAAHlAgEAAAAB5gIBAKoEACHtAgEAAAAB7gIBAAAAAe8CAQAAAAEOCAAApQQAIDMAAKsEACA0AACrBAAg3wIBAAAAAeACAQAAAAXhAgEAAAAF4gIBAAAAAeMCAQAAAAHkAgEAAAAB5QIBAAAAAeYCAQCqBAAh7QIBAAAAAe4CAQAAAAHvAgEAAAABC98CAQAAAAHgAgEAAAAF4QIBAAAABeICAQAAAAHjAgEAAAAB5AIBAAAAAeUCAQAAAAHmAgEAqwQAIe0CAQAAAAHuAgEAAAAB7wIBAAAAAQUIAACZBAAgMwAArQQAIDQAAK0EACDfAiAAAAAB5gIgAKwEACEC3wIgAAAAAeYCIACtBAAhDtkCAACuBAAw2gIAAMwDABDbAgAArgQAMPACAQCVBAAh9AIBAJUEACGBAwAArwSBAyKCAwIAsAQAIYMDAQCpBAAhhAMCALEEACGFAwEAqQQAIYYDIACoBAAhiAMAALIEiAMjiQMBAKkEACGKAwEAqQQAIQcIAACZBAAgMwAAugQAIDQAALoEACDfAgAAAIEDAuACAAAAgQMI4QIAAACBAwjmAgAAuQSBAyINCAAAmQQAIDMAAJkEACA0AACZBAAgRQAAuAQAIEYAAJkEACDfAgIAAAAB4AICAAAABOECAgAAAATiAgIAAAAB4wICAAAAAeQCAgAAAAHlAgIAAAAB5gICALcEACENCAAApQQAIDMAAKUEACA0AAClBAAgRQAAtgQAIEYAAKUEACDfAgIAAAAB4AICAAAABeECAgAAAAXiAgIAAAAB4wICAAAAAeQCAgAAAAHlAgIAAAAB5gICALUEACEHCAAApQQAIDMAALQEACA0AAC0BAAg3wIAAACIAwPgAgAAAIgDCeECAAAAiAMJ5gIAALMEiAMjBwgAAKUEACAzAAC0BAAgNAAAtAQAIN8CAAAAiAMD4AIAAACIAwnhAgAAAIgDCeYCAACzBIgDIwTfAgAAAIgDA-ACAAAAiAMJ4QIAAACIAwnmAgAAtASIAyMNCAAApQQAIDMAAKUEACA0AAClBAAgRQAAtgQAIEYAAKUEACDfAgIAAAAB4AICAAAABeECAgAAAAXiAgIAAAAB4wICAAAAAeQCAgAAAAHlAgIAAAAB5gICALUEACEI3wIIAAAAAeACCAAAAAXhAggAAAAF4gIIAAAAAeMCCAAAAAHkAggAAAAB5QIIAAAAAeYCCAC2BAAhDQgAAJkEACAzAACZBAAgNAAAmQQAIEUAALgEACBGAACZBAAg3wICAAAAAeACAgAAAAThAgIAAAAE4gICAAAAAeMCAgAAAAHkAgIAAAAB5QICAAAAAeYCAgC3BAAhCN8CCAAAAAHgAggAAAAE4QIIAAAABOICCAAAAAHjAggAAAAB5AIIAAAAAeUCCAAAAAHmAggAuAQAIQcIAACZBAAgMwAAugQAIDQAALoEACDfAgAAAIEDAuACAAAAgQMI4QIAAACBAwjmAgAAuQSBAyIE3wIAAACBAwLgAgAAAIEDCOECAAAAgQMI5gIAALoEgQMiCNkCAAC7BAAw2gIAALQDABDbAgAAuwQAMPACAQCVBAAh9AIBAJUEACH3AkAAlwQAIYsDAQCVBAAhjAMBAJUEACEG2QIAALwEADDaAgAAngMAENsCAAC8BAAw9wJAAJcEACH4AgEAlQQAIY0DAQCVBAAhCNkCAAC9BAAw2gIAAIgDABDbAgAAvQQAMPACAQCVBAAh9AIBAJUEACH3AkAAlwQAIY0DAQCVBAAhjgMBAJUEACEM2QIAAL4EADDaAgAA8gIAENsCAAC-BAAw8AIBAJUEACH3AkAAlwQAIYsDAQCpBAAhjQMBAJUEACGPAwIAsAQAIZADAQCpBAAhkQMBAKkEACGSAwAAlgQAIJMDAQCpBAAhC9kCAAC_BAAw2gIAANoCABDbAgAAvwQAMPACAQCVBAAh9wJAAJcEACGFAwEAlQQAIY0DAQCVBAAhlAMBAJUEACGVAwEAlQQAIZYDAQCVBAAhlwMCALAEACEM2QIAAMAEADDaAgAAxAIAENsCAADABAAw8AIBAJUEACGFAwEAlQQAIY0DAQCVBAAhmAMBAKkEACGZAwgAwQQAIZoDIADCBAAhmwMBAKkEACGcA0AAowQAIZ0DAADDBAAgDQgAAKUEACAzAAC2BAAgNAAAtgQAIEUAALYEACBGAAC2BAAg3wIIAAAAAeACCAAAAAXhAggAAAAF4gIIAAAAAeMCCAAAAAHkAggAAAAB5QIIAAAAAeYCCADGBAAhBQgAAKUEACAzAADFBAAgNAAAxQQAIN8CIAAAAAHmAiAAxAQAIQTfAgEAAAAFngMBAAAAAZ8DAQAAAASgAwEAAAAEBQgAAKUEACAzAADFBAAgNAAAxQQAIN8CIAAAAAHmAiAAxAQAIQLfAiAAAAAB5gIgAMUEACENCAAApQQAIDMAALYEACA0AAC2BAAgRQAAtgQAIEYAALYEACDfAggAAAAB4AIIAAAABeECCAAAAAXiAggAAAAB4wIIAAAAAeQCCAAAAAHlAggAAAAB5gIIAMYEACEL2QIAAMcEADDaAgAArgIAENsCAADHBAAw3gJAAJcEACHwAgEAlQQAIfQCAQCVBAAh9wJAAJcEACGOAwEAlQQAIY8DAgCwBAAhoQNAAKMEACGiAwEAlQQAIQjZAgAAyAQAMNoCAACYAgAQ2wIAAMgEADDwAgEAlQQAIYIDAgCwBAAhhQMBAJUEACGjAwEAlQQAIaQDAQCpBAAhENkCAADJBAAw2gIAAIICABDbAgAAyQQAMPACAQCVBAAh9AIBAJUEACH1AgEAlQQAIYEDAADKBKYDIoIDAgCwBAAhpgMBAKkEACGnAyAAqAQAIagDIACoBAAhqQMIAMEEACGqAwgAwQQAIasDAgCxBAAhrAMBAKkEACGtAwAAwwQAIAcIAACZBAAgMwAAzAQAIDQAAMwEACDfAgAAAKYDAuACAAAApgMI4QIAAACmAwjmAgAAywSmAyIHCAAAmQQAIDMAAMwEACA0AADMBAAg3wIAAACmAwLgAgAAAKYDCOECAAAApgMI5gIAAMsEpgMiBN8CAAAApgMC4AIAAACmAwjhAgAAAKYDCOYCAADMBKYDIgXZAgAAzQQAMNoCAADsAQAQ2wIAAM0EADD0AgEAlQQAIfgCAQCVBAAhBdkCAADOBAAw2gIAANYBABDbAgAAzgQAMPQCAQCVBAAhrgMBAJUEACEH2QIAAM8EADDaAgAAwAEAENsCAADPBAAw8AIBAJUEACH3AkAAlwQAIfkCAQCVBAAhrgMBAJUEACEG2QIAANAEADDaAgAAqgEAENsCAADQBAAw8AIBAJUEACH3AkAAlwQAIfkCAQCVBAAhCAUAANIEACAHAADTBAAg2QIAANEEADDaAgAAlwEAENsCAADRBAAw8AIBAJ8EACH3AkAAoQQAIfkCAQCfBAAhA68DAAAHACCwAwAABwAgsQMAAAcAIAOvAwAADAAgsAMAAAwAILEDAAAMACAR2QIAANQEADDaAgAAkQEAENsCAADUBAAw3gJAAJcEACHwAgEAlQQAIfUCAQCVBAAh9wJAAJcEACGPAwIAsAQAIaYDAQCpBAAhswMAANUEswMitAMBAKkEACG1AyAAqAQAIbYDAADWBAAgtwNAAKMEACG4AwIAsAQAIbkDIACoBAAhugMBAJUEACEHCAAAmQQAIDMAANkEACA0AADZBAAg3wIAAACzAwLgAgAAALMDCOECAAAAswMI5gIAANgEswMiDwgAAKUEACAzAADXBAAgNAAA1wQAIN8CgAAAAAHiAoAAAAAB4wKAAAAAAeQCgAAAAAHlAoAAAAAB5gKAAAAAAecCAQAAAAHoAgEAAAAB6QIBAAAAAeoCgAAAAAHrAoAAAAAB7AKAAAAAAQzfAoAAAAAB4gKAAAAAAeMCgAAAAAHkAoAAAAAB5QKAAAAAAeYCgAAAAAHnAgEAAAAB6AIBAAAAAekCAQAAAAHqAoAAAAAB6wKAAAAAAewCgAAAAAEHCAAAmQQAIDMAANkEACA0AADZBAAg3wIAAACzAwLgAgAAALMDCOECAAAAswMI5gIAANgEswMiBN8CAAAAswMC4AIAAACzAwjhAgAAALMDCOYCAADZBLMDIg_ZAgAA2gQAMNoCAAB7ABDbAgAA2gQAMN4CQACXBAAh8AIBAJUEACH3AkAAlwQAIfkCAQCpBAAhuwMBAJUEACG8AwEAqQQAIb0DAQCpBAAhvgMBAKkEACG_AwEAqQQAIcADAQCpBAAhwQMgAKgEACHDAwAA2wTDAyIHCAAAmQQAIDMAAN0EACA0AADdBAAg3wIAAADDAwLgAgAAAMMDCOECAAAAwwMI5gIAANwEwwMiBwgAAJkEACAzAADdBAAgNAAA3QQAIN8CAAAAwwMC4AIAAADDAwjhAgAAAMMDCOYCAADcBMMDIgTfAgAAAMMDAuACAAAAwwMI4QIAAADDAwjmAgAA3QTDAyID8QIBAAAAAfICAQAAAAHzAgEAAAABDB4AAOEEACDZAgAA3wQAMNoCAABcABDbAgAA3wQAMPACAQCfBAAh8QIBAJ8EACHyAgEAnwQAIfMCAQCfBAAh9AIBAJ8EACH1AgEAnwQAIfYCQADgBAAh9wJAAKEEACEI3wJAAAAAAeACQAAAAAXhAkAAAAAF4gJAAAAAAeMCQAAAAAHkAkAAAAAB5QJAAAAAAeYCQACmBAAhEgoAAOYEACAfAADnBAAg2QIAAOMEADDaAgAAWAAQ2wIAAOMEADDeAkAAoQQAIfACAQCfBAAh9wJAAKEEACH4AgEAnwQAIfkCAQCfBAAh-gIBAJ8EACH7AgAAoAQAIPwCIADkBAAh_QJAAOAEACH-AgEA5QQAIf8CAQDlBAAhygMAAFgAIMsDAABYACAC-AIBAAAAAfkCAQAAAAEQCgAA5gQAIB8AAOcEACDZAgAA4wQAMNoCAABYABDbAgAA4wQAMN4CQAChBAAh8AIBAJ8EACH3AkAAoQQAIfgCAQCfBAAh-QIBAJ8EACH6AgEAnwQAIfsCAACgBAAg_AIgAOQEACH9AkAA4AQAIf4CAQDlBAAh_wIBAOUEACEC3wIgAAAAAeYCIACtBAAhC98CAQAAAAHgAgEAAAAF4QIBAAAABeICAQAAAAHjAgEAAAAB5AIBAAAAAeUCAQAAAAHmAgEAqwQAIe0CAQAAAAHuAgEAAAAB7wIBAAAAARgLAAD-BAAgDwAA7gQAIBkAAP8EACAbAAD9BAAgHAAAgAUAIB0AAPAEACAgAACBBQAg2QIAAPsEADDaAgAAKwAQ2wIAAPsEADDeAkAAoQQAIfACAQCfBAAh9wJAAKEEACH5AgEA5QQAIbsDAQCfBAAhvAMBAOUEACG9AwEA5QQAIb4DAQDlBAAhvwMBAOUEACHAAwEA5QQAIcEDIADkBAAhwwMAAPwEwwMiygMAACsAIMsDAAArACADrwMAAFwAILADAABcACCxAwAAXAAgCgQAAOkEACASAADmBAAg2QIAAOgEADDaAgAASAAQ2wIAAOgEADDwAgEAnwQAIfQCAQCfBAAh9wJAAKEEACGLAwEAnwQAIYwDAQCfBAAhGgMAAOYEACAJAADSBAAgCwAA_gQAIBcAAI0FACAYAACXBQAgGQAA_wQAIBoAAIAFACDZAgAAlAUAMNoCAAADABDbAgAAlAUAMN4CQAChBAAh8AIBAJ8EACH1AgEAnwQAIfcCQAChBAAhjwMCAOwEACGmAwEA5QQAIbMDAACVBbMDIrQDAQDlBAAhtQMgAOQEACG2AwAAlgUAILcDQADgBAAhuAMCAOwEACG5AyAA5AQAIboDAQCfBAAhygMAAAMAIMsDAAADACAC9AIBAAAAAY4DAQAAAAESBAAA6QQAIAwAAOYEACANAADtBAAgDwAA7gQAIBEAAO8EACATAADwBAAgFAAA8QQAINkCAADrBAAw2gIAAEQAENsCAADrBAAw3gJAAKEEACHwAgEAnwQAIfQCAQCfBAAh9wJAAKEEACGOAwEAnwQAIY8DAgDsBAAhoQNAAOAEACGiAwEAnwQAIQjfAgIAAAAB4AICAAAABOECAgAAAATiAgIAAAAB4wICAAAAAeQCAgAAAAHlAgIAAAAB5gICAJkEACEDrwMAABoAILADAAAaACCxAwAAGgAgA68DAAAfACCwAwAAHwAgsQMAAB8AIAOvAwAAIwAgsAMAACMAILEDAAAjACADrwMAACcAILADAAAnACCxAwAAJwAgA68DAAAtACCwAwAALQAgsQMAAC0AIBAEAADpBAAgEAAA9gQAINkCAADyBAAw2gIAADsAENsCAADyBAAw8AIBAJ8EACH0AgEAnwQAIYEDAADzBIEDIoIDAgDsBAAhgwMBAOUEACGEAwIA9AQAIYUDAQDlBAAhhgMgAOQEACGIAwAA9QSIAyOJAwEA5QQAIYoDAQDlBAAhBN8CAAAAgQMC4AIAAACBAwjhAgAAAIEDCOYCAAC6BIEDIgjfAgIAAAAB4AICAAAABeECAgAAAAXiAgIAAAAB4wICAAAAAeQCAgAAAAHlAgIAAAAB5gICAKUEACEE3wIAAACIAwPgAgAAAIgDCeECAAAAiAMJ5gIAALQEiAMjFwQAAOkEACARAADvBAAgFQAA7QQAIBYAAIwFACAXAACNBQAg2QIAAIoFADDaAgAAFgAQ2wIAAIoFADDwAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACGBAwAAiwWmAyKCAwIA7AQAIaYDAQDlBAAhpwMgAOQEACGoAyAA5AQAIakDCACIBQAhqgMIAIgFACGrAwIA9AQAIawDAQDlBAAhrQMAAMMEACDKAwAAFgAgywMAABYAIAkQAAD4BAAg2QIAAPcEADDaAgAANgAQ2wIAAPcEADDwAgEAnwQAIYIDAgDsBAAhhQMBAJ8EACGjAwEAnwQAIaQDAQDlBAAhFwQAAOkEACARAADvBAAgFQAA7QQAIBYAAIwFACAXAACNBQAg2QIAAIoFADDaAgAAFgAQ2wIAAIoFADDwAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACGBAwAAiwWmAyKCAwIA7AQAIaYDAQDlBAAhpwMgAOQEACGoAyAA5AQAIakDCACIBQAhqgMIAIgFACGrAwIA9AQAIawDAQDlBAAhrQMAAMMEACDKAwAAFgAgywMAABYAIAkOAAD6BAAg2QIAAPkEADDaAgAALQAQ2wIAAPkEADDwAgEAnwQAIfQCAQCfBAAh9wJAAKEEACGNAwEAnwQAIY4DAQCfBAAhFAQAAOkEACAMAADmBAAgDQAA7QQAIA8AAO4EACARAADvBAAgEwAA8AQAIBQAAPEEACDZAgAA6wQAMNoCAABEABDbAgAA6wQAMN4CQAChBAAh8AIBAJ8EACH0AgEAnwQAIfcCQAChBAAhjgMBAJ8EACGPAwIA7AQAIaEDQADgBAAhogMBAJ8EACHKAwAARAAgywMAAEQAIBYLAAD-BAAgDwAA7gQAIBkAAP8EACAbAAD9BAAgHAAAgAUAIB0AAPAEACAgAACBBQAg2QIAAPsEADDaAgAAKwAQ2wIAAPsEADDeAkAAoQQAIfACAQCfBAAh9wJAAKEEACH5AgEA5QQAIbsDAQCfBAAhvAMBAOUEACG9AwEA5QQAIb4DAQDlBAAhvwMBAOUEACHAAwEA5QQAIcEDIADkBAAhwwMAAPwEwwMiBN8CAAAAwwMC4AIAAADDAwjhAgAAAMMDCOYCAADdBMMDIgOvAwAAAwAgsAMAAAMAILEDAAADACADrwMAABIAILADAAASACCxAwAAEgAgA68DAABEACCwAwAARAAgsQMAAEQAIAOvAwAASAAgsAMAAEgAILEDAABIACADrwMAAFgAILADAABYACCxAwAAWAAgDg4AAPoEACASAACDBQAg2QIAAIIFADDaAgAAJwAQ2wIAAIIFADDwAgEAnwQAIfcCQAChBAAhiwMBAOUEACGNAwEAnwQAIY8DAgDsBAAhkAMBAOUEACGRAwEA5QQAIZIDAACgBAAgkwMBAOUEACEYCwAA_gQAIA8AAO4EACAZAAD_BAAgGwAA_QQAIBwAAIAFACAdAADwBAAgIAAAgQUAINkCAAD7BAAw2gIAACsAENsCAAD7BAAw3gJAAKEEACHwAgEAnwQAIfcCQAChBAAh-QIBAOUEACG7AwEAnwQAIbwDAQDlBAAhvQMBAOUEACG-AwEA5QQAIb8DAQDlBAAhwAMBAOUEACHBAyAA5AQAIcMDAAD8BMMDIsoDAAArACDLAwAAKwAgDQ4AAPoEACAQAAD4BAAg2QIAAIQFADDaAgAAIwAQ2wIAAIQFADDwAgEAnwQAIfcCQAChBAAhhQMBAJ8EACGNAwEAnwQAIZQDAQCfBAAhlQMBAJ8EACGWAwEAnwQAIZcDAgDsBAAhAvgCAQAAAAGNAwEAAAABCAoAAOYEACAOAAD6BAAg2QIAAIYFADDaAgAAHwAQ2wIAAIYFADD3AkAAoQQAIfgCAQCfBAAhjQMBAJ8EACEODgAA-gQAIBAAAPgEACDZAgAAhwUAMNoCAAAaABDbAgAAhwUAMPACAQCfBAAhhQMBAJ8EACGNAwEAnwQAIZgDAQDlBAAhmQMIAIgFACGaAyAAiQUAIZsDAQDlBAAhnANAAOAEACGdAwAAwwQAIAjfAggAAAAB4AIIAAAABeECCAAAAAXiAggAAAAB4wIIAAAAAeQCCAAAAAHlAggAAAAB5gIIALYEACEC3wIgAAAAAeYCIADFBAAhFQQAAOkEACARAADvBAAgFQAA7QQAIBYAAIwFACAXAACNBQAg2QIAAIoFADDaAgAAFgAQ2wIAAIoFADDwAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACGBAwAAiwWmAyKCAwIA7AQAIaYDAQDlBAAhpwMgAOQEACGoAyAA5AQAIakDCACIBQAhqgMIAIgFACGrAwIA9AQAIawDAQDlBAAhrQMAAMMEACAE3wIAAACmAwLgAgAAAKYDCOECAAAApgMI5gIAAMwEpgMiA68DAAA2ACCwAwAANgAgsQMAADYAIAOvAwAAOwAgsAMAADsAILEDAAA7ACAC9AIBAAAAAfgCAQAAAAEHBAAA6QQAIAoAAOYEACDZAgAAjwUAMNoCAAASABDbAgAAjwUAMPQCAQCfBAAh-AIBAJ8EACEIBgAAkQUAINkCAACQBQAw2gIAAAwAENsCAACQBQAw8AIBAJ8EACH3AkAAoQQAIfkCAQCfBAAhrgMBAJ8EACEKBQAA0gQAIAcAANMEACDZAgAA0QQAMNoCAACXAQAQ2wIAANEEADDwAgEAnwQAIfcCQAChBAAh-QIBAJ8EACHKAwAAlwEAIMsDAACXAQAgAvQCAQAAAAGuAwEAAAABBwQAAOkEACAGAACRBQAg2QIAAJMFADDaAgAABwAQ2wIAAJMFADD0AgEAnwQAIa4DAQCfBAAhGAMAAOYEACAJAADSBAAgCwAA_gQAIBcAAI0FACAYAACXBQAgGQAA_wQAIBoAAIAFACDZAgAAlAUAMNoCAAADABDbAgAAlAUAMN4CQAChBAAh8AIBAJ8EACH1AgEAnwQAIfcCQAChBAAhjwMCAOwEACGmAwEA5QQAIbMDAACVBbMDIrQDAQDlBAAhtQMgAOQEACG2AwAAlgUAILcDQADgBAAhuAMCAOwEACG5AyAA5AQAIboDAQCfBAAhBN8CAAAAswMC4AIAAACzAwjhAgAAALMDCOYCAADZBLMDIgzfAoAAAAAB4gKAAAAAAeMCgAAAAAHkAoAAAAAB5QKAAAAAAeYCgAAAAAHnAgEAAAAB6AIBAAAAAekCAQAAAAHqAoAAAAAB6wKAAAAAAewCgAAAAAEDrwMAABYAILADAAAWACCxAwAAFgAgAAAAAc8DAQAAAAEBzwNAAAAAAQAAAAABzwNAAAAAAQUtAACQCgAgLgAAkwoAIMwDAACRCgAgzQMAAJIKACDSAwAAWgAgAy0AAJAKACDMAwAAkQoAINIDAABaACAAAAABzwMgAAAAAQHPAwEAAAABBS0AAIoKACAuAACOCgAgzAMAAIsKACDNAwAAjQoAINIDAAABACALLQAAqwUAMC4AALAFADDMAwAArAUAMM0DAACtBQAwzgMAAK4FACDPAwAArwUAMNADAACvBQAw0QMAAK8FADDSAwAArwUAMNMDAACxBQAw1AMAALIFADAH8AIBAAAAAfICAQAAAAHzAgEAAAAB9AIBAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQIAAABeACAtAAC2BQAgAwAAAF4AIC0AALYFACAuAAC1BQAgASYAAIwKADANHgAA4QQAINkCAADfBAAw2gIAAFwAENsCAADfBAAw8AIBAAAAAfECAQCfBAAh8gIBAJ8EACHzAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACH2AkAA4AQAIfcCQAChBAAhxAMAAN4EACACAAAAXgAgJgAAtQUAIAIAAACzBQAgJgAAtAUAIAvZAgAAsgUAMNoCAACzBQAQ2wIAALIFADDwAgEAnwQAIfECAQCfBAAh8gIBAJ8EACHzAgEAnwQAIfQCAQCfBAAh9QIBAJ8EACH2AkAA4AQAIfcCQAChBAAhC9kCAACyBQAw2gIAALMFABDbAgAAsgUAMPACAQCfBAAh8QIBAJ8EACHyAgEAnwQAIfMCAQCfBAAh9AIBAJ8EACH1AgEAnwQAIfYCQADgBAAh9wJAAKEEACEH8AIBAJsFACHyAgEAmwUAIfMCAQCbBQAh9AIBAJsFACH1AgEAmwUAIfYCQAChBQAh9wJAAJwFACEH8AIBAJsFACHyAgEAmwUAIfMCAQCbBQAh9AIBAJsFACH1AgEAmwUAIfYCQAChBQAh9wJAAJwFACEH8AIBAAAAAfICAQAAAAHzAgEAAAAB9AIBAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQMtAACKCgAgzAMAAIsKACDSAwAAAQAgBC0AAKsFADDMAwAArAUAMM4DAACuBQAg0gMAAK8FADAAAAAAAAHPAwAAAIEDAgXPAwIAAAAB1gMCAAAAAdcDAgAAAAHYAwIAAAAB2QMCAAAAAQXPAwIAAAAB1gMCAAAAAdcDAgAAAAHYAwIAAAAB2QMCAAAAAQHPAwAAAIgDAwUtAACCCgAgLgAAiAoAIMwDAACDCgAgzQMAAIcKACDSAwAABQAgBy0AAIAKACAuAACFCgAgzAMAAIEKACDNAwAAhAoAINADAAAWACDRAwAAFgAg0gMAABgAIAMtAACCCgAgzAMAAIMKACDSAwAABQAgAy0AAIAKACDMAwAAgQoAINIDAAAYACAAAAAFLQAA-AkAIC4AAP4JACDMAwAA-QkAIM0DAAD9CQAg0gMAAAUAIAUtAAD2CQAgLgAA-wkAIMwDAAD3CQAgzQMAAPoJACDSAwAAAQAgAy0AAPgJACDMAwAA-QkAINIDAAAFACADLQAA9gkAIMwDAAD3CQAg0gMAAAEAIAAAAAUtAADuCQAgLgAA9AkAIMwDAADvCQAgzQMAAPMJACDSAwAARgAgBS0AAOwJACAuAADxCQAgzAMAAO0JACDNAwAA8AkAINIDAAABACADLQAA7gkAIMwDAADvCQAg0gMAAEYAIAMtAADsCQAgzAMAAO0JACDSAwAAAQAgAAAABS0AAOcJACAuAADqCQAgzAMAAOgJACDNAwAA6QkAINIDAABGACADLQAA5wkAIMwDAADoCQAg0gMAAEYAIAAAAAAABS0AAN8JACAuAADlCQAgzAMAAOAJACDNAwAA5AkAINIDAABGACAHLQAA3QkAIC4AAOIJACDMAwAA3gkAIM0DAADhCQAg0AMAACsAINEDAAArACDSAwAAAQAgAy0AAN8JACDMAwAA4AkAINIDAABGACADLQAA3QkAIMwDAADeCQAg0gMAAAEAIAAAAAAABS0AANUJACAuAADbCQAgzAMAANYJACDNAwAA2gkAINIDAABGACAFLQAA0wkAIC4AANgJACDMAwAA1AkAIM0DAADXCQAg0gMAABgAIAMtAADVCQAgzAMAANYJACDSAwAARgAgAy0AANMJACDMAwAA1AkAINIDAAAYACAAAAAAAAXPAwgAAAAB1gMIAAAAAdcDCAAAAAHYAwgAAAAB2QMIAAAAAQHPAyAAAAABAs8DAQAAAATVAwEAAAAFBS0AAMsJACAuAADRCQAgzAMAAMwJACDNAwAA0AkAINIDAABGACAFLQAAyQkAIC4AAM4JACDMAwAAygkAIM0DAADNCQAg0gMAABgAIAHPAwEAAAAEAy0AAMsJACDMAwAAzAkAINIDAABGACADLQAAyQkAIMwDAADKCQAg0gMAABgAIAAAAAAABS0AALwJACAuAADHCQAgzAMAAL0JACDNAwAAxgkAINIDAAAFACAFLQAAugkAIC4AAMQJACDMAwAAuwkAIM0DAADDCQAg0gMAAAEAIAstAAC0BgAwLgAAuQYAMMwDAAC1BgAwzQMAALYGADDOAwAAtwYAIM8DAAC4BgAw0AMAALgGADDRAwAAuAYAMNIDAAC4BgAw0wMAALoGADDUAwAAuwYAMAstAACoBgAwLgAArQYAMMwDAACpBgAwzQMAAKoGADDOAwAAqwYAIM8DAACsBgAw0AMAAKwGADDRAwAArAYAMNIDAACsBgAw0wMAAK4GADDUAwAArwYAMAstAACcBgAwLgAAoQYAMMwDAACdBgAwzQMAAJ4GADDOAwAAnwYAIM8DAACgBgAw0AMAAKAGADDRAwAAoAYAMNIDAACgBgAw0wMAAKIGADDUAwAAowYAMAstAACQBgAwLgAAlQYAMMwDAACRBgAwzQMAAJIGADDOAwAAkwYAIM8DAACUBgAw0AMAAJQGADDRAwAAlAYAMNIDAACUBgAw0wMAAJYGADDUAwAAlwYAMAstAACEBgAwLgAAiQYAMMwDAACFBgAwzQMAAIYGADDOAwAAhwYAIM8DAACIBgAw0AMAAIgGADDRAwAAiAYAMNIDAACIBgAw0wMAAIoGADDUAwAAiwYAMATwAgEAAAAB9AIBAAAAAfcCQAAAAAGOAwEAAAABAgAAAC8AIC0AAI8GACADAAAALwAgLQAAjwYAIC4AAI4GACABJgAAwgkAMAkOAAD6BAAg2QIAAPkEADDaAgAALQAQ2wIAAPkEADDwAgEAAAAB9AIBAJ8EACH3AkAAoQQAIY0DAQCfBAAhjgMBAJ8EACECAAAALwAgJgAAjgYAIAIAAACMBgAgJgAAjQYAIAjZAgAAiwYAMNoCAACMBgAQ2wIAAIsGADDwAgEAnwQAIfQCAQCfBAAh9wJAAKEEACGNAwEAnwQAIY4DAQCfBAAhCNkCAACLBgAw2gIAAIwGABDbAgAAiwYAMPACAQCfBAAh9AIBAJ8EACH3AkAAoQQAIY0DAQCfBAAhjgMBAJ8EACEE8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACEE8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACEE8AIBAAAAAfQCAQAAAAH3AkAAAAABjgMBAAAAAQkSAADhBQAg8AIBAAAAAfcCQAAAAAGLAwEAAAABjwMCAAAAAZADAQAAAAGRAwEAAAABkgOAAAAAAZMDAQAAAAECAAAAKQAgLQAAmwYAIAMAAAApACAtAACbBgAgLgAAmgYAIAEmAADBCQAwDg4AAPoEACASAACDBQAg2QIAAIIFADDaAgAAJwAQ2wIAAIIFADDwAgEAAAAB9wJAAKEEACGLAwEA5QQAIY0DAQCfBAAhjwMCAOwEACGQAwEA5QQAIZEDAQDlBAAhkgMAAKAEACCTAwEA5QQAIQIAAAApACAmAACaBgAgAgAAAJgGACAmAACZBgAgDNkCAACXBgAw2gIAAJgGABDbAgAAlwYAMPACAQCfBAAh9wJAAKEEACGLAwEA5QQAIY0DAQCfBAAhjwMCAOwEACGQAwEA5QQAIZEDAQDlBAAhkgMAAKAEACCTAwEA5QQAIQzZAgAAlwYAMNoCAACYBgAQ2wIAAJcGADDwAgEAnwQAIfcCQAChBAAhiwMBAOUEACGNAwEAnwQAIY8DAgDsBAAhkAMBAOUEACGRAwEA5QQAIZIDAACgBAAgkwMBAOUEACEI8AIBAJsFACH3AkAAnAUAIYsDAQCoBQAhjwMCAL8FACGQAwEAqAUAIZEDAQCoBQAhkgOAAAAAAZMDAQCoBQAhCRIAAN8FACDwAgEAmwUAIfcCQACcBQAhiwMBAKgFACGPAwIAvwUAIZADAQCoBQAhkQMBAKgFACGSA4AAAAABkwMBAKgFACEJEgAA4QUAIPACAQAAAAH3AkAAAAABiwMBAAAAAY8DAgAAAAGQAwEAAAABkQMBAAAAAZIDgAAAAAGTAwEAAAABCBAAAOoFACDwAgEAAAAB9wJAAAAAAYUDAQAAAAGUAwEAAAABlQMBAAAAAZYDAQAAAAGXAwIAAAABAgAAACUAIC0AAKcGACADAAAAJQAgLQAApwYAIC4AAKYGACABJgAAwAkAMA0OAAD6BAAgEAAA-AQAINkCAACEBQAw2gIAACMAENsCAACEBQAw8AIBAAAAAfcCQAChBAAhhQMBAJ8EACGNAwEAnwQAIZQDAQAAAAGVAwEAnwQAIZYDAQCfBAAhlwMCAOwEACECAAAAJQAgJgAApgYAIAIAAACkBgAgJgAApQYAIAvZAgAAowYAMNoCAACkBgAQ2wIAAKMGADDwAgEAnwQAIfcCQAChBAAhhQMBAJ8EACGNAwEAnwQAIZQDAQCfBAAhlQMBAJ8EACGWAwEAnwQAIZcDAgDsBAAhC9kCAACjBgAw2gIAAKQGABDbAgAAowYAMPACAQCfBAAh9wJAAKEEACGFAwEAnwQAIY0DAQCfBAAhlAMBAJ8EACGVAwEAnwQAIZYDAQCfBAAhlwMCAOwEACEH8AIBAJsFACH3AkAAnAUAIYUDAQCbBQAhlAMBAJsFACGVAwEAmwUAIZYDAQCbBQAhlwMCAL8FACEIEAAA6AUAIPACAQCbBQAh9wJAAJwFACGFAwEAmwUAIZQDAQCbBQAhlQMBAJsFACGWAwEAmwUAIZcDAgC_BQAhCBAAAOoFACDwAgEAAAAB9wJAAAAAAYUDAQAAAAGUAwEAAAABlQMBAAAAAZYDAQAAAAGXAwIAAAABAwoAANMFACD3AkAAAAAB-AIBAAAAAQIAAAAhACAtAACzBgAgAwAAACEAIC0AALMGACAuAACyBgAgASYAAL8JADAJCgAA5gQAIA4AAPoEACDZAgAAhgUAMNoCAAAfABDbAgAAhgUAMPcCQAChBAAh-AIBAJ8EACGNAwEAnwQAIccDAACFBQAgAgAAACEAICYAALIGACACAAAAsAYAICYAALEGACAG2QIAAK8GADDaAgAAsAYAENsCAACvBgAw9wJAAKEEACH4AgEAnwQAIY0DAQCfBAAhBtkCAACvBgAw2gIAALAGABDbAgAArwYAMPcCQAChBAAh-AIBAJ8EACGNAwEAnwQAIQL3AkAAnAUAIfgCAQCbBQAhAwoAANEFACD3AkAAnAUAIfgCAQCbBQAhAwoAANMFACD3AkAAAAAB-AIBAAAAAQkQAAD3BQAg8AIBAAAAAYUDAQAAAAGYAwEAAAABmQMIAAAAAZoDIAAAAAGbAwEAAAABnANAAAAAAZ0DAAD1BQAgAgAAABwAIC0AAL8GACADAAAAHAAgLQAAvwYAIC4AAL4GACABJgAAvgkAMA4OAAD6BAAgEAAA-AQAINkCAACHBQAw2gIAABoAENsCAACHBQAw8AIBAAAAAYUDAQCfBAAhjQMBAJ8EACGYAwEA5QQAIZkDCACIBQAhmgMgAIkFACGbAwEA5QQAIZwDQADgBAAhnQMAAMMEACACAAAAHAAgJgAAvgYAIAIAAAC8BgAgJgAAvQYAIAzZAgAAuwYAMNoCAAC8BgAQ2wIAALsGADDwAgEAnwQAIYUDAQCfBAAhjQMBAJ8EACGYAwEA5QQAIZkDCACIBQAhmgMgAIkFACGbAwEA5QQAIZwDQADgBAAhnQMAAMMEACAM2QIAALsGADDaAgAAvAYAENsCAAC7BgAw8AIBAJ8EACGFAwEAnwQAIY0DAQCfBAAhmAMBAOUEACGZAwgAiAUAIZoDIACJBQAhmwMBAOUEACGcA0AA4AQAIZ0DAADDBAAgCPACAQCbBQAhhQMBAJsFACGYAwEAqAUAIZkDCADwBQAhmgMgAPEFACGbAwEAqAUAIZwDQAChBQAhnQMAAPIFACAJEAAA9AUAIPACAQCbBQAhhQMBAJsFACGYAwEAqAUAIZkDCADwBQAhmgMgAPEFACGbAwEAqAUAIZwDQAChBQAhnQMAAPIFACAJEAAA9wUAIPACAQAAAAGFAwEAAAABmAMBAAAAAZkDCAAAAAGaAyAAAAABmwMBAAAAAZwDQAAAAAGdAwAA9QUAIAMtAAC8CQAgzAMAAL0JACDSAwAABQAgAy0AALoJACDMAwAAuwkAINIDAAABACAELQAAtAYAMMwDAAC1BgAwzgMAALcGACDSAwAAuAYAMAQtAACoBgAwzAMAAKkGADDOAwAAqwYAINIDAACsBgAwBC0AAJwGADDMAwAAnQYAMM4DAACfBgAg0gMAAKAGADAELQAAkAYAMMwDAACRBgAwzgMAAJMGACDSAwAAlAYAMAQtAACEBgAwzAMAAIUGADDOAwAAhwYAINIDAACIBgAwAAAAAAAFLQAAtQkAIC4AALgJACDMAwAAtgkAIM0DAAC3CQAg0gMAABgAIAMtAAC1CQAgzAMAALYJACDSAwAAGAAgAAAAAAABzwMAAACmAwICzwMBAAAABNUDAQAAAAUFLQAArAkAIC4AALMJACDMAwAArQkAIM0DAACyCQAg0gMAAAUAIAstAAD7BgAwLgAA_wYAMMwDAAD8BgAwzQMAAP0GADDOAwAA_gYAIM8DAAC4BgAw0AMAALgGADDRAwAAuAYAMNIDAAC4BgAw0wMAAIAHADDUAwAAuwYAMAstAADvBgAwLgAA9AYAMMwDAADwBgAwzQMAAPEGADDOAwAA8gYAIM8DAADzBgAw0AMAAPMGADDRAwAA8wYAMNIDAADzBgAw0wMAAPUGADDUAwAA9gYAMAstAADmBgAwLgAA6gYAMMwDAADnBgAwzQMAAOgGADDOAwAA6QYAIM8DAACgBgAw0AMAAKAGADDRAwAAoAYAMNIDAACgBgAw0wMAAOsGADDUAwAAowYAMAstAADaBgAwLgAA3wYAMMwDAADbBgAwzQMAANwGADDOAwAA3QYAIM8DAADeBgAw0AMAAN4GADDRAwAA3gYAMNIDAADeBgAw0wMAAOAGADDUAwAA4QYAMAsEAADEBQAg8AIBAAAAAfQCAQAAAAGBAwAAAIEDAoIDAgAAAAGDAwEAAAABhAMCAAAAAYYDIAAAAAGIAwAAAIgDA4kDAQAAAAGKAwEAAAABAgAAAD0AIC0AAOUGACADAAAAPQAgLQAA5QYAIC4AAOQGACABJgAAsQkAMBAEAADpBAAgEAAA9gQAINkCAADyBAAw2gIAADsAENsCAADyBAAw8AIBAAAAAfQCAQCfBAAhgQMAAPMEgQMiggMCAOwEACGDAwEA5QQAIYQDAgD0BAAhhQMBAOUEACGGAyAA5AQAIYgDAAD1BIgDI4kDAQDlBAAhigMBAOUEACECAAAAPQAgJgAA5AYAIAIAAADiBgAgJgAA4wYAIA7ZAgAA4QYAMNoCAADiBgAQ2wIAAOEGADDwAgEAnwQAIfQCAQCfBAAhgQMAAPMEgQMiggMCAOwEACGDAwEA5QQAIYQDAgD0BAAhhQMBAOUEACGGAyAA5AQAIYgDAAD1BIgDI4kDAQDlBAAhigMBAOUEACEO2QIAAOEGADDaAgAA4gYAENsCAADhBgAw8AIBAJ8EACH0AgEAnwQAIYEDAADzBIEDIoIDAgDsBAAhgwMBAOUEACGEAwIA9AQAIYUDAQDlBAAhhgMgAOQEACGIAwAA9QSIAyOJAwEA5QQAIYoDAQDlBAAhCvACAQCbBQAh9AIBAJsFACGBAwAAvgWBAyKCAwIAvwUAIYMDAQCoBQAhhAMCAMAFACGGAyAApwUAIYgDAADBBYgDI4kDAQCoBQAhigMBAKgFACELBAAAwgUAIPACAQCbBQAh9AIBAJsFACGBAwAAvgWBAyKCAwIAvwUAIYMDAQCoBQAhhAMCAMAFACGGAyAApwUAIYgDAADBBYgDI4kDAQCoBQAhigMBAKgFACELBAAAxAUAIPACAQAAAAH0AgEAAAABgQMAAACBAwKCAwIAAAABgwMBAAAAAYQDAgAAAAGGAyAAAAABiAMAAACIAwOJAwEAAAABigMBAAAAAQgOAADpBQAg8AIBAAAAAfcCQAAAAAGNAwEAAAABlAMBAAAAAZUDAQAAAAGWAwEAAAABlwMCAAAAAQIAAAAlACAtAADuBgAgAwAAACUAIC0AAO4GACAuAADtBgAgASYAALAJADACAAAAJQAgJgAA7QYAIAIAAACkBgAgJgAA7AYAIAfwAgEAmwUAIfcCQACcBQAhjQMBAJsFACGUAwEAmwUAIZUDAQCbBQAhlgMBAJsFACGXAwIAvwUAIQgOAADnBQAg8AIBAJsFACH3AkAAnAUAIY0DAQCbBQAhlAMBAJsFACGVAwEAmwUAIZYDAQCbBQAhlwMCAL8FACEIDgAA6QUAIPACAQAAAAH3AkAAAAABjQMBAAAAAZQDAQAAAAGVAwEAAAABlgMBAAAAAZcDAgAAAAEE8AIBAAAAAYIDAgAAAAGjAwEAAAABpAMBAAAAAQIAAAA4ACAtAAD6BgAgAwAAADgAIC0AAPoGACAuAAD5BgAgASYAAK8JADAJEAAA-AQAINkCAAD3BAAw2gIAADYAENsCAAD3BAAw8AIBAAAAAYIDAgDsBAAhhQMBAJ8EACGjAwEAnwQAIaQDAQDlBAAhAgAAADgAICYAAPkGACACAAAA9wYAICYAAPgGACAI2QIAAPYGADDaAgAA9wYAENsCAAD2BgAw8AIBAJ8EACGCAwIA7AQAIYUDAQCfBAAhowMBAJ8EACGkAwEA5QQAIQjZAgAA9gYAMNoCAAD3BgAQ2wIAAPYGADDwAgEAnwQAIYIDAgDsBAAhhQMBAJ8EACGjAwEAnwQAIaQDAQDlBAAhBPACAQCbBQAhggMCAL8FACGjAwEAmwUAIaQDAQCoBQAhBPACAQCbBQAhggMCAL8FACGjAwEAmwUAIaQDAQCoBQAhBPACAQAAAAGCAwIAAAABowMBAAAAAaQDAQAAAAEJDgAA9gUAIPACAQAAAAGNAwEAAAABmAMBAAAAAZkDCAAAAAGaAyAAAAABmwMBAAAAAZwDQAAAAAGdAwAA9QUAIAIAAAAcACAtAACDBwAgAwAAABwAIC0AAIMHACAuAACCBwAgASYAAK4JADACAAAAHAAgJgAAggcAIAIAAAC8BgAgJgAAgQcAIAjwAgEAmwUAIY0DAQCbBQAhmAMBAKgFACGZAwgA8AUAIZoDIADxBQAhmwMBAKgFACGcA0AAoQUAIZ0DAADyBQAgCQ4AAPMFACDwAgEAmwUAIY0DAQCbBQAhmAMBAKgFACGZAwgA8AUAIZoDIADxBQAhmwMBAKgFACGcA0AAoQUAIZ0DAADyBQAgCQ4AAPYFACDwAgEAAAABjQMBAAAAAZgDAQAAAAGZAwgAAAABmgMgAAAAAZsDAQAAAAGcA0AAAAABnQMAAPUFACABzwMBAAAABAMtAACsCQAgzAMAAK0JACDSAwAABQAgBC0AAPsGADDMAwAA_AYAMM4DAAD-BgAg0gMAALgGADAELQAA7wYAMMwDAADwBgAwzgMAAPIGACDSAwAA8wYAMAQtAADmBgAwzAMAAOcGADDOAwAA6QYAINIDAACgBgAwBC0AANoGADDMAwAA2wYAMM4DAADdBgAg0gMAAN4GADAAAAAFLQAApAkAIC4AAKoJACDMAwAApQkAIM0DAACpCQAg0gMAAAUAIAUtAACiCQAgLgAApwkAIMwDAACjCQAgzQMAAKYJACDSAwAAAQAgAy0AAKQJACDMAwAApQkAINIDAAAFACADLQAAogkAIMwDAACjCQAg0gMAAAEAIAAAAAUtAACaCQAgLgAAoAkAIMwDAACbCQAgzQMAAJ8JACDSAwAABQAgBS0AAJgJACAuAACdCQAgzAMAAJkJACDNAwAAnAkAINIDAACUAQAgAy0AAJoJACDMAwAAmwkAINIDAAAFACADLQAAmAkAIMwDAACZCQAg0gMAAJQBACAAAAAFLQAAkwkAIC4AAJYJACDMAwAAlAkAIM0DAACVCQAg0gMAAJQBACADLQAAkwkAIMwDAACUCQAg0gMAAJQBACAAAAALLQAArgcAMC4AALMHADDMAwAArwcAMM0DAACwBwAwzgMAALEHACDPAwAAsgcAMNADAACyBwAw0QMAALIHADDSAwAAsgcAMNMDAAC0BwAw1AMAALUHADALLQAAogcAMC4AAKcHADDMAwAAowcAMM0DAACkBwAwzgMAAKUHACDPAwAApgcAMNADAACmBwAw0QMAAKYHADDSAwAApgcAMNMDAACoBwAw1AMAAKkHADAD8AIBAAAAAfcCQAAAAAH5AgEAAAABAgAAAA4AIC0AAK0HACADAAAADgAgLQAArQcAIC4AAKwHACABJgAAkgkAMAgGAACRBQAg2QIAAJAFADDaAgAADAAQ2wIAAJAFADDwAgEAAAAB9wJAAKEEACH5AgEAAAABrgMBAJ8EACECAAAADgAgJgAArAcAIAIAAACqBwAgJgAAqwcAIAfZAgAAqQcAMNoCAACqBwAQ2wIAAKkHADDwAgEAnwQAIfcCQAChBAAh-QIBAJ8EACGuAwEAnwQAIQfZAgAAqQcAMNoCAACqBwAQ2wIAAKkHADDwAgEAnwQAIfcCQAChBAAh-QIBAJ8EACGuAwEAnwQAIQPwAgEAmwUAIfcCQACcBQAh-QIBAJsFACED8AIBAJsFACH3AkAAnAUAIfkCAQCbBQAhA_ACAQAAAAH3AkAAAAAB-QIBAAAAAQIEAACWBwAg9AIBAAAAAQIAAAAJACAtAAC5BwAgAwAAAAkAIC0AALkHACAuAAC4BwAgASYAAJEJADAIBAAA6QQAIAYAAJEFACDZAgAAkwUAMNoCAAAHABDbAgAAkwUAMPQCAQCfBAAhrgMBAJ8EACHJAwAAkgUAIAIAAAAJACAmAAC4BwAgAgAAALYHACAmAAC3BwAgBdkCAAC1BwAw2gIAALYHABDbAgAAtQcAMPQCAQCfBAAhrgMBAJ8EACEF2QIAALUHADDaAgAAtgcAENsCAAC1BwAw9AIBAJ8EACGuAwEAnwQAIQH0AgEAmwUAIQIEAACUBwAg9AIBAJsFACECBAAAlgcAIPQCAQAAAAEELQAArgcAMMwDAACvBwAwzgMAALEHACDSAwAAsgcAMAQtAACiBwAwzAMAAKMHADDOAwAApQcAINIDAACmBwAwAAAAAAAAAAHPAwAAALMDAgUtAACGCQAgLgAAjwkAIMwDAACHCQAgzQMAAI4JACDSAwAAAQAgCy0AAIQIADAuAACICAAwzAMAAIUIADDNAwAAhggAMM4DAACHCAAgzwMAALIHADDQAwAAsgcAMNEDAACyBwAw0gMAALIHADDTAwAAiQgAMNQDAAC1BwAwCy0AAPgHADAuAAD9BwAwzAMAAPkHADDNAwAA-gcAMM4DAAD7BwAgzwMAAPwHADDQAwAA_AcAMNEDAAD8BwAw0gMAAPwHADDTAwAA_gcAMNQDAAD_BwAwCy0AAOwHADAuAADxBwAwzAMAAO0HADDNAwAA7gcAMM4DAADvBwAgzwMAAPAHADDQAwAA8AcAMNEDAADwBwAw0gMAAPAHADDTAwAA8gcAMNQDAADzBwAwCy0AAOAHADAuAADlBwAwzAMAAOEHADDNAwAA4gcAMM4DAADjBwAgzwMAAOQHADDQAwAA5AcAMNEDAADkBwAw0gMAAOQHADDTAwAA5gcAMNQDAADnBwAwCy0AANQHADAuAADZBwAwzAMAANUHADDNAwAA1gcAMM4DAADXBwAgzwMAANgHADDQAwAA2AcAMNEDAADYBwAw0gMAANgHADDTAwAA2gcAMNQDAADbBwAwCy0AAMsHADAuAADPBwAwzAMAAMwHADDNAwAAzQcAMM4DAADOBwAgzwMAAN4GADDQAwAA3gYAMNEDAADeBgAw0gMAAN4GADDTAwAA0AcAMNQDAADhBgAwCxAAAMUFACDwAgEAAAABgQMAAACBAwKCAwIAAAABgwMBAAAAAYQDAgAAAAGFAwEAAAABhgMgAAAAAYgDAAAAiAMDiQMBAAAAAYoDAQAAAAECAAAAPQAgLQAA0wcAIAMAAAA9ACAtAADTBwAgLgAA0gcAIAEmAACNCQAwAgAAAD0AICYAANIHACACAAAA4gYAICYAANEHACAK8AIBAJsFACGBAwAAvgWBAyKCAwIAvwUAIYMDAQCoBQAhhAMCAMAFACGFAwEAqAUAIYYDIACnBQAhiAMAAMEFiAMjiQMBAKgFACGKAwEAqAUAIQsQAADDBQAg8AIBAJsFACGBAwAAvgWBAyKCAwIAvwUAIYMDAQCoBQAhhAMCAMAFACGFAwEAqAUAIYYDIACnBQAhiAMAAMEFiAMjiQMBAKgFACGKAwEAqAUAIQsQAADFBQAg8AIBAAAAAYEDAAAAgQMCggMCAAAAAYMDAQAAAAGEAwIAAAABhQMBAAAAAYYDIAAAAAGIAwAAAIgDA4kDAQAAAAGKAwEAAAABBRIAAMwFACDwAgEAAAAB9wJAAAAAAYsDAQAAAAGMAwEAAAABAgAAAEoAIC0AAN8HACADAAAASgAgLQAA3wcAIC4AAN4HACABJgAAjAkAMAoEAADpBAAgEgAA5gQAINkCAADoBAAw2gIAAEgAENsCAADoBAAw8AIBAAAAAfQCAQCfBAAh9wJAAKEEACGLAwEAnwQAIYwDAQCfBAAhAgAAAEoAICYAAN4HACACAAAA3AcAICYAAN0HACAI2QIAANsHADDaAgAA3AcAENsCAADbBwAw8AIBAJ8EACH0AgEAnwQAIfcCQAChBAAhiwMBAJ8EACGMAwEAnwQAIQjZAgAA2wcAMNoCAADcBwAQ2wIAANsHADDwAgEAnwQAIfQCAQCfBAAh9wJAAKEEACGLAwEAnwQAIYwDAQCfBAAhBPACAQCbBQAh9wJAAJwFACGLAwEAmwUAIYwDAQCbBQAhBRIAAMoFACDwAgEAmwUAIfcCQACcBQAhiwMBAJsFACGMAwEAmwUAIQUSAADMBQAg8AIBAAAAAfcCQAAAAAGLAwEAAAABjAMBAAAAAQ0MAADBBgAgDQAAwgYAIA8AAMMGACARAADEBgAgEwAAxQYAIBQAAMYGACDeAkAAAAAB8AIBAAAAAfcCQAAAAAGOAwEAAAABjwMCAAAAAaEDQAAAAAGiAwEAAAABAgAAAEYAIC0AAOsHACADAAAARgAgLQAA6wcAIC4AAOoHACABJgAAiwkAMBMEAADpBAAgDAAA5gQAIA0AAO0EACAPAADuBAAgEQAA7wQAIBMAAPAEACAUAADxBAAg2QIAAOsEADDaAgAARAAQ2wIAAOsEADDeAkAAoQQAIfACAQAAAAH0AgEAnwQAIfcCQAChBAAhjgMBAJ8EACGPAwIA7AQAIaEDQADgBAAhogMBAJ8EACHGAwAA6gQAIAIAAABGACAmAADqBwAgAgAAAOgHACAmAADpBwAgC9kCAADnBwAw2gIAAOgHABDbAgAA5wcAMN4CQAChBAAh8AIBAJ8EACH0AgEAnwQAIfcCQAChBAAhjgMBAJ8EACGPAwIA7AQAIaEDQADgBAAhogMBAJ8EACEL2QIAAOcHADDaAgAA6AcAENsCAADnBwAw3gJAAKEEACHwAgEAnwQAIfQCAQCfBAAh9wJAAKEEACGOAwEAnwQAIY8DAgDsBAAhoQNAAOAEACGiAwEAnwQAIQfeAkAAnAUAIfACAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIQ0MAAD-BQAgDQAA_wUAIA8AAIAGACARAACBBgAgEwAAggYAIBQAAIMGACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIQ0MAADBBgAgDQAAwgYAIA8AAMMGACARAADEBgAgEwAAxQYAIBQAAMYGACDeAkAAAAAB8AIBAAAAAfcCQAAAAAGOAwEAAAABjwMCAAAAAaEDQAAAAAGiAwEAAAABEBEAAIgHACAVAACGBwAgFgAAhwcAIBcAAIkHACDwAgEAAAAB9QIBAAAAAYEDAAAApgMCggMCAAAAAaYDAQAAAAGnAyAAAAABqAMgAAAAAakDCAAAAAGqAwgAAAABqwMCAAAAAawDAQAAAAGtAwAAhAcAIAIAAAAYACAtAAD3BwAgAwAAABgAIC0AAPcHACAuAAD2BwAgASYAAIoJADAVBAAA6QQAIBEAAO8EACAVAADtBAAgFgAAjAUAIBcAAI0FACDZAgAAigUAMNoCAAAWABDbAgAAigUAMPACAQAAAAH0AgEAnwQAIfUCAQCfBAAhgQMAAIsFpgMiggMCAOwEACGmAwEA5QQAIacDIADkBAAhqAMgAOQEACGpAwgAiAUAIaoDCACIBQAhqwMCAPQEACGsAwEA5QQAIa0DAADDBAAgAgAAABgAICYAAPYHACACAAAA9AcAICYAAPUHACAQ2QIAAPMHADDaAgAA9AcAENsCAADzBwAw8AIBAJ8EACH0AgEAnwQAIfUCAQCfBAAhgQMAAIsFpgMiggMCAOwEACGmAwEA5QQAIacDIADkBAAhqAMgAOQEACGpAwgAiAUAIaoDCACIBQAhqwMCAPQEACGsAwEA5QQAIa0DAADDBAAgENkCAADzBwAw2gIAAPQHABDbAgAA8wcAMPACAQCfBAAh9AIBAJ8EACH1AgEAnwQAIYEDAACLBaYDIoIDAgDsBAAhpgMBAOUEACGnAyAA5AQAIagDIADkBAAhqQMIAIgFACGqAwgAiAUAIasDAgD0BAAhrAMBAOUEACGtAwAAwwQAIAzwAgEAmwUAIfUCAQCbBQAhgQMAANMGpgMiggMCAL8FACGmAwEAqAUAIacDIACnBQAhqAMgAKcFACGpAwgA8AUAIaoDCADwBQAhqwMCAMAFACGsAwEAqAUAIa0DAADUBgAgEBEAANgGACAVAADWBgAgFgAA1wYAIBcAANkGACDwAgEAmwUAIfUCAQCbBQAhgQMAANMGpgMiggMCAL8FACGmAwEAqAUAIacDIACnBQAhqAMgAKcFACGpAwgA8AUAIaoDCADwBQAhqwMCAMAFACGsAwEAqAUAIa0DAADUBgAgEBEAAIgHACAVAACGBwAgFgAAhwcAIBcAAIkHACDwAgEAAAAB9QIBAAAAAYEDAAAApgMCggMCAAAAAaYDAQAAAAGnAyAAAAABqAMgAAAAAakDCAAAAAGqAwgAAAABqwMCAAAAAawDAQAAAAGtAwAAhAcAIAIKAACQBwAg-AIBAAAAAQIAAAAUACAtAACDCAAgAwAAABQAIC0AAIMIACAuAACCCAAgASYAAIkJADAIBAAA6QQAIAoAAOYEACDZAgAAjwUAMNoCAAASABDbAgAAjwUAMPQCAQCfBAAh-AIBAJ8EACHIAwAAjgUAIAIAAAAUACAmAACCCAAgAgAAAIAIACAmAACBCAAgBdkCAAD_BwAw2gIAAIAIABDbAgAA_wcAMPQCAQCfBAAh-AIBAJ8EACEF2QIAAP8HADDaAgAAgAgAENsCAAD_BwAw9AIBAJ8EACH4AgEAnwQAIQH4AgEAmwUAIQIKAACOBwAg-AIBAJsFACECCgAAkAcAIPgCAQAAAAECBgAAlwcAIK4DAQAAAAECAAAACQAgLQAAjAgAIAMAAAAJACAtAACMCAAgLgAAiwgAIAEmAACICQAwAgAAAAkAICYAAIsIACACAAAAtgcAICYAAIoIACABrgMBAJsFACECBgAAlQcAIK4DAQCbBQAhAgYAAJcHACCuAwEAAAABAy0AAIYJACDMAwAAhwkAINIDAAABACAELQAAhAgAMMwDAACFCAAwzgMAAIcIACDSAwAAsgcAMAQtAAD4BwAwzAMAAPkHADDOAwAA-wcAINIDAAD8BwAwBC0AAOwHADDMAwAA7QcAMM4DAADvBwAg0gMAAPAHADAELQAA4AcAMMwDAADhBwAwzgMAAOMHACDSAwAA5AcAMAQtAADUBwAwzAMAANUHADDOAwAA1wcAINIDAADYBwAwBC0AAMsHADDMAwAAzAcAMM4DAADOBwAg0gMAAN4GADAAAAABzwMAAADDAwILLQAA2AgAMC4AAN0IADDMAwAA2QgAMM0DAADaCAAwzgMAANsIACDPAwAA3AgAMNADAADcCAAw0QMAANwIADDSAwAA3AgAMNMDAADeCAAw1AMAAN8IADALLQAAzwgAMC4AANMIADDMAwAA0AgAMM0DAADRCAAwzgMAANIIACDPAwAA_AcAMNADAAD8BwAw0QMAAPwHADDSAwAA_AcAMNMDAADUCAAw1AMAAP8HADALLQAAxggAMC4AAMoIADDMAwAAxwgAMM0DAADICAAwzgMAAMkIACDPAwAA5AcAMNADAADkBwAw0QMAAOQHADDSAwAA5AcAMNMDAADLCAAw1AMAAOcHADALLQAAvQgAMC4AAMEIADDMAwAAvggAMM0DAAC_CAAwzgMAAMAIACDPAwAA2AcAMNADAADYBwAw0QMAANgHADDSAwAA2AcAMNMDAADCCAAw1AMAANsHADALLQAAtAgAMC4AALgIADDMAwAAtQgAMM0DAAC2CAAwzgMAALcIACDPAwAArAYAMNADAACsBgAw0QMAAKwGADDSAwAArAYAMNMDAAC5CAAw1AMAAK8GADALLQAAqwgAMC4AAK8IADDMAwAArAgAMM0DAACtCAAwzgMAAK4IACDPAwAAlAYAMNADAACUBgAw0QMAAJQGADDSAwAAlAYAMNMDAACwCAAw1AMAAJcGADALLQAAnwgAMC4AAKQIADDMAwAAoAgAMM0DAAChCAAwzgMAAKIIACDPAwAAowgAMNADAACjCAAw0QMAAKMIADDSAwAAowgAMNMDAAClCAAw1AMAAKYIADALHwAAuAUAIN4CQAAAAAHwAgEAAAAB9wJAAAAAAfkCAQAAAAH6AgEAAAAB-wKAAAAAAfwCIAAAAAH9AkAAAAAB_gIBAAAAAf8CAQAAAAECAAAAWgAgLQAAqggAIAMAAABaACAtAACqCAAgLgAAqQgAIAEmAACFCQAwEQoAAOYEACAfAADnBAAg2QIAAOMEADDaAgAAWAAQ2wIAAOMEADDeAkAAoQQAIfACAQAAAAH3AkAAoQQAIfgCAQCfBAAh-QIBAJ8EACH6AgEAnwQAIfsCAACgBAAg_AIgAOQEACH9AkAA4AQAIf4CAQDlBAAh_wIBAOUEACHFAwAA4gQAIAIAAABaACAmAACpCAAgAgAAAKcIACAmAACoCAAgDtkCAACmCAAw2gIAAKcIABDbAgAApggAMN4CQAChBAAh8AIBAJ8EACH3AkAAoQQAIfgCAQCfBAAh-QIBAJ8EACH6AgEAnwQAIfsCAACgBAAg_AIgAOQEACH9AkAA4AQAIf4CAQDlBAAh_wIBAOUEACEO2QIAAKYIADDaAgAApwgAENsCAACmCAAw3gJAAKEEACHwAgEAnwQAIfcCQAChBAAh-AIBAJ8EACH5AgEAnwQAIfoCAQCfBAAh-wIAAKAEACD8AiAA5AQAIf0CQADgBAAh_gIBAOUEACH_AgEA5QQAIQreAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAmwUAIfoCAQCbBQAh-wKAAAAAAfwCIACnBQAh_QJAAKEFACH-AgEAqAUAIf8CAQCoBQAhCx8AAKoFACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAmwUAIfoCAQCbBQAh-wKAAAAAAfwCIACnBQAh_QJAAKEFACH-AgEAqAUAIf8CAQCoBQAhCx8AALgFACDeAkAAAAAB8AIBAAAAAfcCQAAAAAH5AgEAAAAB-gIBAAAAAfsCgAAAAAH8AiAAAAAB_QJAAAAAAf4CAQAAAAH_AgEAAAABCQ4AAOAFACDwAgEAAAAB9wJAAAAAAY0DAQAAAAGPAwIAAAABkAMBAAAAAZEDAQAAAAGSA4AAAAABkwMBAAAAAQIAAAApACAtAACzCAAgAwAAACkAIC0AALMIACAuAACyCAAgASYAAIQJADACAAAAKQAgJgAAsggAIAIAAACYBgAgJgAAsQgAIAjwAgEAmwUAIfcCQACcBQAhjQMBAJsFACGPAwIAvwUAIZADAQCoBQAhkQMBAKgFACGSA4AAAAABkwMBAKgFACEJDgAA3gUAIPACAQCbBQAh9wJAAJwFACGNAwEAmwUAIY8DAgC_BQAhkAMBAKgFACGRAwEAqAUAIZIDgAAAAAGTAwEAqAUAIQkOAADgBQAg8AIBAAAAAfcCQAAAAAGNAwEAAAABjwMCAAAAAZADAQAAAAGRAwEAAAABkgOAAAAAAZMDAQAAAAEDDgAA0gUAIPcCQAAAAAGNAwEAAAABAgAAACEAIC0AALwIACADAAAAIQAgLQAAvAgAIC4AALsIACABJgAAgwkAMAIAAAAhACAmAAC7CAAgAgAAALAGACAmAAC6CAAgAvcCQACcBQAhjQMBAJsFACEDDgAA0AUAIPcCQACcBQAhjQMBAJsFACEDDgAA0gUAIPcCQAAAAAGNAwEAAAABBQQAAMsFACDwAgEAAAAB9AIBAAAAAfcCQAAAAAGMAwEAAAABAgAAAEoAIC0AAMUIACADAAAASgAgLQAAxQgAIC4AAMQIACABJgAAggkAMAIAAABKACAmAADECAAgAgAAANwHACAmAADDCAAgBPACAQCbBQAh9AIBAJsFACH3AkAAnAUAIYwDAQCbBQAhBQQAAMkFACDwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGMAwEAmwUAIQUEAADLBQAg8AIBAAAAAfQCAQAAAAH3AkAAAAABjAMBAAAAAQ0EAADABgAgDQAAwgYAIA8AAMMGACARAADEBgAgEwAAxQYAIBQAAMYGACDeAkAAAAAB8AIBAAAAAfQCAQAAAAH3AkAAAAABjgMBAAAAAY8DAgAAAAGhA0AAAAABAgAAAEYAIC0AAM4IACADAAAARgAgLQAAzggAIC4AAM0IACABJgAAgQkAMAIAAABGACAmAADNCAAgAgAAAOgHACAmAADMCAAgB94CQACcBQAh8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACGPAwIAvwUAIaEDQAChBQAhDQQAAP0FACANAAD_BQAgDwAAgAYAIBEAAIEGACATAACCBgAgFAAAgwYAIN4CQACcBQAh8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACGPAwIAvwUAIaEDQAChBQAhDQQAAMAGACANAADCBgAgDwAAwwYAIBEAAMQGACATAADFBgAgFAAAxgYAIN4CQAAAAAHwAgEAAAAB9AIBAAAAAfcCQAAAAAGOAwEAAAABjwMCAAAAAaEDQAAAAAECBAAAjwcAIPQCAQAAAAECAAAAFAAgLQAA1wgAIAMAAAAUACAtAADXCAAgLgAA1ggAIAEmAACACQAwAgAAABQAICYAANYIACACAAAAgAgAICYAANUIACAB9AIBAJsFACECBAAAjQcAIPQCAQCbBQAhAgQAAI8HACD0AgEAAAABEwkAAI4IACALAACPCAAgFwAAkwgAIBgAAJAIACAZAACRCAAgGgAAkggAIN4CQAAAAAHwAgEAAAAB9QIBAAAAAfcCQAAAAAGPAwIAAAABpgMBAAAAAbMDAAAAswMCtAMBAAAAAbUDIAAAAAG2A4AAAAABtwNAAAAAAbgDAgAAAAG5AyAAAAABAgAAAAUAIC0AAOMIACADAAAABQAgLQAA4wgAIC4AAOIIACABJgAA_wgAMBgDAADmBAAgCQAA0gQAIAsAAP4EACAXAACNBQAgGAAAlwUAIBkAAP8EACAaAACABQAg2QIAAJQFADDaAgAAAwAQ2wIAAJQFADDeAkAAoQQAIfACAQAAAAH1AgEAnwQAIfcCQAChBAAhjwMCAOwEACGmAwEA5QQAIbMDAACVBbMDIrQDAQDlBAAhtQMgAOQEACG2AwAAlgUAILcDQADgBAAhuAMCAOwEACG5AyAA5AQAIboDAQCfBAAhAgAAAAUAICYAAOIIACACAAAA4AgAICYAAOEIACAR2QIAAN8IADDaAgAA4AgAENsCAADfCAAw3gJAAKEEACHwAgEAnwQAIfUCAQCfBAAh9wJAAKEEACGPAwIA7AQAIaYDAQDlBAAhswMAAJUFswMitAMBAOUEACG1AyAA5AQAIbYDAACWBQAgtwNAAOAEACG4AwIA7AQAIbkDIADkBAAhugMBAJ8EACER2QIAAN8IADDaAgAA4AgAENsCAADfCAAw3gJAAKEEACHwAgEAnwQAIfUCAQCfBAAh9wJAAKEEACGPAwIA7AQAIaYDAQDlBAAhswMAAJUFswMitAMBAOUEACG1AyAA5AQAIbYDAACWBQAgtwNAAOAEACG4AwIA7AQAIbkDIADkBAAhugMBAJ8EACEN3gJAAJwFACHwAgEAmwUAIfUCAQCbBQAh9wJAAJwFACGPAwIAvwUAIaYDAQCoBQAhswMAAMMHswMitAMBAKgFACG1AyAApwUAIbYDgAAAAAG3A0AAoQUAIbgDAgC_BQAhuQMgAKcFACETCQAAxQcAIAsAAMYHACAXAADKBwAgGAAAxwcAIBkAAMgHACAaAADJBwAg3gJAAJwFACHwAgEAmwUAIfUCAQCbBQAh9wJAAJwFACGPAwIAvwUAIaYDAQCoBQAhswMAAMMHswMitAMBAKgFACG1AyAApwUAIbYDgAAAAAG3A0AAoQUAIbgDAgC_BQAhuQMgAKcFACETCQAAjggAIAsAAI8IACAXAACTCAAgGAAAkAgAIBkAAJEIACAaAACSCAAg3gJAAAAAAfACAQAAAAH1AgEAAAAB9wJAAAAAAY8DAgAAAAGmAwEAAAABswMAAACzAwK0AwEAAAABtQMgAAAAAbYDgAAAAAG3A0AAAAABuAMCAAAAAbkDIAAAAAEELQAA2AgAMMwDAADZCAAwzgMAANsIACDSAwAA3AgAMAQtAADPCAAwzAMAANAIADDOAwAA0ggAINIDAAD8BwAwBC0AAMYIADDMAwAAxwgAMM4DAADJCAAg0gMAAOQHADAELQAAvQgAMMwDAAC-CAAwzgMAAMAIACDSAwAA2AcAMAQtAAC0CAAwzAMAALUIADDOAwAAtwgAINIDAACsBgAwBC0AAKsIADDMAwAArAgAMM4DAACuCAAg0gMAAJQGADAELQAAnwgAMMwDAACgCAAwzgMAAKIIACDSAwAAowgAMAAAAAAAAAAFCgAA8wgAIB8AAPQIACD9AgAAnQUAIP4CAACdBQAg_wIAAJ0FACANCwAA7AgAIA8AAO8IACAZAADtCAAgGwAA6wgAIBwAAO4IACAdAADwCAAgIAAA8QgAIPkCAACdBQAgvAMAAJ0FACC9AwAAnQUAIL4DAACdBQAgvwMAAJ0FACDAAwAAnQUAIAALAwAA8wgAIAkAALwHACALAADsCAAgFwAA_AgAIBgAAP4IACAZAADtCAAgGgAA7ggAIKYDAACdBQAgtAMAAJ0FACC2AwAAnQUAILcDAACdBQAgAAAACgQAAPUIACARAAD3CAAgFQAA9ggAIBYAAPsIACAXAAD8CAAgpgMAAJ0FACCpAwAAnQUAIKoDAACdBQAgqwMAAJ0FACCsAwAAnQUAIAgEAAD1CAAgDAAA8wgAIA0AAPYIACAPAADvCAAgEQAA9wgAIBMAAPAIACAUAAD4CAAgoQMAAJ0FACAAAAIFAAC8BwAgBwAAvQcAIAAN3gJAAAAAAfACAQAAAAH1AgEAAAAB9wJAAAAAAY8DAgAAAAGmAwEAAAABswMAAACzAwK0AwEAAAABtQMgAAAAAbYDgAAAAAG3A0AAAAABuAMCAAAAAbkDIAAAAAEB9AIBAAAAAQfeAkAAAAAB8AIBAAAAAfQCAQAAAAH3AkAAAAABjgMBAAAAAY8DAgAAAAGhA0AAAAABBPACAQAAAAH0AgEAAAAB9wJAAAAAAYwDAQAAAAEC9wJAAAAAAY0DAQAAAAEI8AIBAAAAAfcCQAAAAAGNAwEAAAABjwMCAAAAAZADAQAAAAGRAwEAAAABkgOAAAAAAZMDAQAAAAEK3gJAAAAAAfACAQAAAAH3AkAAAAAB-QIBAAAAAfoCAQAAAAH7AoAAAAAB_AIgAAAAAf0CQAAAAAH-AgEAAAAB_wIBAAAAARILAADlCAAgDwAA6AgAIBkAAOYIACAcAADnCAAgHQAA6QgAICAAAOoIACDeAkAAAAAB8AIBAAAAAfcCQAAAAAH5AgEAAAABuwMBAAAAAbwDAQAAAAG9AwEAAAABvgMBAAAAAb8DAQAAAAHAAwEAAAABwQMgAAAAAcMDAAAAwwMCAgAAAAEAIC0AAIYJACABrgMBAAAAAQH4AgEAAAABDPACAQAAAAH1AgEAAAABgQMAAACmAwKCAwIAAAABpgMBAAAAAacDIAAAAAGoAyAAAAABqQMIAAAAAaoDCAAAAAGrAwIAAAABrAMBAAAAAa0DAACEBwAgB94CQAAAAAHwAgEAAAAB9wJAAAAAAY4DAQAAAAGPAwIAAAABoQNAAAAAAaIDAQAAAAEE8AIBAAAAAfcCQAAAAAGLAwEAAAABjAMBAAAAAQrwAgEAAAABgQMAAACBAwKCAwIAAAABgwMBAAAAAYQDAgAAAAGFAwEAAAABhgMgAAAAAYgDAAAAiAMDiQMBAAAAAYoDAQAAAAEDAAAAKwAgLQAAhgkAIC4AAJAJACAUAAAAKwAgCwAAmQgAIA8AAJwIACAZAACaCAAgHAAAmwgAIB0AAJ0IACAgAACeCAAgJgAAkAkAIN4CQACcBQAh8AIBAJsFACH3AkAAnAUAIfkCAQCoBQAhuwMBAJsFACG8AwEAqAUAIb0DAQCoBQAhvgMBAKgFACG_AwEAqAUAIcADAQCoBQAhwQMgAKcFACHDAwAAlwjDAyISCwAAmQgAIA8AAJwIACAZAACaCAAgHAAAmwgAIB0AAJ0IACAgAACeCAAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-QIBAKgFACG7AwEAmwUAIbwDAQCoBQAhvQMBAKgFACG-AwEAqAUAIb8DAQCoBQAhwAMBAKgFACHBAyAApwUAIcMDAACXCMMDIgH0AgEAAAABA_ACAQAAAAH3AkAAAAAB-QIBAAAAAQQFAAC6BwAg8AIBAAAAAfcCQAAAAAH5AgEAAAABAgAAAJQBACAtAACTCQAgAwAAAJcBACAtAACTCQAgLgAAlwkAIAYAAACXAQAgBQAAoAcAICYAAJcJACDwAgEAmwUAIfcCQACcBQAh-QIBAJsFACEEBQAAoAcAIPACAQCbBQAh9wJAAJwFACH5AgEAmwUAIQQHAAC7BwAg8AIBAAAAAfcCQAAAAAH5AgEAAAABAgAAAJQBACAtAACYCQAgFAMAAI0IACALAACPCAAgFwAAkwgAIBgAAJAIACAZAACRCAAgGgAAkggAIN4CQAAAAAHwAgEAAAAB9QIBAAAAAfcCQAAAAAGPAwIAAAABpgMBAAAAAbMDAAAAswMCtAMBAAAAAbUDIAAAAAG2A4AAAAABtwNAAAAAAbgDAgAAAAG5AyAAAAABugMBAAAAAQIAAAAFACAtAACaCQAgAwAAAJcBACAtAACYCQAgLgAAngkAIAYAAACXAQAgBwAAoQcAICYAAJ4JACDwAgEAmwUAIfcCQACcBQAh-QIBAJsFACEEBwAAoQcAIPACAQCbBQAh9wJAAJwFACH5AgEAmwUAIQMAAAADACAtAACaCQAgLgAAoQkAIBYAAAADACADAADEBwAgCwAAxgcAIBcAAMoHACAYAADHBwAgGQAAyAcAIBoAAMkHACAmAAChCQAg3gJAAJwFACHwAgEAmwUAIfUCAQCbBQAh9wJAAJwFACGPAwIAvwUAIaYDAQCoBQAhswMAAMMHswMitAMBAKgFACG1AyAApwUAIbYDgAAAAAG3A0AAoQUAIbgDAgC_BQAhuQMgAKcFACG6AwEAmwUAIRQDAADEBwAgCwAAxgcAIBcAAMoHACAYAADHBwAgGQAAyAcAIBoAAMkHACDeAkAAnAUAIfACAQCbBQAh9QIBAJsFACH3AkAAnAUAIY8DAgC_BQAhpgMBAKgFACGzAwAAwwezAyK0AwEAqAUAIbUDIACnBQAhtgOAAAAAAbcDQAChBQAhuAMCAL8FACG5AyAApwUAIboDAQCbBQAhEg8AAOgIACAZAADmCAAgGwAA5AgAIBwAAOcIACAdAADpCAAgIAAA6ggAIN4CQAAAAAHwAgEAAAAB9wJAAAAAAfkCAQAAAAG7AwEAAAABvAMBAAAAAb0DAQAAAAG-AwEAAAABvwMBAAAAAcADAQAAAAHBAyAAAAABwwMAAADDAwICAAAAAQAgLQAAogkAIBQDAACNCAAgCQAAjggAIBcAAJMIACAYAACQCAAgGQAAkQgAIBoAAJIIACDeAkAAAAAB8AIBAAAAAfUCAQAAAAH3AkAAAAABjwMCAAAAAaYDAQAAAAGzAwAAALMDArQDAQAAAAG1AyAAAAABtgOAAAAAAbcDQAAAAAG4AwIAAAABuQMgAAAAAboDAQAAAAECAAAABQAgLQAApAkAIAMAAAArACAtAACiCQAgLgAAqAkAIBQAAAArACAPAACcCAAgGQAAmggAIBsAAJgIACAcAACbCAAgHQAAnQgAICAAAJ4IACAmAACoCQAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-QIBAKgFACG7AwEAmwUAIbwDAQCoBQAhvQMBAKgFACG-AwEAqAUAIb8DAQCoBQAhwAMBAKgFACHBAyAApwUAIcMDAACXCMMDIhIPAACcCAAgGQAAmggAIBsAAJgIACAcAACbCAAgHQAAnQgAICAAAJ4IACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAqAUAIbsDAQCbBQAhvAMBAKgFACG9AwEAqAUAIb4DAQCoBQAhvwMBAKgFACHAAwEAqAUAIcEDIACnBQAhwwMAAJcIwwMiAwAAAAMAIC0AAKQJACAuAACrCQAgFgAAAAMAIAMAAMQHACAJAADFBwAgFwAAygcAIBgAAMcHACAZAADIBwAgGgAAyQcAICYAAKsJACDeAkAAnAUAIfACAQCbBQAh9QIBAJsFACH3AkAAnAUAIY8DAgC_BQAhpgMBAKgFACGzAwAAwwezAyK0AwEAqAUAIbUDIACnBQAhtgOAAAAAAbcDQAChBQAhuAMCAL8FACG5AyAApwUAIboDAQCbBQAhFAMAAMQHACAJAADFBwAgFwAAygcAIBgAAMcHACAZAADIBwAgGgAAyQcAIN4CQACcBQAh8AIBAJsFACH1AgEAmwUAIfcCQACcBQAhjwMCAL8FACGmAwEAqAUAIbMDAADDB7MDIrQDAQCoBQAhtQMgAKcFACG2A4AAAAABtwNAAKEFACG4AwIAvwUAIbkDIACnBQAhugMBAJsFACEUAwAAjQgAIAkAAI4IACALAACPCAAgFwAAkwgAIBkAAJEIACAaAACSCAAg3gJAAAAAAfACAQAAAAH1AgEAAAAB9wJAAAAAAY8DAgAAAAGmAwEAAAABswMAAACzAwK0AwEAAAABtQMgAAAAAbYDgAAAAAG3A0AAAAABuAMCAAAAAbkDIAAAAAG6AwEAAAABAgAAAAUAIC0AAKwJACAI8AIBAAAAAY0DAQAAAAGYAwEAAAABmQMIAAAAAZoDIAAAAAGbAwEAAAABnANAAAAAAZ0DAAD1BQAgBPACAQAAAAGCAwIAAAABowMBAAAAAaQDAQAAAAEH8AIBAAAAAfcCQAAAAAGNAwEAAAABlAMBAAAAAZUDAQAAAAGWAwEAAAABlwMCAAAAAQrwAgEAAAAB9AIBAAAAAYEDAAAAgQMCggMCAAAAAYMDAQAAAAGEAwIAAAABhgMgAAAAAYgDAAAAiAMDiQMBAAAAAYoDAQAAAAEDAAAAAwAgLQAArAkAIC4AALQJACAWAAAAAwAgAwAAxAcAIAkAAMUHACALAADGBwAgFwAAygcAIBkAAMgHACAaAADJBwAgJgAAtAkAIN4CQACcBQAh8AIBAJsFACH1AgEAmwUAIfcCQACcBQAhjwMCAL8FACGmAwEAqAUAIbMDAADDB7MDIrQDAQCoBQAhtQMgAKcFACG2A4AAAAABtwNAAKEFACG4AwIAvwUAIbkDIACnBQAhugMBAJsFACEUAwAAxAcAIAkAAMUHACALAADGBwAgFwAAygcAIBkAAMgHACAaAADJBwAg3gJAAJwFACHwAgEAmwUAIfUCAQCbBQAh9wJAAJwFACGPAwIAvwUAIaYDAQCoBQAhswMAAMMHswMitAMBAKgFACG1AyAApwUAIbYDgAAAAAG3A0AAoQUAIbgDAgC_BQAhuQMgAKcFACG6AwEAmwUAIREEAACFBwAgEQAAiAcAIBUAAIYHACAXAACJBwAg8AIBAAAAAfQCAQAAAAH1AgEAAAABgQMAAACmAwKCAwIAAAABpgMBAAAAAacDIAAAAAGoAyAAAAABqQMIAAAAAaoDCAAAAAGrAwIAAAABrAMBAAAAAa0DAACEBwAgAgAAABgAIC0AALUJACADAAAAFgAgLQAAtQkAIC4AALkJACATAAAAFgAgBAAA1QYAIBEAANgGACAVAADWBgAgFwAA2QYAICYAALkJACDwAgEAmwUAIfQCAQCbBQAh9QIBAJsFACGBAwAA0wamAyKCAwIAvwUAIaYDAQCoBQAhpwMgAKcFACGoAyAApwUAIakDCADwBQAhqgMIAPAFACGrAwIAwAUAIawDAQCoBQAhrQMAANQGACARBAAA1QYAIBEAANgGACAVAADWBgAgFwAA2QYAIPACAQCbBQAh9AIBAJsFACH1AgEAmwUAIYEDAADTBqYDIoIDAgC_BQAhpgMBAKgFACGnAyAApwUAIagDIACnBQAhqQMIAPAFACGqAwgA8AUAIasDAgDABQAhrAMBAKgFACGtAwAA1AYAIBILAADlCAAgDwAA6AgAIBsAAOQIACAcAADnCAAgHQAA6QgAICAAAOoIACDeAkAAAAAB8AIBAAAAAfcCQAAAAAH5AgEAAAABuwMBAAAAAbwDAQAAAAG9AwEAAAABvgMBAAAAAb8DAQAAAAHAAwEAAAABwQMgAAAAAcMDAAAAwwMCAgAAAAEAIC0AALoJACAUAwAAjQgAIAkAAI4IACALAACPCAAgFwAAkwgAIBgAAJAIACAaAACSCAAg3gJAAAAAAfACAQAAAAH1AgEAAAAB9wJAAAAAAY8DAgAAAAGmAwEAAAABswMAAACzAwK0AwEAAAABtQMgAAAAAbYDgAAAAAG3A0AAAAABuAMCAAAAAbkDIAAAAAG6AwEAAAABAgAAAAUAIC0AALwJACAI8AIBAAAAAYUDAQAAAAGYAwEAAAABmQMIAAAAAZoDIAAAAAGbAwEAAAABnANAAAAAAZ0DAAD1BQAgAvcCQAAAAAH4AgEAAAABB_ACAQAAAAH3AkAAAAABhQMBAAAAAZQDAQAAAAGVAwEAAAABlgMBAAAAAZcDAgAAAAEI8AIBAAAAAfcCQAAAAAGLAwEAAAABjwMCAAAAAZADAQAAAAGRAwEAAAABkgOAAAAAAZMDAQAAAAEE8AIBAAAAAfQCAQAAAAH3AkAAAAABjgMBAAAAAQMAAAArACAtAAC6CQAgLgAAxQkAIBQAAAArACALAACZCAAgDwAAnAgAIBsAAJgIACAcAACbCAAgHQAAnQgAICAAAJ4IACAmAADFCQAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-QIBAKgFACG7AwEAmwUAIbwDAQCoBQAhvQMBAKgFACG-AwEAqAUAIb8DAQCoBQAhwAMBAKgFACHBAyAApwUAIcMDAACXCMMDIhILAACZCAAgDwAAnAgAIBsAAJgIACAcAACbCAAgHQAAnQgAICAAAJ4IACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAqAUAIbsDAQCbBQAhvAMBAKgFACG9AwEAqAUAIb4DAQCoBQAhvwMBAKgFACHAAwEAqAUAIcEDIACnBQAhwwMAAJcIwwMiAwAAAAMAIC0AALwJACAuAADICQAgFgAAAAMAIAMAAMQHACAJAADFBwAgCwAAxgcAIBcAAMoHACAYAADHBwAgGgAAyQcAICYAAMgJACDeAkAAnAUAIfACAQCbBQAh9QIBAJsFACH3AkAAnAUAIY8DAgC_BQAhpgMBAKgFACGzAwAAwwezAyK0AwEAqAUAIbUDIACnBQAhtgOAAAAAAbcDQAChBQAhuAMCAL8FACG5AyAApwUAIboDAQCbBQAhFAMAAMQHACAJAADFBwAgCwAAxgcAIBcAAMoHACAYAADHBwAgGgAAyQcAIN4CQACcBQAh8AIBAJsFACH1AgEAmwUAIfcCQACcBQAhjwMCAL8FACGmAwEAqAUAIbMDAADDB7MDIrQDAQCoBQAhtQMgAKcFACG2A4AAAAABtwNAAKEFACG4AwIAvwUAIbkDIACnBQAhugMBAJsFACERBAAAhQcAIBEAAIgHACAWAACHBwAgFwAAiQcAIPACAQAAAAH0AgEAAAAB9QIBAAAAAYEDAAAApgMCggMCAAAAAaYDAQAAAAGnAyAAAAABqAMgAAAAAakDCAAAAAGqAwgAAAABqwMCAAAAAawDAQAAAAGtAwAAhAcAIAIAAAAYACAtAADJCQAgDgQAAMAGACAMAADBBgAgDwAAwwYAIBEAAMQGACATAADFBgAgFAAAxgYAIN4CQAAAAAHwAgEAAAAB9AIBAAAAAfcCQAAAAAGOAwEAAAABjwMCAAAAAaEDQAAAAAGiAwEAAAABAgAAAEYAIC0AAMsJACADAAAAFgAgLQAAyQkAIC4AAM8JACATAAAAFgAgBAAA1QYAIBEAANgGACAWAADXBgAgFwAA2QYAICYAAM8JACDwAgEAmwUAIfQCAQCbBQAh9QIBAJsFACGBAwAA0wamAyKCAwIAvwUAIaYDAQCoBQAhpwMgAKcFACGoAyAApwUAIakDCADwBQAhqgMIAPAFACGrAwIAwAUAIawDAQCoBQAhrQMAANQGACARBAAA1QYAIBEAANgGACAWAADXBgAgFwAA2QYAIPACAQCbBQAh9AIBAJsFACH1AgEAmwUAIYEDAADTBqYDIoIDAgC_BQAhpgMBAKgFACGnAyAApwUAIagDIACnBQAhqQMIAPAFACGqAwgA8AUAIasDAgDABQAhrAMBAKgFACGtAwAA1AYAIAMAAABEACAtAADLCQAgLgAA0gkAIBAAAABEACAEAAD9BQAgDAAA_gUAIA8AAIAGACARAACBBgAgEwAAggYAIBQAAIMGACAmAADSCQAg3gJAAJwFACHwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIQ4EAAD9BQAgDAAA_gUAIA8AAIAGACARAACBBgAgEwAAggYAIBQAAIMGACDeAkAAnAUAIfACAQCbBQAh9AIBAJsFACH3AkAAnAUAIY4DAQCbBQAhjwMCAL8FACGhA0AAoQUAIaIDAQCbBQAhEQQAAIUHACAVAACGBwAgFgAAhwcAIBcAAIkHACDwAgEAAAAB9AIBAAAAAfUCAQAAAAGBAwAAAKYDAoIDAgAAAAGmAwEAAAABpwMgAAAAAagDIAAAAAGpAwgAAAABqgMIAAAAAasDAgAAAAGsAwEAAAABrQMAAIQHACACAAAAGAAgLQAA0wkAIA4EAADABgAgDAAAwQYAIA0AAMIGACAPAADDBgAgEwAAxQYAIBQAAMYGACDeAkAAAAAB8AIBAAAAAfQCAQAAAAH3AkAAAAABjgMBAAAAAY8DAgAAAAGhA0AAAAABogMBAAAAAQIAAABGACAtAADVCQAgAwAAABYAIC0AANMJACAuAADZCQAgEwAAABYAIAQAANUGACAVAADWBgAgFgAA1wYAIBcAANkGACAmAADZCQAg8AIBAJsFACH0AgEAmwUAIfUCAQCbBQAhgQMAANMGpgMiggMCAL8FACGmAwEAqAUAIacDIACnBQAhqAMgAKcFACGpAwgA8AUAIaoDCADwBQAhqwMCAMAFACGsAwEAqAUAIa0DAADUBgAgEQQAANUGACAVAADWBgAgFgAA1wYAIBcAANkGACDwAgEAmwUAIfQCAQCbBQAh9QIBAJsFACGBAwAA0wamAyKCAwIAvwUAIaYDAQCoBQAhpwMgAKcFACGoAyAApwUAIakDCADwBQAhqgMIAPAFACGrAwIAwAUAIawDAQCoBQAhrQMAANQGACADAAAARAAgLQAA1QkAIC4AANwJACAQAAAARAAgBAAA_QUAIAwAAP4FACANAAD_BQAgDwAAgAYAIBMAAIIGACAUAACDBgAgJgAA3AkAIN4CQACcBQAh8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACGPAwIAvwUAIaEDQAChBQAhogMBAJsFACEOBAAA_QUAIAwAAP4FACANAAD_BQAgDwAAgAYAIBMAAIIGACAUAACDBgAg3gJAAJwFACHwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIRILAADlCAAgDwAA6AgAIBkAAOYIACAbAADkCAAgHAAA5wgAICAAAOoIACDeAkAAAAAB8AIBAAAAAfcCQAAAAAH5AgEAAAABuwMBAAAAAbwDAQAAAAG9AwEAAAABvgMBAAAAAb8DAQAAAAHAAwEAAAABwQMgAAAAAcMDAAAAwwMCAgAAAAEAIC0AAN0JACAOBAAAwAYAIAwAAMEGACANAADCBgAgDwAAwwYAIBEAAMQGACAUAADGBgAg3gJAAAAAAfACAQAAAAH0AgEAAAAB9wJAAAAAAY4DAQAAAAGPAwIAAAABoQNAAAAAAaIDAQAAAAECAAAARgAgLQAA3wkAIAMAAAArACAtAADdCQAgLgAA4wkAIBQAAAArACALAACZCAAgDwAAnAgAIBkAAJoIACAbAACYCAAgHAAAmwgAICAAAJ4IACAmAADjCQAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-QIBAKgFACG7AwEAmwUAIbwDAQCoBQAhvQMBAKgFACG-AwEAqAUAIb8DAQCoBQAhwAMBAKgFACHBAyAApwUAIcMDAACXCMMDIhILAACZCAAgDwAAnAgAIBkAAJoIACAbAACYCAAgHAAAmwgAICAAAJ4IACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAqAUAIbsDAQCbBQAhvAMBAKgFACG9AwEAqAUAIb4DAQCoBQAhvwMBAKgFACHAAwEAqAUAIcEDIACnBQAhwwMAAJcIwwMiAwAAAEQAIC0AAN8JACAuAADmCQAgEAAAAEQAIAQAAP0FACAMAAD-BQAgDQAA_wUAIA8AAIAGACARAACBBgAgFAAAgwYAICYAAOYJACDeAkAAnAUAIfACAQCbBQAh9AIBAJsFACH3AkAAnAUAIY4DAQCbBQAhjwMCAL8FACGhA0AAoQUAIaIDAQCbBQAhDgQAAP0FACAMAAD-BQAgDQAA_wUAIA8AAIAGACARAACBBgAgFAAAgwYAIN4CQACcBQAh8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACGPAwIAvwUAIaEDQAChBQAhogMBAJsFACEOBAAAwAYAIAwAAMEGACANAADCBgAgDwAAwwYAIBEAAMQGACATAADFBgAg3gJAAAAAAfACAQAAAAH0AgEAAAAB9wJAAAAAAY4DAQAAAAGPAwIAAAABoQNAAAAAAaIDAQAAAAECAAAARgAgLQAA5wkAIAMAAABEACAtAADnCQAgLgAA6wkAIBAAAABEACAEAAD9BQAgDAAA_gUAIA0AAP8FACAPAACABgAgEQAAgQYAIBMAAIIGACAmAADrCQAg3gJAAJwFACHwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIQ4EAAD9BQAgDAAA_gUAIA0AAP8FACAPAACABgAgEQAAgQYAIBMAAIIGACDeAkAAnAUAIfACAQCbBQAh9AIBAJsFACH3AkAAnAUAIY4DAQCbBQAhjwMCAL8FACGhA0AAoQUAIaIDAQCbBQAhEgsAAOUIACAZAADmCAAgGwAA5AgAIBwAAOcIACAdAADpCAAgIAAA6ggAIN4CQAAAAAHwAgEAAAAB9wJAAAAAAfkCAQAAAAG7AwEAAAABvAMBAAAAAb0DAQAAAAG-AwEAAAABvwMBAAAAAcADAQAAAAHBAyAAAAABwwMAAADDAwICAAAAAQAgLQAA7AkAIA4EAADABgAgDAAAwQYAIA0AAMIGACARAADEBgAgEwAAxQYAIBQAAMYGACDeAkAAAAAB8AIBAAAAAfQCAQAAAAH3AkAAAAABjgMBAAAAAY8DAgAAAAGhA0AAAAABogMBAAAAAQIAAABGACAtAADuCQAgAwAAACsAIC0AAOwJACAuAADyCQAgFAAAACsAIAsAAJkIACAZAACaCAAgGwAAmAgAIBwAAJsIACAdAACdCAAgIAAAnggAICYAAPIJACDeAkAAnAUAIfACAQCbBQAh9wJAAJwFACH5AgEAqAUAIbsDAQCbBQAhvAMBAKgFACG9AwEAqAUAIb4DAQCoBQAhvwMBAKgFACHAAwEAqAUAIcEDIACnBQAhwwMAAJcIwwMiEgsAAJkIACAZAACaCAAgGwAAmAgAIBwAAJsIACAdAACdCAAgIAAAnggAIN4CQACcBQAh8AIBAJsFACH3AkAAnAUAIfkCAQCoBQAhuwMBAJsFACG8AwEAqAUAIb0DAQCoBQAhvgMBAKgFACG_AwEAqAUAIcADAQCoBQAhwQMgAKcFACHDAwAAlwjDAyIDAAAARAAgLQAA7gkAIC4AAPUJACAQAAAARAAgBAAA_QUAIAwAAP4FACANAAD_BQAgEQAAgQYAIBMAAIIGACAUAACDBgAgJgAA9QkAIN4CQACcBQAh8AIBAJsFACH0AgEAmwUAIfcCQACcBQAhjgMBAJsFACGPAwIAvwUAIaEDQAChBQAhogMBAJsFACEOBAAA_QUAIAwAAP4FACANAAD_BQAgEQAAgQYAIBMAAIIGACAUAACDBgAg3gJAAJwFACHwAgEAmwUAIfQCAQCbBQAh9wJAAJwFACGOAwEAmwUAIY8DAgC_BQAhoQNAAKEFACGiAwEAmwUAIRILAADlCAAgDwAA6AgAIBkAAOYIACAbAADkCAAgHQAA6QgAICAAAOoIACDeAkAAAAAB8AIBAAAAAfcCQAAAAAH5AgEAAAABuwMBAAAAAbwDAQAAAAG9AwEAAAABvgMBAAAAAb8DAQAAAAHAAwEAAAABwQMgAAAAAcMDAAAAwwMCAgAAAAEAIC0AAPYJACAUAwAAjQgAIAkAAI4IACALAACPCAAgFwAAkwgAIBgAAJAIACAZAACRCAAg3gJAAAAAAfACAQAAAAH1AgEAAAAB9wJAAAAAAY8DAgAAAAGmAwEAAAABswMAAACzAwK0AwEAAAABtQMgAAAAAbYDgAAAAAG3A0AAAAABuAMCAAAAAbkDIAAAAAG6AwEAAAABAgAAAAUAIC0AAPgJACADAAAAKwAgLQAA9gkAIC4AAPwJACAUAAAAKwAgCwAAmQgAIA8AAJwIACAZAACaCAAgGwAAmAgAIB0AAJ0IACAgAACeCAAgJgAA_AkAIN4CQACcBQAh8AIBAJsFACH3AkAAnAUAIfkCAQCoBQAhuwMBAJsFACG8AwEAqAUAIb0DAQCoBQAhvgMBAKgFACG_AwEAqAUAIcADAQCoBQAhwQMgAKcFACHDAwAAlwjDAyISCwAAmQgAIA8AAJwIACAZAACaCAAgGwAAmAgAIB0AAJ0IACAgAACeCAAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-QIBAKgFACG7AwEAmwUAIbwDAQCoBQAhvQMBAKgFACG-AwEAqAUAIb8DAQCoBQAhwAMBAKgFACHBAyAApwUAIcMDAACXCMMDIgMAAAADACAtAAD4CQAgLgAA_wkAIBYAAAADACADAADEBwAgCQAAxQcAIAsAAMYHACAXAADKBwAgGAAAxwcAIBkAAMgHACAmAAD_CQAg3gJAAJwFACHwAgEAmwUAIfUCAQCbBQAh9wJAAJwFACGPAwIAvwUAIaYDAQCoBQAhswMAAMMHswMitAMBAKgFACG1AyAApwUAIbYDgAAAAAG3A0AAoQUAIbgDAgC_BQAhuQMgAKcFACG6AwEAmwUAIRQDAADEBwAgCQAAxQcAIAsAAMYHACAXAADKBwAgGAAAxwcAIBkAAMgHACDeAkAAnAUAIfACAQCbBQAh9QIBAJsFACH3AkAAnAUAIY8DAgC_BQAhpgMBAKgFACGzAwAAwwezAyK0AwEAqAUAIbUDIACnBQAhtgOAAAAAAbcDQAChBQAhuAMCAL8FACG5AyAApwUAIboDAQCbBQAhEQQAAIUHACARAACIBwAgFQAAhgcAIBYAAIcHACDwAgEAAAAB9AIBAAAAAfUCAQAAAAGBAwAAAKYDAoIDAgAAAAGmAwEAAAABpwMgAAAAAagDIAAAAAGpAwgAAAABqgMIAAAAAasDAgAAAAGsAwEAAAABrQMAAIQHACACAAAAGAAgLQAAgAoAIBQDAACNCAAgCQAAjggAIAsAAI8IACAYAACQCAAgGQAAkQgAIBoAAJIIACDeAkAAAAAB8AIBAAAAAfUCAQAAAAH3AkAAAAABjwMCAAAAAaYDAQAAAAGzAwAAALMDArQDAQAAAAG1AyAAAAABtgOAAAAAAbcDQAAAAAG4AwIAAAABuQMgAAAAAboDAQAAAAECAAAABQAgLQAAggoAIAMAAAAWACAtAACACgAgLgAAhgoAIBMAAAAWACAEAADVBgAgEQAA2AYAIBUAANYGACAWAADXBgAgJgAAhgoAIPACAQCbBQAh9AIBAJsFACH1AgEAmwUAIYEDAADTBqYDIoIDAgC_BQAhpgMBAKgFACGnAyAApwUAIagDIACnBQAhqQMIAPAFACGqAwgA8AUAIasDAgDABQAhrAMBAKgFACGtAwAA1AYAIBEEAADVBgAgEQAA2AYAIBUAANYGACAWAADXBgAg8AIBAJsFACH0AgEAmwUAIfUCAQCbBQAhgQMAANMGpgMiggMCAL8FACGmAwEAqAUAIacDIACnBQAhqAMgAKcFACGpAwgA8AUAIaoDCADwBQAhqwMCAMAFACGsAwEAqAUAIa0DAADUBgAgAwAAAAMAIC0AAIIKACAuAACJCgAgFgAAAAMAIAMAAMQHACAJAADFBwAgCwAAxgcAIBgAAMcHACAZAADIBwAgGgAAyQcAICYAAIkKACDeAkAAnAUAIfACAQCbBQAh9QIBAJsFACH3AkAAnAUAIY8DAgC_BQAhpgMBAKgFACGzAwAAwwezAyK0AwEAqAUAIbUDIACnBQAhtgOAAAAAAbcDQAChBQAhuAMCAL8FACG5AyAApwUAIboDAQCbBQAhFAMAAMQHACAJAADFBwAgCwAAxgcAIBgAAMcHACAZAADIBwAgGgAAyQcAIN4CQACcBQAh8AIBAJsFACH1AgEAmwUAIfcCQACcBQAhjwMCAL8FACGmAwEAqAUAIbMDAADDB7MDIrQDAQCoBQAhtQMgAKcFACG2A4AAAAABtwNAAKEFACG4AwIAvwUAIbkDIACnBQAhugMBAJsFACESCwAA5QgAIA8AAOgIACAZAADmCAAgGwAA5AgAIBwAAOcIACAdAADpCAAg3gJAAAAAAfACAQAAAAH3AkAAAAAB-QIBAAAAAbsDAQAAAAG8AwEAAAABvQMBAAAAAb4DAQAAAAG_AwEAAAABwAMBAAAAAcEDIAAAAAHDAwAAAMMDAgIAAAABACAtAACKCgAgB_ACAQAAAAHyAgEAAAAB8wIBAAAAAfQCAQAAAAH1AgEAAAAB9gJAAAAAAfcCQAAAAAEDAAAAKwAgLQAAigoAIC4AAI8KACAUAAAAKwAgCwAAmQgAIA8AAJwIACAZAACaCAAgGwAAmAgAIBwAAJsIACAdAACdCAAgJgAAjwoAIN4CQACcBQAh8AIBAJsFACH3AkAAnAUAIfkCAQCoBQAhuwMBAJsFACG8AwEAqAUAIb0DAQCoBQAhvgMBAKgFACG_AwEAqAUAIcADAQCoBQAhwQMgAKcFACHDAwAAlwjDAyISCwAAmQgAIA8AAJwIACAZAACaCAAgGwAAmAgAIBwAAJsIACAdAACdCAAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-QIBAKgFACG7AwEAmwUAIbwDAQCoBQAhvQMBAKgFACG-AwEAqAUAIb8DAQCoBQAhwAMBAKgFACHBAyAApwUAIcMDAACXCMMDIgwKAAC3BQAg3gJAAAAAAfACAQAAAAH3AkAAAAAB-AIBAAAAAfkCAQAAAAH6AgEAAAAB-wKAAAAAAfwCIAAAAAH9AkAAAAAB_gIBAAAAAf8CAQAAAAECAAAAWgAgLQAAkAoAIAMAAABYACAtAACQCgAgLgAAlAoAIA4AAABYACAKAACpBQAgJgAAlAoAIN4CQACcBQAh8AIBAJsFACH3AkAAnAUAIfgCAQCbBQAh-QIBAJsFACH6AgEAmwUAIfsCgAAAAAH8AiAApwUAIf0CQAChBQAh_gIBAKgFACH_AgEAqAUAIQwKAACpBQAg3gJAAJwFACHwAgEAmwUAIfcCQACcBQAh-AIBAJsFACH5AgEAmwUAIfoCAQCbBQAh-wKAAAAAAfwCIACnBQAh_QJAAKEFACH-AgEAqAUAIf8CAQCoBQAhCAgAGAtTBw9WCxlUChsGAhxVEx1XDSBbFQgDAAEIABQJCgMLFQcXTBEYGQgZRwoaSxMCBAACBgAEAwULAwcPBQgABgEGAAQCBRAABxEAAgQAAgoAAQYEAAIIABIROgwVHQkWORAXPhECDgAKEAAICAQAAggADwwAAQ0eCQ8iCxEmDBMqDRQwDgIKAAEOAAoCDgAKEAAIAg4AChIsAQEOAAoFDTEADzIAETMAEzQAFDUAARAACAIEAAIQPwgEEUIAFUAAFkEAF0MAAgQAAhIAAQYJTQALTgAXUgAYTwAZUAAaUQADCAAXCgABH18WAR4AFQEfYAAHC2IAD2UAGWMAG2EAHGQAHWYAIGcAAAAAAwgAHTMAHjQAHwAAAAMIAB0zAB40AB8BAwABAQMAAQUIACQzACc0AChFACVGACYAAAAAAAUIACQzACc0AChFACVGACYAAAMIAC0zAC40AC8AAAADCAAtMwAuNAAvAQYABAEGAAQDCAA0MwA1NAA2AAAAAwgANDMANTQANgIEAAIGAAQCBAACBgAEAwgAOzMAPDQAPQAAAAMIADszADw0AD0CBAACCgABAgQAAgoAAQMIAEIzAEM0AEQAAAADCABCMwBDNABEAQQAAgEEAAIFCABJMwBMNABNRQBKRgBLAAAAAAAFCABJMwBMNABNRQBKRgBLARAACAEQAAgFCABSMwBVNABWRQBTRgBUAAAAAAAFCABSMwBVNABWRQBTRgBUAgQAAgwAAQIEAAIMAAEFCABbMwBeNABfRQBcRgBdAAAAAAAFCABbMwBeNABfRQBcRgBdAg4AChAACAIOAAoQAAgFCABkMwBnNABoRQBlRgBmAAAAAAAFCABkMwBnNABoRQBlRgBmAg4AChAACAIOAAoQAAgFCABtMwBwNABxRQBuRgBvAAAAAAAFCABtMwBwNABxRQBuRgBvAg4AChLnAgECDgAKEu0CAQUIAHYzAHk0AHpFAHdGAHgAAAAAAAUIAHYzAHk0AHpFAHdGAHgBDgAKAQ4ACgMIAH8zAIABNACBAQAAAAMIAH8zAIABNACBAQIKAAEOAAoCCgABDgAKAwgAhgEzAIcBNACIAQAAAAMIAIYBMwCHATQAiAECBAACEgABAgQAAhIAAQMIAI0BMwCOATQAjwEAAAADCACNATMAjgE0AI8BAgQAAhDBAwgCBAACEMcDCAUIAJQBMwCXATQAmAFFAJUBRgCWAQAAAAAABQgAlAEzAJcBNACYAUUAlQFGAJYBAQoAAQEKAAEDCACdATMAngE0AJ8BAAAAAwgAnQEzAJ4BNACfAQEeABUBHgAVAwgApAEzAKUBNACmAQAAAAMIAKQBMwClATQApgEAAAADCACsATMArQE0AK4BAAAAAwgArAEzAK0BNACuASECASJoASNqASRrASVsASduAShwGSlxGipzASt1GSx2Gy93ATB4ATF5GTV8HDZ9IDd-Ajh_AjmAAQI6gQECO4IBAjyEAQI9hgEZPocBIT-JAQJAiwEZQYwBIkKNAQJDjgECRI8BGUeSASNIkwEpSZUBBEqWAQRLmQEETJoBBE2bAQROnQEET58BGVCgASpRogEEUqQBGVOlAStUpgEEVacBBFaoARlXqwEsWKwBMFmtAQVargEFW68BBVywAQVdsQEFXrMBBV-1ARlgtgExYbgBBWK6ARljuwEyZLwBBWW9AQVmvgEZZ8EBM2jCATdpwwEDasQBA2vFAQNsxgEDbccBA27JAQNvywEZcMwBOHHOAQNy0AEZc9EBOXTSAQN10wEDdtQBGXfXATp42AE-edkBB3raAQd72wEHfNwBB33dAQd-3wEHf-EBGYAB4gE_gQHkAQeCAeYBGYMB5wFAhAHoAQeFAekBB4YB6gEZhwHtAUGIAe4BRYkB7wEIigHwAQiLAfEBCIwB8gEIjQHzAQiOAfUBCI8B9wEZkAH4AUaRAfoBCJIB_AEZkwH9AUeUAf4BCJUB_wEIlgGAAhmXAYMCSJgBhAJOmQGFAhCaAYYCEJsBhwIQnAGIAhCdAYkCEJ4BiwIQnwGNAhmgAY4CT6EBkAIQogGSAhmjAZMCUKQBlAIQpQGVAhCmAZYCGacBmQJRqAGaAlepAZsCCqoBnAIKqwGdAgqsAZ4CCq0BnwIKrgGhAgqvAaMCGbABpAJYsQGmAgqyAagCGbMBqQJZtAGqAgq1AasCCrYBrAIZtwGvAlq4AbACYLkBsQIJugGyAgm7AbMCCbwBtAIJvQG1Agm-AbcCCb8BuQIZwAG6AmHBAbwCCcIBvgIZwwG_AmLEAcACCcUBwQIJxgHCAhnHAcUCY8gBxgJpyQHHAgzKAcgCDMsByQIMzAHKAgzNAcsCDM4BzQIMzwHPAhnQAdACatEB0gIM0gHUAhnTAdUCa9QB1gIM1QHXAgzWAdgCGdcB2wJs2AHcAnLZAd0CDdoB3gIN2wHfAg3cAeACDd0B4QIN3gHjAg3fAeUCGeAB5gJz4QHpAg3iAesCGeMB7AJ05AHuAg3lAe8CDeYB8AIZ5wHzAnXoAfQCe-kB9QIO6gH2Ag7rAfcCDuwB-AIO7QH5Ag7uAfsCDu8B_QIZ8AH-AnzxAYADDvIBggMZ8wGDA330AYQDDvUBhQMO9gGGAxn3AYkDfvgBigOCAfkBiwML-gGMAwv7AY0DC_wBjgML_QGPAwv-AZEDC_8BkwMZgAKUA4MBgQKWAwuCApgDGYMCmQOEAYQCmgMLhQKbAwuGApwDGYcCnwOFAYgCoAOJAYkCoQMTigKiAxOLAqMDE4wCpAMTjQKlAxOOAqcDE48CqQMZkAKqA4oBkQKsAxOSAq4DGZMCrwOLAZQCsAMTlQKxAxOWArIDGZcCtQOMAZgCtgOQAZkCtwMRmgK4AxGbArkDEZwCugMRnQK7AxGeAr0DEZ8CvwMZoALAA5EBoQLDAxGiAsUDGaMCxgOSAaQCyAMRpQLJAxGmAsoDGacCzQOTAagCzgOZAakCzwMVqgLQAxWrAtEDFawC0gMVrQLTAxWuAtUDFa8C1wMZsALYA5oBsQLaAxWyAtwDGbMC3QObAbQC3gMVtQLfAxW2AuADGbcC4wOcAbgC5AOgAbkC5QMWugLmAxa7AucDFrwC6AMWvQLpAxa-AusDFr8C7QMZwALuA6EBwQLwAxbCAvIDGcMC8wOiAcQC9AMWxQL1AxbGAvYDGccC-QOjAcgC-gOnAckC_AOoAcoC_QOoAcsCgASoAcwCgQSoAc0CggSoAc4ChASoAc8ChgQZ0AKHBKkB0QKJBKgB0gKLBBnTAowEqgHUAo0EqAHVAo4EqAHWAo8EGdcCkgSrAdgCkwSvAQ"
 }
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
@@ -214,6 +214,16 @@ export interface PrismaClient<
     */
   get tag(): Prisma.TagDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.tagSynonym`: Exposes CRUD operations for the **TagSynonym** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TagSynonyms
+    * const tagSynonyms = await prisma.tagSynonym.findMany()
+    * ```
+    */
+  get tagSynonym(): Prisma.TagSynonymDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.inventoryTag`: Exposes CRUD operations for the **InventoryTag** model.
     * Example usage:
@@ -244,6 +254,16 @@ export interface PrismaClient<
     */
   get inventoryField(): Prisma.InventoryFieldDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.inventoryFieldOption`: Exposes CRUD operations for the **InventoryFieldOption** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InventoryFieldOptions
+    * const inventoryFieldOptions = await prisma.inventoryFieldOption.findMany()
+    * ```
+    */
+  get inventoryFieldOption(): Prisma.InventoryFieldOptionDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.item`: Exposes CRUD operations for the **Item** model.
     * Example usage:
@@ -264,6 +284,36 @@ export interface PrismaClient<
     */
   get itemFieldValue(): Prisma.ItemFieldValueDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.itemAttachment`: Exposes CRUD operations for the **ItemAttachment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ItemAttachments
+    * const itemAttachments = await prisma.itemAttachment.findMany()
+    * ```
+    */
+  get itemAttachment(): Prisma.ItemAttachmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.itemRevision`: Exposes CRUD operations for the **ItemRevision** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ItemRevisions
+    * const itemRevisions = await prisma.itemRevision.findMany()
+    * ```
+    */
+  get itemRevision(): Prisma.ItemRevisionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.itemCustomIdAlias`: Exposes CRUD operations for the **ItemCustomIdAlias** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ItemCustomIdAliases
+    * const itemCustomIdAliases = await prisma.itemCustomIdAlias.findMany()
+    * ```
+    */
+  get itemCustomIdAlias(): Prisma.ItemCustomIdAliasDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.itemLike`: Exposes CRUD operations for the **ItemLike** model.
     * Example usage:
@@ -293,6 +343,36 @@ export interface PrismaClient<
     * ```
     */
   get inventoryCustomIdElement(): Prisma.InventoryCustomIdElementDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.savedSearch`: Exposes CRUD operations for the **SavedSearch** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SavedSearches
+    * const savedSearches = await prisma.savedSearch.findMany()
+    * ```
+    */
+  get savedSearch(): Prisma.SavedSearchDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.savedSearchAlert`: Exposes CRUD operations for the **SavedSearchAlert** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SavedSearchAlerts
+    * const savedSearchAlerts = await prisma.savedSearchAlert.findMany()
+    * ```
+    */
+  get savedSearchAlert(): Prisma.SavedSearchAlertDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.appSetting`: Exposes CRUD operations for the **AppSetting** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AppSettings
+    * const appSettings = await prisma.appSetting.findMany()
+    * ```
+    */
+  get appSetting(): Prisma.AppSettingDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
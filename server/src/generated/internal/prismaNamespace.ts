@@ -387,14 +387,22 @@ export const ModelName = {
   User: 'User',
   Inventory: 'Inventory',
   Tag: 'Tag',
+  TagSynonym: 'TagSynonym',
   InventoryTag: 'InventoryTag',
   InventoryWriteAccess: 'InventoryWriteAccess',
   InventoryField: 'InventoryField',
+  InventoryFieldOption: 'InventoryFieldOption',
   Item: 'Item',
   ItemFieldValue: 'ItemFieldValue',
+  ItemAttachment: 'ItemAttachment',
+  ItemRevision: 'ItemRevision',
+  ItemCustomIdAlias: 'ItemCustomIdAlias',
   ItemLike: 'ItemLike',
   DiscussionPost: 'DiscussionPost',
-  InventoryCustomIdElement: 'InventoryCustomIdElement'
+  InventoryCustomIdElement: 'InventoryCustomIdElement',
+  SavedSearch: 'SavedSearch',
+  SavedSearchAlert: 'SavedSearchAlert',
+  AppSetting: 'AppSetting'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -410,7 +418,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "inventory" | "tag" | "inventoryTag" | "inventoryWriteAccess" | "inventoryField" | "item" | "itemFieldValue" | "itemLike" | "discussionPost" | "inventoryCustomIdElement"
+    modelProps: "user" | "inventory" | "tag" | "tagSynonym" | "inventoryTag" | "inventoryWriteAccess" | "inventoryField" | "inventoryFieldOption" | "item" | "itemFieldValue" | "itemAttachment" | "itemRevision" | "itemCustomIdAlias" | "itemLike" | "discussionPost" | "inventoryCustomIdElement" | "savedSearch" | "savedSearchAlert" | "appSetting"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -636,6 +644,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    TagSynonym: {
+      payload: Prisma.$TagSynonymPayload<ExtArgs>
+      fields: Prisma.TagSynonymFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TagSynonymFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TagSynonymFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>
+        }
+        findFirst: {
+          args: Prisma.TagSynonymFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TagSynonymFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>
+        }
+        findMany: {
+          args: Prisma.TagSynonymFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>[]
+        }
+        create: {
+          args: Prisma.TagSynonymCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>
+        }
+        createMany: {
+          args: Prisma.TagSynonymCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TagSynonymCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>[]
+        }
+        delete: {
+          args: Prisma.TagSynonymDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>
+        }
+        update: {
+          args: Prisma.TagSynonymUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>
+        }
+        deleteMany: {
+          args: Prisma.TagSynonymDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TagSynonymUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TagSynonymUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>[]
+        }
+        upsert: {
+          args: Prisma.TagSynonymUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TagSynonymPayload>
+        }
+        aggregate: {
+          args: Prisma.TagSynonymAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTagSynonym>
+        }
+        groupBy: {
+          args: Prisma.TagSynonymGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TagSynonymGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TagSynonymCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TagSynonymCountAggregateOutputType> | number
+        }
+      }
+    }
     InventoryTag: {
       payload: Prisma.$InventoryTagPayload<ExtArgs>
       fields: Prisma.InventoryTagFieldRefs
@@ -858,6 +940,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    InventoryFieldOption: {
+      payload: Prisma.$InventoryFieldOptionPayload<ExtArgs>
+      fields: Prisma.InventoryFieldOptionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InventoryFieldOptionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InventoryFieldOptionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>
+        }
+        findFirst: {
+          args: Prisma.InventoryFieldOptionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InventoryFieldOptionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>
+        }
+        findMany: {
+          args: Prisma.InventoryFieldOptionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>[]
+        }
+        create: {
+          args: Prisma.InventoryFieldOptionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>
+        }
+        createMany: {
+          args: Prisma.InventoryFieldOptionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InventoryFieldOptionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>[]
+        }
+        delete: {
+          args: Prisma.InventoryFieldOptionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>
+        }
+        update: {
+          args: Prisma.InventoryFieldOptionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>
+        }
+        deleteMany: {
+          args: Prisma.InventoryFieldOptionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InventoryFieldOptionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InventoryFieldOptionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>[]
+        }
+        upsert: {
+          args: Prisma.InventoryFieldOptionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryFieldOptionPayload>
+        }
+        aggregate: {
+          args: Prisma.InventoryFieldOptionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryFieldOption>
+        }
+        groupBy: {
+          args: Prisma.InventoryFieldOptionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryFieldOptionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InventoryFieldOptionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryFieldOptionCountAggregateOutputType> | number
+        }
+      }
+    }
     Item: {
       payload: Prisma.$ItemPayload<ExtArgs>
       fields: Prisma.ItemFieldRefs
@@ -1006,6 +1162,228 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ItemAttachment: {
+      payload: Prisma.$ItemAttachmentPayload<ExtArgs>
+      fields: Prisma.ItemAttachmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ItemAttachmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ItemAttachmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>
+        }
+        findFirst: {
+          args: Prisma.ItemAttachmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ItemAttachmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>
+        }
+        findMany: {
+          args: Prisma.ItemAttachmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>[]
+        }
+        create: {
+          args: Prisma.ItemAttachmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>
+        }
+        createMany: {
+          args: Prisma.ItemAttachmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ItemAttachmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>[]
+        }
+        delete: {
+          args: Prisma.ItemAttachmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>
+        }
+        update: {
+          args: Prisma.ItemAttachmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.ItemAttachmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ItemAttachmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ItemAttachmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.ItemAttachmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemAttachmentPayload>
+        }
+        aggregate: {
+          args: Prisma.ItemAttachmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateItemAttachment>
+        }
+        groupBy: {
+          args: Prisma.ItemAttachmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ItemAttachmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ItemAttachmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ItemAttachmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    ItemRevision: {
+      payload: Prisma.$ItemRevisionPayload<ExtArgs>
+      fields: Prisma.ItemRevisionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ItemRevisionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ItemRevisionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>
+        }
+        findFirst: {
+          args: Prisma.ItemRevisionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ItemRevisionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>
+        }
+        findMany: {
+          args: Prisma.ItemRevisionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>[]
+        }
+        create: {
+          args: Prisma.ItemRevisionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>
+        }
+        createMany: {
+          args: Prisma.ItemRevisionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ItemRevisionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>[]
+        }
+        delete: {
+          args: Prisma.ItemRevisionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>
+        }
+        update: {
+          args: Prisma.ItemRevisionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ItemRevisionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ItemRevisionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ItemRevisionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ItemRevisionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemRevisionPayload>
+        }
+        aggregate: {
+          args: Prisma.ItemRevisionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateItemRevision>
+        }
+        groupBy: {
+          args: Prisma.ItemRevisionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ItemRevisionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ItemRevisionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ItemRevisionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ItemCustomIdAlias: {
+      payload: Prisma.$ItemCustomIdAliasPayload<ExtArgs>
+      fields: Prisma.ItemCustomIdAliasFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ItemCustomIdAliasFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ItemCustomIdAliasFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>
+        }
+        findFirst: {
+          args: Prisma.ItemCustomIdAliasFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ItemCustomIdAliasFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>
+        }
+        findMany: {
+          args: Prisma.ItemCustomIdAliasFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>[]
+        }
+        create: {
+          args: Prisma.ItemCustomIdAliasCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>
+        }
+        createMany: {
+          args: Prisma.ItemCustomIdAliasCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ItemCustomIdAliasCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>[]
+        }
+        delete: {
+          args: Prisma.ItemCustomIdAliasDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>
+        }
+        update: {
+          args: Prisma.ItemCustomIdAliasUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>
+        }
+        deleteMany: {
+          args: Prisma.ItemCustomIdAliasDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ItemCustomIdAliasUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ItemCustomIdAliasUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>[]
+        }
+        upsert: {
+          args: Prisma.ItemCustomIdAliasUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ItemCustomIdAliasPayload>
+        }
+        aggregate: {
+          args: Prisma.ItemCustomIdAliasAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateItemCustomIdAlias>
+        }
+        groupBy: {
+          args: Prisma.ItemCustomIdAliasGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ItemCustomIdAliasGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ItemCustomIdAliasCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ItemCustomIdAliasCountAggregateOutputType> | number
+        }
+      }
+    }
     ItemLike: {
       payload: Prisma.$ItemLikePayload<ExtArgs>
       fields: Prisma.ItemLikeFieldRefs
@@ -1228,6 +1606,228 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    SavedSearch: {
+      payload: Prisma.$SavedSearchPayload<ExtArgs>
+      fields: Prisma.SavedSearchFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SavedSearchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SavedSearchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        findFirst: {
+          args: Prisma.SavedSearchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SavedSearchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        findMany: {
+          args: Prisma.SavedSearchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
+        }
+        create: {
+          args: Prisma.SavedSearchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        createMany: {
+          args: Prisma.SavedSearchCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SavedSearchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
+        }
+        delete: {
+          args: Prisma.SavedSearchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        update: {
+          args: Prisma.SavedSearchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        deleteMany: {
+          args: Prisma.SavedSearchDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SavedSearchUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SavedSearchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
+        }
+        upsert: {
+          args: Prisma.SavedSearchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        aggregate: {
+          args: Prisma.SavedSearchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSavedSearch>
+        }
+        groupBy: {
+          args: Prisma.SavedSearchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SavedSearchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchCountAggregateOutputType> | number
+        }
+      }
+    }
+    SavedSearchAlert: {
+      payload: Prisma.$SavedSearchAlertPayload<ExtArgs>
+      fields: Prisma.SavedSearchAlertFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SavedSearchAlertFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SavedSearchAlertFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>
+        }
+        findFirst: {
+          args: Prisma.SavedSearchAlertFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SavedSearchAlertFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>
+        }
+        findMany: {
+          args: Prisma.SavedSearchAlertFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>[]
+        }
+        create: {
+          args: Prisma.SavedSearchAlertCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>
+        }
+        createMany: {
+          args: Prisma.SavedSearchAlertCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SavedSearchAlertCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>[]
+        }
+        delete: {
+          args: Prisma.SavedSearchAlertDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>
+        }
+        update: {
+          args: Prisma.SavedSearchAlertUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>
+        }
+        deleteMany: {
+          args: Prisma.SavedSearchAlertDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SavedSearchAlertUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SavedSearchAlertUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>[]
+        }
+        upsert: {
+          args: Prisma.SavedSearchAlertUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchAlertPayload>
+        }
+        aggregate: {
+          args: Prisma.SavedSearchAlertAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSavedSearchAlert>
+        }
+        groupBy: {
+          args: Prisma.SavedSearchAlertGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchAlertGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SavedSearchAlertCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchAlertCountAggregateOutputType> | number
+        }
+      }
+    }
+    AppSetting: {
+      payload: Prisma.$AppSettingPayload<ExtArgs>
+      fields: Prisma.AppSettingFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AppSettingFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AppSettingFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>
+        }
+        findFirst: {
+          args: Prisma.AppSettingFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AppSettingFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>
+        }
+        findMany: {
+          args: Prisma.AppSettingFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>[]
+        }
+        create: {
+          args: Prisma.AppSettingCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>
+        }
+        createMany: {
+          args: Prisma.AppSettingCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AppSettingCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>[]
+        }
+        delete: {
+          args: Prisma.AppSettingDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>
+        }
+        update: {
+          args: Prisma.AppSettingUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>
+        }
+        deleteMany: {
+          args: Prisma.AppSettingDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AppSettingUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AppSettingUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>[]
+        }
+        upsert: {
+          args: Prisma.AppSettingUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppSettingPayload>
+        }
+        aggregate: {
+          args: Prisma.AppSettingAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAppSetting>
+        }
+        groupBy: {
+          args: Prisma.AppSettingGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AppSettingGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AppSettingCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AppSettingCountAggregateOutputType> | number
+        }
+      }
+    }
   }
 } & {
   other: {
@@ -1292,6 +1892,10 @@ export const InventoryScalarFieldEnum = {
   category: 'category',
   imageUrl: 'imageUrl',
   isPublic: 'isPublic',
+  fieldLimits: 'fieldLimits',
+  archivedAt: 'archivedAt',
+  nextSequence: 'nextSequence',
+  allowFreeFormCustomIds: 'allowFreeFormCustomIds',
   version: 'version',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
@@ -1310,6 +1914,16 @@ export const TagScalarFieldEnum = {
 export type TagScalarFieldEnum = (typeof TagScalarFieldEnum)[keyof typeof TagScalarFieldEnum]
 
 
+export const TagSynonymScalarFieldEnum = {
+  id: 'id',
+  tagId: 'tagId',
+  name: 'name',
+  createdAt: 'createdAt'
+} as const
+
+export type TagSynonymScalarFieldEnum = (typeof TagSynonymScalarFieldEnum)[keyof typeof TagSynonymScalarFieldEnum]
+
+
 export const InventoryTagScalarFieldEnum = {
   inventoryId: 'inventoryId',
   tagId: 'tagId'
@@ -1333,12 +1947,29 @@ export const InventoryFieldScalarFieldEnum = {
   title: 'title',
   description: 'description',
   showInTable: 'showInTable',
-  orderIndex: 'orderIndex'
+  orderIndex: 'orderIndex',
+  required: 'required',
+  minValue: 'minValue',
+  maxValue: 'maxValue',
+  maxLength: 'maxLength',
+  pattern: 'pattern',
+  allowedSchemes: 'allowedSchemes'
 } as const
 
 export type InventoryFieldScalarFieldEnum = (typeof InventoryFieldScalarFieldEnum)[keyof typeof InventoryFieldScalarFieldEnum]
 
 
+export const InventoryFieldOptionScalarFieldEnum = {
+  id: 'id',
+  fieldId: 'fieldId',
+  label: 'label',
+  color: 'color',
+  orderIndex: 'orderIndex'
+} as const
+
+export type InventoryFieldOptionScalarFieldEnum = (typeof InventoryFieldOptionScalarFieldEnum)[keyof typeof InventoryFieldOptionScalarFieldEnum]
+
+
 export const ItemScalarFieldEnum = {
   id: 'id',
   inventoryId: 'inventoryId',
@@ -1346,6 +1977,7 @@ export const ItemScalarFieldEnum = {
   version: 'version',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
+  deletedAt: 'deletedAt',
   createdById: 'createdById'
 } as const
 
@@ -1359,12 +1991,54 @@ export const ItemFieldValueScalarFieldEnum = {
   valueString: 'valueString',
   valueNumber: 'valueNumber',
   valueBoolean: 'valueBoolean',
-  valueLink: 'valueLink'
+  valueLink: 'valueLink',
+  valueDate: 'valueDate',
+  valueOptions: 'valueOptions'
 } as const
 
 export type ItemFieldValueScalarFieldEnum = (typeof ItemFieldValueScalarFieldEnum)[keyof typeof ItemFieldValueScalarFieldEnum]
 
 
+export const ItemAttachmentScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  fieldId: 'fieldId',
+  storageKey: 'storageKey',
+  fileName: 'fileName',
+  mimeType: 'mimeType',
+  size: 'size',
+  createdAt: 'createdAt'
+} as const
+
+export type ItemAttachmentScalarFieldEnum = (typeof ItemAttachmentScalarFieldEnum)[keyof typeof ItemAttachmentScalarFieldEnum]
+
+
+export const ItemRevisionScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  version: 'version',
+  authorId: 'authorId',
+  customIdBefore: 'customIdBefore',
+  customIdAfter: 'customIdAfter',
+  changes: 'changes',
+  revertOfId: 'revertOfId',
+  createdAt: 'createdAt'
+} as const
+
+export type ItemRevisionScalarFieldEnum = (typeof ItemRevisionScalarFieldEnum)[keyof typeof ItemRevisionScalarFieldEnum]
+
+
+export const ItemCustomIdAliasScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  inventoryId: 'inventoryId',
+  customId: 'customId',
+  createdAt: 'createdAt'
+} as const
+
+export type ItemCustomIdAliasScalarFieldEnum = (typeof ItemCustomIdAliasScalarFieldEnum)[keyof typeof ItemCustomIdAliasScalarFieldEnum]
+
+
 export const ItemLikeScalarFieldEnum = {
   itemId: 'itemId',
   userId: 'userId',
@@ -1391,12 +2065,57 @@ export const InventoryCustomIdElementScalarFieldEnum = {
   type: 'type',
   orderIndex: 'orderIndex',
   fixedText: 'fixedText',
-  numberWidth: 'numberWidth'
+  numberWidth: 'numberWidth',
+  fieldId: 'fieldId',
+  upperCase: 'upperCase',
+  checkDigit: 'checkDigit',
+  dateFormat: 'dateFormat',
+  timeZone: 'timeZone'
 } as const
 
 export type InventoryCustomIdElementScalarFieldEnum = (typeof InventoryCustomIdElementScalarFieldEnum)[keyof typeof InventoryCustomIdElementScalarFieldEnum]
 
 
+export const SavedSearchScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  query: 'query',
+  filters: 'filters',
+  notify: 'notify',
+  lastCheckedAt: 'lastCheckedAt',
+  lastCheckedKind: 'lastCheckedKind',
+  lastCheckedId: 'lastCheckedId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SavedSearchScalarFieldEnum = (typeof SavedSearchScalarFieldEnum)[keyof typeof SavedSearchScalarFieldEnum]
+
+
+export const SavedSearchAlertScalarFieldEnum = {
+  id: 'id',
+  savedSearchId: 'savedSearchId',
+  kind: 'kind',
+  targetId: 'targetId',
+  inventoryId: 'inventoryId',
+  title: 'title',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+} as const
+
+export type SavedSearchAlertScalarFieldEnum = (typeof SavedSearchAlertScalarFieldEnum)[keyof typeof SavedSearchAlertScalarFieldEnum]
+
+
+export const AppSettingScalarFieldEnum = {
+  key: 'key',
+  value: 'value',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AppSettingScalarFieldEnum = (typeof AppSettingScalarFieldEnum)[keyof typeof AppSettingScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -1405,6 +2124,21 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+export const JsonNullValueInput = {
+  JsonNull: JsonNull
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -1421,6 +2155,15 @@ export const NullsOrder = {
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
 
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
+
 
 /**
  * Field references
@@ -1490,6 +2233,20 @@ export type ListEnumInventoryCategoryFieldRefInput<$PrismaModel> = FieldRefInput
     
 
 
+/**
+ * Reference to a field of type 'Json'
+ */
+export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryMode'
+ */
+export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+    
+
+
 /**
  * Reference to a field of type 'Int'
  */
@@ -1545,6 +2302,20 @@ export type EnumCustomIdElementTypeFieldRefInput<$PrismaModel> = FieldRefInputTy
 export type ListEnumCustomIdElementTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CustomIdElementType[]'>
     
 
+
+/**
+ * Reference to a field of type 'CustomIdCheckDigit'
+ */
+export type EnumCustomIdCheckDigitFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CustomIdCheckDigit'>
+    
+
+
+/**
+ * Reference to a field of type 'CustomIdCheckDigit[]'
+ */
+export type ListEnumCustomIdCheckDigitFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CustomIdCheckDigit[]'>
+    
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -1643,14 +2414,22 @@ export type GlobalOmitConfig = {
   user?: Prisma.UserOmit
   inventory?: Prisma.InventoryOmit
   tag?: Prisma.TagOmit
+  tagSynonym?: Prisma.TagSynonymOmit
   inventoryTag?: Prisma.InventoryTagOmit
   inventoryWriteAccess?: Prisma.InventoryWriteAccessOmit
   inventoryField?: Prisma.InventoryFieldOmit
+  inventoryFieldOption?: Prisma.InventoryFieldOptionOmit
   item?: Prisma.ItemOmit
   itemFieldValue?: Prisma.ItemFieldValueOmit
+  itemAttachment?: Prisma.ItemAttachmentOmit
+  itemRevision?: Prisma.ItemRevisionOmit
+  itemCustomIdAlias?: Prisma.ItemCustomIdAliasOmit
   itemLike?: Prisma.ItemLikeOmit
   discussionPost?: Prisma.DiscussionPostOmit
   inventoryCustomIdElement?: Prisma.InventoryCustomIdElementOmit
+  savedSearch?: Prisma.SavedSearchOmit
+  savedSearchAlert?: Prisma.SavedSearchAlertOmit
+  appSetting?: Prisma.AppSettingOmit
 }
 
 /* Types for Logging */
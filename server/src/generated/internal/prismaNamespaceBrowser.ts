@@ -54,14 +54,22 @@ export const ModelName = {
   User: 'User',
   Inventory: 'Inventory',
   Tag: 'Tag',
+  TagSynonym: 'TagSynonym',
   InventoryTag: 'InventoryTag',
   InventoryWriteAccess: 'InventoryWriteAccess',
   InventoryField: 'InventoryField',
+  InventoryFieldOption: 'InventoryFieldOption',
   Item: 'Item',
   ItemFieldValue: 'ItemFieldValue',
+  ItemAttachment: 'ItemAttachment',
+  ItemRevision: 'ItemRevision',
+  ItemCustomIdAlias: 'ItemCustomIdAlias',
   ItemLike: 'ItemLike',
   DiscussionPost: 'DiscussionPost',
-  InventoryCustomIdElement: 'InventoryCustomIdElement'
+  InventoryCustomIdElement: 'InventoryCustomIdElement',
+  SavedSearch: 'SavedSearch',
+  SavedSearchAlert: 'SavedSearchAlert',
+  AppSetting: 'AppSetting'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -105,6 +113,10 @@ export const InventoryScalarFieldEnum = {
   category: 'category',
   imageUrl: 'imageUrl',
   isPublic: 'isPublic',
+  fieldLimits: 'fieldLimits',
+  archivedAt: 'archivedAt',
+  nextSequence: 'nextSequence',
+  allowFreeFormCustomIds: 'allowFreeFormCustomIds',
   version: 'version',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
@@ -123,6 +135,16 @@ export const TagScalarFieldEnum = {
 export type TagScalarFieldEnum = (typeof TagScalarFieldEnum)[keyof typeof TagScalarFieldEnum]
 
 
+export const TagSynonymScalarFieldEnum = {
+  id: 'id',
+  tagId: 'tagId',
+  name: 'name',
+  createdAt: 'createdAt'
+} as const
+
+export type TagSynonymScalarFieldEnum = (typeof TagSynonymScalarFieldEnum)[keyof typeof TagSynonymScalarFieldEnum]
+
+
 export const InventoryTagScalarFieldEnum = {
   inventoryId: 'inventoryId',
   tagId: 'tagId'
@@ -146,12 +168,29 @@ export const InventoryFieldScalarFieldEnum = {
   title: 'title',
   description: 'description',
   showInTable: 'showInTable',
-  orderIndex: 'orderIndex'
+  orderIndex: 'orderIndex',
+  required: 'required',
+  minValue: 'minValue',
+  maxValue: 'maxValue',
+  maxLength: 'maxLength',
+  pattern: 'pattern',
+  allowedSchemes: 'allowedSchemes'
 } as const
 
 export type InventoryFieldScalarFieldEnum = (typeof InventoryFieldScalarFieldEnum)[keyof typeof InventoryFieldScalarFieldEnum]
 
 
+export const InventoryFieldOptionScalarFieldEnum = {
+  id: 'id',
+  fieldId: 'fieldId',
+  label: 'label',
+  color: 'color',
+  orderIndex: 'orderIndex'
+} as const
+
+export type InventoryFieldOptionScalarFieldEnum = (typeof InventoryFieldOptionScalarFieldEnum)[keyof typeof InventoryFieldOptionScalarFieldEnum]
+
+
 export const ItemScalarFieldEnum = {
   id: 'id',
   inventoryId: 'inventoryId',
@@ -159,6 +198,7 @@ export const ItemScalarFieldEnum = {
   version: 'version',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
+  deletedAt: 'deletedAt',
   createdById: 'createdById'
 } as const
 
@@ -172,12 +212,54 @@ export const ItemFieldValueScalarFieldEnum = {
   valueString: 'valueString',
   valueNumber: 'valueNumber',
   valueBoolean: 'valueBoolean',
-  valueLink: 'valueLink'
+  valueLink: 'valueLink',
+  valueDate: 'valueDate',
+  valueOptions: 'valueOptions'
 } as const
 
 export type ItemFieldValueScalarFieldEnum = (typeof ItemFieldValueScalarFieldEnum)[keyof typeof ItemFieldValueScalarFieldEnum]
 
 
+export const ItemAttachmentScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  fieldId: 'fieldId',
+  storageKey: 'storageKey',
+  fileName: 'fileName',
+  mimeType: 'mimeType',
+  size: 'size',
+  createdAt: 'createdAt'
+} as const
+
+export type ItemAttachmentScalarFieldEnum = (typeof ItemAttachmentScalarFieldEnum)[keyof typeof ItemAttachmentScalarFieldEnum]
+
+
+export const ItemRevisionScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  version: 'version',
+  authorId: 'authorId',
+  customIdBefore: 'customIdBefore',
+  customIdAfter: 'customIdAfter',
+  changes: 'changes',
+  revertOfId: 'revertOfId',
+  createdAt: 'createdAt'
+} as const
+
+export type ItemRevisionScalarFieldEnum = (typeof ItemRevisionScalarFieldEnum)[keyof typeof ItemRevisionScalarFieldEnum]
+
+
+export const ItemCustomIdAliasScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  inventoryId: 'inventoryId',
+  customId: 'customId',
+  createdAt: 'createdAt'
+} as const
+
+export type ItemCustomIdAliasScalarFieldEnum = (typeof ItemCustomIdAliasScalarFieldEnum)[keyof typeof ItemCustomIdAliasScalarFieldEnum]
+
+
 export const ItemLikeScalarFieldEnum = {
   itemId: 'itemId',
   userId: 'userId',
@@ -204,12 +286,57 @@ export const InventoryCustomIdElementScalarFieldEnum = {
   type: 'type',
   orderIndex: 'orderIndex',
   fixedText: 'fixedText',
-  numberWidth: 'numberWidth'
+  numberWidth: 'numberWidth',
+  fieldId: 'fieldId',
+  upperCase: 'upperCase',
+  checkDigit: 'checkDigit',
+  dateFormat: 'dateFormat',
+  timeZone: 'timeZone'
 } as const
 
 export type InventoryCustomIdElementScalarFieldEnum = (typeof InventoryCustomIdElementScalarFieldEnum)[keyof typeof InventoryCustomIdElementScalarFieldEnum]
 
 
+export const SavedSearchScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  query: 'query',
+  filters: 'filters',
+  notify: 'notify',
+  lastCheckedAt: 'lastCheckedAt',
+  lastCheckedKind: 'lastCheckedKind',
+  lastCheckedId: 'lastCheckedId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SavedSearchScalarFieldEnum = (typeof SavedSearchScalarFieldEnum)[keyof typeof SavedSearchScalarFieldEnum]
+
+
+export const SavedSearchAlertScalarFieldEnum = {
+  id: 'id',
+  savedSearchId: 'savedSearchId',
+  kind: 'kind',
+  targetId: 'targetId',
+  inventoryId: 'inventoryId',
+  title: 'title',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+} as const
+
+export type SavedSearchAlertScalarFieldEnum = (typeof SavedSearchAlertScalarFieldEnum)[keyof typeof SavedSearchAlertScalarFieldEnum]
+
+
+export const AppSettingScalarFieldEnum = {
+  key: 'key',
+  value: 'value',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AppSettingScalarFieldEnum = (typeof AppSettingScalarFieldEnum)[keyof typeof AppSettingScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -218,6 +345,21 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+export const JsonNullValueInput = {
+  JsonNull: JsonNull
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -233,3 +375,12 @@ export const NullsOrder = {
 
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
+
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
@@ -11,12 +11,20 @@
 export type * from './models/User'
 export type * from './models/Inventory'
 export type * from './models/Tag'
+export type * from './models/TagSynonym'
 export type * from './models/InventoryTag'
 export type * from './models/InventoryWriteAccess'
 export type * from './models/InventoryField'
+export type * from './models/InventoryFieldOption'
 export type * from './models/Item'
 export type * from './models/ItemFieldValue'
+export type * from './models/ItemAttachment'
+export type * from './models/ItemRevision'
+export type * from './models/ItemCustomIdAlias'
 export type * from './models/ItemLike'
 export type * from './models/DiscussionPost'
 export type * from './models/InventoryCustomIdElement'
+export type * from './models/SavedSearch'
+export type * from './models/SavedSearchAlert'
+export type * from './models/AppSetting'
 export type * from './commonInputTypes'
\ No newline at end of file
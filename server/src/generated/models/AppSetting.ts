@@ -0,0 +1,1082 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AppSetting` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AppSetting
+ * 
+ */
+export type AppSettingModel = runtime.Types.Result.DefaultSelection<Prisma.$AppSettingPayload>
+
+export type AggregateAppSetting = {
+  _count: AppSettingCountAggregateOutputType | null
+  _min: AppSettingMinAggregateOutputType | null
+  _max: AppSettingMaxAggregateOutputType | null
+}
+
+export type AppSettingMinAggregateOutputType = {
+  key: string | null
+  updatedAt: Date | null
+}
+
+export type AppSettingMaxAggregateOutputType = {
+  key: string | null
+  updatedAt: Date | null
+}
+
+export type AppSettingCountAggregateOutputType = {
+  key: number
+  value: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type AppSettingMinAggregateInputType = {
+  key?: true
+  updatedAt?: true
+}
+
+export type AppSettingMaxAggregateInputType = {
+  key?: true
+  updatedAt?: true
+}
+
+export type AppSettingCountAggregateInputType = {
+  key?: true
+  value?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type AppSettingAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AppSetting to aggregate.
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppSettings to fetch.
+   */
+  orderBy?: Prisma.AppSettingOrderByWithRelationInput | Prisma.AppSettingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AppSettingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppSettings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppSettings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AppSettings
+  **/
+  _count?: true | AppSettingCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AppSettingMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AppSettingMaxAggregateInputType
+}
+
+export type GetAppSettingAggregateType<T extends AppSettingAggregateArgs> = {
+      [P in keyof T & keyof AggregateAppSetting]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAppSetting[P]>
+    : Prisma.GetScalarType<T[P], AggregateAppSetting[P]>
+}
+
+
+
+
+export type AppSettingGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppSettingWhereInput
+  orderBy?: Prisma.AppSettingOrderByWithAggregationInput | Prisma.AppSettingOrderByWithAggregationInput[]
+  by: Prisma.AppSettingScalarFieldEnum[] | Prisma.AppSettingScalarFieldEnum
+  having?: Prisma.AppSettingScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AppSettingCountAggregateInputType | true
+  _min?: AppSettingMinAggregateInputType
+  _max?: AppSettingMaxAggregateInputType
+}
+
+export type AppSettingGroupByOutputType = {
+  key: string
+  value: runtime.JsonValue
+  updatedAt: Date
+  _count: AppSettingCountAggregateOutputType | null
+  _min: AppSettingMinAggregateOutputType | null
+  _max: AppSettingMaxAggregateOutputType | null
+}
+
+type GetAppSettingGroupByPayload<T extends AppSettingGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AppSettingGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AppSettingGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AppSettingGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AppSettingGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AppSettingWhereInput = {
+  AND?: Prisma.AppSettingWhereInput | Prisma.AppSettingWhereInput[]
+  OR?: Prisma.AppSettingWhereInput[]
+  NOT?: Prisma.AppSettingWhereInput | Prisma.AppSettingWhereInput[]
+  key?: Prisma.StringFilter<"AppSetting"> | string
+  value?: Prisma.JsonFilter<"AppSetting">
+  updatedAt?: Prisma.DateTimeFilter<"AppSetting"> | Date | string
+}
+
+export type AppSettingOrderByWithRelationInput = {
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AppSettingWhereUniqueInput = Prisma.AtLeast<{
+  key?: string
+  AND?: Prisma.AppSettingWhereInput | Prisma.AppSettingWhereInput[]
+  OR?: Prisma.AppSettingWhereInput[]
+  NOT?: Prisma.AppSettingWhereInput | Prisma.AppSettingWhereInput[]
+  value?: Prisma.JsonFilter<"AppSetting">
+  updatedAt?: Prisma.DateTimeFilter<"AppSetting"> | Date | string
+}, "key">
+
+export type AppSettingOrderByWithAggregationInput = {
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.AppSettingCountOrderByAggregateInput
+  _max?: Prisma.AppSettingMaxOrderByAggregateInput
+  _min?: Prisma.AppSettingMinOrderByAggregateInput
+}
+
+export type AppSettingScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AppSettingScalarWhereWithAggregatesInput | Prisma.AppSettingScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AppSettingScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AppSettingScalarWhereWithAggregatesInput | Prisma.AppSettingScalarWhereWithAggregatesInput[]
+  key?: Prisma.StringWithAggregatesFilter<"AppSetting"> | string
+  value?: Prisma.JsonWithAggregatesFilter<"AppSetting">
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"AppSetting"> | Date | string
+}
+
+export type AppSettingCreateInput = {
+  key: string
+  value: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Date | string
+}
+
+export type AppSettingUncheckedCreateInput = {
+  key: string
+  value: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Date | string
+}
+
+export type AppSettingUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppSettingUncheckedUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppSettingCreateManyInput = {
+  key: string
+  value: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Date | string
+}
+
+export type AppSettingUpdateManyMutationInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppSettingUncheckedUpdateManyInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppSettingCountOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AppSettingMaxOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AppSettingMinOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+
+
+export type AppSettingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  key?: boolean
+  value?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["appSetting"]>
+
+export type AppSettingSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  key?: boolean
+  value?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["appSetting"]>
+
+export type AppSettingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  key?: boolean
+  value?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["appSetting"]>
+
+export type AppSettingSelectScalar = {
+  key?: boolean
+  value?: boolean
+  updatedAt?: boolean
+}
+
+export type AppSettingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"key" | "value" | "updatedAt", ExtArgs["result"]["appSetting"]>
+
+export type $AppSettingPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AppSetting"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    key: string
+    value: runtime.JsonValue
+    updatedAt: Date
+  }, ExtArgs["result"]["appSetting"]>
+  composites: {}
+}
+
+export type AppSettingGetPayload<S extends boolean | null | undefined | AppSettingDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AppSettingPayload, S>
+
+export type AppSettingCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AppSettingFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AppSettingCountAggregateInputType | true
+  }
+
+export interface AppSettingDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AppSetting'], meta: { name: 'AppSetting' } }
+  /**
+   * Find zero or one AppSetting that matches the filter.
+   * @param {AppSettingFindUniqueArgs} args - Arguments to find a AppSetting
+   * @example
+   * // Get one AppSetting
+   * const appSetting = await prisma.appSetting.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AppSettingFindUniqueArgs>(args: Prisma.SelectSubset<T, AppSettingFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AppSetting that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AppSettingFindUniqueOrThrowArgs} args - Arguments to find a AppSetting
+   * @example
+   * // Get one AppSetting
+   * const appSetting = await prisma.appSetting.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AppSettingFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AppSettingFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AppSetting that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingFindFirstArgs} args - Arguments to find a AppSetting
+   * @example
+   * // Get one AppSetting
+   * const appSetting = await prisma.appSetting.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AppSettingFindFirstArgs>(args?: Prisma.SelectSubset<T, AppSettingFindFirstArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AppSetting that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingFindFirstOrThrowArgs} args - Arguments to find a AppSetting
+   * @example
+   * // Get one AppSetting
+   * const appSetting = await prisma.appSetting.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AppSettingFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AppSettingFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AppSettings that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AppSettings
+   * const appSettings = await prisma.appSetting.findMany()
+   * 
+   * // Get first 10 AppSettings
+   * const appSettings = await prisma.appSetting.findMany({ take: 10 })
+   * 
+   * // Only select the `key`
+   * const appSettingWithKeyOnly = await prisma.appSetting.findMany({ select: { key: true } })
+   * 
+   */
+  findMany<T extends AppSettingFindManyArgs>(args?: Prisma.SelectSubset<T, AppSettingFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AppSetting.
+   * @param {AppSettingCreateArgs} args - Arguments to create a AppSetting.
+   * @example
+   * // Create one AppSetting
+   * const AppSetting = await prisma.appSetting.create({
+   *   data: {
+   *     // ... data to create a AppSetting
+   *   }
+   * })
+   * 
+   */
+  create<T extends AppSettingCreateArgs>(args: Prisma.SelectSubset<T, AppSettingCreateArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AppSettings.
+   * @param {AppSettingCreateManyArgs} args - Arguments to create many AppSettings.
+   * @example
+   * // Create many AppSettings
+   * const appSetting = await prisma.appSetting.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AppSettingCreateManyArgs>(args?: Prisma.SelectSubset<T, AppSettingCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AppSettings and returns the data saved in the database.
+   * @param {AppSettingCreateManyAndReturnArgs} args - Arguments to create many AppSettings.
+   * @example
+   * // Create many AppSettings
+   * const appSetting = await prisma.appSetting.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AppSettings and only return the `key`
+   * const appSettingWithKeyOnly = await prisma.appSetting.createManyAndReturn({
+   *   select: { key: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AppSettingCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AppSettingCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AppSetting.
+   * @param {AppSettingDeleteArgs} args - Arguments to delete one AppSetting.
+   * @example
+   * // Delete one AppSetting
+   * const AppSetting = await prisma.appSetting.delete({
+   *   where: {
+   *     // ... filter to delete one AppSetting
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AppSettingDeleteArgs>(args: Prisma.SelectSubset<T, AppSettingDeleteArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AppSetting.
+   * @param {AppSettingUpdateArgs} args - Arguments to update one AppSetting.
+   * @example
+   * // Update one AppSetting
+   * const appSetting = await prisma.appSetting.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AppSettingUpdateArgs>(args: Prisma.SelectSubset<T, AppSettingUpdateArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AppSettings.
+   * @param {AppSettingDeleteManyArgs} args - Arguments to filter AppSettings to delete.
+   * @example
+   * // Delete a few AppSettings
+   * const { count } = await prisma.appSetting.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AppSettingDeleteManyArgs>(args?: Prisma.SelectSubset<T, AppSettingDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AppSettings.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AppSettings
+   * const appSetting = await prisma.appSetting.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AppSettingUpdateManyArgs>(args: Prisma.SelectSubset<T, AppSettingUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AppSettings and returns the data updated in the database.
+   * @param {AppSettingUpdateManyAndReturnArgs} args - Arguments to update many AppSettings.
+   * @example
+   * // Update many AppSettings
+   * const appSetting = await prisma.appSetting.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AppSettings and only return the `key`
+   * const appSettingWithKeyOnly = await prisma.appSetting.updateManyAndReturn({
+   *   select: { key: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AppSettingUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AppSettingUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AppSetting.
+   * @param {AppSettingUpsertArgs} args - Arguments to update or create a AppSetting.
+   * @example
+   * // Update or create a AppSetting
+   * const appSetting = await prisma.appSetting.upsert({
+   *   create: {
+   *     // ... data to create a AppSetting
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AppSetting we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AppSettingUpsertArgs>(args: Prisma.SelectSubset<T, AppSettingUpsertArgs<ExtArgs>>): Prisma.Prisma__AppSettingClient<runtime.Types.Result.GetResult<Prisma.$AppSettingPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AppSettings.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingCountArgs} args - Arguments to filter AppSettings to count.
+   * @example
+   * // Count the number of AppSettings
+   * const count = await prisma.appSetting.count({
+   *   where: {
+   *     // ... the filter for the AppSettings we want to count
+   *   }
+   * })
+  **/
+  count<T extends AppSettingCountArgs>(
+    args?: Prisma.Subset<T, AppSettingCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AppSettingCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AppSetting.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AppSettingAggregateArgs>(args: Prisma.Subset<T, AppSettingAggregateArgs>): Prisma.PrismaPromise<GetAppSettingAggregateType<T>>
+
+  /**
+   * Group by AppSetting.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppSettingGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AppSettingGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AppSettingGroupByArgs['orderBy'] }
+      : { orderBy?: AppSettingGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AppSettingGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAppSettingGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AppSetting model
+ */
+readonly fields: AppSettingFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AppSetting.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AppSettingClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AppSetting model
+ */
+export interface AppSettingFieldRefs {
+  readonly key: Prisma.FieldRef<"AppSetting", 'String'>
+  readonly value: Prisma.FieldRef<"AppSetting", 'Json'>
+  readonly updatedAt: Prisma.FieldRef<"AppSetting", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AppSetting findUnique
+ */
+export type AppSettingFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * Filter, which AppSetting to fetch.
+   */
+  where: Prisma.AppSettingWhereUniqueInput
+}
+
+/**
+ * AppSetting findUniqueOrThrow
+ */
+export type AppSettingFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * Filter, which AppSetting to fetch.
+   */
+  where: Prisma.AppSettingWhereUniqueInput
+}
+
+/**
+ * AppSetting findFirst
+ */
+export type AppSettingFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * Filter, which AppSetting to fetch.
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppSettings to fetch.
+   */
+  orderBy?: Prisma.AppSettingOrderByWithRelationInput | Prisma.AppSettingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AppSettings.
+   */
+  cursor?: Prisma.AppSettingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppSettings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppSettings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AppSettings.
+   */
+  distinct?: Prisma.AppSettingScalarFieldEnum | Prisma.AppSettingScalarFieldEnum[]
+}
+
+/**
+ * AppSetting findFirstOrThrow
+ */
+export type AppSettingFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * Filter, which AppSetting to fetch.
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppSettings to fetch.
+   */
+  orderBy?: Prisma.AppSettingOrderByWithRelationInput | Prisma.AppSettingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AppSettings.
+   */
+  cursor?: Prisma.AppSettingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppSettings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppSettings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AppSettings.
+   */
+  distinct?: Prisma.AppSettingScalarFieldEnum | Prisma.AppSettingScalarFieldEnum[]
+}
+
+/**
+ * AppSetting findMany
+ */
+export type AppSettingFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * Filter, which AppSettings to fetch.
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppSettings to fetch.
+   */
+  orderBy?: Prisma.AppSettingOrderByWithRelationInput | Prisma.AppSettingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AppSettings.
+   */
+  cursor?: Prisma.AppSettingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppSettings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppSettings.
+   */
+  skip?: number
+  distinct?: Prisma.AppSettingScalarFieldEnum | Prisma.AppSettingScalarFieldEnum[]
+}
+
+/**
+ * AppSetting create
+ */
+export type AppSettingCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * The data needed to create a AppSetting.
+   */
+  data: Prisma.XOR<Prisma.AppSettingCreateInput, Prisma.AppSettingUncheckedCreateInput>
+}
+
+/**
+ * AppSetting createMany
+ */
+export type AppSettingCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AppSettings.
+   */
+  data: Prisma.AppSettingCreateManyInput | Prisma.AppSettingCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AppSetting createManyAndReturn
+ */
+export type AppSettingCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * The data used to create many AppSettings.
+   */
+  data: Prisma.AppSettingCreateManyInput | Prisma.AppSettingCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AppSetting update
+ */
+export type AppSettingUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * The data needed to update a AppSetting.
+   */
+  data: Prisma.XOR<Prisma.AppSettingUpdateInput, Prisma.AppSettingUncheckedUpdateInput>
+  /**
+   * Choose, which AppSetting to update.
+   */
+  where: Prisma.AppSettingWhereUniqueInput
+}
+
+/**
+ * AppSetting updateMany
+ */
+export type AppSettingUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AppSettings.
+   */
+  data: Prisma.XOR<Prisma.AppSettingUpdateManyMutationInput, Prisma.AppSettingUncheckedUpdateManyInput>
+  /**
+   * Filter which AppSettings to update
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * Limit how many AppSettings to update.
+   */
+  limit?: number
+}
+
+/**
+ * AppSetting updateManyAndReturn
+ */
+export type AppSettingUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * The data used to update AppSettings.
+   */
+  data: Prisma.XOR<Prisma.AppSettingUpdateManyMutationInput, Prisma.AppSettingUncheckedUpdateManyInput>
+  /**
+   * Filter which AppSettings to update
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * Limit how many AppSettings to update.
+   */
+  limit?: number
+}
+
+/**
+ * AppSetting upsert
+ */
+export type AppSettingUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * The filter to search for the AppSetting to update in case it exists.
+   */
+  where: Prisma.AppSettingWhereUniqueInput
+  /**
+   * In case the AppSetting found by the `where` argument doesn't exist, create a new AppSetting with this data.
+   */
+  create: Prisma.XOR<Prisma.AppSettingCreateInput, Prisma.AppSettingUncheckedCreateInput>
+  /**
+   * In case the AppSetting was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AppSettingUpdateInput, Prisma.AppSettingUncheckedUpdateInput>
+}
+
+/**
+ * AppSetting delete
+ */
+export type AppSettingDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+  /**
+   * Filter which AppSetting to delete.
+   */
+  where: Prisma.AppSettingWhereUniqueInput
+}
+
+/**
+ * AppSetting deleteMany
+ */
+export type AppSettingDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AppSettings to delete
+   */
+  where?: Prisma.AppSettingWhereInput
+  /**
+   * Limit how many AppSettings to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AppSetting without action
+ */
+export type AppSettingDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppSetting
+   */
+  select?: Prisma.AppSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppSetting
+   */
+  omit?: Prisma.AppSettingOmit<ExtArgs> | null
+}
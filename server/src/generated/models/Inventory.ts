@@ -27,10 +27,12 @@ export type AggregateInventory = {
 }
 
 export type InventoryAvgAggregateOutputType = {
+  nextSequence: number | null
   version: number | null
 }
 
 export type InventorySumAggregateOutputType = {
+  nextSequence: number | null
   version: number | null
 }
 
@@ -41,6 +43,9 @@ export type InventoryMinAggregateOutputType = {
   category: $Enums.InventoryCategory | null
   imageUrl: string | null
   isPublic: boolean | null
+  archivedAt: Date | null
+  nextSequence: number | null
+  allowFreeFormCustomIds: boolean | null
   version: number | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -54,6 +59,9 @@ export type InventoryMaxAggregateOutputType = {
   category: $Enums.InventoryCategory | null
   imageUrl: string | null
   isPublic: boolean | null
+  archivedAt: Date | null
+  nextSequence: number | null
+  allowFreeFormCustomIds: boolean | null
   version: number | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -67,6 +75,10 @@ export type InventoryCountAggregateOutputType = {
   category: number
   imageUrl: number
   isPublic: number
+  fieldLimits: number
+  archivedAt: number
+  nextSequence: number
+  allowFreeFormCustomIds: number
   version: number
   createdAt: number
   updatedAt: number
@@ -76,10 +88,12 @@ export type InventoryCountAggregateOutputType = {
 
 
 export type InventoryAvgAggregateInputType = {
+  nextSequence?: true
   version?: true
 }
 
 export type InventorySumAggregateInputType = {
+  nextSequence?: true
   version?: true
 }
 
@@ -90,6 +104,9 @@ export type InventoryMinAggregateInputType = {
   category?: true
   imageUrl?: true
   isPublic?: true
+  archivedAt?: true
+  nextSequence?: true
+  allowFreeFormCustomIds?: true
   version?: true
   createdAt?: true
   updatedAt?: true
@@ -103,6 +120,9 @@ export type InventoryMaxAggregateInputType = {
   category?: true
   imageUrl?: true
   isPublic?: true
+  archivedAt?: true
+  nextSequence?: true
+  allowFreeFormCustomIds?: true
   version?: true
   createdAt?: true
   updatedAt?: true
@@ -116,6 +136,10 @@ export type InventoryCountAggregateInputType = {
   category?: true
   imageUrl?: true
   isPublic?: true
+  fieldLimits?: true
+  archivedAt?: true
+  nextSequence?: true
+  allowFreeFormCustomIds?: true
   version?: true
   createdAt?: true
   updatedAt?: true
@@ -216,6 +240,10 @@ export type InventoryGroupByOutputType = {
   category: $Enums.InventoryCategory
   imageUrl: string | null
   isPublic: boolean
+  fieldLimits: runtime.JsonValue | null
+  archivedAt: Date | null
+  nextSequence: number
+  allowFreeFormCustomIds: boolean
   version: number
   createdAt: Date
   updatedAt: Date
@@ -252,6 +280,10 @@ export type InventoryWhereInput = {
   category?: Prisma.EnumInventoryCategoryFilter<"Inventory"> | $Enums.InventoryCategory
   imageUrl?: Prisma.StringNullableFilter<"Inventory"> | string | null
   isPublic?: Prisma.BoolFilter<"Inventory"> | boolean
+  fieldLimits?: Prisma.JsonNullableFilter<"Inventory">
+  archivedAt?: Prisma.DateTimeNullableFilter<"Inventory"> | Date | string | null
+  nextSequence?: Prisma.IntFilter<"Inventory"> | number
+  allowFreeFormCustomIds?: Prisma.BoolFilter<"Inventory"> | boolean
   version?: Prisma.IntFilter<"Inventory"> | number
   createdAt?: Prisma.DateTimeFilter<"Inventory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Inventory"> | Date | string
@@ -272,6 +304,10 @@ export type InventoryOrderByWithRelationInput = {
   category?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   isPublic?: Prisma.SortOrder
+  fieldLimits?: Prisma.SortOrderInput | Prisma.SortOrder
+  archivedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextSequence?: Prisma.SortOrder
+  allowFreeFormCustomIds?: Prisma.SortOrder
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -295,6 +331,10 @@ export type InventoryWhereUniqueInput = Prisma.AtLeast<{
   category?: Prisma.EnumInventoryCategoryFilter<"Inventory"> | $Enums.InventoryCategory
   imageUrl?: Prisma.StringNullableFilter<"Inventory"> | string | null
   isPublic?: Prisma.BoolFilter<"Inventory"> | boolean
+  fieldLimits?: Prisma.JsonNullableFilter<"Inventory">
+  archivedAt?: Prisma.DateTimeNullableFilter<"Inventory"> | Date | string | null
+  nextSequence?: Prisma.IntFilter<"Inventory"> | number
+  allowFreeFormCustomIds?: Prisma.BoolFilter<"Inventory"> | boolean
   version?: Prisma.IntFilter<"Inventory"> | number
   createdAt?: Prisma.DateTimeFilter<"Inventory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Inventory"> | Date | string
@@ -315,6 +355,10 @@ export type InventoryOrderByWithAggregationInput = {
   category?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   isPublic?: Prisma.SortOrder
+  fieldLimits?: Prisma.SortOrderInput | Prisma.SortOrder
+  archivedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextSequence?: Prisma.SortOrder
+  allowFreeFormCustomIds?: Prisma.SortOrder
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -336,6 +380,10 @@ export type InventoryScalarWhereWithAggregatesInput = {
   category?: Prisma.EnumInventoryCategoryWithAggregatesFilter<"Inventory"> | $Enums.InventoryCategory
   imageUrl?: Prisma.StringNullableWithAggregatesFilter<"Inventory"> | string | null
   isPublic?: Prisma.BoolWithAggregatesFilter<"Inventory"> | boolean
+  fieldLimits?: Prisma.JsonNullableWithAggregatesFilter<"Inventory">
+  archivedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Inventory"> | Date | string | null
+  nextSequence?: Prisma.IntWithAggregatesFilter<"Inventory"> | number
+  allowFreeFormCustomIds?: Prisma.BoolWithAggregatesFilter<"Inventory"> | boolean
   version?: Prisma.IntWithAggregatesFilter<"Inventory"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Inventory"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Inventory"> | Date | string
@@ -349,6 +397,10 @@ export type InventoryCreateInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -368,6 +420,10 @@ export type InventoryUncheckedCreateInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -387,6 +443,10 @@ export type InventoryUpdateInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -406,6 +466,10 @@ export type InventoryUncheckedUpdateInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -425,6 +489,10 @@ export type InventoryCreateManyInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -438,6 +506,10 @@ export type InventoryUpdateManyMutationInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -450,6 +522,10 @@ export type InventoryUncheckedUpdateManyInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -473,6 +549,10 @@ export type InventoryCountOrderByAggregateInput = {
   category?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrder
   isPublic?: Prisma.SortOrder
+  fieldLimits?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrder
+  nextSequence?: Prisma.SortOrder
+  allowFreeFormCustomIds?: Prisma.SortOrder
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -480,6 +560,7 @@ export type InventoryCountOrderByAggregateInput = {
 }
 
 export type InventoryAvgOrderByAggregateInput = {
+  nextSequence?: Prisma.SortOrder
   version?: Prisma.SortOrder
 }
 
@@ -490,6 +571,9 @@ export type InventoryMaxOrderByAggregateInput = {
   category?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrder
   isPublic?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrder
+  nextSequence?: Prisma.SortOrder
+  allowFreeFormCustomIds?: Prisma.SortOrder
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -503,6 +587,9 @@ export type InventoryMinOrderByAggregateInput = {
   category?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrder
   isPublic?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrder
+  nextSequence?: Prisma.SortOrder
+  allowFreeFormCustomIds?: Prisma.SortOrder
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -510,6 +597,7 @@ export type InventoryMinOrderByAggregateInput = {
 }
 
 export type InventorySumOrderByAggregateInput = {
+  nextSequence?: Prisma.SortOrder
   version?: Prisma.SortOrder
 }
 
@@ -564,6 +652,10 @@ export type EnumInventoryCategoryFieldUpdateOperationsInput = {
   set?: $Enums.InventoryCategory
 }
 
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
 export type IntFieldUpdateOperationsInput = {
   set?: number
   increment?: number
@@ -663,6 +755,10 @@ export type InventoryCreateWithoutOwnerInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -681,6 +777,10 @@ export type InventoryUncheckedCreateWithoutOwnerInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -728,6 +828,10 @@ export type InventoryScalarWhereInput = {
   category?: Prisma.EnumInventoryCategoryFilter<"Inventory"> | $Enums.InventoryCategory
   imageUrl?: Prisma.StringNullableFilter<"Inventory"> | string | null
   isPublic?: Prisma.BoolFilter<"Inventory"> | boolean
+  fieldLimits?: Prisma.JsonNullableFilter<"Inventory">
+  archivedAt?: Prisma.DateTimeNullableFilter<"Inventory"> | Date | string | null
+  nextSequence?: Prisma.IntFilter<"Inventory"> | number
+  allowFreeFormCustomIds?: Prisma.BoolFilter<"Inventory"> | boolean
   version?: Prisma.IntFilter<"Inventory"> | number
   createdAt?: Prisma.DateTimeFilter<"Inventory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Inventory"> | Date | string
@@ -741,6 +845,10 @@ export type InventoryCreateWithoutTagsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -759,6 +867,10 @@ export type InventoryUncheckedCreateWithoutTagsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -793,6 +905,10 @@ export type InventoryUpdateWithoutTagsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -811,6 +927,10 @@ export type InventoryUncheckedUpdateWithoutTagsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -829,6 +949,10 @@ export type InventoryCreateWithoutWriteAccessInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -847,6 +971,10 @@ export type InventoryUncheckedCreateWithoutWriteAccessInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -881,6 +1009,10 @@ export type InventoryUpdateWithoutWriteAccessInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -899,6 +1031,10 @@ export type InventoryUncheckedUpdateWithoutWriteAccessInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -917,6 +1053,10 @@ export type InventoryCreateWithoutFieldsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -935,6 +1075,10 @@ export type InventoryUncheckedCreateWithoutFieldsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -969,6 +1113,10 @@ export type InventoryUpdateWithoutFieldsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -987,6 +1135,10 @@ export type InventoryUncheckedUpdateWithoutFieldsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1005,6 +1157,10 @@ export type InventoryCreateWithoutItemsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1023,6 +1179,10 @@ export type InventoryUncheckedCreateWithoutItemsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1057,6 +1217,10 @@ export type InventoryUpdateWithoutItemsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1075,6 +1239,10 @@ export type InventoryUncheckedUpdateWithoutItemsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1093,6 +1261,10 @@ export type InventoryCreateWithoutDiscussionInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1111,6 +1283,10 @@ export type InventoryUncheckedCreateWithoutDiscussionInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1145,6 +1321,10 @@ export type InventoryUpdateWithoutDiscussionInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1163,6 +1343,10 @@ export type InventoryUncheckedUpdateWithoutDiscussionInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1181,6 +1365,10 @@ export type InventoryCreateWithoutCustomIdElementsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1199,6 +1387,10 @@ export type InventoryUncheckedCreateWithoutCustomIdElementsInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1233,6 +1425,10 @@ export type InventoryUpdateWithoutCustomIdElementsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1251,6 +1447,10 @@ export type InventoryUncheckedUpdateWithoutCustomIdElementsInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1269,6 +1469,10 @@ export type InventoryCreateManyOwnerInput = {
   category: $Enums.InventoryCategory
   imageUrl?: string | null
   isPublic?: boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Date | string | null
+  nextSequence?: number
+  allowFreeFormCustomIds?: boolean
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1281,6 +1485,10 @@ export type InventoryUpdateWithoutOwnerInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1299,6 +1507,10 @@ export type InventoryUncheckedUpdateWithoutOwnerInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1317,6 +1529,10 @@ export type InventoryUncheckedUpdateManyWithoutOwnerInput = {
   category?: Prisma.EnumInventoryCategoryFieldUpdateOperationsInput | $Enums.InventoryCategory
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPublic?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  fieldLimits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextSequence?: Prisma.IntFieldUpdateOperationsInput | number
+  allowFreeFormCustomIds?: Prisma.BoolFieldUpdateOperationsInput | boolean
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1405,6 +1621,10 @@ export type InventorySelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   category?: boolean
   imageUrl?: boolean
   isPublic?: boolean
+  fieldLimits?: boolean
+  archivedAt?: boolean
+  nextSequence?: boolean
+  allowFreeFormCustomIds?: boolean
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -1426,6 +1646,10 @@ export type InventorySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   category?: boolean
   imageUrl?: boolean
   isPublic?: boolean
+  fieldLimits?: boolean
+  archivedAt?: boolean
+  nextSequence?: boolean
+  allowFreeFormCustomIds?: boolean
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -1440,6 +1664,10 @@ export type InventorySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   category?: boolean
   imageUrl?: boolean
   isPublic?: boolean
+  fieldLimits?: boolean
+  archivedAt?: boolean
+  nextSequence?: boolean
+  allowFreeFormCustomIds?: boolean
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -1454,13 +1682,17 @@ export type InventorySelectScalar = {
   category?: boolean
   imageUrl?: boolean
   isPublic?: boolean
+  fieldLimits?: boolean
+  archivedAt?: boolean
+  nextSequence?: boolean
+  allowFreeFormCustomIds?: boolean
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   ownerId?: boolean
 }
 
-export type InventoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "title" | "description" | "category" | "imageUrl" | "isPublic" | "version" | "createdAt" | "updatedAt" | "ownerId", ExtArgs["result"]["inventory"]>
+export type InventoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "title" | "description" | "category" | "imageUrl" | "isPublic" | "fieldLimits" | "archivedAt" | "nextSequence" | "allowFreeFormCustomIds" | "version" | "createdAt" | "updatedAt" | "ownerId", ExtArgs["result"]["inventory"]>
 export type InventoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   tags?: boolean | Prisma.Inventory$tagsArgs<ExtArgs>
@@ -1496,6 +1728,10 @@ export type $InventoryPayload<ExtArgs extends runtime.Types.Extensions.InternalA
     category: $Enums.InventoryCategory
     imageUrl: string | null
     isPublic: boolean
+    fieldLimits: runtime.JsonValue | null
+    archivedAt: Date | null
+    nextSequence: number
+    allowFreeFormCustomIds: boolean
     version: number
     createdAt: Date
     updatedAt: Date
@@ -1936,6 +2172,10 @@ export interface InventoryFieldRefs {
   readonly category: Prisma.FieldRef<"Inventory", 'InventoryCategory'>
   readonly imageUrl: Prisma.FieldRef<"Inventory", 'String'>
   readonly isPublic: Prisma.FieldRef<"Inventory", 'Boolean'>
+  readonly fieldLimits: Prisma.FieldRef<"Inventory", 'Json'>
+  readonly archivedAt: Prisma.FieldRef<"Inventory", 'DateTime'>
+  readonly nextSequence: Prisma.FieldRef<"Inventory", 'Int'>
+  readonly allowFreeFormCustomIds: Prisma.FieldRef<"Inventory", 'Boolean'>
   readonly version: Prisma.FieldRef<"Inventory", 'Int'>
   readonly createdAt: Prisma.FieldRef<"Inventory", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Inventory", 'DateTime'>
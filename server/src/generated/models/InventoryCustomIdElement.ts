@@ -43,6 +43,11 @@ export type InventoryCustomIdElementMinAggregateOutputType = {
   orderIndex: number | null
   fixedText: string | null
   numberWidth: number | null
+  fieldId: string | null
+  upperCase: boolean | null
+  checkDigit: $Enums.CustomIdCheckDigit | null
+  dateFormat: string | null
+  timeZone: string | null
 }
 
 export type InventoryCustomIdElementMaxAggregateOutputType = {
@@ -52,6 +57,11 @@ export type InventoryCustomIdElementMaxAggregateOutputType = {
   orderIndex: number | null
   fixedText: string | null
   numberWidth: number | null
+  fieldId: string | null
+  upperCase: boolean | null
+  checkDigit: $Enums.CustomIdCheckDigit | null
+  dateFormat: string | null
+  timeZone: string | null
 }
 
 export type InventoryCustomIdElementCountAggregateOutputType = {
@@ -61,6 +71,11 @@ export type InventoryCustomIdElementCountAggregateOutputType = {
   orderIndex: number
   fixedText: number
   numberWidth: number
+  fieldId: number
+  upperCase: number
+  checkDigit: number
+  dateFormat: number
+  timeZone: number
   _all: number
 }
 
@@ -82,6 +97,11 @@ export type InventoryCustomIdElementMinAggregateInputType = {
   orderIndex?: true
   fixedText?: true
   numberWidth?: true
+  fieldId?: true
+  upperCase?: true
+  checkDigit?: true
+  dateFormat?: true
+  timeZone?: true
 }
 
 export type InventoryCustomIdElementMaxAggregateInputType = {
@@ -91,6 +111,11 @@ export type InventoryCustomIdElementMaxAggregateInputType = {
   orderIndex?: true
   fixedText?: true
   numberWidth?: true
+  fieldId?: true
+  upperCase?: true
+  checkDigit?: true
+  dateFormat?: true
+  timeZone?: true
 }
 
 export type InventoryCustomIdElementCountAggregateInputType = {
@@ -100,6 +125,11 @@ export type InventoryCustomIdElementCountAggregateInputType = {
   orderIndex?: true
   fixedText?: true
   numberWidth?: true
+  fieldId?: true
+  upperCase?: true
+  checkDigit?: true
+  dateFormat?: true
+  timeZone?: true
   _all?: true
 }
 
@@ -196,6 +226,11 @@ export type InventoryCustomIdElementGroupByOutputType = {
   orderIndex: number
   fixedText: string | null
   numberWidth: number | null
+  fieldId: string | null
+  upperCase: boolean
+  checkDigit: $Enums.CustomIdCheckDigit | null
+  dateFormat: string | null
+  timeZone: string | null
   _count: InventoryCustomIdElementCountAggregateOutputType | null
   _avg: InventoryCustomIdElementAvgAggregateOutputType | null
   _sum: InventoryCustomIdElementSumAggregateOutputType | null
@@ -228,7 +263,13 @@ export type InventoryCustomIdElementWhereInput = {
   orderIndex?: Prisma.IntFilter<"InventoryCustomIdElement"> | number
   fixedText?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
   numberWidth?: Prisma.IntNullableFilter<"InventoryCustomIdElement"> | number | null
+  fieldId?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+  upperCase?: Prisma.BoolFilter<"InventoryCustomIdElement"> | boolean
+  checkDigit?: Prisma.EnumCustomIdCheckDigitNullableFilter<"InventoryCustomIdElement"> | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+  timeZone?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
   inventory?: Prisma.XOR<Prisma.InventoryScalarRelationFilter, Prisma.InventoryWhereInput>
+  field?: Prisma.XOR<Prisma.InventoryFieldNullableScalarRelationFilter, Prisma.InventoryFieldWhereInput> | null
 }
 
 export type InventoryCustomIdElementOrderByWithRelationInput = {
@@ -238,7 +279,13 @@ export type InventoryCustomIdElementOrderByWithRelationInput = {
   orderIndex?: Prisma.SortOrder
   fixedText?: Prisma.SortOrderInput | Prisma.SortOrder
   numberWidth?: Prisma.SortOrderInput | Prisma.SortOrder
+  fieldId?: Prisma.SortOrderInput | Prisma.SortOrder
+  upperCase?: Prisma.SortOrder
+  checkDigit?: Prisma.SortOrderInput | Prisma.SortOrder
+  dateFormat?: Prisma.SortOrderInput | Prisma.SortOrder
+  timeZone?: Prisma.SortOrderInput | Prisma.SortOrder
   inventory?: Prisma.InventoryOrderByWithRelationInput
+  field?: Prisma.InventoryFieldOrderByWithRelationInput
 }
 
 export type InventoryCustomIdElementWhereUniqueInput = Prisma.AtLeast<{
@@ -251,7 +298,13 @@ export type InventoryCustomIdElementWhereUniqueInput = Prisma.AtLeast<{
   orderIndex?: Prisma.IntFilter<"InventoryCustomIdElement"> | number
   fixedText?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
   numberWidth?: Prisma.IntNullableFilter<"InventoryCustomIdElement"> | number | null
+  fieldId?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+  upperCase?: Prisma.BoolFilter<"InventoryCustomIdElement"> | boolean
+  checkDigit?: Prisma.EnumCustomIdCheckDigitNullableFilter<"InventoryCustomIdElement"> | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+  timeZone?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
   inventory?: Prisma.XOR<Prisma.InventoryScalarRelationFilter, Prisma.InventoryWhereInput>
+  field?: Prisma.XOR<Prisma.InventoryFieldNullableScalarRelationFilter, Prisma.InventoryFieldWhereInput> | null
 }, "id">
 
 export type InventoryCustomIdElementOrderByWithAggregationInput = {
@@ -261,6 +314,11 @@ export type InventoryCustomIdElementOrderByWithAggregationInput = {
   orderIndex?: Prisma.SortOrder
   fixedText?: Prisma.SortOrderInput | Prisma.SortOrder
   numberWidth?: Prisma.SortOrderInput | Prisma.SortOrder
+  fieldId?: Prisma.SortOrderInput | Prisma.SortOrder
+  upperCase?: Prisma.SortOrder
+  checkDigit?: Prisma.SortOrderInput | Prisma.SortOrder
+  dateFormat?: Prisma.SortOrderInput | Prisma.SortOrder
+  timeZone?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.InventoryCustomIdElementCountOrderByAggregateInput
   _avg?: Prisma.InventoryCustomIdElementAvgOrderByAggregateInput
   _max?: Prisma.InventoryCustomIdElementMaxOrderByAggregateInput
@@ -278,6 +336,11 @@ export type InventoryCustomIdElementScalarWhereWithAggregatesInput = {
   orderIndex?: Prisma.IntWithAggregatesFilter<"InventoryCustomIdElement"> | number
   fixedText?: Prisma.StringNullableWithAggregatesFilter<"InventoryCustomIdElement"> | string | null
   numberWidth?: Prisma.IntNullableWithAggregatesFilter<"InventoryCustomIdElement"> | number | null
+  fieldId?: Prisma.StringNullableWithAggregatesFilter<"InventoryCustomIdElement"> | string | null
+  upperCase?: Prisma.BoolWithAggregatesFilter<"InventoryCustomIdElement"> | boolean
+  checkDigit?: Prisma.EnumCustomIdCheckDigitNullableWithAggregatesFilter<"InventoryCustomIdElement"> | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.StringNullableWithAggregatesFilter<"InventoryCustomIdElement"> | string | null
+  timeZone?: Prisma.StringNullableWithAggregatesFilter<"InventoryCustomIdElement"> | string | null
 }
 
 export type InventoryCustomIdElementCreateInput = {
@@ -286,7 +349,12 @@ export type InventoryCustomIdElementCreateInput = {
   orderIndex: number
   fixedText?: string | null
   numberWidth?: number | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
   inventory: Prisma.InventoryCreateNestedOneWithoutCustomIdElementsInput
+  field?: Prisma.InventoryFieldCreateNestedOneWithoutCustomIdElementsInput
 }
 
 export type InventoryCustomIdElementUncheckedCreateInput = {
@@ -296,6 +364,11 @@ export type InventoryCustomIdElementUncheckedCreateInput = {
   orderIndex: number
   fixedText?: string | null
   numberWidth?: number | null
+  fieldId?: string | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
 }
 
 export type InventoryCustomIdElementUpdateInput = {
@@ -304,7 +377,12 @@ export type InventoryCustomIdElementUpdateInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutCustomIdElementsNestedInput
+  field?: Prisma.InventoryFieldUpdateOneWithoutCustomIdElementsNestedInput
 }
 
 export type InventoryCustomIdElementUncheckedUpdateInput = {
@@ -314,6 +392,11 @@ export type InventoryCustomIdElementUncheckedUpdateInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fieldId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type InventoryCustomIdElementCreateManyInput = {
@@ -323,6 +406,11 @@ export type InventoryCustomIdElementCreateManyInput = {
   orderIndex: number
   fixedText?: string | null
   numberWidth?: number | null
+  fieldId?: string | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
 }
 
 export type InventoryCustomIdElementUpdateManyMutationInput = {
@@ -331,6 +419,10 @@ export type InventoryCustomIdElementUpdateManyMutationInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type InventoryCustomIdElementUncheckedUpdateManyInput = {
@@ -340,6 +432,11 @@ export type InventoryCustomIdElementUncheckedUpdateManyInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fieldId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type InventoryCustomIdElementListRelationFilter = {
@@ -359,6 +456,11 @@ export type InventoryCustomIdElementCountOrderByAggregateInput = {
   orderIndex?: Prisma.SortOrder
   fixedText?: Prisma.SortOrder
   numberWidth?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  upperCase?: Prisma.SortOrder
+  checkDigit?: Prisma.SortOrder
+  dateFormat?: Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
 }
 
 export type InventoryCustomIdElementAvgOrderByAggregateInput = {
@@ -373,6 +475,11 @@ export type InventoryCustomIdElementMaxOrderByAggregateInput = {
   orderIndex?: Prisma.SortOrder
   fixedText?: Prisma.SortOrder
   numberWidth?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  upperCase?: Prisma.SortOrder
+  checkDigit?: Prisma.SortOrder
+  dateFormat?: Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
 }
 
 export type InventoryCustomIdElementMinOrderByAggregateInput = {
@@ -382,6 +489,11 @@ export type InventoryCustomIdElementMinOrderByAggregateInput = {
   orderIndex?: Prisma.SortOrder
   fixedText?: Prisma.SortOrder
   numberWidth?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  upperCase?: Prisma.SortOrder
+  checkDigit?: Prisma.SortOrder
+  dateFormat?: Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
 }
 
 export type InventoryCustomIdElementSumOrderByAggregateInput = {
@@ -431,16 +543,54 @@ export type InventoryCustomIdElementUncheckedUpdateManyWithoutInventoryNestedInp
   deleteMany?: Prisma.InventoryCustomIdElementScalarWhereInput | Prisma.InventoryCustomIdElementScalarWhereInput[]
 }
 
+export type InventoryCustomIdElementCreateNestedManyWithoutFieldInput = {
+  create?: Prisma.XOR<Prisma.InventoryCustomIdElementCreateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput> | Prisma.InventoryCustomIdElementCreateWithoutFieldInput[] | Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput | Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput[]
+  createMany?: Prisma.InventoryCustomIdElementCreateManyFieldInputEnvelope
+  connect?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+}
+
+export type InventoryCustomIdElementUncheckedCreateNestedManyWithoutFieldInput = {
+  create?: Prisma.XOR<Prisma.InventoryCustomIdElementCreateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput> | Prisma.InventoryCustomIdElementCreateWithoutFieldInput[] | Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput | Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput[]
+  createMany?: Prisma.InventoryCustomIdElementCreateManyFieldInputEnvelope
+  connect?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+}
+
+export type InventoryCustomIdElementUpdateManyWithoutFieldNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryCustomIdElementCreateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput> | Prisma.InventoryCustomIdElementCreateWithoutFieldInput[] | Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput | Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput[]
+  upsert?: Prisma.InventoryCustomIdElementUpsertWithWhereUniqueWithoutFieldInput | Prisma.InventoryCustomIdElementUpsertWithWhereUniqueWithoutFieldInput[]
+  createMany?: Prisma.InventoryCustomIdElementCreateManyFieldInputEnvelope
+  set?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  delete?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  connect?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  update?: Prisma.InventoryCustomIdElementUpdateWithWhereUniqueWithoutFieldInput | Prisma.InventoryCustomIdElementUpdateWithWhereUniqueWithoutFieldInput[]
+  updateMany?: Prisma.InventoryCustomIdElementUpdateManyWithWhereWithoutFieldInput | Prisma.InventoryCustomIdElementUpdateManyWithWhereWithoutFieldInput[]
+  deleteMany?: Prisma.InventoryCustomIdElementScalarWhereInput | Prisma.InventoryCustomIdElementScalarWhereInput[]
+}
+
+export type InventoryCustomIdElementUncheckedUpdateManyWithoutFieldNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryCustomIdElementCreateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput> | Prisma.InventoryCustomIdElementCreateWithoutFieldInput[] | Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput | Prisma.InventoryCustomIdElementCreateOrConnectWithoutFieldInput[]
+  upsert?: Prisma.InventoryCustomIdElementUpsertWithWhereUniqueWithoutFieldInput | Prisma.InventoryCustomIdElementUpsertWithWhereUniqueWithoutFieldInput[]
+  createMany?: Prisma.InventoryCustomIdElementCreateManyFieldInputEnvelope
+  set?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  delete?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  connect?: Prisma.InventoryCustomIdElementWhereUniqueInput | Prisma.InventoryCustomIdElementWhereUniqueInput[]
+  update?: Prisma.InventoryCustomIdElementUpdateWithWhereUniqueWithoutFieldInput | Prisma.InventoryCustomIdElementUpdateWithWhereUniqueWithoutFieldInput[]
+  updateMany?: Prisma.InventoryCustomIdElementUpdateManyWithWhereWithoutFieldInput | Prisma.InventoryCustomIdElementUpdateManyWithWhereWithoutFieldInput[]
+  deleteMany?: Prisma.InventoryCustomIdElementScalarWhereInput | Prisma.InventoryCustomIdElementScalarWhereInput[]
+}
+
 export type EnumCustomIdElementTypeFieldUpdateOperationsInput = {
   set?: $Enums.CustomIdElementType
 }
 
-export type NullableIntFieldUpdateOperationsInput = {
-  set?: number | null
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
+export type NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput = {
+  set?: $Enums.CustomIdCheckDigit | null
 }
 
 export type InventoryCustomIdElementCreateWithoutInventoryInput = {
@@ -449,6 +599,11 @@ export type InventoryCustomIdElementCreateWithoutInventoryInput = {
   orderIndex: number
   fixedText?: string | null
   numberWidth?: number | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
+  field?: Prisma.InventoryFieldCreateNestedOneWithoutCustomIdElementsInput
 }
 
 export type InventoryCustomIdElementUncheckedCreateWithoutInventoryInput = {
@@ -457,6 +612,11 @@ export type InventoryCustomIdElementUncheckedCreateWithoutInventoryInput = {
   orderIndex: number
   fixedText?: string | null
   numberWidth?: number | null
+  fieldId?: string | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
 }
 
 export type InventoryCustomIdElementCreateOrConnectWithoutInventoryInput = {
@@ -495,6 +655,63 @@ export type InventoryCustomIdElementScalarWhereInput = {
   orderIndex?: Prisma.IntFilter<"InventoryCustomIdElement"> | number
   fixedText?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
   numberWidth?: Prisma.IntNullableFilter<"InventoryCustomIdElement"> | number | null
+  fieldId?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+  upperCase?: Prisma.BoolFilter<"InventoryCustomIdElement"> | boolean
+  checkDigit?: Prisma.EnumCustomIdCheckDigitNullableFilter<"InventoryCustomIdElement"> | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+  timeZone?: Prisma.StringNullableFilter<"InventoryCustomIdElement"> | string | null
+}
+
+export type InventoryCustomIdElementCreateWithoutFieldInput = {
+  id?: string
+  type: $Enums.CustomIdElementType
+  orderIndex: number
+  fixedText?: string | null
+  numberWidth?: number | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
+  inventory: Prisma.InventoryCreateNestedOneWithoutCustomIdElementsInput
+}
+
+export type InventoryCustomIdElementUncheckedCreateWithoutFieldInput = {
+  id?: string
+  inventoryId: string
+  type: $Enums.CustomIdElementType
+  orderIndex: number
+  fixedText?: string | null
+  numberWidth?: number | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
+}
+
+export type InventoryCustomIdElementCreateOrConnectWithoutFieldInput = {
+  where: Prisma.InventoryCustomIdElementWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryCustomIdElementCreateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput>
+}
+
+export type InventoryCustomIdElementCreateManyFieldInputEnvelope = {
+  data: Prisma.InventoryCustomIdElementCreateManyFieldInput | Prisma.InventoryCustomIdElementCreateManyFieldInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryCustomIdElementUpsertWithWhereUniqueWithoutFieldInput = {
+  where: Prisma.InventoryCustomIdElementWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryCustomIdElementUpdateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedUpdateWithoutFieldInput>
+  create: Prisma.XOR<Prisma.InventoryCustomIdElementCreateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedCreateWithoutFieldInput>
+}
+
+export type InventoryCustomIdElementUpdateWithWhereUniqueWithoutFieldInput = {
+  where: Prisma.InventoryCustomIdElementWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryCustomIdElementUpdateWithoutFieldInput, Prisma.InventoryCustomIdElementUncheckedUpdateWithoutFieldInput>
+}
+
+export type InventoryCustomIdElementUpdateManyWithWhereWithoutFieldInput = {
+  where: Prisma.InventoryCustomIdElementScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryCustomIdElementUpdateManyMutationInput, Prisma.InventoryCustomIdElementUncheckedUpdateManyWithoutFieldInput>
 }
 
 export type InventoryCustomIdElementCreateManyInventoryInput = {
@@ -503,6 +720,11 @@ export type InventoryCustomIdElementCreateManyInventoryInput = {
   orderIndex: number
   fixedText?: string | null
   numberWidth?: number | null
+  fieldId?: string | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
 }
 
 export type InventoryCustomIdElementUpdateWithoutInventoryInput = {
@@ -511,6 +733,11 @@ export type InventoryCustomIdElementUpdateWithoutInventoryInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  field?: Prisma.InventoryFieldUpdateOneWithoutCustomIdElementsNestedInput
 }
 
 export type InventoryCustomIdElementUncheckedUpdateWithoutInventoryInput = {
@@ -519,6 +746,11 @@ export type InventoryCustomIdElementUncheckedUpdateWithoutInventoryInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fieldId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type InventoryCustomIdElementUncheckedUpdateManyWithoutInventoryInput = {
@@ -527,6 +759,63 @@ export type InventoryCustomIdElementUncheckedUpdateManyWithoutInventoryInput = {
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
   fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fieldId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type InventoryCustomIdElementCreateManyFieldInput = {
+  id?: string
+  inventoryId: string
+  type: $Enums.CustomIdElementType
+  orderIndex: number
+  fixedText?: string | null
+  numberWidth?: number | null
+  upperCase?: boolean
+  checkDigit?: $Enums.CustomIdCheckDigit | null
+  dateFormat?: string | null
+  timeZone?: string | null
+}
+
+export type InventoryCustomIdElementUpdateWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumCustomIdElementTypeFieldUpdateOperationsInput | $Enums.CustomIdElementType
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutCustomIdElementsNestedInput
+}
+
+export type InventoryCustomIdElementUncheckedUpdateWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumCustomIdElementTypeFieldUpdateOperationsInput | $Enums.CustomIdElementType
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type InventoryCustomIdElementUncheckedUpdateManyWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumCustomIdElementTypeFieldUpdateOperationsInput | $Enums.CustomIdElementType
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  fixedText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  numberWidth?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upperCase?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  checkDigit?: Prisma.NullableEnumCustomIdCheckDigitFieldUpdateOperationsInput | $Enums.CustomIdCheckDigit | null
+  dateFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 
@@ -538,7 +827,13 @@ export type InventoryCustomIdElementSelect<ExtArgs extends runtime.Types.Extensi
   orderIndex?: boolean
   fixedText?: boolean
   numberWidth?: boolean
+  fieldId?: boolean
+  upperCase?: boolean
+  checkDigit?: boolean
+  dateFormat?: boolean
+  timeZone?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryCustomIdElement"]>
 
 export type InventoryCustomIdElementSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -548,7 +843,13 @@ export type InventoryCustomIdElementSelectCreateManyAndReturn<ExtArgs extends ru
   orderIndex?: boolean
   fixedText?: boolean
   numberWidth?: boolean
+  fieldId?: boolean
+  upperCase?: boolean
+  checkDigit?: boolean
+  dateFormat?: boolean
+  timeZone?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryCustomIdElement"]>
 
 export type InventoryCustomIdElementSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -558,7 +859,13 @@ export type InventoryCustomIdElementSelectUpdateManyAndReturn<ExtArgs extends ru
   orderIndex?: boolean
   fixedText?: boolean
   numberWidth?: boolean
+  fieldId?: boolean
+  upperCase?: boolean
+  checkDigit?: boolean
+  dateFormat?: boolean
+  timeZone?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryCustomIdElement"]>
 
 export type InventoryCustomIdElementSelectScalar = {
@@ -568,23 +875,32 @@ export type InventoryCustomIdElementSelectScalar = {
   orderIndex?: boolean
   fixedText?: boolean
   numberWidth?: boolean
+  fieldId?: boolean
+  upperCase?: boolean
+  checkDigit?: boolean
+  dateFormat?: boolean
+  timeZone?: boolean
 }
 
-export type InventoryCustomIdElementOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "inventoryId" | "type" | "orderIndex" | "fixedText" | "numberWidth", ExtArgs["result"]["inventoryCustomIdElement"]>
+export type InventoryCustomIdElementOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "inventoryId" | "type" | "orderIndex" | "fixedText" | "numberWidth" | "fieldId" | "upperCase" | "checkDigit" | "dateFormat" | "timeZone", ExtArgs["result"]["inventoryCustomIdElement"]>
 export type InventoryCustomIdElementInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>
 }
 export type InventoryCustomIdElementIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>
 }
 export type InventoryCustomIdElementIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>
 }
 
 export type $InventoryCustomIdElementPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "InventoryCustomIdElement"
   objects: {
     inventory: Prisma.$InventoryPayload<ExtArgs>
+    field: Prisma.$InventoryFieldPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -593,6 +909,11 @@ export type $InventoryCustomIdElementPayload<ExtArgs extends runtime.Types.Exten
     orderIndex: number
     fixedText: string | null
     numberWidth: number | null
+    fieldId: string | null
+    upperCase: boolean
+    checkDigit: $Enums.CustomIdCheckDigit | null
+    dateFormat: string | null
+    timeZone: string | null
   }, ExtArgs["result"]["inventoryCustomIdElement"]>
   composites: {}
 }
@@ -988,6 +1309,7 @@ readonly fields: InventoryCustomIdElementFieldRefs;
 export interface Prisma__InventoryCustomIdElementClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   inventory<T extends Prisma.InventoryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDefaultArgs<ExtArgs>>): Prisma.Prisma__InventoryClient<runtime.Types.Result.GetResult<Prisma.$InventoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  field<T extends Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryCustomIdElement$fieldArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1023,6 +1345,11 @@ export interface InventoryCustomIdElementFieldRefs {
   readonly orderIndex: Prisma.FieldRef<"InventoryCustomIdElement", 'Int'>
   readonly fixedText: Prisma.FieldRef<"InventoryCustomIdElement", 'String'>
   readonly numberWidth: Prisma.FieldRef<"InventoryCustomIdElement", 'Int'>
+  readonly fieldId: Prisma.FieldRef<"InventoryCustomIdElement", 'String'>
+  readonly upperCase: Prisma.FieldRef<"InventoryCustomIdElement", 'Boolean'>
+  readonly checkDigit: Prisma.FieldRef<"InventoryCustomIdElement", 'CustomIdCheckDigit'>
+  readonly dateFormat: Prisma.FieldRef<"InventoryCustomIdElement", 'String'>
+  readonly timeZone: Prisma.FieldRef<"InventoryCustomIdElement", 'String'>
 }
     
 
@@ -1418,6 +1745,25 @@ export type InventoryCustomIdElementDeleteManyArgs<ExtArgs extends runtime.Types
   limit?: number
 }
 
+/**
+ * InventoryCustomIdElement.field
+ */
+export type InventoryCustomIdElement$fieldArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryField
+   */
+  select?: Prisma.InventoryFieldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryField
+   */
+  omit?: Prisma.InventoryFieldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldInclude<ExtArgs> | null
+  where?: Prisma.InventoryFieldWhereInput
+}
+
 /**
  * InventoryCustomIdElement without action
  */
@@ -28,10 +28,16 @@ export type AggregateInventoryField = {
 
 export type InventoryFieldAvgAggregateOutputType = {
   orderIndex: number | null
+  minValue: number | null
+  maxValue: number | null
+  maxLength: number | null
 }
 
 export type InventoryFieldSumAggregateOutputType = {
   orderIndex: number | null
+  minValue: number | null
+  maxValue: number | null
+  maxLength: number | null
 }
 
 export type InventoryFieldMinAggregateOutputType = {
@@ -42,6 +48,11 @@ export type InventoryFieldMinAggregateOutputType = {
   description: string | null
   showInTable: boolean | null
   orderIndex: number | null
+  required: boolean | null
+  minValue: number | null
+  maxValue: number | null
+  maxLength: number | null
+  pattern: string | null
 }
 
 export type InventoryFieldMaxAggregateOutputType = {
@@ -52,6 +63,11 @@ export type InventoryFieldMaxAggregateOutputType = {
   description: string | null
   showInTable: boolean | null
   orderIndex: number | null
+  required: boolean | null
+  minValue: number | null
+  maxValue: number | null
+  maxLength: number | null
+  pattern: string | null
 }
 
 export type InventoryFieldCountAggregateOutputType = {
@@ -62,16 +78,28 @@ export type InventoryFieldCountAggregateOutputType = {
   description: number
   showInTable: number
   orderIndex: number
+  required: number
+  minValue: number
+  maxValue: number
+  maxLength: number
+  pattern: number
+  allowedSchemes: number
   _all: number
 }
 
 
 export type InventoryFieldAvgAggregateInputType = {
   orderIndex?: true
+  minValue?: true
+  maxValue?: true
+  maxLength?: true
 }
 
 export type InventoryFieldSumAggregateInputType = {
   orderIndex?: true
+  minValue?: true
+  maxValue?: true
+  maxLength?: true
 }
 
 export type InventoryFieldMinAggregateInputType = {
@@ -82,6 +110,11 @@ export type InventoryFieldMinAggregateInputType = {
   description?: true
   showInTable?: true
   orderIndex?: true
+  required?: true
+  minValue?: true
+  maxValue?: true
+  maxLength?: true
+  pattern?: true
 }
 
 export type InventoryFieldMaxAggregateInputType = {
@@ -92,6 +125,11 @@ export type InventoryFieldMaxAggregateInputType = {
   description?: true
   showInTable?: true
   orderIndex?: true
+  required?: true
+  minValue?: true
+  maxValue?: true
+  maxLength?: true
+  pattern?: true
 }
 
 export type InventoryFieldCountAggregateInputType = {
@@ -102,6 +140,12 @@ export type InventoryFieldCountAggregateInputType = {
   description?: true
   showInTable?: true
   orderIndex?: true
+  required?: true
+  minValue?: true
+  maxValue?: true
+  maxLength?: true
+  pattern?: true
+  allowedSchemes?: true
   _all?: true
 }
 
@@ -199,6 +243,12 @@ export type InventoryFieldGroupByOutputType = {
   description: string | null
   showInTable: boolean
   orderIndex: number
+  required: boolean
+  minValue: number | null
+  maxValue: number | null
+  maxLength: number | null
+  pattern: string | null
+  allowedSchemes: string[]
   _count: InventoryFieldCountAggregateOutputType | null
   _avg: InventoryFieldAvgAggregateOutputType | null
   _sum: InventoryFieldSumAggregateOutputType | null
@@ -232,8 +282,17 @@ export type InventoryFieldWhereInput = {
   description?: Prisma.StringNullableFilter<"InventoryField"> | string | null
   showInTable?: Prisma.BoolFilter<"InventoryField"> | boolean
   orderIndex?: Prisma.IntFilter<"InventoryField"> | number
+  required?: Prisma.BoolFilter<"InventoryField"> | boolean
+  minValue?: Prisma.FloatNullableFilter<"InventoryField"> | number | null
+  maxValue?: Prisma.FloatNullableFilter<"InventoryField"> | number | null
+  maxLength?: Prisma.IntNullableFilter<"InventoryField"> | number | null
+  pattern?: Prisma.StringNullableFilter<"InventoryField"> | string | null
+  allowedSchemes?: Prisma.StringNullableListFilter<"InventoryField">
   inventory?: Prisma.XOR<Prisma.InventoryScalarRelationFilter, Prisma.InventoryWhereInput>
   values?: Prisma.ItemFieldValueListRelationFilter
+  options?: Prisma.InventoryFieldOptionListRelationFilter
+  attachments?: Prisma.ItemAttachmentListRelationFilter
+  customIdElements?: Prisma.InventoryCustomIdElementListRelationFilter
 }
 
 export type InventoryFieldOrderByWithRelationInput = {
@@ -244,8 +303,17 @@ export type InventoryFieldOrderByWithRelationInput = {
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   showInTable?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  required?: Prisma.SortOrder
+  minValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxLength?: Prisma.SortOrderInput | Prisma.SortOrder
+  pattern?: Prisma.SortOrderInput | Prisma.SortOrder
+  allowedSchemes?: Prisma.SortOrder
   inventory?: Prisma.InventoryOrderByWithRelationInput
   values?: Prisma.ItemFieldValueOrderByRelationAggregateInput
+  options?: Prisma.InventoryFieldOptionOrderByRelationAggregateInput
+  attachments?: Prisma.ItemAttachmentOrderByRelationAggregateInput
+  customIdElements?: Prisma.InventoryCustomIdElementOrderByRelationAggregateInput
 }
 
 export type InventoryFieldWhereUniqueInput = Prisma.AtLeast<{
@@ -259,8 +327,17 @@ export type InventoryFieldWhereUniqueInput = Prisma.AtLeast<{
   description?: Prisma.StringNullableFilter<"InventoryField"> | string | null
   showInTable?: Prisma.BoolFilter<"InventoryField"> | boolean
   orderIndex?: Prisma.IntFilter<"InventoryField"> | number
+  required?: Prisma.BoolFilter<"InventoryField"> | boolean
+  minValue?: Prisma.FloatNullableFilter<"InventoryField"> | number | null
+  maxValue?: Prisma.FloatNullableFilter<"InventoryField"> | number | null
+  maxLength?: Prisma.IntNullableFilter<"InventoryField"> | number | null
+  pattern?: Prisma.StringNullableFilter<"InventoryField"> | string | null
+  allowedSchemes?: Prisma.StringNullableListFilter<"InventoryField">
   inventory?: Prisma.XOR<Prisma.InventoryScalarRelationFilter, Prisma.InventoryWhereInput>
   values?: Prisma.ItemFieldValueListRelationFilter
+  options?: Prisma.InventoryFieldOptionListRelationFilter
+  attachments?: Prisma.ItemAttachmentListRelationFilter
+  customIdElements?: Prisma.InventoryCustomIdElementListRelationFilter
 }, "id">
 
 export type InventoryFieldOrderByWithAggregationInput = {
@@ -271,6 +348,12 @@ export type InventoryFieldOrderByWithAggregationInput = {
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   showInTable?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  required?: Prisma.SortOrder
+  minValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxLength?: Prisma.SortOrderInput | Prisma.SortOrder
+  pattern?: Prisma.SortOrderInput | Prisma.SortOrder
+  allowedSchemes?: Prisma.SortOrder
   _count?: Prisma.InventoryFieldCountOrderByAggregateInput
   _avg?: Prisma.InventoryFieldAvgOrderByAggregateInput
   _max?: Prisma.InventoryFieldMaxOrderByAggregateInput
@@ -289,6 +372,12 @@ export type InventoryFieldScalarWhereWithAggregatesInput = {
   description?: Prisma.StringNullableWithAggregatesFilter<"InventoryField"> | string | null
   showInTable?: Prisma.BoolWithAggregatesFilter<"InventoryField"> | boolean
   orderIndex?: Prisma.IntWithAggregatesFilter<"InventoryField"> | number
+  required?: Prisma.BoolWithAggregatesFilter<"InventoryField"> | boolean
+  minValue?: Prisma.FloatNullableWithAggregatesFilter<"InventoryField"> | number | null
+  maxValue?: Prisma.FloatNullableWithAggregatesFilter<"InventoryField"> | number | null
+  maxLength?: Prisma.IntNullableWithAggregatesFilter<"InventoryField"> | number | null
+  pattern?: Prisma.StringNullableWithAggregatesFilter<"InventoryField"> | string | null
+  allowedSchemes?: Prisma.StringNullableListFilter<"InventoryField">
 }
 
 export type InventoryFieldCreateInput = {
@@ -298,8 +387,17 @@ export type InventoryFieldCreateInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
   inventory: Prisma.InventoryCreateNestedOneWithoutFieldsInput
   values?: Prisma.ItemFieldValueCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementCreateNestedManyWithoutFieldInput
 }
 
 export type InventoryFieldUncheckedCreateInput = {
@@ -310,7 +408,16 @@ export type InventoryFieldUncheckedCreateInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
   values?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionUncheckedCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedCreateNestedManyWithoutFieldInput
 }
 
 export type InventoryFieldUpdateInput = {
@@ -320,8 +427,17 @@ export type InventoryFieldUpdateInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutFieldsNestedInput
   values?: Prisma.ItemFieldValueUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldUncheckedUpdateInput = {
@@ -332,7 +448,16 @@ export type InventoryFieldUncheckedUpdateInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
   values?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUncheckedUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldCreateManyInput = {
@@ -343,6 +468,12 @@ export type InventoryFieldCreateManyInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
 }
 
 export type InventoryFieldUpdateManyMutationInput = {
@@ -352,6 +483,12 @@ export type InventoryFieldUpdateManyMutationInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
 }
 
 export type InventoryFieldUncheckedUpdateManyInput = {
@@ -362,6 +499,12 @@ export type InventoryFieldUncheckedUpdateManyInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
 }
 
 export type InventoryFieldListRelationFilter = {
@@ -374,6 +517,14 @@ export type InventoryFieldOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
 export type InventoryFieldCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   inventoryId?: Prisma.SortOrder
@@ -382,10 +533,19 @@ export type InventoryFieldCountOrderByAggregateInput = {
   description?: Prisma.SortOrder
   showInTable?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  required?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  maxLength?: Prisma.SortOrder
+  pattern?: Prisma.SortOrder
+  allowedSchemes?: Prisma.SortOrder
 }
 
 export type InventoryFieldAvgOrderByAggregateInput = {
   orderIndex?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  maxLength?: Prisma.SortOrder
 }
 
 export type InventoryFieldMaxOrderByAggregateInput = {
@@ -396,6 +556,11 @@ export type InventoryFieldMaxOrderByAggregateInput = {
   description?: Prisma.SortOrder
   showInTable?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  required?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  maxLength?: Prisma.SortOrder
+  pattern?: Prisma.SortOrder
 }
 
 export type InventoryFieldMinOrderByAggregateInput = {
@@ -406,10 +571,18 @@ export type InventoryFieldMinOrderByAggregateInput = {
   description?: Prisma.SortOrder
   showInTable?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  required?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  maxLength?: Prisma.SortOrder
+  pattern?: Prisma.SortOrder
 }
 
 export type InventoryFieldSumOrderByAggregateInput = {
   orderIndex?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  maxLength?: Prisma.SortOrder
 }
 
 export type InventoryFieldScalarRelationFilter = {
@@ -417,6 +590,11 @@ export type InventoryFieldScalarRelationFilter = {
   isNot?: Prisma.InventoryFieldWhereInput
 }
 
+export type InventoryFieldNullableScalarRelationFilter = {
+  is?: Prisma.InventoryFieldWhereInput | null
+  isNot?: Prisma.InventoryFieldWhereInput | null
+}
+
 export type InventoryFieldCreateNestedManyWithoutInventoryInput = {
   create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutInventoryInput, Prisma.InventoryFieldUncheckedCreateWithoutInventoryInput> | Prisma.InventoryFieldCreateWithoutInventoryInput[] | Prisma.InventoryFieldUncheckedCreateWithoutInventoryInput[]
   connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutInventoryInput | Prisma.InventoryFieldCreateOrConnectWithoutInventoryInput[]
@@ -459,10 +637,49 @@ export type InventoryFieldUncheckedUpdateManyWithoutInventoryNestedInput = {
   deleteMany?: Prisma.InventoryFieldScalarWhereInput | Prisma.InventoryFieldScalarWhereInput[]
 }
 
+export type InventoryFieldCreateallowedSchemesInput = {
+  set: string[]
+}
+
 export type EnumInventoryFieldTypeFieldUpdateOperationsInput = {
   set?: $Enums.InventoryFieldType
 }
 
+export type NullableFloatFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type InventoryFieldUpdateallowedSchemesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type InventoryFieldCreateNestedOneWithoutOptionsInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutOptionsInput, Prisma.InventoryFieldUncheckedCreateWithoutOptionsInput>
+  connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutOptionsInput
+  connect?: Prisma.InventoryFieldWhereUniqueInput
+}
+
+export type InventoryFieldUpdateOneRequiredWithoutOptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutOptionsInput, Prisma.InventoryFieldUncheckedCreateWithoutOptionsInput>
+  connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutOptionsInput
+  upsert?: Prisma.InventoryFieldUpsertWithoutOptionsInput
+  connect?: Prisma.InventoryFieldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryFieldUpdateToOneWithWhereWithoutOptionsInput, Prisma.InventoryFieldUpdateWithoutOptionsInput>, Prisma.InventoryFieldUncheckedUpdateWithoutOptionsInput>
+}
+
 export type InventoryFieldCreateNestedOneWithoutValuesInput = {
   create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutValuesInput, Prisma.InventoryFieldUncheckedCreateWithoutValuesInput>
   connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutValuesInput
@@ -477,6 +694,36 @@ export type InventoryFieldUpdateOneRequiredWithoutValuesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryFieldUpdateToOneWithWhereWithoutValuesInput, Prisma.InventoryFieldUpdateWithoutValuesInput>, Prisma.InventoryFieldUncheckedUpdateWithoutValuesInput>
 }
 
+export type InventoryFieldCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutAttachmentsInput, Prisma.InventoryFieldUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.InventoryFieldWhereUniqueInput
+}
+
+export type InventoryFieldUpdateOneRequiredWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutAttachmentsInput, Prisma.InventoryFieldUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.InventoryFieldUpsertWithoutAttachmentsInput
+  connect?: Prisma.InventoryFieldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryFieldUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.InventoryFieldUpdateWithoutAttachmentsInput>, Prisma.InventoryFieldUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type InventoryFieldCreateNestedOneWithoutCustomIdElementsInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutCustomIdElementsInput, Prisma.InventoryFieldUncheckedCreateWithoutCustomIdElementsInput>
+  connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutCustomIdElementsInput
+  connect?: Prisma.InventoryFieldWhereUniqueInput
+}
+
+export type InventoryFieldUpdateOneWithoutCustomIdElementsNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldCreateWithoutCustomIdElementsInput, Prisma.InventoryFieldUncheckedCreateWithoutCustomIdElementsInput>
+  connectOrCreate?: Prisma.InventoryFieldCreateOrConnectWithoutCustomIdElementsInput
+  upsert?: Prisma.InventoryFieldUpsertWithoutCustomIdElementsInput
+  disconnect?: Prisma.InventoryFieldWhereInput | boolean
+  delete?: Prisma.InventoryFieldWhereInput | boolean
+  connect?: Prisma.InventoryFieldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryFieldUpdateToOneWithWhereWithoutCustomIdElementsInput, Prisma.InventoryFieldUpdateWithoutCustomIdElementsInput>, Prisma.InventoryFieldUncheckedUpdateWithoutCustomIdElementsInput>
+}
+
 export type InventoryFieldCreateWithoutInventoryInput = {
   id?: string
   type: $Enums.InventoryFieldType
@@ -484,7 +731,16 @@ export type InventoryFieldCreateWithoutInventoryInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
   values?: Prisma.ItemFieldValueCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementCreateNestedManyWithoutFieldInput
 }
 
 export type InventoryFieldUncheckedCreateWithoutInventoryInput = {
@@ -494,7 +750,16 @@ export type InventoryFieldUncheckedCreateWithoutInventoryInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
   values?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionUncheckedCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedCreateNestedManyWithoutFieldInput
 }
 
 export type InventoryFieldCreateOrConnectWithoutInventoryInput = {
@@ -534,6 +799,104 @@ export type InventoryFieldScalarWhereInput = {
   description?: Prisma.StringNullableFilter<"InventoryField"> | string | null
   showInTable?: Prisma.BoolFilter<"InventoryField"> | boolean
   orderIndex?: Prisma.IntFilter<"InventoryField"> | number
+  required?: Prisma.BoolFilter<"InventoryField"> | boolean
+  minValue?: Prisma.FloatNullableFilter<"InventoryField"> | number | null
+  maxValue?: Prisma.FloatNullableFilter<"InventoryField"> | number | null
+  maxLength?: Prisma.IntNullableFilter<"InventoryField"> | number | null
+  pattern?: Prisma.StringNullableFilter<"InventoryField"> | string | null
+  allowedSchemes?: Prisma.StringNullableListFilter<"InventoryField">
+}
+
+export type InventoryFieldCreateWithoutOptionsInput = {
+  id?: string
+  type: $Enums.InventoryFieldType
+  title: string
+  description?: string | null
+  showInTable?: boolean
+  orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  inventory: Prisma.InventoryCreateNestedOneWithoutFieldsInput
+  values?: Prisma.ItemFieldValueCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementCreateNestedManyWithoutFieldInput
+}
+
+export type InventoryFieldUncheckedCreateWithoutOptionsInput = {
+  id?: string
+  inventoryId: string
+  type: $Enums.InventoryFieldType
+  title: string
+  description?: string | null
+  showInTable?: boolean
+  orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  values?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedCreateNestedManyWithoutFieldInput
+}
+
+export type InventoryFieldCreateOrConnectWithoutOptionsInput = {
+  where: Prisma.InventoryFieldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryFieldCreateWithoutOptionsInput, Prisma.InventoryFieldUncheckedCreateWithoutOptionsInput>
+}
+
+export type InventoryFieldUpsertWithoutOptionsInput = {
+  update: Prisma.XOR<Prisma.InventoryFieldUpdateWithoutOptionsInput, Prisma.InventoryFieldUncheckedUpdateWithoutOptionsInput>
+  create: Prisma.XOR<Prisma.InventoryFieldCreateWithoutOptionsInput, Prisma.InventoryFieldUncheckedCreateWithoutOptionsInput>
+  where?: Prisma.InventoryFieldWhereInput
+}
+
+export type InventoryFieldUpdateToOneWithWhereWithoutOptionsInput = {
+  where?: Prisma.InventoryFieldWhereInput
+  data: Prisma.XOR<Prisma.InventoryFieldUpdateWithoutOptionsInput, Prisma.InventoryFieldUncheckedUpdateWithoutOptionsInput>
+}
+
+export type InventoryFieldUpdateWithoutOptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumInventoryFieldTypeFieldUpdateOperationsInput | $Enums.InventoryFieldType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutFieldsNestedInput
+  values?: Prisma.ItemFieldValueUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUpdateManyWithoutFieldNestedInput
+}
+
+export type InventoryFieldUncheckedUpdateWithoutOptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumInventoryFieldTypeFieldUpdateOperationsInput | $Enums.InventoryFieldType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  values?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldCreateWithoutValuesInput = {
@@ -543,7 +906,16 @@ export type InventoryFieldCreateWithoutValuesInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
   inventory: Prisma.InventoryCreateNestedOneWithoutFieldsInput
+  options?: Prisma.InventoryFieldOptionCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementCreateNestedManyWithoutFieldInput
 }
 
 export type InventoryFieldUncheckedCreateWithoutValuesInput = {
@@ -554,6 +926,15 @@ export type InventoryFieldUncheckedCreateWithoutValuesInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  options?: Prisma.InventoryFieldOptionUncheckedCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedCreateNestedManyWithoutFieldInput
 }
 
 export type InventoryFieldCreateOrConnectWithoutValuesInput = {
@@ -579,7 +960,16 @@ export type InventoryFieldUpdateWithoutValuesInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutFieldsNestedInput
+  options?: Prisma.InventoryFieldOptionUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldUncheckedUpdateWithoutValuesInput = {
@@ -590,6 +980,199 @@ export type InventoryFieldUncheckedUpdateWithoutValuesInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  options?: Prisma.InventoryFieldOptionUncheckedUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedUpdateManyWithoutFieldNestedInput
+}
+
+export type InventoryFieldCreateWithoutAttachmentsInput = {
+  id?: string
+  type: $Enums.InventoryFieldType
+  title: string
+  description?: string | null
+  showInTable?: boolean
+  orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  inventory: Prisma.InventoryCreateNestedOneWithoutFieldsInput
+  values?: Prisma.ItemFieldValueCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementCreateNestedManyWithoutFieldInput
+}
+
+export type InventoryFieldUncheckedCreateWithoutAttachmentsInput = {
+  id?: string
+  inventoryId: string
+  type: $Enums.InventoryFieldType
+  title: string
+  description?: string | null
+  showInTable?: boolean
+  orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  values?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionUncheckedCreateNestedManyWithoutFieldInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedCreateNestedManyWithoutFieldInput
+}
+
+export type InventoryFieldCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.InventoryFieldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryFieldCreateWithoutAttachmentsInput, Prisma.InventoryFieldUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type InventoryFieldUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.InventoryFieldUpdateWithoutAttachmentsInput, Prisma.InventoryFieldUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.InventoryFieldCreateWithoutAttachmentsInput, Prisma.InventoryFieldUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.InventoryFieldWhereInput
+}
+
+export type InventoryFieldUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.InventoryFieldWhereInput
+  data: Prisma.XOR<Prisma.InventoryFieldUpdateWithoutAttachmentsInput, Prisma.InventoryFieldUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type InventoryFieldUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumInventoryFieldTypeFieldUpdateOperationsInput | $Enums.InventoryFieldType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutFieldsNestedInput
+  values?: Prisma.ItemFieldValueUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUpdateManyWithoutFieldNestedInput
+}
+
+export type InventoryFieldUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumInventoryFieldTypeFieldUpdateOperationsInput | $Enums.InventoryFieldType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  values?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUncheckedUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedUpdateManyWithoutFieldNestedInput
+}
+
+export type InventoryFieldCreateWithoutCustomIdElementsInput = {
+  id?: string
+  type: $Enums.InventoryFieldType
+  title: string
+  description?: string | null
+  showInTable?: boolean
+  orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  inventory: Prisma.InventoryCreateNestedOneWithoutFieldsInput
+  values?: Prisma.ItemFieldValueCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutFieldInput
+}
+
+export type InventoryFieldUncheckedCreateWithoutCustomIdElementsInput = {
+  id?: string
+  inventoryId: string
+  type: $Enums.InventoryFieldType
+  title: string
+  description?: string | null
+  showInTable?: boolean
+  orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
+  values?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutFieldInput
+  options?: Prisma.InventoryFieldOptionUncheckedCreateNestedManyWithoutFieldInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutFieldInput
+}
+
+export type InventoryFieldCreateOrConnectWithoutCustomIdElementsInput = {
+  where: Prisma.InventoryFieldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryFieldCreateWithoutCustomIdElementsInput, Prisma.InventoryFieldUncheckedCreateWithoutCustomIdElementsInput>
+}
+
+export type InventoryFieldUpsertWithoutCustomIdElementsInput = {
+  update: Prisma.XOR<Prisma.InventoryFieldUpdateWithoutCustomIdElementsInput, Prisma.InventoryFieldUncheckedUpdateWithoutCustomIdElementsInput>
+  create: Prisma.XOR<Prisma.InventoryFieldCreateWithoutCustomIdElementsInput, Prisma.InventoryFieldUncheckedCreateWithoutCustomIdElementsInput>
+  where?: Prisma.InventoryFieldWhereInput
+}
+
+export type InventoryFieldUpdateToOneWithWhereWithoutCustomIdElementsInput = {
+  where?: Prisma.InventoryFieldWhereInput
+  data: Prisma.XOR<Prisma.InventoryFieldUpdateWithoutCustomIdElementsInput, Prisma.InventoryFieldUncheckedUpdateWithoutCustomIdElementsInput>
+}
+
+export type InventoryFieldUpdateWithoutCustomIdElementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumInventoryFieldTypeFieldUpdateOperationsInput | $Enums.InventoryFieldType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutFieldsNestedInput
+  values?: Prisma.ItemFieldValueUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutFieldNestedInput
+}
+
+export type InventoryFieldUncheckedUpdateWithoutCustomIdElementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumInventoryFieldTypeFieldUpdateOperationsInput | $Enums.InventoryFieldType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
+  values?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUncheckedUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldCreateManyInventoryInput = {
@@ -599,6 +1182,12 @@ export type InventoryFieldCreateManyInventoryInput = {
   description?: string | null
   showInTable?: boolean
   orderIndex: number
+  required?: boolean
+  minValue?: number | null
+  maxValue?: number | null
+  maxLength?: number | null
+  pattern?: string | null
+  allowedSchemes?: Prisma.InventoryFieldCreateallowedSchemesInput | string[]
 }
 
 export type InventoryFieldUpdateWithoutInventoryInput = {
@@ -608,7 +1197,16 @@ export type InventoryFieldUpdateWithoutInventoryInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
   values?: Prisma.ItemFieldValueUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldUncheckedUpdateWithoutInventoryInput = {
@@ -618,7 +1216,16 @@ export type InventoryFieldUncheckedUpdateWithoutInventoryInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
   values?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutFieldNestedInput
+  options?: Prisma.InventoryFieldOptionUncheckedUpdateManyWithoutFieldNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutFieldNestedInput
+  customIdElements?: Prisma.InventoryCustomIdElementUncheckedUpdateManyWithoutFieldNestedInput
 }
 
 export type InventoryFieldUncheckedUpdateManyWithoutInventoryInput = {
@@ -628,6 +1235,12 @@ export type InventoryFieldUncheckedUpdateManyWithoutInventoryInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   showInTable?: Prisma.BoolFieldUpdateOperationsInput | boolean
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  required?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  minValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxValue?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  maxLength?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pattern?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allowedSchemes?: Prisma.InventoryFieldUpdateallowedSchemesInput | string[]
 }
 
 
@@ -637,10 +1250,16 @@ export type InventoryFieldUncheckedUpdateManyWithoutInventoryInput = {
 
 export type InventoryFieldCountOutputType = {
   values: number
+  options: number
+  attachments: number
+  customIdElements: number
 }
 
 export type InventoryFieldCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   values?: boolean | InventoryFieldCountOutputTypeCountValuesArgs
+  options?: boolean | InventoryFieldCountOutputTypeCountOptionsArgs
+  attachments?: boolean | InventoryFieldCountOutputTypeCountAttachmentsArgs
+  customIdElements?: boolean | InventoryFieldCountOutputTypeCountCustomIdElementsArgs
 }
 
 /**
@@ -660,6 +1279,27 @@ export type InventoryFieldCountOutputTypeCountValuesArgs<ExtArgs extends runtime
   where?: Prisma.ItemFieldValueWhereInput
 }
 
+/**
+ * InventoryFieldCountOutputType without action
+ */
+export type InventoryFieldCountOutputTypeCountOptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryFieldOptionWhereInput
+}
+
+/**
+ * InventoryFieldCountOutputType without action
+ */
+export type InventoryFieldCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemAttachmentWhereInput
+}
+
+/**
+ * InventoryFieldCountOutputType without action
+ */
+export type InventoryFieldCountOutputTypeCountCustomIdElementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryCustomIdElementWhereInput
+}
+
 
 export type InventoryFieldSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -669,8 +1309,17 @@ export type InventoryFieldSelect<ExtArgs extends runtime.Types.Extensions.Intern
   description?: boolean
   showInTable?: boolean
   orderIndex?: boolean
+  required?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  maxLength?: boolean
+  pattern?: boolean
+  allowedSchemes?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
   values?: boolean | Prisma.InventoryField$valuesArgs<ExtArgs>
+  options?: boolean | Prisma.InventoryField$optionsArgs<ExtArgs>
+  attachments?: boolean | Prisma.InventoryField$attachmentsArgs<ExtArgs>
+  customIdElements?: boolean | Prisma.InventoryField$customIdElementsArgs<ExtArgs>
   _count?: boolean | Prisma.InventoryFieldCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryField"]>
 
@@ -682,6 +1331,12 @@ export type InventoryFieldSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   description?: boolean
   showInTable?: boolean
   orderIndex?: boolean
+  required?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  maxLength?: boolean
+  pattern?: boolean
+  allowedSchemes?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryField"]>
 
@@ -693,6 +1348,12 @@ export type InventoryFieldSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   description?: boolean
   showInTable?: boolean
   orderIndex?: boolean
+  required?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  maxLength?: boolean
+  pattern?: boolean
+  allowedSchemes?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryField"]>
 
@@ -704,12 +1365,21 @@ export type InventoryFieldSelectScalar = {
   description?: boolean
   showInTable?: boolean
   orderIndex?: boolean
+  required?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  maxLength?: boolean
+  pattern?: boolean
+  allowedSchemes?: boolean
 }
 
-export type InventoryFieldOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "inventoryId" | "type" | "title" | "description" | "showInTable" | "orderIndex", ExtArgs["result"]["inventoryField"]>
+export type InventoryFieldOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "inventoryId" | "type" | "title" | "description" | "showInTable" | "orderIndex" | "required" | "minValue" | "maxValue" | "maxLength" | "pattern" | "allowedSchemes", ExtArgs["result"]["inventoryField"]>
 export type InventoryFieldInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
   values?: boolean | Prisma.InventoryField$valuesArgs<ExtArgs>
+  options?: boolean | Prisma.InventoryField$optionsArgs<ExtArgs>
+  attachments?: boolean | Prisma.InventoryField$attachmentsArgs<ExtArgs>
+  customIdElements?: boolean | Prisma.InventoryField$customIdElementsArgs<ExtArgs>
   _count?: boolean | Prisma.InventoryFieldCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type InventoryFieldIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -724,6 +1394,9 @@ export type $InventoryFieldPayload<ExtArgs extends runtime.Types.Extensions.Inte
   objects: {
     inventory: Prisma.$InventoryPayload<ExtArgs>
     values: Prisma.$ItemFieldValuePayload<ExtArgs>[]
+    options: Prisma.$InventoryFieldOptionPayload<ExtArgs>[]
+    attachments: Prisma.$ItemAttachmentPayload<ExtArgs>[]
+    customIdElements: Prisma.$InventoryCustomIdElementPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -733,6 +1406,12 @@ export type $InventoryFieldPayload<ExtArgs extends runtime.Types.Extensions.Inte
     description: string | null
     showInTable: boolean
     orderIndex: number
+    required: boolean
+    minValue: number | null
+    maxValue: number | null
+    maxLength: number | null
+    pattern: string | null
+    allowedSchemes: string[]
   }, ExtArgs["result"]["inventoryField"]>
   composites: {}
 }
@@ -1129,6 +1808,9 @@ export interface Prisma__InventoryFieldClient<T, Null = never, ExtArgs extends r
   readonly [Symbol.toStringTag]: "PrismaPromise"
   inventory<T extends Prisma.InventoryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDefaultArgs<ExtArgs>>): Prisma.Prisma__InventoryClient<runtime.Types.Result.GetResult<Prisma.$InventoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   values<T extends Prisma.InventoryField$valuesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryField$valuesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemFieldValuePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  options<T extends Prisma.InventoryField$optionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryField$optionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  attachments<T extends Prisma.InventoryField$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryField$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  customIdElements<T extends Prisma.InventoryField$customIdElementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryField$customIdElementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryCustomIdElementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1165,6 +1847,12 @@ export interface InventoryFieldFieldRefs {
   readonly description: Prisma.FieldRef<"InventoryField", 'String'>
   readonly showInTable: Prisma.FieldRef<"InventoryField", 'Boolean'>
   readonly orderIndex: Prisma.FieldRef<"InventoryField", 'Int'>
+  readonly required: Prisma.FieldRef<"InventoryField", 'Boolean'>
+  readonly minValue: Prisma.FieldRef<"InventoryField", 'Float'>
+  readonly maxValue: Prisma.FieldRef<"InventoryField", 'Float'>
+  readonly maxLength: Prisma.FieldRef<"InventoryField", 'Int'>
+  readonly pattern: Prisma.FieldRef<"InventoryField", 'String'>
+  readonly allowedSchemes: Prisma.FieldRef<"InventoryField", 'String[]'>
 }
     
 
@@ -1584,6 +2272,78 @@ export type InventoryField$valuesArgs<ExtArgs extends runtime.Types.Extensions.I
   distinct?: Prisma.ItemFieldValueScalarFieldEnum | Prisma.ItemFieldValueScalarFieldEnum[]
 }
 
+/**
+ * InventoryField.options
+ */
+export type InventoryField$optionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  where?: Prisma.InventoryFieldOptionWhereInput
+  orderBy?: Prisma.InventoryFieldOptionOrderByWithRelationInput | Prisma.InventoryFieldOptionOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryFieldOptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryFieldOptionScalarFieldEnum | Prisma.InventoryFieldOptionScalarFieldEnum[]
+}
+
+/**
+ * InventoryField.attachments
+ */
+export type InventoryField$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  where?: Prisma.ItemAttachmentWhereInput
+  orderBy?: Prisma.ItemAttachmentOrderByWithRelationInput | Prisma.ItemAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.ItemAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ItemAttachmentScalarFieldEnum | Prisma.ItemAttachmentScalarFieldEnum[]
+}
+
+/**
+ * InventoryField.customIdElements
+ */
+export type InventoryField$customIdElementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryCustomIdElement
+   */
+  select?: Prisma.InventoryCustomIdElementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryCustomIdElement
+   */
+  omit?: Prisma.InventoryCustomIdElementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryCustomIdElementInclude<ExtArgs> | null
+  where?: Prisma.InventoryCustomIdElementWhereInput
+  orderBy?: Prisma.InventoryCustomIdElementOrderByWithRelationInput | Prisma.InventoryCustomIdElementOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryCustomIdElementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryCustomIdElementScalarFieldEnum | Prisma.InventoryCustomIdElementScalarFieldEnum[]
+}
+
 /**
  * InventoryField without action
  */
@@ -0,0 +1,1384 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InventoryFieldOption` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model InventoryFieldOption
+ * 
+ */
+export type InventoryFieldOptionModel = runtime.Types.Result.DefaultSelection<Prisma.$InventoryFieldOptionPayload>
+
+export type AggregateInventoryFieldOption = {
+  _count: InventoryFieldOptionCountAggregateOutputType | null
+  _avg: InventoryFieldOptionAvgAggregateOutputType | null
+  _sum: InventoryFieldOptionSumAggregateOutputType | null
+  _min: InventoryFieldOptionMinAggregateOutputType | null
+  _max: InventoryFieldOptionMaxAggregateOutputType | null
+}
+
+export type InventoryFieldOptionAvgAggregateOutputType = {
+  orderIndex: number | null
+}
+
+export type InventoryFieldOptionSumAggregateOutputType = {
+  orderIndex: number | null
+}
+
+export type InventoryFieldOptionMinAggregateOutputType = {
+  id: string | null
+  fieldId: string | null
+  label: string | null
+  color: string | null
+  orderIndex: number | null
+}
+
+export type InventoryFieldOptionMaxAggregateOutputType = {
+  id: string | null
+  fieldId: string | null
+  label: string | null
+  color: string | null
+  orderIndex: number | null
+}
+
+export type InventoryFieldOptionCountAggregateOutputType = {
+  id: number
+  fieldId: number
+  label: number
+  color: number
+  orderIndex: number
+  _all: number
+}
+
+
+export type InventoryFieldOptionAvgAggregateInputType = {
+  orderIndex?: true
+}
+
+export type InventoryFieldOptionSumAggregateInputType = {
+  orderIndex?: true
+}
+
+export type InventoryFieldOptionMinAggregateInputType = {
+  id?: true
+  fieldId?: true
+  label?: true
+  color?: true
+  orderIndex?: true
+}
+
+export type InventoryFieldOptionMaxAggregateInputType = {
+  id?: true
+  fieldId?: true
+  label?: true
+  color?: true
+  orderIndex?: true
+}
+
+export type InventoryFieldOptionCountAggregateInputType = {
+  id?: true
+  fieldId?: true
+  label?: true
+  color?: true
+  orderIndex?: true
+  _all?: true
+}
+
+export type InventoryFieldOptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InventoryFieldOption to aggregate.
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryFieldOptions to fetch.
+   */
+  orderBy?: Prisma.InventoryFieldOptionOrderByWithRelationInput | Prisma.InventoryFieldOptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InventoryFieldOptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryFieldOptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryFieldOptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InventoryFieldOptions
+  **/
+  _count?: true | InventoryFieldOptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InventoryFieldOptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InventoryFieldOptionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InventoryFieldOptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InventoryFieldOptionMaxAggregateInputType
+}
+
+export type GetInventoryFieldOptionAggregateType<T extends InventoryFieldOptionAggregateArgs> = {
+      [P in keyof T & keyof AggregateInventoryFieldOption]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInventoryFieldOption[P]>
+    : Prisma.GetScalarType<T[P], AggregateInventoryFieldOption[P]>
+}
+
+
+
+
+export type InventoryFieldOptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryFieldOptionWhereInput
+  orderBy?: Prisma.InventoryFieldOptionOrderByWithAggregationInput | Prisma.InventoryFieldOptionOrderByWithAggregationInput[]
+  by: Prisma.InventoryFieldOptionScalarFieldEnum[] | Prisma.InventoryFieldOptionScalarFieldEnum
+  having?: Prisma.InventoryFieldOptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InventoryFieldOptionCountAggregateInputType | true
+  _avg?: InventoryFieldOptionAvgAggregateInputType
+  _sum?: InventoryFieldOptionSumAggregateInputType
+  _min?: InventoryFieldOptionMinAggregateInputType
+  _max?: InventoryFieldOptionMaxAggregateInputType
+}
+
+export type InventoryFieldOptionGroupByOutputType = {
+  id: string
+  fieldId: string
+  label: string
+  color: string | null
+  orderIndex: number
+  _count: InventoryFieldOptionCountAggregateOutputType | null
+  _avg: InventoryFieldOptionAvgAggregateOutputType | null
+  _sum: InventoryFieldOptionSumAggregateOutputType | null
+  _min: InventoryFieldOptionMinAggregateOutputType | null
+  _max: InventoryFieldOptionMaxAggregateOutputType | null
+}
+
+type GetInventoryFieldOptionGroupByPayload<T extends InventoryFieldOptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InventoryFieldOptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InventoryFieldOptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InventoryFieldOptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InventoryFieldOptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InventoryFieldOptionWhereInput = {
+  AND?: Prisma.InventoryFieldOptionWhereInput | Prisma.InventoryFieldOptionWhereInput[]
+  OR?: Prisma.InventoryFieldOptionWhereInput[]
+  NOT?: Prisma.InventoryFieldOptionWhereInput | Prisma.InventoryFieldOptionWhereInput[]
+  id?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  fieldId?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  label?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  color?: Prisma.StringNullableFilter<"InventoryFieldOption"> | string | null
+  orderIndex?: Prisma.IntFilter<"InventoryFieldOption"> | number
+  field?: Prisma.XOR<Prisma.InventoryFieldScalarRelationFilter, Prisma.InventoryFieldWhereInput>
+}
+
+export type InventoryFieldOptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  color?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderIndex?: Prisma.SortOrder
+  field?: Prisma.InventoryFieldOrderByWithRelationInput
+}
+
+export type InventoryFieldOptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.InventoryFieldOptionWhereInput | Prisma.InventoryFieldOptionWhereInput[]
+  OR?: Prisma.InventoryFieldOptionWhereInput[]
+  NOT?: Prisma.InventoryFieldOptionWhereInput | Prisma.InventoryFieldOptionWhereInput[]
+  fieldId?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  label?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  color?: Prisma.StringNullableFilter<"InventoryFieldOption"> | string | null
+  orderIndex?: Prisma.IntFilter<"InventoryFieldOption"> | number
+  field?: Prisma.XOR<Prisma.InventoryFieldScalarRelationFilter, Prisma.InventoryFieldWhereInput>
+}, "id">
+
+export type InventoryFieldOptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  color?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderIndex?: Prisma.SortOrder
+  _count?: Prisma.InventoryFieldOptionCountOrderByAggregateInput
+  _avg?: Prisma.InventoryFieldOptionAvgOrderByAggregateInput
+  _max?: Prisma.InventoryFieldOptionMaxOrderByAggregateInput
+  _min?: Prisma.InventoryFieldOptionMinOrderByAggregateInput
+  _sum?: Prisma.InventoryFieldOptionSumOrderByAggregateInput
+}
+
+export type InventoryFieldOptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InventoryFieldOptionScalarWhereWithAggregatesInput | Prisma.InventoryFieldOptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InventoryFieldOptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InventoryFieldOptionScalarWhereWithAggregatesInput | Prisma.InventoryFieldOptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InventoryFieldOption"> | string
+  fieldId?: Prisma.StringWithAggregatesFilter<"InventoryFieldOption"> | string
+  label?: Prisma.StringWithAggregatesFilter<"InventoryFieldOption"> | string
+  color?: Prisma.StringNullableWithAggregatesFilter<"InventoryFieldOption"> | string | null
+  orderIndex?: Prisma.IntWithAggregatesFilter<"InventoryFieldOption"> | number
+}
+
+export type InventoryFieldOptionCreateInput = {
+  id?: string
+  label: string
+  color?: string | null
+  orderIndex: number
+  field: Prisma.InventoryFieldCreateNestedOneWithoutOptionsInput
+}
+
+export type InventoryFieldOptionUncheckedCreateInput = {
+  id?: string
+  fieldId: string
+  label: string
+  color?: string | null
+  orderIndex: number
+}
+
+export type InventoryFieldOptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  field?: Prisma.InventoryFieldUpdateOneRequiredWithoutOptionsNestedInput
+}
+
+export type InventoryFieldOptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldId?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InventoryFieldOptionCreateManyInput = {
+  id?: string
+  fieldId: string
+  label: string
+  color?: string | null
+  orderIndex: number
+}
+
+export type InventoryFieldOptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InventoryFieldOptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldId?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InventoryFieldOptionListRelationFilter = {
+  every?: Prisma.InventoryFieldOptionWhereInput
+  some?: Prisma.InventoryFieldOptionWhereInput
+  none?: Prisma.InventoryFieldOptionWhereInput
+}
+
+export type InventoryFieldOptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type InventoryFieldOptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  orderIndex?: Prisma.SortOrder
+}
+
+export type InventoryFieldOptionAvgOrderByAggregateInput = {
+  orderIndex?: Prisma.SortOrder
+}
+
+export type InventoryFieldOptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  orderIndex?: Prisma.SortOrder
+}
+
+export type InventoryFieldOptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  orderIndex?: Prisma.SortOrder
+}
+
+export type InventoryFieldOptionSumOrderByAggregateInput = {
+  orderIndex?: Prisma.SortOrder
+}
+
+export type InventoryFieldOptionCreateNestedManyWithoutFieldInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldOptionCreateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput> | Prisma.InventoryFieldOptionCreateWithoutFieldInput[] | Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput | Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput[]
+  createMany?: Prisma.InventoryFieldOptionCreateManyFieldInputEnvelope
+  connect?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+}
+
+export type InventoryFieldOptionUncheckedCreateNestedManyWithoutFieldInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldOptionCreateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput> | Prisma.InventoryFieldOptionCreateWithoutFieldInput[] | Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput | Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput[]
+  createMany?: Prisma.InventoryFieldOptionCreateManyFieldInputEnvelope
+  connect?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+}
+
+export type InventoryFieldOptionUpdateManyWithoutFieldNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldOptionCreateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput> | Prisma.InventoryFieldOptionCreateWithoutFieldInput[] | Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput | Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput[]
+  upsert?: Prisma.InventoryFieldOptionUpsertWithWhereUniqueWithoutFieldInput | Prisma.InventoryFieldOptionUpsertWithWhereUniqueWithoutFieldInput[]
+  createMany?: Prisma.InventoryFieldOptionCreateManyFieldInputEnvelope
+  set?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  disconnect?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  delete?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  connect?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  update?: Prisma.InventoryFieldOptionUpdateWithWhereUniqueWithoutFieldInput | Prisma.InventoryFieldOptionUpdateWithWhereUniqueWithoutFieldInput[]
+  updateMany?: Prisma.InventoryFieldOptionUpdateManyWithWhereWithoutFieldInput | Prisma.InventoryFieldOptionUpdateManyWithWhereWithoutFieldInput[]
+  deleteMany?: Prisma.InventoryFieldOptionScalarWhereInput | Prisma.InventoryFieldOptionScalarWhereInput[]
+}
+
+export type InventoryFieldOptionUncheckedUpdateManyWithoutFieldNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryFieldOptionCreateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput> | Prisma.InventoryFieldOptionCreateWithoutFieldInput[] | Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput | Prisma.InventoryFieldOptionCreateOrConnectWithoutFieldInput[]
+  upsert?: Prisma.InventoryFieldOptionUpsertWithWhereUniqueWithoutFieldInput | Prisma.InventoryFieldOptionUpsertWithWhereUniqueWithoutFieldInput[]
+  createMany?: Prisma.InventoryFieldOptionCreateManyFieldInputEnvelope
+  set?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  disconnect?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  delete?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  connect?: Prisma.InventoryFieldOptionWhereUniqueInput | Prisma.InventoryFieldOptionWhereUniqueInput[]
+  update?: Prisma.InventoryFieldOptionUpdateWithWhereUniqueWithoutFieldInput | Prisma.InventoryFieldOptionUpdateWithWhereUniqueWithoutFieldInput[]
+  updateMany?: Prisma.InventoryFieldOptionUpdateManyWithWhereWithoutFieldInput | Prisma.InventoryFieldOptionUpdateManyWithWhereWithoutFieldInput[]
+  deleteMany?: Prisma.InventoryFieldOptionScalarWhereInput | Prisma.InventoryFieldOptionScalarWhereInput[]
+}
+
+export type InventoryFieldOptionCreateWithoutFieldInput = {
+  id?: string
+  label: string
+  color?: string | null
+  orderIndex: number
+}
+
+export type InventoryFieldOptionUncheckedCreateWithoutFieldInput = {
+  id?: string
+  label: string
+  color?: string | null
+  orderIndex: number
+}
+
+export type InventoryFieldOptionCreateOrConnectWithoutFieldInput = {
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryFieldOptionCreateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput>
+}
+
+export type InventoryFieldOptionCreateManyFieldInputEnvelope = {
+  data: Prisma.InventoryFieldOptionCreateManyFieldInput | Prisma.InventoryFieldOptionCreateManyFieldInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryFieldOptionUpsertWithWhereUniqueWithoutFieldInput = {
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryFieldOptionUpdateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedUpdateWithoutFieldInput>
+  create: Prisma.XOR<Prisma.InventoryFieldOptionCreateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedCreateWithoutFieldInput>
+}
+
+export type InventoryFieldOptionUpdateWithWhereUniqueWithoutFieldInput = {
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryFieldOptionUpdateWithoutFieldInput, Prisma.InventoryFieldOptionUncheckedUpdateWithoutFieldInput>
+}
+
+export type InventoryFieldOptionUpdateManyWithWhereWithoutFieldInput = {
+  where: Prisma.InventoryFieldOptionScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryFieldOptionUpdateManyMutationInput, Prisma.InventoryFieldOptionUncheckedUpdateManyWithoutFieldInput>
+}
+
+export type InventoryFieldOptionScalarWhereInput = {
+  AND?: Prisma.InventoryFieldOptionScalarWhereInput | Prisma.InventoryFieldOptionScalarWhereInput[]
+  OR?: Prisma.InventoryFieldOptionScalarWhereInput[]
+  NOT?: Prisma.InventoryFieldOptionScalarWhereInput | Prisma.InventoryFieldOptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  fieldId?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  label?: Prisma.StringFilter<"InventoryFieldOption"> | string
+  color?: Prisma.StringNullableFilter<"InventoryFieldOption"> | string | null
+  orderIndex?: Prisma.IntFilter<"InventoryFieldOption"> | number
+}
+
+export type InventoryFieldOptionCreateManyFieldInput = {
+  id?: string
+  label: string
+  color?: string | null
+  orderIndex: number
+}
+
+export type InventoryFieldOptionUpdateWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InventoryFieldOptionUncheckedUpdateWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InventoryFieldOptionUncheckedUpdateManyWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+
+
+export type InventoryFieldOptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fieldId?: boolean
+  label?: boolean
+  color?: boolean
+  orderIndex?: boolean
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryFieldOption"]>
+
+export type InventoryFieldOptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fieldId?: boolean
+  label?: boolean
+  color?: boolean
+  orderIndex?: boolean
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryFieldOption"]>
+
+export type InventoryFieldOptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fieldId?: boolean
+  label?: boolean
+  color?: boolean
+  orderIndex?: boolean
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryFieldOption"]>
+
+export type InventoryFieldOptionSelectScalar = {
+  id?: boolean
+  fieldId?: boolean
+  label?: boolean
+  color?: boolean
+  orderIndex?: boolean
+}
+
+export type InventoryFieldOptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "fieldId" | "label" | "color" | "orderIndex", ExtArgs["result"]["inventoryFieldOption"]>
+export type InventoryFieldOptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}
+export type InventoryFieldOptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}
+export type InventoryFieldOptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}
+
+export type $InventoryFieldOptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InventoryFieldOption"
+  objects: {
+    field: Prisma.$InventoryFieldPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    fieldId: string
+    label: string
+    color: string | null
+    orderIndex: number
+  }, ExtArgs["result"]["inventoryFieldOption"]>
+  composites: {}
+}
+
+export type InventoryFieldOptionGetPayload<S extends boolean | null | undefined | InventoryFieldOptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload, S>
+
+export type InventoryFieldOptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InventoryFieldOptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InventoryFieldOptionCountAggregateInputType | true
+  }
+
+export interface InventoryFieldOptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InventoryFieldOption'], meta: { name: 'InventoryFieldOption' } }
+  /**
+   * Find zero or one InventoryFieldOption that matches the filter.
+   * @param {InventoryFieldOptionFindUniqueArgs} args - Arguments to find a InventoryFieldOption
+   * @example
+   * // Get one InventoryFieldOption
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InventoryFieldOptionFindUniqueArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InventoryFieldOption that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InventoryFieldOptionFindUniqueOrThrowArgs} args - Arguments to find a InventoryFieldOption
+   * @example
+   * // Get one InventoryFieldOption
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InventoryFieldOptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InventoryFieldOption that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionFindFirstArgs} args - Arguments to find a InventoryFieldOption
+   * @example
+   * // Get one InventoryFieldOption
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InventoryFieldOptionFindFirstArgs>(args?: Prisma.SelectSubset<T, InventoryFieldOptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InventoryFieldOption that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionFindFirstOrThrowArgs} args - Arguments to find a InventoryFieldOption
+   * @example
+   * // Get one InventoryFieldOption
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InventoryFieldOptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InventoryFieldOptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InventoryFieldOptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InventoryFieldOptions
+   * const inventoryFieldOptions = await prisma.inventoryFieldOption.findMany()
+   * 
+   * // Get first 10 InventoryFieldOptions
+   * const inventoryFieldOptions = await prisma.inventoryFieldOption.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const inventoryFieldOptionWithIdOnly = await prisma.inventoryFieldOption.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InventoryFieldOptionFindManyArgs>(args?: Prisma.SelectSubset<T, InventoryFieldOptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InventoryFieldOption.
+   * @param {InventoryFieldOptionCreateArgs} args - Arguments to create a InventoryFieldOption.
+   * @example
+   * // Create one InventoryFieldOption
+   * const InventoryFieldOption = await prisma.inventoryFieldOption.create({
+   *   data: {
+   *     // ... data to create a InventoryFieldOption
+   *   }
+   * })
+   * 
+   */
+  create<T extends InventoryFieldOptionCreateArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionCreateArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InventoryFieldOptions.
+   * @param {InventoryFieldOptionCreateManyArgs} args - Arguments to create many InventoryFieldOptions.
+   * @example
+   * // Create many InventoryFieldOptions
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InventoryFieldOptionCreateManyArgs>(args?: Prisma.SelectSubset<T, InventoryFieldOptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InventoryFieldOptions and returns the data saved in the database.
+   * @param {InventoryFieldOptionCreateManyAndReturnArgs} args - Arguments to create many InventoryFieldOptions.
+   * @example
+   * // Create many InventoryFieldOptions
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InventoryFieldOptions and only return the `id`
+   * const inventoryFieldOptionWithIdOnly = await prisma.inventoryFieldOption.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InventoryFieldOptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InventoryFieldOptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InventoryFieldOption.
+   * @param {InventoryFieldOptionDeleteArgs} args - Arguments to delete one InventoryFieldOption.
+   * @example
+   * // Delete one InventoryFieldOption
+   * const InventoryFieldOption = await prisma.inventoryFieldOption.delete({
+   *   where: {
+   *     // ... filter to delete one InventoryFieldOption
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InventoryFieldOptionDeleteArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionDeleteArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InventoryFieldOption.
+   * @param {InventoryFieldOptionUpdateArgs} args - Arguments to update one InventoryFieldOption.
+   * @example
+   * // Update one InventoryFieldOption
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InventoryFieldOptionUpdateArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionUpdateArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InventoryFieldOptions.
+   * @param {InventoryFieldOptionDeleteManyArgs} args - Arguments to filter InventoryFieldOptions to delete.
+   * @example
+   * // Delete a few InventoryFieldOptions
+   * const { count } = await prisma.inventoryFieldOption.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InventoryFieldOptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, InventoryFieldOptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InventoryFieldOptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InventoryFieldOptions
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InventoryFieldOptionUpdateManyArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InventoryFieldOptions and returns the data updated in the database.
+   * @param {InventoryFieldOptionUpdateManyAndReturnArgs} args - Arguments to update many InventoryFieldOptions.
+   * @example
+   * // Update many InventoryFieldOptions
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InventoryFieldOptions and only return the `id`
+   * const inventoryFieldOptionWithIdOnly = await prisma.inventoryFieldOption.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InventoryFieldOptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InventoryFieldOption.
+   * @param {InventoryFieldOptionUpsertArgs} args - Arguments to update or create a InventoryFieldOption.
+   * @example
+   * // Update or create a InventoryFieldOption
+   * const inventoryFieldOption = await prisma.inventoryFieldOption.upsert({
+   *   create: {
+   *     // ... data to create a InventoryFieldOption
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InventoryFieldOption we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InventoryFieldOptionUpsertArgs>(args: Prisma.SelectSubset<T, InventoryFieldOptionUpsertArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldOptionClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldOptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InventoryFieldOptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionCountArgs} args - Arguments to filter InventoryFieldOptions to count.
+   * @example
+   * // Count the number of InventoryFieldOptions
+   * const count = await prisma.inventoryFieldOption.count({
+   *   where: {
+   *     // ... the filter for the InventoryFieldOptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends InventoryFieldOptionCountArgs>(
+    args?: Prisma.Subset<T, InventoryFieldOptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InventoryFieldOptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InventoryFieldOption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InventoryFieldOptionAggregateArgs>(args: Prisma.Subset<T, InventoryFieldOptionAggregateArgs>): Prisma.PrismaPromise<GetInventoryFieldOptionAggregateType<T>>
+
+  /**
+   * Group by InventoryFieldOption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryFieldOptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InventoryFieldOptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InventoryFieldOptionGroupByArgs['orderBy'] }
+      : { orderBy?: InventoryFieldOptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InventoryFieldOptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInventoryFieldOptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InventoryFieldOption model
+ */
+readonly fields: InventoryFieldOptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InventoryFieldOption.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InventoryFieldOptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  field<T extends Prisma.InventoryFieldDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryFieldDefaultArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InventoryFieldOption model
+ */
+export interface InventoryFieldOptionFieldRefs {
+  readonly id: Prisma.FieldRef<"InventoryFieldOption", 'String'>
+  readonly fieldId: Prisma.FieldRef<"InventoryFieldOption", 'String'>
+  readonly label: Prisma.FieldRef<"InventoryFieldOption", 'String'>
+  readonly color: Prisma.FieldRef<"InventoryFieldOption", 'String'>
+  readonly orderIndex: Prisma.FieldRef<"InventoryFieldOption", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InventoryFieldOption findUnique
+ */
+export type InventoryFieldOptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryFieldOption to fetch.
+   */
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+}
+
+/**
+ * InventoryFieldOption findUniqueOrThrow
+ */
+export type InventoryFieldOptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryFieldOption to fetch.
+   */
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+}
+
+/**
+ * InventoryFieldOption findFirst
+ */
+export type InventoryFieldOptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryFieldOption to fetch.
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryFieldOptions to fetch.
+   */
+  orderBy?: Prisma.InventoryFieldOptionOrderByWithRelationInput | Prisma.InventoryFieldOptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InventoryFieldOptions.
+   */
+  cursor?: Prisma.InventoryFieldOptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryFieldOptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryFieldOptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InventoryFieldOptions.
+   */
+  distinct?: Prisma.InventoryFieldOptionScalarFieldEnum | Prisma.InventoryFieldOptionScalarFieldEnum[]
+}
+
+/**
+ * InventoryFieldOption findFirstOrThrow
+ */
+export type InventoryFieldOptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryFieldOption to fetch.
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryFieldOptions to fetch.
+   */
+  orderBy?: Prisma.InventoryFieldOptionOrderByWithRelationInput | Prisma.InventoryFieldOptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InventoryFieldOptions.
+   */
+  cursor?: Prisma.InventoryFieldOptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryFieldOptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryFieldOptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InventoryFieldOptions.
+   */
+  distinct?: Prisma.InventoryFieldOptionScalarFieldEnum | Prisma.InventoryFieldOptionScalarFieldEnum[]
+}
+
+/**
+ * InventoryFieldOption findMany
+ */
+export type InventoryFieldOptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryFieldOptions to fetch.
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryFieldOptions to fetch.
+   */
+  orderBy?: Prisma.InventoryFieldOptionOrderByWithRelationInput | Prisma.InventoryFieldOptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InventoryFieldOptions.
+   */
+  cursor?: Prisma.InventoryFieldOptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryFieldOptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryFieldOptions.
+   */
+  skip?: number
+  distinct?: Prisma.InventoryFieldOptionScalarFieldEnum | Prisma.InventoryFieldOptionScalarFieldEnum[]
+}
+
+/**
+ * InventoryFieldOption create
+ */
+export type InventoryFieldOptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InventoryFieldOption.
+   */
+  data: Prisma.XOR<Prisma.InventoryFieldOptionCreateInput, Prisma.InventoryFieldOptionUncheckedCreateInput>
+}
+
+/**
+ * InventoryFieldOption createMany
+ */
+export type InventoryFieldOptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InventoryFieldOptions.
+   */
+  data: Prisma.InventoryFieldOptionCreateManyInput | Prisma.InventoryFieldOptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InventoryFieldOption createManyAndReturn
+ */
+export type InventoryFieldOptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many InventoryFieldOptions.
+   */
+  data: Prisma.InventoryFieldOptionCreateManyInput | Prisma.InventoryFieldOptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InventoryFieldOption update
+ */
+export type InventoryFieldOptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InventoryFieldOption.
+   */
+  data: Prisma.XOR<Prisma.InventoryFieldOptionUpdateInput, Prisma.InventoryFieldOptionUncheckedUpdateInput>
+  /**
+   * Choose, which InventoryFieldOption to update.
+   */
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+}
+
+/**
+ * InventoryFieldOption updateMany
+ */
+export type InventoryFieldOptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InventoryFieldOptions.
+   */
+  data: Prisma.XOR<Prisma.InventoryFieldOptionUpdateManyMutationInput, Prisma.InventoryFieldOptionUncheckedUpdateManyInput>
+  /**
+   * Filter which InventoryFieldOptions to update
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * Limit how many InventoryFieldOptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * InventoryFieldOption updateManyAndReturn
+ */
+export type InventoryFieldOptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * The data used to update InventoryFieldOptions.
+   */
+  data: Prisma.XOR<Prisma.InventoryFieldOptionUpdateManyMutationInput, Prisma.InventoryFieldOptionUncheckedUpdateManyInput>
+  /**
+   * Filter which InventoryFieldOptions to update
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * Limit how many InventoryFieldOptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InventoryFieldOption upsert
+ */
+export type InventoryFieldOptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InventoryFieldOption to update in case it exists.
+   */
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+  /**
+   * In case the InventoryFieldOption found by the `where` argument doesn't exist, create a new InventoryFieldOption with this data.
+   */
+  create: Prisma.XOR<Prisma.InventoryFieldOptionCreateInput, Prisma.InventoryFieldOptionUncheckedCreateInput>
+  /**
+   * In case the InventoryFieldOption was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InventoryFieldOptionUpdateInput, Prisma.InventoryFieldOptionUncheckedUpdateInput>
+}
+
+/**
+ * InventoryFieldOption delete
+ */
+export type InventoryFieldOptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+  /**
+   * Filter which InventoryFieldOption to delete.
+   */
+  where: Prisma.InventoryFieldOptionWhereUniqueInput
+}
+
+/**
+ * InventoryFieldOption deleteMany
+ */
+export type InventoryFieldOptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InventoryFieldOptions to delete
+   */
+  where?: Prisma.InventoryFieldOptionWhereInput
+  /**
+   * Limit how many InventoryFieldOptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InventoryFieldOption without action
+ */
+export type InventoryFieldOptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryFieldOption
+   */
+  select?: Prisma.InventoryFieldOptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryFieldOption
+   */
+  omit?: Prisma.InventoryFieldOptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryFieldOptionInclude<ExtArgs> | null
+}
@@ -41,6 +41,7 @@ export type ItemMinAggregateOutputType = {
   version: number | null
   createdAt: Date | null
   updatedAt: Date | null
+  deletedAt: Date | null
   createdById: string | null
 }
 
@@ -51,6 +52,7 @@ export type ItemMaxAggregateOutputType = {
   version: number | null
   createdAt: Date | null
   updatedAt: Date | null
+  deletedAt: Date | null
   createdById: string | null
 }
 
@@ -61,6 +63,7 @@ export type ItemCountAggregateOutputType = {
   version: number
   createdAt: number
   updatedAt: number
+  deletedAt: number
   createdById: number
   _all: number
 }
@@ -81,6 +84,7 @@ export type ItemMinAggregateInputType = {
   version?: true
   createdAt?: true
   updatedAt?: true
+  deletedAt?: true
   createdById?: true
 }
 
@@ -91,6 +95,7 @@ export type ItemMaxAggregateInputType = {
   version?: true
   createdAt?: true
   updatedAt?: true
+  deletedAt?: true
   createdById?: true
 }
 
@@ -101,6 +106,7 @@ export type ItemCountAggregateInputType = {
   version?: true
   createdAt?: true
   updatedAt?: true
+  deletedAt?: true
   createdById?: true
   _all?: true
 }
@@ -198,6 +204,7 @@ export type ItemGroupByOutputType = {
   version: number
   createdAt: Date
   updatedAt: Date
+  deletedAt: Date | null
   createdById: string
   _count: ItemCountAggregateOutputType | null
   _avg: ItemAvgAggregateOutputType | null
@@ -231,11 +238,15 @@ export type ItemWhereInput = {
   version?: Prisma.IntFilter<"Item"> | number
   createdAt?: Prisma.DateTimeFilter<"Item"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Item"> | Date | string
+  deletedAt?: Prisma.DateTimeNullableFilter<"Item"> | Date | string | null
   createdById?: Prisma.StringFilter<"Item"> | string
   inventory?: Prisma.XOR<Prisma.InventoryScalarRelationFilter, Prisma.InventoryWhereInput>
   createdBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   fieldValues?: Prisma.ItemFieldValueListRelationFilter
   likes?: Prisma.ItemLikeListRelationFilter
+  attachments?: Prisma.ItemAttachmentListRelationFilter
+  revisions?: Prisma.ItemRevisionListRelationFilter
+  customIdAliases?: Prisma.ItemCustomIdAliasListRelationFilter
 }
 
 export type ItemOrderByWithRelationInput = {
@@ -245,11 +256,15 @@ export type ItemOrderByWithRelationInput = {
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdById?: Prisma.SortOrder
   inventory?: Prisma.InventoryOrderByWithRelationInput
   createdBy?: Prisma.UserOrderByWithRelationInput
   fieldValues?: Prisma.ItemFieldValueOrderByRelationAggregateInput
   likes?: Prisma.ItemLikeOrderByRelationAggregateInput
+  attachments?: Prisma.ItemAttachmentOrderByRelationAggregateInput
+  revisions?: Prisma.ItemRevisionOrderByRelationAggregateInput
+  customIdAliases?: Prisma.ItemCustomIdAliasOrderByRelationAggregateInput
 }
 
 export type ItemWhereUniqueInput = Prisma.AtLeast<{
@@ -263,11 +278,15 @@ export type ItemWhereUniqueInput = Prisma.AtLeast<{
   version?: Prisma.IntFilter<"Item"> | number
   createdAt?: Prisma.DateTimeFilter<"Item"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Item"> | Date | string
+  deletedAt?: Prisma.DateTimeNullableFilter<"Item"> | Date | string | null
   createdById?: Prisma.StringFilter<"Item"> | string
   inventory?: Prisma.XOR<Prisma.InventoryScalarRelationFilter, Prisma.InventoryWhereInput>
   createdBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   fieldValues?: Prisma.ItemFieldValueListRelationFilter
   likes?: Prisma.ItemLikeListRelationFilter
+  attachments?: Prisma.ItemAttachmentListRelationFilter
+  revisions?: Prisma.ItemRevisionListRelationFilter
+  customIdAliases?: Prisma.ItemCustomIdAliasListRelationFilter
 }, "id" | "inventoryId_customId">
 
 export type ItemOrderByWithAggregationInput = {
@@ -277,6 +296,7 @@ export type ItemOrderByWithAggregationInput = {
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdById?: Prisma.SortOrder
   _count?: Prisma.ItemCountOrderByAggregateInput
   _avg?: Prisma.ItemAvgOrderByAggregateInput
@@ -295,6 +315,7 @@ export type ItemScalarWhereWithAggregatesInput = {
   version?: Prisma.IntWithAggregatesFilter<"Item"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Item"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Item"> | Date | string
+  deletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Item"> | Date | string | null
   createdById?: Prisma.StringWithAggregatesFilter<"Item"> | string
 }
 
@@ -304,10 +325,14 @@ export type ItemCreateInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
   createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
   fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
 }
 
 export type ItemUncheckedCreateInput = {
@@ -317,9 +342,13 @@ export type ItemUncheckedCreateInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdById: string
   fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
 }
 
 export type ItemUpdateInput = {
@@ -328,10 +357,14 @@ export type ItemUpdateInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
   fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateInput = {
@@ -341,9 +374,13 @@ export type ItemUncheckedUpdateInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
 }
 
 export type ItemCreateManyInput = {
@@ -353,6 +390,7 @@ export type ItemCreateManyInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdById: string
 }
 
@@ -362,6 +400,7 @@ export type ItemUpdateManyMutationInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type ItemUncheckedUpdateManyInput = {
@@ -371,6 +410,7 @@ export type ItemUncheckedUpdateManyInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
 }
 
@@ -396,6 +436,7 @@ export type ItemCountOrderByAggregateInput = {
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
   createdById?: Prisma.SortOrder
 }
 
@@ -410,6 +451,7 @@ export type ItemMaxOrderByAggregateInput = {
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
   createdById?: Prisma.SortOrder
 }
 
@@ -420,6 +462,7 @@ export type ItemMinOrderByAggregateInput = {
   version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
   createdById?: Prisma.SortOrder
 }
 
@@ -530,6 +573,48 @@ export type ItemUpdateOneRequiredWithoutFieldValuesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ItemUpdateToOneWithWhereWithoutFieldValuesInput, Prisma.ItemUpdateWithoutFieldValuesInput>, Prisma.ItemUncheckedUpdateWithoutFieldValuesInput>
 }
 
+export type ItemCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.ItemCreateWithoutAttachmentsInput, Prisma.ItemUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.ItemCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.ItemWhereUniqueInput
+}
+
+export type ItemUpdateOneRequiredWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemCreateWithoutAttachmentsInput, Prisma.ItemUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.ItemCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.ItemUpsertWithoutAttachmentsInput
+  connect?: Prisma.ItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ItemUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.ItemUpdateWithoutAttachmentsInput>, Prisma.ItemUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type ItemCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.ItemCreateWithoutRevisionsInput, Prisma.ItemUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ItemCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.ItemWhereUniqueInput
+}
+
+export type ItemUpdateOneRequiredWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemCreateWithoutRevisionsInput, Prisma.ItemUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ItemCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.ItemUpsertWithoutRevisionsInput
+  connect?: Prisma.ItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ItemUpdateToOneWithWhereWithoutRevisionsInput, Prisma.ItemUpdateWithoutRevisionsInput>, Prisma.ItemUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type ItemCreateNestedOneWithoutCustomIdAliasesInput = {
+  create?: Prisma.XOR<Prisma.ItemCreateWithoutCustomIdAliasesInput, Prisma.ItemUncheckedCreateWithoutCustomIdAliasesInput>
+  connectOrCreate?: Prisma.ItemCreateOrConnectWithoutCustomIdAliasesInput
+  connect?: Prisma.ItemWhereUniqueInput
+}
+
+export type ItemUpdateOneRequiredWithoutCustomIdAliasesNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemCreateWithoutCustomIdAliasesInput, Prisma.ItemUncheckedCreateWithoutCustomIdAliasesInput>
+  connectOrCreate?: Prisma.ItemCreateOrConnectWithoutCustomIdAliasesInput
+  upsert?: Prisma.ItemUpsertWithoutCustomIdAliasesInput
+  connect?: Prisma.ItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ItemUpdateToOneWithWhereWithoutCustomIdAliasesInput, Prisma.ItemUpdateWithoutCustomIdAliasesInput>, Prisma.ItemUncheckedUpdateWithoutCustomIdAliasesInput>
+}
+
 export type ItemCreateNestedOneWithoutLikesInput = {
   create?: Prisma.XOR<Prisma.ItemCreateWithoutLikesInput, Prisma.ItemUncheckedCreateWithoutLikesInput>
   connectOrCreate?: Prisma.ItemCreateOrConnectWithoutLikesInput
@@ -550,9 +635,13 @@ export type ItemCreateWithoutCreatedByInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
   fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
 }
 
 export type ItemUncheckedCreateWithoutCreatedByInput = {
@@ -562,8 +651,12 @@ export type ItemUncheckedCreateWithoutCreatedByInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
 }
 
 export type ItemCreateOrConnectWithoutCreatedByInput = {
@@ -602,6 +695,7 @@ export type ItemScalarWhereInput = {
   version?: Prisma.IntFilter<"Item"> | number
   createdAt?: Prisma.DateTimeFilter<"Item"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Item"> | Date | string
+  deletedAt?: Prisma.DateTimeNullableFilter<"Item"> | Date | string | null
   createdById?: Prisma.StringFilter<"Item"> | string
 }
 
@@ -611,9 +705,13 @@ export type ItemCreateWithoutInventoryInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
   fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
 }
 
 export type ItemUncheckedCreateWithoutInventoryInput = {
@@ -622,9 +720,13 @@ export type ItemUncheckedCreateWithoutInventoryInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdById: string
   fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
 }
 
 export type ItemCreateOrConnectWithoutInventoryInput = {
@@ -659,9 +761,13 @@ export type ItemCreateWithoutFieldValuesInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
   createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
 }
 
 export type ItemUncheckedCreateWithoutFieldValuesInput = {
@@ -671,8 +777,12 @@ export type ItemUncheckedCreateWithoutFieldValuesInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdById: string
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
 }
 
 export type ItemCreateOrConnectWithoutFieldValuesInput = {
@@ -697,9 +807,13 @@ export type ItemUpdateWithoutFieldValuesInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateWithoutFieldValuesInput = {
@@ -709,8 +823,240 @@ export type ItemUncheckedUpdateWithoutFieldValuesInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
+}
+
+export type ItemCreateWithoutAttachmentsInput = {
+  id?: string
+  customId: string
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
+  fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
+  likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
+}
+
+export type ItemUncheckedCreateWithoutAttachmentsInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  createdById: string
+  fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
+  likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
+}
+
+export type ItemCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.ItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemCreateWithoutAttachmentsInput, Prisma.ItemUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type ItemUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.ItemUpdateWithoutAttachmentsInput, Prisma.ItemUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.ItemCreateWithoutAttachmentsInput, Prisma.ItemUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.ItemWhereInput
+}
+
+export type ItemUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.ItemWhereInput
+  data: Prisma.XOR<Prisma.ItemUpdateWithoutAttachmentsInput, Prisma.ItemUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type ItemUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
+  fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
+  likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
+}
+
+export type ItemUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
+}
+
+export type ItemCreateWithoutRevisionsInput = {
+  id?: string
+  customId: string
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
+  fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
+  likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
+}
+
+export type ItemUncheckedCreateWithoutRevisionsInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  createdById: string
+  fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
+  likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
+}
+
+export type ItemCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.ItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemCreateWithoutRevisionsInput, Prisma.ItemUncheckedCreateWithoutRevisionsInput>
+}
+
+export type ItemUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.ItemUpdateWithoutRevisionsInput, Prisma.ItemUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.ItemCreateWithoutRevisionsInput, Prisma.ItemUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.ItemWhereInput
+}
+
+export type ItemUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.ItemWhereInput
+  data: Prisma.XOR<Prisma.ItemUpdateWithoutRevisionsInput, Prisma.ItemUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type ItemUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
+  fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
+  likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
+}
+
+export type ItemUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
+  likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
+}
+
+export type ItemCreateWithoutCustomIdAliasesInput = {
+  id?: string
+  customId: string
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
+  fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
+  likes?: Prisma.ItemLikeCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+}
+
+export type ItemUncheckedCreateWithoutCustomIdAliasesInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  createdById: string
+  fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
+  likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+}
+
+export type ItemCreateOrConnectWithoutCustomIdAliasesInput = {
+  where: Prisma.ItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemCreateWithoutCustomIdAliasesInput, Prisma.ItemUncheckedCreateWithoutCustomIdAliasesInput>
+}
+
+export type ItemUpsertWithoutCustomIdAliasesInput = {
+  update: Prisma.XOR<Prisma.ItemUpdateWithoutCustomIdAliasesInput, Prisma.ItemUncheckedUpdateWithoutCustomIdAliasesInput>
+  create: Prisma.XOR<Prisma.ItemCreateWithoutCustomIdAliasesInput, Prisma.ItemUncheckedCreateWithoutCustomIdAliasesInput>
+  where?: Prisma.ItemWhereInput
+}
+
+export type ItemUpdateToOneWithWhereWithoutCustomIdAliasesInput = {
+  where?: Prisma.ItemWhereInput
+  data: Prisma.XOR<Prisma.ItemUpdateWithoutCustomIdAliasesInput, Prisma.ItemUncheckedUpdateWithoutCustomIdAliasesInput>
+}
+
+export type ItemUpdateWithoutCustomIdAliasesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
+  fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
+  likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+}
+
+export type ItemUncheckedUpdateWithoutCustomIdAliasesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
+  likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
 }
 
 export type ItemCreateWithoutLikesInput = {
@@ -719,9 +1065,13 @@ export type ItemCreateWithoutLikesInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   inventory: Prisma.InventoryCreateNestedOneWithoutItemsInput
   createdBy: Prisma.UserCreateNestedOneWithoutItemsInput
   fieldValues?: Prisma.ItemFieldValueCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasCreateNestedManyWithoutItemInput
 }
 
 export type ItemUncheckedCreateWithoutLikesInput = {
@@ -731,8 +1081,12 @@ export type ItemUncheckedCreateWithoutLikesInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdById: string
   fieldValues?: Prisma.ItemFieldValueUncheckedCreateNestedManyWithoutItemInput
+  attachments?: Prisma.ItemAttachmentUncheckedCreateNestedManyWithoutItemInput
+  revisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutItemInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput
 }
 
 export type ItemCreateOrConnectWithoutLikesInput = {
@@ -757,9 +1111,13 @@ export type ItemUpdateWithoutLikesInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
   fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateWithoutLikesInput = {
@@ -769,8 +1127,12 @@ export type ItemUncheckedUpdateWithoutLikesInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
 }
 
 export type ItemCreateManyCreatedByInput = {
@@ -780,6 +1142,7 @@ export type ItemCreateManyCreatedByInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
 }
 
 export type ItemUpdateWithoutCreatedByInput = {
@@ -788,9 +1151,13 @@ export type ItemUpdateWithoutCreatedByInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   inventory?: Prisma.InventoryUpdateOneRequiredWithoutItemsNestedInput
   fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateWithoutCreatedByInput = {
@@ -800,8 +1167,12 @@ export type ItemUncheckedUpdateWithoutCreatedByInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateManyWithoutCreatedByInput = {
@@ -811,6 +1182,7 @@ export type ItemUncheckedUpdateManyWithoutCreatedByInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type ItemCreateManyInventoryInput = {
@@ -819,6 +1191,7 @@ export type ItemCreateManyInventoryInput = {
   version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  deletedAt?: Date | string | null
   createdById: string
 }
 
@@ -828,9 +1201,13 @@ export type ItemUpdateWithoutInventoryInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdBy?: Prisma.UserUpdateOneRequiredWithoutItemsNestedInput
   fieldValues?: Prisma.ItemFieldValueUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateWithoutInventoryInput = {
@@ -839,9 +1216,13 @@ export type ItemUncheckedUpdateWithoutInventoryInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   fieldValues?: Prisma.ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutItemNestedInput
+  attachments?: Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput
+  revisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutItemNestedInput
+  customIdAliases?: Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput
 }
 
 export type ItemUncheckedUpdateManyWithoutInventoryInput = {
@@ -850,6 +1231,7 @@ export type ItemUncheckedUpdateManyWithoutInventoryInput = {
   version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
 }
 
@@ -861,11 +1243,17 @@ export type ItemUncheckedUpdateManyWithoutInventoryInput = {
 export type ItemCountOutputType = {
   fieldValues: number
   likes: number
+  attachments: number
+  revisions: number
+  customIdAliases: number
 }
 
 export type ItemCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   fieldValues?: boolean | ItemCountOutputTypeCountFieldValuesArgs
   likes?: boolean | ItemCountOutputTypeCountLikesArgs
+  attachments?: boolean | ItemCountOutputTypeCountAttachmentsArgs
+  revisions?: boolean | ItemCountOutputTypeCountRevisionsArgs
+  customIdAliases?: boolean | ItemCountOutputTypeCountCustomIdAliasesArgs
 }
 
 /**
@@ -892,6 +1280,27 @@ export type ItemCountOutputTypeCountLikesArgs<ExtArgs extends runtime.Types.Exte
   where?: Prisma.ItemLikeWhereInput
 }
 
+/**
+ * ItemCountOutputType without action
+ */
+export type ItemCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemAttachmentWhereInput
+}
+
+/**
+ * ItemCountOutputType without action
+ */
+export type ItemCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemRevisionWhereInput
+}
+
+/**
+ * ItemCountOutputType without action
+ */
+export type ItemCountOutputTypeCountCustomIdAliasesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemCustomIdAliasWhereInput
+}
+
 
 export type ItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -900,11 +1309,15 @@ export type ItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  deletedAt?: boolean
   createdById?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   fieldValues?: boolean | Prisma.Item$fieldValuesArgs<ExtArgs>
   likes?: boolean | Prisma.Item$likesArgs<ExtArgs>
+  attachments?: boolean | Prisma.Item$attachmentsArgs<ExtArgs>
+  revisions?: boolean | Prisma.Item$revisionsArgs<ExtArgs>
+  customIdAliases?: boolean | Prisma.Item$customIdAliasesArgs<ExtArgs>
   _count?: boolean | Prisma.ItemCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["item"]>
 
@@ -915,6 +1328,7 @@ export type ItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  deletedAt?: boolean
   createdById?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -927,6 +1341,7 @@ export type ItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  deletedAt?: boolean
   createdById?: boolean
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -939,15 +1354,19 @@ export type ItemSelectScalar = {
   version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  deletedAt?: boolean
   createdById?: boolean
 }
 
-export type ItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "inventoryId" | "customId" | "version" | "createdAt" | "updatedAt" | "createdById", ExtArgs["result"]["item"]>
+export type ItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "inventoryId" | "customId" | "version" | "createdAt" | "updatedAt" | "deletedAt" | "createdById", ExtArgs["result"]["item"]>
 export type ItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventory?: boolean | Prisma.InventoryDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   fieldValues?: boolean | Prisma.Item$fieldValuesArgs<ExtArgs>
   likes?: boolean | Prisma.Item$likesArgs<ExtArgs>
+  attachments?: boolean | Prisma.Item$attachmentsArgs<ExtArgs>
+  revisions?: boolean | Prisma.Item$revisionsArgs<ExtArgs>
+  customIdAliases?: boolean | Prisma.Item$customIdAliasesArgs<ExtArgs>
   _count?: boolean | Prisma.ItemCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -966,6 +1385,9 @@ export type $ItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     createdBy: Prisma.$UserPayload<ExtArgs>
     fieldValues: Prisma.$ItemFieldValuePayload<ExtArgs>[]
     likes: Prisma.$ItemLikePayload<ExtArgs>[]
+    attachments: Prisma.$ItemAttachmentPayload<ExtArgs>[]
+    revisions: Prisma.$ItemRevisionPayload<ExtArgs>[]
+    customIdAliases: Prisma.$ItemCustomIdAliasPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -974,6 +1396,7 @@ export type $ItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     version: number
     createdAt: Date
     updatedAt: Date
+    deletedAt: Date | null
     createdById: string
   }, ExtArgs["result"]["item"]>
   composites: {}
@@ -1373,6 +1796,9 @@ export interface Prisma__ItemClient<T, Null = never, ExtArgs extends runtime.Typ
   createdBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   fieldValues<T extends Prisma.Item$fieldValuesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Item$fieldValuesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemFieldValuePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   likes<T extends Prisma.Item$likesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Item$likesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemLikePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  attachments<T extends Prisma.Item$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Item$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  revisions<T extends Prisma.Item$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Item$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  customIdAliases<T extends Prisma.Item$customIdAliasesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Item$customIdAliasesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1408,6 +1834,7 @@ export interface ItemFieldRefs {
   readonly version: Prisma.FieldRef<"Item", 'Int'>
   readonly createdAt: Prisma.FieldRef<"Item", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Item", 'DateTime'>
+  readonly deletedAt: Prisma.FieldRef<"Item", 'DateTime'>
   readonly createdById: Prisma.FieldRef<"Item", 'String'>
 }
     
@@ -1852,6 +2279,78 @@ export type Item$likesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs
   distinct?: Prisma.ItemLikeScalarFieldEnum | Prisma.ItemLikeScalarFieldEnum[]
 }
 
+/**
+ * Item.attachments
+ */
+export type Item$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  where?: Prisma.ItemAttachmentWhereInput
+  orderBy?: Prisma.ItemAttachmentOrderByWithRelationInput | Prisma.ItemAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.ItemAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ItemAttachmentScalarFieldEnum | Prisma.ItemAttachmentScalarFieldEnum[]
+}
+
+/**
+ * Item.revisions
+ */
+export type Item$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  where?: Prisma.ItemRevisionWhereInput
+  orderBy?: Prisma.ItemRevisionOrderByWithRelationInput | Prisma.ItemRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.ItemRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ItemRevisionScalarFieldEnum | Prisma.ItemRevisionScalarFieldEnum[]
+}
+
+/**
+ * Item.customIdAliases
+ */
+export type Item$customIdAliasesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  orderBy?: Prisma.ItemCustomIdAliasOrderByWithRelationInput | Prisma.ItemCustomIdAliasOrderByWithRelationInput[]
+  cursor?: Prisma.ItemCustomIdAliasWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ItemCustomIdAliasScalarFieldEnum | Prisma.ItemCustomIdAliasScalarFieldEnum[]
+}
+
 /**
  * Item without action
  */
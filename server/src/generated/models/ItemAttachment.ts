@@ -0,0 +1,1627 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ItemAttachment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ItemAttachment
+ * 
+ */
+export type ItemAttachmentModel = runtime.Types.Result.DefaultSelection<Prisma.$ItemAttachmentPayload>
+
+export type AggregateItemAttachment = {
+  _count: ItemAttachmentCountAggregateOutputType | null
+  _avg: ItemAttachmentAvgAggregateOutputType | null
+  _sum: ItemAttachmentSumAggregateOutputType | null
+  _min: ItemAttachmentMinAggregateOutputType | null
+  _max: ItemAttachmentMaxAggregateOutputType | null
+}
+
+export type ItemAttachmentAvgAggregateOutputType = {
+  size: number | null
+}
+
+export type ItemAttachmentSumAggregateOutputType = {
+  size: number | null
+}
+
+export type ItemAttachmentMinAggregateOutputType = {
+  id: string | null
+  itemId: string | null
+  fieldId: string | null
+  storageKey: string | null
+  fileName: string | null
+  mimeType: string | null
+  size: number | null
+  createdAt: Date | null
+}
+
+export type ItemAttachmentMaxAggregateOutputType = {
+  id: string | null
+  itemId: string | null
+  fieldId: string | null
+  storageKey: string | null
+  fileName: string | null
+  mimeType: string | null
+  size: number | null
+  createdAt: Date | null
+}
+
+export type ItemAttachmentCountAggregateOutputType = {
+  id: number
+  itemId: number
+  fieldId: number
+  storageKey: number
+  fileName: number
+  mimeType: number
+  size: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ItemAttachmentAvgAggregateInputType = {
+  size?: true
+}
+
+export type ItemAttachmentSumAggregateInputType = {
+  size?: true
+}
+
+export type ItemAttachmentMinAggregateInputType = {
+  id?: true
+  itemId?: true
+  fieldId?: true
+  storageKey?: true
+  fileName?: true
+  mimeType?: true
+  size?: true
+  createdAt?: true
+}
+
+export type ItemAttachmentMaxAggregateInputType = {
+  id?: true
+  itemId?: true
+  fieldId?: true
+  storageKey?: true
+  fileName?: true
+  mimeType?: true
+  size?: true
+  createdAt?: true
+}
+
+export type ItemAttachmentCountAggregateInputType = {
+  id?: true
+  itemId?: true
+  fieldId?: true
+  storageKey?: true
+  fileName?: true
+  mimeType?: true
+  size?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ItemAttachmentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ItemAttachment to aggregate.
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemAttachments to fetch.
+   */
+  orderBy?: Prisma.ItemAttachmentOrderByWithRelationInput | Prisma.ItemAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ItemAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemAttachments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ItemAttachments
+  **/
+  _count?: true | ItemAttachmentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ItemAttachmentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ItemAttachmentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ItemAttachmentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ItemAttachmentMaxAggregateInputType
+}
+
+export type GetItemAttachmentAggregateType<T extends ItemAttachmentAggregateArgs> = {
+      [P in keyof T & keyof AggregateItemAttachment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateItemAttachment[P]>
+    : Prisma.GetScalarType<T[P], AggregateItemAttachment[P]>
+}
+
+
+
+
+export type ItemAttachmentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemAttachmentWhereInput
+  orderBy?: Prisma.ItemAttachmentOrderByWithAggregationInput | Prisma.ItemAttachmentOrderByWithAggregationInput[]
+  by: Prisma.ItemAttachmentScalarFieldEnum[] | Prisma.ItemAttachmentScalarFieldEnum
+  having?: Prisma.ItemAttachmentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ItemAttachmentCountAggregateInputType | true
+  _avg?: ItemAttachmentAvgAggregateInputType
+  _sum?: ItemAttachmentSumAggregateInputType
+  _min?: ItemAttachmentMinAggregateInputType
+  _max?: ItemAttachmentMaxAggregateInputType
+}
+
+export type ItemAttachmentGroupByOutputType = {
+  id: string
+  itemId: string
+  fieldId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt: Date
+  _count: ItemAttachmentCountAggregateOutputType | null
+  _avg: ItemAttachmentAvgAggregateOutputType | null
+  _sum: ItemAttachmentSumAggregateOutputType | null
+  _min: ItemAttachmentMinAggregateOutputType | null
+  _max: ItemAttachmentMaxAggregateOutputType | null
+}
+
+type GetItemAttachmentGroupByPayload<T extends ItemAttachmentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ItemAttachmentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ItemAttachmentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ItemAttachmentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ItemAttachmentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ItemAttachmentWhereInput = {
+  AND?: Prisma.ItemAttachmentWhereInput | Prisma.ItemAttachmentWhereInput[]
+  OR?: Prisma.ItemAttachmentWhereInput[]
+  NOT?: Prisma.ItemAttachmentWhereInput | Prisma.ItemAttachmentWhereInput[]
+  id?: Prisma.StringFilter<"ItemAttachment"> | string
+  itemId?: Prisma.StringFilter<"ItemAttachment"> | string
+  fieldId?: Prisma.StringFilter<"ItemAttachment"> | string
+  storageKey?: Prisma.StringFilter<"ItemAttachment"> | string
+  fileName?: Prisma.StringFilter<"ItemAttachment"> | string
+  mimeType?: Prisma.StringFilter<"ItemAttachment"> | string
+  size?: Prisma.IntFilter<"ItemAttachment"> | number
+  createdAt?: Prisma.DateTimeFilter<"ItemAttachment"> | Date | string
+  item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
+  field?: Prisma.XOR<Prisma.InventoryFieldScalarRelationFilter, Prisma.InventoryFieldWhereInput>
+}
+
+export type ItemAttachmentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  mimeType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  item?: Prisma.ItemOrderByWithRelationInput
+  field?: Prisma.InventoryFieldOrderByWithRelationInput
+}
+
+export type ItemAttachmentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  storageKey?: string
+  AND?: Prisma.ItemAttachmentWhereInput | Prisma.ItemAttachmentWhereInput[]
+  OR?: Prisma.ItemAttachmentWhereInput[]
+  NOT?: Prisma.ItemAttachmentWhereInput | Prisma.ItemAttachmentWhereInput[]
+  itemId?: Prisma.StringFilter<"ItemAttachment"> | string
+  fieldId?: Prisma.StringFilter<"ItemAttachment"> | string
+  fileName?: Prisma.StringFilter<"ItemAttachment"> | string
+  mimeType?: Prisma.StringFilter<"ItemAttachment"> | string
+  size?: Prisma.IntFilter<"ItemAttachment"> | number
+  createdAt?: Prisma.DateTimeFilter<"ItemAttachment"> | Date | string
+  item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
+  field?: Prisma.XOR<Prisma.InventoryFieldScalarRelationFilter, Prisma.InventoryFieldWhereInput>
+}, "id" | "storageKey">
+
+export type ItemAttachmentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  mimeType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ItemAttachmentCountOrderByAggregateInput
+  _avg?: Prisma.ItemAttachmentAvgOrderByAggregateInput
+  _max?: Prisma.ItemAttachmentMaxOrderByAggregateInput
+  _min?: Prisma.ItemAttachmentMinOrderByAggregateInput
+  _sum?: Prisma.ItemAttachmentSumOrderByAggregateInput
+}
+
+export type ItemAttachmentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ItemAttachmentScalarWhereWithAggregatesInput | Prisma.ItemAttachmentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ItemAttachmentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ItemAttachmentScalarWhereWithAggregatesInput | Prisma.ItemAttachmentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ItemAttachment"> | string
+  itemId?: Prisma.StringWithAggregatesFilter<"ItemAttachment"> | string
+  fieldId?: Prisma.StringWithAggregatesFilter<"ItemAttachment"> | string
+  storageKey?: Prisma.StringWithAggregatesFilter<"ItemAttachment"> | string
+  fileName?: Prisma.StringWithAggregatesFilter<"ItemAttachment"> | string
+  mimeType?: Prisma.StringWithAggregatesFilter<"ItemAttachment"> | string
+  size?: Prisma.IntWithAggregatesFilter<"ItemAttachment"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ItemAttachment"> | Date | string
+}
+
+export type ItemAttachmentCreateInput = {
+  id?: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+  item: Prisma.ItemCreateNestedOneWithoutAttachmentsInput
+  field: Prisma.InventoryFieldCreateNestedOneWithoutAttachmentsInput
+}
+
+export type ItemAttachmentUncheckedCreateInput = {
+  id?: string
+  itemId: string
+  fieldId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+}
+
+export type ItemAttachmentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  item?: Prisma.ItemUpdateOneRequiredWithoutAttachmentsNestedInput
+  field?: Prisma.InventoryFieldUpdateOneRequiredWithoutAttachmentsNestedInput
+}
+
+export type ItemAttachmentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldId?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemAttachmentCreateManyInput = {
+  id?: string
+  itemId: string
+  fieldId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+}
+
+export type ItemAttachmentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemAttachmentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldId?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemAttachmentListRelationFilter = {
+  every?: Prisma.ItemAttachmentWhereInput
+  some?: Prisma.ItemAttachmentWhereInput
+  none?: Prisma.ItemAttachmentWhereInput
+}
+
+export type ItemAttachmentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ItemAttachmentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  mimeType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemAttachmentAvgOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+}
+
+export type ItemAttachmentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  mimeType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemAttachmentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  fieldId?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  mimeType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemAttachmentSumOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+}
+
+export type ItemAttachmentCreateNestedManyWithoutFieldInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutFieldInput, Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput> | Prisma.ItemAttachmentCreateWithoutFieldInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput | Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyFieldInputEnvelope
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+}
+
+export type ItemAttachmentUncheckedCreateNestedManyWithoutFieldInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutFieldInput, Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput> | Prisma.ItemAttachmentCreateWithoutFieldInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput | Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyFieldInputEnvelope
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+}
+
+export type ItemAttachmentUpdateManyWithoutFieldNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutFieldInput, Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput> | Prisma.ItemAttachmentCreateWithoutFieldInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput | Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput[]
+  upsert?: Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutFieldInput | Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutFieldInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyFieldInputEnvelope
+  set?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  delete?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  update?: Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutFieldInput | Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutFieldInput[]
+  updateMany?: Prisma.ItemAttachmentUpdateManyWithWhereWithoutFieldInput | Prisma.ItemAttachmentUpdateManyWithWhereWithoutFieldInput[]
+  deleteMany?: Prisma.ItemAttachmentScalarWhereInput | Prisma.ItemAttachmentScalarWhereInput[]
+}
+
+export type ItemAttachmentUncheckedUpdateManyWithoutFieldNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutFieldInput, Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput> | Prisma.ItemAttachmentCreateWithoutFieldInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput | Prisma.ItemAttachmentCreateOrConnectWithoutFieldInput[]
+  upsert?: Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutFieldInput | Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutFieldInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyFieldInputEnvelope
+  set?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  delete?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  update?: Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutFieldInput | Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutFieldInput[]
+  updateMany?: Prisma.ItemAttachmentUpdateManyWithWhereWithoutFieldInput | Prisma.ItemAttachmentUpdateManyWithWhereWithoutFieldInput[]
+  deleteMany?: Prisma.ItemAttachmentScalarWhereInput | Prisma.ItemAttachmentScalarWhereInput[]
+}
+
+export type ItemAttachmentCreateNestedManyWithoutItemInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutItemInput, Prisma.ItemAttachmentUncheckedCreateWithoutItemInput> | Prisma.ItemAttachmentCreateWithoutItemInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutItemInput | Prisma.ItemAttachmentCreateOrConnectWithoutItemInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyItemInputEnvelope
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+}
+
+export type ItemAttachmentUncheckedCreateNestedManyWithoutItemInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutItemInput, Prisma.ItemAttachmentUncheckedCreateWithoutItemInput> | Prisma.ItemAttachmentCreateWithoutItemInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutItemInput | Prisma.ItemAttachmentCreateOrConnectWithoutItemInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyItemInputEnvelope
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+}
+
+export type ItemAttachmentUpdateManyWithoutItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutItemInput, Prisma.ItemAttachmentUncheckedCreateWithoutItemInput> | Prisma.ItemAttachmentCreateWithoutItemInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutItemInput | Prisma.ItemAttachmentCreateOrConnectWithoutItemInput[]
+  upsert?: Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutItemInput | Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutItemInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyItemInputEnvelope
+  set?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  delete?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  update?: Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutItemInput | Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutItemInput[]
+  updateMany?: Prisma.ItemAttachmentUpdateManyWithWhereWithoutItemInput | Prisma.ItemAttachmentUpdateManyWithWhereWithoutItemInput[]
+  deleteMany?: Prisma.ItemAttachmentScalarWhereInput | Prisma.ItemAttachmentScalarWhereInput[]
+}
+
+export type ItemAttachmentUncheckedUpdateManyWithoutItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutItemInput, Prisma.ItemAttachmentUncheckedCreateWithoutItemInput> | Prisma.ItemAttachmentCreateWithoutItemInput[] | Prisma.ItemAttachmentUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemAttachmentCreateOrConnectWithoutItemInput | Prisma.ItemAttachmentCreateOrConnectWithoutItemInput[]
+  upsert?: Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutItemInput | Prisma.ItemAttachmentUpsertWithWhereUniqueWithoutItemInput[]
+  createMany?: Prisma.ItemAttachmentCreateManyItemInputEnvelope
+  set?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  delete?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  connect?: Prisma.ItemAttachmentWhereUniqueInput | Prisma.ItemAttachmentWhereUniqueInput[]
+  update?: Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutItemInput | Prisma.ItemAttachmentUpdateWithWhereUniqueWithoutItemInput[]
+  updateMany?: Prisma.ItemAttachmentUpdateManyWithWhereWithoutItemInput | Prisma.ItemAttachmentUpdateManyWithWhereWithoutItemInput[]
+  deleteMany?: Prisma.ItemAttachmentScalarWhereInput | Prisma.ItemAttachmentScalarWhereInput[]
+}
+
+export type ItemAttachmentCreateWithoutFieldInput = {
+  id?: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+  item: Prisma.ItemCreateNestedOneWithoutAttachmentsInput
+}
+
+export type ItemAttachmentUncheckedCreateWithoutFieldInput = {
+  id?: string
+  itemId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+}
+
+export type ItemAttachmentCreateOrConnectWithoutFieldInput = {
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutFieldInput, Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput>
+}
+
+export type ItemAttachmentCreateManyFieldInputEnvelope = {
+  data: Prisma.ItemAttachmentCreateManyFieldInput | Prisma.ItemAttachmentCreateManyFieldInput[]
+  skipDuplicates?: boolean
+}
+
+export type ItemAttachmentUpsertWithWhereUniqueWithoutFieldInput = {
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ItemAttachmentUpdateWithoutFieldInput, Prisma.ItemAttachmentUncheckedUpdateWithoutFieldInput>
+  create: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutFieldInput, Prisma.ItemAttachmentUncheckedCreateWithoutFieldInput>
+}
+
+export type ItemAttachmentUpdateWithWhereUniqueWithoutFieldInput = {
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateWithoutFieldInput, Prisma.ItemAttachmentUncheckedUpdateWithoutFieldInput>
+}
+
+export type ItemAttachmentUpdateManyWithWhereWithoutFieldInput = {
+  where: Prisma.ItemAttachmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateManyMutationInput, Prisma.ItemAttachmentUncheckedUpdateManyWithoutFieldInput>
+}
+
+export type ItemAttachmentScalarWhereInput = {
+  AND?: Prisma.ItemAttachmentScalarWhereInput | Prisma.ItemAttachmentScalarWhereInput[]
+  OR?: Prisma.ItemAttachmentScalarWhereInput[]
+  NOT?: Prisma.ItemAttachmentScalarWhereInput | Prisma.ItemAttachmentScalarWhereInput[]
+  id?: Prisma.StringFilter<"ItemAttachment"> | string
+  itemId?: Prisma.StringFilter<"ItemAttachment"> | string
+  fieldId?: Prisma.StringFilter<"ItemAttachment"> | string
+  storageKey?: Prisma.StringFilter<"ItemAttachment"> | string
+  fileName?: Prisma.StringFilter<"ItemAttachment"> | string
+  mimeType?: Prisma.StringFilter<"ItemAttachment"> | string
+  size?: Prisma.IntFilter<"ItemAttachment"> | number
+  createdAt?: Prisma.DateTimeFilter<"ItemAttachment"> | Date | string
+}
+
+export type ItemAttachmentCreateWithoutItemInput = {
+  id?: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+  field: Prisma.InventoryFieldCreateNestedOneWithoutAttachmentsInput
+}
+
+export type ItemAttachmentUncheckedCreateWithoutItemInput = {
+  id?: string
+  fieldId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+}
+
+export type ItemAttachmentCreateOrConnectWithoutItemInput = {
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutItemInput, Prisma.ItemAttachmentUncheckedCreateWithoutItemInput>
+}
+
+export type ItemAttachmentCreateManyItemInputEnvelope = {
+  data: Prisma.ItemAttachmentCreateManyItemInput | Prisma.ItemAttachmentCreateManyItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type ItemAttachmentUpsertWithWhereUniqueWithoutItemInput = {
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ItemAttachmentUpdateWithoutItemInput, Prisma.ItemAttachmentUncheckedUpdateWithoutItemInput>
+  create: Prisma.XOR<Prisma.ItemAttachmentCreateWithoutItemInput, Prisma.ItemAttachmentUncheckedCreateWithoutItemInput>
+}
+
+export type ItemAttachmentUpdateWithWhereUniqueWithoutItemInput = {
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateWithoutItemInput, Prisma.ItemAttachmentUncheckedUpdateWithoutItemInput>
+}
+
+export type ItemAttachmentUpdateManyWithWhereWithoutItemInput = {
+  where: Prisma.ItemAttachmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateManyMutationInput, Prisma.ItemAttachmentUncheckedUpdateManyWithoutItemInput>
+}
+
+export type ItemAttachmentCreateManyFieldInput = {
+  id?: string
+  itemId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+}
+
+export type ItemAttachmentUpdateWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  item?: Prisma.ItemUpdateOneRequiredWithoutAttachmentsNestedInput
+}
+
+export type ItemAttachmentUncheckedUpdateWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemAttachmentUncheckedUpdateManyWithoutFieldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemAttachmentCreateManyItemInput = {
+  id?: string
+  fieldId: string
+  storageKey: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt?: Date | string
+}
+
+export type ItemAttachmentUpdateWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  field?: Prisma.InventoryFieldUpdateOneRequiredWithoutAttachmentsNestedInput
+}
+
+export type ItemAttachmentUncheckedUpdateWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldId?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemAttachmentUncheckedUpdateManyWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fieldId?: Prisma.StringFieldUpdateOperationsInput | string
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ItemAttachmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  fieldId?: boolean
+  storageKey?: boolean
+  fileName?: boolean
+  mimeType?: boolean
+  size?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["itemAttachment"]>
+
+export type ItemAttachmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  fieldId?: boolean
+  storageKey?: boolean
+  fileName?: boolean
+  mimeType?: boolean
+  size?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["itemAttachment"]>
+
+export type ItemAttachmentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  fieldId?: boolean
+  storageKey?: boolean
+  fileName?: boolean
+  mimeType?: boolean
+  size?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["itemAttachment"]>
+
+export type ItemAttachmentSelectScalar = {
+  id?: boolean
+  itemId?: boolean
+  fieldId?: boolean
+  storageKey?: boolean
+  fileName?: boolean
+  mimeType?: boolean
+  size?: boolean
+  createdAt?: boolean
+}
+
+export type ItemAttachmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itemId" | "fieldId" | "storageKey" | "fileName" | "mimeType" | "size" | "createdAt", ExtArgs["result"]["itemAttachment"]>
+export type ItemAttachmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}
+export type ItemAttachmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}
+export type ItemAttachmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
+}
+
+export type $ItemAttachmentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ItemAttachment"
+  objects: {
+    item: Prisma.$ItemPayload<ExtArgs>
+    field: Prisma.$InventoryFieldPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    itemId: string
+    fieldId: string
+    storageKey: string
+    fileName: string
+    mimeType: string
+    size: number
+    createdAt: Date
+  }, ExtArgs["result"]["itemAttachment"]>
+  composites: {}
+}
+
+export type ItemAttachmentGetPayload<S extends boolean | null | undefined | ItemAttachmentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload, S>
+
+export type ItemAttachmentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ItemAttachmentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ItemAttachmentCountAggregateInputType | true
+  }
+
+export interface ItemAttachmentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ItemAttachment'], meta: { name: 'ItemAttachment' } }
+  /**
+   * Find zero or one ItemAttachment that matches the filter.
+   * @param {ItemAttachmentFindUniqueArgs} args - Arguments to find a ItemAttachment
+   * @example
+   * // Get one ItemAttachment
+   * const itemAttachment = await prisma.itemAttachment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ItemAttachmentFindUniqueArgs>(args: Prisma.SelectSubset<T, ItemAttachmentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ItemAttachment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ItemAttachmentFindUniqueOrThrowArgs} args - Arguments to find a ItemAttachment
+   * @example
+   * // Get one ItemAttachment
+   * const itemAttachment = await prisma.itemAttachment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ItemAttachmentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ItemAttachmentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ItemAttachment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentFindFirstArgs} args - Arguments to find a ItemAttachment
+   * @example
+   * // Get one ItemAttachment
+   * const itemAttachment = await prisma.itemAttachment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ItemAttachmentFindFirstArgs>(args?: Prisma.SelectSubset<T, ItemAttachmentFindFirstArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ItemAttachment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentFindFirstOrThrowArgs} args - Arguments to find a ItemAttachment
+   * @example
+   * // Get one ItemAttachment
+   * const itemAttachment = await prisma.itemAttachment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ItemAttachmentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ItemAttachmentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ItemAttachments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ItemAttachments
+   * const itemAttachments = await prisma.itemAttachment.findMany()
+   * 
+   * // Get first 10 ItemAttachments
+   * const itemAttachments = await prisma.itemAttachment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const itemAttachmentWithIdOnly = await prisma.itemAttachment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ItemAttachmentFindManyArgs>(args?: Prisma.SelectSubset<T, ItemAttachmentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ItemAttachment.
+   * @param {ItemAttachmentCreateArgs} args - Arguments to create a ItemAttachment.
+   * @example
+   * // Create one ItemAttachment
+   * const ItemAttachment = await prisma.itemAttachment.create({
+   *   data: {
+   *     // ... data to create a ItemAttachment
+   *   }
+   * })
+   * 
+   */
+  create<T extends ItemAttachmentCreateArgs>(args: Prisma.SelectSubset<T, ItemAttachmentCreateArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ItemAttachments.
+   * @param {ItemAttachmentCreateManyArgs} args - Arguments to create many ItemAttachments.
+   * @example
+   * // Create many ItemAttachments
+   * const itemAttachment = await prisma.itemAttachment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ItemAttachmentCreateManyArgs>(args?: Prisma.SelectSubset<T, ItemAttachmentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ItemAttachments and returns the data saved in the database.
+   * @param {ItemAttachmentCreateManyAndReturnArgs} args - Arguments to create many ItemAttachments.
+   * @example
+   * // Create many ItemAttachments
+   * const itemAttachment = await prisma.itemAttachment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ItemAttachments and only return the `id`
+   * const itemAttachmentWithIdOnly = await prisma.itemAttachment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ItemAttachmentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ItemAttachmentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ItemAttachment.
+   * @param {ItemAttachmentDeleteArgs} args - Arguments to delete one ItemAttachment.
+   * @example
+   * // Delete one ItemAttachment
+   * const ItemAttachment = await prisma.itemAttachment.delete({
+   *   where: {
+   *     // ... filter to delete one ItemAttachment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ItemAttachmentDeleteArgs>(args: Prisma.SelectSubset<T, ItemAttachmentDeleteArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ItemAttachment.
+   * @param {ItemAttachmentUpdateArgs} args - Arguments to update one ItemAttachment.
+   * @example
+   * // Update one ItemAttachment
+   * const itemAttachment = await prisma.itemAttachment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ItemAttachmentUpdateArgs>(args: Prisma.SelectSubset<T, ItemAttachmentUpdateArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ItemAttachments.
+   * @param {ItemAttachmentDeleteManyArgs} args - Arguments to filter ItemAttachments to delete.
+   * @example
+   * // Delete a few ItemAttachments
+   * const { count } = await prisma.itemAttachment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ItemAttachmentDeleteManyArgs>(args?: Prisma.SelectSubset<T, ItemAttachmentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ItemAttachments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ItemAttachments
+   * const itemAttachment = await prisma.itemAttachment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ItemAttachmentUpdateManyArgs>(args: Prisma.SelectSubset<T, ItemAttachmentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ItemAttachments and returns the data updated in the database.
+   * @param {ItemAttachmentUpdateManyAndReturnArgs} args - Arguments to update many ItemAttachments.
+   * @example
+   * // Update many ItemAttachments
+   * const itemAttachment = await prisma.itemAttachment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ItemAttachments and only return the `id`
+   * const itemAttachmentWithIdOnly = await prisma.itemAttachment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ItemAttachmentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ItemAttachmentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ItemAttachment.
+   * @param {ItemAttachmentUpsertArgs} args - Arguments to update or create a ItemAttachment.
+   * @example
+   * // Update or create a ItemAttachment
+   * const itemAttachment = await prisma.itemAttachment.upsert({
+   *   create: {
+   *     // ... data to create a ItemAttachment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ItemAttachment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ItemAttachmentUpsertArgs>(args: Prisma.SelectSubset<T, ItemAttachmentUpsertArgs<ExtArgs>>): Prisma.Prisma__ItemAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ItemAttachmentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ItemAttachments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentCountArgs} args - Arguments to filter ItemAttachments to count.
+   * @example
+   * // Count the number of ItemAttachments
+   * const count = await prisma.itemAttachment.count({
+   *   where: {
+   *     // ... the filter for the ItemAttachments we want to count
+   *   }
+   * })
+  **/
+  count<T extends ItemAttachmentCountArgs>(
+    args?: Prisma.Subset<T, ItemAttachmentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ItemAttachmentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ItemAttachment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ItemAttachmentAggregateArgs>(args: Prisma.Subset<T, ItemAttachmentAggregateArgs>): Prisma.PrismaPromise<GetItemAttachmentAggregateType<T>>
+
+  /**
+   * Group by ItemAttachment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemAttachmentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ItemAttachmentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ItemAttachmentGroupByArgs['orderBy'] }
+      : { orderBy?: ItemAttachmentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ItemAttachmentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetItemAttachmentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ItemAttachment model
+ */
+readonly fields: ItemAttachmentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ItemAttachment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ItemAttachmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  item<T extends Prisma.ItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItemDefaultArgs<ExtArgs>>): Prisma.Prisma__ItemClient<runtime.Types.Result.GetResult<Prisma.$ItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  field<T extends Prisma.InventoryFieldDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryFieldDefaultArgs<ExtArgs>>): Prisma.Prisma__InventoryFieldClient<runtime.Types.Result.GetResult<Prisma.$InventoryFieldPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ItemAttachment model
+ */
+export interface ItemAttachmentFieldRefs {
+  readonly id: Prisma.FieldRef<"ItemAttachment", 'String'>
+  readonly itemId: Prisma.FieldRef<"ItemAttachment", 'String'>
+  readonly fieldId: Prisma.FieldRef<"ItemAttachment", 'String'>
+  readonly storageKey: Prisma.FieldRef<"ItemAttachment", 'String'>
+  readonly fileName: Prisma.FieldRef<"ItemAttachment", 'String'>
+  readonly mimeType: Prisma.FieldRef<"ItemAttachment", 'String'>
+  readonly size: Prisma.FieldRef<"ItemAttachment", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ItemAttachment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ItemAttachment findUnique
+ */
+export type ItemAttachmentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemAttachment to fetch.
+   */
+  where: Prisma.ItemAttachmentWhereUniqueInput
+}
+
+/**
+ * ItemAttachment findUniqueOrThrow
+ */
+export type ItemAttachmentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemAttachment to fetch.
+   */
+  where: Prisma.ItemAttachmentWhereUniqueInput
+}
+
+/**
+ * ItemAttachment findFirst
+ */
+export type ItemAttachmentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemAttachment to fetch.
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemAttachments to fetch.
+   */
+  orderBy?: Prisma.ItemAttachmentOrderByWithRelationInput | Prisma.ItemAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ItemAttachments.
+   */
+  cursor?: Prisma.ItemAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemAttachments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ItemAttachments.
+   */
+  distinct?: Prisma.ItemAttachmentScalarFieldEnum | Prisma.ItemAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ItemAttachment findFirstOrThrow
+ */
+export type ItemAttachmentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemAttachment to fetch.
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemAttachments to fetch.
+   */
+  orderBy?: Prisma.ItemAttachmentOrderByWithRelationInput | Prisma.ItemAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ItemAttachments.
+   */
+  cursor?: Prisma.ItemAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemAttachments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ItemAttachments.
+   */
+  distinct?: Prisma.ItemAttachmentScalarFieldEnum | Prisma.ItemAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ItemAttachment findMany
+ */
+export type ItemAttachmentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemAttachments to fetch.
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemAttachments to fetch.
+   */
+  orderBy?: Prisma.ItemAttachmentOrderByWithRelationInput | Prisma.ItemAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ItemAttachments.
+   */
+  cursor?: Prisma.ItemAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemAttachments.
+   */
+  skip?: number
+  distinct?: Prisma.ItemAttachmentScalarFieldEnum | Prisma.ItemAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ItemAttachment create
+ */
+export type ItemAttachmentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ItemAttachment.
+   */
+  data: Prisma.XOR<Prisma.ItemAttachmentCreateInput, Prisma.ItemAttachmentUncheckedCreateInput>
+}
+
+/**
+ * ItemAttachment createMany
+ */
+export type ItemAttachmentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ItemAttachments.
+   */
+  data: Prisma.ItemAttachmentCreateManyInput | Prisma.ItemAttachmentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ItemAttachment createManyAndReturn
+ */
+export type ItemAttachmentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * The data used to create many ItemAttachments.
+   */
+  data: Prisma.ItemAttachmentCreateManyInput | Prisma.ItemAttachmentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ItemAttachment update
+ */
+export type ItemAttachmentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ItemAttachment.
+   */
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateInput, Prisma.ItemAttachmentUncheckedUpdateInput>
+  /**
+   * Choose, which ItemAttachment to update.
+   */
+  where: Prisma.ItemAttachmentWhereUniqueInput
+}
+
+/**
+ * ItemAttachment updateMany
+ */
+export type ItemAttachmentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ItemAttachments.
+   */
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateManyMutationInput, Prisma.ItemAttachmentUncheckedUpdateManyInput>
+  /**
+   * Filter which ItemAttachments to update
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * Limit how many ItemAttachments to update.
+   */
+  limit?: number
+}
+
+/**
+ * ItemAttachment updateManyAndReturn
+ */
+export type ItemAttachmentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * The data used to update ItemAttachments.
+   */
+  data: Prisma.XOR<Prisma.ItemAttachmentUpdateManyMutationInput, Prisma.ItemAttachmentUncheckedUpdateManyInput>
+  /**
+   * Filter which ItemAttachments to update
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * Limit how many ItemAttachments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ItemAttachment upsert
+ */
+export type ItemAttachmentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ItemAttachment to update in case it exists.
+   */
+  where: Prisma.ItemAttachmentWhereUniqueInput
+  /**
+   * In case the ItemAttachment found by the `where` argument doesn't exist, create a new ItemAttachment with this data.
+   */
+  create: Prisma.XOR<Prisma.ItemAttachmentCreateInput, Prisma.ItemAttachmentUncheckedCreateInput>
+  /**
+   * In case the ItemAttachment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ItemAttachmentUpdateInput, Prisma.ItemAttachmentUncheckedUpdateInput>
+}
+
+/**
+ * ItemAttachment delete
+ */
+export type ItemAttachmentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter which ItemAttachment to delete.
+   */
+  where: Prisma.ItemAttachmentWhereUniqueInput
+}
+
+/**
+ * ItemAttachment deleteMany
+ */
+export type ItemAttachmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ItemAttachments to delete
+   */
+  where?: Prisma.ItemAttachmentWhereInput
+  /**
+   * Limit how many ItemAttachments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ItemAttachment without action
+ */
+export type ItemAttachmentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemAttachment
+   */
+  select?: Prisma.ItemAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemAttachment
+   */
+  omit?: Prisma.ItemAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemAttachmentInclude<ExtArgs> | null
+}
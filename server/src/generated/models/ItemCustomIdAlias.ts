@@ -0,0 +1,1340 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ItemCustomIdAlias` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ItemCustomIdAlias
+ * 
+ */
+export type ItemCustomIdAliasModel = runtime.Types.Result.DefaultSelection<Prisma.$ItemCustomIdAliasPayload>
+
+export type AggregateItemCustomIdAlias = {
+  _count: ItemCustomIdAliasCountAggregateOutputType | null
+  _min: ItemCustomIdAliasMinAggregateOutputType | null
+  _max: ItemCustomIdAliasMaxAggregateOutputType | null
+}
+
+export type ItemCustomIdAliasMinAggregateOutputType = {
+  id: string | null
+  itemId: string | null
+  inventoryId: string | null
+  customId: string | null
+  createdAt: Date | null
+}
+
+export type ItemCustomIdAliasMaxAggregateOutputType = {
+  id: string | null
+  itemId: string | null
+  inventoryId: string | null
+  customId: string | null
+  createdAt: Date | null
+}
+
+export type ItemCustomIdAliasCountAggregateOutputType = {
+  id: number
+  itemId: number
+  inventoryId: number
+  customId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ItemCustomIdAliasMinAggregateInputType = {
+  id?: true
+  itemId?: true
+  inventoryId?: true
+  customId?: true
+  createdAt?: true
+}
+
+export type ItemCustomIdAliasMaxAggregateInputType = {
+  id?: true
+  itemId?: true
+  inventoryId?: true
+  customId?: true
+  createdAt?: true
+}
+
+export type ItemCustomIdAliasCountAggregateInputType = {
+  id?: true
+  itemId?: true
+  inventoryId?: true
+  customId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ItemCustomIdAliasAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ItemCustomIdAlias to aggregate.
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemCustomIdAliases to fetch.
+   */
+  orderBy?: Prisma.ItemCustomIdAliasOrderByWithRelationInput | Prisma.ItemCustomIdAliasOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ItemCustomIdAliasWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemCustomIdAliases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemCustomIdAliases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ItemCustomIdAliases
+  **/
+  _count?: true | ItemCustomIdAliasCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ItemCustomIdAliasMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ItemCustomIdAliasMaxAggregateInputType
+}
+
+export type GetItemCustomIdAliasAggregateType<T extends ItemCustomIdAliasAggregateArgs> = {
+      [P in keyof T & keyof AggregateItemCustomIdAlias]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateItemCustomIdAlias[P]>
+    : Prisma.GetScalarType<T[P], AggregateItemCustomIdAlias[P]>
+}
+
+
+
+
+export type ItemCustomIdAliasGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  orderBy?: Prisma.ItemCustomIdAliasOrderByWithAggregationInput | Prisma.ItemCustomIdAliasOrderByWithAggregationInput[]
+  by: Prisma.ItemCustomIdAliasScalarFieldEnum[] | Prisma.ItemCustomIdAliasScalarFieldEnum
+  having?: Prisma.ItemCustomIdAliasScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ItemCustomIdAliasCountAggregateInputType | true
+  _min?: ItemCustomIdAliasMinAggregateInputType
+  _max?: ItemCustomIdAliasMaxAggregateInputType
+}
+
+export type ItemCustomIdAliasGroupByOutputType = {
+  id: string
+  itemId: string
+  inventoryId: string
+  customId: string
+  createdAt: Date
+  _count: ItemCustomIdAliasCountAggregateOutputType | null
+  _min: ItemCustomIdAliasMinAggregateOutputType | null
+  _max: ItemCustomIdAliasMaxAggregateOutputType | null
+}
+
+type GetItemCustomIdAliasGroupByPayload<T extends ItemCustomIdAliasGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ItemCustomIdAliasGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ItemCustomIdAliasGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ItemCustomIdAliasGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ItemCustomIdAliasGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ItemCustomIdAliasWhereInput = {
+  AND?: Prisma.ItemCustomIdAliasWhereInput | Prisma.ItemCustomIdAliasWhereInput[]
+  OR?: Prisma.ItemCustomIdAliasWhereInput[]
+  NOT?: Prisma.ItemCustomIdAliasWhereInput | Prisma.ItemCustomIdAliasWhereInput[]
+  id?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  itemId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  inventoryId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  customId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  createdAt?: Prisma.DateTimeFilter<"ItemCustomIdAlias"> | Date | string
+  item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
+}
+
+export type ItemCustomIdAliasOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  customId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  item?: Prisma.ItemOrderByWithRelationInput
+}
+
+export type ItemCustomIdAliasWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ItemCustomIdAliasWhereInput | Prisma.ItemCustomIdAliasWhereInput[]
+  OR?: Prisma.ItemCustomIdAliasWhereInput[]
+  NOT?: Prisma.ItemCustomIdAliasWhereInput | Prisma.ItemCustomIdAliasWhereInput[]
+  itemId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  inventoryId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  customId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  createdAt?: Prisma.DateTimeFilter<"ItemCustomIdAlias"> | Date | string
+  item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
+}, "id">
+
+export type ItemCustomIdAliasOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  customId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ItemCustomIdAliasCountOrderByAggregateInput
+  _max?: Prisma.ItemCustomIdAliasMaxOrderByAggregateInput
+  _min?: Prisma.ItemCustomIdAliasMinOrderByAggregateInput
+}
+
+export type ItemCustomIdAliasScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ItemCustomIdAliasScalarWhereWithAggregatesInput | Prisma.ItemCustomIdAliasScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ItemCustomIdAliasScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ItemCustomIdAliasScalarWhereWithAggregatesInput | Prisma.ItemCustomIdAliasScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ItemCustomIdAlias"> | string
+  itemId?: Prisma.StringWithAggregatesFilter<"ItemCustomIdAlias"> | string
+  inventoryId?: Prisma.StringWithAggregatesFilter<"ItemCustomIdAlias"> | string
+  customId?: Prisma.StringWithAggregatesFilter<"ItemCustomIdAlias"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ItemCustomIdAlias"> | Date | string
+}
+
+export type ItemCustomIdAliasCreateInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  createdAt?: Date | string
+  item: Prisma.ItemCreateNestedOneWithoutCustomIdAliasesInput
+}
+
+export type ItemCustomIdAliasUncheckedCreateInput = {
+  id?: string
+  itemId: string
+  inventoryId: string
+  customId: string
+  createdAt?: Date | string
+}
+
+export type ItemCustomIdAliasUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  item?: Prisma.ItemUpdateOneRequiredWithoutCustomIdAliasesNestedInput
+}
+
+export type ItemCustomIdAliasUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemCustomIdAliasCreateManyInput = {
+  id?: string
+  itemId: string
+  inventoryId: string
+  customId: string
+  createdAt?: Date | string
+}
+
+export type ItemCustomIdAliasUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemCustomIdAliasUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemCustomIdAliasListRelationFilter = {
+  every?: Prisma.ItemCustomIdAliasWhereInput
+  some?: Prisma.ItemCustomIdAliasWhereInput
+  none?: Prisma.ItemCustomIdAliasWhereInput
+}
+
+export type ItemCustomIdAliasOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ItemCustomIdAliasCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  customId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemCustomIdAliasMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  customId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemCustomIdAliasMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  customId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemCustomIdAliasCreateNestedManyWithoutItemInput = {
+  create?: Prisma.XOR<Prisma.ItemCustomIdAliasCreateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput> | Prisma.ItemCustomIdAliasCreateWithoutItemInput[] | Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput | Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput[]
+  createMany?: Prisma.ItemCustomIdAliasCreateManyItemInputEnvelope
+  connect?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+}
+
+export type ItemCustomIdAliasUncheckedCreateNestedManyWithoutItemInput = {
+  create?: Prisma.XOR<Prisma.ItemCustomIdAliasCreateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput> | Prisma.ItemCustomIdAliasCreateWithoutItemInput[] | Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput | Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput[]
+  createMany?: Prisma.ItemCustomIdAliasCreateManyItemInputEnvelope
+  connect?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+}
+
+export type ItemCustomIdAliasUpdateManyWithoutItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemCustomIdAliasCreateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput> | Prisma.ItemCustomIdAliasCreateWithoutItemInput[] | Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput | Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput[]
+  upsert?: Prisma.ItemCustomIdAliasUpsertWithWhereUniqueWithoutItemInput | Prisma.ItemCustomIdAliasUpsertWithWhereUniqueWithoutItemInput[]
+  createMany?: Prisma.ItemCustomIdAliasCreateManyItemInputEnvelope
+  set?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  disconnect?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  delete?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  connect?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  update?: Prisma.ItemCustomIdAliasUpdateWithWhereUniqueWithoutItemInput | Prisma.ItemCustomIdAliasUpdateWithWhereUniqueWithoutItemInput[]
+  updateMany?: Prisma.ItemCustomIdAliasUpdateManyWithWhereWithoutItemInput | Prisma.ItemCustomIdAliasUpdateManyWithWhereWithoutItemInput[]
+  deleteMany?: Prisma.ItemCustomIdAliasScalarWhereInput | Prisma.ItemCustomIdAliasScalarWhereInput[]
+}
+
+export type ItemCustomIdAliasUncheckedUpdateManyWithoutItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemCustomIdAliasCreateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput> | Prisma.ItemCustomIdAliasCreateWithoutItemInput[] | Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput | Prisma.ItemCustomIdAliasCreateOrConnectWithoutItemInput[]
+  upsert?: Prisma.ItemCustomIdAliasUpsertWithWhereUniqueWithoutItemInput | Prisma.ItemCustomIdAliasUpsertWithWhereUniqueWithoutItemInput[]
+  createMany?: Prisma.ItemCustomIdAliasCreateManyItemInputEnvelope
+  set?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  disconnect?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  delete?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  connect?: Prisma.ItemCustomIdAliasWhereUniqueInput | Prisma.ItemCustomIdAliasWhereUniqueInput[]
+  update?: Prisma.ItemCustomIdAliasUpdateWithWhereUniqueWithoutItemInput | Prisma.ItemCustomIdAliasUpdateWithWhereUniqueWithoutItemInput[]
+  updateMany?: Prisma.ItemCustomIdAliasUpdateManyWithWhereWithoutItemInput | Prisma.ItemCustomIdAliasUpdateManyWithWhereWithoutItemInput[]
+  deleteMany?: Prisma.ItemCustomIdAliasScalarWhereInput | Prisma.ItemCustomIdAliasScalarWhereInput[]
+}
+
+export type ItemCustomIdAliasCreateWithoutItemInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  createdAt?: Date | string
+}
+
+export type ItemCustomIdAliasUncheckedCreateWithoutItemInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  createdAt?: Date | string
+}
+
+export type ItemCustomIdAliasCreateOrConnectWithoutItemInput = {
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemCustomIdAliasCreateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput>
+}
+
+export type ItemCustomIdAliasCreateManyItemInputEnvelope = {
+  data: Prisma.ItemCustomIdAliasCreateManyItemInput | Prisma.ItemCustomIdAliasCreateManyItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type ItemCustomIdAliasUpsertWithWhereUniqueWithoutItemInput = {
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+  update: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedUpdateWithoutItemInput>
+  create: Prisma.XOR<Prisma.ItemCustomIdAliasCreateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedCreateWithoutItemInput>
+}
+
+export type ItemCustomIdAliasUpdateWithWhereUniqueWithoutItemInput = {
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+  data: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateWithoutItemInput, Prisma.ItemCustomIdAliasUncheckedUpdateWithoutItemInput>
+}
+
+export type ItemCustomIdAliasUpdateManyWithWhereWithoutItemInput = {
+  where: Prisma.ItemCustomIdAliasScalarWhereInput
+  data: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateManyMutationInput, Prisma.ItemCustomIdAliasUncheckedUpdateManyWithoutItemInput>
+}
+
+export type ItemCustomIdAliasScalarWhereInput = {
+  AND?: Prisma.ItemCustomIdAliasScalarWhereInput | Prisma.ItemCustomIdAliasScalarWhereInput[]
+  OR?: Prisma.ItemCustomIdAliasScalarWhereInput[]
+  NOT?: Prisma.ItemCustomIdAliasScalarWhereInput | Prisma.ItemCustomIdAliasScalarWhereInput[]
+  id?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  itemId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  inventoryId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  customId?: Prisma.StringFilter<"ItemCustomIdAlias"> | string
+  createdAt?: Prisma.DateTimeFilter<"ItemCustomIdAlias"> | Date | string
+}
+
+export type ItemCustomIdAliasCreateManyItemInput = {
+  id?: string
+  inventoryId: string
+  customId: string
+  createdAt?: Date | string
+}
+
+export type ItemCustomIdAliasUpdateWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemCustomIdAliasUncheckedUpdateWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemCustomIdAliasUncheckedUpdateManyWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  customId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ItemCustomIdAliasSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  inventoryId?: boolean
+  customId?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["itemCustomIdAlias"]>
+
+export type ItemCustomIdAliasSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  inventoryId?: boolean
+  customId?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["itemCustomIdAlias"]>
+
+export type ItemCustomIdAliasSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  inventoryId?: boolean
+  customId?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["itemCustomIdAlias"]>
+
+export type ItemCustomIdAliasSelectScalar = {
+  id?: boolean
+  itemId?: boolean
+  inventoryId?: boolean
+  customId?: boolean
+  createdAt?: boolean
+}
+
+export type ItemCustomIdAliasOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itemId" | "inventoryId" | "customId" | "createdAt", ExtArgs["result"]["itemCustomIdAlias"]>
+export type ItemCustomIdAliasInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+}
+export type ItemCustomIdAliasIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+}
+export type ItemCustomIdAliasIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+}
+
+export type $ItemCustomIdAliasPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ItemCustomIdAlias"
+  objects: {
+    item: Prisma.$ItemPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    itemId: string
+    inventoryId: string
+    customId: string
+    createdAt: Date
+  }, ExtArgs["result"]["itemCustomIdAlias"]>
+  composites: {}
+}
+
+export type ItemCustomIdAliasGetPayload<S extends boolean | null | undefined | ItemCustomIdAliasDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload, S>
+
+export type ItemCustomIdAliasCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ItemCustomIdAliasFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ItemCustomIdAliasCountAggregateInputType | true
+  }
+
+export interface ItemCustomIdAliasDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ItemCustomIdAlias'], meta: { name: 'ItemCustomIdAlias' } }
+  /**
+   * Find zero or one ItemCustomIdAlias that matches the filter.
+   * @param {ItemCustomIdAliasFindUniqueArgs} args - Arguments to find a ItemCustomIdAlias
+   * @example
+   * // Get one ItemCustomIdAlias
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ItemCustomIdAliasFindUniqueArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ItemCustomIdAlias that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ItemCustomIdAliasFindUniqueOrThrowArgs} args - Arguments to find a ItemCustomIdAlias
+   * @example
+   * // Get one ItemCustomIdAlias
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ItemCustomIdAliasFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ItemCustomIdAlias that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasFindFirstArgs} args - Arguments to find a ItemCustomIdAlias
+   * @example
+   * // Get one ItemCustomIdAlias
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ItemCustomIdAliasFindFirstArgs>(args?: Prisma.SelectSubset<T, ItemCustomIdAliasFindFirstArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ItemCustomIdAlias that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasFindFirstOrThrowArgs} args - Arguments to find a ItemCustomIdAlias
+   * @example
+   * // Get one ItemCustomIdAlias
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ItemCustomIdAliasFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ItemCustomIdAliasFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ItemCustomIdAliases that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ItemCustomIdAliases
+   * const itemCustomIdAliases = await prisma.itemCustomIdAlias.findMany()
+   * 
+   * // Get first 10 ItemCustomIdAliases
+   * const itemCustomIdAliases = await prisma.itemCustomIdAlias.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const itemCustomIdAliasWithIdOnly = await prisma.itemCustomIdAlias.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ItemCustomIdAliasFindManyArgs>(args?: Prisma.SelectSubset<T, ItemCustomIdAliasFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ItemCustomIdAlias.
+   * @param {ItemCustomIdAliasCreateArgs} args - Arguments to create a ItemCustomIdAlias.
+   * @example
+   * // Create one ItemCustomIdAlias
+   * const ItemCustomIdAlias = await prisma.itemCustomIdAlias.create({
+   *   data: {
+   *     // ... data to create a ItemCustomIdAlias
+   *   }
+   * })
+   * 
+   */
+  create<T extends ItemCustomIdAliasCreateArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasCreateArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ItemCustomIdAliases.
+   * @param {ItemCustomIdAliasCreateManyArgs} args - Arguments to create many ItemCustomIdAliases.
+   * @example
+   * // Create many ItemCustomIdAliases
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ItemCustomIdAliasCreateManyArgs>(args?: Prisma.SelectSubset<T, ItemCustomIdAliasCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ItemCustomIdAliases and returns the data saved in the database.
+   * @param {ItemCustomIdAliasCreateManyAndReturnArgs} args - Arguments to create many ItemCustomIdAliases.
+   * @example
+   * // Create many ItemCustomIdAliases
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ItemCustomIdAliases and only return the `id`
+   * const itemCustomIdAliasWithIdOnly = await prisma.itemCustomIdAlias.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ItemCustomIdAliasCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ItemCustomIdAliasCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ItemCustomIdAlias.
+   * @param {ItemCustomIdAliasDeleteArgs} args - Arguments to delete one ItemCustomIdAlias.
+   * @example
+   * // Delete one ItemCustomIdAlias
+   * const ItemCustomIdAlias = await prisma.itemCustomIdAlias.delete({
+   *   where: {
+   *     // ... filter to delete one ItemCustomIdAlias
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ItemCustomIdAliasDeleteArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasDeleteArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ItemCustomIdAlias.
+   * @param {ItemCustomIdAliasUpdateArgs} args - Arguments to update one ItemCustomIdAlias.
+   * @example
+   * // Update one ItemCustomIdAlias
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ItemCustomIdAliasUpdateArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasUpdateArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ItemCustomIdAliases.
+   * @param {ItemCustomIdAliasDeleteManyArgs} args - Arguments to filter ItemCustomIdAliases to delete.
+   * @example
+   * // Delete a few ItemCustomIdAliases
+   * const { count } = await prisma.itemCustomIdAlias.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ItemCustomIdAliasDeleteManyArgs>(args?: Prisma.SelectSubset<T, ItemCustomIdAliasDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ItemCustomIdAliases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ItemCustomIdAliases
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ItemCustomIdAliasUpdateManyArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ItemCustomIdAliases and returns the data updated in the database.
+   * @param {ItemCustomIdAliasUpdateManyAndReturnArgs} args - Arguments to update many ItemCustomIdAliases.
+   * @example
+   * // Update many ItemCustomIdAliases
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ItemCustomIdAliases and only return the `id`
+   * const itemCustomIdAliasWithIdOnly = await prisma.itemCustomIdAlias.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ItemCustomIdAliasUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ItemCustomIdAlias.
+   * @param {ItemCustomIdAliasUpsertArgs} args - Arguments to update or create a ItemCustomIdAlias.
+   * @example
+   * // Update or create a ItemCustomIdAlias
+   * const itemCustomIdAlias = await prisma.itemCustomIdAlias.upsert({
+   *   create: {
+   *     // ... data to create a ItemCustomIdAlias
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ItemCustomIdAlias we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ItemCustomIdAliasUpsertArgs>(args: Prisma.SelectSubset<T, ItemCustomIdAliasUpsertArgs<ExtArgs>>): Prisma.Prisma__ItemCustomIdAliasClient<runtime.Types.Result.GetResult<Prisma.$ItemCustomIdAliasPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ItemCustomIdAliases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasCountArgs} args - Arguments to filter ItemCustomIdAliases to count.
+   * @example
+   * // Count the number of ItemCustomIdAliases
+   * const count = await prisma.itemCustomIdAlias.count({
+   *   where: {
+   *     // ... the filter for the ItemCustomIdAliases we want to count
+   *   }
+   * })
+  **/
+  count<T extends ItemCustomIdAliasCountArgs>(
+    args?: Prisma.Subset<T, ItemCustomIdAliasCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ItemCustomIdAliasCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ItemCustomIdAlias.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ItemCustomIdAliasAggregateArgs>(args: Prisma.Subset<T, ItemCustomIdAliasAggregateArgs>): Prisma.PrismaPromise<GetItemCustomIdAliasAggregateType<T>>
+
+  /**
+   * Group by ItemCustomIdAlias.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemCustomIdAliasGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ItemCustomIdAliasGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ItemCustomIdAliasGroupByArgs['orderBy'] }
+      : { orderBy?: ItemCustomIdAliasGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ItemCustomIdAliasGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetItemCustomIdAliasGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ItemCustomIdAlias model
+ */
+readonly fields: ItemCustomIdAliasFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ItemCustomIdAlias.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ItemCustomIdAliasClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  item<T extends Prisma.ItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItemDefaultArgs<ExtArgs>>): Prisma.Prisma__ItemClient<runtime.Types.Result.GetResult<Prisma.$ItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ItemCustomIdAlias model
+ */
+export interface ItemCustomIdAliasFieldRefs {
+  readonly id: Prisma.FieldRef<"ItemCustomIdAlias", 'String'>
+  readonly itemId: Prisma.FieldRef<"ItemCustomIdAlias", 'String'>
+  readonly inventoryId: Prisma.FieldRef<"ItemCustomIdAlias", 'String'>
+  readonly customId: Prisma.FieldRef<"ItemCustomIdAlias", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ItemCustomIdAlias", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ItemCustomIdAlias findUnique
+ */
+export type ItemCustomIdAliasFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemCustomIdAlias to fetch.
+   */
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+}
+
+/**
+ * ItemCustomIdAlias findUniqueOrThrow
+ */
+export type ItemCustomIdAliasFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemCustomIdAlias to fetch.
+   */
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+}
+
+/**
+ * ItemCustomIdAlias findFirst
+ */
+export type ItemCustomIdAliasFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemCustomIdAlias to fetch.
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemCustomIdAliases to fetch.
+   */
+  orderBy?: Prisma.ItemCustomIdAliasOrderByWithRelationInput | Prisma.ItemCustomIdAliasOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ItemCustomIdAliases.
+   */
+  cursor?: Prisma.ItemCustomIdAliasWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemCustomIdAliases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemCustomIdAliases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ItemCustomIdAliases.
+   */
+  distinct?: Prisma.ItemCustomIdAliasScalarFieldEnum | Prisma.ItemCustomIdAliasScalarFieldEnum[]
+}
+
+/**
+ * ItemCustomIdAlias findFirstOrThrow
+ */
+export type ItemCustomIdAliasFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemCustomIdAlias to fetch.
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemCustomIdAliases to fetch.
+   */
+  orderBy?: Prisma.ItemCustomIdAliasOrderByWithRelationInput | Prisma.ItemCustomIdAliasOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ItemCustomIdAliases.
+   */
+  cursor?: Prisma.ItemCustomIdAliasWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemCustomIdAliases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemCustomIdAliases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ItemCustomIdAliases.
+   */
+  distinct?: Prisma.ItemCustomIdAliasScalarFieldEnum | Prisma.ItemCustomIdAliasScalarFieldEnum[]
+}
+
+/**
+ * ItemCustomIdAlias findMany
+ */
+export type ItemCustomIdAliasFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemCustomIdAliases to fetch.
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemCustomIdAliases to fetch.
+   */
+  orderBy?: Prisma.ItemCustomIdAliasOrderByWithRelationInput | Prisma.ItemCustomIdAliasOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ItemCustomIdAliases.
+   */
+  cursor?: Prisma.ItemCustomIdAliasWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemCustomIdAliases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemCustomIdAliases.
+   */
+  skip?: number
+  distinct?: Prisma.ItemCustomIdAliasScalarFieldEnum | Prisma.ItemCustomIdAliasScalarFieldEnum[]
+}
+
+/**
+ * ItemCustomIdAlias create
+ */
+export type ItemCustomIdAliasCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ItemCustomIdAlias.
+   */
+  data: Prisma.XOR<Prisma.ItemCustomIdAliasCreateInput, Prisma.ItemCustomIdAliasUncheckedCreateInput>
+}
+
+/**
+ * ItemCustomIdAlias createMany
+ */
+export type ItemCustomIdAliasCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ItemCustomIdAliases.
+   */
+  data: Prisma.ItemCustomIdAliasCreateManyInput | Prisma.ItemCustomIdAliasCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ItemCustomIdAlias createManyAndReturn
+ */
+export type ItemCustomIdAliasCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * The data used to create many ItemCustomIdAliases.
+   */
+  data: Prisma.ItemCustomIdAliasCreateManyInput | Prisma.ItemCustomIdAliasCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ItemCustomIdAlias update
+ */
+export type ItemCustomIdAliasUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ItemCustomIdAlias.
+   */
+  data: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateInput, Prisma.ItemCustomIdAliasUncheckedUpdateInput>
+  /**
+   * Choose, which ItemCustomIdAlias to update.
+   */
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+}
+
+/**
+ * ItemCustomIdAlias updateMany
+ */
+export type ItemCustomIdAliasUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ItemCustomIdAliases.
+   */
+  data: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateManyMutationInput, Prisma.ItemCustomIdAliasUncheckedUpdateManyInput>
+  /**
+   * Filter which ItemCustomIdAliases to update
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * Limit how many ItemCustomIdAliases to update.
+   */
+  limit?: number
+}
+
+/**
+ * ItemCustomIdAlias updateManyAndReturn
+ */
+export type ItemCustomIdAliasUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * The data used to update ItemCustomIdAliases.
+   */
+  data: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateManyMutationInput, Prisma.ItemCustomIdAliasUncheckedUpdateManyInput>
+  /**
+   * Filter which ItemCustomIdAliases to update
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * Limit how many ItemCustomIdAliases to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ItemCustomIdAlias upsert
+ */
+export type ItemCustomIdAliasUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ItemCustomIdAlias to update in case it exists.
+   */
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+  /**
+   * In case the ItemCustomIdAlias found by the `where` argument doesn't exist, create a new ItemCustomIdAlias with this data.
+   */
+  create: Prisma.XOR<Prisma.ItemCustomIdAliasCreateInput, Prisma.ItemCustomIdAliasUncheckedCreateInput>
+  /**
+   * In case the ItemCustomIdAlias was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ItemCustomIdAliasUpdateInput, Prisma.ItemCustomIdAliasUncheckedUpdateInput>
+}
+
+/**
+ * ItemCustomIdAlias delete
+ */
+export type ItemCustomIdAliasDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+  /**
+   * Filter which ItemCustomIdAlias to delete.
+   */
+  where: Prisma.ItemCustomIdAliasWhereUniqueInput
+}
+
+/**
+ * ItemCustomIdAlias deleteMany
+ */
+export type ItemCustomIdAliasDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ItemCustomIdAliases to delete
+   */
+  where?: Prisma.ItemCustomIdAliasWhereInput
+  /**
+   * Limit how many ItemCustomIdAliases to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ItemCustomIdAlias without action
+ */
+export type ItemCustomIdAliasDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemCustomIdAlias
+   */
+  select?: Prisma.ItemCustomIdAliasSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemCustomIdAlias
+   */
+  omit?: Prisma.ItemCustomIdAliasOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemCustomIdAliasInclude<ExtArgs> | null
+}
@@ -42,6 +42,7 @@ export type ItemFieldValueMinAggregateOutputType = {
   valueNumber: number | null
   valueBoolean: boolean | null
   valueLink: string | null
+  valueDate: Date | null
 }
 
 export type ItemFieldValueMaxAggregateOutputType = {
@@ -52,6 +53,7 @@ export type ItemFieldValueMaxAggregateOutputType = {
   valueNumber: number | null
   valueBoolean: boolean | null
   valueLink: string | null
+  valueDate: Date | null
 }
 
 export type ItemFieldValueCountAggregateOutputType = {
@@ -62,6 +64,8 @@ export type ItemFieldValueCountAggregateOutputType = {
   valueNumber: number
   valueBoolean: number
   valueLink: number
+  valueDate: number
+  valueOptions: number
   _all: number
 }
 
@@ -82,6 +86,7 @@ export type ItemFieldValueMinAggregateInputType = {
   valueNumber?: true
   valueBoolean?: true
   valueLink?: true
+  valueDate?: true
 }
 
 export type ItemFieldValueMaxAggregateInputType = {
@@ -92,6 +97,7 @@ export type ItemFieldValueMaxAggregateInputType = {
   valueNumber?: true
   valueBoolean?: true
   valueLink?: true
+  valueDate?: true
 }
 
 export type ItemFieldValueCountAggregateInputType = {
@@ -102,6 +108,8 @@ export type ItemFieldValueCountAggregateInputType = {
   valueNumber?: true
   valueBoolean?: true
   valueLink?: true
+  valueDate?: true
+  valueOptions?: true
   _all?: true
 }
 
@@ -199,6 +207,8 @@ export type ItemFieldValueGroupByOutputType = {
   valueNumber: number | null
   valueBoolean: boolean | null
   valueLink: string | null
+  valueDate: Date | null
+  valueOptions: string[]
   _count: ItemFieldValueCountAggregateOutputType | null
   _avg: ItemFieldValueAvgAggregateOutputType | null
   _sum: ItemFieldValueSumAggregateOutputType | null
@@ -232,6 +242,8 @@ export type ItemFieldValueWhereInput = {
   valueNumber?: Prisma.FloatNullableFilter<"ItemFieldValue"> | number | null
   valueBoolean?: Prisma.BoolNullableFilter<"ItemFieldValue"> | boolean | null
   valueLink?: Prisma.StringNullableFilter<"ItemFieldValue"> | string | null
+  valueDate?: Prisma.DateTimeNullableFilter<"ItemFieldValue"> | Date | string | null
+  valueOptions?: Prisma.StringNullableListFilter<"ItemFieldValue">
   item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
   field?: Prisma.XOR<Prisma.InventoryFieldScalarRelationFilter, Prisma.InventoryFieldWhereInput>
 }
@@ -244,6 +256,8 @@ export type ItemFieldValueOrderByWithRelationInput = {
   valueNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   valueBoolean?: Prisma.SortOrderInput | Prisma.SortOrder
   valueLink?: Prisma.SortOrderInput | Prisma.SortOrder
+  valueDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  valueOptions?: Prisma.SortOrder
   item?: Prisma.ItemOrderByWithRelationInput
   field?: Prisma.InventoryFieldOrderByWithRelationInput
 }
@@ -259,6 +273,8 @@ export type ItemFieldValueWhereUniqueInput = Prisma.AtLeast<{
   valueNumber?: Prisma.FloatNullableFilter<"ItemFieldValue"> | number | null
   valueBoolean?: Prisma.BoolNullableFilter<"ItemFieldValue"> | boolean | null
   valueLink?: Prisma.StringNullableFilter<"ItemFieldValue"> | string | null
+  valueDate?: Prisma.DateTimeNullableFilter<"ItemFieldValue"> | Date | string | null
+  valueOptions?: Prisma.StringNullableListFilter<"ItemFieldValue">
   item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
   field?: Prisma.XOR<Prisma.InventoryFieldScalarRelationFilter, Prisma.InventoryFieldWhereInput>
 }, "id">
@@ -271,6 +287,8 @@ export type ItemFieldValueOrderByWithAggregationInput = {
   valueNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   valueBoolean?: Prisma.SortOrderInput | Prisma.SortOrder
   valueLink?: Prisma.SortOrderInput | Prisma.SortOrder
+  valueDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  valueOptions?: Prisma.SortOrder
   _count?: Prisma.ItemFieldValueCountOrderByAggregateInput
   _avg?: Prisma.ItemFieldValueAvgOrderByAggregateInput
   _max?: Prisma.ItemFieldValueMaxOrderByAggregateInput
@@ -289,6 +307,8 @@ export type ItemFieldValueScalarWhereWithAggregatesInput = {
   valueNumber?: Prisma.FloatNullableWithAggregatesFilter<"ItemFieldValue"> | number | null
   valueBoolean?: Prisma.BoolNullableWithAggregatesFilter<"ItemFieldValue"> | boolean | null
   valueLink?: Prisma.StringNullableWithAggregatesFilter<"ItemFieldValue"> | string | null
+  valueDate?: Prisma.DateTimeNullableWithAggregatesFilter<"ItemFieldValue"> | Date | string | null
+  valueOptions?: Prisma.StringNullableListFilter<"ItemFieldValue">
 }
 
 export type ItemFieldValueCreateInput = {
@@ -297,6 +317,8 @@ export type ItemFieldValueCreateInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
   item: Prisma.ItemCreateNestedOneWithoutFieldValuesInput
   field: Prisma.InventoryFieldCreateNestedOneWithoutValuesInput
 }
@@ -309,6 +331,8 @@ export type ItemFieldValueUncheckedCreateInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUpdateInput = {
@@ -317,6 +341,8 @@ export type ItemFieldValueUpdateInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
   item?: Prisma.ItemUpdateOneRequiredWithoutFieldValuesNestedInput
   field?: Prisma.InventoryFieldUpdateOneRequiredWithoutValuesNestedInput
 }
@@ -329,6 +355,8 @@ export type ItemFieldValueUncheckedUpdateInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueCreateManyInput = {
@@ -339,6 +367,8 @@ export type ItemFieldValueCreateManyInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUpdateManyMutationInput = {
@@ -347,6 +377,8 @@ export type ItemFieldValueUpdateManyMutationInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUncheckedUpdateManyInput = {
@@ -357,6 +389,8 @@ export type ItemFieldValueUncheckedUpdateManyInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueListRelationFilter = {
@@ -377,6 +411,8 @@ export type ItemFieldValueCountOrderByAggregateInput = {
   valueNumber?: Prisma.SortOrder
   valueBoolean?: Prisma.SortOrder
   valueLink?: Prisma.SortOrder
+  valueDate?: Prisma.SortOrder
+  valueOptions?: Prisma.SortOrder
 }
 
 export type ItemFieldValueAvgOrderByAggregateInput = {
@@ -391,6 +427,7 @@ export type ItemFieldValueMaxOrderByAggregateInput = {
   valueNumber?: Prisma.SortOrder
   valueBoolean?: Prisma.SortOrder
   valueLink?: Prisma.SortOrder
+  valueDate?: Prisma.SortOrder
 }
 
 export type ItemFieldValueMinOrderByAggregateInput = {
@@ -401,6 +438,7 @@ export type ItemFieldValueMinOrderByAggregateInput = {
   valueNumber?: Prisma.SortOrder
   valueBoolean?: Prisma.SortOrder
   valueLink?: Prisma.SortOrder
+  valueDate?: Prisma.SortOrder
 }
 
 export type ItemFieldValueSumOrderByAggregateInput = {
@@ -491,24 +529,27 @@ export type ItemFieldValueUncheckedUpdateManyWithoutItemNestedInput = {
   deleteMany?: Prisma.ItemFieldValueScalarWhereInput | Prisma.ItemFieldValueScalarWhereInput[]
 }
 
-export type NullableFloatFieldUpdateOperationsInput = {
-  set?: number | null
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
+export type ItemFieldValueCreatevalueOptionsInput = {
+  set: string[]
 }
 
 export type NullableBoolFieldUpdateOperationsInput = {
   set?: boolean | null
 }
 
+export type ItemFieldValueUpdatevalueOptionsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
 export type ItemFieldValueCreateWithoutFieldInput = {
   id?: string
   valueString?: string | null
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
   item: Prisma.ItemCreateNestedOneWithoutFieldValuesInput
 }
 
@@ -519,6 +560,8 @@ export type ItemFieldValueUncheckedCreateWithoutFieldInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueCreateOrConnectWithoutFieldInput = {
@@ -558,6 +601,8 @@ export type ItemFieldValueScalarWhereInput = {
   valueNumber?: Prisma.FloatNullableFilter<"ItemFieldValue"> | number | null
   valueBoolean?: Prisma.BoolNullableFilter<"ItemFieldValue"> | boolean | null
   valueLink?: Prisma.StringNullableFilter<"ItemFieldValue"> | string | null
+  valueDate?: Prisma.DateTimeNullableFilter<"ItemFieldValue"> | Date | string | null
+  valueOptions?: Prisma.StringNullableListFilter<"ItemFieldValue">
 }
 
 export type ItemFieldValueCreateWithoutItemInput = {
@@ -566,6 +611,8 @@ export type ItemFieldValueCreateWithoutItemInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
   field: Prisma.InventoryFieldCreateNestedOneWithoutValuesInput
 }
 
@@ -576,6 +623,8 @@ export type ItemFieldValueUncheckedCreateWithoutItemInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueCreateOrConnectWithoutItemInput = {
@@ -611,6 +660,8 @@ export type ItemFieldValueCreateManyFieldInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUpdateWithoutFieldInput = {
@@ -619,6 +670,8 @@ export type ItemFieldValueUpdateWithoutFieldInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
   item?: Prisma.ItemUpdateOneRequiredWithoutFieldValuesNestedInput
 }
 
@@ -629,6 +682,8 @@ export type ItemFieldValueUncheckedUpdateWithoutFieldInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUncheckedUpdateManyWithoutFieldInput = {
@@ -638,6 +693,8 @@ export type ItemFieldValueUncheckedUpdateManyWithoutFieldInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueCreateManyItemInput = {
@@ -647,6 +704,8 @@ export type ItemFieldValueCreateManyItemInput = {
   valueNumber?: number | null
   valueBoolean?: boolean | null
   valueLink?: string | null
+  valueDate?: Date | string | null
+  valueOptions?: Prisma.ItemFieldValueCreatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUpdateWithoutItemInput = {
@@ -655,6 +714,8 @@ export type ItemFieldValueUpdateWithoutItemInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
   field?: Prisma.InventoryFieldUpdateOneRequiredWithoutValuesNestedInput
 }
 
@@ -665,6 +726,8 @@ export type ItemFieldValueUncheckedUpdateWithoutItemInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 export type ItemFieldValueUncheckedUpdateManyWithoutItemInput = {
@@ -674,6 +737,8 @@ export type ItemFieldValueUncheckedUpdateManyWithoutItemInput = {
   valueNumber?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   valueBoolean?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   valueLink?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  valueDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  valueOptions?: Prisma.ItemFieldValueUpdatevalueOptionsInput | string[]
 }
 
 
@@ -686,6 +751,8 @@ export type ItemFieldValueSelect<ExtArgs extends runtime.Types.Extensions.Intern
   valueNumber?: boolean
   valueBoolean?: boolean
   valueLink?: boolean
+  valueDate?: boolean
+  valueOptions?: boolean
   item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
   field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["itemFieldValue"]>
@@ -698,6 +765,8 @@ export type ItemFieldValueSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   valueNumber?: boolean
   valueBoolean?: boolean
   valueLink?: boolean
+  valueDate?: boolean
+  valueOptions?: boolean
   item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
   field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["itemFieldValue"]>
@@ -710,6 +779,8 @@ export type ItemFieldValueSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   valueNumber?: boolean
   valueBoolean?: boolean
   valueLink?: boolean
+  valueDate?: boolean
+  valueOptions?: boolean
   item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
   field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["itemFieldValue"]>
@@ -722,9 +793,11 @@ export type ItemFieldValueSelectScalar = {
   valueNumber?: boolean
   valueBoolean?: boolean
   valueLink?: boolean
+  valueDate?: boolean
+  valueOptions?: boolean
 }
 
-export type ItemFieldValueOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itemId" | "fieldId" | "valueString" | "valueNumber" | "valueBoolean" | "valueLink", ExtArgs["result"]["itemFieldValue"]>
+export type ItemFieldValueOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itemId" | "fieldId" | "valueString" | "valueNumber" | "valueBoolean" | "valueLink" | "valueDate" | "valueOptions", ExtArgs["result"]["itemFieldValue"]>
 export type ItemFieldValueInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
   field?: boolean | Prisma.InventoryFieldDefaultArgs<ExtArgs>
@@ -752,6 +825,8 @@ export type $ItemFieldValuePayload<ExtArgs extends runtime.Types.Extensions.Inte
     valueNumber: number | null
     valueBoolean: boolean | null
     valueLink: string | null
+    valueDate: Date | null
+    valueOptions: string[]
   }, ExtArgs["result"]["itemFieldValue"]>
   composites: {}
 }
@@ -1184,6 +1259,8 @@ export interface ItemFieldValueFieldRefs {
   readonly valueNumber: Prisma.FieldRef<"ItemFieldValue", 'Float'>
   readonly valueBoolean: Prisma.FieldRef<"ItemFieldValue", 'Boolean'>
   readonly valueLink: Prisma.FieldRef<"ItemFieldValue", 'String'>
+  readonly valueDate: Prisma.FieldRef<"ItemFieldValue", 'DateTime'>
+  readonly valueOptions: Prisma.FieldRef<"ItemFieldValue", 'String[]'>
 }
     
 
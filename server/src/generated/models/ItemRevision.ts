@@ -0,0 +1,1681 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ItemRevision` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ItemRevision
+ * 
+ */
+export type ItemRevisionModel = runtime.Types.Result.DefaultSelection<Prisma.$ItemRevisionPayload>
+
+export type AggregateItemRevision = {
+  _count: ItemRevisionCountAggregateOutputType | null
+  _avg: ItemRevisionAvgAggregateOutputType | null
+  _sum: ItemRevisionSumAggregateOutputType | null
+  _min: ItemRevisionMinAggregateOutputType | null
+  _max: ItemRevisionMaxAggregateOutputType | null
+}
+
+export type ItemRevisionAvgAggregateOutputType = {
+  version: number | null
+}
+
+export type ItemRevisionSumAggregateOutputType = {
+  version: number | null
+}
+
+export type ItemRevisionMinAggregateOutputType = {
+  id: string | null
+  itemId: string | null
+  version: number | null
+  authorId: string | null
+  customIdBefore: string | null
+  customIdAfter: string | null
+  revertOfId: string | null
+  createdAt: Date | null
+}
+
+export type ItemRevisionMaxAggregateOutputType = {
+  id: string | null
+  itemId: string | null
+  version: number | null
+  authorId: string | null
+  customIdBefore: string | null
+  customIdAfter: string | null
+  revertOfId: string | null
+  createdAt: Date | null
+}
+
+export type ItemRevisionCountAggregateOutputType = {
+  id: number
+  itemId: number
+  version: number
+  authorId: number
+  customIdBefore: number
+  customIdAfter: number
+  changes: number
+  revertOfId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ItemRevisionAvgAggregateInputType = {
+  version?: true
+}
+
+export type ItemRevisionSumAggregateInputType = {
+  version?: true
+}
+
+export type ItemRevisionMinAggregateInputType = {
+  id?: true
+  itemId?: true
+  version?: true
+  authorId?: true
+  customIdBefore?: true
+  customIdAfter?: true
+  revertOfId?: true
+  createdAt?: true
+}
+
+export type ItemRevisionMaxAggregateInputType = {
+  id?: true
+  itemId?: true
+  version?: true
+  authorId?: true
+  customIdBefore?: true
+  customIdAfter?: true
+  revertOfId?: true
+  createdAt?: true
+}
+
+export type ItemRevisionCountAggregateInputType = {
+  id?: true
+  itemId?: true
+  version?: true
+  authorId?: true
+  customIdBefore?: true
+  customIdAfter?: true
+  changes?: true
+  revertOfId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ItemRevisionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ItemRevision to aggregate.
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemRevisions to fetch.
+   */
+  orderBy?: Prisma.ItemRevisionOrderByWithRelationInput | Prisma.ItemRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ItemRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ItemRevisions
+  **/
+  _count?: true | ItemRevisionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ItemRevisionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ItemRevisionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ItemRevisionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ItemRevisionMaxAggregateInputType
+}
+
+export type GetItemRevisionAggregateType<T extends ItemRevisionAggregateArgs> = {
+      [P in keyof T & keyof AggregateItemRevision]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateItemRevision[P]>
+    : Prisma.GetScalarType<T[P], AggregateItemRevision[P]>
+}
+
+
+
+
+export type ItemRevisionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemRevisionWhereInput
+  orderBy?: Prisma.ItemRevisionOrderByWithAggregationInput | Prisma.ItemRevisionOrderByWithAggregationInput[]
+  by: Prisma.ItemRevisionScalarFieldEnum[] | Prisma.ItemRevisionScalarFieldEnum
+  having?: Prisma.ItemRevisionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ItemRevisionCountAggregateInputType | true
+  _avg?: ItemRevisionAvgAggregateInputType
+  _sum?: ItemRevisionSumAggregateInputType
+  _min?: ItemRevisionMinAggregateInputType
+  _max?: ItemRevisionMaxAggregateInputType
+}
+
+export type ItemRevisionGroupByOutputType = {
+  id: string
+  itemId: string
+  version: number
+  authorId: string | null
+  customIdBefore: string | null
+  customIdAfter: string | null
+  changes: runtime.JsonValue
+  revertOfId: string | null
+  createdAt: Date
+  _count: ItemRevisionCountAggregateOutputType | null
+  _avg: ItemRevisionAvgAggregateOutputType | null
+  _sum: ItemRevisionSumAggregateOutputType | null
+  _min: ItemRevisionMinAggregateOutputType | null
+  _max: ItemRevisionMaxAggregateOutputType | null
+}
+
+type GetItemRevisionGroupByPayload<T extends ItemRevisionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ItemRevisionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ItemRevisionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ItemRevisionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ItemRevisionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ItemRevisionWhereInput = {
+  AND?: Prisma.ItemRevisionWhereInput | Prisma.ItemRevisionWhereInput[]
+  OR?: Prisma.ItemRevisionWhereInput[]
+  NOT?: Prisma.ItemRevisionWhereInput | Prisma.ItemRevisionWhereInput[]
+  id?: Prisma.StringFilter<"ItemRevision"> | string
+  itemId?: Prisma.StringFilter<"ItemRevision"> | string
+  version?: Prisma.IntFilter<"ItemRevision"> | number
+  authorId?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  customIdBefore?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  customIdAfter?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  changes?: Prisma.JsonFilter<"ItemRevision">
+  revertOfId?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ItemRevision"> | Date | string
+  item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
+  author?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type ItemRevisionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  customIdBefore?: Prisma.SortOrderInput | Prisma.SortOrder
+  customIdAfter?: Prisma.SortOrderInput | Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  item?: Prisma.ItemOrderByWithRelationInput
+  author?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ItemRevisionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ItemRevisionWhereInput | Prisma.ItemRevisionWhereInput[]
+  OR?: Prisma.ItemRevisionWhereInput[]
+  NOT?: Prisma.ItemRevisionWhereInput | Prisma.ItemRevisionWhereInput[]
+  itemId?: Prisma.StringFilter<"ItemRevision"> | string
+  version?: Prisma.IntFilter<"ItemRevision"> | number
+  authorId?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  customIdBefore?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  customIdAfter?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  changes?: Prisma.JsonFilter<"ItemRevision">
+  revertOfId?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ItemRevision"> | Date | string
+  item?: Prisma.XOR<Prisma.ItemScalarRelationFilter, Prisma.ItemWhereInput>
+  author?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type ItemRevisionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  customIdBefore?: Prisma.SortOrderInput | Prisma.SortOrder
+  customIdAfter?: Prisma.SortOrderInput | Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ItemRevisionCountOrderByAggregateInput
+  _avg?: Prisma.ItemRevisionAvgOrderByAggregateInput
+  _max?: Prisma.ItemRevisionMaxOrderByAggregateInput
+  _min?: Prisma.ItemRevisionMinOrderByAggregateInput
+  _sum?: Prisma.ItemRevisionSumOrderByAggregateInput
+}
+
+export type ItemRevisionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ItemRevisionScalarWhereWithAggregatesInput | Prisma.ItemRevisionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ItemRevisionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ItemRevisionScalarWhereWithAggregatesInput | Prisma.ItemRevisionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ItemRevision"> | string
+  itemId?: Prisma.StringWithAggregatesFilter<"ItemRevision"> | string
+  version?: Prisma.IntWithAggregatesFilter<"ItemRevision"> | number
+  authorId?: Prisma.StringNullableWithAggregatesFilter<"ItemRevision"> | string | null
+  customIdBefore?: Prisma.StringNullableWithAggregatesFilter<"ItemRevision"> | string | null
+  customIdAfter?: Prisma.StringNullableWithAggregatesFilter<"ItemRevision"> | string | null
+  changes?: Prisma.JsonWithAggregatesFilter<"ItemRevision">
+  revertOfId?: Prisma.StringNullableWithAggregatesFilter<"ItemRevision"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ItemRevision"> | Date | string
+}
+
+export type ItemRevisionCreateInput = {
+  id?: string
+  version: number
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+  item: Prisma.ItemCreateNestedOneWithoutRevisionsInput
+  author?: Prisma.UserCreateNestedOneWithoutItemRevisionsInput
+}
+
+export type ItemRevisionUncheckedCreateInput = {
+  id?: string
+  itemId: string
+  version: number
+  authorId?: string | null
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type ItemRevisionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  item?: Prisma.ItemUpdateOneRequiredWithoutRevisionsNestedInput
+  author?: Prisma.UserUpdateOneWithoutItemRevisionsNestedInput
+}
+
+export type ItemRevisionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemRevisionCreateManyInput = {
+  id?: string
+  itemId: string
+  version: number
+  authorId?: string | null
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type ItemRevisionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemRevisionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemRevisionListRelationFilter = {
+  every?: Prisma.ItemRevisionWhereInput
+  some?: Prisma.ItemRevisionWhereInput
+  none?: Prisma.ItemRevisionWhereInput
+}
+
+export type ItemRevisionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ItemRevisionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  customIdBefore?: Prisma.SortOrder
+  customIdAfter?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemRevisionAvgOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type ItemRevisionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  customIdBefore?: Prisma.SortOrder
+  customIdAfter?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemRevisionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itemId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  customIdBefore?: Prisma.SortOrder
+  customIdAfter?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ItemRevisionSumOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type ItemRevisionCreateNestedManyWithoutAuthorInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutAuthorInput, Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput> | Prisma.ItemRevisionCreateWithoutAuthorInput[] | Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput | Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput[]
+  createMany?: Prisma.ItemRevisionCreateManyAuthorInputEnvelope
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+}
+
+export type ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutAuthorInput, Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput> | Prisma.ItemRevisionCreateWithoutAuthorInput[] | Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput | Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput[]
+  createMany?: Prisma.ItemRevisionCreateManyAuthorInputEnvelope
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+}
+
+export type ItemRevisionUpdateManyWithoutAuthorNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutAuthorInput, Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput> | Prisma.ItemRevisionCreateWithoutAuthorInput[] | Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput | Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput[]
+  upsert?: Prisma.ItemRevisionUpsertWithWhereUniqueWithoutAuthorInput | Prisma.ItemRevisionUpsertWithWhereUniqueWithoutAuthorInput[]
+  createMany?: Prisma.ItemRevisionCreateManyAuthorInputEnvelope
+  set?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  delete?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  update?: Prisma.ItemRevisionUpdateWithWhereUniqueWithoutAuthorInput | Prisma.ItemRevisionUpdateWithWhereUniqueWithoutAuthorInput[]
+  updateMany?: Prisma.ItemRevisionUpdateManyWithWhereWithoutAuthorInput | Prisma.ItemRevisionUpdateManyWithWhereWithoutAuthorInput[]
+  deleteMany?: Prisma.ItemRevisionScalarWhereInput | Prisma.ItemRevisionScalarWhereInput[]
+}
+
+export type ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutAuthorInput, Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput> | Prisma.ItemRevisionCreateWithoutAuthorInput[] | Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput | Prisma.ItemRevisionCreateOrConnectWithoutAuthorInput[]
+  upsert?: Prisma.ItemRevisionUpsertWithWhereUniqueWithoutAuthorInput | Prisma.ItemRevisionUpsertWithWhereUniqueWithoutAuthorInput[]
+  createMany?: Prisma.ItemRevisionCreateManyAuthorInputEnvelope
+  set?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  delete?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  update?: Prisma.ItemRevisionUpdateWithWhereUniqueWithoutAuthorInput | Prisma.ItemRevisionUpdateWithWhereUniqueWithoutAuthorInput[]
+  updateMany?: Prisma.ItemRevisionUpdateManyWithWhereWithoutAuthorInput | Prisma.ItemRevisionUpdateManyWithWhereWithoutAuthorInput[]
+  deleteMany?: Prisma.ItemRevisionScalarWhereInput | Prisma.ItemRevisionScalarWhereInput[]
+}
+
+export type ItemRevisionCreateNestedManyWithoutItemInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutItemInput, Prisma.ItemRevisionUncheckedCreateWithoutItemInput> | Prisma.ItemRevisionCreateWithoutItemInput[] | Prisma.ItemRevisionUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutItemInput | Prisma.ItemRevisionCreateOrConnectWithoutItemInput[]
+  createMany?: Prisma.ItemRevisionCreateManyItemInputEnvelope
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+}
+
+export type ItemRevisionUncheckedCreateNestedManyWithoutItemInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutItemInput, Prisma.ItemRevisionUncheckedCreateWithoutItemInput> | Prisma.ItemRevisionCreateWithoutItemInput[] | Prisma.ItemRevisionUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutItemInput | Prisma.ItemRevisionCreateOrConnectWithoutItemInput[]
+  createMany?: Prisma.ItemRevisionCreateManyItemInputEnvelope
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+}
+
+export type ItemRevisionUpdateManyWithoutItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutItemInput, Prisma.ItemRevisionUncheckedCreateWithoutItemInput> | Prisma.ItemRevisionCreateWithoutItemInput[] | Prisma.ItemRevisionUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutItemInput | Prisma.ItemRevisionCreateOrConnectWithoutItemInput[]
+  upsert?: Prisma.ItemRevisionUpsertWithWhereUniqueWithoutItemInput | Prisma.ItemRevisionUpsertWithWhereUniqueWithoutItemInput[]
+  createMany?: Prisma.ItemRevisionCreateManyItemInputEnvelope
+  set?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  delete?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  update?: Prisma.ItemRevisionUpdateWithWhereUniqueWithoutItemInput | Prisma.ItemRevisionUpdateWithWhereUniqueWithoutItemInput[]
+  updateMany?: Prisma.ItemRevisionUpdateManyWithWhereWithoutItemInput | Prisma.ItemRevisionUpdateManyWithWhereWithoutItemInput[]
+  deleteMany?: Prisma.ItemRevisionScalarWhereInput | Prisma.ItemRevisionScalarWhereInput[]
+}
+
+export type ItemRevisionUncheckedUpdateManyWithoutItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ItemRevisionCreateWithoutItemInput, Prisma.ItemRevisionUncheckedCreateWithoutItemInput> | Prisma.ItemRevisionCreateWithoutItemInput[] | Prisma.ItemRevisionUncheckedCreateWithoutItemInput[]
+  connectOrCreate?: Prisma.ItemRevisionCreateOrConnectWithoutItemInput | Prisma.ItemRevisionCreateOrConnectWithoutItemInput[]
+  upsert?: Prisma.ItemRevisionUpsertWithWhereUniqueWithoutItemInput | Prisma.ItemRevisionUpsertWithWhereUniqueWithoutItemInput[]
+  createMany?: Prisma.ItemRevisionCreateManyItemInputEnvelope
+  set?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  delete?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  connect?: Prisma.ItemRevisionWhereUniqueInput | Prisma.ItemRevisionWhereUniqueInput[]
+  update?: Prisma.ItemRevisionUpdateWithWhereUniqueWithoutItemInput | Prisma.ItemRevisionUpdateWithWhereUniqueWithoutItemInput[]
+  updateMany?: Prisma.ItemRevisionUpdateManyWithWhereWithoutItemInput | Prisma.ItemRevisionUpdateManyWithWhereWithoutItemInput[]
+  deleteMany?: Prisma.ItemRevisionScalarWhereInput | Prisma.ItemRevisionScalarWhereInput[]
+}
+
+export type ItemRevisionCreateWithoutAuthorInput = {
+  id?: string
+  version: number
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+  item: Prisma.ItemCreateNestedOneWithoutRevisionsInput
+}
+
+export type ItemRevisionUncheckedCreateWithoutAuthorInput = {
+  id?: string
+  itemId: string
+  version: number
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type ItemRevisionCreateOrConnectWithoutAuthorInput = {
+  where: Prisma.ItemRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemRevisionCreateWithoutAuthorInput, Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput>
+}
+
+export type ItemRevisionCreateManyAuthorInputEnvelope = {
+  data: Prisma.ItemRevisionCreateManyAuthorInput | Prisma.ItemRevisionCreateManyAuthorInput[]
+  skipDuplicates?: boolean
+}
+
+export type ItemRevisionUpsertWithWhereUniqueWithoutAuthorInput = {
+  where: Prisma.ItemRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ItemRevisionUpdateWithoutAuthorInput, Prisma.ItemRevisionUncheckedUpdateWithoutAuthorInput>
+  create: Prisma.XOR<Prisma.ItemRevisionCreateWithoutAuthorInput, Prisma.ItemRevisionUncheckedCreateWithoutAuthorInput>
+}
+
+export type ItemRevisionUpdateWithWhereUniqueWithoutAuthorInput = {
+  where: Prisma.ItemRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateWithoutAuthorInput, Prisma.ItemRevisionUncheckedUpdateWithoutAuthorInput>
+}
+
+export type ItemRevisionUpdateManyWithWhereWithoutAuthorInput = {
+  where: Prisma.ItemRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateManyMutationInput, Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorInput>
+}
+
+export type ItemRevisionScalarWhereInput = {
+  AND?: Prisma.ItemRevisionScalarWhereInput | Prisma.ItemRevisionScalarWhereInput[]
+  OR?: Prisma.ItemRevisionScalarWhereInput[]
+  NOT?: Prisma.ItemRevisionScalarWhereInput | Prisma.ItemRevisionScalarWhereInput[]
+  id?: Prisma.StringFilter<"ItemRevision"> | string
+  itemId?: Prisma.StringFilter<"ItemRevision"> | string
+  version?: Prisma.IntFilter<"ItemRevision"> | number
+  authorId?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  customIdBefore?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  customIdAfter?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  changes?: Prisma.JsonFilter<"ItemRevision">
+  revertOfId?: Prisma.StringNullableFilter<"ItemRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ItemRevision"> | Date | string
+}
+
+export type ItemRevisionCreateWithoutItemInput = {
+  id?: string
+  version: number
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+  author?: Prisma.UserCreateNestedOneWithoutItemRevisionsInput
+}
+
+export type ItemRevisionUncheckedCreateWithoutItemInput = {
+  id?: string
+  version: number
+  authorId?: string | null
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type ItemRevisionCreateOrConnectWithoutItemInput = {
+  where: Prisma.ItemRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItemRevisionCreateWithoutItemInput, Prisma.ItemRevisionUncheckedCreateWithoutItemInput>
+}
+
+export type ItemRevisionCreateManyItemInputEnvelope = {
+  data: Prisma.ItemRevisionCreateManyItemInput | Prisma.ItemRevisionCreateManyItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type ItemRevisionUpsertWithWhereUniqueWithoutItemInput = {
+  where: Prisma.ItemRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ItemRevisionUpdateWithoutItemInput, Prisma.ItemRevisionUncheckedUpdateWithoutItemInput>
+  create: Prisma.XOR<Prisma.ItemRevisionCreateWithoutItemInput, Prisma.ItemRevisionUncheckedCreateWithoutItemInput>
+}
+
+export type ItemRevisionUpdateWithWhereUniqueWithoutItemInput = {
+  where: Prisma.ItemRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateWithoutItemInput, Prisma.ItemRevisionUncheckedUpdateWithoutItemInput>
+}
+
+export type ItemRevisionUpdateManyWithWhereWithoutItemInput = {
+  where: Prisma.ItemRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateManyMutationInput, Prisma.ItemRevisionUncheckedUpdateManyWithoutItemInput>
+}
+
+export type ItemRevisionCreateManyAuthorInput = {
+  id?: string
+  itemId: string
+  version: number
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type ItemRevisionUpdateWithoutAuthorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  item?: Prisma.ItemUpdateOneRequiredWithoutRevisionsNestedInput
+}
+
+export type ItemRevisionUncheckedUpdateWithoutAuthorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemRevisionUncheckedUpdateManyWithoutAuthorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itemId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemRevisionCreateManyItemInput = {
+  id?: string
+  version: number
+  authorId?: string | null
+  customIdBefore?: string | null
+  customIdAfter?: string | null
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type ItemRevisionUpdateWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  author?: Prisma.UserUpdateOneWithoutItemRevisionsNestedInput
+}
+
+export type ItemRevisionUncheckedUpdateWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ItemRevisionUncheckedUpdateManyWithoutItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdBefore?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customIdAfter?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ItemRevisionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  version?: boolean
+  authorId?: boolean
+  customIdBefore?: boolean
+  customIdAfter?: boolean
+  changes?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  author?: boolean | Prisma.ItemRevision$authorArgs<ExtArgs>
+}, ExtArgs["result"]["itemRevision"]>
+
+export type ItemRevisionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  version?: boolean
+  authorId?: boolean
+  customIdBefore?: boolean
+  customIdAfter?: boolean
+  changes?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  author?: boolean | Prisma.ItemRevision$authorArgs<ExtArgs>
+}, ExtArgs["result"]["itemRevision"]>
+
+export type ItemRevisionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itemId?: boolean
+  version?: boolean
+  authorId?: boolean
+  customIdBefore?: boolean
+  customIdAfter?: boolean
+  changes?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  author?: boolean | Prisma.ItemRevision$authorArgs<ExtArgs>
+}, ExtArgs["result"]["itemRevision"]>
+
+export type ItemRevisionSelectScalar = {
+  id?: boolean
+  itemId?: boolean
+  version?: boolean
+  authorId?: boolean
+  customIdBefore?: boolean
+  customIdAfter?: boolean
+  changes?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+}
+
+export type ItemRevisionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itemId" | "version" | "authorId" | "customIdBefore" | "customIdAfter" | "changes" | "revertOfId" | "createdAt", ExtArgs["result"]["itemRevision"]>
+export type ItemRevisionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  author?: boolean | Prisma.ItemRevision$authorArgs<ExtArgs>
+}
+export type ItemRevisionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  author?: boolean | Prisma.ItemRevision$authorArgs<ExtArgs>
+}
+export type ItemRevisionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  item?: boolean | Prisma.ItemDefaultArgs<ExtArgs>
+  author?: boolean | Prisma.ItemRevision$authorArgs<ExtArgs>
+}
+
+export type $ItemRevisionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ItemRevision"
+  objects: {
+    item: Prisma.$ItemPayload<ExtArgs>
+    author: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    itemId: string
+    version: number
+    authorId: string | null
+    customIdBefore: string | null
+    customIdAfter: string | null
+    changes: runtime.JsonValue
+    revertOfId: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["itemRevision"]>
+  composites: {}
+}
+
+export type ItemRevisionGetPayload<S extends boolean | null | undefined | ItemRevisionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload, S>
+
+export type ItemRevisionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ItemRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ItemRevisionCountAggregateInputType | true
+  }
+
+export interface ItemRevisionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ItemRevision'], meta: { name: 'ItemRevision' } }
+  /**
+   * Find zero or one ItemRevision that matches the filter.
+   * @param {ItemRevisionFindUniqueArgs} args - Arguments to find a ItemRevision
+   * @example
+   * // Get one ItemRevision
+   * const itemRevision = await prisma.itemRevision.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ItemRevisionFindUniqueArgs>(args: Prisma.SelectSubset<T, ItemRevisionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ItemRevision that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ItemRevisionFindUniqueOrThrowArgs} args - Arguments to find a ItemRevision
+   * @example
+   * // Get one ItemRevision
+   * const itemRevision = await prisma.itemRevision.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ItemRevisionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ItemRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ItemRevision that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionFindFirstArgs} args - Arguments to find a ItemRevision
+   * @example
+   * // Get one ItemRevision
+   * const itemRevision = await prisma.itemRevision.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ItemRevisionFindFirstArgs>(args?: Prisma.SelectSubset<T, ItemRevisionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ItemRevision that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionFindFirstOrThrowArgs} args - Arguments to find a ItemRevision
+   * @example
+   * // Get one ItemRevision
+   * const itemRevision = await prisma.itemRevision.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ItemRevisionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ItemRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ItemRevisions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ItemRevisions
+   * const itemRevisions = await prisma.itemRevision.findMany()
+   * 
+   * // Get first 10 ItemRevisions
+   * const itemRevisions = await prisma.itemRevision.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const itemRevisionWithIdOnly = await prisma.itemRevision.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ItemRevisionFindManyArgs>(args?: Prisma.SelectSubset<T, ItemRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ItemRevision.
+   * @param {ItemRevisionCreateArgs} args - Arguments to create a ItemRevision.
+   * @example
+   * // Create one ItemRevision
+   * const ItemRevision = await prisma.itemRevision.create({
+   *   data: {
+   *     // ... data to create a ItemRevision
+   *   }
+   * })
+   * 
+   */
+  create<T extends ItemRevisionCreateArgs>(args: Prisma.SelectSubset<T, ItemRevisionCreateArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ItemRevisions.
+   * @param {ItemRevisionCreateManyArgs} args - Arguments to create many ItemRevisions.
+   * @example
+   * // Create many ItemRevisions
+   * const itemRevision = await prisma.itemRevision.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ItemRevisionCreateManyArgs>(args?: Prisma.SelectSubset<T, ItemRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ItemRevisions and returns the data saved in the database.
+   * @param {ItemRevisionCreateManyAndReturnArgs} args - Arguments to create many ItemRevisions.
+   * @example
+   * // Create many ItemRevisions
+   * const itemRevision = await prisma.itemRevision.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ItemRevisions and only return the `id`
+   * const itemRevisionWithIdOnly = await prisma.itemRevision.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ItemRevisionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ItemRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ItemRevision.
+   * @param {ItemRevisionDeleteArgs} args - Arguments to delete one ItemRevision.
+   * @example
+   * // Delete one ItemRevision
+   * const ItemRevision = await prisma.itemRevision.delete({
+   *   where: {
+   *     // ... filter to delete one ItemRevision
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ItemRevisionDeleteArgs>(args: Prisma.SelectSubset<T, ItemRevisionDeleteArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ItemRevision.
+   * @param {ItemRevisionUpdateArgs} args - Arguments to update one ItemRevision.
+   * @example
+   * // Update one ItemRevision
+   * const itemRevision = await prisma.itemRevision.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ItemRevisionUpdateArgs>(args: Prisma.SelectSubset<T, ItemRevisionUpdateArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ItemRevisions.
+   * @param {ItemRevisionDeleteManyArgs} args - Arguments to filter ItemRevisions to delete.
+   * @example
+   * // Delete a few ItemRevisions
+   * const { count } = await prisma.itemRevision.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ItemRevisionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ItemRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ItemRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ItemRevisions
+   * const itemRevision = await prisma.itemRevision.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ItemRevisionUpdateManyArgs>(args: Prisma.SelectSubset<T, ItemRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ItemRevisions and returns the data updated in the database.
+   * @param {ItemRevisionUpdateManyAndReturnArgs} args - Arguments to update many ItemRevisions.
+   * @example
+   * // Update many ItemRevisions
+   * const itemRevision = await prisma.itemRevision.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ItemRevisions and only return the `id`
+   * const itemRevisionWithIdOnly = await prisma.itemRevision.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ItemRevisionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ItemRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ItemRevision.
+   * @param {ItemRevisionUpsertArgs} args - Arguments to update or create a ItemRevision.
+   * @example
+   * // Update or create a ItemRevision
+   * const itemRevision = await prisma.itemRevision.upsert({
+   *   create: {
+   *     // ... data to create a ItemRevision
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ItemRevision we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ItemRevisionUpsertArgs>(args: Prisma.SelectSubset<T, ItemRevisionUpsertArgs<ExtArgs>>): Prisma.Prisma__ItemRevisionClient<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ItemRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionCountArgs} args - Arguments to filter ItemRevisions to count.
+   * @example
+   * // Count the number of ItemRevisions
+   * const count = await prisma.itemRevision.count({
+   *   where: {
+   *     // ... the filter for the ItemRevisions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ItemRevisionCountArgs>(
+    args?: Prisma.Subset<T, ItemRevisionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ItemRevisionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ItemRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ItemRevisionAggregateArgs>(args: Prisma.Subset<T, ItemRevisionAggregateArgs>): Prisma.PrismaPromise<GetItemRevisionAggregateType<T>>
+
+  /**
+   * Group by ItemRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ItemRevisionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ItemRevisionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ItemRevisionGroupByArgs['orderBy'] }
+      : { orderBy?: ItemRevisionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ItemRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetItemRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ItemRevision model
+ */
+readonly fields: ItemRevisionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ItemRevision.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ItemRevisionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  item<T extends Prisma.ItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItemDefaultArgs<ExtArgs>>): Prisma.Prisma__ItemClient<runtime.Types.Result.GetResult<Prisma.$ItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  author<T extends Prisma.ItemRevision$authorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItemRevision$authorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ItemRevision model
+ */
+export interface ItemRevisionFieldRefs {
+  readonly id: Prisma.FieldRef<"ItemRevision", 'String'>
+  readonly itemId: Prisma.FieldRef<"ItemRevision", 'String'>
+  readonly version: Prisma.FieldRef<"ItemRevision", 'Int'>
+  readonly authorId: Prisma.FieldRef<"ItemRevision", 'String'>
+  readonly customIdBefore: Prisma.FieldRef<"ItemRevision", 'String'>
+  readonly customIdAfter: Prisma.FieldRef<"ItemRevision", 'String'>
+  readonly changes: Prisma.FieldRef<"ItemRevision", 'Json'>
+  readonly revertOfId: Prisma.FieldRef<"ItemRevision", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ItemRevision", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ItemRevision findUnique
+ */
+export type ItemRevisionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemRevision to fetch.
+   */
+  where: Prisma.ItemRevisionWhereUniqueInput
+}
+
+/**
+ * ItemRevision findUniqueOrThrow
+ */
+export type ItemRevisionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemRevision to fetch.
+   */
+  where: Prisma.ItemRevisionWhereUniqueInput
+}
+
+/**
+ * ItemRevision findFirst
+ */
+export type ItemRevisionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemRevision to fetch.
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemRevisions to fetch.
+   */
+  orderBy?: Prisma.ItemRevisionOrderByWithRelationInput | Prisma.ItemRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ItemRevisions.
+   */
+  cursor?: Prisma.ItemRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ItemRevisions.
+   */
+  distinct?: Prisma.ItemRevisionScalarFieldEnum | Prisma.ItemRevisionScalarFieldEnum[]
+}
+
+/**
+ * ItemRevision findFirstOrThrow
+ */
+export type ItemRevisionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemRevision to fetch.
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemRevisions to fetch.
+   */
+  orderBy?: Prisma.ItemRevisionOrderByWithRelationInput | Prisma.ItemRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ItemRevisions.
+   */
+  cursor?: Prisma.ItemRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ItemRevisions.
+   */
+  distinct?: Prisma.ItemRevisionScalarFieldEnum | Prisma.ItemRevisionScalarFieldEnum[]
+}
+
+/**
+ * ItemRevision findMany
+ */
+export type ItemRevisionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ItemRevisions to fetch.
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ItemRevisions to fetch.
+   */
+  orderBy?: Prisma.ItemRevisionOrderByWithRelationInput | Prisma.ItemRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ItemRevisions.
+   */
+  cursor?: Prisma.ItemRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ItemRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ItemRevisions.
+   */
+  skip?: number
+  distinct?: Prisma.ItemRevisionScalarFieldEnum | Prisma.ItemRevisionScalarFieldEnum[]
+}
+
+/**
+ * ItemRevision create
+ */
+export type ItemRevisionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ItemRevision.
+   */
+  data: Prisma.XOR<Prisma.ItemRevisionCreateInput, Prisma.ItemRevisionUncheckedCreateInput>
+}
+
+/**
+ * ItemRevision createMany
+ */
+export type ItemRevisionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ItemRevisions.
+   */
+  data: Prisma.ItemRevisionCreateManyInput | Prisma.ItemRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ItemRevision createManyAndReturn
+ */
+export type ItemRevisionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ItemRevisions.
+   */
+  data: Prisma.ItemRevisionCreateManyInput | Prisma.ItemRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ItemRevision update
+ */
+export type ItemRevisionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ItemRevision.
+   */
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateInput, Prisma.ItemRevisionUncheckedUpdateInput>
+  /**
+   * Choose, which ItemRevision to update.
+   */
+  where: Prisma.ItemRevisionWhereUniqueInput
+}
+
+/**
+ * ItemRevision updateMany
+ */
+export type ItemRevisionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ItemRevisions.
+   */
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateManyMutationInput, Prisma.ItemRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which ItemRevisions to update
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * Limit how many ItemRevisions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ItemRevision updateManyAndReturn
+ */
+export type ItemRevisionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to update ItemRevisions.
+   */
+  data: Prisma.XOR<Prisma.ItemRevisionUpdateManyMutationInput, Prisma.ItemRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which ItemRevisions to update
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * Limit how many ItemRevisions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ItemRevision upsert
+ */
+export type ItemRevisionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ItemRevision to update in case it exists.
+   */
+  where: Prisma.ItemRevisionWhereUniqueInput
+  /**
+   * In case the ItemRevision found by the `where` argument doesn't exist, create a new ItemRevision with this data.
+   */
+  create: Prisma.XOR<Prisma.ItemRevisionCreateInput, Prisma.ItemRevisionUncheckedCreateInput>
+  /**
+   * In case the ItemRevision was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ItemRevisionUpdateInput, Prisma.ItemRevisionUncheckedUpdateInput>
+}
+
+/**
+ * ItemRevision delete
+ */
+export type ItemRevisionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  /**
+   * Filter which ItemRevision to delete.
+   */
+  where: Prisma.ItemRevisionWhereUniqueInput
+}
+
+/**
+ * ItemRevision deleteMany
+ */
+export type ItemRevisionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ItemRevisions to delete
+   */
+  where?: Prisma.ItemRevisionWhereInput
+  /**
+   * Limit how many ItemRevisions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ItemRevision.author
+ */
+export type ItemRevision$authorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * ItemRevision without action
+ */
+export type ItemRevisionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1452 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SavedSearchAlert` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SavedSearchAlert
+ * 
+ */
+export type SavedSearchAlertModel = runtime.Types.Result.DefaultSelection<Prisma.$SavedSearchAlertPayload>
+
+export type AggregateSavedSearchAlert = {
+  _count: SavedSearchAlertCountAggregateOutputType | null
+  _min: SavedSearchAlertMinAggregateOutputType | null
+  _max: SavedSearchAlertMaxAggregateOutputType | null
+}
+
+export type SavedSearchAlertMinAggregateOutputType = {
+  id: string | null
+  savedSearchId: string | null
+  kind: string | null
+  targetId: string | null
+  inventoryId: string | null
+  title: string | null
+  readAt: Date | null
+  createdAt: Date | null
+}
+
+export type SavedSearchAlertMaxAggregateOutputType = {
+  id: string | null
+  savedSearchId: string | null
+  kind: string | null
+  targetId: string | null
+  inventoryId: string | null
+  title: string | null
+  readAt: Date | null
+  createdAt: Date | null
+}
+
+export type SavedSearchAlertCountAggregateOutputType = {
+  id: number
+  savedSearchId: number
+  kind: number
+  targetId: number
+  inventoryId: number
+  title: number
+  readAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SavedSearchAlertMinAggregateInputType = {
+  id?: true
+  savedSearchId?: true
+  kind?: true
+  targetId?: true
+  inventoryId?: true
+  title?: true
+  readAt?: true
+  createdAt?: true
+}
+
+export type SavedSearchAlertMaxAggregateInputType = {
+  id?: true
+  savedSearchId?: true
+  kind?: true
+  targetId?: true
+  inventoryId?: true
+  title?: true
+  readAt?: true
+  createdAt?: true
+}
+
+export type SavedSearchAlertCountAggregateInputType = {
+  id?: true
+  savedSearchId?: true
+  kind?: true
+  targetId?: true
+  inventoryId?: true
+  title?: true
+  readAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SavedSearchAlertAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SavedSearchAlert to aggregate.
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchAlerts to fetch.
+   */
+  orderBy?: Prisma.SavedSearchAlertOrderByWithRelationInput | Prisma.SavedSearchAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SavedSearchAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchAlerts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SavedSearchAlerts
+  **/
+  _count?: true | SavedSearchAlertCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SavedSearchAlertMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SavedSearchAlertMaxAggregateInputType
+}
+
+export type GetSavedSearchAlertAggregateType<T extends SavedSearchAlertAggregateArgs> = {
+      [P in keyof T & keyof AggregateSavedSearchAlert]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSavedSearchAlert[P]>
+    : Prisma.GetScalarType<T[P], AggregateSavedSearchAlert[P]>
+}
+
+
+
+
+export type SavedSearchAlertGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchAlertWhereInput
+  orderBy?: Prisma.SavedSearchAlertOrderByWithAggregationInput | Prisma.SavedSearchAlertOrderByWithAggregationInput[]
+  by: Prisma.SavedSearchAlertScalarFieldEnum[] | Prisma.SavedSearchAlertScalarFieldEnum
+  having?: Prisma.SavedSearchAlertScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SavedSearchAlertCountAggregateInputType | true
+  _min?: SavedSearchAlertMinAggregateInputType
+  _max?: SavedSearchAlertMaxAggregateInputType
+}
+
+export type SavedSearchAlertGroupByOutputType = {
+  id: string
+  savedSearchId: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt: Date | null
+  createdAt: Date
+  _count: SavedSearchAlertCountAggregateOutputType | null
+  _min: SavedSearchAlertMinAggregateOutputType | null
+  _max: SavedSearchAlertMaxAggregateOutputType | null
+}
+
+type GetSavedSearchAlertGroupByPayload<T extends SavedSearchAlertGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SavedSearchAlertGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SavedSearchAlertGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SavedSearchAlertGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SavedSearchAlertGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SavedSearchAlertWhereInput = {
+  AND?: Prisma.SavedSearchAlertWhereInput | Prisma.SavedSearchAlertWhereInput[]
+  OR?: Prisma.SavedSearchAlertWhereInput[]
+  NOT?: Prisma.SavedSearchAlertWhereInput | Prisma.SavedSearchAlertWhereInput[]
+  id?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  savedSearchId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  kind?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  targetId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  inventoryId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  title?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  readAt?: Prisma.DateTimeNullableFilter<"SavedSearchAlert"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SavedSearchAlert"> | Date | string
+  savedSearch?: Prisma.XOR<Prisma.SavedSearchScalarRelationFilter, Prisma.SavedSearchWhereInput>
+}
+
+export type SavedSearchAlertOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  savedSearchId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  readAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  savedSearch?: Prisma.SavedSearchOrderByWithRelationInput
+}
+
+export type SavedSearchAlertWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  savedSearchId_kind_targetId?: Prisma.SavedSearchAlertSavedSearchIdKindTargetIdCompoundUniqueInput
+  AND?: Prisma.SavedSearchAlertWhereInput | Prisma.SavedSearchAlertWhereInput[]
+  OR?: Prisma.SavedSearchAlertWhereInput[]
+  NOT?: Prisma.SavedSearchAlertWhereInput | Prisma.SavedSearchAlertWhereInput[]
+  savedSearchId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  kind?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  targetId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  inventoryId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  title?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  readAt?: Prisma.DateTimeNullableFilter<"SavedSearchAlert"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SavedSearchAlert"> | Date | string
+  savedSearch?: Prisma.XOR<Prisma.SavedSearchScalarRelationFilter, Prisma.SavedSearchWhereInput>
+}, "id" | "savedSearchId_kind_targetId">
+
+export type SavedSearchAlertOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  savedSearchId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  readAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SavedSearchAlertCountOrderByAggregateInput
+  _max?: Prisma.SavedSearchAlertMaxOrderByAggregateInput
+  _min?: Prisma.SavedSearchAlertMinOrderByAggregateInput
+}
+
+export type SavedSearchAlertScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SavedSearchAlertScalarWhereWithAggregatesInput | Prisma.SavedSearchAlertScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SavedSearchAlertScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SavedSearchAlertScalarWhereWithAggregatesInput | Prisma.SavedSearchAlertScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SavedSearchAlert"> | string
+  savedSearchId?: Prisma.StringWithAggregatesFilter<"SavedSearchAlert"> | string
+  kind?: Prisma.StringWithAggregatesFilter<"SavedSearchAlert"> | string
+  targetId?: Prisma.StringWithAggregatesFilter<"SavedSearchAlert"> | string
+  inventoryId?: Prisma.StringWithAggregatesFilter<"SavedSearchAlert"> | string
+  title?: Prisma.StringWithAggregatesFilter<"SavedSearchAlert"> | string
+  readAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SavedSearchAlert"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SavedSearchAlert"> | Date | string
+}
+
+export type SavedSearchAlertCreateInput = {
+  id?: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  savedSearch: Prisma.SavedSearchCreateNestedOneWithoutAlertsInput
+}
+
+export type SavedSearchAlertUncheckedCreateInput = {
+  id?: string
+  savedSearchId: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type SavedSearchAlertUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  savedSearch?: Prisma.SavedSearchUpdateOneRequiredWithoutAlertsNestedInput
+}
+
+export type SavedSearchAlertUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  savedSearchId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchAlertCreateManyInput = {
+  id?: string
+  savedSearchId: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type SavedSearchAlertUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchAlertUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  savedSearchId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchAlertListRelationFilter = {
+  every?: Prisma.SavedSearchAlertWhereInput
+  some?: Prisma.SavedSearchAlertWhereInput
+  none?: Prisma.SavedSearchAlertWhereInput
+}
+
+export type SavedSearchAlertOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SavedSearchAlertSavedSearchIdKindTargetIdCompoundUniqueInput = {
+  savedSearchId: string
+  kind: string
+  targetId: string
+}
+
+export type SavedSearchAlertCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  savedSearchId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SavedSearchAlertMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  savedSearchId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SavedSearchAlertMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  savedSearchId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  inventoryId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SavedSearchAlertCreateNestedManyWithoutSavedSearchInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchAlertCreateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchAlertCreateWithoutSavedSearchInput[] | Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchAlertCreateManySavedSearchInputEnvelope
+  connect?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+}
+
+export type SavedSearchAlertUncheckedCreateNestedManyWithoutSavedSearchInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchAlertCreateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchAlertCreateWithoutSavedSearchInput[] | Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchAlertCreateManySavedSearchInputEnvelope
+  connect?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+}
+
+export type SavedSearchAlertUpdateManyWithoutSavedSearchNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchAlertCreateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchAlertCreateWithoutSavedSearchInput[] | Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput[]
+  upsert?: Prisma.SavedSearchAlertUpsertWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchAlertUpsertWithWhereUniqueWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchAlertCreateManySavedSearchInputEnvelope
+  set?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  delete?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  connect?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  update?: Prisma.SavedSearchAlertUpdateWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchAlertUpdateWithWhereUniqueWithoutSavedSearchInput[]
+  updateMany?: Prisma.SavedSearchAlertUpdateManyWithWhereWithoutSavedSearchInput | Prisma.SavedSearchAlertUpdateManyWithWhereWithoutSavedSearchInput[]
+  deleteMany?: Prisma.SavedSearchAlertScalarWhereInput | Prisma.SavedSearchAlertScalarWhereInput[]
+}
+
+export type SavedSearchAlertUncheckedUpdateManyWithoutSavedSearchNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchAlertCreateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchAlertCreateWithoutSavedSearchInput[] | Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchAlertCreateOrConnectWithoutSavedSearchInput[]
+  upsert?: Prisma.SavedSearchAlertUpsertWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchAlertUpsertWithWhereUniqueWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchAlertCreateManySavedSearchInputEnvelope
+  set?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  delete?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  connect?: Prisma.SavedSearchAlertWhereUniqueInput | Prisma.SavedSearchAlertWhereUniqueInput[]
+  update?: Prisma.SavedSearchAlertUpdateWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchAlertUpdateWithWhereUniqueWithoutSavedSearchInput[]
+  updateMany?: Prisma.SavedSearchAlertUpdateManyWithWhereWithoutSavedSearchInput | Prisma.SavedSearchAlertUpdateManyWithWhereWithoutSavedSearchInput[]
+  deleteMany?: Prisma.SavedSearchAlertScalarWhereInput | Prisma.SavedSearchAlertScalarWhereInput[]
+}
+
+export type SavedSearchAlertCreateWithoutSavedSearchInput = {
+  id?: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type SavedSearchAlertUncheckedCreateWithoutSavedSearchInput = {
+  id?: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type SavedSearchAlertCreateOrConnectWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+  create: Prisma.XOR<Prisma.SavedSearchAlertCreateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput>
+}
+
+export type SavedSearchAlertCreateManySavedSearchInputEnvelope = {
+  data: Prisma.SavedSearchAlertCreateManySavedSearchInput | Prisma.SavedSearchAlertCreateManySavedSearchInput[]
+  skipDuplicates?: boolean
+}
+
+export type SavedSearchAlertUpsertWithWhereUniqueWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+  update: Prisma.XOR<Prisma.SavedSearchAlertUpdateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedUpdateWithoutSavedSearchInput>
+  create: Prisma.XOR<Prisma.SavedSearchAlertCreateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedCreateWithoutSavedSearchInput>
+}
+
+export type SavedSearchAlertUpdateWithWhereUniqueWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+  data: Prisma.XOR<Prisma.SavedSearchAlertUpdateWithoutSavedSearchInput, Prisma.SavedSearchAlertUncheckedUpdateWithoutSavedSearchInput>
+}
+
+export type SavedSearchAlertUpdateManyWithWhereWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchAlertScalarWhereInput
+  data: Prisma.XOR<Prisma.SavedSearchAlertUpdateManyMutationInput, Prisma.SavedSearchAlertUncheckedUpdateManyWithoutSavedSearchInput>
+}
+
+export type SavedSearchAlertScalarWhereInput = {
+  AND?: Prisma.SavedSearchAlertScalarWhereInput | Prisma.SavedSearchAlertScalarWhereInput[]
+  OR?: Prisma.SavedSearchAlertScalarWhereInput[]
+  NOT?: Prisma.SavedSearchAlertScalarWhereInput | Prisma.SavedSearchAlertScalarWhereInput[]
+  id?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  savedSearchId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  kind?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  targetId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  inventoryId?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  title?: Prisma.StringFilter<"SavedSearchAlert"> | string
+  readAt?: Prisma.DateTimeNullableFilter<"SavedSearchAlert"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SavedSearchAlert"> | Date | string
+}
+
+export type SavedSearchAlertCreateManySavedSearchInput = {
+  id?: string
+  kind: string
+  targetId: string
+  inventoryId: string
+  title: string
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type SavedSearchAlertUpdateWithoutSavedSearchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchAlertUncheckedUpdateWithoutSavedSearchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchAlertUncheckedUpdateManyWithoutSavedSearchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SavedSearchAlertSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  savedSearchId?: boolean
+  kind?: boolean
+  targetId?: boolean
+  inventoryId?: boolean
+  title?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearchAlert"]>
+
+export type SavedSearchAlertSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  savedSearchId?: boolean
+  kind?: boolean
+  targetId?: boolean
+  inventoryId?: boolean
+  title?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearchAlert"]>
+
+export type SavedSearchAlertSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  savedSearchId?: boolean
+  kind?: boolean
+  targetId?: boolean
+  inventoryId?: boolean
+  title?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearchAlert"]>
+
+export type SavedSearchAlertSelectScalar = {
+  id?: boolean
+  savedSearchId?: boolean
+  kind?: boolean
+  targetId?: boolean
+  inventoryId?: boolean
+  title?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+}
+
+export type SavedSearchAlertOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "savedSearchId" | "kind" | "targetId" | "inventoryId" | "title" | "readAt" | "createdAt", ExtArgs["result"]["savedSearchAlert"]>
+export type SavedSearchAlertInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+}
+export type SavedSearchAlertIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+}
+export type SavedSearchAlertIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+}
+
+export type $SavedSearchAlertPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SavedSearchAlert"
+  objects: {
+    savedSearch: Prisma.$SavedSearchPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    savedSearchId: string
+    kind: string
+    targetId: string
+    inventoryId: string
+    title: string
+    readAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["savedSearchAlert"]>
+  composites: {}
+}
+
+export type SavedSearchAlertGetPayload<S extends boolean | null | undefined | SavedSearchAlertDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload, S>
+
+export type SavedSearchAlertCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SavedSearchAlertFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SavedSearchAlertCountAggregateInputType | true
+  }
+
+export interface SavedSearchAlertDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SavedSearchAlert'], meta: { name: 'SavedSearchAlert' } }
+  /**
+   * Find zero or one SavedSearchAlert that matches the filter.
+   * @param {SavedSearchAlertFindUniqueArgs} args - Arguments to find a SavedSearchAlert
+   * @example
+   * // Get one SavedSearchAlert
+   * const savedSearchAlert = await prisma.savedSearchAlert.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SavedSearchAlertFindUniqueArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SavedSearchAlert that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SavedSearchAlertFindUniqueOrThrowArgs} args - Arguments to find a SavedSearchAlert
+   * @example
+   * // Get one SavedSearchAlert
+   * const savedSearchAlert = await prisma.savedSearchAlert.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SavedSearchAlertFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SavedSearchAlert that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertFindFirstArgs} args - Arguments to find a SavedSearchAlert
+   * @example
+   * // Get one SavedSearchAlert
+   * const savedSearchAlert = await prisma.savedSearchAlert.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SavedSearchAlertFindFirstArgs>(args?: Prisma.SelectSubset<T, SavedSearchAlertFindFirstArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SavedSearchAlert that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertFindFirstOrThrowArgs} args - Arguments to find a SavedSearchAlert
+   * @example
+   * // Get one SavedSearchAlert
+   * const savedSearchAlert = await prisma.savedSearchAlert.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SavedSearchAlertFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SavedSearchAlertFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SavedSearchAlerts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SavedSearchAlerts
+   * const savedSearchAlerts = await prisma.savedSearchAlert.findMany()
+   * 
+   * // Get first 10 SavedSearchAlerts
+   * const savedSearchAlerts = await prisma.savedSearchAlert.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const savedSearchAlertWithIdOnly = await prisma.savedSearchAlert.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SavedSearchAlertFindManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchAlertFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SavedSearchAlert.
+   * @param {SavedSearchAlertCreateArgs} args - Arguments to create a SavedSearchAlert.
+   * @example
+   * // Create one SavedSearchAlert
+   * const SavedSearchAlert = await prisma.savedSearchAlert.create({
+   *   data: {
+   *     // ... data to create a SavedSearchAlert
+   *   }
+   * })
+   * 
+   */
+  create<T extends SavedSearchAlertCreateArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertCreateArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SavedSearchAlerts.
+   * @param {SavedSearchAlertCreateManyArgs} args - Arguments to create many SavedSearchAlerts.
+   * @example
+   * // Create many SavedSearchAlerts
+   * const savedSearchAlert = await prisma.savedSearchAlert.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SavedSearchAlertCreateManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchAlertCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SavedSearchAlerts and returns the data saved in the database.
+   * @param {SavedSearchAlertCreateManyAndReturnArgs} args - Arguments to create many SavedSearchAlerts.
+   * @example
+   * // Create many SavedSearchAlerts
+   * const savedSearchAlert = await prisma.savedSearchAlert.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SavedSearchAlerts and only return the `id`
+   * const savedSearchAlertWithIdOnly = await prisma.savedSearchAlert.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SavedSearchAlertCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SavedSearchAlertCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SavedSearchAlert.
+   * @param {SavedSearchAlertDeleteArgs} args - Arguments to delete one SavedSearchAlert.
+   * @example
+   * // Delete one SavedSearchAlert
+   * const SavedSearchAlert = await prisma.savedSearchAlert.delete({
+   *   where: {
+   *     // ... filter to delete one SavedSearchAlert
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SavedSearchAlertDeleteArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertDeleteArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SavedSearchAlert.
+   * @param {SavedSearchAlertUpdateArgs} args - Arguments to update one SavedSearchAlert.
+   * @example
+   * // Update one SavedSearchAlert
+   * const savedSearchAlert = await prisma.savedSearchAlert.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SavedSearchAlertUpdateArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertUpdateArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SavedSearchAlerts.
+   * @param {SavedSearchAlertDeleteManyArgs} args - Arguments to filter SavedSearchAlerts to delete.
+   * @example
+   * // Delete a few SavedSearchAlerts
+   * const { count } = await prisma.savedSearchAlert.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SavedSearchAlertDeleteManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchAlertDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SavedSearchAlerts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SavedSearchAlerts
+   * const savedSearchAlert = await prisma.savedSearchAlert.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SavedSearchAlertUpdateManyArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SavedSearchAlerts and returns the data updated in the database.
+   * @param {SavedSearchAlertUpdateManyAndReturnArgs} args - Arguments to update many SavedSearchAlerts.
+   * @example
+   * // Update many SavedSearchAlerts
+   * const savedSearchAlert = await prisma.savedSearchAlert.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SavedSearchAlerts and only return the `id`
+   * const savedSearchAlertWithIdOnly = await prisma.savedSearchAlert.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SavedSearchAlertUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SavedSearchAlert.
+   * @param {SavedSearchAlertUpsertArgs} args - Arguments to update or create a SavedSearchAlert.
+   * @example
+   * // Update or create a SavedSearchAlert
+   * const savedSearchAlert = await prisma.savedSearchAlert.upsert({
+   *   create: {
+   *     // ... data to create a SavedSearchAlert
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SavedSearchAlert we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SavedSearchAlertUpsertArgs>(args: Prisma.SelectSubset<T, SavedSearchAlertUpsertArgs<ExtArgs>>): Prisma.Prisma__SavedSearchAlertClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchAlertPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SavedSearchAlerts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertCountArgs} args - Arguments to filter SavedSearchAlerts to count.
+   * @example
+   * // Count the number of SavedSearchAlerts
+   * const count = await prisma.savedSearchAlert.count({
+   *   where: {
+   *     // ... the filter for the SavedSearchAlerts we want to count
+   *   }
+   * })
+  **/
+  count<T extends SavedSearchAlertCountArgs>(
+    args?: Prisma.Subset<T, SavedSearchAlertCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SavedSearchAlertCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SavedSearchAlert.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SavedSearchAlertAggregateArgs>(args: Prisma.Subset<T, SavedSearchAlertAggregateArgs>): Prisma.PrismaPromise<GetSavedSearchAlertAggregateType<T>>
+
+  /**
+   * Group by SavedSearchAlert.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAlertGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SavedSearchAlertGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SavedSearchAlertGroupByArgs['orderBy'] }
+      : { orderBy?: SavedSearchAlertGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SavedSearchAlertGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSavedSearchAlertGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SavedSearchAlert model
+ */
+readonly fields: SavedSearchAlertFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SavedSearchAlert.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SavedSearchAlertClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  savedSearch<T extends Prisma.SavedSearchDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SavedSearchDefaultArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SavedSearchAlert model
+ */
+export interface SavedSearchAlertFieldRefs {
+  readonly id: Prisma.FieldRef<"SavedSearchAlert", 'String'>
+  readonly savedSearchId: Prisma.FieldRef<"SavedSearchAlert", 'String'>
+  readonly kind: Prisma.FieldRef<"SavedSearchAlert", 'String'>
+  readonly targetId: Prisma.FieldRef<"SavedSearchAlert", 'String'>
+  readonly inventoryId: Prisma.FieldRef<"SavedSearchAlert", 'String'>
+  readonly title: Prisma.FieldRef<"SavedSearchAlert", 'String'>
+  readonly readAt: Prisma.FieldRef<"SavedSearchAlert", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"SavedSearchAlert", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SavedSearchAlert findUnique
+ */
+export type SavedSearchAlertFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchAlert to fetch.
+   */
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+}
+
+/**
+ * SavedSearchAlert findUniqueOrThrow
+ */
+export type SavedSearchAlertFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchAlert to fetch.
+   */
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+}
+
+/**
+ * SavedSearchAlert findFirst
+ */
+export type SavedSearchAlertFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchAlert to fetch.
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchAlerts to fetch.
+   */
+  orderBy?: Prisma.SavedSearchAlertOrderByWithRelationInput | Prisma.SavedSearchAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SavedSearchAlerts.
+   */
+  cursor?: Prisma.SavedSearchAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchAlerts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SavedSearchAlerts.
+   */
+  distinct?: Prisma.SavedSearchAlertScalarFieldEnum | Prisma.SavedSearchAlertScalarFieldEnum[]
+}
+
+/**
+ * SavedSearchAlert findFirstOrThrow
+ */
+export type SavedSearchAlertFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchAlert to fetch.
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchAlerts to fetch.
+   */
+  orderBy?: Prisma.SavedSearchAlertOrderByWithRelationInput | Prisma.SavedSearchAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SavedSearchAlerts.
+   */
+  cursor?: Prisma.SavedSearchAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchAlerts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SavedSearchAlerts.
+   */
+  distinct?: Prisma.SavedSearchAlertScalarFieldEnum | Prisma.SavedSearchAlertScalarFieldEnum[]
+}
+
+/**
+ * SavedSearchAlert findMany
+ */
+export type SavedSearchAlertFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchAlerts to fetch.
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchAlerts to fetch.
+   */
+  orderBy?: Prisma.SavedSearchAlertOrderByWithRelationInput | Prisma.SavedSearchAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SavedSearchAlerts.
+   */
+  cursor?: Prisma.SavedSearchAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchAlerts.
+   */
+  skip?: number
+  distinct?: Prisma.SavedSearchAlertScalarFieldEnum | Prisma.SavedSearchAlertScalarFieldEnum[]
+}
+
+/**
+ * SavedSearchAlert create
+ */
+export type SavedSearchAlertCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SavedSearchAlert.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchAlertCreateInput, Prisma.SavedSearchAlertUncheckedCreateInput>
+}
+
+/**
+ * SavedSearchAlert createMany
+ */
+export type SavedSearchAlertCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SavedSearchAlerts.
+   */
+  data: Prisma.SavedSearchAlertCreateManyInput | Prisma.SavedSearchAlertCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SavedSearchAlert createManyAndReturn
+ */
+export type SavedSearchAlertCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * The data used to create many SavedSearchAlerts.
+   */
+  data: Prisma.SavedSearchAlertCreateManyInput | Prisma.SavedSearchAlertCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SavedSearchAlert update
+ */
+export type SavedSearchAlertUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SavedSearchAlert.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchAlertUpdateInput, Prisma.SavedSearchAlertUncheckedUpdateInput>
+  /**
+   * Choose, which SavedSearchAlert to update.
+   */
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+}
+
+/**
+ * SavedSearchAlert updateMany
+ */
+export type SavedSearchAlertUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SavedSearchAlerts.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchAlertUpdateManyMutationInput, Prisma.SavedSearchAlertUncheckedUpdateManyInput>
+  /**
+   * Filter which SavedSearchAlerts to update
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * Limit how many SavedSearchAlerts to update.
+   */
+  limit?: number
+}
+
+/**
+ * SavedSearchAlert updateManyAndReturn
+ */
+export type SavedSearchAlertUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * The data used to update SavedSearchAlerts.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchAlertUpdateManyMutationInput, Prisma.SavedSearchAlertUncheckedUpdateManyInput>
+  /**
+   * Filter which SavedSearchAlerts to update
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * Limit how many SavedSearchAlerts to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SavedSearchAlert upsert
+ */
+export type SavedSearchAlertUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SavedSearchAlert to update in case it exists.
+   */
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+  /**
+   * In case the SavedSearchAlert found by the `where` argument doesn't exist, create a new SavedSearchAlert with this data.
+   */
+  create: Prisma.XOR<Prisma.SavedSearchAlertCreateInput, Prisma.SavedSearchAlertUncheckedCreateInput>
+  /**
+   * In case the SavedSearchAlert was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SavedSearchAlertUpdateInput, Prisma.SavedSearchAlertUncheckedUpdateInput>
+}
+
+/**
+ * SavedSearchAlert delete
+ */
+export type SavedSearchAlertDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+  /**
+   * Filter which SavedSearchAlert to delete.
+   */
+  where: Prisma.SavedSearchAlertWhereUniqueInput
+}
+
+/**
+ * SavedSearchAlert deleteMany
+ */
+export type SavedSearchAlertDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SavedSearchAlerts to delete
+   */
+  where?: Prisma.SavedSearchAlertWhereInput
+  /**
+   * Limit how many SavedSearchAlerts to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SavedSearchAlert without action
+ */
+export type SavedSearchAlertDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchAlert
+   */
+  select?: Prisma.SavedSearchAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchAlert
+   */
+  omit?: Prisma.SavedSearchAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchAlertInclude<ExtArgs> | null
+}
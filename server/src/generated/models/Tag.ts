@@ -167,6 +167,7 @@ export type TagWhereInput = {
   name?: Prisma.StringFilter<"Tag"> | string
   createdAt?: Prisma.DateTimeFilter<"Tag"> | Date | string
   inventories?: Prisma.InventoryTagListRelationFilter
+  synonyms?: Prisma.TagSynonymListRelationFilter
 }
 
 export type TagOrderByWithRelationInput = {
@@ -174,6 +175,7 @@ export type TagOrderByWithRelationInput = {
   name?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   inventories?: Prisma.InventoryTagOrderByRelationAggregateInput
+  synonyms?: Prisma.TagSynonymOrderByRelationAggregateInput
 }
 
 export type TagWhereUniqueInput = Prisma.AtLeast<{
@@ -184,6 +186,7 @@ export type TagWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.TagWhereInput | Prisma.TagWhereInput[]
   createdAt?: Prisma.DateTimeFilter<"Tag"> | Date | string
   inventories?: Prisma.InventoryTagListRelationFilter
+  synonyms?: Prisma.TagSynonymListRelationFilter
 }, "id" | "name">
 
 export type TagOrderByWithAggregationInput = {
@@ -209,6 +212,7 @@ export type TagCreateInput = {
   name: string
   createdAt?: Date | string
   inventories?: Prisma.InventoryTagCreateNestedManyWithoutTagInput
+  synonyms?: Prisma.TagSynonymCreateNestedManyWithoutTagInput
 }
 
 export type TagUncheckedCreateInput = {
@@ -216,6 +220,7 @@ export type TagUncheckedCreateInput = {
   name: string
   createdAt?: Date | string
   inventories?: Prisma.InventoryTagUncheckedCreateNestedManyWithoutTagInput
+  synonyms?: Prisma.TagSynonymUncheckedCreateNestedManyWithoutTagInput
 }
 
 export type TagUpdateInput = {
@@ -223,6 +228,7 @@ export type TagUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventories?: Prisma.InventoryTagUpdateManyWithoutTagNestedInput
+  synonyms?: Prisma.TagSynonymUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateInput = {
@@ -230,6 +236,7 @@ export type TagUncheckedUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventories?: Prisma.InventoryTagUncheckedUpdateManyWithoutTagNestedInput
+  synonyms?: Prisma.TagSynonymUncheckedUpdateManyWithoutTagNestedInput
 }
 
 export type TagCreateManyInput = {
@@ -273,6 +280,20 @@ export type TagScalarRelationFilter = {
   isNot?: Prisma.TagWhereInput
 }
 
+export type TagCreateNestedOneWithoutSynonymsInput = {
+  create?: Prisma.XOR<Prisma.TagCreateWithoutSynonymsInput, Prisma.TagUncheckedCreateWithoutSynonymsInput>
+  connectOrCreate?: Prisma.TagCreateOrConnectWithoutSynonymsInput
+  connect?: Prisma.TagWhereUniqueInput
+}
+
+export type TagUpdateOneRequiredWithoutSynonymsNestedInput = {
+  create?: Prisma.XOR<Prisma.TagCreateWithoutSynonymsInput, Prisma.TagUncheckedCreateWithoutSynonymsInput>
+  connectOrCreate?: Prisma.TagCreateOrConnectWithoutSynonymsInput
+  upsert?: Prisma.TagUpsertWithoutSynonymsInput
+  connect?: Prisma.TagWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TagUpdateToOneWithWhereWithoutSynonymsInput, Prisma.TagUpdateWithoutSynonymsInput>, Prisma.TagUncheckedUpdateWithoutSynonymsInput>
+}
+
 export type TagCreateNestedOneWithoutInventoriesInput = {
   create?: Prisma.XOR<Prisma.TagCreateWithoutInventoriesInput, Prisma.TagUncheckedCreateWithoutInventoriesInput>
   connectOrCreate?: Prisma.TagCreateOrConnectWithoutInventoriesInput
@@ -287,16 +308,62 @@ export type TagUpdateOneRequiredWithoutInventoriesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TagUpdateToOneWithWhereWithoutInventoriesInput, Prisma.TagUpdateWithoutInventoriesInput>, Prisma.TagUncheckedUpdateWithoutInventoriesInput>
 }
 
+export type TagCreateWithoutSynonymsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  inventories?: Prisma.InventoryTagCreateNestedManyWithoutTagInput
+}
+
+export type TagUncheckedCreateWithoutSynonymsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  inventories?: Prisma.InventoryTagUncheckedCreateNestedManyWithoutTagInput
+}
+
+export type TagCreateOrConnectWithoutSynonymsInput = {
+  where: Prisma.TagWhereUniqueInput
+  create: Prisma.XOR<Prisma.TagCreateWithoutSynonymsInput, Prisma.TagUncheckedCreateWithoutSynonymsInput>
+}
+
+export type TagUpsertWithoutSynonymsInput = {
+  update: Prisma.XOR<Prisma.TagUpdateWithoutSynonymsInput, Prisma.TagUncheckedUpdateWithoutSynonymsInput>
+  create: Prisma.XOR<Prisma.TagCreateWithoutSynonymsInput, Prisma.TagUncheckedCreateWithoutSynonymsInput>
+  where?: Prisma.TagWhereInput
+}
+
+export type TagUpdateToOneWithWhereWithoutSynonymsInput = {
+  where?: Prisma.TagWhereInput
+  data: Prisma.XOR<Prisma.TagUpdateWithoutSynonymsInput, Prisma.TagUncheckedUpdateWithoutSynonymsInput>
+}
+
+export type TagUpdateWithoutSynonymsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  inventories?: Prisma.InventoryTagUpdateManyWithoutTagNestedInput
+}
+
+export type TagUncheckedUpdateWithoutSynonymsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  inventories?: Prisma.InventoryTagUncheckedUpdateManyWithoutTagNestedInput
+}
+
 export type TagCreateWithoutInventoriesInput = {
   id?: string
   name: string
   createdAt?: Date | string
+  synonyms?: Prisma.TagSynonymCreateNestedManyWithoutTagInput
 }
 
 export type TagUncheckedCreateWithoutInventoriesInput = {
   id?: string
   name: string
   createdAt?: Date | string
+  synonyms?: Prisma.TagSynonymUncheckedCreateNestedManyWithoutTagInput
 }
 
 export type TagCreateOrConnectWithoutInventoriesInput = {
@@ -319,12 +386,14 @@ export type TagUpdateWithoutInventoriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  synonyms?: Prisma.TagSynonymUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateWithoutInventoriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  synonyms?: Prisma.TagSynonymUncheckedUpdateManyWithoutTagNestedInput
 }
 
 
@@ -334,10 +403,12 @@ export type TagUncheckedUpdateWithoutInventoriesInput = {
 
 export type TagCountOutputType = {
   inventories: number
+  synonyms: number
 }
 
 export type TagCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventories?: boolean | TagCountOutputTypeCountInventoriesArgs
+  synonyms?: boolean | TagCountOutputTypeCountSynonymsArgs
 }
 
 /**
@@ -357,12 +428,20 @@ export type TagCountOutputTypeCountInventoriesArgs<ExtArgs extends runtime.Types
   where?: Prisma.InventoryTagWhereInput
 }
 
+/**
+ * TagCountOutputType without action
+ */
+export type TagCountOutputTypeCountSynonymsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TagSynonymWhereInput
+}
+
 
 export type TagSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
   createdAt?: boolean
   inventories?: boolean | Prisma.Tag$inventoriesArgs<ExtArgs>
+  synonyms?: boolean | Prisma.Tag$synonymsArgs<ExtArgs>
   _count?: boolean | Prisma.TagCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["tag"]>
 
@@ -387,6 +466,7 @@ export type TagSelectScalar = {
 export type TagOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "createdAt", ExtArgs["result"]["tag"]>
 export type TagInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventories?: boolean | Prisma.Tag$inventoriesArgs<ExtArgs>
+  synonyms?: boolean | Prisma.Tag$synonymsArgs<ExtArgs>
   _count?: boolean | Prisma.TagCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TagIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -396,6 +476,7 @@ export type $TagPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   name: "Tag"
   objects: {
     inventories: Prisma.$InventoryTagPayload<ExtArgs>[]
+    synonyms: Prisma.$TagSynonymPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -796,6 +877,7 @@ readonly fields: TagFieldRefs;
 export interface Prisma__TagClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   inventories<T extends Prisma.Tag$inventoriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tag$inventoriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryTagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  synonyms<T extends Prisma.Tag$synonymsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tag$synonymsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1239,6 +1321,30 @@ export type Tag$inventoriesArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.InventoryTagScalarFieldEnum | Prisma.InventoryTagScalarFieldEnum[]
 }
 
+/**
+ * Tag.synonyms
+ */
+export type Tag$synonymsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  where?: Prisma.TagSynonymWhereInput
+  orderBy?: Prisma.TagSynonymOrderByWithRelationInput | Prisma.TagSynonymOrderByWithRelationInput[]
+  cursor?: Prisma.TagSynonymWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TagSynonymScalarFieldEnum | Prisma.TagSynonymScalarFieldEnum[]
+}
+
 /**
  * Tag without action
  */
@@ -0,0 +1,1305 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TagSynonym` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TagSynonym
+ * 
+ */
+export type TagSynonymModel = runtime.Types.Result.DefaultSelection<Prisma.$TagSynonymPayload>
+
+export type AggregateTagSynonym = {
+  _count: TagSynonymCountAggregateOutputType | null
+  _min: TagSynonymMinAggregateOutputType | null
+  _max: TagSynonymMaxAggregateOutputType | null
+}
+
+export type TagSynonymMinAggregateOutputType = {
+  id: string | null
+  tagId: string | null
+  name: string | null
+  createdAt: Date | null
+}
+
+export type TagSynonymMaxAggregateOutputType = {
+  id: string | null
+  tagId: string | null
+  name: string | null
+  createdAt: Date | null
+}
+
+export type TagSynonymCountAggregateOutputType = {
+  id: number
+  tagId: number
+  name: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TagSynonymMinAggregateInputType = {
+  id?: true
+  tagId?: true
+  name?: true
+  createdAt?: true
+}
+
+export type TagSynonymMaxAggregateInputType = {
+  id?: true
+  tagId?: true
+  name?: true
+  createdAt?: true
+}
+
+export type TagSynonymCountAggregateInputType = {
+  id?: true
+  tagId?: true
+  name?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TagSynonymAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TagSynonym to aggregate.
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TagSynonyms to fetch.
+   */
+  orderBy?: Prisma.TagSynonymOrderByWithRelationInput | Prisma.TagSynonymOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TagSynonymWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TagSynonyms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TagSynonyms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TagSynonyms
+  **/
+  _count?: true | TagSynonymCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TagSynonymMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TagSynonymMaxAggregateInputType
+}
+
+export type GetTagSynonymAggregateType<T extends TagSynonymAggregateArgs> = {
+      [P in keyof T & keyof AggregateTagSynonym]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTagSynonym[P]>
+    : Prisma.GetScalarType<T[P], AggregateTagSynonym[P]>
+}
+
+
+
+
+export type TagSynonymGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TagSynonymWhereInput
+  orderBy?: Prisma.TagSynonymOrderByWithAggregationInput | Prisma.TagSynonymOrderByWithAggregationInput[]
+  by: Prisma.TagSynonymScalarFieldEnum[] | Prisma.TagSynonymScalarFieldEnum
+  having?: Prisma.TagSynonymScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TagSynonymCountAggregateInputType | true
+  _min?: TagSynonymMinAggregateInputType
+  _max?: TagSynonymMaxAggregateInputType
+}
+
+export type TagSynonymGroupByOutputType = {
+  id: string
+  tagId: string
+  name: string
+  createdAt: Date
+  _count: TagSynonymCountAggregateOutputType | null
+  _min: TagSynonymMinAggregateOutputType | null
+  _max: TagSynonymMaxAggregateOutputType | null
+}
+
+type GetTagSynonymGroupByPayload<T extends TagSynonymGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TagSynonymGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TagSynonymGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TagSynonymGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TagSynonymGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TagSynonymWhereInput = {
+  AND?: Prisma.TagSynonymWhereInput | Prisma.TagSynonymWhereInput[]
+  OR?: Prisma.TagSynonymWhereInput[]
+  NOT?: Prisma.TagSynonymWhereInput | Prisma.TagSynonymWhereInput[]
+  id?: Prisma.StringFilter<"TagSynonym"> | string
+  tagId?: Prisma.StringFilter<"TagSynonym"> | string
+  name?: Prisma.StringFilter<"TagSynonym"> | string
+  createdAt?: Prisma.DateTimeFilter<"TagSynonym"> | Date | string
+  tag?: Prisma.XOR<Prisma.TagScalarRelationFilter, Prisma.TagWhereInput>
+}
+
+export type TagSynonymOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tagId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  tag?: Prisma.TagOrderByWithRelationInput
+}
+
+export type TagSynonymWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  name?: string
+  AND?: Prisma.TagSynonymWhereInput | Prisma.TagSynonymWhereInput[]
+  OR?: Prisma.TagSynonymWhereInput[]
+  NOT?: Prisma.TagSynonymWhereInput | Prisma.TagSynonymWhereInput[]
+  tagId?: Prisma.StringFilter<"TagSynonym"> | string
+  createdAt?: Prisma.DateTimeFilter<"TagSynonym"> | Date | string
+  tag?: Prisma.XOR<Prisma.TagScalarRelationFilter, Prisma.TagWhereInput>
+}, "id" | "name">
+
+export type TagSynonymOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tagId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TagSynonymCountOrderByAggregateInput
+  _max?: Prisma.TagSynonymMaxOrderByAggregateInput
+  _min?: Prisma.TagSynonymMinOrderByAggregateInput
+}
+
+export type TagSynonymScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TagSynonymScalarWhereWithAggregatesInput | Prisma.TagSynonymScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TagSynonymScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TagSynonymScalarWhereWithAggregatesInput | Prisma.TagSynonymScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"TagSynonym"> | string
+  tagId?: Prisma.StringWithAggregatesFilter<"TagSynonym"> | string
+  name?: Prisma.StringWithAggregatesFilter<"TagSynonym"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TagSynonym"> | Date | string
+}
+
+export type TagSynonymCreateInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  tag: Prisma.TagCreateNestedOneWithoutSynonymsInput
+}
+
+export type TagSynonymUncheckedCreateInput = {
+  id?: string
+  tagId: string
+  name: string
+  createdAt?: Date | string
+}
+
+export type TagSynonymUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tag?: Prisma.TagUpdateOneRequiredWithoutSynonymsNestedInput
+}
+
+export type TagSynonymUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tagId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TagSynonymCreateManyInput = {
+  id?: string
+  tagId: string
+  name: string
+  createdAt?: Date | string
+}
+
+export type TagSynonymUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TagSynonymUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tagId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TagSynonymListRelationFilter = {
+  every?: Prisma.TagSynonymWhereInput
+  some?: Prisma.TagSynonymWhereInput
+  none?: Prisma.TagSynonymWhereInput
+}
+
+export type TagSynonymOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TagSynonymCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tagId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TagSynonymMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tagId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TagSynonymMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tagId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TagSynonymCreateNestedManyWithoutTagInput = {
+  create?: Prisma.XOR<Prisma.TagSynonymCreateWithoutTagInput, Prisma.TagSynonymUncheckedCreateWithoutTagInput> | Prisma.TagSynonymCreateWithoutTagInput[] | Prisma.TagSynonymUncheckedCreateWithoutTagInput[]
+  connectOrCreate?: Prisma.TagSynonymCreateOrConnectWithoutTagInput | Prisma.TagSynonymCreateOrConnectWithoutTagInput[]
+  createMany?: Prisma.TagSynonymCreateManyTagInputEnvelope
+  connect?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+}
+
+export type TagSynonymUncheckedCreateNestedManyWithoutTagInput = {
+  create?: Prisma.XOR<Prisma.TagSynonymCreateWithoutTagInput, Prisma.TagSynonymUncheckedCreateWithoutTagInput> | Prisma.TagSynonymCreateWithoutTagInput[] | Prisma.TagSynonymUncheckedCreateWithoutTagInput[]
+  connectOrCreate?: Prisma.TagSynonymCreateOrConnectWithoutTagInput | Prisma.TagSynonymCreateOrConnectWithoutTagInput[]
+  createMany?: Prisma.TagSynonymCreateManyTagInputEnvelope
+  connect?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+}
+
+export type TagSynonymUpdateManyWithoutTagNestedInput = {
+  create?: Prisma.XOR<Prisma.TagSynonymCreateWithoutTagInput, Prisma.TagSynonymUncheckedCreateWithoutTagInput> | Prisma.TagSynonymCreateWithoutTagInput[] | Prisma.TagSynonymUncheckedCreateWithoutTagInput[]
+  connectOrCreate?: Prisma.TagSynonymCreateOrConnectWithoutTagInput | Prisma.TagSynonymCreateOrConnectWithoutTagInput[]
+  upsert?: Prisma.TagSynonymUpsertWithWhereUniqueWithoutTagInput | Prisma.TagSynonymUpsertWithWhereUniqueWithoutTagInput[]
+  createMany?: Prisma.TagSynonymCreateManyTagInputEnvelope
+  set?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  disconnect?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  delete?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  connect?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  update?: Prisma.TagSynonymUpdateWithWhereUniqueWithoutTagInput | Prisma.TagSynonymUpdateWithWhereUniqueWithoutTagInput[]
+  updateMany?: Prisma.TagSynonymUpdateManyWithWhereWithoutTagInput | Prisma.TagSynonymUpdateManyWithWhereWithoutTagInput[]
+  deleteMany?: Prisma.TagSynonymScalarWhereInput | Prisma.TagSynonymScalarWhereInput[]
+}
+
+export type TagSynonymUncheckedUpdateManyWithoutTagNestedInput = {
+  create?: Prisma.XOR<Prisma.TagSynonymCreateWithoutTagInput, Prisma.TagSynonymUncheckedCreateWithoutTagInput> | Prisma.TagSynonymCreateWithoutTagInput[] | Prisma.TagSynonymUncheckedCreateWithoutTagInput[]
+  connectOrCreate?: Prisma.TagSynonymCreateOrConnectWithoutTagInput | Prisma.TagSynonymCreateOrConnectWithoutTagInput[]
+  upsert?: Prisma.TagSynonymUpsertWithWhereUniqueWithoutTagInput | Prisma.TagSynonymUpsertWithWhereUniqueWithoutTagInput[]
+  createMany?: Prisma.TagSynonymCreateManyTagInputEnvelope
+  set?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  disconnect?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  delete?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  connect?: Prisma.TagSynonymWhereUniqueInput | Prisma.TagSynonymWhereUniqueInput[]
+  update?: Prisma.TagSynonymUpdateWithWhereUniqueWithoutTagInput | Prisma.TagSynonymUpdateWithWhereUniqueWithoutTagInput[]
+  updateMany?: Prisma.TagSynonymUpdateManyWithWhereWithoutTagInput | Prisma.TagSynonymUpdateManyWithWhereWithoutTagInput[]
+  deleteMany?: Prisma.TagSynonymScalarWhereInput | Prisma.TagSynonymScalarWhereInput[]
+}
+
+export type TagSynonymCreateWithoutTagInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+}
+
+export type TagSynonymUncheckedCreateWithoutTagInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+}
+
+export type TagSynonymCreateOrConnectWithoutTagInput = {
+  where: Prisma.TagSynonymWhereUniqueInput
+  create: Prisma.XOR<Prisma.TagSynonymCreateWithoutTagInput, Prisma.TagSynonymUncheckedCreateWithoutTagInput>
+}
+
+export type TagSynonymCreateManyTagInputEnvelope = {
+  data: Prisma.TagSynonymCreateManyTagInput | Prisma.TagSynonymCreateManyTagInput[]
+  skipDuplicates?: boolean
+}
+
+export type TagSynonymUpsertWithWhereUniqueWithoutTagInput = {
+  where: Prisma.TagSynonymWhereUniqueInput
+  update: Prisma.XOR<Prisma.TagSynonymUpdateWithoutTagInput, Prisma.TagSynonymUncheckedUpdateWithoutTagInput>
+  create: Prisma.XOR<Prisma.TagSynonymCreateWithoutTagInput, Prisma.TagSynonymUncheckedCreateWithoutTagInput>
+}
+
+export type TagSynonymUpdateWithWhereUniqueWithoutTagInput = {
+  where: Prisma.TagSynonymWhereUniqueInput
+  data: Prisma.XOR<Prisma.TagSynonymUpdateWithoutTagInput, Prisma.TagSynonymUncheckedUpdateWithoutTagInput>
+}
+
+export type TagSynonymUpdateManyWithWhereWithoutTagInput = {
+  where: Prisma.TagSynonymScalarWhereInput
+  data: Prisma.XOR<Prisma.TagSynonymUpdateManyMutationInput, Prisma.TagSynonymUncheckedUpdateManyWithoutTagInput>
+}
+
+export type TagSynonymScalarWhereInput = {
+  AND?: Prisma.TagSynonymScalarWhereInput | Prisma.TagSynonymScalarWhereInput[]
+  OR?: Prisma.TagSynonymScalarWhereInput[]
+  NOT?: Prisma.TagSynonymScalarWhereInput | Prisma.TagSynonymScalarWhereInput[]
+  id?: Prisma.StringFilter<"TagSynonym"> | string
+  tagId?: Prisma.StringFilter<"TagSynonym"> | string
+  name?: Prisma.StringFilter<"TagSynonym"> | string
+  createdAt?: Prisma.DateTimeFilter<"TagSynonym"> | Date | string
+}
+
+export type TagSynonymCreateManyTagInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+}
+
+export type TagSynonymUpdateWithoutTagInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TagSynonymUncheckedUpdateWithoutTagInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TagSynonymUncheckedUpdateManyWithoutTagInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TagSynonymSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tagId?: boolean
+  name?: boolean
+  createdAt?: boolean
+  tag?: boolean | Prisma.TagDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["tagSynonym"]>
+
+export type TagSynonymSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tagId?: boolean
+  name?: boolean
+  createdAt?: boolean
+  tag?: boolean | Prisma.TagDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["tagSynonym"]>
+
+export type TagSynonymSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tagId?: boolean
+  name?: boolean
+  createdAt?: boolean
+  tag?: boolean | Prisma.TagDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["tagSynonym"]>
+
+export type TagSynonymSelectScalar = {
+  id?: boolean
+  tagId?: boolean
+  name?: boolean
+  createdAt?: boolean
+}
+
+export type TagSynonymOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tagId" | "name" | "createdAt", ExtArgs["result"]["tagSynonym"]>
+export type TagSynonymInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tag?: boolean | Prisma.TagDefaultArgs<ExtArgs>
+}
+export type TagSynonymIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tag?: boolean | Prisma.TagDefaultArgs<ExtArgs>
+}
+export type TagSynonymIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tag?: boolean | Prisma.TagDefaultArgs<ExtArgs>
+}
+
+export type $TagSynonymPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TagSynonym"
+  objects: {
+    tag: Prisma.$TagPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tagId: string
+    name: string
+    createdAt: Date
+  }, ExtArgs["result"]["tagSynonym"]>
+  composites: {}
+}
+
+export type TagSynonymGetPayload<S extends boolean | null | undefined | TagSynonymDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload, S>
+
+export type TagSynonymCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TagSynonymFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TagSynonymCountAggregateInputType | true
+  }
+
+export interface TagSynonymDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TagSynonym'], meta: { name: 'TagSynonym' } }
+  /**
+   * Find zero or one TagSynonym that matches the filter.
+   * @param {TagSynonymFindUniqueArgs} args - Arguments to find a TagSynonym
+   * @example
+   * // Get one TagSynonym
+   * const tagSynonym = await prisma.tagSynonym.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TagSynonymFindUniqueArgs>(args: Prisma.SelectSubset<T, TagSynonymFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TagSynonym that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TagSynonymFindUniqueOrThrowArgs} args - Arguments to find a TagSynonym
+   * @example
+   * // Get one TagSynonym
+   * const tagSynonym = await prisma.tagSynonym.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TagSynonymFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TagSynonymFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TagSynonym that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymFindFirstArgs} args - Arguments to find a TagSynonym
+   * @example
+   * // Get one TagSynonym
+   * const tagSynonym = await prisma.tagSynonym.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TagSynonymFindFirstArgs>(args?: Prisma.SelectSubset<T, TagSynonymFindFirstArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TagSynonym that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymFindFirstOrThrowArgs} args - Arguments to find a TagSynonym
+   * @example
+   * // Get one TagSynonym
+   * const tagSynonym = await prisma.tagSynonym.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TagSynonymFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TagSynonymFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TagSynonyms that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TagSynonyms
+   * const tagSynonyms = await prisma.tagSynonym.findMany()
+   * 
+   * // Get first 10 TagSynonyms
+   * const tagSynonyms = await prisma.tagSynonym.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const tagSynonymWithIdOnly = await prisma.tagSynonym.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TagSynonymFindManyArgs>(args?: Prisma.SelectSubset<T, TagSynonymFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TagSynonym.
+   * @param {TagSynonymCreateArgs} args - Arguments to create a TagSynonym.
+   * @example
+   * // Create one TagSynonym
+   * const TagSynonym = await prisma.tagSynonym.create({
+   *   data: {
+   *     // ... data to create a TagSynonym
+   *   }
+   * })
+   * 
+   */
+  create<T extends TagSynonymCreateArgs>(args: Prisma.SelectSubset<T, TagSynonymCreateArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TagSynonyms.
+   * @param {TagSynonymCreateManyArgs} args - Arguments to create many TagSynonyms.
+   * @example
+   * // Create many TagSynonyms
+   * const tagSynonym = await prisma.tagSynonym.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TagSynonymCreateManyArgs>(args?: Prisma.SelectSubset<T, TagSynonymCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TagSynonyms and returns the data saved in the database.
+   * @param {TagSynonymCreateManyAndReturnArgs} args - Arguments to create many TagSynonyms.
+   * @example
+   * // Create many TagSynonyms
+   * const tagSynonym = await prisma.tagSynonym.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TagSynonyms and only return the `id`
+   * const tagSynonymWithIdOnly = await prisma.tagSynonym.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TagSynonymCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TagSynonymCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TagSynonym.
+   * @param {TagSynonymDeleteArgs} args - Arguments to delete one TagSynonym.
+   * @example
+   * // Delete one TagSynonym
+   * const TagSynonym = await prisma.tagSynonym.delete({
+   *   where: {
+   *     // ... filter to delete one TagSynonym
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TagSynonymDeleteArgs>(args: Prisma.SelectSubset<T, TagSynonymDeleteArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TagSynonym.
+   * @param {TagSynonymUpdateArgs} args - Arguments to update one TagSynonym.
+   * @example
+   * // Update one TagSynonym
+   * const tagSynonym = await prisma.tagSynonym.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TagSynonymUpdateArgs>(args: Prisma.SelectSubset<T, TagSynonymUpdateArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TagSynonyms.
+   * @param {TagSynonymDeleteManyArgs} args - Arguments to filter TagSynonyms to delete.
+   * @example
+   * // Delete a few TagSynonyms
+   * const { count } = await prisma.tagSynonym.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TagSynonymDeleteManyArgs>(args?: Prisma.SelectSubset<T, TagSynonymDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TagSynonyms.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TagSynonyms
+   * const tagSynonym = await prisma.tagSynonym.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TagSynonymUpdateManyArgs>(args: Prisma.SelectSubset<T, TagSynonymUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TagSynonyms and returns the data updated in the database.
+   * @param {TagSynonymUpdateManyAndReturnArgs} args - Arguments to update many TagSynonyms.
+   * @example
+   * // Update many TagSynonyms
+   * const tagSynonym = await prisma.tagSynonym.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TagSynonyms and only return the `id`
+   * const tagSynonymWithIdOnly = await prisma.tagSynonym.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TagSynonymUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TagSynonymUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TagSynonym.
+   * @param {TagSynonymUpsertArgs} args - Arguments to update or create a TagSynonym.
+   * @example
+   * // Update or create a TagSynonym
+   * const tagSynonym = await prisma.tagSynonym.upsert({
+   *   create: {
+   *     // ... data to create a TagSynonym
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TagSynonym we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TagSynonymUpsertArgs>(args: Prisma.SelectSubset<T, TagSynonymUpsertArgs<ExtArgs>>): Prisma.Prisma__TagSynonymClient<runtime.Types.Result.GetResult<Prisma.$TagSynonymPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TagSynonyms.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymCountArgs} args - Arguments to filter TagSynonyms to count.
+   * @example
+   * // Count the number of TagSynonyms
+   * const count = await prisma.tagSynonym.count({
+   *   where: {
+   *     // ... the filter for the TagSynonyms we want to count
+   *   }
+   * })
+  **/
+  count<T extends TagSynonymCountArgs>(
+    args?: Prisma.Subset<T, TagSynonymCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TagSynonymCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TagSynonym.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TagSynonymAggregateArgs>(args: Prisma.Subset<T, TagSynonymAggregateArgs>): Prisma.PrismaPromise<GetTagSynonymAggregateType<T>>
+
+  /**
+   * Group by TagSynonym.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TagSynonymGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TagSynonymGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TagSynonymGroupByArgs['orderBy'] }
+      : { orderBy?: TagSynonymGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TagSynonymGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTagSynonymGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TagSynonym model
+ */
+readonly fields: TagSynonymFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TagSynonym.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TagSynonymClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tag<T extends Prisma.TagDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TagDefaultArgs<ExtArgs>>): Prisma.Prisma__TagClient<runtime.Types.Result.GetResult<Prisma.$TagPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TagSynonym model
+ */
+export interface TagSynonymFieldRefs {
+  readonly id: Prisma.FieldRef<"TagSynonym", 'String'>
+  readonly tagId: Prisma.FieldRef<"TagSynonym", 'String'>
+  readonly name: Prisma.FieldRef<"TagSynonym", 'String'>
+  readonly createdAt: Prisma.FieldRef<"TagSynonym", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TagSynonym findUnique
+ */
+export type TagSynonymFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * Filter, which TagSynonym to fetch.
+   */
+  where: Prisma.TagSynonymWhereUniqueInput
+}
+
+/**
+ * TagSynonym findUniqueOrThrow
+ */
+export type TagSynonymFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * Filter, which TagSynonym to fetch.
+   */
+  where: Prisma.TagSynonymWhereUniqueInput
+}
+
+/**
+ * TagSynonym findFirst
+ */
+export type TagSynonymFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * Filter, which TagSynonym to fetch.
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TagSynonyms to fetch.
+   */
+  orderBy?: Prisma.TagSynonymOrderByWithRelationInput | Prisma.TagSynonymOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TagSynonyms.
+   */
+  cursor?: Prisma.TagSynonymWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TagSynonyms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TagSynonyms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TagSynonyms.
+   */
+  distinct?: Prisma.TagSynonymScalarFieldEnum | Prisma.TagSynonymScalarFieldEnum[]
+}
+
+/**
+ * TagSynonym findFirstOrThrow
+ */
+export type TagSynonymFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * Filter, which TagSynonym to fetch.
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TagSynonyms to fetch.
+   */
+  orderBy?: Prisma.TagSynonymOrderByWithRelationInput | Prisma.TagSynonymOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TagSynonyms.
+   */
+  cursor?: Prisma.TagSynonymWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TagSynonyms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TagSynonyms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TagSynonyms.
+   */
+  distinct?: Prisma.TagSynonymScalarFieldEnum | Prisma.TagSynonymScalarFieldEnum[]
+}
+
+/**
+ * TagSynonym findMany
+ */
+export type TagSynonymFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * Filter, which TagSynonyms to fetch.
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TagSynonyms to fetch.
+   */
+  orderBy?: Prisma.TagSynonymOrderByWithRelationInput | Prisma.TagSynonymOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TagSynonyms.
+   */
+  cursor?: Prisma.TagSynonymWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TagSynonyms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TagSynonyms.
+   */
+  skip?: number
+  distinct?: Prisma.TagSynonymScalarFieldEnum | Prisma.TagSynonymScalarFieldEnum[]
+}
+
+/**
+ * TagSynonym create
+ */
+export type TagSynonymCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TagSynonym.
+   */
+  data: Prisma.XOR<Prisma.TagSynonymCreateInput, Prisma.TagSynonymUncheckedCreateInput>
+}
+
+/**
+ * TagSynonym createMany
+ */
+export type TagSynonymCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TagSynonyms.
+   */
+  data: Prisma.TagSynonymCreateManyInput | Prisma.TagSynonymCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TagSynonym createManyAndReturn
+ */
+export type TagSynonymCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * The data used to create many TagSynonyms.
+   */
+  data: Prisma.TagSynonymCreateManyInput | Prisma.TagSynonymCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TagSynonym update
+ */
+export type TagSynonymUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TagSynonym.
+   */
+  data: Prisma.XOR<Prisma.TagSynonymUpdateInput, Prisma.TagSynonymUncheckedUpdateInput>
+  /**
+   * Choose, which TagSynonym to update.
+   */
+  where: Prisma.TagSynonymWhereUniqueInput
+}
+
+/**
+ * TagSynonym updateMany
+ */
+export type TagSynonymUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TagSynonyms.
+   */
+  data: Prisma.XOR<Prisma.TagSynonymUpdateManyMutationInput, Prisma.TagSynonymUncheckedUpdateManyInput>
+  /**
+   * Filter which TagSynonyms to update
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * Limit how many TagSynonyms to update.
+   */
+  limit?: number
+}
+
+/**
+ * TagSynonym updateManyAndReturn
+ */
+export type TagSynonymUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * The data used to update TagSynonyms.
+   */
+  data: Prisma.XOR<Prisma.TagSynonymUpdateManyMutationInput, Prisma.TagSynonymUncheckedUpdateManyInput>
+  /**
+   * Filter which TagSynonyms to update
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * Limit how many TagSynonyms to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TagSynonym upsert
+ */
+export type TagSynonymUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TagSynonym to update in case it exists.
+   */
+  where: Prisma.TagSynonymWhereUniqueInput
+  /**
+   * In case the TagSynonym found by the `where` argument doesn't exist, create a new TagSynonym with this data.
+   */
+  create: Prisma.XOR<Prisma.TagSynonymCreateInput, Prisma.TagSynonymUncheckedCreateInput>
+  /**
+   * In case the TagSynonym was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TagSynonymUpdateInput, Prisma.TagSynonymUncheckedUpdateInput>
+}
+
+/**
+ * TagSynonym delete
+ */
+export type TagSynonymDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+  /**
+   * Filter which TagSynonym to delete.
+   */
+  where: Prisma.TagSynonymWhereUniqueInput
+}
+
+/**
+ * TagSynonym deleteMany
+ */
+export type TagSynonymDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TagSynonyms to delete
+   */
+  where?: Prisma.TagSynonymWhereInput
+  /**
+   * Limit how many TagSynonyms to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TagSynonym without action
+ */
+export type TagSynonymDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TagSynonym
+   */
+  select?: Prisma.TagSynonymSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TagSynonym
+   */
+  omit?: Prisma.TagSynonymOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TagSynonymInclude<ExtArgs> | null
+}
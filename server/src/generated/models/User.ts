@@ -243,6 +243,8 @@ export type UserWhereInput = {
   items?: Prisma.ItemListRelationFilter
   discussionPosts?: Prisma.DiscussionPostListRelationFilter
   likes?: Prisma.ItemLikeListRelationFilter
+  itemRevisions?: Prisma.ItemRevisionListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -263,6 +265,8 @@ export type UserOrderByWithRelationInput = {
   items?: Prisma.ItemOrderByRelationAggregateInput
   discussionPosts?: Prisma.DiscussionPostOrderByRelationAggregateInput
   likes?: Prisma.ItemLikeOrderByRelationAggregateInput
+  itemRevisions?: Prisma.ItemRevisionOrderByRelationAggregateInput
+  savedSearches?: Prisma.SavedSearchOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -286,6 +290,8 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   items?: Prisma.ItemListRelationFilter
   discussionPosts?: Prisma.DiscussionPostListRelationFilter
   likes?: Prisma.ItemLikeListRelationFilter
+  itemRevisions?: Prisma.ItemRevisionListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
 }, "id" | "email" | "googleId" | "facebookId" | "githubId">
 
 export type UserOrderByWithAggregationInput = {
@@ -342,6 +348,8 @@ export type UserCreateInput = {
   items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -362,6 +370,8 @@ export type UserUncheckedCreateInput = {
   items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserUpdateInput = {
@@ -382,6 +392,8 @@ export type UserUpdateInput = {
   items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -402,6 +414,8 @@ export type UserUncheckedUpdateInput = {
   items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -499,6 +513,11 @@ export type UserScalarRelationFilter = {
   isNot?: Prisma.UserWhereInput
 }
 
+export type UserNullableScalarRelationFilter = {
+  is?: Prisma.UserWhereInput | null
+  isNot?: Prisma.UserWhereInput | null
+}
+
 export type StringFieldUpdateOperationsInput = {
   set?: string
 }
@@ -561,6 +580,22 @@ export type UserUpdateOneRequiredWithoutItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutItemsInput, Prisma.UserUpdateWithoutItemsInput>, Prisma.UserUncheckedUpdateWithoutItemsInput>
 }
 
+export type UserCreateNestedOneWithoutItemRevisionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutItemRevisionsInput, Prisma.UserUncheckedCreateWithoutItemRevisionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutItemRevisionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutItemRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutItemRevisionsInput, Prisma.UserUncheckedCreateWithoutItemRevisionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutItemRevisionsInput
+  upsert?: Prisma.UserUpsertWithoutItemRevisionsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutItemRevisionsInput, Prisma.UserUpdateWithoutItemRevisionsInput>, Prisma.UserUncheckedUpdateWithoutItemRevisionsInput>
+}
+
 export type UserCreateNestedOneWithoutLikesInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutLikesInput, Prisma.UserUncheckedCreateWithoutLikesInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutLikesInput
@@ -589,6 +624,20 @@ export type UserUpdateOneRequiredWithoutDiscussionPostsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutDiscussionPostsInput, Prisma.UserUpdateWithoutDiscussionPostsInput>, Prisma.UserUncheckedUpdateWithoutDiscussionPostsInput>
 }
 
+export type UserCreateNestedOneWithoutSavedSearchesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedSearchesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSavedSearchesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedSearchesInput
+  upsert?: Prisma.UserUpsertWithoutSavedSearchesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSavedSearchesInput, Prisma.UserUpdateWithoutSavedSearchesInput>, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+}
+
 export type UserCreateWithoutOwnedInventoriesInput = {
   id?: string
   email: string
@@ -606,6 +655,8 @@ export type UserCreateWithoutOwnedInventoriesInput = {
   items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutOwnedInventoriesInput = {
@@ -625,6 +676,8 @@ export type UserUncheckedCreateWithoutOwnedInventoriesInput = {
   items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutOwnedInventoriesInput = {
@@ -660,6 +713,8 @@ export type UserUpdateWithoutOwnedInventoriesInput = {
   items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutOwnedInventoriesInput = {
@@ -679,6 +734,8 @@ export type UserUncheckedUpdateWithoutOwnedInventoriesInput = {
   items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutWriteAccessInput = {
@@ -698,6 +755,8 @@ export type UserCreateWithoutWriteAccessInput = {
   items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutWriteAccessInput = {
@@ -717,6 +776,8 @@ export type UserUncheckedCreateWithoutWriteAccessInput = {
   items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutWriteAccessInput = {
@@ -752,6 +813,8 @@ export type UserUpdateWithoutWriteAccessInput = {
   items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutWriteAccessInput = {
@@ -771,6 +834,8 @@ export type UserUncheckedUpdateWithoutWriteAccessInput = {
   items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutItemsInput = {
@@ -790,6 +855,8 @@ export type UserCreateWithoutItemsInput = {
   writeAccess?: Prisma.InventoryWriteAccessCreateNestedManyWithoutUserInput
   discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutItemsInput = {
@@ -809,6 +876,8 @@ export type UserUncheckedCreateWithoutItemsInput = {
   writeAccess?: Prisma.InventoryWriteAccessUncheckedCreateNestedManyWithoutUserInput
   discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutItemsInput = {
@@ -844,6 +913,8 @@ export type UserUpdateWithoutItemsInput = {
   writeAccess?: Prisma.InventoryWriteAccessUpdateManyWithoutUserNestedInput
   discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutItemsInput = {
@@ -863,6 +934,108 @@ export type UserUncheckedUpdateWithoutItemsInput = {
   writeAccess?: Prisma.InventoryWriteAccessUncheckedUpdateManyWithoutUserNestedInput
   discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutItemRevisionsInput = {
+  id?: string
+  email: string
+  name?: string | null
+  avatarUrl?: string | null
+  passwordHash?: string | null
+  googleId?: string | null
+  facebookId?: string | null
+  githubId?: string | null
+  isBlocked?: boolean
+  role?: $Enums.UserRole
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ownedInventories?: Prisma.InventoryCreateNestedManyWithoutOwnerInput
+  writeAccess?: Prisma.InventoryWriteAccessCreateNestedManyWithoutUserInput
+  items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
+  discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
+  likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutItemRevisionsInput = {
+  id?: string
+  email: string
+  name?: string | null
+  avatarUrl?: string | null
+  passwordHash?: string | null
+  googleId?: string | null
+  facebookId?: string | null
+  githubId?: string | null
+  isBlocked?: boolean
+  role?: $Enums.UserRole
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ownedInventories?: Prisma.InventoryUncheckedCreateNestedManyWithoutOwnerInput
+  writeAccess?: Prisma.InventoryWriteAccessUncheckedCreateNestedManyWithoutUserInput
+  items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
+  discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
+  likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutItemRevisionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutItemRevisionsInput, Prisma.UserUncheckedCreateWithoutItemRevisionsInput>
+}
+
+export type UserUpsertWithoutItemRevisionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutItemRevisionsInput, Prisma.UserUncheckedUpdateWithoutItemRevisionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutItemRevisionsInput, Prisma.UserUncheckedCreateWithoutItemRevisionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutItemRevisionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutItemRevisionsInput, Prisma.UserUncheckedUpdateWithoutItemRevisionsInput>
+}
+
+export type UserUpdateWithoutItemRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  googleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  facebookId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  githubId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isBlocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ownedInventories?: Prisma.InventoryUpdateManyWithoutOwnerNestedInput
+  writeAccess?: Prisma.InventoryWriteAccessUpdateManyWithoutUserNestedInput
+  items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
+  discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
+  likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutItemRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  googleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  facebookId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  githubId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isBlocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ownedInventories?: Prisma.InventoryUncheckedUpdateManyWithoutOwnerNestedInput
+  writeAccess?: Prisma.InventoryWriteAccessUncheckedUpdateManyWithoutUserNestedInput
+  items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
+  discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
+  likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutLikesInput = {
@@ -882,6 +1055,8 @@ export type UserCreateWithoutLikesInput = {
   writeAccess?: Prisma.InventoryWriteAccessCreateNestedManyWithoutUserInput
   items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutLikesInput = {
@@ -901,6 +1076,8 @@ export type UserUncheckedCreateWithoutLikesInput = {
   writeAccess?: Prisma.InventoryWriteAccessUncheckedCreateNestedManyWithoutUserInput
   items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
   discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutLikesInput = {
@@ -936,6 +1113,8 @@ export type UserUpdateWithoutLikesInput = {
   writeAccess?: Prisma.InventoryWriteAccessUpdateManyWithoutUserNestedInput
   items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutLikesInput = {
@@ -955,6 +1134,8 @@ export type UserUncheckedUpdateWithoutLikesInput = {
   writeAccess?: Prisma.InventoryWriteAccessUncheckedUpdateManyWithoutUserNestedInput
   items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
   discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutDiscussionPostsInput = {
@@ -974,6 +1155,8 @@ export type UserCreateWithoutDiscussionPostsInput = {
   writeAccess?: Prisma.InventoryWriteAccessCreateNestedManyWithoutUserInput
   items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
   likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutDiscussionPostsInput = {
@@ -993,6 +1176,8 @@ export type UserUncheckedCreateWithoutDiscussionPostsInput = {
   writeAccess?: Prisma.InventoryWriteAccessUncheckedCreateNestedManyWithoutUserInput
   items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
   likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutDiscussionPostsInput = {
@@ -1028,6 +1213,8 @@ export type UserUpdateWithoutDiscussionPostsInput = {
   writeAccess?: Prisma.InventoryWriteAccessUpdateManyWithoutUserNestedInput
   items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
   likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutDiscussionPostsInput = {
@@ -1047,6 +1234,108 @@ export type UserUncheckedUpdateWithoutDiscussionPostsInput = {
   writeAccess?: Prisma.InventoryWriteAccessUncheckedUpdateManyWithoutUserNestedInput
   items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
   likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutSavedSearchesInput = {
+  id?: string
+  email: string
+  name?: string | null
+  avatarUrl?: string | null
+  passwordHash?: string | null
+  googleId?: string | null
+  facebookId?: string | null
+  githubId?: string | null
+  isBlocked?: boolean
+  role?: $Enums.UserRole
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ownedInventories?: Prisma.InventoryCreateNestedManyWithoutOwnerInput
+  writeAccess?: Prisma.InventoryWriteAccessCreateNestedManyWithoutUserInput
+  items?: Prisma.ItemCreateNestedManyWithoutCreatedByInput
+  discussionPosts?: Prisma.DiscussionPostCreateNestedManyWithoutAuthorInput
+  likes?: Prisma.ItemLikeCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionCreateNestedManyWithoutAuthorInput
+}
+
+export type UserUncheckedCreateWithoutSavedSearchesInput = {
+  id?: string
+  email: string
+  name?: string | null
+  avatarUrl?: string | null
+  passwordHash?: string | null
+  googleId?: string | null
+  facebookId?: string | null
+  githubId?: string | null
+  isBlocked?: boolean
+  role?: $Enums.UserRole
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ownedInventories?: Prisma.InventoryUncheckedCreateNestedManyWithoutOwnerInput
+  writeAccess?: Prisma.InventoryWriteAccessUncheckedCreateNestedManyWithoutUserInput
+  items?: Prisma.ItemUncheckedCreateNestedManyWithoutCreatedByInput
+  discussionPosts?: Prisma.DiscussionPostUncheckedCreateNestedManyWithoutAuthorInput
+  likes?: Prisma.ItemLikeUncheckedCreateNestedManyWithoutUserInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedCreateNestedManyWithoutAuthorInput
+}
+
+export type UserCreateOrConnectWithoutSavedSearchesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+}
+
+export type UserUpsertWithoutSavedSearchesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSavedSearchesInput, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSavedSearchesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSavedSearchesInput, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type UserUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  googleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  facebookId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  githubId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isBlocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ownedInventories?: Prisma.InventoryUpdateManyWithoutOwnerNestedInput
+  writeAccess?: Prisma.InventoryWriteAccessUpdateManyWithoutUserNestedInput
+  items?: Prisma.ItemUpdateManyWithoutCreatedByNestedInput
+  discussionPosts?: Prisma.DiscussionPostUpdateManyWithoutAuthorNestedInput
+  likes?: Prisma.ItemLikeUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUpdateManyWithoutAuthorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  googleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  facebookId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  githubId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isBlocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ownedInventories?: Prisma.InventoryUncheckedUpdateManyWithoutOwnerNestedInput
+  writeAccess?: Prisma.InventoryWriteAccessUncheckedUpdateManyWithoutUserNestedInput
+  items?: Prisma.ItemUncheckedUpdateManyWithoutCreatedByNestedInput
+  discussionPosts?: Prisma.DiscussionPostUncheckedUpdateManyWithoutAuthorNestedInput
+  likes?: Prisma.ItemLikeUncheckedUpdateManyWithoutUserNestedInput
+  itemRevisions?: Prisma.ItemRevisionUncheckedUpdateManyWithoutAuthorNestedInput
 }
 
 
@@ -1060,6 +1349,8 @@ export type UserCountOutputType = {
   items: number
   discussionPosts: number
   likes: number
+  itemRevisions: number
+  savedSearches: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1068,6 +1359,8 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   items?: boolean | UserCountOutputTypeCountItemsArgs
   discussionPosts?: boolean | UserCountOutputTypeCountDiscussionPostsArgs
   likes?: boolean | UserCountOutputTypeCountLikesArgs
+  itemRevisions?: boolean | UserCountOutputTypeCountItemRevisionsArgs
+  savedSearches?: boolean | UserCountOutputTypeCountSavedSearchesArgs
 }
 
 /**
@@ -1115,6 +1408,20 @@ export type UserCountOutputTypeCountLikesArgs<ExtArgs extends runtime.Types.Exte
   where?: Prisma.ItemLikeWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountItemRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ItemRevisionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSavedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1134,6 +1441,8 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   items?: boolean | Prisma.User$itemsArgs<ExtArgs>
   discussionPosts?: boolean | Prisma.User$discussionPostsArgs<ExtArgs>
   likes?: boolean | Prisma.User$likesArgs<ExtArgs>
+  itemRevisions?: boolean | Prisma.User$itemRevisionsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.User$savedSearchesArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -1189,6 +1498,8 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   items?: boolean | Prisma.User$itemsArgs<ExtArgs>
   discussionPosts?: boolean | Prisma.User$discussionPostsArgs<ExtArgs>
   likes?: boolean | Prisma.User$likesArgs<ExtArgs>
+  itemRevisions?: boolean | Prisma.User$itemRevisionsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.User$savedSearchesArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1202,6 +1513,8 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     items: Prisma.$ItemPayload<ExtArgs>[]
     discussionPosts: Prisma.$DiscussionPostPayload<ExtArgs>[]
     likes: Prisma.$ItemLikePayload<ExtArgs>[]
+    itemRevisions: Prisma.$ItemRevisionPayload<ExtArgs>[]
+    savedSearches: Prisma.$SavedSearchPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1615,6 +1928,8 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   items<T extends Prisma.User$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   discussionPosts<T extends Prisma.User$discussionPostsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$discussionPostsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DiscussionPostPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   likes<T extends Prisma.User$likesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$likesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemLikePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  itemRevisions<T extends Prisma.User$itemRevisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$itemRevisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItemRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  savedSearches<T extends Prisma.User$savedSearchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$savedSearchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2163,6 +2478,54 @@ export type User$likesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs
   distinct?: Prisma.ItemLikeScalarFieldEnum | Prisma.ItemLikeScalarFieldEnum[]
 }
 
+/**
+ * User.itemRevisions
+ */
+export type User$itemRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItemRevision
+   */
+  select?: Prisma.ItemRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ItemRevision
+   */
+  omit?: Prisma.ItemRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ItemRevisionInclude<ExtArgs> | null
+  where?: Prisma.ItemRevisionWhereInput
+  orderBy?: Prisma.ItemRevisionOrderByWithRelationInput | Prisma.ItemRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.ItemRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ItemRevisionScalarFieldEnum | Prisma.ItemRevisionScalarFieldEnum[]
+}
+
+/**
+ * User.savedSearches
+ */
+export type User$savedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  where?: Prisma.SavedSearchWhereInput
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
@@ -6,7 +6,106 @@ import crypto from "crypto";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import swaggerUi from "swagger-ui-express";
+import multer from "multer";
+import contentDisposition from "content-disposition";
 import { prisma } from "./prisma";
+import { ItemAttachment, ItemFieldValue, Prisma, SavedSearch } from "./generated/client";
+import { createFileStorage } from "./storage";
+import {
+  FieldValueColumns,
+  INVENTORY_FIELD_TYPES,
+  InventoryFieldType,
+  convertFieldValue,
+  formatFieldValue,
+  formatDateValue,
+  hasFieldValue,
+  isDateFieldType,
+  isSelectFieldType,
+  matchOptionLabel,
+  matchOptionLabels,
+  parseDateValue,
+} from "./fieldValues";
+import {
+  FieldValidationError,
+  FieldValidationRules,
+  isSameValidationRules,
+  pickValidationRules,
+  sanitizeValidationRules,
+  validateFieldValue,
+} from "./fieldValidation";
+import {
+  FieldLimits,
+  resolveFieldLimits,
+  sanitizeFieldLimitOverrides,
+} from "./fieldLimits";
+import {
+  RevisionFieldChange,
+  RevisionFieldDefinition,
+  RevisionValue,
+  diffItemValues,
+  formatRevisionValue,
+  fromRevisionValue,
+  mergeItemValues,
+  rebuildBaseValues,
+  toRevisionValue,
+} from "./itemRevisions";
+import { buildItemListSql, encodeItemCursor, parseItemListQuery } from "./itemListing";
+import { buildCustomIdLookupSql, CustomIdLookupRow, normalizeCustomId } from "./customIdLookup";
+import {
+  buildSearchSql,
+  buildNewHitsSql,
+  FacetCountRow,
+  hasSearchFilters,
+  INVENTORY_CATEGORIES,
+  ITEM_COUNT_BUCKETS,
+  parseSearchParams,
+  NewHitRow,
+  NewHitsCursor,
+  SEARCH_FACETS,
+  SearchFacet,
+  SearchHitRow,
+  SearchParams,
+  splitSnippet,
+} from "./fullTextSearch";
+import {
+  collectFieldTitles,
+  compileSearch,
+  parseSearchSyntax,
+  SEARCHABLE_FIELD_TYPES,
+} from "./searchQuery";
+import {
+  ALERT_CHECK_OVERLAP_MS,
+  MAX_ALERTS_PER_RUN,
+  MAX_LISTED_ALERTS,
+  MAX_SAVED_SEARCHES_PER_USER,
+  parseSavedSearchInput,
+  parseSavedSearchUpdate,
+  readSavedFilters,
+  toSearchInput,
+} from "./savedSearches";
+import { canEncodeCode128, encodeQrCode, renderCode128Svg, renderQrSvg } from "./barcodes";
+import { LabelItem, MAX_LABEL_ITEMS, parseLabelLayout, renderLabelSheet } from "./itemLabels";
+import {
+  CATEGORY_CODES,
+  CustomIdContext,
+  CustomIdElementType,
+  digestCustomIdChanges,
+  hasDateTokens,
+  isValidTimeZone,
+  MAX_CUSTOM_ID_LENGTH,
+  planCustomIdChanges,
+  renderCustomId,
+  seededCustomIdRandom,
+  validateCustomId,
+} from "./customIdFormat";
+import {
+  MAX_TAG_NAME_LENGTH,
+  normalizeTagName,
+  normalizeTagNames,
+  sanitizeTagNameRules,
+  TAG_NAME_RULES_SETTING_KEY,
+  TagNameRules,
+} from "./tagNames";
 import openApiSpec from "./openapi.json";
 
 dotenv.config();
@@ -29,30 +128,72 @@ const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
 const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
 const GITHUB_REDIRECT_URI =
   process.env.GITHUB_REDIRECT_URI || "http://localhost:4000/api/auth/github/callback";
+const ATTACHMENT_MAX_SIZE_MB = Number(process.env.ATTACHMENT_MAX_SIZE_MB) || 10;
+const ATTACHMENT_ALLOWED_TYPES = (
+  process.env.ATTACHMENT_ALLOWED_TYPES ||
+  [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "application/pdf",
+    "text/plain",
+    "text/csv",
+    "application/zip",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ].join(",")
+)
+  .split(",")
+  .map((type) => type.trim().toLowerCase())
+  .filter(Boolean);
+const TRASH_RETENTION_DAYS = readTrashRetentionDays(process.env.TRASH_RETENTION_DAYS);
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const SAVED_SEARCH_ALERT_INTERVAL_MS = 15 * 60 * 1000;
+
+const fileStorage = createFileStorage();
+
+// Unset keeps the 30-day default; 0 purges trashed items on the next run.
+function readTrashRetentionDays(input: string | undefined): number {
+  if (input === undefined || input.trim() === "") return 30;
+  const days = Number(input);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`TRASH_RETENTION_DAYS must be a number of days >= 0: ${input}`);
+  }
+  return days;
+}
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_SIZE_MB * 1024 * 1024, files: 1 },
+  defParamCharset: "utf8",
+});
 
 interface AuthTokenPayload {
   userId: string;
   role: "USER" | "ADMIN";
 }
 
-type CustomIdElementType =
-  | "FIXED_TEXT"
-  | "RANDOM_20_BITS"
-  | "RANDOM_32_BITS"
-  | "RANDOM_6_DIGITS"
-  | "RANDOM_9_DIGITS"
-  | "GUID"
-  | "DATETIME"
-  | "SEQUENCE";
-
 interface CustomIdElementPayload {
   type: CustomIdElementType;
   orderIndex?: number;
   fixedText?: string | null;
   numberWidth?: number | null;
+  fieldId?: string | null;
+  upperCase?: boolean;
+  checkDigit?: "LUHN" | "MOD_11" | null;
+  dateFormat?: string | null;
+  timeZone?: string | null;
 }
 
-type InventoryFieldType = "SINGLE_LINE_TEXT" | "MULTI_LINE_TEXT" | "NUMBER" | "LINK" | "BOOLEAN";
+interface InventoryFieldOptionPayload {
+  id?: string;
+  label: string;
+  color?: string | null;
+  orderIndex?: number;
+}
 
 interface InventoryFieldPayload {
   id?: string;
@@ -61,6 +202,90 @@ interface InventoryFieldPayload {
   description?: string | null;
   showInTable?: boolean;
   orderIndex?: number;
+  options?: InventoryFieldOptionPayload[];
+  rules?: Partial<FieldValidationRules>;
+}
+
+interface SanitizedFieldOption {
+  id: string | null;
+  label: string;
+  color: string | null;
+  orderIndex: number;
+}
+
+interface SanitizedFieldPayload {
+  id: string | null;
+  type: InventoryFieldType;
+  title: string;
+  description: string | null;
+  showInTable: boolean;
+  orderIndex: number;
+  options: SanitizedFieldOption[];
+  rules: FieldValidationRules;
+}
+
+interface FieldOptionRename {
+  from: string;
+  to: string;
+}
+
+interface FieldOptionDiff {
+  renamed: FieldOptionRename[];
+  removed: string[];
+}
+
+interface FieldSchemaChange {
+  id: string;
+  title: string;
+  type: InventoryFieldType;
+  changedAttributes?: string[];
+  convertedValues?: number;
+  droppedValues?: number;
+  renamedOptions?: FieldOptionRename[];
+  removedOptions?: string[];
+}
+
+interface FieldSchemaChanges {
+  added: FieldSchemaChange[];
+  changed: FieldSchemaChange[];
+  removed: FieldSchemaChange[];
+}
+
+interface FieldConversionLoss {
+  itemId: string;
+  customId: string;
+  value: string;
+}
+
+interface FieldConversionPreview {
+  fieldId: string;
+  title: string;
+  fromType: InventoryFieldType;
+  toType: InventoryFieldType;
+  totalValues: number;
+  convertedValues: number;
+  lostValues: FieldConversionLoss[];
+}
+
+interface FieldRemovalPreview {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  valuesCount: number;
+}
+
+interface FieldOptionRemovalPreview {
+  fieldId: string;
+  title: string;
+  label: string;
+  valuesCount: number;
+}
+
+interface FieldMigrationPreview {
+  conversions: FieldConversionPreview[];
+  removals: FieldRemovalPreview[];
+  optionRemovals: FieldOptionRemovalPreview[];
+  hasDataLoss: boolean;
 }
 
 interface NumericFieldStats {
@@ -83,6 +308,29 @@ interface TextFieldStats {
   topValues: TextFieldValueStats[];
 }
 
+interface DateFieldStats {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  count: number;
+  min: string;
+  max: string;
+  rangeDays: number;
+}
+
+interface OptionCountStats {
+  label: string;
+  color: string | null;
+  count: number;
+}
+
+interface OptionFieldStats {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  options: OptionCountStats[];
+}
+
 interface LikePayload {
   itemIds?: string[];
   userEmail?: string;
@@ -94,215 +342,1138 @@ type ItemFieldValuePayload = {
   valueNumber?: number | null;
   valueBoolean?: boolean | null;
   valueLink?: string | null;
+  valueDate?: string | Date | null;
+  valueOptions?: string[];
 };
 
+interface ItemIdsPayload {
+  itemIds?: string[];
+}
+
+interface ItemCreatePayload {
+  customId?: string;
+  fields?: ItemFieldValuePayload[];
+}
+
 interface ItemUpdatePayload {
   customId?: string;
+  // The version the editor started from; older versions are merged with the newer saves.
   version: number;
   fields?: ItemFieldValuePayload[];
 }
 
-async function generateCustomIdForInventory(inventoryId: string): Promise<string> {
-  const elements = await prisma.inventoryCustomIdElement.findMany({
-    where: { inventoryId },
-    orderBy: { orderIndex: "asc" },
+// Generated custom IDs are retried this many times when the value is already taken.
+const CUSTOM_ID_ATTEMPTS = 5;
+
+const MAX_SEQUENCE_VALUE = 2_147_483_647;
+
+const MAX_DATE_FORMAT_LENGTH = 32;
+
+// A re-ID writes every item on its own, so large inventories need more than the default 5s.
+const REID_TRANSACTION_TIMEOUT_MS = 60_000;
+// Changing a field type or its options rewrites the values of every item in the inventory.
+const FIELD_SAVE_TRANSACTION_TIMEOUT_MS = 60_000;
+const FIELD_VALUE_REWRITE_BATCH = 1000;
+
+// Takes the next SEQUENCE value. The row stays locked until the transaction ends, so concurrent
+// creates get consecutive numbers and a rolled back create gives its number back. Raw SQL keeps
+// the inventory's `updatedAt` as it is.
+async function takeNextSequence(db: typeof prisma, inventoryId: string): Promise<number> {
+  const [row] = await db.$queryRaw<{ value: number }[]>`
+    UPDATE "Inventory" SET "nextSequence" = "nextSequence" + 1
+    WHERE "id" = ${inventoryId}
+    RETURNING "nextSequence" - 1 AS "value"`;
+  return row.value;
+}
+
+// Reads the SEQUENCE counter and keeps the inventory row locked until the transaction ends.
+async function lockSequenceCounter(db: typeof prisma, inventoryId: string): Promise<number> {
+  const [row] = await db.$queryRaw<{ value: number }[]>`
+    SELECT "nextSequence" AS "value" FROM "Inventory"
+    WHERE "id" = ${inventoryId}
+    FOR UPDATE`;
+  return row.value;
+}
+
+// The item an ID is generated for: its creator and the values it is saved with.
+interface CustomIdItemSource {
+  createdBy: { name: string | null; email: string } | null;
+  fieldValues: Array<FieldValueColumns & { fieldId: string }>;
+}
+
+// Everything besides the sequence number that the elements of an ID format can draw on.
+function toCustomIdContext(
+  inventory: { category: string; fields: { id: string; type: InventoryFieldType }[] },
+  item: CustomIdItemSource | null,
+  now: Date,
+): Omit<CustomIdContext, "sequence"> {
+  const values = toFieldValueMap(item?.fieldValues ?? []);
+  const fieldValues = new Map<string, string>();
+  for (const field of inventory.fields) {
+    const value = values.get(field.id);
+    if (value && hasFieldValue(value)) {
+      fieldValues.set(field.id, formatFieldValue(value, field.type));
+    }
+  }
+  return { now, category: inventory.category, creator: item?.createdBy ?? null, fieldValues };
+}
+
+/**
+ * Builds a custom ID from the inventory's format. Outside of a preview the SEQUENCE element takes
+ * a number from the inventory counter, so call it inside the transaction that creates the item.
+ * A preview has no item of its own and borrows the creator and values of the newest item.
+ */
+async function generateCustomIdForInventory(
+  inventoryId: string,
+  db: typeof prisma = prisma,
+  { preview = false, item = null }: { preview?: boolean; item?: CustomIdItemSource | null } = {},
+): Promise<string> {
+  const inventory = await db.inventory.findUniqueOrThrow({
+    where: { id: inventoryId },
+    select: {
+      category: true,
+      nextSequence: true,
+      fields: { select: { id: true, type: true } },
+      customIdElements: { orderBy: { orderIndex: "asc" } },
+    },
   });
+  const elements = inventory.customIdElements;
 
   if (elements.length === 0) {
     const randomPart = Math.random().toString(36).slice(2, 8).toUpperCase();
     return `INV-${randomPart}`;
   }
 
-  const itemsCount = await prisma.item.count({ where: { inventoryId } });
-  const nextSequence = itemsCount + 1;
+  let nextSequence = 1;
+  if (elements.some((element) => element.type === "SEQUENCE")) {
+    nextSequence = preview ? inventory.nextSequence : await takeNextSequence(db, inventoryId);
+  }
 
-  const now = new Date();
+  const source = preview
+    ? await db.item.findFirst({
+        where: { inventoryId, deletedAt: null },
+        orderBy: { createdAt: "desc" },
+        select: { createdBy: { select: { name: true, email: true } }, fieldValues: true },
+      })
+    : item;
 
-  const parts = elements.map((element) => {
-    switch (element.type as CustomIdElementType) {
-      case "FIXED_TEXT":
-        return element.fixedText ?? "";
-      case "RANDOM_20_BITS": {
-        const value = crypto.randomInt(0, 2 ** 20);
-        return value.toString(16).toUpperCase();
-      }
-      case "RANDOM_32_BITS": {
-        const value = crypto.randomInt(0, 2 ** 31);
-        return value.toString(16).toUpperCase();
-      }
-      case "RANDOM_6_DIGITS": {
-        const value = crypto.randomInt(0, 10 ** 6);
-        const width = element.numberWidth ?? 6;
-        return value.toString().padStart(width, "0");
-      }
-      case "RANDOM_9_DIGITS": {
-        const value = crypto.randomInt(0, 10 ** 9);
-        const width = element.numberWidth ?? 9;
-        return value.toString().padStart(width, "0");
-      }
-      case "GUID":
-        return crypto.randomUUID();
-      case "DATETIME":
-        return now.toISOString().replace(/[-:]/g, "").split(".")[0];
-      case "SEQUENCE": {
-        const width = element.numberWidth ?? 6;
-        return nextSequence.toString().padStart(width, "0");
-      }
-      default:
-        return "";
-    }
+  return renderCustomId(elements, {
+    ...toCustomIdContext(inventory, source, new Date()),
+    sequence: nextSequence,
   });
-
-  return parts.join("");
 }
 
-function generateToken(userId: string, role: "USER" | "ADMIN"): string {
-  const payload: AuthTokenPayload = { userId, role };
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+// Checks a manually entered custom ID against the inventory's ID format.
+async function checkCustomIdFormat(inventoryId: string, customId: string): Promise<string | null> {
+  const inventory = await prisma.inventory.findUnique({
+    where: { id: inventoryId },
+    select: {
+      category: true,
+      allowFreeFormCustomIds: true,
+      customIdElements: { orderBy: { orderIndex: "asc" } },
+    },
+  });
+  if (!inventory) return null;
+  return validateCustomId(
+    customId,
+    inventory.customIdElements,
+    inventory.allowFreeFormCustomIds,
+    inventory.category,
+  );
 }
 
-function getTokenFromRequest(req: Request): string | null {
-  const authHeader = req.headers.authorization;
-  if (!authHeader) return null;
-  const [scheme, token] = authHeader.split(" ");
-  if (scheme !== "Bearer" || !token) return null;
-  return token;
+// Skips values that are already used, e.g. sequence numbers taken by manually entered IDs.
+async function generateFreeCustomId(
+  db: typeof prisma,
+  inventoryId: string,
+  item: CustomIdItemSource,
+): Promise<string> {
+  let candidate = await generateCustomIdForInventory(inventoryId, db, { item });
+  for (let attempt = 1; attempt < CUSTOM_ID_ATTEMPTS; attempt += 1) {
+    const taken = await db.item.findUnique({
+      where: { inventoryId_customId: { inventoryId, customId: candidate } },
+      select: { id: true },
+    });
+    if (!taken) break;
+    candidate = await generateCustomIdForInventory(inventoryId, db, { item });
+  }
+  return candidate;
 }
 
-function createOAuthState(provider: "google" | "github"): string {
-  return jwt.sign({ provider }, JWT_SECRET, { expiresIn: "10m" });
+function sanitizeFieldPayloads(
+  fields: InventoryFieldPayload[],
+  limits: FieldLimits,
+): {
+  error: string | null;
+  fields: SanitizedFieldPayload[];
+} {
+  const counters = Object.fromEntries(INVENTORY_FIELD_TYPES.map((type) => [type, 0])) as Record<
+    InventoryFieldType,
+    number
+  >;
+
+  const rulesByIndex: FieldValidationRules[] = [];
+
+  for (const field of fields) {
+    const type = field.type;
+    if (!INVENTORY_FIELD_TYPES.includes(type)) {
+      return { error: `Unsupported field type: ${type}`, fields: [] };
+    }
+    if (!field.title || !field.title.trim()) {
+      return { error: "Field title is required for all fields.", fields: [] };
+    }
+    counters[type] += 1;
+    if (counters[type] > limits[type]) {
+      return { error: `Too many fields of type ${type}. Maximum is ${limits[type]}.`, fields: [] };
+    }
+    if (isSelectFieldType(type)) {
+      const options = Array.isArray(field.options) ? field.options : [];
+      if (options.length === 0) {
+        return { error: `Field "${field.title.trim()}" needs at least one option.`, fields: [] };
+      }
+      const seen = new Set<string>();
+      for (const option of options) {
+        const label = typeof option.label === "string" ? option.label.trim() : "";
+        if (!label) {
+          return {
+            error: `Option label is required for field "${field.title.trim()}".`,
+            fields: [],
+          };
+        }
+        if (seen.has(label.toLowerCase())) {
+          return {
+            error: `Option "${label}" is listed twice for field "${field.title.trim()}".`,
+            fields: [],
+          };
+        }
+        seen.add(label.toLowerCase());
+        if (option.color && !/^#[0-9a-f]{6}$/i.test(option.color)) {
+          return { error: `Option colour must be a hex value like #1f77b4.`, fields: [] };
+        }
+      }
+    }
+    const { error, rules } = sanitizeValidationRules(type, field.rules, field.title.trim());
+    if (error) {
+      return { error, fields: [] };
+    }
+    rulesByIndex.push(rules);
+  }
+
+  return {
+    error: null,
+    fields: fields.map((field, index) => ({
+      id: typeof field.id === "string" && field.id ? field.id : null,
+      type: field.type,
+      title: field.title.trim(),
+      description: field.description && field.description.trim().length > 0
+        ? field.description.trim()
+        : null,
+      showInTable: Boolean(field.showInTable),
+      orderIndex: typeof field.orderIndex === "number" ? field.orderIndex : index,
+      options: isSelectFieldType(field.type)
+        ? (field.options ?? []).map((option, optionIndex) => ({
+            id: typeof option.id === "string" && option.id ? option.id : null,
+            label: option.label.trim(),
+            color: option.color ? option.color.toLowerCase() : null,
+            orderIndex: typeof option.orderIndex === "number" ? option.orderIndex : optionIndex,
+          }))
+        : [],
+      rules: rulesByIndex[index],
+    })),
+  };
 }
 
-function verifyOAuthState(token: string, expectedProvider: "google" | "github"): boolean {
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { provider?: string };
-    return decoded.provider === expectedProvider;
-  } catch {
-    return false;
+// Options are matched by id. An option that disappears while its label is re-added
+// under a new id is not a removal.
+function diffFieldOptions(
+  previous: { id: string; label: string }[],
+  next: SanitizedFieldOption[],
+): FieldOptionDiff {
+  const nextById = new Map(next.filter((option) => option.id).map((option) => [option.id, option]));
+  const nextLabels = next.map((option) => option.label);
+  const diff: FieldOptionDiff = { renamed: [], removed: [] };
+
+  for (const option of previous) {
+    const label = nextById.get(option.id)?.label ?? matchOptionLabel(option.label, nextLabels);
+    if (label === null) {
+      diff.removed.push(option.label);
+    } else if (label !== option.label) {
+      diff.renamed.push({ from: option.label, to: label });
+    }
   }
+
+  return diff;
 }
 
-async function getCurrentUser(req: Request) {
-  const token = getTokenFromRequest(req);
-  if (!token) return null;
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as AuthTokenPayload;
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-    });
-    if (!user) return null;
-    return user;
-  } catch {
-    return null;
-  }
+function hasOptionDiff(diff: FieldOptionDiff): boolean {
+  return diff.renamed.length > 0 || diff.removed.length > 0;
 }
 
-async function requireUser(req: Request, res: Response) {
-  const user = await getCurrentUser(req);
-  if (!user) {
-    res.status(401).json({ message: "Authentication required." });
-    return null;
+// Rewrites a stored select value after its options changed; null when no option is left.
+function applyOptionDiff<T extends ItemFieldValue>(
+  value: T,
+  type: InventoryFieldType,
+  diff: FieldOptionDiff,
+): T | null {
+  const renamed = new Map(diff.renamed.map((rename) => [rename.from, rename.to]));
+  const mapLabel = (label: string) =>
+    diff.removed.includes(label) ? null : (renamed.get(label) ?? label);
+
+  if (type === "SELECT") {
+    const label = value.valueString === null ? null : mapLabel(value.valueString);
+    return label === null ? null : { ...value, valueString: label };
   }
-  if (user.isBlocked) {
-    res.status(403).json({ message: "User is blocked." });
-    return null;
+
+  const labels: string[] = [];
+  for (const option of value.valueOptions) {
+    const label = mapLabel(option);
+    if (label !== null && !labels.includes(label)) labels.push(label);
   }
-  return user;
+  return labels.length === 0 ? null : { ...value, valueOptions: labels };
 }
 
-async function requireAdmin(req: Request, res: Response) {
-  const user = await requireUser(req, res);
-  if (!user) return null;
-  if (user.role !== "ADMIN") {
-    res.status(403).json({ message: "Admin role required." });
-    return null;
-  }
-  return user;
+function isSameOptionList(
+  previous: { label: string; color: string | null; orderIndex: number }[],
+  next: SanitizedFieldOption[],
+): boolean {
+  const serialize = (options: { label: string; color: string | null; orderIndex: number }[]) =>
+    JSON.stringify(
+      [...options]
+        .sort((a, b) => a.orderIndex - b.orderIndex)
+        .map((option) => [option.label, option.color]),
+    );
+  return serialize(previous) === serialize(next);
 }
 
-app.get("/api/health", (req: Request, res: Response) => {
-  res.json({ status: "ok" });
-});
+const FIELD_LIMITS_SETTING_KEY = "fieldLimits";
 
-app.post("/api/auth/register", async (req: Request, res: Response) => {
-  try {
-    const { email, password, name } = (req.body ?? {}) as {
-      email?: string;
-      password?: string;
-      name?: string;
-    };
+// Effective per-type limits: inventory override, then the admin's global setting, then the default.
+async function loadFieldLimits(db: typeof prisma, inventoryLimits: unknown): Promise<FieldLimits> {
+  const setting = await db.appSetting.findUnique({ where: { key: FIELD_LIMITS_SETTING_KEY } });
+  return resolveFieldLimits(setting?.value ?? null, inventoryLimits);
+}
 
-    if (!email || !password) {
-      return res.status(400).json({ message: "Email and password are required." });
-    }
+async function loadTagNameRules(db: typeof prisma): Promise<TagNameRules> {
+  const setting = await db.appSetting.findUnique({ where: { key: TAG_NAME_RULES_SETTING_KEY } });
+  return sanitizeTagNameRules(setting?.value ?? null).rules;
+}
 
-    if (password.length < 6) {
-      return res
-        .status(400)
-        .json({ message: "Password should be at least 6 characters long." });
-    }
+/**
+ * Normalizes tag names as entered and replaces synonyms with the name of the tag they stand for.
+ * Synonyms and existing tags match regardless of case, since they may have been saved under
+ * other rules; an exact match wins over one that only differs in case.
+ */
+async function resolveTagNames(db: typeof prisma, names: string[]): Promise<string[]> {
+  const normalized = normalizeTagNames(names, await loadTagNameRules(db));
+  if (normalized.length === 0) return [];
+
+  const keys = Prisma.join(Array.from(new Set(normalized.map((name) => name.toLowerCase()))));
+  const synonyms = await db.$queryRaw<{ name: string; tagName: string }[]>`
+    SELECT s."name", t."name" AS "tagName"
+    FROM "TagSynonym" s JOIN "Tag" t ON t."id" = s."tagId"
+    WHERE lower(s."name") IN (${keys})
+    ORDER BY s."name"`;
+  const tags = await db.$queryRaw<{ name: string }[]>`
+    SELECT "name" FROM "Tag" WHERE lower("name") IN (${keys}) ORDER BY "name"`;
+
+  const exactTags = new Set(tags.map((tag) => tag.name));
+  const exactSynonyms = new Map(synonyms.map((synonym) => [synonym.name, synonym.tagName]));
+  const byKey = new Map<string, string>();
+  for (const { name, tagName } of [
+    ...synonyms,
+    ...tags.map((tag) => ({ name: tag.name, tagName: tag.name })),
+  ]) {
+    if (!byKey.has(name.toLowerCase())) byKey.set(name.toLowerCase(), tagName);
+  }
 
-    const existing = await prisma.user.findUnique({ where: { email } });
-    if (existing) {
-      return res.status(409).json({ message: "User with this email already exists." });
+  return Array.from(
+    new Set(
+      normalized.map((name) =>
+        exactTags.has(name)
+          ? name
+          : (exactSynonyms.get(name) ?? byKey.get(name.toLowerCase()) ?? name),
+      ),
+    ),
+  );
+}
+
+// Dry run of a field schema save: which values would be converted and which would be lost.
+async function buildFieldMigrationPreview(
+  db: typeof prisma,
+  inventoryId: string,
+  fields: SanitizedFieldPayload[],
+): Promise<FieldMigrationPreview> {
+  const existing = await db.inventoryField.findMany({
+    where: { inventoryId },
+    orderBy: { orderIndex: "asc" },
+    include: { options: true },
+  });
+  const incomingById = new Map(
+    fields.filter((field) => field.id).map((field) => [field.id as string, field]),
+  );
+
+  const preview: FieldMigrationPreview = {
+    conversions: [],
+    removals: [],
+    optionRemovals: [],
+    hasDataLoss: false,
+  };
+
+  for (const field of existing) {
+    const next = incomingById.get(field.id);
+
+    if (!next) {
+      const valuesCount =
+        field.type === "ATTACHMENT"
+          ? await db.itemAttachment.count({ where: { fieldId: field.id } })
+          : await db.itemFieldValue.count({ where: { fieldId: field.id } });
+      preview.removals.push({
+        fieldId: field.id,
+        title: field.title,
+        type: field.type,
+        valuesCount,
+      });
+      if (valuesCount > 0) preview.hasDataLoss = true;
+      continue;
     }
 
-    const passwordHash = await bcrypt.hash(password, 10);
+    const optionDiff =
+      isSelectFieldType(field.type) && isSelectFieldType(next.type)
+        ? diffFieldOptions(field.options, next.options)
+        : { renamed: [], removed: [] };
+
+    for (const label of optionDiff.removed) {
+      const valuesCount = await db.itemFieldValue.count({
+        where:
+          field.type === "SELECT"
+            ? { fieldId: field.id, valueString: label }
+            : { fieldId: field.id, valueOptions: { has: label } },
+      });
+      preview.optionRemovals.push({ fieldId: field.id, title: next.title, label, valuesCount });
+      if (valuesCount > 0) preview.hasDataLoss = true;
+    }
 
-    const user = await prisma.user.create({
-      data: {
-        email,
-        name,
-        passwordHash,
-      },
-    });
+    if (next.type === field.type) continue;
 
-    const token = generateToken(user.id, user.role);
+    // Files cannot be turned into values of another type, so every attachment is lost.
+    if (field.type === "ATTACHMENT") {
+      const attachments = await db.itemAttachment.findMany({
+        where: { fieldId: field.id },
+        include: { item: { select: { id: true, customId: true } } },
+      });
+      preview.conversions.push({
+        fieldId: field.id,
+        title: next.title,
+        fromType: field.type,
+        toType: next.type,
+        totalValues: attachments.length,
+        convertedValues: 0,
+        lostValues: attachments.map((attachment) => ({
+          itemId: attachment.item.id,
+          customId: attachment.item.customId,
+          value: attachment.fileName,
+        })),
+      });
+      if (attachments.length > 0) preview.hasDataLoss = true;
+      continue;
+    }
 
-    res.status(201).json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        isBlocked: user.isBlocked,
-      },
+    const values = await db.itemFieldValue.findMany({
+      where: { fieldId: field.id },
+      include: { item: { select: { id: true, customId: true } } },
     });
-  } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error("Error in POST /api/auth/register", error);
-    res.status(500).json({ message: "Failed to register user" });
-  }
-});
 
-app.post("/api/auth/login", async (req: Request, res: Response) => {
-  try {
-    const { email, password } = (req.body ?? {}) as {
-      email?: string;
-      password?: string;
+    const conversion: FieldConversionPreview = {
+      fieldId: field.id,
+      title: next.title,
+      fromType: field.type,
+      toType: next.type,
+      totalValues: 0,
+      convertedValues: 0,
+      lostValues: [],
     };
 
-    if (!email || !password) {
-      return res.status(400).json({ message: "Email and password are required." });
+    const nextLabels = next.options.map((option) => option.label);
+
+    for (const value of values) {
+      const current = hasOptionDiff(optionDiff)
+        ? applyOptionDiff(value, field.type, optionDiff)
+        : value;
+      if (!current) continue;
+      const result = convertFieldValue(current, field.type, next.type, nextLabels);
+      if (!result.value && result.lossless) continue;
+      conversion.totalValues += 1;
+      if (result.value) {
+        conversion.convertedValues += 1;
+      } else {
+        conversion.lostValues.push({
+          itemId: value.item.id,
+          customId: value.item.customId,
+          value: formatFieldValue(value),
+        });
+      }
     }
 
-    const user = await prisma.user.findUnique({
-      where: { email },
-    });
+    if (conversion.lostValues.length > 0) preview.hasDataLoss = true;
+    preview.conversions.push(conversion);
+  }
 
-    if (!user || !user.passwordHash) {
-      return res.status(401).json({ message: "Invalid email or password." });
-    }
+  return preview;
+}
 
-    if (user.isBlocked) {
-      return res.status(403).json({ message: "User is blocked." });
-    }
+// Trashed items are not counted anywhere an inventory shows its size.
+const ACTIVE_ITEMS_COUNT = { select: { items: { where: { deletedAt: null } } } } as const;
 
-    const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) {
-      return res.status(401).json({ message: "Invalid email or password." });
-    }
+const ITEM_DTO_INCLUDE = {
+  inventory: {
+    select: {
+      id: true,
+      archivedAt: true,
+      fields: {
+        orderBy: { orderIndex: "asc" },
+        include: { options: { orderBy: { orderIndex: "asc" } } },
+      },
+    },
+  },
+  createdBy: { select: { name: true, email: true } },
+  fieldValues: true,
+  attachments: { orderBy: { createdAt: "asc" } },
+} as const;
+
+type ItemDtoSource = Prisma.ItemGetPayload<{ include: typeof ITEM_DTO_INCLUDE }>;
+
+// Every inventory field is listed, so the edit form also shows fields without a value yet.
+function toItemDto(item: ItemDtoSource) {
+  const valuesByField = new Map(item.fieldValues.map((value) => [value.fieldId, value]));
+
+  return {
+    id: item.id,
+    inventoryId: item.inventory.id,
+    customId: item.customId,
+    version: item.version,
+    createdAt: item.createdAt,
+    createdByName: item.createdBy.name ?? item.createdBy.email,
+    fields: item.inventory.fields.map((field) => {
+      const value = valuesByField.get(field.id);
+      return {
+        fieldId: field.id,
+        title: field.title,
+        type: field.type,
+        description: field.description,
+        valueString: value?.valueString ?? null,
+        valueNumber: value?.valueNumber ?? null,
+        valueBoolean: value?.valueBoolean ?? null,
+        valueLink: value?.valueLink ?? null,
+        valueDate: value?.valueDate ? formatDateValue(value.valueDate, field.type) : null,
+        valueOptions: value?.valueOptions ?? [],
+        options: field.options.map((option) => ({
+          id: option.id,
+          label: option.label,
+          color: option.color,
+        })),
+        attachments: item.attachments
+          .filter((attachment) => attachment.fieldId === field.id)
+          .map(toAttachmentDto),
+        rules: pickValidationRules(field),
+      };
+    }),
+  };
+}
+
+function toAttachmentDto(attachment: ItemAttachment) {
+  return {
+    id: attachment.id,
+    fieldId: attachment.fieldId,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    createdAt: attachment.createdAt,
+  };
+}
+
+/**
+ * Normalises and validates the `fields` payload of an item create or update. Select values are
+ * matched to their option labels, and required fields left out of the payload count as empty.
+ * Files are uploaded separately, so a required attachment field only needs an existing
+ * attachment; pass `attachedFieldIds: null` for a new item, which cannot have files yet.
+ */
+function sanitizeItemFieldValues(
+  fields: ItemFieldValuePayload[] | undefined,
+  definitions: Prisma.InventoryFieldGetPayload<{ include: { options: true } }>[],
+  attachedFieldIds: Set<string> | null,
+): { values: ItemFieldValuePayload[] | null; errors: FieldValidationError[] } {
+  const fieldTypes = new Map(definitions.map((field) => [field.id, field.type]));
+  const fieldsById = new Map(definitions.map((field) => [field.id, field]));
+
+  const sanitizedFields: ItemFieldValuePayload[] | null = Array.isArray(fields)
+    ? fields.map((field) => ({
+        fieldId: field.fieldId,
+        valueString: field.valueString ?? null,
+        valueNumber:
+          typeof field.valueNumber === "number" && !Number.isNaN(field.valueNumber)
+            ? field.valueNumber
+            : null,
+        valueBoolean: typeof field.valueBoolean === "boolean" ? field.valueBoolean : null,
+        valueLink: field.valueLink ?? null,
+        valueDate: field.valueDate
+          ? parseDateValue(field.valueDate, fieldTypes.get(field.fieldId) ?? "DATETIME")
+          : null,
+        valueOptions: Array.isArray(field.valueOptions)
+          ? field.valueOptions.filter((option) => typeof option === "string")
+          : [],
+      }))
+    : null;
+
+  const fieldErrors: FieldValidationError[] = [];
+
+  for (const [index, field] of (sanitizedFields ?? []).entries()) {
+    const definition = fieldsById.get(field.fieldId);
+    if (!definition) {
+      fieldErrors.push({
+        fieldId: field.fieldId,
+        message: "Field does not belong to this inventory.",
+      });
+      continue;
+    }
+
+    // A date that was sent but could not be read is an error, not an empty value.
+    if (isDateFieldType(definition.type) && fields[index].valueDate && !field.valueDate) {
+      fieldErrors.push({
+        fieldId: field.fieldId,
+        message:
+          definition.type === "DATE"
+            ? "Must be a date as YYYY-MM-DD."
+            : "Must be an ISO 8601 date and time with a time zone offset.",
+      });
+      continue;
+    }
+
+    // Select values must name one of the field's options and are stored with its exact label.
+    if (definition.type === "SELECT") {
+      const labels = definition.options.map((option) => option.label);
+      const text = field.valueString?.trim() ?? "";
+      const label = text ? matchOptionLabel(text, labels) : null;
+      if (text && label === null) {
+        fieldErrors.push({ fieldId: field.fieldId, message: `"${text}" is not an option.` });
+        continue;
+      }
+      field.valueString = label;
+      field.valueOptions = [];
+    } else if (definition.type === "MULTI_SELECT") {
+      const labels = definition.options.map((option) => option.label);
+      const matched = matchOptionLabels(field.valueOptions, labels);
+      if (matched === null) {
+        const invalid = field.valueOptions.find(
+          (option) => option.trim() && matchOptionLabel(option, labels) === null,
+        );
+        fieldErrors.push({ fieldId: field.fieldId, message: `"${invalid}" is not an option.` });
+        continue;
+      }
+      field.valueString = null;
+      field.valueOptions = matched;
+    } else {
+      field.valueOptions = [];
+    }
+
+    const message = validateFieldValue(definition.type, pickValidationRules(definition), field);
+    if (message) {
+      fieldErrors.push({ fieldId: field.fieldId, message });
+    }
+  }
+
+  if (sanitizedFields) {
+    const submittedIds = new Set(sanitizedFields.map((field) => field.fieldId));
+    for (const definition of definitions) {
+      if (!definition.required) continue;
+      if (definition.type === "ATTACHMENT") {
+        if (attachedFieldIds && !attachedFieldIds.has(definition.id)) {
+          fieldErrors.push({ fieldId: definition.id, message: "Attach at least one file." });
+        }
+      } else if (!submittedIds.has(definition.id)) {
+        fieldErrors.push({ fieldId: definition.id, message: "A value is required." });
+      }
+    }
+  }
+
+  return { values: sanitizedFields, errors: fieldErrors };
+}
+
+function toFieldValueRows(itemId: string, values: ItemFieldValuePayload[]) {
+  return values
+    .filter((field) => hasFieldValue(field))
+    .map((field) => ({
+      itemId,
+      fieldId: field.fieldId,
+      valueString: field.valueString,
+      valueNumber: field.valueNumber,
+      valueBoolean: field.valueBoolean,
+      valueLink: field.valueLink,
+      valueDate: field.valueDate,
+      valueOptions: field.valueOptions,
+    }));
+}
+
+function toFieldValueMap(values: Array<FieldValueColumns & { fieldId: string }>) {
+  return new Map(values.map((value) => [value.fieldId, value]));
+}
+
+// Writes a revision row unless the save did not change anything.
+async function recordItemRevision(
+  db: typeof prisma,
+  revision: {
+    itemId: string;
+    version: number;
+    authorId: string | null;
+    customIdBefore: string | null;
+    customIdAfter: string | null;
+    changes: RevisionFieldChange[];
+    revertOfId?: string | null;
+  },
+) {
+  const customIdChanged = revision.customIdBefore !== revision.customIdAfter;
+  if (!customIdChanged && revision.changes.length === 0) return null;
+
+  return db.itemRevision.create({
+    data: {
+      itemId: revision.itemId,
+      version: revision.version,
+      authorId: revision.authorId,
+      customIdBefore: customIdChanged ? revision.customIdBefore : null,
+      customIdAfter: customIdChanged ? revision.customIdAfter : null,
+      changes: revision.changes,
+      revertOfId: revision.revertOfId ?? null,
+    },
+  });
+}
+
+// Creates the item, its field values and the first revision in one transaction.
+async function createItemWithValues(
+  inventory: { id: string; fields: RevisionFieldDefinition[] },
+  userId: string,
+  customId: string | undefined,
+  values: ItemFieldValuePayload[] | null,
+) {
+  return prisma.$transaction(async (tx) => {
+    const generatedCustomId =
+      customId ??
+      (await generateFreeCustomId(tx, inventory.id, {
+        createdBy: await tx.user.findUnique({
+          where: { id: userId },
+          select: { name: true, email: true },
+        }),
+        fieldValues: (values ?? []).filter((value) => hasFieldValue(value)),
+      }));
+    const created = await tx.item.create({
+      data: {
+        inventoryId: inventory.id,
+        customId: generatedCustomId,
+        createdById: userId,
+      },
+    });
+
+    const valuesToCreate = toFieldValueRows(created.id, values ?? []);
+    if (valuesToCreate.length > 0) {
+      await tx.itemFieldValue.createMany({
+        data: valuesToCreate,
+      });
+    }
+
+    // The first revision lists the values the item was created with.
+    await recordItemRevision(tx, {
+      itemId: created.id,
+      version: created.version,
+      authorId: userId,
+      customIdBefore: null,
+      customIdAfter: created.customId,
+      changes: diffItemValues(inventory.fields, new Map(), toFieldValueMap(valuesToCreate)),
+    });
+
+    return tx.item.findUniqueOrThrow({
+      where: { id: created.id },
+      include: ITEM_DTO_INCLUDE,
+    });
+  });
+}
+
+const REVISION_DTO_INCLUDE = { author: { select: { name: true, email: true } } } as const;
+
+function toRevisionDto(
+  revision: Prisma.ItemRevisionGetPayload<{ include: typeof REVISION_DTO_INCLUDE }>,
+) {
+  const changes = (
+    Array.isArray(revision.changes) ? revision.changes : []
+  ) as unknown as RevisionFieldChange[];
+  return {
+    id: revision.id,
+    version: revision.version,
+    createdAt: revision.createdAt,
+    authorName: revision.author ? (revision.author.name ?? revision.author.email) : null,
+    customIdBefore: revision.customIdBefore,
+    customIdAfter: revision.customIdAfter,
+    revertOfId: revision.revertOfId,
+    changes: changes.map((change) => ({
+      fieldId: change.fieldId,
+      title: change.title,
+      type: change.type,
+      before: formatRevisionValue(change.before, change.type),
+      after: formatRevisionValue(change.after, change.type),
+    })),
+  };
+}
+
+function toMergeValueDto(value: RevisionValue | null, type: InventoryFieldType) {
+  const columns = fromRevisionValue(value);
+  return {
+    ...columns,
+    valueDate: columns.valueDate ? formatDateValue(columns.valueDate, type) : null,
+    text: formatRevisionValue(value, type),
+  };
+}
+
+// Merges of one save against versions saved in the meantime before the save gives up with a 409.
+const MAX_ITEM_SAVE_ATTEMPTS = 3;
+
+/**
+ * Merges a save that started from an older version with everything saved since. The revisions
+ * after `baseVersion` give the values the editor started from; fields changed on both sides to
+ * different values are conflicts and keep the saved value until the editor picks one.
+ */
+async function mergeConcurrentItemEdit(
+  current: ItemDtoSource,
+  baseVersion: number,
+  customId: string | undefined,
+  fields: ItemFieldValuePayload[] | null,
+) {
+  const revisions = await prisma.itemRevision.findMany({
+    where: { itemId: current.id, version: { gt: baseVersion } },
+    orderBy: { version: "asc" },
+    select: { changes: true, customIdBefore: true, customIdAfter: true },
+  });
+
+  // Saves that changed nothing leave no revision; the base cannot be rebuilt across such a gap,
+  // so every difference from the saved item is then left to the editor.
+  const baseKnown = revisions.length >= current.version - baseVersion;
+  const theirs = toFieldValueMap(current.fieldValues);
+  const base = baseKnown
+    ? rebuildBaseValues(
+        theirs,
+        revisions.map((revision) => ({
+          changes: Array.isArray(revision.changes) ? revision.changes : [],
+        })),
+      )
+    : null;
+  const mine = fields
+    ? toFieldValueMap(fields.filter((field) => hasFieldValue(field)))
+    : (base ?? theirs);
+  const merge = mergeItemValues(current.inventory.fields, base, mine, theirs);
+
+  const baseCustomId = baseKnown
+    ? (revisions.find((revision) => revision.customIdAfter !== null)?.customIdBefore ??
+      current.customId)
+    : null;
+  const myCustomId = customId ?? baseCustomId ?? current.customId;
+  const customIdChangedByMe = baseKnown ? myCustomId !== baseCustomId : customId !== undefined;
+  const customIdChangedByThem = baseKnown ? current.customId !== baseCustomId : true;
+
+  return {
+    values: current.inventory.fields.map((field) => ({
+      fieldId: field.id,
+      ...(merge.values.get(field.id) ?? fromRevisionValue(null)),
+    })),
+    conflicts: merge.conflicts,
+    baseKnown,
+    customId: customIdChangedByMe && !customIdChangedByThem ? myCustomId : current.customId,
+    customIdConflict:
+      customIdChangedByMe && customIdChangedByThem && myCustomId !== current.customId
+        ? { base: baseCustomId, mine: myCustomId, theirs: current.customId }
+        : null,
+  };
+}
+
+// Deletes attachment rows inside the caller's transaction and returns the storage keys,
+// so the files can be removed once the transaction has committed.
+async function deleteAttachmentRows(
+  db: typeof prisma,
+  where: Prisma.ItemAttachmentWhereInput,
+): Promise<string[]> {
+  const attachments = await db.itemAttachment.findMany({
+    where,
+    select: { id: true, storageKey: true },
+  });
+  if (attachments.length > 0) {
+    await db.itemAttachment.deleteMany({
+      where: { id: { in: attachments.map((attachment) => attachment.id) } },
+    });
+  }
+  return attachments.map((attachment) => attachment.storageKey);
+}
+
+// Writes converted field values back with one UPDATE … FROM (VALUES …) per batch and deletes
+// the values that are gone, instead of one round trip per value.
+async function rewriteFieldValues(
+  db: typeof prisma,
+  updates: (FieldValueColumns & { id: string })[],
+  deletedIds: string[],
+) {
+  for (let start = 0; start < deletedIds.length; start += FIELD_VALUE_REWRITE_BATCH) {
+    await db.itemFieldValue.deleteMany({
+      where: { id: { in: deletedIds.slice(start, start + FIELD_VALUE_REWRITE_BATCH) } },
+    });
+  }
+  for (let start = 0; start < updates.length; start += FIELD_VALUE_REWRITE_BATCH) {
+    // Dates go in as ISO text; a timestamp column drops the offset instead of shifting the time.
+    const rows = updates.slice(start, start + FIELD_VALUE_REWRITE_BATCH).map(
+      (value) => Prisma.sql`(${value.id}, ${value.valueString}::text,
+        ${value.valueNumber}::float8, ${value.valueBoolean}::boolean, ${value.valueLink}::text,
+        ${value.valueDate?.toISOString() ?? null}::timestamp(3), ${value.valueOptions}::text[])`,
+    );
+    await db.$executeRaw`
+      UPDATE "ItemFieldValue" AS v
+      SET "valueString" = c."valueString", "valueNumber" = c."valueNumber",
+        "valueBoolean" = c."valueBoolean", "valueLink" = c."valueLink",
+        "valueDate" = c."valueDate", "valueOptions" = c."valueOptions"
+      FROM (VALUES ${Prisma.join(rows)}) AS c(
+        "id", "valueString", "valueNumber", "valueBoolean", "valueLink", "valueDate", "valueOptions"
+      )
+      WHERE v."id" = c."id"`;
+  }
+}
+
+async function removeStoredFiles(storageKeys: string[]) {
+  for (const key of storageKeys) {
+    try {
+      await fileStorage.remove(key);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("Failed to remove attachment file", key, error);
+    }
+  }
+}
+
+// Removes items together with their values, likes, revisions and attachment files. Used by the
+// trash when items are deleted for good, either by hand or once the retention period has passed.
+async function deleteItemsPermanently(itemIds: string[]): Promise<number> {
+  if (itemIds.length === 0) return 0;
+
+  const { count, storageKeys } = await prisma.$transaction(async (tx) => {
+    const keys = await deleteAttachmentRows(tx, { itemId: { in: itemIds } });
+    await tx.itemFieldValue.deleteMany({ where: { itemId: { in: itemIds } } });
+    await tx.itemLike.deleteMany({ where: { itemId: { in: itemIds } } });
+    await tx.itemRevision.deleteMany({ where: { itemId: { in: itemIds } } });
+    await tx.itemCustomIdAlias.deleteMany({ where: { itemId: { in: itemIds } } });
+    await tx.savedSearchAlert.deleteMany({ where: { kind: "item", targetId: { in: itemIds } } });
+    const deleted = await tx.item.deleteMany({ where: { id: { in: itemIds } } });
+    return { count: deleted.count, storageKeys: keys };
+  });
+
+  await removeStoredFiles(storageKeys);
+  return count;
+}
+
+function getTrashPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+async function purgeExpiredTrash() {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await prisma.item.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    select: { id: true },
+  });
+
+  const count = await deleteItemsPermanently(expired.map((item) => item.id));
+  if (count > 0) {
+    // eslint-disable-next-line no-console
+    console.log(`Purged ${count} item(s) from the trash`);
+  }
+}
+
+function receiveAttachmentUpload(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    attachmentUpload.single("file")(req, res, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function generateToken(userId: string, role: "USER" | "ADMIN"): string {
+  const payload: AuthTokenPayload = { userId, role };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+}
+
+function getTokenFromRequest(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader) return null;
+  const [scheme, token] = authHeader.split(" ");
+  if (scheme !== "Bearer" || !token) return null;
+  return token;
+}
+
+function createOAuthState(provider: "google" | "github"): string {
+  return jwt.sign({ provider }, JWT_SECRET, { expiresIn: "10m" });
+}
+
+function verifyOAuthState(token: string, expectedProvider: "google" | "github"): boolean {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { provider?: string };
+    return decoded.provider === expectedProvider;
+  } catch {
+    return false;
+  }
+}
+
+// What a re-ID dry run drew, so applying it renders the same IDs the owner was shown.
+interface ReIdPlanToken {
+  purpose: "custom-id-reid";
+  inventoryId: string;
+  seed: string;
+  now: string;
+  firstSequence: number;
+  digest: string;
+}
+
+function createReIdPlanToken(plan: Omit<ReIdPlanToken, "purpose">): string {
+  const payload: ReIdPlanToken = { ...plan, purpose: "custom-id-reid" };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: "1h" });
+}
+
+function verifyReIdPlanToken(token: string, inventoryId: string): ReIdPlanToken | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<ReIdPlanToken>;
+    return decoded.purpose === "custom-id-reid" && decoded.inventoryId === inventoryId
+      ? (decoded as ReIdPlanToken)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function getCurrentUser(req: Request) {
+  const token = getTokenFromRequest(req);
+  if (!token) return null;
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as AuthTokenPayload;
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+    });
+    if (!user) return null;
+    return user;
+  } catch {
+    return null;
+  }
+}
+
+async function requireUser(req: Request, res: Response) {
+  const user = await getCurrentUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Authentication required." });
+    return null;
+  }
+  if (user.isBlocked) {
+    res.status(403).json({ message: "User is blocked." });
+    return null;
+  }
+  return user;
+}
+
+// Archived inventories are read-only until the owner or an admin unarchives them.
+function rejectArchived(inventory: { archivedAt: Date | null }, res: Response): boolean {
+  if (!inventory.archivedAt) return false;
+  res.status(409).json({ message: "Inventory is archived. Unarchive it to make changes." });
+  return true;
+}
+
+async function requireAdmin(req: Request, res: Response) {
+  const user = await requireUser(req, res);
+  if (!user) return null;
+  if (user.role !== "ADMIN") {
+    res.status(403).json({ message: "Admin role required." });
+    return null;
+  }
+  return user;
+}
+
+app.get("/api/health", (req: Request, res: Response) => {
+  res.json({ status: "ok" });
+});
+
+app.post("/api/auth/register", async (req: Request, res: Response) => {
+  try {
+    const { email, password, name } = (req.body ?? {}) as {
+      email?: string;
+      password?: string;
+      name?: string;
+    };
+
+    if (!email || !password) {
+      return res.status(400).json({ message: "Email and password are required." });
+    }
+
+    if (password.length < 6) {
+      return res
+        .status(400)
+        .json({ message: "Password should be at least 6 characters long." });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      return res.status(409).json({ message: "User with this email already exists." });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name,
+        passwordHash,
+      },
+    });
+
+    const token = generateToken(user.id, user.role);
+
+    res.status(201).json({
+      token,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        isBlocked: user.isBlocked,
+      },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/auth/register", error);
+    res.status(500).json({ message: "Failed to register user" });
+  }
+});
+
+app.post("/api/auth/login", async (req: Request, res: Response) => {
+  try {
+    const { email, password } = (req.body ?? {}) as {
+      email?: string;
+      password?: string;
+    };
+
+    if (!email || !password) {
+      return res.status(400).json({ message: "Email and password are required." });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || !user.passwordHash) {
+      return res.status(401).json({ message: "Invalid email or password." });
+    }
+
+    if (user.isBlocked) {
+      return res.status(403).json({ message: "User is blocked." });
+    }
+
+    const ok = await bcrypt.compare(password, user.passwordHash);
+    if (!ok) {
+      return res.status(401).json({ message: "Invalid email or password." });
+    }
 
     const token = generateToken(user.id, user.role);
 
@@ -650,27 +1821,32 @@ app.get("/api/home", async (req: Request, res: Response) => {
   try {
     const [latestInventories, popularInventories, tags] = await Promise.all([
       prisma.inventory.findMany({
+        where: { archivedAt: null },
         orderBy: { createdAt: "desc" },
         take: 10,
         include: {
           owner: { select: { name: true, email: true } },
           tags: { include: { tag: true } },
-          _count: { select: { items: true } },
+          _count: ACTIVE_ITEMS_COUNT,
         },
       }),
       prisma.inventory.findMany({
+        where: { archivedAt: null },
         orderBy: { items: { _count: "desc" } },
         take: 5,
         include: {
           owner: { select: { name: true, email: true } },
           tags: { include: { tag: true } },
-          _count: { select: { items: true } },
+          _count: ACTIVE_ITEMS_COUNT,
         },
       }),
       prisma.tag.findMany({
+        where: { inventories: { some: { inventory: { archivedAt: null } } } },
         take: 30,
         orderBy: { inventories: { _count: "desc" } },
-        include: { _count: { select: { inventories: true } } },
+        include: {
+          _count: { select: { inventories: { where: { inventory: { archivedAt: null } } } } },
+        },
       }),
     ]);
 
@@ -715,7 +1891,7 @@ app.get("/api/profile", async (req: Request, res: Response) => {
         ownedInventories: {
           include: {
             tags: { include: { tag: true } },
-            _count: { select: { items: true } },
+            _count: ACTIVE_ITEMS_COUNT,
           },
           orderBy: { createdAt: "desc" },
         },
@@ -724,7 +1900,7 @@ app.get("/api/profile", async (req: Request, res: Response) => {
             inventory: {
               include: {
                 tags: { include: { tag: true } },
-                _count: { select: { items: true } },
+                _count: ACTIVE_ITEMS_COUNT,
                 owner: { select: { name: true, email: true } },
               },
             },
@@ -807,6 +1983,7 @@ app.get("/api/inventories/:id", async (req: Request, res: Response) => {
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
       include: {
+        owner: { select: { id: true, name: true, email: true } },
         tags: { include: { tag: true } },
         writeAccess: {
           select: {
@@ -826,9 +2003,13 @@ app.get("/api/inventories/:id", async (req: Request, res: Response) => {
     const hasExplicitWrite =
       !!user && inventory.writeAccess.some((access) => access.userId === user.id);
 
+    const isArchived = inventory.archivedAt !== null;
+
+    // Archiving makes everything read-only; only archive, transfer and delete stay available.
+    const canManageInventory = !!user && (isAdmin || isOwner);
     const canEditItems =
-      !!user && (isAdmin || isOwner || inventory.isPublic || hasExplicitWrite);
-    const canEditSettings = !!user && (isAdmin || isOwner);
+      !!user && !isArchived && (isAdmin || isOwner || inventory.isPublic || hasExplicitWrite);
+    const canEditSettings = canManageInventory && !isArchived;
     const canManageAccess = canEditSettings;
     const canEditFields = canEditSettings;
 
@@ -841,10 +2022,14 @@ app.get("/api/inventories/:id", async (req: Request, res: Response) => {
       version: inventory.version,
       imageUrl: inventory.imageUrl,
       tags: inventory.tags.map((t) => t.tag.name),
+      ownerId: inventory.owner.id,
+      ownerName: inventory.owner.name ?? inventory.owner.email,
+      archivedAt: inventory.archivedAt,
       canEditItems,
       canEditSettings,
       canManageAccess,
       canEditFields,
+      canManageInventory,
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -883,6 +2068,8 @@ app.patch("/api/inventories/:id", async (req: Request, res: Response) => {
       return res.status(403).json({ message: "No permission to edit this inventory." });
     }
 
+    if (rejectArchived(current, res)) return;
+
     if (version !== current.version) {
       return res.status(409).json({
         message: "Inventory has been modified by someone else.",
@@ -900,12 +2087,9 @@ app.patch("/api/inventories/:id", async (req: Request, res: Response) => {
     }
 
     const normalizedTags = Array.isArray(tags)
-      ? Array.from(
-          new Set(
-            tags
-              .map((name) => name.trim())
-              .filter((name) => name.length > 0),
-          ),
+      ? await resolveTagNames(
+          prisma,
+          tags.filter((name) => typeof name === "string"),
         )
       : null;
 
@@ -1000,35 +2184,238 @@ app.patch("/api/inventories/:id", async (req: Request, res: Response) => {
   }
 });
 
-app.get("/api/inventories/:id/items", async (req: Request, res: Response) => {
+app.post("/api/inventories/:id/archive", async (req: Request, res: Response) => {
   try {
     const inventoryId = req.params.id;
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true },
+      select: { id: true, ownerId: true, archivedAt: true },
     });
 
     if (!inventory) {
       return res.status(404).json({ message: "Inventory not found" });
     }
 
-    const user = await getCurrentUser(req);
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "No permission to archive this inventory." });
+    }
+
+    const updated = inventory.archivedAt
+      ? inventory
+      : await prisma.inventory.update({
+          where: { id: inventoryId },
+          data: { archivedAt: new Date(), version: { increment: 1 } },
+        });
+
+    res.json({ id: updated.id, archivedAt: updated.archivedAt });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/archive", error);
+    res.status(500).json({ message: "Failed to archive inventory" });
+  }
+});
+
+app.post("/api/inventories/:id/unarchive", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true, archivedAt: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "No permission to unarchive this inventory." });
+    }
+
+    const updated = inventory.archivedAt
+      ? await prisma.inventory.update({
+          where: { id: inventoryId },
+          data: { archivedAt: null, version: { increment: 1 } },
+        })
+      : inventory;
+
+    res.json({ id: updated.id, archivedAt: updated.archivedAt });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/unarchive", error);
+    res.status(500).json({ message: "Failed to unarchive inventory" });
+  }
+});
+
+app.post("/api/inventories/:id/transfer", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const { userId, email } = (req.body ?? {}) as { userId?: string; email?: string };
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const currentUser = await requireUser(req, res);
+    if (!currentUser) return;
+    if (currentUser.role !== "ADMIN" && inventory.ownerId !== currentUser.id) {
+      return res.status(403).json({ message: "No permission to transfer this inventory." });
+    }
+
+    let newOwner = null;
+    if (userId) {
+      newOwner = await prisma.user.findUnique({ where: { id: userId } });
+    } else if (email) {
+      newOwner = await prisma.user.findUnique({ where: { email } });
+    }
+
+    if (!newOwner) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (newOwner.isBlocked) {
+      return res.status(400).json({ message: "Inventory cannot be transferred to a blocked user." });
+    }
+
+    if (newOwner.id === inventory.ownerId) {
+      return res.status(400).json({ message: "This user already owns the inventory." });
+    }
+
+    // The new owner no longer needs an explicit write access entry.
+    await prisma.$transaction([
+      prisma.inventoryWriteAccess.deleteMany({
+        where: { inventoryId, userId: newOwner.id },
+      }),
+      prisma.inventory.update({
+        where: { id: inventoryId },
+        data: { ownerId: newOwner.id, version: { increment: 1 } },
+      }),
+    ]);
+
+    res.json({
+      id: inventory.id,
+      ownerId: newOwner.id,
+      ownerName: newOwner.name ?? newOwner.email,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/transfer", error);
+    res.status(500).json({ message: "Failed to transfer inventory" });
+  }
+});
+
+app.delete("/api/inventories/:id", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "No permission to delete this inventory." });
+    }
+
+    // The schema has no cascading deletes, so children are removed first, leaves before parents.
+    const fileKeys = await prisma.$transaction(async (tx) => {
+      const keys = await deleteAttachmentRows(tx, { item: { inventoryId } });
+      await tx.itemFieldValue.deleteMany({ where: { item: { inventoryId } } });
+      await tx.itemLike.deleteMany({ where: { item: { inventoryId } } });
+      await tx.itemRevision.deleteMany({ where: { item: { inventoryId } } });
+      await tx.itemCustomIdAlias.deleteMany({ where: { inventoryId } });
+      // Alerts of the inventory and of its items both carry its id.
+      await tx.savedSearchAlert.deleteMany({ where: { inventoryId } });
+      await tx.item.deleteMany({ where: { inventoryId } });
+      await tx.inventoryFieldOption.deleteMany({ where: { field: { inventoryId } } });
+      await tx.inventoryField.deleteMany({ where: { inventoryId } });
+      await tx.inventoryCustomIdElement.deleteMany({ where: { inventoryId } });
+      await tx.inventoryTag.deleteMany({ where: { inventoryId } });
+      await tx.inventoryWriteAccess.deleteMany({ where: { inventoryId } });
+      await tx.discussionPost.deleteMany({ where: { inventoryId } });
+      await tx.inventory.delete({ where: { id: inventoryId } });
+      return keys;
+    });
+
+    await removeStoredFiles(fileKeys);
+
+    res.status(204).send();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in DELETE /api/inventories/:id", error);
+    res.status(500).json({ message: "Failed to delete inventory" });
+  }
+});
+
+app.get("/api/inventories/:id/items", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: {
+        id: true,
+        fields: {
+          orderBy: { orderIndex: "asc" },
+          select: { id: true, title: true, type: true, showInTable: true },
+        },
+      },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const { error: queryError, listQuery } = parseItemListQuery(req.query, inventory.fields);
+    if (queryError) {
+      return res.status(400).json({ message: queryError });
+    }
+
+    const { page, count } = buildItemListSql(inventoryId, listQuery, inventory.fields);
+    const [rows, [{ total }]] = await Promise.all([
+      prisma.$queryRaw<{ id: string; sortValue: unknown }[]>(page),
+      prisma.$queryRaw<{ total: number }[]>(count),
+    ]);
+
+    const pageRows = rows.slice(0, listQuery.limit);
+    const lastRow = rows.length > listQuery.limit ? pageRows[pageRows.length - 1] : null;
+    const pageIds = pageRows.map((row) => row.id);
+    const tableFields = inventory.fields.filter(
+      (field) => field.showInTable && field.type !== "ATTACHMENT",
+    );
+
+    const user = await getCurrentUser(req);
 
     const [items, userLikes] = await Promise.all([
       prisma.item.findMany({
-        where: { inventoryId },
-        orderBy: { createdAt: "desc" },
+        where: { id: { in: pageIds } },
         include: {
           createdBy: { select: { name: true, email: true } },
           _count: { select: { likes: true } },
+          fieldValues: { where: { fieldId: { in: tableFields.map((field) => field.id) } } },
         },
       }),
       user
         ? prisma.itemLike.findMany({
             where: {
               userId: user.id,
-              item: { inventoryId },
+              itemId: { in: pageIds },
             },
             select: { itemId: true },
           })
@@ -1036,16 +2423,33 @@ app.get("/api/inventories/:id/items", async (req: Request, res: Response) => {
     ]);
 
     const likedItemIds = new Set(userLikes.map((like) => like.itemId));
+    const itemsById = new Map(items.map((item) => [item.id, item]));
 
     res.json({
-      items: items.map((item) => ({
-        id: item.id,
-        customId: item.customId,
-        createdByName: item.createdBy.name ?? item.createdBy.email,
-        createdAt: item.createdAt,
-        likesCount: item._count.likes,
-        likedByCurrentUser: likedItemIds.has(item.id),
-      })),
+      columns: tableFields.map((field) => ({ id: field.id, title: field.title, type: field.type })),
+      total,
+      nextCursor: lastRow ? encodeItemCursor(lastRow.sortValue, lastRow.id) : null,
+      items: pageIds
+        .map((id) => itemsById.get(id))
+        .filter(Boolean)
+        .map((item) => {
+          const valuesByField = new Map(item.fieldValues.map((value) => [value.fieldId, value]));
+          return {
+            id: item.id,
+            customId: item.customId,
+            createdByName: item.createdBy.name ?? item.createdBy.email,
+            createdAt: item.createdAt,
+            likesCount: item._count.likes,
+            likedByCurrentUser: likedItemIds.has(item.id),
+            // Display text of every column, keyed by field id; null when the item has no value.
+            values: Object.fromEntries(
+              tableFields.map((field) => {
+                const value = valuesByField.get(field.id);
+                return [field.id, value ? formatFieldValue(value, field.type) : null];
+              }),
+            ),
+          };
+        }),
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1057,16 +2461,17 @@ app.get("/api/inventories/:id/items", async (req: Request, res: Response) => {
 app.post("/api/inventories/:id/items", async (req: Request, res: Response) => {
   try {
     const inventoryId = req.params.id;
-    const { customId, createdByEmail } = (req.body ?? {}) as {
-      customId?: string;
-      createdByEmail?: string;
-    };
+    const { customId, fields }: ItemCreatePayload = req.body ?? {};
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
       include: {
         owner: true,
         writeAccess: true,
+        fields: {
+          orderBy: { orderIndex: "asc" },
+          include: { options: { orderBy: { orderIndex: "asc" } } },
+        },
       },
     });
 
@@ -1087,34 +2492,45 @@ app.post("/api/inventories/:id/items", async (req: Request, res: Response) => {
       return res.status(403).json({ message: "No permission to add items to this inventory." });
     }
 
-    try {
-      const generatedId = customId ?? (await generateCustomIdForInventory(inventory.id));
+    if (rejectArchived(inventory, res)) return;
 
-      const item = await prisma.item.create({
-        data: {
-          inventoryId: inventory.id,
-          customId: generatedId,
-          createdById: user.id,
-        },
-        include: {
-          createdBy: { select: { name: true, email: true } },
-        },
-      });
+    // A new item has no files yet, so required attachment fields are only enforced on update.
+    const { values: sanitizedFields, errors: fieldErrors } = sanitizeItemFieldValues(
+      fields,
+      inventory.fields,
+      null,
+    );
 
-      res.status(201).json({
-        id: item.id,
-        customId: item.customId,
-        createdByName: item.createdBy.name ?? item.createdBy.email,
-        createdAt: item.createdAt,
+    if (fieldErrors.length > 0) {
+      return res.status(400).json({
+        message: "Some field values are invalid.",
+        errors: fieldErrors,
       });
-    } catch (err) {
-      // Unique constraint violation on (inventoryId, customId)
-      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
-        return res.status(409).json({
-          message: "Custom ID already exists in this inventory. Please choose another value.",
-        });
+    }
+
+    if (customId !== undefined) {
+      const customIdError = await checkCustomIdFormat(inventory.id, customId);
+      if (customIdError) {
+        return res.status(400).json({ message: customIdError });
+      }
+    }
+
+    // A generated ID can still collide with a concurrent create; that create is retried.
+    const attempts = customId ? 1 : CUSTOM_ID_ATTEMPTS;
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        const item = await createItemWithValues(inventory, user.id, customId, sanitizedFields);
+        return res.status(201).json(toItemDto(item));
+      } catch (err) {
+        // Unique constraint violation on (inventoryId, customId)
+        if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+          if (attempt < attempts) continue;
+          return res.status(409).json({
+            message: "Custom ID already exists in this inventory. Please choose another value.",
+          });
+        }
+        throw err;
       }
-      throw err;
     }
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1123,209 +2539,824 @@ app.post("/api/inventories/:id/items", async (req: Request, res: Response) => {
   }
 });
 
-app.get("/api/items/:id", async (req: Request, res: Response) => {
+app.delete("/api/inventories/:id/items", async (req: Request, res: Response) => {
   try {
-    const itemId = req.params.id;
+    const inventoryId = req.params.id;
+    const { itemIds }: ItemIdsPayload = req.body ?? {};
 
-    const item = await prisma.item.findUnique({
-      where: { id: itemId },
-      include: {
-        createdBy: { select: { name: true, email: true } },
-        fieldValues: {
-          include: {
-            field: true,
-          },
-        },
-        inventory: {
-          select: {
-            id: true,
-          },
-        },
-      },
+    if (!itemIds || itemIds.length === 0) {
+      return res.status(400).json({ message: "itemIds are required" });
+    }
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      include: { writeAccess: true },
     });
 
-    if (!item) {
-      return res.status(404).json({ message: "Item not found" });
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
     }
 
-    res.json({
-      id: item.id,
-      inventoryId: item.inventory.id,
-      customId: item.customId,
-      version: item.version,
-      createdAt: item.createdAt,
-      createdByName: item.createdBy.name ?? item.createdBy.email,
-      fields: item.fieldValues.map((value) => ({
-        fieldId: value.fieldId,
-        title: value.field.title,
-        type: value.field.type,
-        description: value.field.description,
-        valueString: value.valueString,
-        valueNumber: value.valueNumber,
-        valueBoolean: value.valueBoolean,
-        valueLink: value.valueLink,
-      })),
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const canWrite =
+      user.role === "ADMIN" ||
+      inventory.ownerId === user.id ||
+      inventory.isPublic ||
+      inventory.writeAccess.some((wa) => wa.userId === user.id);
+
+    if (!canWrite) {
+      return res.status(403).json({ message: "No permission to delete items in this inventory." });
+    }
+
+    if (rejectArchived(inventory, res)) return;
+
+    const { count } = await prisma.item.updateMany({
+      where: { id: { in: itemIds }, inventoryId, deletedAt: null },
+      data: { deletedAt: new Date(), version: { increment: 1 } },
     });
+
+    res.json({ trashed: count });
   } catch (error) {
     // eslint-disable-next-line no-console
-    console.error("Error in GET /api/items/:id", error);
-    res.status(500).json({ message: "Failed to load item" });
+    console.error("Error in DELETE /api/inventories/:id/items", error);
+    res.status(500).json({ message: "Failed to delete items" });
   }
 });
 
-app.patch("/api/items/:id", async (req: Request, res: Response) => {
+app.get("/api/inventories/:id/trash", async (req: Request, res: Response) => {
   try {
-    const itemId = req.params.id;
-    const { customId, version, fields }: ItemUpdatePayload = req.body ?? {};
+    const inventoryId = req.params.id;
 
-    const current = await prisma.item.findUnique({
-      where: { id: itemId },
-      include: {
-        inventory: {
-          select: { id: true },
-        },
-        createdBy: {
-          select: { name: true, email: true },
-        },
-        fieldValues: {
-          include: {
-            field: true,
-          },
-        },
-      },
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      include: { writeAccess: true },
     });
 
-    if (!current) {
-      return res.status(404).json({ message: "Item not found" });
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
     }
 
-    if (version !== current.version) {
-      return res.status(409).json({
-        message: "Item has been modified by someone else.",
-        current: {
-          id: current.id,
-          inventoryId: current.inventory.id,
-          customId: current.customId,
-          version: current.version,
-          createdAt: current.createdAt,
-          createdByName: current.createdBy.name ?? current.createdBy.email,
-          fields: current.fieldValues.map((value) => ({
-            fieldId: value.fieldId,
-            title: value.field.title,
-            type: value.field.type,
-            description: value.field.description,
-            valueString: value.valueString,
-            valueNumber: value.valueNumber,
-            valueBoolean: value.valueBoolean,
-            valueLink: value.valueLink,
-          })),
-        },
-      });
-    }
+    const user = await requireUser(req, res);
+    if (!user) return;
 
-    const sanitizedFields: ItemFieldValuePayload[] | null = Array.isArray(fields)
-      ? fields.map((field) => ({
-          fieldId: field.fieldId,
-          valueString: field.valueString ?? null,
-          valueNumber:
-            typeof field.valueNumber === "number" && !Number.isNaN(field.valueNumber)
-              ? field.valueNumber
-              : null,
-          valueBoolean:
-            typeof field.valueBoolean === "boolean" ? field.valueBoolean : null,
-          valueLink: field.valueLink ?? null,
-        }))
-      : null;
+    const canWrite =
+      user.role === "ADMIN" ||
+      inventory.ownerId === user.id ||
+      inventory.isPublic ||
+      inventory.writeAccess.some((wa) => wa.userId === user.id);
 
-    try {
-      const updated = await prisma.$transaction(async (tx) => {
-        const updatedItem = await tx.item.update({
-          where: { id: itemId },
-          data: {
-            customId: customId ?? current.customId,
-            version: {
-              increment: 1,
-            },
-          },
-        });
+    if (!canWrite) {
+      return res.status(403).json({ message: "No permission to view this trash." });
+    }
 
-        if (sanitizedFields) {
-          await tx.itemFieldValue.deleteMany({
-            where: { itemId },
-          });
+    const items = await prisma.item.findMany({
+      where: { inventoryId, deletedAt: { not: null } },
+      orderBy: { deletedAt: "desc" },
+      include: {
+        createdBy: { select: { name: true, email: true } },
+      },
+    });
 
-          const valuesToCreate = sanitizedFields
-            .filter(
-              (field) =>
-                field.valueString !== null ||
-                field.valueNumber !== null ||
-                field.valueBoolean !== null ||
-                field.valueLink !== null,
-            )
-            .map((field) => ({
-              itemId,
-              fieldId: field.fieldId,
-              valueString: field.valueString,
-              valueNumber: field.valueNumber,
-              valueBoolean: field.valueBoolean,
-              valueLink: field.valueLink,
-            }));
+    res.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      items: items.map((item) => ({
+        id: item.id,
+        customId: item.customId,
+        createdByName: item.createdBy.name ?? item.createdBy.email,
+        createdAt: item.createdAt,
+        deletedAt: item.deletedAt,
+        purgeAt: getTrashPurgeDate(item.deletedAt),
+      })),
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/inventories/:id/trash", error);
+    res.status(500).json({ message: "Failed to load trash" });
+  }
+});
 
-          if (valuesToCreate.length > 0) {
-            await tx.itemFieldValue.createMany({
-              data: valuesToCreate,
+app.post("/api/inventories/:id/trash/restore", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const { itemIds }: ItemIdsPayload = req.body ?? {};
+
+    if (!itemIds || itemIds.length === 0) {
+      return res.status(400).json({ message: "itemIds are required" });
+    }
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      include: { writeAccess: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const canWrite =
+      user.role === "ADMIN" ||
+      inventory.ownerId === user.id ||
+      inventory.isPublic ||
+      inventory.writeAccess.some((wa) => wa.userId === user.id);
+
+    if (!canWrite) {
+      return res.status(403).json({ message: "No permission to restore items in this inventory." });
+    }
+
+    if (rejectArchived(inventory, res)) return;
+
+    const { count } = await prisma.item.updateMany({
+      where: { id: { in: itemIds }, inventoryId, deletedAt: { not: null } },
+      data: { deletedAt: null, version: { increment: 1 } },
+    });
+
+    res.json({ restored: count });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/trash/restore", error);
+    res.status(500).json({ message: "Failed to restore items" });
+  }
+});
+
+// Permanent deletion is limited to the owner and admins, like other destructive settings.
+app.delete("/api/inventories/:id/trash", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const { itemIds }: ItemIdsPayload = req.body ?? {};
+
+    if (!itemIds || itemIds.length === 0) {
+      return res.status(400).json({ message: "itemIds are required" });
+    }
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true, archivedAt: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "Only the owner or an admin can empty the trash." });
+    }
+
+    if (rejectArchived(inventory, res)) return;
+
+    // Only items that are already in the trash of this inventory can be deleted for good.
+    const trashed = await prisma.item.findMany({
+      where: { id: { in: itemIds }, inventoryId, deletedAt: { not: null } },
+      select: { id: true },
+    });
+
+    const count = await deleteItemsPermanently(trashed.map((item) => item.id));
+
+    res.json({ deleted: count });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in DELETE /api/inventories/:id/trash", error);
+    res.status(500).json({ message: "Failed to delete items" });
+  }
+});
+
+// Registered before /api/items/:id so "lookup" is not taken for an item id.
+app.get("/api/items/lookup", async (req: Request, res: Response) => {
+  try {
+    const customId = typeof req.query.customId === "string" ? req.query.customId.trim() : "";
+    const inventoryId =
+      typeof req.query.inventoryId === "string" && req.query.inventoryId
+        ? req.query.inventoryId
+        : null;
+
+    const key = normalizeCustomId(customId);
+    if (!key) {
+      return res.status(400).json({ message: "Enter a custom ID to look up." });
+    }
+
+    if (inventoryId) {
+      const inventory = await prisma.inventory.findUnique({
+        where: { id: inventoryId },
+        select: { id: true },
+      });
+      if (!inventory) {
+        return res.status(404).json({ message: "Inventory not found" });
+      }
+    }
+
+    const matches = await prisma.$queryRaw<CustomIdLookupRow[]>(
+      buildCustomIdLookupSql(key, customId, inventoryId),
+    );
+
+    res.json({ matches });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/items/lookup", error);
+    res.status(500).json({ message: "Failed to look up item" });
+  }
+});
+
+app.get("/api/items/:id", async (req: Request, res: Response) => {
+  try {
+    const itemId = req.params.id;
+
+    const item = await prisma.item.findUnique({
+      where: { id: itemId },
+      include: ITEM_DTO_INCLUDE,
+    });
+
+    if (!item || item.deletedAt) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+
+    res.json(toItemDto(item));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/items/:id", error);
+    res.status(500).json({ message: "Failed to load item" });
+  }
+});
+
+app.get("/api/items/:id/barcode", async (req: Request, res: Response) => {
+  try {
+    const itemId = req.params.id;
+    const type = req.query.type === "code128" ? "code128" : "qr";
+
+    const item = await prisma.item.findUnique({
+      where: { id: itemId },
+      select: { customId: true, deletedAt: true },
+    });
+
+    if (!item || item.deletedAt) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+
+    let svg: string;
+    if (type === "code128") {
+      if (!canEncodeCode128(item.customId)) {
+        return res.status(400).json({
+          message: "Code 128 only encodes printable ASCII. Use a QR code for this ID.",
+        });
+      }
+      svg = renderCode128Svg(item.customId);
+    } else {
+      const modules = encodeQrCode(item.customId);
+      if (!modules) {
+        return res.status(400).json({ message: "Custom ID is too long for a QR code." });
+      }
+      svg = renderQrSvg(modules);
+    }
+
+    res.setHeader("Content-Type", "image/svg+xml; charset=utf-8");
+    res.send(svg);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/items/:id/barcode", error);
+    res.status(500).json({ message: "Failed to render barcode" });
+  }
+});
+
+app.patch("/api/items/:id", async (req: Request, res: Response) => {
+  try {
+    const itemId = req.params.id;
+    const { customId, version, fields }: ItemUpdatePayload = req.body ?? {};
+
+    let current = await prisma.item.findUnique({
+      where: { id: itemId },
+      include: ITEM_DTO_INCLUDE,
+    });
+
+    if (!current || current.deletedAt) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+
+    if (rejectArchived(current.inventory, res)) return;
+
+    if (typeof version !== "number" || version > current.version) {
+      return res.status(409).json({
+        message: "Item has been modified by someone else.",
+        current: toItemDto(current),
+      });
+    }
+
+    const { values: sanitizedFields, errors: fieldErrors } = sanitizeItemFieldValues(
+      fields,
+      current.inventory.fields,
+      new Set(current.attachments.map((attachment) => attachment.fieldId)),
+    );
+
+    if (fieldErrors.length > 0) {
+      return res.status(400).json({
+        message: "Some field values are invalid.",
+        errors: fieldErrors,
+      });
+    }
+
+    // Existing IDs stay valid after a format change; only a new value has to match the format.
+    if (customId !== undefined && customId !== current.customId) {
+      const customIdError = await checkCustomIdFormat(current.inventory.id, customId);
+      if (customIdError) {
+        return res.status(400).json({ message: customIdError });
+      }
+    }
+
+    const user = await getCurrentUser(req);
+
+    // The update only applies to the version it was merged against. When someone else saves in
+    // between, their version is loaded and the edit is merged again on top of it.
+    for (let attempt = 1; ; attempt += 1) {
+      let nextCustomId = customId ?? current.customId;
+      let nextFields = sanitizedFields;
+
+      if (version !== current.version) {
+        const merge = await mergeConcurrentItemEdit(current, version, customId, sanitizedFields);
+
+        if (merge.conflicts.length > 0 || merge.customIdConflict) {
+          const fieldTypes = new Map(
+            current.inventory.fields.map((field) => [field.id, field.type]),
+          );
+          return res.status(409).json({
+            message: "Item has been modified by someone else. Resolve the conflicting fields.",
+            current: toItemDto(current),
+            baseVersion: version,
+            baseKnown: merge.baseKnown,
+            merged: {
+              customId: merge.customId,
+              fields: merge.values.map((value) => ({
+                fieldId: value.fieldId,
+                ...toMergeValueDto(toRevisionValue(value), fieldTypes.get(value.fieldId)),
+              })),
+            },
+            conflicts: merge.conflicts.map((conflict) => ({
+              fieldId: conflict.fieldId,
+              title: conflict.title,
+              type: conflict.type,
+              base: toMergeValueDto(conflict.base, conflict.type),
+              mine: toMergeValueDto(conflict.mine, conflict.type),
+              theirs: toMergeValueDto(conflict.theirs, conflict.type),
+            })),
+            customIdConflict: merge.customIdConflict,
+          });
+        }
+
+        nextCustomId = merge.customId;
+        nextFields = merge.values;
+      }
+
+      const loaded = current;
+      let updated: ItemDtoSource | null;
+      try {
+        updated = await prisma.$transaction(async (tx) => {
+          const { count } = await tx.item.updateMany({
+            where: { id: itemId, version: loaded.version, deletedAt: null },
+            data: {
+              customId: nextCustomId,
+              version: {
+                increment: 1,
+              },
+            },
+          });
+          if (count === 0) return null;
+
+          if (nextFields) {
+            await tx.itemFieldValue.deleteMany({
+              where: { itemId },
             });
+
+            const valuesToCreate = toFieldValueRows(itemId, nextFields);
+
+            if (valuesToCreate.length > 0) {
+              await tx.itemFieldValue.createMany({
+                data: valuesToCreate,
+              });
+            }
           }
+
+          await recordItemRevision(tx, {
+            itemId,
+            version: loaded.version + 1,
+            authorId: user?.id ?? null,
+            customIdBefore: loaded.customId,
+            customIdAfter: nextCustomId,
+            changes: nextFields
+              ? diffItemValues(
+                  loaded.inventory.fields,
+                  toFieldValueMap(loaded.fieldValues),
+                  toFieldValueMap(nextFields.filter((field) => hasFieldValue(field))),
+                )
+              : [],
+          });
+
+          return tx.item.findUniqueOrThrow({
+            where: { id: itemId },
+            include: ITEM_DTO_INCLUDE,
+          });
+        });
+      } catch (err) {
+        if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+          return res.status(409).json({
+            message: "Custom ID already exists in this inventory. Please choose another value.",
+          });
         }
+        throw err;
+      }
+
+      if (updated) {
+        return res.json(toItemDto(updated));
+      }
+
+      current = await prisma.item.findUnique({
+        where: { id: itemId },
+        include: ITEM_DTO_INCLUDE,
+      });
+      if (!current || current.deletedAt) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (attempt >= MAX_ITEM_SAVE_ATTEMPTS) {
+        return res.status(409).json({
+          message: "Item has been modified by someone else.",
+          current: toItemDto(current),
+        });
+      }
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PATCH /api/items/:id", error);
+    res.status(500).json({ message: "Failed to update item" });
+  }
+});
+
+app.get("/api/items/:id/revisions", async (req: Request, res: Response) => {
+  try {
+    const itemId = req.params.id;
+
+    const item = await prisma.item.findUnique({
+      where: { id: itemId },
+      select: { id: true, deletedAt: true },
+    });
+
+    if (!item || item.deletedAt) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+
+    const revisions = await prisma.itemRevision.findMany({
+      where: { itemId },
+      orderBy: { createdAt: "desc" },
+      include: REVISION_DTO_INCLUDE,
+    });
+
+    res.json({ revisions: revisions.map(toRevisionDto) });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/items/:id/revisions", error);
+    res.status(500).json({ message: "Failed to load item history" });
+  }
+});
+
+// Puts back the values a revision replaced. The revert is saved as a new revision, so it can be
+// reverted itself.
+app.post("/api/items/:id/revisions/:revisionId/revert", async (req: Request, res: Response) => {
+  try {
+    const { id: itemId, revisionId } = req.params;
+    const { version } = (req.body ?? {}) as { version?: number };
+
+    const current = await prisma.item.findUnique({
+      where: { id: itemId },
+      include: {
+        ...ITEM_DTO_INCLUDE,
+        inventory: {
+          select: {
+            ...ITEM_DTO_INCLUDE.inventory.select,
+            ownerId: true,
+            isPublic: true,
+            writeAccess: { select: { userId: true } },
+          },
+        },
+      },
+    });
+
+    if (!current || current.deletedAt) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const canWrite =
+      user.role === "ADMIN" ||
+      current.inventory.ownerId === user.id ||
+      current.inventory.isPublic ||
+      current.inventory.writeAccess.some((wa) => wa.userId === user.id);
+
+    if (!canWrite) {
+      return res.status(403).json({ message: "No permission to edit items in this inventory." });
+    }
+
+    if (rejectArchived(current.inventory, res)) return;
+
+    if (typeof version !== "number" || version !== current.version) {
+      return res.status(409).json({
+        message: "Item has been modified by someone else.",
+        current: toItemDto(current),
+      });
+    }
+
+    const revision = await prisma.itemRevision.findFirst({
+      where: { id: revisionId, itemId },
+    });
+
+    if (!revision) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+
+    // Fields that were removed or changed type since the revision cannot take the old value back.
+    const fieldsById = new Map(current.inventory.fields.map((field) => [field.id, field]));
+    const before = toFieldValueMap(current.fieldValues);
+    const next = new Map(before);
+    const changes: RevisionFieldChange[] = Array.isArray(revision.changes) ? revision.changes : [];
+
+    for (const change of changes) {
+      const field = fieldsById.get(change.fieldId);
+      if (!field || field.type !== change.type) continue;
+
+      const value = fromRevisionValue(change.before);
+      if (isSelectFieldType(field.type)) {
+        const labels = field.options.map((option) => option.label);
+        value.valueString = value.valueString ? matchOptionLabel(value.valueString, labels) : null;
+        value.valueOptions = value.valueOptions.filter((label) => labels.includes(label));
+      }
+      next.set(field.id, { ...value, fieldId: field.id });
+    }
+
+    // The restored values have to pass the field's current rules, like any other save.
+    const { values: sanitizedFields, errors: fieldErrors } = sanitizeItemFieldValues(
+      [...next.values()].filter((value) => hasFieldValue(value)),
+      current.inventory.fields,
+      new Set(current.attachments.map((attachment) => attachment.fieldId)),
+    );
+    if (fieldErrors.length > 0) {
+      return res.status(400).json({
+        message: "The values of this revision are no longer valid.",
+        errors: fieldErrors,
+      });
+    }
+
+    const reverted = toFieldValueMap(sanitizedFields);
+    const revertedChanges = diffItemValues(current.inventory.fields, before, reverted);
+    const nextCustomId = revision.customIdBefore ?? current.customId;
+
+    if (revertedChanges.length === 0 && nextCustomId === current.customId) {
+      return res.status(400).json({ message: "The item already has the values of this revision." });
+    }
+
+    if (nextCustomId !== current.customId) {
+      const customIdError = await checkCustomIdFormat(current.inventory.id, nextCustomId);
+      if (customIdError) {
+        return res.status(400).json({ message: customIdError });
+      }
+    }
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.item.updateMany({
+          where: { id: itemId, version: current.version, deletedAt: null },
+          data: {
+            customId: nextCustomId,
+            version: { increment: 1 },
+          },
+        });
+        if (count === 0) return null;
+
+        const changedFieldIds = revertedChanges.map((change) => change.fieldId);
+        if (changedFieldIds.length > 0) {
+          await tx.itemFieldValue.deleteMany({
+            where: { itemId, fieldId: { in: changedFieldIds } },
+          });
+
+          const valuesToCreate = toFieldValueRows(
+            itemId,
+            changedFieldIds.map((fieldId) => reverted.get(fieldId)).filter(Boolean),
+          );
+          if (valuesToCreate.length > 0) {
+            await tx.itemFieldValue.createMany({ data: valuesToCreate });
+          }
+        }
+
+        await recordItemRevision(tx, {
+          itemId,
+          version: current.version + 1,
+          authorId: user.id,
+          customIdBefore: current.customId,
+          customIdAfter: nextCustomId,
+          changes: revertedChanges,
+          revertOfId: revision.id,
+        });
 
         return tx.item.findUniqueOrThrow({
-          where: { id: updatedItem.id },
+          where: { id: itemId },
+          include: ITEM_DTO_INCLUDE,
+        });
+      });
+
+      if (!updated) {
+        const latest = await prisma.item.findUnique({
+          where: { id: itemId },
+          include: ITEM_DTO_INCLUDE,
+        });
+        return res.status(409).json({
+          message: "Item has been modified by someone else.",
+          current: latest && !latest.deletedAt ? toItemDto(latest) : undefined,
+        });
+      }
+
+      res.json(toItemDto(updated));
+    } catch (err) {
+      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+        return res.status(409).json({
+          message: "Custom ID already exists in this inventory. Please choose another value.",
+        });
+      }
+      throw err;
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/items/:id/revisions/:revisionId/revert", error);
+    res.status(500).json({ message: "Failed to revert item" });
+  }
+});
+
+app.post("/api/items/:id/fields/:fieldId/attachments", async (req: Request, res: Response) => {
+  try {
+    const { id: itemId, fieldId } = req.params;
+
+    const item = await prisma.item.findUnique({
+      where: { id: itemId },
+      include: {
+        inventory: {
           include: {
-            inventory: {
-              select: { id: true },
-            },
-            createdBy: {
-              select: { name: true, email: true },
-            },
-            fieldValues: {
-              include: {
-                field: true,
-              },
-            },
+            writeAccess: true,
+            fields: { where: { id: fieldId } },
           },
-        });
+        },
+      },
+    });
+
+    if (!item || item.deletedAt) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+
+    const field = item.inventory.fields[0];
+    if (!field || field.type !== "ATTACHMENT") {
+      return res.status(404).json({ message: "Attachment field not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const canWrite =
+      user.role === "ADMIN" ||
+      item.inventory.ownerId === user.id ||
+      item.inventory.isPublic ||
+      item.inventory.writeAccess.some((wa) => wa.userId === user.id);
+
+    if (!canWrite) {
+      return res.status(403).json({ message: "No permission to edit items in this inventory." });
+    }
+
+    if (rejectArchived(item.inventory, res)) return;
+
+    try {
+      await receiveAttachmentUpload(req, res);
+    } catch (err) {
+      if (err instanceof multer.MulterError) {
+        if (err.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({
+            message: `File is too large. Maximum size is ${ATTACHMENT_MAX_SIZE_MB} MB.`,
+          });
+        }
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "File is required." });
+    }
+
+    const mimeType = file.mimetype.toLowerCase();
+    if (!ATTACHMENT_ALLOWED_TYPES.includes(mimeType)) {
+      return res.status(415).json({ message: `Files of type ${mimeType} are not allowed.` });
+    }
+
+    const storageKey = `${item.inventoryId}/${item.id}/${crypto.randomUUID()}`;
+    await fileStorage.save(storageKey, file.buffer);
+
+    try {
+      const attachment = await prisma.itemAttachment.create({
+        data: {
+          itemId: item.id,
+          fieldId: field.id,
+          storageKey,
+          fileName: file.originalname || "file",
+          mimeType,
+          size: file.size,
+        },
       });
 
-      res.json({
-        id: updated.id,
-        inventoryId: updated.inventory.id,
-        customId: updated.customId,
-        version: updated.version,
-        createdAt: updated.createdAt,
-        createdByName: updated.createdBy.name ?? updated.createdBy.email,
-        fields: updated.fieldValues.map((value) => ({
-          fieldId: value.fieldId,
-          title: value.field.title,
-          type: value.field.type,
-          description: value.field.description,
-          valueString: value.valueString,
-          valueNumber: value.valueNumber,
-          valueBoolean: value.valueBoolean,
-          valueLink: value.valueLink,
-        })),
-      });
-    } catch (err) {
-      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
-        return res.status(409).json({
-          message: "Custom ID already exists in this inventory. Please choose another value.",
-        });
-      }
-      throw err;
+      res.status(201).json(toAttachmentDto(attachment));
+    } catch (err) {
+      await removeStoredFiles([storageKey]);
+      throw err;
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/items/:id/fields/:fieldId/attachments", error);
+    res.status(500).json({ message: "Failed to upload attachment" });
+  }
+});
+
+app.get("/api/attachments/:id", async (req: Request, res: Response) => {
+  try {
+    const attachment = await prisma.itemAttachment.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    const stream = await fileStorage.read(attachment.storageKey);
+    if (!stream) {
+      return res.status(404).json({ message: "Attachment file is missing" });
+    }
+
+    // Only images are shown inline (thumbnails); everything else is always downloaded.
+    const inline = req.query.inline === "1" && attachment.mimeType.startsWith("image/");
+
+    res.setHeader("Content-Type", attachment.mimeType);
+    res.setHeader("Content-Length", String(attachment.size));
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader(
+      "Content-Disposition",
+      contentDisposition(attachment.fileName, { type: inline ? "inline" : "attachment" }),
+    );
+
+    stream.on("error", (error) => {
+      // eslint-disable-next-line no-console
+      console.error("Error streaming attachment", attachment.id, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/attachments/:id", error);
+    res.status(500).json({ message: "Failed to download attachment" });
+  }
+});
+
+app.delete("/api/attachments/:id", async (req: Request, res: Response) => {
+  try {
+    const attachment = await prisma.itemAttachment.findUnique({
+      where: { id: req.params.id },
+      include: { item: { include: { inventory: { include: { writeAccess: true } } } } },
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const inventory = attachment.item.inventory;
+    const canWrite =
+      user.role === "ADMIN" ||
+      inventory.ownerId === user.id ||
+      inventory.isPublic ||
+      inventory.writeAccess.some((wa) => wa.userId === user.id);
+
+    if (!canWrite) {
+      return res.status(403).json({ message: "No permission to edit items in this inventory." });
     }
+
+    if (rejectArchived(inventory, res)) return;
+
+    const fileKeys = await deleteAttachmentRows(prisma, { id: attachment.id });
+    await removeStoredFiles(fileKeys);
+
+    res.status(204).send();
   } catch (error) {
     // eslint-disable-next-line no-console
-    console.error("Error in PATCH /api/items/:id", error);
-    res.status(500).json({ message: "Failed to update item" });
+    console.error("Error in DELETE /api/attachments/:id", error);
+    res.status(500).json({ message: "Failed to delete attachment" });
   }
 });
 
@@ -1335,7 +3366,18 @@ app.get("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true },
+      select: {
+        id: true,
+        category: true,
+        nextSequence: true,
+        allowFreeFormCustomIds: true,
+        // Fields a FIELD_VALUE element can take its value from.
+        fields: {
+          where: { type: { not: "ATTACHMENT" } },
+          orderBy: { orderIndex: "asc" },
+          select: { id: true, title: true, type: true },
+        },
+      },
     });
 
     if (!inventory) {
@@ -1349,6 +3391,10 @@ app.get("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
 
     res.json({
       elements,
+      nextSequence: inventory.nextSequence,
+      allowFreeForm: inventory.allowFreeFormCustomIds,
+      categoryCode: CATEGORY_CODES[inventory.category],
+      fields: inventory.fields,
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1360,11 +3406,14 @@ app.get("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
 app.put("/api/inventories/:id/custom-id", async (req: Request, res: Response) => {
   try {
     const inventoryId = req.params.id;
-    const { elements } = (req.body ?? {}) as { elements?: CustomIdElementPayload[] };
+    const { elements, allowFreeForm } = (req.body ?? {}) as {
+      elements?: CustomIdElementPayload[];
+      allowFreeForm?: boolean;
+    };
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true, ownerId: true },
+      select: { id: true, ownerId: true, archivedAt: true, allowFreeFormCustomIds: true },
     });
 
     if (!inventory) {
@@ -1377,10 +3426,56 @@ app.put("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
       return res.status(403).json({ message: "No permission to edit custom ID format." });
     }
 
+    if (rejectArchived(inventory, res)) return;
+
+    const nextAllowFreeForm =
+      typeof allowFreeForm === "boolean" ? allowFreeForm : inventory.allowFreeFormCustomIds;
+    if (nextAllowFreeForm !== inventory.allowFreeFormCustomIds) {
+      await prisma.inventory.update({
+        where: { id: inventoryId },
+        data: { allowFreeFormCustomIds: nextAllowFreeForm },
+      });
+    }
+
     if (!elements || elements.length === 0) {
       await prisma.inventoryCustomIdElement.deleteMany({ where: { inventoryId } });
 
-      return res.json({ elements: [] });
+      return res.json({ elements: [], allowFreeForm: nextAllowFreeForm });
+    }
+
+    const valueFields = await prisma.inventoryField.findMany({
+      where: { inventoryId, type: { not: "ATTACHMENT" } },
+      select: { id: true },
+    });
+    const valueFieldIds = new Set(valueFields.map((field) => field.id));
+
+    if (
+      elements.some(
+        (element) => element.type === "FIELD_VALUE" && !valueFieldIds.has(element.fieldId),
+      )
+    ) {
+      return res.status(400).json({ message: "Choose a field for every field value element." });
+    }
+    if (elements[0].type === "CHECK_DIGIT") {
+      return res.status(400).json({ message: "A check digit needs elements before it." });
+    }
+    for (const element of elements) {
+      if (element.type !== "DATETIME") continue;
+      const dateFormat = element.dateFormat?.trim();
+      if (dateFormat && dateFormat.length > MAX_DATE_FORMAT_LENGTH) {
+        return res.status(400).json({
+          message: `Date format can have at most ${MAX_DATE_FORMAT_LENGTH} characters.`,
+        });
+      }
+      if (dateFormat && !hasDateTokens(dateFormat)) {
+        return res.status(400).json({
+          message: "Date format needs at least one of YYYY, YY, MM, DD, DDD, HH, mm or ss.",
+        });
+      }
+      const timeZone = element.timeZone?.trim();
+      if (timeZone && !isValidTimeZone(timeZone)) {
+        return res.status(400).json({ message: `Unknown time zone: ${timeZone}` });
+      }
     }
 
     const sanitizedElements: CustomIdElementPayload[] = elements.map((element, index) => ({
@@ -1388,6 +3483,16 @@ app.put("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
       orderIndex: typeof element.orderIndex === "number" ? element.orderIndex : index,
       fixedText: element.fixedText ?? null,
       numberWidth: element.numberWidth ?? null,
+      fieldId: element.type === "FIELD_VALUE" ? element.fieldId : null,
+      upperCase: element.type === "FIELD_VALUE" && Boolean(element.upperCase),
+      checkDigit:
+        element.type === "CHECK_DIGIT"
+          ? element.checkDigit === "MOD_11"
+            ? "MOD_11"
+            : "LUHN"
+          : null,
+      dateFormat: element.type === "DATETIME" ? element.dateFormat?.trim() || null : null,
+      timeZone: element.type === "DATETIME" ? element.timeZone?.trim() || null : null,
     }));
 
     await prisma.$transaction(async (tx) => {
@@ -1400,6 +3505,11 @@ app.put("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
           orderIndex: element.orderIndex ?? index,
           fixedText: element.fixedText,
           numberWidth: element.numberWidth,
+          fieldId: element.fieldId,
+          upperCase: element.upperCase,
+          checkDigit: element.checkDigit,
+          dateFormat: element.dateFormat,
+          timeZone: element.timeZone,
         })),
       });
     });
@@ -1411,6 +3521,7 @@ app.put("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
 
     res.json({
       elements: updatedElements,
+      allowFreeForm: nextAllowFreeForm,
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1419,6 +3530,295 @@ app.put("/api/inventories/:id/custom-id", async (req: Request, res: Response) =>
   }
 });
 
+app.get("/api/inventories/:id/custom-id/validate", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const value = typeof req.query.value === "string" ? req.query.value : "";
+    const itemId = typeof req.query.itemId === "string" ? req.query.itemId : null;
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    if (req.query.value !== undefined && typeof req.query.value !== "string") {
+      return res.status(400).json({ message: "value must be a single string." });
+    }
+    if (value.length > MAX_CUSTOM_ID_LENGTH) {
+      return res.status(400).json({
+        message: `Custom ID cannot be longer than ${MAX_CUSTOM_ID_LENGTH} characters.`,
+      });
+    }
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const formatError = await checkCustomIdFormat(inventoryId, value);
+    if (formatError) {
+      return res.json({ valid: false, message: formatError });
+    }
+
+    const existing = await prisma.item.findUnique({
+      where: { inventoryId_customId: { inventoryId, customId: value } },
+      select: { id: true },
+    });
+    if (existing && existing.id !== itemId) {
+      return res.json({ valid: false, message: "Custom ID already exists in this inventory." });
+    }
+
+    res.json({ valid: true, message: null });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/inventories/:id/custom-id/validate", error);
+    res.status(500).json({ message: "Failed to validate custom ID" });
+  }
+});
+
+app.put("/api/inventories/:id/custom-id/sequence", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const { nextValue } = (req.body ?? {}) as { nextValue?: number };
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true, archivedAt: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "No permission to edit custom ID format." });
+    }
+
+    if (rejectArchived(inventory, res)) return;
+
+    if (!Number.isInteger(nextValue) || nextValue < 1 || nextValue > MAX_SEQUENCE_VALUE) {
+      return res.status(400).json({
+        message: "Next sequence value must be a whole number of at least 1.",
+      });
+    }
+
+    const updated = await prisma.inventory.update({
+      where: { id: inventoryId },
+      data: { nextSequence: nextValue },
+      select: { nextSequence: true },
+    });
+
+    res.json({ nextSequence: updated.nextSequence });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /api/inventories/:id/custom-id/sequence", error);
+    res.status(500).json({ message: "Failed to update sequence" });
+  }
+});
+
+// Regenerates the custom IDs of all or the selected items with the current format. A dry run only
+// lists the old and new IDs; applying writes them in one transaction and keeps the old IDs as
+// aliases, so printed labels can still be looked up.
+app.post("/api/inventories/:id/custom-id/reid", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const {
+      itemIds,
+      dryRun = false,
+      restartSequence = false,
+      planToken,
+    } = (req.body ?? {}) as {
+      itemIds?: string[];
+      dryRun?: boolean;
+      restartSequence?: boolean;
+      planToken?: string;
+    };
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true, archivedAt: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "No permission to edit custom ID format." });
+    }
+
+    if (rejectArchived(inventory, res)) return;
+
+    if (
+      itemIds !== undefined &&
+      (!Array.isArray(itemIds) || itemIds.some((itemId) => typeof itemId !== "string"))
+    ) {
+      return res.status(400).json({ message: "itemIds must be a list of item ids." });
+    }
+
+    // Applying with the token of a dry run renders exactly the IDs that run showed.
+    const shownPlan =
+      !dryRun && typeof planToken === "string" ? verifyReIdPlanToken(planToken, inventoryId) : null;
+    if (!dryRun && planToken !== undefined && !shownPlan) {
+      return res.status(400).json({ message: "The dry run has expired. Run it again." });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const format = await tx.inventory.findUniqueOrThrow({
+        where: { id: inventoryId },
+        select: {
+          category: true,
+          fields: { select: { id: true, type: true } },
+          customIdElements: { orderBy: { orderIndex: "asc" } },
+        },
+      });
+      const elements = format.customIdElements;
+      if (elements.length === 0) {
+        return { error: "Set up an ID format before regenerating IDs." };
+      }
+
+      const items = await tx.item.findMany({
+        where: { inventoryId, deletedAt: null, ...(itemIds ? { id: { in: itemIds } } : {}) },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        select: {
+          id: true,
+          customId: true,
+          createdBy: { select: { name: true, email: true } },
+          fieldValues: true,
+        },
+      });
+      if (items.length === 0) {
+        return { error: "There are no items to re-ID." };
+      }
+
+      // Items in the trash keep their IDs, so they count as taken too.
+      const keptItems = await tx.item.findMany({
+        where: { inventoryId, id: { notIn: items.map((item) => item.id) } },
+        select: { customId: true },
+      });
+      // Former IDs still find their item, so another item must not take them.
+      const aliases = await tx.itemCustomIdAlias.findMany({
+        where: { inventoryId },
+        select: { itemId: true, customId: true },
+      });
+      const aliasOwners = new Map<string, Set<string>>();
+      for (const alias of aliases) {
+        aliasOwners.set(
+          alias.customId,
+          (aliasOwners.get(alias.customId) ?? new Set()).add(alias.itemId),
+        );
+      }
+
+      const counter = await lockSequenceCounter(tx, inventoryId);
+      const firstSequence = shownPlan?.firstSequence ?? (restartSequence ? 1 : counter);
+      const now = shownPlan ? new Date(shownPlan.now) : new Date();
+      const seed = shownPlan?.seed ?? crypto.randomBytes(16).toString("hex");
+      const plan = planCustomIdChanges(
+        items.map((item) => ({
+          id: item.id,
+          customId: item.customId,
+          context: {
+            ...toCustomIdContext(format, item, now),
+            random: seededCustomIdRandom(`${seed}:${item.id}`),
+          },
+        })),
+        elements,
+        firstSequence,
+        new Set(keptItems.map((item) => item.customId)),
+        aliasOwners,
+      );
+      const digest = digestCustomIdChanges(plan.changes);
+      if (dryRun || plan.collisions.length > 0) {
+        const shown = { seed, now: now.toISOString(), firstSequence, digest };
+        return { plan, applied: false, shown };
+      }
+      // Items, values or the format changed since the dry run, so its IDs cannot be kept.
+      if (shownPlan && shownPlan.digest !== digest) {
+        return { plan, applied: false, stale: true };
+      }
+
+      const changed = plan.changes.filter((change) => change.newCustomId !== change.oldCustomId);
+
+      // Moving every item to a temporary ID first lets items swap IDs without hitting the
+      // unique index halfway through.
+      for (const change of changed) {
+        await tx.item.update({
+          where: { id: change.itemId },
+          data: { customId: `reid-${change.itemId}` },
+        });
+      }
+
+      for (const change of changed) {
+        const updated = await tx.item.update({
+          where: { id: change.itemId },
+          data: { customId: change.newCustomId, version: { increment: 1 } },
+          select: { version: true },
+        });
+        await tx.itemCustomIdAlias.create({
+          data: { itemId: change.itemId, inventoryId, customId: change.oldCustomId },
+        });
+        await recordItemRevision(tx, {
+          itemId: change.itemId,
+          version: updated.version,
+          authorId: user.id,
+          customIdBefore: change.oldCustomId,
+          customIdAfter: change.newCustomId,
+          changes: [],
+        });
+      }
+
+      if (elements.some((element) => element.type === "SEQUENCE")) {
+        await tx.$executeRaw`
+          UPDATE "Inventory"
+          SET "nextSequence" = GREATEST("nextSequence", ${firstSequence + items.length})
+          WHERE "id" = ${inventoryId}`;
+      }
+
+      return { plan, applied: true };
+    }, { timeout: REID_TRANSACTION_TIMEOUT_MS });
+
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    const body = {
+      dryRun: Boolean(dryRun),
+      applied: result.applied,
+      changes: result.plan.changes,
+      collisions: result.plan.collisions,
+      ...(dryRun && result.plan.collisions.length === 0
+        ? { planToken: createReIdPlanToken({ inventoryId, ...result.shown }) }
+        : {}),
+    };
+
+    if (result.stale) {
+      return res.status(409).json({
+        message: "Items changed since the dry run. Nothing was changed; run it again.",
+        ...body,
+      });
+    }
+
+    if (!dryRun && !result.applied) {
+      return res.status(409).json({
+        message: "Some new IDs collide. Nothing was changed.",
+        ...body,
+      });
+    }
+
+    res.json(body);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/custom-id/reid", error);
+    res.status(500).json({ message: "Failed to regenerate custom IDs" });
+  }
+});
+
 app.get("/api/inventories/:id/custom-id/preview", async (req: Request, res: Response) => {
   try {
     const inventoryId = req.params.id;
@@ -1432,7 +3832,7 @@ app.get("/api/inventories/:id/custom-id/preview", async (req: Request, res: Resp
       return res.status(404).json({ message: "Inventory not found" });
     }
 
-    const preview = await generateCustomIdForInventory(inventory.id);
+    const preview = await generateCustomIdForInventory(inventory.id, prisma, { preview: true });
 
     res.json({ preview });
   } catch (error) {
@@ -1493,7 +3893,7 @@ app.post("/api/inventories/:id/discussion", async (req: Request, res: Response)
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true },
+      select: { id: true, archivedAt: true },
     });
 
     if (!inventory) {
@@ -1503,6 +3903,8 @@ app.post("/api/inventories/:id/discussion", async (req: Request, res: Response)
     const user = await requireUser(req, res);
     if (!user) return;
 
+    if (rejectArchived(inventory, res)) return;
+
     const post = await prisma.discussionPost.create({
       data: {
         inventoryId: inventory.id,
@@ -1575,7 +3977,7 @@ app.post("/api/inventories/:id/access", async (req: Request, res: Response) => {
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true, ownerId: true },
+      select: { id: true, ownerId: true, archivedAt: true },
     });
 
     if (!inventory) {
@@ -1588,6 +3990,8 @@ app.post("/api/inventories/:id/access", async (req: Request, res: Response) => {
       return res.status(403).json({ message: "No permission to manage access for this inventory." });
     }
 
+    if (rejectArchived(inventory, res)) return;
+
     let user = null;
     if (userId) {
       user = await prisma.user.findUnique({ where: { id: userId } });
@@ -1636,7 +4040,7 @@ app.delete("/api/inventories/:id/access", async (req: Request, res: Response) =>
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true, ownerId: true },
+      select: { id: true, ownerId: true, archivedAt: true },
     });
 
     if (!inventory) {
@@ -1649,6 +4053,8 @@ app.delete("/api/inventories/:id/access", async (req: Request, res: Response) =>
       return res.status(403).json({ message: "No permission to manage access for this inventory." });
     }
 
+    if (rejectArchived(inventory, res)) return;
+
     await prisma.inventoryWriteAccess.deleteMany({
       where: {
         inventoryId,
@@ -1670,16 +4076,19 @@ app.get("/api/inventories/:id/fields", async (req: Request, res: Response) => {
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true },
+      select: { id: true, fieldLimits: true },
     });
 
     if (!inventory) {
       return res.status(404).json({ message: "Inventory not found" });
     }
 
+    const limits = await loadFieldLimits(prisma, inventory.fieldLimits);
+
     const fields = await prisma.inventoryField.findMany({
       where: { inventoryId },
       orderBy: { orderIndex: "asc" },
+      include: { options: { orderBy: { orderIndex: "asc" } } },
     });
 
     res.json({
@@ -1690,7 +4099,16 @@ app.get("/api/inventories/:id/fields", async (req: Request, res: Response) => {
         description: field.description,
         showInTable: field.showInTable,
         orderIndex: field.orderIndex,
+        options: field.options.map((option) => ({
+          id: option.id,
+          label: option.label,
+          color: option.color,
+          orderIndex: option.orderIndex,
+        })),
+        rules: pickValidationRules(field),
       })),
+      limits,
+      limitOverrides: sanitizeFieldLimitOverrides(inventory.fieldLimits).limits,
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1699,14 +4117,14 @@ app.get("/api/inventories/:id/fields", async (req: Request, res: Response) => {
   }
 });
 
-app.put("/api/inventories/:id/fields", async (req: Request, res: Response) => {
+app.post("/api/inventories/:id/fields/preview", async (req: Request, res: Response) => {
   try {
     const inventoryId = req.params.id;
     const { fields } = (req.body ?? {}) as { fields?: InventoryFieldPayload[] };
 
     const inventory = await prisma.inventory.findUnique({
       where: { id: inventoryId },
-      select: { id: true, ownerId: true },
+      select: { id: true, ownerId: true, fieldLimits: true },
     });
 
     if (!inventory) {
@@ -1719,75 +4137,233 @@ app.put("/api/inventories/:id/fields", async (req: Request, res: Response) => {
       return res.status(403).json({ message: "No permission to edit fields for this inventory." });
     }
 
-    if (!fields || fields.length === 0) {
-      await prisma.inventoryField.deleteMany({ where: { inventoryId } });
-      return res.json({ fields: [] });
+    const limits = await loadFieldLimits(prisma, inventory.fieldLimits);
+    const { error, fields: sanitized } = sanitizeFieldPayloads(fields ?? [], limits);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    const limits: Record<InventoryFieldType, number> = {
-      SINGLE_LINE_TEXT: 3,
-      MULTI_LINE_TEXT: 3,
-      NUMBER: 3,
-      LINK: 3,
-      BOOLEAN: 3,
-    };
+    const preview = await buildFieldMigrationPreview(prisma, inventoryId, sanitized);
+
+    res.json(preview);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/fields/preview", error);
+    res.status(500).json({ message: "Failed to preview field changes" });
+  }
+});
 
-    const counters: Record<InventoryFieldType, number> = {
-      SINGLE_LINE_TEXT: 0,
-      MULTI_LINE_TEXT: 0,
-      NUMBER: 0,
-      LINK: 0,
-      BOOLEAN: 0,
+app.put("/api/inventories/:id/fields", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const { fields, confirmDataLoss } = (req.body ?? {}) as {
+      fields?: InventoryFieldPayload[];
+      confirmDataLoss?: boolean;
     };
 
-    for (const field of fields) {
-      const type = field.type;
-      if (!limits[type]) {
-        return res.status(400).json({ message: `Unsupported field type: ${type}` });
-      }
-      if (!field.title || !field.title.trim()) {
-        return res.status(400).json({ message: "Field title is required for all fields." });
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true, ownerId: true, fieldLimits: true, archivedAt: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (user.role !== "ADMIN" && inventory.ownerId !== user.id) {
+      return res.status(403).json({ message: "No permission to edit fields for this inventory." });
+    }
+
+    if (rejectArchived(inventory, res)) return;
+
+    const limits = await loadFieldLimits(prisma, inventory.fieldLimits);
+    const { error, fields: sanitized } = sanitizeFieldPayloads(fields ?? [], limits);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const changes: FieldSchemaChanges = { added: [], changed: [], removed: [] };
+    const removedFileKeys: string[] = [];
+
+    // The preview is taken in the same transaction as the conversion, so a confirmed save applies
+    // exactly the losses that were checked. Nothing is written when it is rejected.
+    const rejectedPreview = await prisma.$transaction(async (tx) => {
+      const preview = await buildFieldMigrationPreview(tx, inventoryId, sanitized);
+      if (preview.hasDataLoss && confirmDataLoss !== true) {
+        return preview;
       }
-      counters[type] += 1;
-      if (counters[type] > limits[type]) {
-        return res.status(400).json({
-          message: `Too many fields of type ${type}. Maximum is ${limits[type]}.`,
-        });
+
+      const existing = await tx.inventoryField.findMany({
+        where: { inventoryId },
+        include: { options: true },
+      });
+      const existingById = new Map(existing.map((field) => [field.id, field]));
+      const keptIds = new Set(
+        sanitized.filter((field) => field.id && existingById.has(field.id)).map((field) => field.id),
+      );
+
+      const removedFields = existing.filter((field) => !keptIds.has(field.id));
+      if (removedFields.length > 0) {
+        const removedIds = removedFields.map((field) => field.id);
+        await tx.itemFieldValue.deleteMany({ where: { fieldId: { in: removedIds } } });
+        await tx.inventoryFieldOption.deleteMany({ where: { fieldId: { in: removedIds } } });
+        removedFileKeys.push(
+          ...(await deleteAttachmentRows(tx, { fieldId: { in: removedIds } })),
+        );
+        await tx.inventoryField.deleteMany({ where: { id: { in: removedIds } } });
+        for (const field of removedFields) {
+          changes.removed.push({ id: field.id, title: field.title, type: field.type });
+        }
       }
-    }
 
-    const sanitized = fields.map((field, index) => ({
-      inventoryId,
-      type: field.type,
-      title: field.title.trim(),
-      description: field.description && field.description.trim().length > 0
-        ? field.description.trim()
-        : null,
-      showInTable: Boolean(field.showInTable),
-      orderIndex: typeof field.orderIndex === "number" ? field.orderIndex : index,
-    }));
+      for (const field of sanitized) {
+        const previous = field.id ? existingById.get(field.id) : undefined;
+
+        if (!previous) {
+          const created = await tx.inventoryField.create({
+            data: {
+              inventoryId,
+              type: field.type,
+              title: field.title,
+              description: field.description,
+              showInTable: field.showInTable,
+              orderIndex: field.orderIndex,
+              ...field.rules,
+              options: {
+                create: field.options.map((option) => ({
+                  label: option.label,
+                  color: option.color,
+                  orderIndex: option.orderIndex,
+                })),
+              },
+            },
+          });
+          changes.added.push({ id: created.id, title: created.title, type: created.type });
+          continue;
+        }
+
+        const changedAttributes: string[] = (
+          ["type", "title", "description", "showInTable", "orderIndex"] as const
+        ).filter((key) => previous[key] !== field[key]);
+        if (!isSameOptionList(previous.options, field.options)) {
+          changedAttributes.push("options");
+        }
+        if (!isSameValidationRules(pickValidationRules(previous), field.rules)) {
+          changedAttributes.push("rules");
+        }
+
+        if (changedAttributes.length === 0) {
+          continue;
+        }
+
+        const change: FieldSchemaChange = {
+          id: previous.id,
+          title: field.title,
+          type: field.type,
+          changedAttributes,
+        };
+
+        const optionDiff =
+          isSelectFieldType(previous.type) && isSelectFieldType(field.type)
+            ? diffFieldOptions(previous.options, field.options)
+            : { renamed: [], removed: [] };
+
+        if (hasOptionDiff(optionDiff)) {
+          change.renamedOptions = optionDiff.renamed;
+          change.removedOptions = optionDiff.removed;
+
+          const values = await tx.itemFieldValue.findMany({ where: { fieldId: previous.id } });
+          const updates: ItemFieldValue[] = [];
+          const deletedIds: string[] = [];
+          for (const value of values) {
+            const next = applyOptionDiff(value, previous.type, optionDiff);
+            if (!next) {
+              deletedIds.push(value.id);
+            } else if (
+              next.valueString !== value.valueString ||
+              next.valueOptions.join("\n") !== value.valueOptions.join("\n")
+            ) {
+              updates.push(next);
+            }
+          }
+          await rewriteFieldValues(tx, updates, deletedIds);
+        }
+
+        if (previous.type !== field.type) {
+          change.convertedValues = 0;
+          change.droppedValues = 0;
+
+          if (previous.type === "ATTACHMENT") {
+            const fileKeys = await deleteAttachmentRows(tx, { fieldId: previous.id });
+            removedFileKeys.push(...fileKeys);
+            change.droppedValues += fileKeys.length;
+          }
 
-    await prisma.$transaction(async (tx) => {
-      const existing = await tx.inventoryField.findMany({
-        where: { inventoryId },
-        select: { id: true },
-      });
+          const nextLabels = field.options.map((option) => option.label);
+          const values = await tx.itemFieldValue.findMany({ where: { fieldId: previous.id } });
+          const updates: (FieldValueColumns & { id: string })[] = [];
+          const deletedIds: string[] = [];
+          for (const value of values) {
+            const result = convertFieldValue(value, previous.type, field.type, nextLabels);
+            if (result.value) {
+              updates.push({ ...result.value, id: value.id });
+              change.convertedValues += 1;
+            } else {
+              deletedIds.push(value.id);
+              if (!result.lossless) change.droppedValues += 1;
+            }
+          }
+          await rewriteFieldValues(tx, updates, deletedIds);
+        }
+
+        await tx.inventoryField.update({
+          where: { id: previous.id },
+          data: {
+            type: field.type,
+            title: field.title,
+            description: field.description,
+            showInTable: field.showInTable,
+            orderIndex: field.orderIndex,
+            ...field.rules,
+          },
+        });
 
-      if (existing.length > 0) {
-        await tx.itemFieldValue.deleteMany({
-          where: { fieldId: { in: existing.map((field) => field.id) } },
+        const keptOptionIds = new Set(
+          field.options.map((option) => option.id).filter((id) => id !== null),
+        );
+        await tx.inventoryFieldOption.deleteMany({
+          where: { fieldId: previous.id, id: { notIn: Array.from(keptOptionIds) } },
         });
-        await tx.inventoryField.deleteMany({ where: { inventoryId } });
+        const previousOptionIds = new Set(previous.options.map((option) => option.id));
+        for (const option of field.options) {
+          const data = { label: option.label, color: option.color, orderIndex: option.orderIndex };
+          if (option.id && previousOptionIds.has(option.id)) {
+            await tx.inventoryFieldOption.update({ where: { id: option.id }, data });
+          } else {
+            await tx.inventoryFieldOption.create({ data: { ...data, fieldId: previous.id } });
+          }
+        }
+
+        changes.changed.push(change);
       }
+      return null;
+    }, { timeout: FIELD_SAVE_TRANSACTION_TIMEOUT_MS });
 
-      await tx.inventoryField.createMany({
-        data: sanitized,
+    if (rejectedPreview) {
+      return res.status(409).json({
+        message: "Saving these fields would discard existing item values. Confirm to continue.",
+        preview: rejectedPreview,
       });
-    });
+    }
+
+    await removeStoredFiles(removedFileKeys);
 
     const updatedFields = await prisma.inventoryField.findMany({
       where: { inventoryId },
       orderBy: { orderIndex: "asc" },
+      include: { options: { orderBy: { orderIndex: "asc" } } },
     });
 
     res.json({
@@ -1798,7 +4374,16 @@ app.put("/api/inventories/:id/fields", async (req: Request, res: Response) => {
         description: field.description,
         showInTable: field.showInTable,
         orderIndex: field.orderIndex,
+        options: field.options.map((option) => ({
+          id: option.id,
+          label: option.label,
+          color: option.color,
+          orderIndex: option.orderIndex,
+        })),
+        rules: pickValidationRules(field),
       })),
+      changes,
+      limits,
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1807,6 +4392,46 @@ app.put("/api/inventories/:id/fields", async (req: Request, res: Response) => {
   }
 });
 
+app.put("/api/inventories/:id/field-limits", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const inventoryId = req.params.id;
+    const { overrides } = (req.body ?? {}) as { overrides?: unknown };
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { id: true },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    const { error, limits: sanitized } = sanitizeFieldLimitOverrides(overrides);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const hasOverrides = Object.keys(sanitized).length > 0;
+    const updated = await prisma.inventory.update({
+      where: { id: inventoryId },
+      data: { fieldLimits: hasOverrides ? sanitized : Prisma.DbNull },
+      select: { fieldLimits: true },
+    });
+
+    res.json({
+      limits: await loadFieldLimits(prisma, updated.fieldLimits),
+      limitOverrides: sanitized,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /api/inventories/:id/field-limits", error);
+    res.status(500).json({ message: "Failed to save field limits" });
+  }
+});
+
 app.get("/api/inventories/:id/stats", async (req: Request, res: Response) => {
   try {
     const inventoryId = req.params.id;
@@ -1820,11 +4445,11 @@ app.get("/api/inventories/:id/stats", async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Inventory not found" });
     }
 
-    const [itemsCount, numericValues, textValues] = await Promise.all([
-      prisma.item.count({ where: { inventoryId } }),
+    const [itemsCount, numericValues, textValues, dateValues, selectFields] = await Promise.all([
+      prisma.item.count({ where: { inventoryId, deletedAt: null } }),
       prisma.itemFieldValue.findMany({
         where: {
-          item: { inventoryId },
+          item: { inventoryId, deletedAt: null },
           field: { type: "NUMBER" },
           valueNumber: { not: null },
         },
@@ -1834,7 +4459,7 @@ app.get("/api/inventories/:id/stats", async (req: Request, res: Response) => {
       }),
       prisma.itemFieldValue.findMany({
         where: {
-          item: { inventoryId },
+          item: { inventoryId, deletedAt: null },
           field: { type: { in: ["SINGLE_LINE_TEXT", "MULTI_LINE_TEXT"] } },
           valueString: { not: null },
         },
@@ -1842,6 +4467,26 @@ app.get("/api/inventories/:id/stats", async (req: Request, res: Response) => {
           field: true,
         },
       }),
+      prisma.itemFieldValue.findMany({
+        where: {
+          item: { inventoryId, deletedAt: null },
+          field: { type: { in: ["DATE", "DATETIME"] } },
+          valueDate: { not: null },
+        },
+        include: {
+          field: true,
+        },
+      }),
+      prisma.inventoryField.findMany({
+        where: { inventoryId, type: { in: ["SELECT", "MULTI_SELECT"] } },
+        include: {
+          options: { orderBy: { orderIndex: "asc" } },
+          values: {
+            where: { item: { deletedAt: null } },
+            select: { valueString: true, valueOptions: true },
+          },
+        },
+      }),
     ]);
 
     const numericByField = new Map<string, NumericFieldStats>();
@@ -1915,10 +4560,67 @@ app.get("/api/inventories/:id/stats", async (req: Request, res: Response) => {
 
     textFields.sort((a, b) => a.title.localeCompare(b.title));
 
+    const dateByField = new Map<
+      string,
+      { title: string; type: InventoryFieldType; count: number; min: Date; max: Date }
+    >();
+
+    for (const value of dateValues) {
+      const date = value.valueDate as Date;
+
+      let entry = dateByField.get(value.fieldId);
+      if (!entry) {
+        entry = { title: value.field.title, type: value.field.type, count: 0, min: date, max: date };
+        dateByField.set(value.fieldId, entry);
+      }
+
+      entry.count += 1;
+      if (date < entry.min) entry.min = date;
+      if (date > entry.max) entry.max = date;
+    }
+
+    const dateFields: DateFieldStats[] = Array.from(dateByField.entries())
+      .map(([fieldId, entry]) => ({
+        fieldId,
+        title: entry.title,
+        type: entry.type,
+        count: entry.count,
+        min: formatDateValue(entry.min, entry.type),
+        max: formatDateValue(entry.max, entry.type),
+        rangeDays: Math.round((entry.max.getTime() - entry.min.getTime()) / 86_400_000),
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+
+    // Every option is listed, including the unused ones, in the order the owner defined.
+    const optionFields: OptionFieldStats[] = selectFields
+      .map((field) => {
+        const counts = new Map<string, number>();
+        for (const value of field.values) {
+          const labels = field.type === "SELECT" ? [value.valueString] : value.valueOptions;
+          for (const label of labels) {
+            if (label) counts.set(label, (counts.get(label) ?? 0) + 1);
+          }
+        }
+
+        return {
+          fieldId: field.id,
+          title: field.title,
+          type: field.type,
+          options: field.options.map((option) => ({
+            label: option.label,
+            color: option.color,
+            count: counts.get(option.label) ?? 0,
+          })),
+        };
+      })
+      .sort((a, b) => a.title.localeCompare(b.title));
+
     res.json({
       itemsCount,
       numericFields,
       textFields,
+      dateFields,
+      optionFields,
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -1946,11 +4648,12 @@ app.get("/api/inventories/:id/export", async (req: Request, res: Response) => {
         orderBy: { orderIndex: "asc" },
       }),
       prisma.item.findMany({
-        where: { inventoryId },
+        where: { inventoryId, deletedAt: null },
         orderBy: { createdAt: "asc" },
         include: {
           createdBy: { select: { name: true, email: true } },
           fieldValues: true,
+          attachments: { orderBy: { createdAt: "asc" } },
         },
       }),
     ]);
@@ -1961,6 +4664,7 @@ app.get("/api/inventories/:id/export", async (req: Request, res: Response) => {
     }
 
     const rows: string[][] = [header];
+    const fieldTypes = new Map(fields.map((field) => [field.id, field.type]));
 
     for (const item of items) {
       const createdByName = item.createdBy.name ?? item.createdBy.email;
@@ -1973,16 +4677,14 @@ app.get("/api/inventories/:id/export", async (req: Request, res: Response) => {
 
       const valuesByField = new Map<string, string>();
       for (const value of item.fieldValues) {
-        const str =
-          value.valueString ??
-          (value.valueNumber !== null && value.valueNumber !== undefined
-            ? String(value.valueNumber)
-            : value.valueBoolean !== null && value.valueBoolean !== undefined
-            ? value.valueBoolean
-              ? "true"
-              : "false"
-            : value.valueLink ?? "");
-        valuesByField.set(value.fieldId, str);
+        valuesByField.set(value.fieldId, formatFieldValue(value, fieldTypes.get(value.fieldId)));
+      }
+      for (const attachment of item.attachments) {
+        const previous = valuesByField.get(attachment.fieldId);
+        valuesByField.set(
+          attachment.fieldId,
+          previous ? `${previous}, ${attachment.fileName}` : attachment.fileName,
+        );
       }
 
       for (const field of fields) {
@@ -2009,86 +4711,542 @@ app.get("/api/inventories/:id/export", async (req: Request, res: Response) => {
     res.send(csv);
   } catch (error) {
     // eslint-disable-next-line no-console
-    console.error("Error in GET /api/inventories/:id/export", error);
-    res.status(500).json({ message: "Failed to export inventory" });
+    console.error("Error in GET /api/inventories/:id/export", error);
+    res.status(500).json({ message: "Failed to export inventory" });
+  }
+});
+
+// Printable label sheet for the selected items; returns an HTML page to print or save as PDF.
+app.post("/api/inventories/:id/labels", async (req: Request, res: Response) => {
+  try {
+    const inventoryId = req.params.id;
+    const { itemIds, layout: layoutInput } = (req.body ?? {}) as {
+      itemIds?: string[];
+      layout?: unknown;
+    };
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: {
+        id: true,
+        title: true,
+        fields: {
+          where: { type: { not: "ATTACHMENT" } },
+          orderBy: { orderIndex: "asc" },
+          select: { id: true, title: true, type: true },
+        },
+      },
+    });
+
+    if (!inventory) {
+      return res.status(404).json({ message: "Inventory not found" });
+    }
+
+    if (!Array.isArray(itemIds) || itemIds.length === 0) {
+      return res.status(400).json({ message: "Select the items to print labels for." });
+    }
+    if (itemIds.some((itemId) => typeof itemId !== "string")) {
+      return res.status(400).json({ message: "itemIds must be a list of item ids." });
+    }
+    if (itemIds.length > MAX_LABEL_ITEMS) {
+      return res.status(400).json({
+        message: `At most ${MAX_LABEL_ITEMS} labels can be printed at once.`,
+      });
+    }
+
+    const { error: layoutError, layout } = parseLabelLayout(
+      layoutInput,
+      new Set(inventory.fields.map((field) => field.id)),
+    );
+    if (layoutError) {
+      return res.status(400).json({ message: layoutError });
+    }
+
+    const items = await prisma.item.findMany({
+      where: { inventoryId, deletedAt: null, id: { in: itemIds } },
+      orderBy: { customId: "asc" },
+      select: { customId: true, fieldValues: true },
+    });
+
+    const fieldsById = new Map(inventory.fields.map((field) => [field.id, field]));
+    const labelItems: LabelItem[] = items.map((item) => {
+      const values = toFieldValueMap(item.fieldValues);
+      return {
+        customId: item.customId,
+        fields: layout.fieldIds.map((fieldId) => {
+          const field = fieldsById.get(fieldId);
+          const value = values.get(fieldId);
+          return {
+            title: field.title,
+            text: value && hasFieldValue(value) ? formatFieldValue(value, field.type) : "",
+          };
+        }),
+      };
+    });
+
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.send(renderLabelSheet(inventory.title, labelItems, layout));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/inventories/:id/labels", error);
+    res.status(500).json({ message: "Failed to render labels" });
+  }
+});
+
+/**
+ * Parses `q` and the facet filters, sort and page of a search. The error is the body of a 400
+ * response: a syntax error points at the offending part of `q`.
+ */
+async function prepareSearch(input: Record<string, unknown>) {
+  const q = typeof input.q === "string" ? input.q : "";
+  const { error: syntaxError, root } = parseSearchSyntax(q);
+  if (syntaxError) {
+    return { error: syntaxError, params: null };
+  }
+
+  const fieldTitles = collectFieldTitles(root);
+  const fields =
+    fieldTitles.length > 0
+      ? await prisma.inventoryField.findMany({
+          where: {
+            inventory: { archivedAt: null },
+            OR: fieldTitles.map((title) => ({ title: { equals: title, mode: "insensitive" } })),
+          },
+          select: { title: true, type: true },
+        })
+      : [];
+  const { error: compileError, search } = compileSearch(root, fields);
+  if (compileError) {
+    return { error: compileError, params: null };
+  }
+
+  const { error: paramsError, params } = parseSearchParams(input, search);
+  if (paramsError) {
+    return { error: { message: paramsError }, params: null };
+  }
+  return { error: null, params };
+}
+
+// Without words, `key:value` filters or facet filters a search would list every inventory.
+function isEmptySearch(params: SearchParams): boolean {
+  return !params.text && !params.condition && !hasSearchFilters(params.filters);
+}
+
+/**
+ * Records, for every saved search with alerts on, the inventories and items created since its
+ * last check that match it. A search that no longer parses (e.g. a field was renamed) is skipped
+ * until it is fixed; one that fails is logged and tried again on the next run.
+ */
+async function recordSavedSearchAlerts() {
+  const savedSearches = await prisma.savedSearch.findMany({ where: { notify: true } });
+
+  let recorded = 0;
+  for (const saved of savedSearches) {
+    try {
+      // The database clock, like the creation times it is compared with.
+      const [{ now }] = await prisma.$queryRaw<{ now: Date }[]>`SELECT now() AS "now"`;
+      let cursor: NewHitsCursor = { createdAt: now, kind: null, id: null };
+      const { params } = await prepareSearch(toSearchInput(saved));
+      if (params && !isEmptySearch(params)) {
+        const since = saved.lastCheckedAt ?? saved.createdAt;
+        const from: NewHitsCursor =
+          saved.lastCheckedKind && saved.lastCheckedId
+            ? { createdAt: since, kind: saved.lastCheckedKind, id: saved.lastCheckedId }
+            : {
+                createdAt: new Date(since.getTime() - ALERT_CHECK_OVERLAP_MS),
+                kind: null,
+                id: null,
+              };
+        const rows = await prisma.$queryRaw<NewHitRow[]>(
+          buildNewHitsSql(params, from, MAX_ALERTS_PER_RUN),
+        );
+        // Hits seen by the previous check come again; the unique key skips them.
+        const { count } = await prisma.savedSearchAlert.createMany({
+          data: rows.map((row) => ({
+            savedSearchId: saved.id,
+            kind: row.kind,
+            targetId: row.id,
+            inventoryId: row.inventoryId,
+            title: row.title,
+          })),
+          skipDuplicates: true,
+        });
+        recorded += count;
+        // With more new hits than one run takes, the next run goes on from the last one taken.
+        if (rows.length === MAX_ALERTS_PER_RUN) {
+          const last = rows[rows.length - 1];
+          cursor = { createdAt: last.createdAt, kind: last.kind, id: last.id };
+        }
+      }
+      await prisma.savedSearch.update({
+        where: { id: saved.id },
+        data: {
+          lastCheckedAt: cursor.createdAt,
+          lastCheckedKind: cursor.kind,
+          lastCheckedId: cursor.id,
+        },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("Failed to check saved search", saved.id, error);
+    }
+  }
+
+  if (recorded > 0) {
+    // eslint-disable-next-line no-console
+    console.log(`Recorded ${recorded} saved search alert(s)`);
+  }
+}
+
+app.get("/api/search", async (req: Request, res: Response) => {
+  try {
+    const { error: searchError, params } = await prepareSearch(req.query);
+    if (searchError) {
+      return res.status(400).json(searchError);
+    }
+
+    const { page, pageSize } = params;
+    if (isEmptySearch(params)) {
+      return res.json({
+        results: [],
+        total: 0,
+        page,
+        pageSize,
+        facets: { category: [], tag: [], owner: [], items: [] },
+      });
+    }
+
+    const sql = buildSearchSql(params);
+    const [rows, [{ total }], ...facetRows] = await Promise.all([
+      prisma.$queryRaw<SearchHitRow[]>(sql.page),
+      prisma.$queryRaw<{ total: number }[]>(sql.count),
+      ...SEARCH_FACETS.map((facet) => prisma.$queryRaw<FacetCountRow[]>(sql.facets[facet])),
+    ]);
+
+    const inventoryIds = rows.filter((row) => row.kind === "inventory").map((row) => row.id);
+    const itemIds = rows.filter((row) => row.kind === "item").map((row) => row.id);
+    const [inventoriesRaw, itemsRaw] = await Promise.all([
+      prisma.inventory.findMany({
+        where: { id: { in: inventoryIds } },
+        include: {
+          owner: { select: { name: true, email: true } },
+          tags: {
+            include: {
+              tag: true,
+            },
+          },
+          _count: ACTIVE_ITEMS_COUNT,
+        },
+      }),
+      prisma.item.findMany({
+        where: { id: { in: itemIds } },
+        select: { id: true, customId: true, inventory: { select: { id: true, title: true } } },
+      }),
+    ]);
+    const inventoriesById = new Map(inventoriesRaw.map((inventory) => [inventory.id, inventory]));
+    const itemsById = new Map(itemsRaw.map((item) => [item.id, item]));
+
+    // Rows keep the order of the page; hits deleted in between are dropped.
+    const results = rows.flatMap((row) => {
+      const base = { rank: row.rank, likes: row.likes, snippet: splitSnippet(row.snippet) };
+      if (row.kind === "item") {
+        const item = itemsById.get(row.id);
+        if (!item) return [];
+        return [
+          {
+            kind: "item" as const,
+            ...base,
+            item: {
+              id: item.id,
+              customId: item.customId,
+              inventoryId: item.inventory.id,
+              inventoryTitle: item.inventory.title,
+            },
+          },
+        ];
+      }
+
+      const inventory = inventoriesById.get(row.id);
+      if (!inventory) return [];
+      return [
+        {
+          kind: "inventory" as const,
+          ...base,
+          inventory: {
+            id: inventory.id,
+            name: inventory.title,
+            description: inventory.description ?? "",
+            ownerName: inventory.owner.name ?? inventory.owner.email,
+            itemsCount: inventory._count.items,
+            tags: inventory.tags.map((t) => t.tag.name),
+          },
+        },
+      ];
+    });
+
+    const facetCounts = Object.fromEntries(
+      SEARCH_FACETS.map((facet, index) => [facet, facetRows[index]]),
+    ) as Record<SearchFacet, FacetCountRow[]>;
+    // Categories and item count ranges are few, so all of them are listed, in a fixed order.
+    const withAllValues = (counts: FacetCountRow[], values: string[]) =>
+      values.map((value) => ({
+        value,
+        label: null,
+        count: counts.find((row) => row.value === value)?.count ?? 0,
+      }));
+
+    res.json({
+      results,
+      total,
+      page,
+      pageSize,
+      facets: {
+        category: withAllValues(facetCounts.category, INVENTORY_CATEGORIES),
+        tag: facetCounts.tag,
+        owner: facetCounts.owner,
+        items: withAllValues(
+          facetCounts.items,
+          ITEM_COUNT_BUCKETS.map((bucket) => bucket.key),
+        ),
+      },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/search", error);
+    res.status(500).json({ message: "Failed to perform search" });
+  }
+});
+
+// Field names for the autocomplete of `"Field name":value` filters in the search box.
+app.get("/api/search/fields", async (req: Request, res: Response) => {
+  try {
+    const query = ((req.query.q as string | undefined) ?? "").trim();
+
+    const fields = await prisma.inventoryField.findMany({
+      where: {
+        inventory: { archivedAt: null },
+        type: { in: SEARCHABLE_FIELD_TYPES },
+        ...(query ? { title: { startsWith: query, mode: "insensitive" } } : {}),
+      },
+      distinct: ["title"],
+      select: { title: true, type: true },
+      orderBy: { title: "asc" },
+      take: 10,
+    });
+
+    res.json({ fields });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/search/fields", error);
+    res.status(500).json({ message: "Failed to search fields" });
+  }
+});
+
+function toSavedSearchDto(saved: SavedSearch, unreadCount: number) {
+  return {
+    id: saved.id,
+    name: saved.name,
+    query: saved.query,
+    filters: readSavedFilters(saved.filters),
+    notify: saved.notify,
+    lastCheckedAt: saved.lastCheckedAt,
+    createdAt: saved.createdAt,
+    unreadCount,
+  };
+}
+
+app.get("/api/saved-searches", async (req: Request, res: Response) => {
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId: user.id },
+      include: { _count: { select: { alerts: { where: { readAt: null } } } } },
+      orderBy: { name: "asc" },
+    });
+
+    res.json({
+      savedSearches: savedSearches.map((saved) => toSavedSearchDto(saved, saved._count.alerts)),
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/saved-searches", error);
+    res.status(500).json({ message: "Failed to load saved searches" });
+  }
+});
+
+app.post("/api/saved-searches", async (req: Request, res: Response) => {
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const { error, value } = parseSavedSearchInput(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    // The search is checked now, so a saved search always ran at least once.
+    const { error: searchError, params } = await prepareSearch(toSearchInput(value));
+    if (searchError) {
+      return res.status(400).json(searchError);
+    }
+    if (isEmptySearch(params)) {
+      return res.status(400).json({ message: "Enter a query or pick a filter to save a search." });
+    }
+
+    const savedCount = await prisma.savedSearch.count({ where: { userId: user.id } });
+    if (savedCount >= MAX_SAVED_SEARCHES_PER_USER) {
+      return res.status(400).json({
+        message: `You can keep at most ${MAX_SAVED_SEARCHES_PER_USER} saved searches.`,
+      });
+    }
+
+    try {
+      // Alerts only cover what is created after the search was saved.
+      const saved = await prisma.savedSearch.create({
+        data: { ...value, userId: user.id, lastCheckedAt: new Date() },
+      });
+      res.status(201).json(toSavedSearchDto(saved, 0));
+    } catch (err) {
+      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+        return res.status(409).json({ message: "You already have a saved search with this name." });
+      }
+      throw err;
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/saved-searches", error);
+    res.status(500).json({ message: "Failed to save search" });
+  }
+});
+
+app.get("/api/saved-searches/alerts", async (req: Request, res: Response) => {
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const where = { savedSearch: { userId: user.id } };
+    const [alerts, unreadCount] = await Promise.all([
+      prisma.savedSearchAlert.findMany({
+        where,
+        include: { savedSearch: { select: { name: true } } },
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        take: MAX_LISTED_ALERTS,
+      }),
+      prisma.savedSearchAlert.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    res.json({
+      alerts: alerts.map((alert) => ({
+        id: alert.id,
+        savedSearchId: alert.savedSearchId,
+        savedSearchName: alert.savedSearch.name,
+        kind: alert.kind,
+        targetId: alert.targetId,
+        inventoryId: alert.inventoryId,
+        title: alert.title,
+        readAt: alert.readAt,
+        createdAt: alert.createdAt,
+      })),
+      unreadCount,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/saved-searches/alerts", error);
+    res.status(500).json({ message: "Failed to load saved search alerts" });
+  }
+});
+
+// Marks the given alerts, or all alerts of the user without `alertIds`, as read.
+app.post("/api/saved-searches/alerts/read", async (req: Request, res: Response) => {
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+    const { alertIds }: { alertIds?: string[] } = req.body ?? {};
+
+    if (alertIds !== undefined && !Array.isArray(alertIds)) {
+      return res.status(400).json({ message: "alertIds must be a list" });
+    }
+
+    await prisma.savedSearchAlert.updateMany({
+      where: {
+        savedSearch: { userId: user.id },
+        readAt: null,
+        ...(alertIds ? { id: { in: alertIds } } : {}),
+      },
+      data: { readAt: new Date() },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/saved-searches/alerts/read", error);
+    res.status(500).json({ message: "Failed to mark alerts as read" });
   }
 });
 
-app.get("/api/search", async (req: Request, res: Response) => {
+app.patch("/api/saved-searches/:id", async (req: Request, res: Response) => {
   try {
-    const qRaw = (req.query.q as string | undefined) ?? "";
-    const tagRaw = (req.query.tag as string | undefined) ?? "";
-
-    const q = qRaw.trim();
-    const tag = tagRaw.trim();
+    const user = await requireUser(req, res);
+    if (!user) return;
 
-    if (!q && !tag) {
-      return res.json({ inventories: [] });
+    const saved = await prisma.savedSearch.findFirst({
+      where: { id: req.params.id, userId: user.id },
+    });
+    if (!saved) {
+      return res.status(404).json({ message: "Saved search not found" });
     }
 
-    const whereClauses: Parameters<typeof prisma.inventory.findMany>[0]["where"][] = [];
-
-    if (q) {
-      whereClauses.push({
-        OR: [
-          { title: { contains: q, mode: "insensitive" } },
-          { description: { contains: q, mode: "insensitive" } },
-        ],
-      });
+    const { error, value } = parseSavedSearchUpdate(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    if (tag) {
-      whereClauses.push({
-        tags: {
-          some: {
-            tag: {
-              name: tag,
-            },
-          },
+    try {
+      const updated = await prisma.savedSearch.update({
+        where: { id: saved.id },
+        data: {
+          ...value,
+          // Turning alerts on does not report what was created while they were off.
+          ...(value.notify && !saved.notify
+            ? { lastCheckedAt: new Date(), lastCheckedKind: null, lastCheckedId: null }
+            : {}),
         },
+        include: { _count: { select: { alerts: { where: { readAt: null } } } } },
       });
+      res.json(toSavedSearchDto(updated, updated._count.alerts));
+    } catch (err) {
+      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+        return res.status(409).json({ message: "You already have a saved search with this name." });
+      }
+      throw err;
     }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PATCH /api/saved-searches/:id", error);
+    res.status(500).json({ message: "Failed to update saved search" });
+  }
+});
 
-    const inventoriesRaw = await prisma.inventory.findMany({
-      where:
-        whereClauses.length === 0
-          ? undefined
-          : {
-              AND: whereClauses,
-            },
-      include: {
-        owner: { select: { name: true, email: true } },
-        tags: {
-          include: {
-            tag: true,
-          },
-        },
-        _count: {
-          select: {
-            items: true,
-          },
-        },
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-      take: 50,
-    });
+app.delete("/api/saved-searches/:id", async (req: Request, res: Response) => {
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
 
-    const inventories = inventoriesRaw.map((inventory) => ({
-      id: inventory.id,
-      name: inventory.title,
-      description: inventory.description ?? "",
-      ownerName: inventory.owner.name ?? inventory.owner.email,
-      itemsCount: inventory._count.items,
-      tags: inventory.tags.map((t) => t.tag.name),
-    }));
+    // Its alerts go with it (cascading foreign key).
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id: req.params.id, userId: user.id },
+    });
+    if (count === 0) {
+      return res.status(404).json({ message: "Saved search not found" });
+    }
 
-    res.json({ inventories });
+    res.status(204).send();
   } catch (error) {
     // eslint-disable-next-line no-console
-    console.error("Error in GET /api/search", error);
-    res.status(500).json({ message: "Failed to perform search" });
+    console.error("Error in DELETE /api/saved-searches/:id", error);
+    res.status(500).json({ message: "Failed to delete saved search" });
   }
 });
 
@@ -2154,21 +5312,25 @@ app.get("/api/tags/search", async (req: Request, res: Response) => {
       return res.json({ tags: [] });
     }
 
+    // Tags whose name or a synonym contains the query; names starting with it come first.
     const tags = await prisma.tag.findMany({
       where: {
-        name: {
-          startsWith: query,
-          mode: "insensitive",
-        },
+        OR: [
+          { name: { contains: query, mode: "insensitive" } },
+          { synonyms: { some: { name: { contains: query, mode: "insensitive" } } } },
+        ],
       },
       orderBy: {
         name: "asc",
       },
-      take: 10,
+      take: 50,
     });
+    const lowered = query.toLowerCase();
+    const startsWithQuery = (name: string) => (name.toLowerCase().startsWith(lowered) ? 0 : 1);
+    const ranked = [...tags].sort((a, b) => startsWithQuery(a.name) - startsWithQuery(b.name));
 
     res.json({
-      tags: tags.map((tag) => tag.name),
+      tags: ranked.slice(0, 10).map((tag) => tag.name),
     });
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -2324,6 +5486,418 @@ app.delete("/api/admin/users", async (req: Request, res: Response) => {
   }
 });
 
+app.get("/api/admin/field-limits", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const setting = await prisma.appSetting.findUnique({
+      where: { key: FIELD_LIMITS_SETTING_KEY },
+    });
+
+    res.json({
+      limits: resolveFieldLimits(setting?.value ?? null, null),
+      configured: sanitizeFieldLimitOverrides(setting?.value ?? null).limits,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/admin/field-limits", error);
+    res.status(500).json({ message: "Failed to load field limits" });
+  }
+});
+
+app.put("/api/admin/field-limits", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const { limits } = (req.body ?? {}) as { limits?: unknown };
+    const { error, limits: sanitized } = sanitizeFieldLimitOverrides(limits);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await prisma.appSetting.upsert({
+      where: { key: FIELD_LIMITS_SETTING_KEY },
+      create: { key: FIELD_LIMITS_SETTING_KEY, value: sanitized },
+      update: { value: sanitized },
+    });
+
+    res.json({
+      limits: resolveFieldLimits(sanitized, null),
+      configured: sanitized,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /api/admin/field-limits", error);
+    res.status(500).json({ message: "Failed to save field limits" });
+  }
+});
+
+const ADMIN_TAG_INCLUDE = {
+  synonyms: { orderBy: { name: "asc" } },
+  _count: { select: { inventories: true } },
+} as const;
+const MAX_ADMIN_TAGS = 200;
+
+// `normalizedName` is the name under the current rules, so the console can flag tags that differ.
+function toAdminTagDto(
+  tag: Prisma.TagGetPayload<{ include: typeof ADMIN_TAG_INCLUDE }>,
+  rules: TagNameRules,
+) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    normalizedName: normalizeTagName(tag.name, rules),
+    inventoriesCount: tag._count.inventories,
+    synonyms: tag.synonyms.map((synonym) => ({ id: synonym.id, name: synonym.name })),
+    createdAt: tag.createdAt,
+  };
+}
+
+// Why `name` cannot be given to a tag (other than `tagId`) or a synonym; null when it is free.
+async function findTagNameConflict(name: string, tagId: string | null): Promise<string | null> {
+  const [tag, synonym] = await Promise.all([
+    prisma.tag.findFirst({
+      where: {
+        name: { equals: name, mode: "insensitive" },
+        ...(tagId ? { id: { not: tagId } } : {}),
+      },
+    }),
+    prisma.tagSynonym.findFirst({
+      where: { name: { equals: name, mode: "insensitive" } },
+      include: { tag: { select: { name: true } } },
+    }),
+  ]);
+  if (tag) return `Tag "${tag.name}" already exists. Merge the tags instead.`;
+  if (synonym) return `"${synonym.name}" is already a synonym of "${synonym.tag.name}".`;
+  return null;
+}
+
+app.get("/api/admin/tags", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+    const query = ((req.query.q as string | undefined) ?? "").trim();
+
+    const [tags, rules] = await Promise.all([
+      prisma.tag.findMany({
+        where: query
+          ? {
+              OR: [
+                { name: { contains: query, mode: "insensitive" } },
+                { synonyms: { some: { name: { contains: query, mode: "insensitive" } } } },
+              ],
+            }
+          : {},
+        include: ADMIN_TAG_INCLUDE,
+        orderBy: { name: "asc" },
+        take: MAX_ADMIN_TAGS,
+      }),
+      loadTagNameRules(prisma),
+    ]);
+
+    res.json({ tags: tags.map((tag) => toAdminTagDto(tag, rules)) });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/admin/tags", error);
+    res.status(500).json({ message: "Failed to load tags" });
+  }
+});
+
+app.patch("/api/admin/tags/:id", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const tag = await prisma.tag.findUnique({ where: { id: req.params.id } });
+    if (!tag) {
+      return res.status(404).json({ message: "Tag not found" });
+    }
+
+    const { name }: { name?: string } = req.body ?? {};
+    const rules = await loadTagNameRules(prisma);
+    const normalized = typeof name === "string" ? normalizeTagName(name, rules) : "";
+    if (!normalized) {
+      return res.status(400).json({ message: "Tag name is required." });
+    }
+
+    const conflict = await findTagNameConflict(normalized, tag.id);
+    if (conflict) {
+      return res.status(409).json({ message: conflict });
+    }
+
+    try {
+      const updated = await prisma.tag.update({
+        where: { id: tag.id },
+        data: { name: normalized },
+        include: ADMIN_TAG_INCLUDE,
+      });
+      res.json(toAdminTagDto(updated, rules));
+    } catch (err) {
+      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+        return res.status(409).json({ message: `Tag "${normalized}" already exists.` });
+      }
+      throw err;
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PATCH /api/admin/tags/:id", error);
+    res.status(500).json({ message: "Failed to rename tag" });
+  }
+});
+
+// Moves the inventories and synonyms of the source tags to the target tag and deletes the sources;
+// their names become synonyms of the target, so searches and new tags by the old names find it.
+app.post("/api/admin/tags/merge", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+    const { sourceIds, targetId }: { sourceIds?: string[]; targetId?: string } = req.body ?? {};
+
+    if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      return res.status(400).json({ message: "targetId and sourceIds are required" });
+    }
+    const sourceIdSet = new Set(sourceIds);
+    if (sourceIdSet.has(targetId)) {
+      return res.status(400).json({ message: "A tag cannot be merged into itself." });
+    }
+
+    const [target, sources] = await Promise.all([
+      prisma.tag.findUnique({ where: { id: targetId } }),
+      prisma.tag.findMany({ where: { id: { in: Array.from(sourceIdSet) } } }),
+    ]);
+    if (!target || sources.length !== sourceIdSet.size) {
+      return res.status(404).json({ message: "Tag not found" });
+    }
+    const mergedIds = sources.map((source) => source.id);
+
+    await prisma.$transaction(async (tx) => {
+      const links = await tx.inventoryTag.findMany({
+        where: { tagId: { in: mergedIds } },
+        select: { inventoryId: true },
+      });
+      // Inventories that already have the target keep a single link.
+      await tx.inventoryTag.createMany({
+        data: Array.from(new Set(links.map((link) => link.inventoryId))).map((inventoryId) => ({
+          inventoryId,
+          tagId: target.id,
+        })),
+        skipDuplicates: true,
+      });
+      await tx.inventoryTag.deleteMany({ where: { tagId: { in: mergedIds } } });
+
+      // Names are unique regardless of case: a moved synonym or source name that matches the
+      // target name or one of its synonyms is dropped.
+      const taken = new Set([target.name.toLowerCase()]);
+      const synonyms = await tx.tagSynonym.findMany({
+        where: { tagId: { in: [target.id, ...mergedIds] } },
+      });
+      synonyms
+        .filter((synonym) => synonym.tagId === target.id)
+        .forEach((synonym) => taken.add(synonym.name.toLowerCase()));
+      const duplicateIds: string[] = [];
+      for (const synonym of synonyms.filter((entry) => entry.tagId !== target.id)) {
+        const key = synonym.name.toLowerCase();
+        if (taken.has(key)) duplicateIds.push(synonym.id);
+        taken.add(key);
+      }
+      await tx.tagSynonym.deleteMany({ where: { id: { in: duplicateIds } } });
+      await tx.tagSynonym.updateMany({
+        where: { tagId: { in: mergedIds } },
+        data: { tagId: target.id },
+      });
+      await tx.tag.deleteMany({ where: { id: { in: mergedIds } } });
+
+      const namesToAdd = sources.filter((source) => {
+        const key = source.name.toLowerCase();
+        if (taken.has(key)) return false;
+        taken.add(key);
+        return true;
+      });
+      await tx.tagSynonym.createMany({
+        data: namesToAdd.map((source) => ({ tagId: target.id, name: source.name })),
+        skipDuplicates: true,
+      });
+    });
+
+    const [merged, rules] = await Promise.all([
+      prisma.tag.findUniqueOrThrow({ where: { id: target.id }, include: ADMIN_TAG_INCLUDE }),
+      loadTagNameRules(prisma),
+    ]);
+    res.json(toAdminTagDto(merged, rules));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/admin/tags/merge", error);
+    res.status(500).json({ message: "Failed to merge tags" });
+  }
+});
+
+// Deletes every tag no inventory uses, with its synonyms.
+app.post("/api/admin/tags/delete-unused", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const unused = await tx.tag.findMany({
+        where: { inventories: { none: {} } },
+        select: { id: true },
+      });
+      const unusedIds = unused.map((tag) => tag.id);
+      await tx.tagSynonym.deleteMany({ where: { tagId: { in: unusedIds } } });
+      const { count } = await tx.tag.deleteMany({
+        where: { id: { in: unusedIds }, inventories: { none: {} } },
+      });
+      return count;
+    });
+
+    res.json({ deleted });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/admin/tags/delete-unused", error);
+    res.status(500).json({ message: "Failed to delete unused tags" });
+  }
+});
+
+app.delete("/api/admin/tags/:id", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const tag = await prisma.tag.findUnique({
+      where: { id: req.params.id },
+      include: { _count: { select: { inventories: true } } },
+    });
+    if (!tag) {
+      return res.status(404).json({ message: "Tag not found" });
+    }
+    if (tag._count.inventories > 0) {
+      return res.status(409).json({
+        message:
+          `Tag is used by ${tag._count.inventories} inventories. ` +
+          "Merge it into another tag instead.",
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.tagSynonym.deleteMany({ where: { tagId: tag.id } }),
+      prisma.tag.delete({ where: { id: tag.id } }),
+    ]);
+
+    res.status(204).send();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in DELETE /api/admin/tags/:id", error);
+    res.status(500).json({ message: "Failed to delete tag" });
+  }
+});
+
+app.post("/api/admin/tags/:id/synonyms", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const tag = await prisma.tag.findUnique({ where: { id: req.params.id } });
+    if (!tag) {
+      return res.status(404).json({ message: "Tag not found" });
+    }
+
+    const { name }: { name?: string } = req.body ?? {};
+    const rules = await loadTagNameRules(prisma);
+    const normalized = typeof name === "string" ? normalizeTagName(name, rules) : "";
+    if (!normalized) {
+      return res.status(400).json({ message: "Synonym is required." });
+    }
+    if (normalized.toLowerCase() === tag.name.toLowerCase()) {
+      return res.status(400).json({ message: "A synonym must differ from the tag name." });
+    }
+
+    const conflict = await findTagNameConflict(normalized, null);
+    if (conflict) {
+      return res.status(409).json({ message: conflict });
+    }
+
+    try {
+      await prisma.tagSynonym.create({ data: { tagId: tag.id, name: normalized } });
+    } catch (err) {
+      if (err instanceof Error && "code" in err && (err as any).code === "P2002") {
+        return res.status(409).json({ message: `"${normalized}" is already a synonym.` });
+      }
+      throw err;
+    }
+
+    const updated = await prisma.tag.findUniqueOrThrow({
+      where: { id: tag.id },
+      include: ADMIN_TAG_INCLUDE,
+    });
+    res.status(201).json(toAdminTagDto(updated, rules));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/admin/tags/:id/synonyms", error);
+    res.status(500).json({ message: "Failed to add synonym" });
+  }
+});
+
+app.delete("/api/admin/tags/:id/synonyms/:synonymId", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const { count } = await prisma.tagSynonym.deleteMany({
+      where: { id: req.params.synonymId, tagId: req.params.id },
+    });
+    if (count === 0) {
+      return res.status(404).json({ message: "Synonym not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in DELETE /api/admin/tags/:id/synonyms/:synonymId", error);
+    res.status(500).json({ message: "Failed to delete synonym" });
+  }
+});
+
+app.get("/api/admin/tag-rules", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    res.json({ rules: await loadTagNameRules(prisma), maxLength: MAX_TAG_NAME_LENGTH });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/admin/tag-rules", error);
+    res.status(500).json({ message: "Failed to load tag name rules" });
+  }
+});
+
+// New rules apply to tags saved from now on; existing tags that differ are flagged in the console.
+app.put("/api/admin/tag-rules", async (req: Request, res: Response) => {
+  try {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const { rules } = (req.body ?? {}) as { rules?: unknown };
+    const { error, rules: sanitized } = sanitizeTagNameRules(rules);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await prisma.appSetting.upsert({
+      where: { key: TAG_NAME_RULES_SETTING_KEY },
+      create: { key: TAG_NAME_RULES_SETTING_KEY, value: sanitized },
+      update: { value: sanitized },
+    });
+
+    res.json({ rules: sanitized, maxLength: MAX_TAG_NAME_LENGTH });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /api/admin/tag-rules", error);
+    res.status(500).json({ message: "Failed to save tag name rules" });
+  }
+});
+
 app.get("/api/users/search", async (req: Request, res: Response) => {
   try {
     const query = ((req.query.query as string) || "").trim();
@@ -2360,5 +5934,22 @@ app.get("/api/users/search", async (req: Request, res: Response) => {
 app.listen(PORT, () => {
   // eslint-disable-next-line no-console
   console.log(`Server is running on http://localhost:${PORT}`);
+
+  const runTrashPurge = () => {
+    purgeExpiredTrash().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error("Failed to purge trash", error);
+    });
+  };
+  runTrashPurge();
+  setInterval(runTrashPurge, TRASH_PURGE_INTERVAL_MS);
+
+  const runSavedSearchAlerts = () => {
+    recordSavedSearchAlerts().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error("Failed to record saved search alerts", error);
+    });
+  };
+  setInterval(runSavedSearchAlerts, SAVED_SEARCH_ALERT_INTERVAL_MS);
 });
 
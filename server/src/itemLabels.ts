@@ -0,0 +1,165 @@
+import { canEncodeCode128, encodeQrCode, renderCode128Svg, renderQrSvg } from "./barcodes";
+
+export const LABEL_CODE_TYPES = ["qr", "code128", "both"] as const;
+export const MAX_LABEL_ITEMS = 500;
+export const MAX_LABEL_FIELDS = 5;
+
+export type LabelCodeType = (typeof LABEL_CODE_TYPES)[number];
+
+export interface LabelLayout {
+  widthMm: number;
+  heightMm: number;
+  columns: number;
+  code: LabelCodeType;
+  // Fields printed under the custom ID, in this order.
+  fieldIds: string[];
+  showInventoryTitle: boolean;
+}
+
+export interface LabelItem {
+  customId: string;
+  fields: { title: string; text: string }[];
+}
+
+// 70 x 37 mm in three columns fills an A4 sheet of common adhesive labels.
+export const DEFAULT_LABEL_LAYOUT: LabelLayout = {
+  widthMm: 70,
+  heightMm: 37,
+  columns: 3,
+  code: "qr",
+  fieldIds: [],
+  showInventoryTitle: false,
+};
+
+function readNumber(
+  input: unknown,
+  fallback: number,
+  min: number,
+  max: number,
+  label: string,
+): { error: string | null; value: number } {
+  if (input === undefined || input === null || input === "") {
+    return { error: null, value: fallback };
+  }
+  const value = Number(input);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    return { error: `${label} must be between ${min} and ${max}.`, value: fallback };
+  }
+  return { error: null, value };
+}
+
+/**
+ * Reads a label layout from a request body. Missing values fall back to DEFAULT_LABEL_LAYOUT;
+ * `fieldIds` must belong to `allowedFieldIds`.
+ */
+export function parseLabelLayout(
+  input: unknown,
+  allowedFieldIds: Set<string>,
+): { error: string | null; layout: LabelLayout | null } {
+  const values = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+
+  const width = readNumber(values.widthMm, DEFAULT_LABEL_LAYOUT.widthMm, 20, 210, "Label width");
+  const height = readNumber(
+    values.heightMm,
+    DEFAULT_LABEL_LAYOUT.heightMm,
+    10,
+    297,
+    "Label height",
+  );
+  const columns = readNumber(values.columns, DEFAULT_LABEL_LAYOUT.columns, 1, 8, "Columns");
+  const error = width.error ?? height.error ?? columns.error;
+  if (error) return { error, layout: null };
+
+  const code = values.code ?? DEFAULT_LABEL_LAYOUT.code;
+  if (!LABEL_CODE_TYPES.includes(code as LabelCodeType)) {
+    return { error: `Code must be one of ${LABEL_CODE_TYPES.join(", ")}.`, layout: null };
+  }
+
+  const fieldIds = values.fieldIds ?? [];
+  if (!Array.isArray(fieldIds) || fieldIds.some((id) => !allowedFieldIds.has(id))) {
+    return { error: "Choose fields of this inventory to print.", layout: null };
+  }
+  if (fieldIds.length > MAX_LABEL_FIELDS) {
+    return { error: `At most ${MAX_LABEL_FIELDS} fields fit on a label.`, layout: null };
+  }
+
+  return {
+    error: null,
+    layout: {
+      widthMm: width.value,
+      heightMm: height.value,
+      columns: Math.floor(columns.value),
+      code: code as LabelCodeType,
+      fieldIds,
+      showInventoryTitle: values.showInventoryTitle === true,
+    },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderLabel(item: LabelItem, layout: LabelLayout, inventoryTitle: string): string {
+  const qr = layout.code !== "code128" ? encodeQrCode(item.customId) : null;
+  // Code 128 only covers printable ASCII, so other IDs get just the QR code and the text.
+  const barcode =
+    layout.code !== "qr" && canEncodeCode128(item.customId)
+      ? renderCode128Svg(item.customId, { showText: false })
+      : null;
+
+  const lines = [`<div class="custom-id">${escapeHtml(item.customId)}</div>`];
+  if (layout.showInventoryTitle) {
+    lines.push(`<div class="muted">${escapeHtml(inventoryTitle)}</div>`);
+  }
+  for (const field of item.fields) {
+    const title = `<span class="muted">${escapeHtml(field.title)}:</span>`;
+    lines.push(`<div>${title} ${escapeHtml(field.text)}</div>`);
+  }
+
+  return (
+    `<div class="label">` +
+    (qr ? `<div class="qr">${renderQrSvg(qr)}</div>` : "") +
+    `<div class="text">${lines.join("")}` +
+    (barcode ? `<div class="barcode">${barcode}</div>` : "") +
+    `</div></div>`
+  );
+}
+
+/**
+ * Renders a printable HTML page with one label per item, laid out in a grid of label-sized cells.
+ * The browser's print dialog turns it into paper or a PDF.
+ */
+export function renderLabelSheet(
+  inventoryTitle: string,
+  items: LabelItem[],
+  layout: LabelLayout,
+): string {
+  const { widthMm, heightMm, columns } = layout;
+  const style = `
+    @page { margin: 10mm; }
+    body { margin: 0; font-family: Arial, sans-serif; font-size: 9pt; }
+    .toolbar { padding: 8px 0; }
+    .sheet { display: grid; grid-template-columns: repeat(${columns}, ${widthMm}mm);
+      grid-auto-rows: ${heightMm}mm; gap: 2mm; }
+    .label { box-sizing: border-box; display: flex; gap: 2mm; padding: 2mm; overflow: hidden;
+      border: 1px dashed #bbb; break-inside: avoid; }
+    .qr { flex: 0 0 auto; height: 100%; aspect-ratio: 1; }
+    .qr svg, .barcode svg { display: block; width: 100%; height: 100%; }
+    .text { flex: 1 1 auto; min-width: 0; display: flex; flex-direction: column; gap: 0.5mm; }
+    .text div { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .custom-id { font-family: monospace; font-weight: bold; font-size: 11pt; }
+    .muted { color: #555; }
+    .barcode { flex: 1 1 auto; min-height: 6mm; margin-top: auto; }
+    @media print { .toolbar { display: none; } .label { border-color: transparent; } }
+  `;
+
+  const labels = items.map((item) => renderLabel(item, layout, inventoryTitle)).join("");
+  return (
+    `<!DOCTYPE html><html><head><meta charset="utf-8">` +
+    `<title>Labels: ${escapeHtml(inventoryTitle)}</title><style>${style}</style></head><body>` +
+    `<div class="toolbar"><button type="button" onclick="window.print()">Print</button> ` +
+    `${items.length} label(s), ${widthMm} x ${heightMm} mm</div>` +
+    `<div class="sheet">${labels}</div></body></html>`
+  );
+}
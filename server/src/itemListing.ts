@@ -0,0 +1,305 @@
+import { Prisma } from "./generated/client";
+import { InventoryFieldType, isDateFieldType, parseDateValue } from "./fieldValues";
+
+export const DEFAULT_ITEM_PAGE_SIZE = 50;
+export const MAX_ITEM_PAGE_SIZE = 200;
+
+export const ITEM_SORT_COLUMNS = ["customId", "createdAt", "likes"] as const;
+
+type ItemSortColumn = (typeof ITEM_SORT_COLUMNS)[number];
+type SortValueKind = "text" | "number" | "boolean" | "date";
+
+interface ListingField {
+  id: string;
+  title: string;
+  type: InventoryFieldType;
+}
+
+// `key` is "customId" or the id of an inventory field.
+export interface ItemFilter {
+  key: string;
+  contains: string | null;
+  min: number | Date | null;
+  max: number | Date | null;
+  equals: boolean | null;
+}
+
+export interface ItemListQuery {
+  // One of ITEM_SORT_COLUMNS or the id of an inventory field.
+  sort: string;
+  direction: "asc" | "desc";
+  limit: number;
+  cursor: { value: string | number | boolean | null; id: string } | null;
+  filters: ItemFilter[];
+}
+
+const TEXT_FILTER_TYPES: InventoryFieldType[] = [
+  "SINGLE_LINE_TEXT",
+  "MULTI_LINE_TEXT",
+  "LINK",
+  "SELECT",
+  "MULTI_SELECT",
+];
+
+// Column of ItemFieldValue that holds the value of a field type, as an expression on alias `v`.
+function valueColumn(type: InventoryFieldType): { sql: Prisma.Sql; kind: SortValueKind } {
+  switch (type) {
+    case "NUMBER":
+      return { sql: Prisma.sql`v."valueNumber"`, kind: "number" };
+    case "BOOLEAN":
+      return { sql: Prisma.sql`v."valueBoolean"`, kind: "boolean" };
+    case "DATE":
+    case "DATETIME":
+      return { sql: Prisma.sql`v."valueDate"`, kind: "date" };
+    case "LINK":
+      return { sql: Prisma.sql`v."valueLink"`, kind: "text" };
+    case "MULTI_SELECT":
+      return { sql: Prisma.sql`array_to_string(v."valueOptions", ', ')`, kind: "text" };
+    default:
+      return { sql: Prisma.sql`v."valueString"`, kind: "text" };
+  }
+}
+
+function sortExpression(
+  sort: string,
+  fields: ListingField[],
+): { sql: Prisma.Sql; kind: SortValueKind } {
+  switch (sort as ItemSortColumn) {
+    case "customId":
+      return { sql: Prisma.sql`i."customId"`, kind: "text" };
+    case "createdAt":
+      return { sql: Prisma.sql`i."createdAt"`, kind: "date" };
+    case "likes":
+      return {
+        sql: Prisma.sql`(SELECT COUNT(*)::int FROM "ItemLike" l WHERE l."itemId" = i."id")`,
+        kind: "number",
+      };
+  }
+
+  const field = fields.find((candidate) => candidate.id === sort);
+  const column = valueColumn(field.type);
+  return {
+    sql: Prisma.sql`(SELECT ${column.sql} FROM "ItemFieldValue" v
+      WHERE v."itemId" = i."id" AND v."fieldId" = ${field.id} LIMIT 1)`,
+    kind: column.kind,
+  };
+}
+
+function readFilterNumber(input: unknown): number | null | undefined {
+  if (input === undefined || input === null || String(input).trim() === "") return null;
+  const value = Number(String(input).trim());
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// A DATETIME range may also be bounded by a plain date, which stands for its UTC midnight.
+function readFilterDate(input: unknown, type: InventoryFieldType): Date | null | undefined {
+  if (input === undefined || input === null || String(input).trim() === "") return null;
+  const text = String(input).trim();
+  const dateOnly = type === "DATETIME" && /^\d{4}-\d{2}-\d{2}$/.test(text);
+  return parseDateValue(text, dateOnly ? "DATE" : type) ?? undefined;
+}
+
+function parseFilter(
+  key: string,
+  input: unknown,
+  fields: ListingField[],
+): { error: string | null; filter: ItemFilter | null } {
+  const values = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const contains = typeof values.contains === "string" ? values.contains.trim() : "";
+  const filter: ItemFilter = { key, contains: null, min: null, max: null, equals: null };
+
+  if (key === "customId") {
+    filter.contains = contains || null;
+    return { error: null, filter: filter.contains ? filter : null };
+  }
+
+  const field = fields.find((candidate) => candidate.id === key);
+  if (!field) {
+    return { error: `Unknown filter field: ${key}`, filter: null };
+  }
+
+  if (TEXT_FILTER_TYPES.includes(field.type)) {
+    filter.contains = contains || null;
+    return { error: null, filter: filter.contains ? filter : null };
+  }
+
+  if (field.type === "NUMBER" || isDateFieldType(field.type)) {
+    const read =
+      field.type === "NUMBER"
+        ? readFilterNumber
+        : (value: unknown) => readFilterDate(value, field.type);
+    const min = read(values.min);
+    const max = read(values.max);
+    if (min === undefined || max === undefined) {
+      const expected = field.type === "NUMBER" ? "numbers" : "dates";
+      return { error: `Range of "${field.title}" must be ${expected}.`, filter: null };
+    }
+    filter.min = min;
+    filter.max = max;
+    return { error: null, filter: min === null && max === null ? null : filter };
+  }
+
+  if (field.type === "BOOLEAN") {
+    const equals = String(values.equals ?? "").trim();
+    if (!equals) return { error: null, filter: null };
+    if (equals !== "true" && equals !== "false") {
+      return { error: `Filter of "${field.title}" must be true or false.`, filter: null };
+    }
+    filter.equals = equals === "true";
+    return { error: null, filter };
+  }
+
+  return { error: `"${field.title}" cannot be filtered.`, filter: null };
+}
+
+export function encodeItemCursor(value: unknown, id: string): string {
+  const plain = value instanceof Date ? value.toISOString() : (value ?? null);
+  return Buffer.from(JSON.stringify({ value: plain, id })).toString("base64url");
+}
+
+function decodeItemCursor(input: string): ItemListQuery["cursor"] | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(input, "base64url").toString("utf8"));
+    if (!decoded || typeof decoded.id !== "string") return undefined;
+    const value = decoded.value;
+    if (value !== null && !["string", "number", "boolean"].includes(typeof value)) {
+      return undefined;
+    }
+    return { value, id: decoded.id };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads `sort`, `direction`, `limit`, `cursor` and `filter[<key>][contains|min|max|equals]`
+ * from the query string of the items list.
+ */
+export function parseItemListQuery(
+  query: Record<string, unknown>,
+  fields: ListingField[],
+): { error: string | null; listQuery: ItemListQuery | null } {
+  const sort = typeof query.sort === "string" && query.sort ? query.sort : "createdAt";
+  const sortField = fields.find((field) => field.id === sort);
+  if (!ITEM_SORT_COLUMNS.includes(sort as ItemSortColumn) && !sortField) {
+    return { error: `Unknown sort column: ${sort}`, listQuery: null };
+  }
+  if (sortField?.type === "ATTACHMENT") {
+    return { error: `"${sortField.title}" cannot be sorted.`, listQuery: null };
+  }
+
+  const direction =
+    query.direction === "asc" || query.direction === "desc"
+      ? query.direction
+      : sort === "createdAt" || sort === "likes"
+        ? "desc"
+        : "asc";
+
+  const requestedLimit = Number(query.limit);
+  const limit =
+    Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_ITEM_PAGE_SIZE)
+      : DEFAULT_ITEM_PAGE_SIZE;
+
+  let cursor: ItemListQuery["cursor"] = null;
+  if (typeof query.cursor === "string" && query.cursor) {
+    cursor = decodeItemCursor(query.cursor);
+    if (!cursor) {
+      return { error: "Invalid cursor.", listQuery: null };
+    }
+  }
+
+  const filters: ItemFilter[] = [];
+  const filterInput = query.filter;
+  if (filterInput && typeof filterInput === "object" && !Array.isArray(filterInput)) {
+    for (const [key, value] of Object.entries(filterInput as Record<string, unknown>)) {
+      const { error, filter } = parseFilter(key, value, fields);
+      if (error) return { error, listQuery: null };
+      if (filter) filters.push(filter);
+    }
+  }
+
+  return { error: null, listQuery: { sort, direction, limit, cursor, filters } };
+}
+
+// Escapes LIKE wildcards so user input is matched literally.
+function toContainsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function filterCondition(filter: ItemFilter, fields: ListingField[]): Prisma.Sql {
+  if (filter.key === "customId") {
+    // IDs an item had before a re-ID still find it.
+    const pattern = toContainsPattern(filter.contains ?? "");
+    return Prisma.sql`(i."customId" ILIKE ${pattern} OR EXISTS (
+      SELECT 1 FROM "ItemCustomIdAlias" a WHERE a."itemId" = i."id" AND a."customId" ILIKE ${pattern}
+    ))`;
+  }
+
+  const field = fields.find((candidate) => candidate.id === filter.key);
+  const column = valueColumn(field.type).sql;
+  const valueExists = (condition: Prisma.Sql) => Prisma.sql`EXISTS (
+    SELECT 1 FROM "ItemFieldValue" v
+    WHERE v."itemId" = i."id" AND v."fieldId" = ${field.id} AND ${condition}
+  )`;
+
+  if (filter.contains !== null) {
+    return valueExists(Prisma.sql`${column} ILIKE ${toContainsPattern(filter.contains)}`);
+  }
+
+  if (filter.equals !== null) {
+    // An item without a stored value shows an unchecked box, so it counts as false.
+    const isTrue = valueExists(Prisma.sql`v."valueBoolean" = true`);
+    return filter.equals ? isTrue : Prisma.sql`NOT ${isTrue}`;
+  }
+
+  const bounds: Prisma.Sql[] = [];
+  if (filter.min !== null) bounds.push(Prisma.sql`${column} >= ${filter.min}`);
+  if (filter.max !== null) bounds.push(Prisma.sql`${column} <= ${filter.max}`);
+  return valueExists(Prisma.join(bounds, " AND "));
+}
+
+/**
+ * Builds the page query (one row more than `limit`, to know whether there is a next page) and the
+ * total count. Pages use keyset pagination on (sort value, id); empty values sort last.
+ */
+export function buildItemListSql(
+  inventoryId: string,
+  listQuery: ItemListQuery,
+  fields: ListingField[],
+): { page: Prisma.Sql; count: Prisma.Sql } {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`i."inventoryId" = ${inventoryId}`,
+    Prisma.sql`i."deletedAt" IS NULL`,
+    ...listQuery.filters.map((filter) => filterCondition(filter, fields)),
+  ];
+  const count = Prisma.sql`SELECT COUNT(*)::int AS "total" FROM "Item" i
+    WHERE ${Prisma.join(conditions, " AND ")}`;
+
+  const sort = sortExpression(listQuery.sort, fields);
+  const ascending = listQuery.direction === "asc";
+  const comparison = Prisma.raw(ascending ? ">" : "<");
+  const direction = Prisma.raw(ascending ? "ASC" : "DESC");
+
+  if (listQuery.cursor) {
+    const { id } = listQuery.cursor;
+    const value =
+      sort.kind === "date" && listQuery.cursor.value !== null
+        ? new Date(String(listQuery.cursor.value))
+        : listQuery.cursor.value;
+    conditions.push(
+      value === null
+        ? Prisma.sql`(${sort.sql} IS NULL AND i."id" ${comparison} ${id})`
+        : Prisma.sql`(${sort.sql} ${comparison} ${value}
+            OR (${sort.sql} = ${value} AND i."id" ${comparison} ${id})
+            OR ${sort.sql} IS NULL)`,
+    );
+  }
+
+  const page = Prisma.sql`SELECT i."id", ${sort.sql} AS "sortValue" FROM "Item" i
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY "sortValue" ${direction} NULLS LAST, i."id" ${direction}
+    LIMIT ${listQuery.limit + 1}`;
+
+  return { page, count };
+}
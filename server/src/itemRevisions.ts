@@ -0,0 +1,172 @@
+import {
+  EMPTY_FIELD_VALUE,
+  FieldValueColumns,
+  InventoryFieldType,
+  formatFieldValue,
+  hasFieldValue,
+} from "./fieldValues";
+
+// Field values are stored as JSON in a revision, so dates are kept as ISO strings.
+export interface RevisionValue {
+  valueString: string | null;
+  valueNumber: number | null;
+  valueBoolean: boolean | null;
+  valueLink: string | null;
+  valueDate: string | null;
+  valueOptions: string[];
+}
+
+// Title and type are copied into the revision so history still reads well after a field is
+// renamed, converted or removed.
+export interface RevisionFieldChange {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  before: RevisionValue | null;
+  after: RevisionValue | null;
+}
+
+export interface RevisionFieldDefinition {
+  id: string;
+  title: string;
+  type: InventoryFieldType;
+}
+
+export function toRevisionValue(value: FieldValueColumns | null | undefined): RevisionValue | null {
+  if (!value || !hasFieldValue(value)) return null;
+  return {
+    valueString: value.valueString,
+    valueNumber: value.valueNumber,
+    valueBoolean: value.valueBoolean,
+    valueLink: value.valueLink,
+    valueDate: value.valueDate ? value.valueDate.toISOString() : null,
+    valueOptions: [...value.valueOptions],
+  };
+}
+
+export function fromRevisionValue(value: RevisionValue | null): FieldValueColumns {
+  if (!value) return { ...EMPTY_FIELD_VALUE, valueOptions: [] };
+  return {
+    valueString: value.valueString ?? null,
+    valueNumber: value.valueNumber ?? null,
+    valueBoolean: value.valueBoolean ?? null,
+    valueLink: value.valueLink ?? null,
+    valueDate: value.valueDate ? new Date(value.valueDate) : null,
+    valueOptions: Array.isArray(value.valueOptions) ? [...value.valueOptions] : [],
+  };
+}
+
+export function formatRevisionValue(
+  value: RevisionValue | null,
+  type: InventoryFieldType,
+): string | null {
+  return value ? formatFieldValue(fromRevisionValue(value), type) : null;
+}
+
+function isSameRevisionValue(a: RevisionValue | null, b: RevisionValue | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compares the values of an item before and after a save, field by field. Only fields whose
+ * value actually changed are returned, in the order of `fields`.
+ */
+export function diffItemValues(
+  fields: RevisionFieldDefinition[],
+  before: Map<string, FieldValueColumns>,
+  after: Map<string, FieldValueColumns>,
+): RevisionFieldChange[] {
+  const changes: RevisionFieldChange[] = [];
+
+  for (const field of fields) {
+    const previous = toRevisionValue(before.get(field.id));
+    const next = toRevisionValue(after.get(field.id));
+    if (isSameRevisionValue(previous, next)) continue;
+    changes.push({
+      fieldId: field.id,
+      title: field.title,
+      type: field.type,
+      before: previous,
+      after: next,
+    });
+  }
+
+  return changes;
+}
+
+export interface ItemMergeConflict {
+  fieldId: string;
+  title: string;
+  type: InventoryFieldType;
+  base: RevisionValue | null;
+  mine: RevisionValue | null;
+  theirs: RevisionValue | null;
+}
+
+export interface ItemMergeResult {
+  values: Map<string, FieldValueColumns>;
+  conflicts: ItemMergeConflict[];
+  // Fields where the saved (newer) value was kept because only the other side changed it.
+  theirFieldIds: string[];
+}
+
+/**
+ * Rebuilds the values an editor started from by walking the revisions saved after their base
+ * version back to front: the oldest `before` of every touched field is the base value.
+ */
+export function rebuildBaseValues(
+  current: Map<string, FieldValueColumns>,
+  revisionsSinceBase: { changes: RevisionFieldChange[] }[],
+): Map<string, FieldValueColumns> {
+  const base = new Map(current);
+  const newestFirst = [...revisionsSinceBase].reverse();
+  for (const revision of newestFirst) {
+    for (const change of revision.changes) {
+      base.set(change.fieldId, fromRevisionValue(change.before));
+    }
+  }
+  return base;
+}
+
+/**
+ * Three-way merge of item values. A field only conflicts when both sides changed it to different
+ * values; otherwise the side that changed it wins. Conflicting fields keep the saved value.
+ * Without a `base` every field where the two sides differ is a conflict.
+ */
+export function mergeItemValues(
+  fields: RevisionFieldDefinition[],
+  base: Map<string, FieldValueColumns> | null,
+  mine: Map<string, FieldValueColumns>,
+  theirs: Map<string, FieldValueColumns>,
+): ItemMergeResult {
+  const values = new Map<string, FieldValueColumns>();
+  const conflicts: ItemMergeConflict[] = [];
+  const theirFieldIds: string[] = [];
+
+  for (const field of fields) {
+    const baseValue = base ? toRevisionValue(base.get(field.id)) : null;
+    const mineValue = toRevisionValue(mine.get(field.id));
+    const theirValue = toRevisionValue(theirs.get(field.id));
+
+    const differs = !isSameRevisionValue(mineValue, theirValue);
+    const mineChanged = base ? !isSameRevisionValue(mineValue, baseValue) : differs;
+    const theirsChanged = base ? !isSameRevisionValue(theirValue, baseValue) : differs;
+
+    if (mineChanged && theirsChanged && differs) {
+      conflicts.push({
+        fieldId: field.id,
+        title: field.title,
+        type: field.type,
+        base: baseValue,
+        mine: mineValue,
+        theirs: theirValue,
+      });
+    }
+
+    const keepMine = mineChanged && !theirsChanged;
+    if (theirsChanged && differs) theirFieldIds.push(field.id);
+    values.set(field.id, fromRevisionValue(keepMine ? mineValue : theirValue));
+  }
+
+  return { values, conflicts, theirFieldIds };
+}
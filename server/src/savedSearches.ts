@@ -0,0 +1,113 @@
+import { SEARCH_FACETS, SearchFilters } from "./fullTextSearch";
+
+export const MAX_SAVED_SEARCHES_PER_USER = 50;
+const MAX_SAVED_SEARCH_NAME_LENGTH = 100;
+const MAX_SAVED_FILTER_VALUES = 20;
+// New matches recorded per saved search and run; the rest are picked up by the next runs.
+export const MAX_ALERTS_PER_RUN = 50;
+// A check looks back this far before the previous one, for hits whose transactions committed late.
+export const ALERT_CHECK_OVERLAP_MS = 60_000;
+// Alerts listed in the profile, newest first.
+export const MAX_LISTED_ALERTS = 100;
+
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  notify: boolean;
+}
+
+export interface SavedSearchUpdate {
+  name?: string;
+  notify?: boolean;
+}
+
+function readName(input: unknown): { error: string | null; name: string | null } {
+  const name = typeof input === "string" ? input.trim() : "";
+  if (!name) {
+    return { error: "Name is required.", name: null };
+  }
+  if (name.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+    return {
+      error: `Name must be at most ${MAX_SAVED_SEARCH_NAME_LENGTH} characters.`,
+      name: null,
+    };
+  }
+  return { error: null, name };
+}
+
+/** Reads the facet filters of a saved search; anything but lists of strings is dropped. */
+export function readSavedFilters(input: unknown): SearchFilters {
+  const source = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const filters = {} as SearchFilters;
+  for (const facet of SEARCH_FACETS) {
+    const values = Array.isArray(source[facet]) ? source[facet] : [];
+    filters[facet] = Array.from(
+      new Set(
+        values
+          .filter((value): value is string => typeof value === "string")
+          .map((value) => value.trim())
+          .filter((value) => value.length > 0),
+      ),
+    ).slice(0, MAX_SAVED_FILTER_VALUES);
+  }
+  return filters;
+}
+
+/**
+ * Reads `name`, `query`, `filters` (facet → values, as in the search URL) and `notify` of a new
+ * saved search. Whether the query and filters are valid is left to the search itself.
+ */
+export function parseSavedSearchInput(body: unknown): {
+  error: string | null;
+  value: SavedSearchInput | null;
+} {
+  const source = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const { error, name } = readName(source.name);
+  if (error) {
+    return { error, value: null };
+  }
+  if (source.query !== undefined && typeof source.query !== "string") {
+    return { error: "Query must be a string.", value: null };
+  }
+
+  return {
+    error: null,
+    value: {
+      name,
+      query: ((source.query as string | undefined) ?? "").trim(),
+      filters: readSavedFilters(source.filters),
+      notify: source.notify === true,
+    },
+  };
+}
+
+/** Reads the `name` and `notify` changes of a saved search; both are optional. */
+export function parseSavedSearchUpdate(body: unknown): {
+  error: string | null;
+  value: SavedSearchUpdate | null;
+} {
+  const source = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const value: SavedSearchUpdate = {};
+
+  if (source.name !== undefined) {
+    const { error, name } = readName(source.name);
+    if (error) {
+      return { error, value: null };
+    }
+    value.name = name;
+  }
+  if (source.notify !== undefined) {
+    if (typeof source.notify !== "boolean") {
+      return { error: "notify must be true or false.", value: null };
+    }
+    value.notify = source.notify;
+  }
+
+  return { error: null, value };
+}
+
+/** The query string parameters of /api/search a saved search stands for. */
+export function toSearchInput(saved: { query: string; filters: unknown }): Record<string, unknown> {
+  return { q: saved.query, ...readSavedFilters(saved.filters) };
+}
@@ -0,0 +1,662 @@
+import { Prisma } from "./generated/client";
+import { INVENTORY_CATEGORIES, SearchQuery, tagNameCondition } from "./fullTextSearch";
+
+// Parser and compiler of the search box syntax:
+//
+//   laptop "serial number" -broken (dell OR lenovo)
+//   category:BOOK tag:hr owner:alice created:>2026-01-01 "Serial No":>100
+//
+// Words and quoted phrases go to the full-text search; `key:value` filters become SQL conditions
+// on the `scoped` rows of fullTextSearch.ts. Terms are ANDed, OR binds tighter than AND, `-` or
+// NOT negates and parentheses group.
+
+export const SEARCH_FILTER_KEYS = ["category", "tag", "owner", "created"] as const;
+const MAX_QUERY_LENGTH = 500;
+const MAX_QUERY_TERMS = 20;
+
+const NUMBER_FIELD_TYPE = "NUMBER";
+const TEXT_FIELD_TYPES = ["SINGLE_LINE_TEXT", "MULTI_LINE_TEXT", "LINK", "SELECT"];
+// Field types a `"Field name":value` filter can search.
+export const SEARCHABLE_FIELD_TYPES = [NUMBER_FIELD_TYPE, ...TEXT_FIELD_TYPES];
+
+type ComparisonOperator = ">=" | "<=" | ">" | "<" | "=";
+
+export interface SearchSyntaxError {
+  message: string;
+  // Character offset of the offending token in the query text.
+  position: number;
+  token: string;
+}
+
+export type SearchNode =
+  | { type: "and" | "or"; children: SearchNode[] }
+  | { type: "not"; child: SearchNode; position: number }
+  | { type: "words"; terms: string[]; phrase: boolean; position: number }
+  | {
+      type: "filter";
+      key: string;
+      operator: ComparisonOperator | null;
+      value: string;
+      position: number;
+      token: string;
+    };
+
+export interface SearchField {
+  title: string;
+  type: string;
+}
+
+export interface CompiledSearch {
+  // Null when the query has no words, only filters.
+  text: SearchQuery | null;
+  // Condition on alias `s`; null without filters.
+  condition: Prisma.Sql | null;
+  // Field filters only match items, so items must be searched even without words.
+  matchesItemFields: boolean;
+}
+
+type Token =
+  | { type: "lparen" | "rparen" | "not" | "or" | "and"; position: number; text: string }
+  | { type: "word" | "phrase"; position: number; text: string; value: string }
+  | {
+      type: "filter";
+      position: number;
+      text: string;
+      key: string;
+      operator: ComparisonOperator | null;
+      value: string;
+    };
+
+// Thrown inside the parser and turned into the `error` of parseSearchSyntax.
+class SearchSyntaxProblem {
+  constructor(
+    readonly message: string,
+    readonly position: number,
+    readonly token: string,
+  ) {}
+}
+
+const OPERATOR_PATTERN = /^(>=|<=|>|<|=)/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function termsOf(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function isSpace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+function isWordBreak(char: string): boolean {
+  return isSpace(char) || char === '"' || char === "(" || char === ")";
+}
+
+function readQuoted(text: string, start: number): { value: string; end: number } {
+  const close = text.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new SearchSyntaxProblem(
+      'Missing closing quote. Close the phrase with ".',
+      start,
+      text.slice(start),
+    );
+  }
+  return { value: text.slice(start + 1, close), end: close + 1 };
+}
+
+// Reads the value of `key:` starting at `start`: an optional operator and a word or a phrase.
+function readFilterValue(
+  text: string,
+  start: number,
+  key: string,
+  keyPosition: number,
+): { operator: ComparisonOperator | null; value: string; end: number } {
+  const operator = (text.slice(start).match(OPERATOR_PATTERN)?.[1] ?? null) as
+    | ComparisonOperator
+    | null;
+  let index = start + (operator?.length ?? 0);
+
+  if (text[index] === '"') {
+    const quoted = readQuoted(text, index);
+    return { operator, value: quoted.value.trim(), end: quoted.end };
+  }
+
+  const valueStart = index;
+  while (index < text.length && !isWordBreak(text[index])) index += 1;
+  const value = text.slice(valueStart, index);
+  if (!value) {
+    throw new SearchSyntaxProblem(
+      `Missing value after "${key}:". Write it without a space, e.g. ${key}:value.`,
+      keyPosition,
+      text.slice(keyPosition, index),
+    );
+  }
+  return { operator, value, end: index };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    const start = index;
+
+    if (isSpace(char)) {
+      index += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", position: start, text: char });
+      index += 1;
+    } else if (char === "-" && index + 1 < text.length && !isSpace(text[index + 1])) {
+      tokens.push({ type: "not", position: start, text: char });
+      index += 1;
+    } else if (char === '"') {
+      const quoted = readQuoted(text, start);
+      if (text[quoted.end] === ":") {
+        const filter = readFilterValue(text, quoted.end + 1, quoted.value, start);
+        tokens.push({
+          type: "filter",
+          position: start,
+          text: text.slice(start, filter.end),
+          key: quoted.value.trim(),
+          operator: filter.operator,
+          value: filter.value,
+        });
+        index = filter.end;
+      } else {
+        tokens.push({
+          type: "phrase",
+          position: start,
+          text: text.slice(start, quoted.end),
+          value: quoted.value,
+        });
+        index = quoted.end;
+      }
+    } else {
+      while (index < text.length && !isWordBreak(text[index]) && text[index] !== ":") {
+        index += 1;
+      }
+      const word = text.slice(start, index);
+
+      // Keys start with a letter, so times like 10:30 stay words.
+      if (text[index] === ":" && /^\p{L}/u.test(word)) {
+        const filter = readFilterValue(text, index + 1, word, start);
+        tokens.push({
+          type: "filter",
+          position: start,
+          text: text.slice(start, filter.end),
+          key: word,
+          operator: filter.operator,
+          value: filter.value,
+        });
+        index = filter.end;
+      } else {
+        while (index < text.length && !isWordBreak(text[index])) index += 1;
+        const fullWord = text.slice(start, index);
+        if (fullWord === "OR" || fullWord === "AND" || fullWord === "NOT") {
+          const type = fullWord.toLowerCase() as "or" | "and" | "not";
+          tokens.push({ type, position: start, text: fullWord });
+        } else if (termsOf(fullWord).length > 0) {
+          tokens.push({ type: "word", position: start, text: fullWord, value: fullWord });
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly text: string,
+  ) {}
+
+  parse(): SearchNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseAnd();
+    const extra = this.peek();
+    if (extra) {
+      throw new SearchSyntaxProblem(
+        extra.type === "rparen"
+          ? "Unexpected closing parenthesis without an opening one."
+          : `Unexpected "${extra.text}".`,
+        extra.position,
+        extra.text,
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private fail(message: string, token: Token | undefined): never {
+    if (!token) {
+      throw new SearchSyntaxProblem(message, this.text.length, "");
+    }
+    throw new SearchSyntaxProblem(message, token.position, token.text);
+  }
+
+  // Terms next to each other, or joined by AND, must all match.
+  private parseAnd(): SearchNode {
+    const children: SearchNode[] = [];
+    while (this.peek() && this.peek().type !== "rparen") {
+      if (this.peek().type === "and") {
+        const and = this.peek();
+        this.index += 1;
+        if (children.length === 0 || !this.peek() || this.peek().type === "rparen") {
+          this.fail("AND needs a term on both sides.", and);
+        }
+        continue;
+      }
+      children.push(this.parseOr());
+    }
+    if (children.length === 0) {
+      this.fail("Expected a word, phrase or filter here.", this.peek());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseOr(): SearchNode {
+    const children = [this.parseUnary()];
+    while (this.peek()?.type === "or") {
+      const or = this.peek();
+      this.index += 1;
+      if (!this.peek() || ["rparen", "or", "and"].includes(this.peek().type)) {
+        this.fail("OR needs a term on both sides.", or);
+      }
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseUnary(): SearchNode {
+    const token = this.peek();
+    if (!token) {
+      this.fail("The query ends too early.", token);
+    }
+    this.index += 1;
+
+    switch (token.type) {
+      case "not": {
+        if (!this.peek() || ["rparen", "or", "and"].includes(this.peek().type)) {
+          this.fail(`Nothing to negate after "${token.text}".`, token);
+        }
+        return { type: "not", child: this.parseUnary(), position: token.position };
+      }
+      case "lparen": {
+        const node = this.parseAnd();
+        if (this.peek()?.type !== "rparen") {
+          this.fail("Missing closing parenthesis for this one.", token);
+        }
+        this.index += 1;
+        return node;
+      }
+      case "word":
+        return {
+          type: "words",
+          terms: termsOf(token.value),
+          phrase: false,
+          position: token.position,
+        };
+      case "phrase": {
+        const terms = termsOf(token.value);
+        if (terms.length === 0) {
+          this.fail("The phrase has no words to search for.", token);
+        }
+        return { type: "words", terms, phrase: true, position: token.position };
+      }
+      case "filter":
+        return {
+          type: "filter",
+          key: token.key,
+          operator: token.operator,
+          value: token.value,
+          position: token.position,
+          token: token.text,
+        };
+      default:
+        this.fail(`Unexpected "${token.text}". It needs a term before it.`, token);
+    }
+  }
+}
+
+/** Parses the search box syntax into a tree; `root` is null for an empty query. */
+export function parseSearchSyntax(text: string): {
+  error: SearchSyntaxError | null;
+  root: SearchNode | null;
+} {
+  if (text.length > MAX_QUERY_LENGTH) {
+    return {
+      error: {
+        message: `The query is longer than ${MAX_QUERY_LENGTH} characters.`,
+        position: MAX_QUERY_LENGTH,
+        token: text.slice(MAX_QUERY_LENGTH),
+      },
+      root: null,
+    };
+  }
+
+  try {
+    const tokens = tokenize(text);
+    const termCount = tokens.filter((token) => token.type !== "lparen" && token.type !== "rparen");
+    if (termCount.length > MAX_QUERY_TERMS) {
+      const extra = termCount[MAX_QUERY_TERMS];
+      return {
+        error: {
+          message: `Use at most ${MAX_QUERY_TERMS} words, filters and operators.`,
+          position: extra.position,
+          token: extra.text,
+        },
+        root: null,
+      };
+    }
+    return { error: null, root: new Parser(tokens, text).parse() };
+  } catch (problem) {
+    if (problem instanceof SearchSyntaxProblem) {
+      return {
+        error: { message: problem.message, position: problem.position, token: problem.token },
+        root: null,
+      };
+    }
+    throw problem;
+  }
+}
+
+function isReservedKey(key: string): boolean {
+  return SEARCH_FILTER_KEYS.includes(key.toLowerCase() as (typeof SEARCH_FILTER_KEYS)[number]);
+}
+
+/** Titles of the inventory fields a query filters on, to be looked up before compiling it. */
+export function collectFieldTitles(node: SearchNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case "and":
+    case "or":
+      return Array.from(new Set(node.children.flatMap(collectFieldTitles)));
+    case "not":
+      return collectFieldTitles(node.child);
+    case "filter":
+      return isReservedKey(node.key) ? [] : [node.key];
+    default:
+      return [];
+  }
+}
+
+function hasWords(node: SearchNode): boolean {
+  if (node.type === "words") return true;
+  if (node.type === "not") return hasWords(node.child);
+  if (node.type === "and" || node.type === "or") return node.children.some(hasWords);
+  return false;
+}
+
+function hasFilters(node: SearchNode): boolean {
+  if (node.type === "filter") return true;
+  if (node.type === "not") return hasFilters(node.child);
+  if (node.type === "and" || node.type === "or") return node.children.some(hasFilters);
+  return false;
+}
+
+function firstFilter(node: SearchNode): SearchNode & { type: "filter" } {
+  if (node.type === "filter") return node;
+  if (node.type === "not") return firstFilter(node.child);
+  if (node.type === "and" || node.type === "or") {
+    return firstFilter(node.children.find(hasFilters));
+  }
+  return null;
+}
+
+function toTsQuery(node: SearchNode): string {
+  switch (node.type) {
+    case "words":
+      return node.phrase
+        ? `(${node.terms.join(" <-> ")})`
+        : `(${node.terms.map((term) => `${term}:*`).join(" & ")})`;
+    case "not":
+      return `!${toTsQuery(node.child)}`;
+    case "and":
+      return `(${node.children.map(toTsQuery).join(" & ")})`;
+    case "or":
+      return `(${node.children.map(toTsQuery).join(" | ")})`;
+    default:
+      return "";
+  }
+}
+
+// Terms outside any negation; candidates are picked from the indexes by these.
+function positiveTerms(node: SearchNode): string[] {
+  switch (node.type) {
+    case "words":
+      return node.terms;
+    case "and":
+    case "or":
+      return node.children.flatMap(positiveTerms);
+    default:
+      return [];
+  }
+}
+
+// A date without a time stands for the whole UTC day: `end` is the start of the next day.
+function parseDateBound(value: string): { start: Date; end: Date; wholeDay: boolean } | null {
+  if (DATE_ONLY_PATTERN.test(value)) {
+    const start = new Date(`${value}T00:00:00.000Z`);
+    if (Number.isNaN(start.getTime())) return null;
+    return { start, end: new Date(start.getTime() + DAY_MS), wholeDay: true };
+  }
+  const moment = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(value) || Number.isNaN(moment.getTime())) return null;
+  return { start: moment, end: moment, wholeDay: false };
+}
+
+function toContainsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function filterError(node: SearchNode & { type: "filter" }, message: string): never {
+  throw new SearchSyntaxProblem(message, node.position, node.token);
+}
+
+function compileFilter(node: SearchNode & { type: "filter" }, fields: SearchField[]): Prisma.Sql {
+  const key = node.key.toLowerCase();
+  const { operator, value } = node;
+  const isComparison = operator !== null && operator !== "=";
+
+  if (key === "category" || key === "tag" || key === "owner") {
+    if (isComparison) {
+      filterError(node, `${key}: cannot be compared with ${operator}; use ${key}:value.`);
+    }
+    if (key === "category") {
+      const category = value.toUpperCase();
+      if (!INVENTORY_CATEGORIES.includes(category)) {
+        filterError(
+          node,
+          `Unknown category "${value}". Use one of ${INVENTORY_CATEGORIES.join(", ")}.`,
+        );
+      }
+      return Prisma.sql`s."category" = ${category}`;
+    }
+    if (key === "tag") {
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM "InventoryTag" it JOIN "Tag" t ON t."id" = it."tagId"
+        WHERE it."inventoryId" = s."inventoryId" AND ${tagNameCondition([value])}
+      )`;
+    }
+    const pattern = toContainsPattern(value);
+    return Prisma.sql`EXISTS (
+      SELECT 1 FROM "User" u
+      WHERE u."id" = s."ownerId" AND (u."name" ILIKE ${pattern} OR u."email" ILIKE ${pattern})
+    )`;
+  }
+
+  if (key === "created") {
+    const bound = parseDateBound(value);
+    if (!bound) {
+      filterError(node, `"${value}" is not a date. Write dates as YYYY-MM-DD.`);
+    }
+    const { start, end, wholeDay } = bound;
+    switch (operator) {
+      case ">":
+        return wholeDay ? Prisma.sql`s."createdAt" >= ${end}` : Prisma.sql`s."createdAt" > ${end}`;
+      case ">=":
+        return Prisma.sql`s."createdAt" >= ${start}`;
+      case "<":
+        return Prisma.sql`s."createdAt" < ${start}`;
+      case "<=":
+        return wholeDay ? Prisma.sql`s."createdAt" < ${end}` : Prisma.sql`s."createdAt" <= ${end}`;
+      default:
+        return wholeDay
+          ? Prisma.sql`(s."createdAt" >= ${start} AND s."createdAt" < ${end})`
+          : Prisma.sql`s."createdAt" = ${start}`;
+    }
+  }
+
+  const matching = fields.filter((field) => field.title.toLowerCase() === key);
+  if (matching.length === 0) {
+    filterError(
+      node,
+      `Unknown filter or field "${node.key}". Use ${SEARCH_FILTER_KEYS.join(":, ")}: ` +
+        "or the name of an item field.",
+    );
+  }
+
+  const hasNumberField = matching.some((field) => field.type === NUMBER_FIELD_TYPE);
+  const hasTextField = matching.some((field) => TEXT_FIELD_TYPES.includes(field.type));
+  const number = Number(value);
+  const isNumber = value.trim() !== "" && Number.isFinite(number);
+
+  const fieldValueExists = (type: Prisma.Sql, condition: Prisma.Sql) => Prisma.sql`EXISTS (
+    SELECT 1 FROM "ItemFieldValue" v JOIN "InventoryField" f ON f."id" = v."fieldId"
+    WHERE s."kind" = 'item' AND v."itemId" = s."id" AND lower(f."title") = ${key}
+      AND ${type} AND ${condition}
+  )`;
+  const numberType = Prisma.sql`f."type"::text = ${NUMBER_FIELD_TYPE}`;
+
+  if (isComparison) {
+    if (!hasNumberField) {
+      filterError(node, `"${node.key}" is not a number field, so it cannot be compared.`);
+    }
+    if (!isNumber) {
+      filterError(node, `"${value}" is not a number.`);
+    }
+    return fieldValueExists(
+      numberType,
+      Prisma.sql`v."valueNumber" ${Prisma.raw(operator)} ${number}`,
+    );
+  }
+
+  const alternatives: Prisma.Sql[] = [];
+  if (hasNumberField && isNumber) {
+    alternatives.push(fieldValueExists(numberType, Prisma.sql`v."valueNumber" = ${number}`));
+  }
+  if (hasTextField) {
+    const pattern = toContainsPattern(value);
+    alternatives.push(
+      fieldValueExists(
+        Prisma.sql`f."type"::text IN (${Prisma.join(TEXT_FIELD_TYPES)})`,
+        Prisma.sql`(v."valueString" ILIKE ${pattern} OR v."valueLink" ILIKE ${pattern})`,
+      ),
+    );
+  }
+  if (alternatives.length === 0) {
+    filterError(
+      node,
+      hasNumberField
+        ? `"${value}" is not a number.`
+        : `"${node.key}" cannot be searched; only number and text fields can.`,
+    );
+  }
+  return alternatives.length === 1
+    ? alternatives[0]
+    : Prisma.sql`(${Prisma.join(alternatives, " OR ")})`;
+}
+
+function toCondition(node: SearchNode, fields: SearchField[]): Prisma.Sql {
+  switch (node.type) {
+    case "filter":
+      return compileFilter(node, fields);
+    case "not":
+      return Prisma.sql`NOT (${toCondition(node.child, fields)})`;
+    case "and":
+    case "or": {
+      const joiner = node.type === "and" ? " AND " : " OR ";
+      const parts = node.children.map((child) => toCondition(child, fields));
+      return Prisma.sql`(${Prisma.join(parts, joiner)})`;
+    }
+    default:
+      return Prisma.sql`TRUE`;
+  }
+}
+
+function matchesItemFields(node: SearchNode): boolean {
+  if (node.type === "filter") return !isReservedKey(node.key);
+  if (node.type === "not") return matchesItemFields(node.child);
+  if (node.type === "and" || node.type === "or") return node.children.some(matchesItemFields);
+  return false;
+}
+
+/**
+ * Splits a parsed query into the full-text part and the SQL condition of its filters. Parts of the
+ * top-level AND are either words or filters; a group mixing both inside OR or a negation cannot be
+ * split and is reported at its first filter. `fields` are the item fields named by the query.
+ */
+export function compileSearch(
+  root: SearchNode | null,
+  fields: SearchField[],
+): { error: SearchSyntaxError | null; search: CompiledSearch | null } {
+  if (!root) {
+    return { error: null, search: { text: null, condition: null, matchesItemFields: false } };
+  }
+
+  const parts = root.type === "and" ? root.children : [root];
+  const wordParts = parts.filter((part) => hasWords(part) && !hasFilters(part));
+  const filterParts = parts.filter((part) => hasFilters(part) && !hasWords(part));
+  const mixed = parts.find((part) => hasWords(part) && hasFilters(part));
+  if (mixed) {
+    const filter = firstFilter(mixed);
+    return {
+      error: {
+        message:
+          "Filters cannot be combined with words inside OR or a negation; " +
+          "move this filter out of the group.",
+        position: filter.position,
+        token: filter.token,
+      },
+      search: null,
+    };
+  }
+
+  try {
+    const terms = Array.from(new Set(wordParts.flatMap(positiveTerms)));
+    const text: SearchQuery | null =
+      wordParts.length > 0
+        ? {
+            all: wordParts.map(toTsQuery).join(" & "),
+            any: terms.length > 0 ? terms.map((term) => `${term}:*`).join(" | ") : null,
+          }
+        : null;
+    const condition =
+      filterParts.length > 0
+        ? Prisma.join(
+            filterParts.map((part) => toCondition(part, fields)),
+            " AND ",
+          )
+        : null;
+
+    return {
+      error: null,
+      search: { text, condition, matchesItemFields: filterParts.some(matchesItemFields) },
+    };
+  } catch (problem) {
+    if (problem instanceof SearchSyntaxProblem) {
+      return {
+        error: { message: problem.message, position: problem.position, token: problem.token },
+        search: null,
+      };
+    }
+    throw problem;
+  }
+}
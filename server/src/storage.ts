@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+// Where attachment files live. Keys are generated by the server and look like "<inventoryId>/<itemId>/<uuid>".
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable | null>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly rootDir: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export function createFileStorage(): FileStorage {
+  const driver = process.env.ATTACHMENT_STORAGE ?? "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalFileStorage(
+        process.env.ATTACHMENT_STORAGE_DIR ?? path.join(process.cwd(), "uploads"),
+      );
+    default:
+      throw new Error(`Unknown ATTACHMENT_STORAGE: ${driver}`);
+  }
+}
@@ -0,0 +1,59 @@
+export const TAG_NAME_RULES_SETTING_KEY = "tagNameRules";
+export const MAX_TAG_NAME_LENGTH = 50;
+
+export interface TagNameRules {
+  // "HR" → "hr".
+  lowercase: boolean;
+  // "Human resources" → "human-resources": runs of anything but letters and digits become "-".
+  slug: boolean;
+}
+
+// Applies until an admin saves other rules.
+export const DEFAULT_TAG_NAME_RULES: TagNameRules = { lowercase: true, slug: false };
+
+/** Validates `{ lowercase, slug }`; missing flags keep their defaults. */
+export function sanitizeTagNameRules(input: unknown): {
+  error: string | null;
+  rules: TagNameRules;
+} {
+  if (input === null || input === undefined) {
+    return { error: null, rules: { ...DEFAULT_TAG_NAME_RULES } };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Tag name rules must be an object.", rules: { ...DEFAULT_TAG_NAME_RULES } };
+  }
+
+  const rules = { ...DEFAULT_TAG_NAME_RULES };
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (key !== "lowercase" && key !== "slug") {
+      return { error: `Unknown tag name rule: ${key}`, rules: { ...DEFAULT_TAG_NAME_RULES } };
+    }
+    if (typeof value !== "boolean") {
+      return { error: `${key} must be true or false.`, rules: { ...DEFAULT_TAG_NAME_RULES } };
+    }
+    rules[key] = value;
+  }
+  return { error: null, rules };
+}
+
+/**
+ * Brings a tag name into the form the rules ask for. Whitespace is always trimmed and collapsed;
+ * an empty result means the name has nothing left to keep.
+ */
+export function normalizeTagName(name: string, rules: TagNameRules): string {
+  let normalized = name.normalize("NFC").trim().replace(/\s+/g, " ");
+  if (rules.lowercase) {
+    normalized = normalized.toLowerCase();
+  }
+  if (rules.slug) {
+    normalized = normalized.replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "");
+  }
+  return normalized.slice(0, MAX_TAG_NAME_LENGTH).trim();
+}
+
+/** Normalizes a list of tag names, dropping empty names and duplicates, keeping the order. */
+export function normalizeTagNames(names: string[], rules: TagNameRules): string[] {
+  return Array.from(
+    new Set(names.map((name) => normalizeTagName(name, rules)).filter((name) => name.length > 0)),
+  );
+}